@@ -61,7 +61,7 @@ export default function HomeScreen() {
             }
         });
 
-    const handleNavigate = (screen: 'settings' | 'llm-management') => {
+    const handleNavigate = (screen: 'settings' | 'llm-management' | 'search') => {
         closeDrawer();
         router.push(`/${screen}`);
     };
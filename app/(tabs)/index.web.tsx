@@ -29,7 +29,7 @@ export default function HomeScreen() {
     // For mobile: controls drawer open/closed state
     const [sidebarOpen, setSidebarOpen] = useState(!isMobile);
 
-    const handleNavigate = (screen: 'settings' | 'llm-management') => {
+    const handleNavigate = (screen: 'settings' | 'llm-management' | 'search') => {
         if (isMobile) {
             setSidebarOpen(false);
         }
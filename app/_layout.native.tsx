@@ -37,6 +37,7 @@ export default function RootLayout() {
   const loadConfigs = useLLMStore((s) => s.loadConfigs);
   const loadConversations = useConversationStore((s) => s.loadConversations);
   const loadRagConfigs = useRagConfigStore((s) => s.loadConfigs);
+  const startOutbox = useConversationStore((s) => s.startOutbox);
 
   // Expo Router uses Error Boundaries to catch errors in the navigation tree.
   useEffect(() => {
@@ -56,6 +57,9 @@ export default function RootLayout() {
 
       // Re-attach to any background downloads that were running
       await reattachBackgroundDownloads();
+
+      // Send messages that were queued while offline (in the background)
+      startOutbox();
       setAppReady(true);
     };
 
@@ -105,6 +109,13 @@ function RootLayoutNav() {
               presentation: 'modal',
             }}
           />
+          <Stack.Screen
+            name="search"
+            options={{
+              headerShown: false,
+              presentation: 'modal',
+            }}
+          />
           <Stack.Screen
             name="llm-management"
             options={{
@@ -133,6 +144,13 @@ function RootLayoutNav() {
               presentation: 'modal',
             }}
           />
+          <Stack.Screen
+            name="prompt-library"
+            options={{
+              headerShown: false,
+              presentation: 'modal',
+            }}
+          />
 
           <Stack.Screen
             name="language-select"
@@ -176,6 +194,20 @@ function RootLayoutNav() {
               presentation: 'modal',
             }}
           />
+          <Stack.Screen
+            name="generation-stats"
+            options={{
+              headerShown: false,
+              presentation: 'modal',
+            }}
+          />
+          <Stack.Screen
+            name="api-server"
+            options={{
+              headerShown: false,
+              presentation: 'modal',
+            }}
+          />
           <Stack.Screen
             name="welcome"
             options={{
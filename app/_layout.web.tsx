@@ -38,6 +38,7 @@ export default function RootLayout() {
     const loadConfigs = useLLMStore((s) => s.loadConfigs);
     const loadConversations = useConversationStore((s) => s.loadConversations);
     const loadRagConfigs = useRagConfigStore((s) => s.loadConfigs);
+    const startOutbox = useConversationStore((s) => s.startOutbox);
 
     useEffect(() => {
         if (error) throw error;
@@ -51,6 +52,8 @@ export default function RootLayout() {
                 loadConversations(),
                 loadRagConfigs(),
             ]);
+            // Send messages that were queued while offline (in the background)
+            startOutbox();
             setAppReady(true);
         };
 
@@ -100,6 +103,13 @@ function RootLayoutNav() {
                             presentation: 'modal',
                         }}
                     />
+                    <Stack.Screen
+                        name="search"
+                        options={{
+                            headerShown: false,
+                            presentation: 'modal',
+                        }}
+                    />
                     <Stack.Screen
                         name="persona-list"
                         options={{
@@ -114,6 +124,13 @@ function RootLayoutNav() {
                             presentation: 'modal',
                         }}
                     />
+                    <Stack.Screen
+                        name="prompt-library"
+                        options={{
+                            headerShown: false,
+                            presentation: 'modal',
+                        }}
+                    />
                     <Stack.Screen
                         name="language-select"
                         options={{
@@ -156,6 +173,20 @@ function RootLayoutNav() {
                             presentation: 'modal',
                         }}
                     />
+                    <Stack.Screen
+                        name="generation-stats"
+                        options={{
+                            headerShown: false,
+                            presentation: 'modal',
+                        }}
+                    />
+                    <Stack.Screen
+                        name="api-server"
+                        options={{
+                            headerShown: false,
+                            presentation: 'modal',
+                        }}
+                    />
                 </Stack>
             </ThemeProvider>
         </View>
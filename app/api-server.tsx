@@ -0,0 +1,6 @@
+import { ApiServerScreen } from '@/src/ui/screens';
+import { router } from 'expo-router';
+
+export default function ApiServerRoute() {
+    return <ApiServerScreen onBack={() => router.back()} />;
+}
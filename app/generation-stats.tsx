@@ -0,0 +1,6 @@
+import { GenerationStatsScreen } from '@/src/ui/screens';
+import { router } from 'expo-router';
+
+export default function GenerationStatsRoute() {
+    return <GenerationStatsScreen onBack={() => router.back()} />;
+}
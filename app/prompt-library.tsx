@@ -0,0 +1,9 @@
+import { PromptLibraryScreen } from '@/src/ui/screens';
+import { useRouter } from 'expo-router';
+import React from 'react';
+
+export default function PromptLibraryPage() {
+    const router = useRouter();
+
+    return <PromptLibraryScreen onBack={() => router.back()} />;
+}
@@ -0,0 +1,12 @@
+import { SearchScreen } from '@/src/ui/screens';
+import { useRouter } from 'expo-router';
+
+export default function SearchPage() {
+    const router = useRouter();
+
+    return (
+        <SearchScreen
+            onBack={() => router.back()}
+        />
+    );
+}
@@ -5,7 +5,7 @@
  * Models are hosted on Hugging Face and downloaded on first use.
  */
 
-import { DownloadedModelProvider, DownloadedModelType } from '../core/types';
+import { DownloadedModelProvider, DownloadedModelType, ModelTag } from '../core/types';
 import modelsConfig from './models.json';
 
 export interface ModelAssets {
@@ -13,8 +13,12 @@ export interface ModelAssets {
     tokenizer?: string;
     tokenizerConfig?: string;
     mmproj?: string;
+    /** Expected SHA-256 (hex) per asset key, checked after download */
+    sha256?: Partial<Record<AssetKey, string>>;
 }
 
+export type AssetKey = 'model' | 'tokenizer' | 'tokenizerConfig' | 'mmproj';
+
 export interface DownloadableModel {
     id: string;
     name: string;
@@ -23,6 +27,8 @@ export interface DownloadableModel {
     type: DownloadedModelType;
     params: string;
     size: string;
+    /** Extra tags stored on the downloaded model (e.g. 'huggingface' for catalog picks) */
+    tags?: ModelTag[];
     assets: ModelAssets;
 }
 
@@ -9,15 +9,19 @@
  * On web, Metro bundles .web.ts instead.
  */
 
-import { DownloadedModelProvider, DownloadedModelType } from '../core/types';
+import { DownloadedModelProvider, DownloadedModelType, ModelTag } from '../core/types';
 
 export interface ModelAssets {
     model: string;
     tokenizer?: string;
     tokenizerConfig?: string;
     mmproj?: string;
+    /** Expected SHA-256 (hex) per asset key, checked after download */
+    sha256?: Partial<Record<AssetKey, string>>;
 }
 
+export type AssetKey = 'model' | 'tokenizer' | 'tokenizerConfig' | 'mmproj';
+
 export interface DownloadableModel {
     id: string;
     name: string;
@@ -26,6 +30,8 @@ export interface DownloadableModel {
     type: DownloadedModelType;
     params: string;
     size: string;
+    /** Extra tags stored on the downloaded model (e.g. 'huggingface' for catalog picks) */
+    tags?: ModelTag[];
     assets: ModelAssets;
 }
 
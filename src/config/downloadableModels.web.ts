@@ -4,15 +4,19 @@
  * Web stub - Local model downloads are not supported on web platform.
  */
 
-import { DownloadedModelProvider, DownloadedModelType } from '../core/types';
+import { DownloadedModelProvider, DownloadedModelType, ModelTag } from '../core/types';
 
 export interface ModelAssets {
     model: string;
     tokenizer?: string;
     tokenizerConfig?: string;
     mmproj?: string;
+    /** Expected SHA-256 (hex) per asset key, checked after download */
+    sha256?: Partial<Record<AssetKey, string>>;
 }
 
+export type AssetKey = 'model' | 'tokenizer' | 'tokenizerConfig' | 'mmproj';
+
 export interface DownloadableModel {
     id: string;
     name: string;
@@ -21,6 +25,8 @@ export interface DownloadableModel {
     type: DownloadedModelType;
     params: string;
     size: string;
+    /** Extra tags stored on the downloaded model (e.g. 'huggingface' for catalog picks) */
+    tags?: ModelTag[];
     assets: ModelAssets;
 }
 
@@ -67,7 +67,7 @@ export const PROVIDER_LIST: Record<LLMProvider, ProviderConfig> = {
         apiKeyRequired: true,
         isLocal: false,
         platforms: ['android', 'ios', 'web'],
-        capabilities: ['llm'],
+        capabilities: ['llm', 'embedding'],
         isDeletable: true,
         isAddable: true,
         defaultBaseUrl: 'https://api.openai.com/v1',
@@ -81,7 +81,7 @@ export const PROVIDER_LIST: Record<LLMProvider, ProviderConfig> = {
         apiKeyRequired: false,
         isLocal: false,
         platforms: ['android', 'ios', 'web'],
-        capabilities: ['llm'],
+        capabilities: ['llm', 'embedding'],
         isDeletable: true,
         isAddable: true,
         defaultBaseUrl: '',
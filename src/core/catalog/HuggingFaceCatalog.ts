@@ -0,0 +1,180 @@
+/**
+ * Hugging Face Catalog Client
+ *
+ * ModelCatalogClient for the Hugging Face Hub API (or any host exposing the
+ * same endpoints, such as a mirror or a local mock server):
+ * - GET /api/models?search=&filter=gguf      repository search
+ * - GET /api/models/{repo}/tree/main         file listing with sizes
+ * - GET /api/models/{repo}                   card data and GGUF metadata
+ * Files are downloaded from /{repo}/resolve/main/{path}.
+ */
+
+import { TIMEOUTS } from '../../config/constants';
+import {
+    CatalogFile,
+    CatalogModelCard,
+    CatalogRepo,
+    CatalogSearchOptions,
+    ModelCatalogClient,
+} from './types';
+
+export const HUGGING_FACE_BASE_URL = 'https://huggingface.co';
+
+export interface HuggingFaceCatalogConfig {
+    baseUrl?: string;
+    /** Access token for gated or private repositories */
+    token?: string;
+    /** Custom fetch implementation */
+    fetch?: typeof fetch;
+}
+
+// Quantization names as they appear in GGUF file names (Q4_K_M, IQ3_XS, Q8_0, F16, ...)
+const QUANTIZATION_PATTERN = /(?:^|[-_.])(I?Q\d(?:_[A-Z0-9]+)*|BF16|F16|F32)(?=[-_.]|$)/i;
+
+// Split GGUF parts ("-00002-of-00003.gguf"); models split over several files aren't listed
+// since the downloader fetches one weights file per model
+const SPLIT_PART_PATTERN = /-\d{5}-of-\d{5}\.gguf$/i;
+
+// Hub API responses, limited to the fields read here
+
+/** Entry of GET /api/models */
+interface HubRepoResponse {
+    id?: string;
+    modelId?: string;
+    author?: string;
+    downloads?: number;
+    likes?: number;
+    lastModified?: string;
+    tags?: string[];
+}
+
+/** Entry of GET /api/models/{repo}/tree/main */
+interface HubTreeEntry {
+    type: 'file' | 'directory';
+    path: string;
+    size?: number;
+    /** Present for files stored in Git LFS; oid is the SHA-256 of the content */
+    lfs?: { oid: string; size: number };
+}
+
+/** Body of GET /api/models/{repo} */
+interface HubModelInfoResponse {
+    tags?: string[];
+    pipeline_tag?: string;
+    cardData?: {
+        license?: string;
+        license_name?: string;
+        base_model?: string | string[];
+    };
+    gguf?: {
+        total?: number;
+        architecture?: string;
+        context_length?: number;
+        chat_template?: string;
+    };
+}
+
+export function parseQuantization(fileName: string): string | undefined {
+    const baseName = fileName.split('/').pop()!.replace(/\.gguf$/i, '');
+    return baseName.match(QUANTIZATION_PATTERN)?.[1]?.toUpperCase();
+}
+
+export class HuggingFaceCatalog implements ModelCatalogClient {
+    private readonly baseUrl: string;
+    private readonly token?: string;
+    private readonly fetchFn: typeof fetch;
+
+    constructor(config: HuggingFaceCatalogConfig = {}) {
+        this.baseUrl = (config.baseUrl || HUGGING_FACE_BASE_URL).replace(/\/+$/, '');
+        this.token = config.token;
+        this.fetchFn = config.fetch || fetch;
+    }
+
+    async searchModels(query: string, options: CatalogSearchOptions = {}): Promise<CatalogRepo[]> {
+        const params = new URLSearchParams({
+            search: query.trim(),
+            filter: 'gguf',
+            sort: 'downloads',
+            direction: '-1',
+            limit: String(options.limit ?? 20),
+        });
+        const data = await this.getJson<HubRepoResponse[]>(`/api/models?${params.toString()}`);
+
+        return data.map((repo) => ({
+            id: repo.id || repo.modelId || '',
+            author: repo.author ?? repo.id?.split('/')[0],
+            downloads: repo.downloads,
+            likes: repo.likes,
+            updatedAt: repo.lastModified,
+            tags: repo.tags || [],
+        }));
+    }
+
+    async listFiles(repoId: string): Promise<CatalogFile[]> {
+        const entries = await this.getJson<HubTreeEntry[]>(`/api/models/${repoId}/tree/main?recursive=true`);
+
+        return entries
+            .filter((entry) => entry.type === 'file' && /\.gguf$/i.test(entry.path))
+            .filter((entry) => !SPLIT_PART_PATTERN.test(entry.path))
+            .map((entry) => ({
+                path: entry.path,
+                size: entry.lfs?.size ?? entry.size ?? 0,
+                url: this.getFileUrl(repoId, entry.path),
+                quantization: parseQuantization(entry.path),
+                isMmproj: /mmproj/i.test(entry.path),
+                // LFS object ids are the SHA-256 of the file content
+                sha256: entry.lfs?.oid,
+            }))
+            .sort((a, b) => a.size - b.size);
+    }
+
+    async getModelCard(repoId: string): Promise<CatalogModelCard> {
+        const data = await this.getJson<HubModelInfoResponse>(`/api/models/${repoId}`);
+        const cardData = data.cardData || {};
+        const gguf = data.gguf || {};
+        const licenseTag = data.tags?.find((tag) => tag.startsWith('license:'));
+        const baseModel = Array.isArray(cardData.base_model) ? cardData.base_model[0] : cardData.base_model;
+
+        return {
+            license: cardData.license_name || cardData.license || licenseTag?.slice('license:'.length),
+            contextLength: gguf.context_length,
+            chatTemplate: gguf.chat_template,
+            architecture: gguf.architecture,
+            baseModel,
+            parameters: gguf.total,
+            pipelineTag: data.pipeline_tag,
+        };
+    }
+
+    getFileUrl(repoId: string, path: string): string {
+        const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+        return `${this.baseUrl}/${repoId}/resolve/main/${encodedPath}`;
+    }
+
+    private async getJson<T>(path: string): Promise<T> {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), TIMEOUTS.MODEL_FETCH);
+
+        try {
+            const response = await this.fetchFn(`${this.baseUrl}${path}`, {
+                headers: {
+                    Accept: 'application/json',
+                    ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+                },
+                signal: controller.signal,
+            });
+
+            if (!response.ok) {
+                throw new Error(`Catalog request failed: ${response.status} ${response.statusText}`);
+            }
+            return await response.json() as T;
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                throw new Error('Catalog request timed out');
+            }
+            throw error;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
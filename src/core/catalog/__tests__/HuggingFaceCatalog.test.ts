@@ -0,0 +1,112 @@
+import { HuggingFaceCatalog, parseQuantization } from '../HuggingFaceCatalog';
+import { toDownloadableModel } from '../catalogModels';
+import { MockHubServer, startMockHubServer } from './mockHubServer';
+
+const REPO_ID = 'tide/Kelp-1.5B-GGUF';
+
+describe('HuggingFaceCatalog', () => {
+    let hub: MockHubServer;
+    let catalog: HuggingFaceCatalog;
+
+    beforeAll(async () => {
+        hub = await startMockHubServer([
+            {
+                id: REPO_ID,
+                downloads: 1200,
+                tags: ['gguf', 'license:apache-2.0'],
+                files: [
+                    { type: 'file', path: 'README.md', size: 900 },
+                    { type: 'file', path: 'kelp-1.5b-Q8_0.gguf', lfs: { oid: 'b'.repeat(64), size: 1_600_000_000 } },
+                    { type: 'file', path: 'kelp-1.5b-Q4_K_M.gguf', lfs: { oid: 'a'.repeat(64), size: 900_000_000 } },
+                    { type: 'file', path: 'mmproj-kelp-F16.gguf', size: 600_000_000 },
+                    { type: 'file', path: 'big/kelp-1.5b-F32-00001-of-00002.gguf', size: 3_000_000_000 },
+                    { type: 'file', path: 'big/kelp-1.5b-F32-00002-of-00002.gguf', size: 3_000_000_000 },
+                    { type: 'directory', path: 'big' },
+                ],
+                info: {
+                    pipeline_tag: 'text-generation',
+                    cardData: { base_model: ['tide/Kelp-1.5B'] },
+                    gguf: { total: 1_540_000_000, architecture: 'qwen2', context_length: 32768, chat_template: '{{ messages }}' },
+                },
+            },
+            { id: 'reef/Coral-Embed-GGUF', tags: ['gguf'], files: [] },
+        ]);
+        catalog = new HuggingFaceCatalog({ baseUrl: `${hub.baseUrl}/`, token: 'hf_test' });
+    });
+
+    afterAll(async () => {
+        await hub.close();
+    });
+
+    it('searches GGUF repositories', async () => {
+        const repos = await catalog.searchModels(' kelp ', { limit: 5 });
+
+        expect(repos).toEqual([
+            { id: REPO_ID, author: 'tide', downloads: 1200, likes: 0, updatedAt: undefined, tags: ['gguf', 'license:apache-2.0'] },
+        ]);
+        const query = new URL(hub.requests[hub.requests.length - 1].url!, hub.baseUrl).searchParams;
+        expect(query.get('search')).toBe('kelp');
+        expect(query.get('filter')).toBe('gguf');
+        expect(query.get('limit')).toBe('5');
+    });
+
+    it('sends the access token', async () => {
+        await catalog.searchModels('kelp');
+        expect(hub.requests[hub.requests.length - 1].headers.authorization).toBe('Bearer hf_test');
+    });
+
+    it('lists GGUF files by size, leaving out models split into parts', async () => {
+        const files = await catalog.listFiles(REPO_ID);
+
+        expect(files.map((file) => [file.path, file.quantization, file.isMmproj])).toEqual([
+            ['mmproj-kelp-F16.gguf', 'F16', true],
+            ['kelp-1.5b-Q4_K_M.gguf', 'Q4_K_M', false],
+            ['kelp-1.5b-Q8_0.gguf', 'Q8_0', false],
+        ]);
+        expect(files[1]).toMatchObject({
+            size: 900_000_000,
+            sha256: 'a'.repeat(64),
+            url: `${hub.baseUrl}/${REPO_ID}/resolve/main/kelp-1.5b-Q4_K_M.gguf`,
+        });
+    });
+
+    it('reads model card metadata', async () => {
+        await expect(catalog.getModelCard(REPO_ID)).resolves.toEqual({
+            license: 'apache-2.0',
+            contextLength: 32768,
+            chatTemplate: '{{ messages }}',
+            architecture: 'qwen2',
+            baseModel: 'tide/Kelp-1.5B',
+            parameters: 1_540_000_000,
+            pipelineTag: 'text-generation',
+        });
+    });
+
+    it('reports failed requests', async () => {
+        await expect(catalog.listFiles('tide/Missing')).rejects.toThrow('Catalog request failed: 404');
+    });
+
+    it('builds a download from a listed file and its projector', async () => {
+        const [mmproj, weights] = await catalog.listFiles(REPO_ID);
+        const card = await catalog.getModelCard(REPO_ID);
+
+        expect(toDownloadableModel(REPO_ID, weights, card, mmproj)).toMatchObject({
+            id: 'hf-tide-kelp-1-5b-gguf-kelp-1-5b-q4-k-m',
+            provider: 'llama-cpp',
+            type: 'llm',
+            params: '1.5B',
+            assets: { model: weights.url, mmproj: mmproj.url, sha256: { model: 'a'.repeat(64) } },
+        });
+    });
+});
+
+describe('parseQuantization', () => {
+    it.each([
+        ['model-Q4_K_M.gguf', 'Q4_K_M'],
+        ['dir/model.iq3_xs.gguf', 'IQ3_XS'],
+        ['model-bf16.gguf', 'BF16'],
+        ['model.gguf', undefined],
+    ])('reads %s', (fileName, expected) => {
+        expect(parseQuantization(fileName)).toBe(expected);
+    });
+});
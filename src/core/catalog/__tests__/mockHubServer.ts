@@ -0,0 +1,62 @@
+/**
+ * Local HTTP server answering the Hugging Face Hub endpoints used by HuggingFaceCatalog,
+ * so the client can be tested over real HTTP without network access.
+ */
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockRepo {
+    id: string;
+    downloads?: number;
+    tags?: string[];
+    /** Tree entries as returned by /api/models/{repo}/tree/main */
+    files: Array<{ type: 'file' | 'directory'; path: string; size?: number; lfs?: { oid: string; size: number } }>;
+    /** Body of /api/models/{repo} */
+    info?: Record<string, unknown>;
+}
+
+export interface MockHubServer {
+    baseUrl: string;
+    /** Requests received, for asserting on query strings and headers */
+    requests: IncomingMessage[];
+    close: () => Promise<void>;
+}
+
+export async function startMockHubServer(repos: MockRepo[]): Promise<MockHubServer> {
+    const requests: IncomingMessage[] = [];
+
+    const server: Server = createServer((request, response) => {
+        requests.push(request);
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        const send = (status: number, body: unknown) => {
+            response.writeHead(status, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify(body));
+        };
+
+        if (url.pathname === '/api/models') {
+            const search = (url.searchParams.get('search') ?? '').toLowerCase();
+            const limit = Number(url.searchParams.get('limit') ?? 20);
+            const found = repos
+                .filter((repo) => repo.id.toLowerCase().includes(search))
+                .slice(0, limit)
+                .map((repo) => ({ id: repo.id, downloads: repo.downloads ?? 0, likes: 0, tags: repo.tags ?? [] }));
+            return send(200, found);
+        }
+
+        const route = /^\/api\/models\/([^/]+\/[^/]+)(\/tree\/main)?$/.exec(url.pathname);
+        const repo = route && repos.find((r) => r.id === route[1]);
+        if (!repo) {
+            return send(404, { error: 'Repository not found' });
+        }
+        return send(200, route![2] ? repo.files : { id: repo.id, tags: repo.tags ?? [], ...repo.info });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        baseUrl: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+    };
+}
@@ -0,0 +1,78 @@
+/**
+ * Catalog → download conversion
+ *
+ * Turns a catalog file pick into a DownloadableModel for ModelDownloadService.
+ */
+
+import { DownloadableModel } from '../../config/downloadableModels';
+import { CatalogFile, CatalogModelCard } from './types';
+
+// Pipeline tags of embedding repositories
+const EMBEDDING_PIPELINES = ['feature-extraction', 'sentence-similarity'];
+
+/**
+ * Stable download ID for a repository file
+ */
+export function getCatalogModelId(repoId: string, file: CatalogFile): string {
+    const slug = `${repoId}-${file.path.replace(/\.gguf$/i, '')}`
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+    return `hf-${slug}`;
+}
+
+export function formatBytes(bytes: number): string {
+    if (!bytes) return 'Unknown';
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+    return `${parseFloat((bytes / Math.pow(1024, i)).toFixed(1))} ${units[i]}`;
+}
+
+/**
+ * Parameter count label from card metadata or the repository name ("0.6B", "7B", ...)
+ */
+export function getParamsLabel(repoId: string, card?: CatalogModelCard): string {
+    if (card?.parameters) {
+        const billions = card.parameters / 1e9;
+        return billions >= 1 ? `${parseFloat(billions.toFixed(1))}B` : `${Math.round(card.parameters / 1e6)}M`;
+    }
+    return repoId.match(/(\d+(?:\.\d+)?)[bBmM](?![a-zA-Z])/)?.[0]?.toUpperCase() ?? 'GGUF';
+}
+
+/**
+ * Build a llama.cpp download from a repository file.
+ * A multimodal projector, when given, is downloaded alongside the weights.
+ */
+export function toDownloadableModel(
+    repoId: string,
+    file: CatalogFile,
+    card?: CatalogModelCard,
+    mmproj?: CatalogFile
+): DownloadableModel {
+    const fileName = file.path.split('/').pop()!;
+    const details = [
+        file.quantization,
+        card?.architecture,
+        card?.contextLength ? `${card.contextLength} ctx` : undefined,
+        card?.license,
+    ].filter(Boolean);
+
+    return {
+        id: getCatalogModelId(repoId, file),
+        name: `${repoId.split('/').pop()} ${file.quantization ?? fileName}`,
+        description: `${repoId} · ${details.join(' · ') || fileName}`,
+        provider: 'llama-cpp',
+        type: card?.pipelineTag && EMBEDDING_PIPELINES.includes(card.pipelineTag) ? 'embedding' : 'llm',
+        params: getParamsLabel(repoId, card),
+        size: formatBytes(file.size + (mmproj?.size ?? 0)),
+        tags: ['huggingface'],
+        assets: {
+            model: file.url,
+            ...(mmproj ? { mmproj: mmproj.url } : {}),
+            sha256: {
+                model: file.sha256,
+                mmproj: mmproj?.sha256,
+            },
+        },
+    };
+}
@@ -0,0 +1,13 @@
+/**
+ * Model Catalog Module Exports
+ */
+import { HuggingFaceCatalog } from './HuggingFaceCatalog';
+
+export * from './catalogModels';
+export * from './HuggingFaceCatalog';
+export * from './types';
+
+/**
+ * Default catalog used by the models screen
+ */
+export const modelCatalog = new HuggingFaceCatalog();
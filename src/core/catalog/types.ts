@@ -0,0 +1,67 @@
+/**
+ * Model Catalog Types
+ *
+ * A catalog source lists downloadable model repositories and their files.
+ * Clients implement ModelCatalogClient so the UI and tests don't depend
+ * on a specific host (Hugging Face, a mirror, or a local mock server).
+ */
+
+/**
+ * Repository found by a catalog search
+ */
+export interface CatalogRepo {
+    /** Repository ID, e.g. "Qwen/Qwen3-0.6B-GGUF" */
+    id: string;
+    author?: string;
+    downloads?: number;
+    likes?: number;
+    updatedAt?: string;
+    tags: string[];
+}
+
+/**
+ * Downloadable file within a repository
+ */
+export interface CatalogFile {
+    /** Path within the repository */
+    path: string;
+    /** Size in bytes (0 when the host doesn't report it) */
+    size: number;
+    /** Direct download URL */
+    url: string;
+    /** Quantization parsed from the file name, e.g. "Q4_K_M" */
+    quantization?: string;
+    /** Multimodal projector rather than model weights */
+    isMmproj: boolean;
+    /** SHA-256 (hex) of the content when the host publishes it */
+    sha256?: string;
+}
+
+/**
+ * Model card metadata relevant to running the model locally
+ */
+export interface CatalogModelCard {
+    license?: string;
+    contextLength?: number;
+    chatTemplate?: string;
+    architecture?: string;
+    baseModel?: string;
+    /** Total parameter count, when reported */
+    parameters?: number;
+    /** Pipeline tag, e.g. "text-generation" or "feature-extraction" */
+    pipelineTag?: string;
+}
+
+export interface CatalogSearchOptions {
+    /** Maximum number of repositories (default 20) */
+    limit?: number;
+}
+
+export interface ModelCatalogClient {
+    /** Search GGUF repositories, most downloaded first */
+    searchModels(query: string, options?: CatalogSearchOptions): Promise<CatalogRepo[]>;
+    /** List a repository's single-file GGUF weights and projectors */
+    listFiles(repoId: string): Promise<CatalogFile[]>;
+    /** Read model card metadata */
+    getModelCard(repoId: string): Promise<CatalogModelCard>;
+}
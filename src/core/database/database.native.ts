@@ -12,14 +12,18 @@ import {
     LLMConfigModel,
     MessageModel,
     PersonaModel,
+    PromptTemplateModel,
     RAGConfigModel,
     SettingsModel,
+    SourceCollectionModel,
     SourceModel,
 } from './models';
+import { migrations } from './migrations';
 import { schema } from './schema';
 
 const adapter = new SQLiteAdapter({
     schema,
+    migrations,
     dbName: 'lmhub',
     jsi: true, // Enable JSI for better performance
     onSetUpError: (error) => {
@@ -33,9 +37,11 @@ export const database = new Database({
         ConversationModel,
         MessageModel,
         PersonaModel,
+        PromptTemplateModel,
         LLMConfigModel,
         RAGConfigModel,
         SourceModel,
+        SourceCollectionModel,
         DownloadedModelModel,
         SettingsModel,
     ],
@@ -12,14 +12,18 @@ import {
     LLMConfigModel,
     MessageModel,
     PersonaModel,
+    PromptTemplateModel,
     RAGConfigModel,
     SettingsModel,
+    SourceCollectionModel,
     SourceModel,
 } from './models';
+import { migrations } from './migrations';
 import { schema } from './schema';
 
 const adapter = new LokiJSAdapter({
     schema,
+    migrations,
     dbName: 'lmhub',
     useWebWorker: false, // Disable web workers for simplicity
     useIncrementalIndexedDB: true, // Use IndexedDB for persistence
@@ -34,9 +38,11 @@ export const database = new Database({
         ConversationModel,
         MessageModel,
         PersonaModel,
+        PromptTemplateModel,
         LLMConfigModel,
         RAGConfigModel,
         SourceModel,
+        SourceCollectionModel,
         DownloadedModelModel,
         SettingsModel,
     ],
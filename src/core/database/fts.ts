@@ -0,0 +1,45 @@
+/**
+ * Full-Text Search Tables (SQLite only)
+ *
+ * messages_fts is an external-content FTS4 table over messages, kept in sync
+ * by triggers. Rows WatermelonDB marks as deleted are left out of the index.
+ * LokiJS (web) ignores this SQL; web search uses an in-memory index.
+ */
+
+export const MESSAGES_FTS_TABLE = 'messages_fts';
+
+/**
+ * Creates the FTS table and sync triggers.
+ * BEFORE triggers remove old rows while the content table still holds the old values.
+ * Every trigger skips deleted rows, so a row is removed only if it was indexed.
+ */
+export const MESSAGES_FTS_SETUP_SQL = `
+create virtual table if not exists ${MESSAGES_FTS_TABLE} using fts4(content="messages", content, thinking_content, tokenize=unicode61);
+create trigger if not exists ${MESSAGES_FTS_TABLE}_bu before update on messages when old._status is not 'deleted' begin
+    delete from ${MESSAGES_FTS_TABLE} where docid = old.rowid;
+end;
+create trigger if not exists ${MESSAGES_FTS_TABLE}_bd before delete on messages when old._status is not 'deleted' begin
+    delete from ${MESSAGES_FTS_TABLE} where docid = old.rowid;
+end;
+create trigger if not exists ${MESSAGES_FTS_TABLE}_au after update on messages when new._status is not 'deleted' begin
+    insert into ${MESSAGES_FTS_TABLE}(docid, content, thinking_content) values (new.rowid, new.content, new.thinking_content);
+end;
+create trigger if not exists ${MESSAGES_FTS_TABLE}_ai after insert on messages when new._status is not 'deleted' begin
+    insert into ${MESSAGES_FTS_TABLE}(docid, content, thinking_content) values (new.rowid, new.content, new.thinking_content);
+end;
+`;
+
+/**
+ * Drops the sync triggers so MESSAGES_FTS_SETUP_SQL can recreate them.
+ */
+export const MESSAGES_FTS_DROP_TRIGGERS_SQL = ['bu', 'bd', 'au', 'ai']
+    .map((suffix) => `drop trigger if exists ${MESSAGES_FTS_TABLE}_${suffix};`)
+    .join('\n');
+
+/**
+ * Indexes messages that existed before the FTS table was created, except deleted ones.
+ */
+export const MESSAGES_FTS_REBUILD_SQL = `
+insert into ${MESSAGES_FTS_TABLE}(${MESSAGES_FTS_TABLE}) values ('rebuild');
+delete from ${MESSAGES_FTS_TABLE} where docid in (select rowid from messages where _status = 'deleted');
+`;
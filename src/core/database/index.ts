@@ -5,5 +5,6 @@
  */
 export { database, default } from './database';
 export * from './models';
+export { migrations } from './migrations';
 export { schema } from './schema';
 
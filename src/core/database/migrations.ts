@@ -0,0 +1,281 @@
+/**
+ * WatermelonDB Schema Migrations
+ *
+ * One step per schema version bump, so existing databases are upgraded
+ * in place instead of being reset. Keep in sync with schema.ts.
+ */
+import { addColumns, createTable, schemaMigrations, unsafeExecuteSql } from '@nozbe/watermelondb/Schema/migrations';
+import { MESSAGES_FTS_DROP_TRIGGERS_SQL, MESSAGES_FTS_REBUILD_SQL, MESSAGES_FTS_SETUP_SQL } from './fts';
+
+export const migrations = schemaMigrations({
+    migrations: [
+        // v3: Tool calling
+        {
+            toVersion: 3,
+            steps: [
+                addColumns({
+                    table: 'conversations',
+                    columns: [
+                        { name: 'tools_enabled', type: 'boolean', isOptional: true },
+                    ],
+                }),
+                addColumns({
+                    table: 'messages',
+                    columns: [
+                        { name: 'tool_call', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v4: Conversation branching (message tree)
+        {
+            toVersion: 4,
+            steps: [
+                addColumns({
+                    table: 'conversations',
+                    columns: [
+                        { name: 'active_leaf_id', type: 'string', isOptional: true },
+                    ],
+                }),
+                addColumns({
+                    table: 'messages',
+                    columns: [
+                        { name: 'parent_id', type: 'string', isOptional: true, isIndexed: true },
+                    ],
+                }),
+            ],
+        },
+        // v5: Full-text message search (SQLite only, ignored by LokiJS)
+        {
+            toVersion: 5,
+            steps: [
+                unsafeExecuteSql(MESSAGES_FTS_SETUP_SQL + MESSAGES_FTS_REBUILD_SQL),
+            ],
+        },
+        // v6: Multimodal projector for llama.cpp vision models
+        {
+            toVersion: 6,
+            steps: [
+                addColumns({
+                    table: 'downloaded_models',
+                    columns: [
+                        { name: 'mmproj_file_path', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v7: Remote (OpenAI-compatible) embedding providers
+        {
+            toVersion: 7,
+            steps: [
+                addColumns({
+                    table: 'rag_configs',
+                    columns: [
+                        { name: 'llm_config_id', type: 'string', isOptional: true },
+                        { name: 'dimensions', type: 'number', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v8: Per-chunk RAG citations
+        {
+            toVersion: 8,
+            steps: [
+                addColumns({
+                    table: 'messages',
+                    columns: [
+                        { name: 'citations', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v9: Per-config hybrid retrieval settings
+        {
+            toVersion: 9,
+            steps: [
+                addColumns({
+                    table: 'rag_configs',
+                    columns: [
+                        { name: 'retrieval_settings', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v10: Per-conversation and per-persona generation settings
+        {
+            toVersion: 10,
+            steps: [
+                addColumns({
+                    table: 'conversations',
+                    columns: [
+                        { name: 'generation_settings', type: 'string', isOptional: true },
+                    ],
+                }),
+                addColumns({
+                    table: 'personas',
+                    columns: [
+                        { name: 'generation_settings', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v11: Source collections
+        {
+            toVersion: 11,
+            steps: [
+                createTable({
+                    name: 'source_collections',
+                    columns: [
+                        { name: 'name', type: 'string' },
+                        { name: 'description', type: 'string', isOptional: true },
+                        { name: 'source_ids', type: 'string' },
+                        { name: 'rag_config_id', type: 'string', isOptional: true },
+                        { name: 'created_at', type: 'number' },
+                        { name: 'updated_at', type: 'number' },
+                    ],
+                }),
+                addColumns({
+                    table: 'conversations',
+                    columns: [
+                        { name: 'collection_ids', type: 'string', isOptional: true },
+                    ],
+                }),
+                addColumns({
+                    table: 'personas',
+                    columns: [
+                        { name: 'collection_ids', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v12: Prompt template library
+        {
+            toVersion: 12,
+            steps: [
+                createTable({
+                    name: 'prompt_templates',
+                    columns: [
+                        { name: 'name', type: 'string' },
+                        { name: 'description', type: 'string', isOptional: true },
+                        { name: 'content', type: 'string' },
+                        { name: 'created_at', type: 'number' },
+                        { name: 'updated_at', type: 'number' },
+                    ],
+                }),
+            ],
+        },
+        // v13: Compare conversations (targets per conversation, provider and metrics per answer)
+        {
+            toVersion: 13,
+            steps: [
+                addColumns({
+                    table: 'conversations',
+                    columns: [
+                        { name: 'compare_targets', type: 'string', isOptional: true },
+                    ],
+                }),
+                addColumns({
+                    table: 'messages',
+                    columns: [
+                        { name: 'provider_id', type: 'string', isOptional: true },
+                        { name: 'metrics', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v14: Structured output (format per conversation, validation per answer)
+        {
+            toVersion: 14,
+            steps: [
+                addColumns({
+                    table: 'conversations',
+                    columns: [
+                        { name: 'response_format', type: 'string', isOptional: true },
+                    ],
+                }),
+                addColumns({
+                    table: 'messages',
+                    columns: [
+                        { name: 'output_validation', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v15: Character Card V2/V3 fields on personas
+        {
+            toVersion: 15,
+            steps: [
+                addColumns({
+                    table: 'personas',
+                    columns: [
+                        { name: 'first_mes', type: 'string', isOptional: true },
+                        { name: 'alternate_greetings', type: 'string', isOptional: true },
+                        { name: 'mes_example', type: 'string', isOptional: true },
+                        { name: 'creator', type: 'string', isOptional: true },
+                        { name: 'character_version', type: 'string', isOptional: true },
+                        { name: 'tags', type: 'string', isOptional: true },
+                        { name: 'character_book', type: 'string', isOptional: true },
+                        { name: 'avatar', type: 'string', isOptional: true },
+                        { name: 'card_extensions', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v16: Lorebook entries triggered per answer
+        {
+            toVersion: 16,
+            steps: [
+                addColumns({
+                    table: 'messages',
+                    columns: [
+                        { name: 'lore_entries', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v17: Fallback chains (per conversation and persona) and the attempts that failed before an answer
+        {
+            toVersion: 17,
+            steps: [
+                addColumns({
+                    table: 'conversations',
+                    columns: [
+                        { name: 'fallback_targets', type: 'string', isOptional: true },
+                    ],
+                }),
+                addColumns({
+                    table: 'personas',
+                    columns: [
+                        { name: 'fallback_targets', type: 'string', isOptional: true },
+                    ],
+                }),
+                addColumns({
+                    table: 'messages',
+                    columns: [
+                        { name: 'failed_attempts', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v18: Offline outbox (delivery status of prompts waiting for the network)
+        {
+            toVersion: 18,
+            steps: [
+                addColumns({
+                    table: 'messages',
+                    columns: [
+                        { name: 'delivery_status', type: 'string', isOptional: true },
+                        { name: 'delivery_error', type: 'string', isOptional: true },
+                    ],
+                }),
+            ],
+        },
+        // v19: Keep messages marked as deleted out of the full-text index
+        {
+            toVersion: 19,
+            steps: [
+                unsafeExecuteSql(MESSAGES_FTS_DROP_TRIGGERS_SQL + MESSAGES_FTS_SETUP_SQL + MESSAGES_FTS_REBUILD_SQL),
+            ],
+        },
+    ],
+});
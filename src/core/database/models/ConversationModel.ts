@@ -17,6 +17,13 @@ export default class ConversationModel extends Model {
     @field('context_prompt') contextPrompt?: string;
     @json('attached_source_ids', (raw) => raw || []) attachedSourceIds!: number[];
     @field('thinking_enabled') thinkingEnabled!: boolean;
+    @field('tools_enabled') toolsEnabled?: boolean;
+    @field('active_leaf_id') activeLeafId?: string;
+    @json('generation_settings', (raw) => raw || null) generationSettings?: any;
+    @json('collection_ids', (raw) => raw || null) collectionIds?: any;
+    @json('compare_targets', (raw) => raw || null) compareTargets?: any;
+    @json('response_format', (raw) => raw || null) responseFormat?: any;
+    @json('fallback_targets', (raw) => raw || null) fallbackTargets?: any;
     @field('created_at') createdAt!: number;
     @field('updated_at') updatedAt!: number;
 }
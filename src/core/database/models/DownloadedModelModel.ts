@@ -17,6 +17,7 @@ export default class DownloadedModelModel extends Model {
     @field('model_file_path') modelFilePath!: string;
     @field('tokenizer_file_path') tokenizerFilePath!: string;
     @field('tokenizer_config_file_path') tokenizerConfigFilePath!: string;
+    @field('mmproj_file_path') mmprojFilePath?: string;
     @field('size_estimate') sizeEstimate!: string;
     @field('downloaded_size') downloadedSize!: number;
     @field('status') status!: string;
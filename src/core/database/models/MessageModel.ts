@@ -8,15 +8,25 @@ export default class MessageModel extends Model {
     static table = 'messages';
 
     @field('conversation_id') conversationId!: string;
+    @field('parent_id') parentId?: string;
     @field('role') role!: string;
     @field('content') content!: string;
     @field('content_type') contentType!: string;
     @json('images', (raw) => raw || []) images!: any[];
     @field('model_id') modelId!: string;
+    @field('provider_id') providerId?: string;
     @json('usage', (raw) => raw || null) usage?: any;
+    @json('metrics', (raw) => raw || null) metrics?: any;
     @field('thinking_content') thinkingContent?: string;
     @field('context') context?: string;
     @json('context_ids', (raw) => raw || []) contextIds!: number[];
+    @json('citations', (raw) => raw || null) citations?: any;
+    @json('tool_call', (raw) => raw || null) toolCall?: any;
+    @json('output_validation', (raw) => raw || null) outputValidation?: any;
+    @json('lore_entries', (raw) => raw || null) loreEntries?: any;
+    @json('failed_attempts', (raw) => raw || null) failedAttempts?: any;
+    @field('delivery_status') deliveryStatus?: string;
+    @field('delivery_error') deliveryError?: string;
     @field('interrupted') interrupted!: boolean;
     @field('timestamp') timestamp!: number;
 }
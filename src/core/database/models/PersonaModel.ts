@@ -2,7 +2,7 @@
  * Persona Model
  */
 import { Model } from '@nozbe/watermelondb';
-import { field } from '@nozbe/watermelondb/decorators';
+import { field, json } from '@nozbe/watermelondb/decorators';
 
 export default class PersonaModel extends Model {
     static table = 'personas';
@@ -15,6 +15,18 @@ export default class PersonaModel extends Model {
     @field('post_history_instructions') postHistoryInstructions!: string;
     @field('creator_notes') creatorNotes!: string;
     @field('compiled_system_prompt') compiledSystemPrompt!: string;
+    @json('generation_settings', (raw) => raw || null) generationSettings?: any;
+    @json('collection_ids', (raw) => raw || null) collectionIds?: any;
+    @field('first_mes') firstMes?: string;
+    @json('alternate_greetings', (raw) => raw || null) alternateGreetings?: any;
+    @field('mes_example') mesExample?: string;
+    @field('creator') creator?: string;
+    @field('character_version') characterVersion?: string;
+    @json('tags', (raw) => raw || null) tags?: any;
+    @json('character_book', (raw) => raw || null) characterBook?: any;
+    @field('avatar') avatar?: string;
+    @json('card_extensions', (raw) => raw || null) cardExtensions?: any;
+    @json('fallback_targets', (raw) => raw || null) fallbackTargets?: any;
     @field('created_at') createdAt!: number;
     @field('updated_at') updatedAt!: number;
 }
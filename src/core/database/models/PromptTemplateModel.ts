@@ -0,0 +1,15 @@
+/**
+ * Prompt Template Model
+ */
+import { Model } from '@nozbe/watermelondb';
+import { field } from '@nozbe/watermelondb/decorators';
+
+export default class PromptTemplateModel extends Model {
+    static table = 'prompt_templates';
+
+    @field('name') name!: string;
+    @field('description') description?: string;
+    @field('content') content!: string;
+    @field('created_at') createdAt!: number;
+    @field('updated_at') updatedAt!: number;
+}
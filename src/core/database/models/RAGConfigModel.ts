@@ -2,7 +2,7 @@
  * RAG Config Model
  */
 import { Model } from '@nozbe/watermelondb';
-import { field } from '@nozbe/watermelondb/decorators';
+import { field, json } from '@nozbe/watermelondb/decorators';
 
 export default class RAGConfigModel extends Model {
     static table = 'rag_configs';
@@ -13,6 +13,9 @@ export default class RAGConfigModel extends Model {
     @field('model_name') modelName?: string;
     @field('model_path') modelPath?: string;
     @field('tokenizer_path') tokenizerPath?: string;
+    @field('llm_config_id') llmConfigId?: string;
+    @field('dimensions') dimensions?: number;
+    @json('retrieval_settings', (raw) => raw || null) retrievalSettings?: any;
     @field('is_default') isDefault!: boolean;
     @field('created_at') createdAt!: number;
     @field('updated_at') updatedAt!: number;
@@ -0,0 +1,16 @@
+/**
+ * Source Collection Model
+ */
+import { Model } from '@nozbe/watermelondb';
+import { field, json } from '@nozbe/watermelondb/decorators';
+
+export default class SourceCollectionModel extends Model {
+    static table = 'source_collections';
+
+    @field('name') name!: string;
+    @field('description') description?: string;
+    @json('source_ids', (raw) => raw || []) sourceIds!: number[];
+    @field('rag_config_id') ragConfigId?: string;
+    @field('created_at') createdAt!: number;
+    @field('updated_at') updatedAt!: number;
+}
@@ -6,7 +6,9 @@ export { default as DownloadedModelModel } from './DownloadedModelModel';
 export { default as LLMConfigModel } from './LLMConfigModel';
 export { default as MessageModel } from './MessageModel';
 export { default as PersonaModel } from './PersonaModel';
+export { default as PromptTemplateModel } from './PromptTemplateModel';
 export { default as RAGConfigModel } from './RAGConfigModel';
 export { default as SettingsModel } from './SettingsModel';
+export { default as SourceCollectionModel } from './SourceCollectionModel';
 export { default as SourceModel } from './SourceModel';
 
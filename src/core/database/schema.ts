@@ -5,16 +5,19 @@
  * Version control allows future migrations.
  */
 import { appSchema, tableSchema } from '@nozbe/watermelondb';
+import { MESSAGES_FTS_SETUP_SQL } from './fts';
 
 export const schema = appSchema({
-    version: 2,
+    version: 19,
+    // Full-text search table for new SQLite databases (existing ones get it via migration)
+    unsafeSql: (sql, kind) => (kind === 'setup' ? sql + MESSAGES_FTS_SETUP_SQL : sql),
     tables: [
         // Conversations table
         tableSchema({
             name: 'conversations',
             columns: [
                 { name: 'title', type: 'string' },
-                { name: 'type', type: 'string' }, // ConversationType: 'chat' | 'generate'
+                { name: 'type', type: 'string' }, // ConversationType: 'chat' | 'generate' | 'compare'
                 { name: 'provider_id', type: 'string' },
                 { name: 'model_id', type: 'string' },
                 { name: 'provider_type', type: 'string' },
@@ -23,6 +26,13 @@ export const schema = appSchema({
                 { name: 'context_prompt', type: 'string', isOptional: true },
                 { name: 'attached_source_ids', type: 'string' }, // JSON array
                 { name: 'thinking_enabled', type: 'boolean' },
+                { name: 'tools_enabled', type: 'boolean', isOptional: true },
+                { name: 'active_leaf_id', type: 'string', isOptional: true },
+                { name: 'generation_settings', type: 'string', isOptional: true }, // JSON object
+                { name: 'collection_ids', type: 'string', isOptional: true }, // JSON array
+                { name: 'compare_targets', type: 'string', isOptional: true }, // JSON array
+                { name: 'response_format', type: 'string', isOptional: true }, // JSON object
+                { name: 'fallback_targets', type: 'string', isOptional: true }, // JSON array
                 { name: 'created_at', type: 'number' },
                 { name: 'updated_at', type: 'number' },
             ],
@@ -33,15 +43,25 @@ export const schema = appSchema({
             name: 'messages',
             columns: [
                 { name: 'conversation_id', type: 'string', isIndexed: true },
+                { name: 'parent_id', type: 'string', isOptional: true, isIndexed: true },
                 { name: 'role', type: 'string' },
                 { name: 'content', type: 'string' },
                 { name: 'content_type', type: 'string' },
                 { name: 'images', type: 'string' }, // JSON array
                 { name: 'model_id', type: 'string' },
+                { name: 'provider_id', type: 'string', isOptional: true },
                 { name: 'usage', type: 'string' }, // JSON object
+                { name: 'metrics', type: 'string', isOptional: true }, // JSON object
+                { name: 'output_validation', type: 'string', isOptional: true }, // JSON object
+                { name: 'lore_entries', type: 'string', isOptional: true }, // JSON array
+                { name: 'failed_attempts', type: 'string', isOptional: true }, // JSON array
+                { name: 'delivery_status', type: 'string', isOptional: true }, // MessageDeliveryStatus (outbox)
+                { name: 'delivery_error', type: 'string', isOptional: true },
                 { name: 'thinking_content', type: 'string', isOptional: true },
                 { name: 'context', type: 'string', isOptional: true },
                 { name: 'context_ids', type: 'string' }, // JSON array
+                { name: 'citations', type: 'string', isOptional: true }, // JSON array
+                { name: 'tool_call', type: 'string', isOptional: true }, // JSON object
                 { name: 'interrupted', type: 'boolean' },
                 { name: 'timestamp', type: 'number', isIndexed: true },
             ],
@@ -59,6 +79,30 @@ export const schema = appSchema({
                 { name: 'post_history_instructions', type: 'string' },
                 { name: 'creator_notes', type: 'string' },
                 { name: 'compiled_system_prompt', type: 'string' },
+                { name: 'generation_settings', type: 'string', isOptional: true }, // JSON object
+                { name: 'collection_ids', type: 'string', isOptional: true }, // JSON array
+                { name: 'first_mes', type: 'string', isOptional: true },
+                { name: 'alternate_greetings', type: 'string', isOptional: true }, // JSON array
+                { name: 'mes_example', type: 'string', isOptional: true },
+                { name: 'creator', type: 'string', isOptional: true },
+                { name: 'character_version', type: 'string', isOptional: true },
+                { name: 'tags', type: 'string', isOptional: true }, // JSON array
+                { name: 'character_book', type: 'string', isOptional: true }, // JSON object
+                { name: 'avatar', type: 'string', isOptional: true }, // data: URL
+                { name: 'card_extensions', type: 'string', isOptional: true }, // JSON object
+                { name: 'fallback_targets', type: 'string', isOptional: true }, // JSON array
+                { name: 'created_at', type: 'number' },
+                { name: 'updated_at', type: 'number' },
+            ],
+        }),
+
+        // Prompt templates table
+        tableSchema({
+            name: 'prompt_templates',
+            columns: [
+                { name: 'name', type: 'string' },
+                { name: 'description', type: 'string', isOptional: true },
+                { name: 'content', type: 'string' },
                 { name: 'created_at', type: 'number' },
                 { name: 'updated_at', type: 'number' },
             ],
@@ -96,6 +140,9 @@ export const schema = appSchema({
                 { name: 'model_name', type: 'string', isOptional: true },
                 { name: 'model_path', type: 'string', isOptional: true },
                 { name: 'tokenizer_path', type: 'string', isOptional: true },
+                { name: 'llm_config_id', type: 'string', isOptional: true },
+                { name: 'dimensions', type: 'number', isOptional: true },
+                { name: 'retrieval_settings', type: 'string', isOptional: true }, // JSON object
                 { name: 'is_default', type: 'boolean' },
                 { name: 'created_at', type: 'number' },
                 { name: 'updated_at', type: 'number' },
@@ -116,6 +163,19 @@ export const schema = appSchema({
             ],
         }),
 
+        // Source collections table
+        tableSchema({
+            name: 'source_collections',
+            columns: [
+                { name: 'name', type: 'string' },
+                { name: 'description', type: 'string', isOptional: true },
+                { name: 'source_ids', type: 'string' }, // JSON array
+                { name: 'rag_config_id', type: 'string', isOptional: true },
+                { name: 'created_at', type: 'number' },
+                { name: 'updated_at', type: 'number' },
+            ],
+        }),
+
         // Downloaded Models table
         tableSchema({
             name: 'downloaded_models',
@@ -130,6 +190,7 @@ export const schema = appSchema({
                 { name: 'model_file_path', type: 'string' },
                 { name: 'tokenizer_file_path', type: 'string' },
                 { name: 'tokenizer_config_file_path', type: 'string' },
+                { name: 'mmproj_file_path', type: 'string', isOptional: true },
                 { name: 'size_estimate', type: 'string' },
                 { name: 'downloaded_size', type: 'number' },
                 { name: 'status', type: 'string' },
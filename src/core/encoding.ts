@@ -0,0 +1,25 @@
+/**
+ * Binary Encoding Helpers
+ *
+ * Base64 conversion for binary data kept in strings (backups, card images).
+ */
+
+// btoa/atob work on binary strings; convert in slices to stay below argument limits
+const BASE64_CHUNK = 0x2000;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+    }
+    return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
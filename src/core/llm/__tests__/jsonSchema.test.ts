@@ -0,0 +1,90 @@
+import { JsonSchema, validateJsonSchema } from '../jsonSchema';
+
+const personSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', minLength: 1 },
+        age: { type: 'integer', minimum: 0 },
+        address: { $ref: '#/$defs/address' },
+    },
+    required: ['name'],
+    additionalProperties: false,
+    $defs: {
+        address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+    },
+};
+
+describe('validateJsonSchema', () => {
+    it('accepts a valid value', () => {
+        expect(validateJsonSchema({ name: 'Ada', age: 36, address: { city: 'London' } }, personSchema)).toEqual([]);
+    });
+
+    it('reports errors with their location', () => {
+        expect(validateJsonSchema({ age: 1.5, address: {}, extra: true }, personSchema)).toEqual([
+            '$: missing required property "name"',
+            '$.age: expected integer, got number',
+            '$.address: missing required property "city"',
+            '$: unexpected property "extra"',
+        ]);
+    });
+
+    it('follows recursive references into nested values', () => {
+        const tree: JsonSchema = {
+            type: 'object',
+            properties: { children: { type: 'array', items: { $ref: '#' } } },
+        };
+        expect(validateJsonSchema({ children: [{ children: [] }] }, tree)).toEqual([]);
+        expect(validateJsonSchema({ children: [{ children: 'none' }] }, tree)).toEqual([
+            '$.children[0].children: expected array, got string',
+        ]);
+    });
+
+    it.each<[string, JsonSchema]>([
+        ['itself', { $ref: '#' }],
+        ['each other', { $ref: '#/$defs/a', $defs: { a: { $ref: '#/$defs/b' }, b: { $ref: '#/$defs/a' } } }],
+        ['allOf', { allOf: [{ $ref: '#' }] }],
+    ])('reports references looping through %s instead of recursing forever', (_, schema) => {
+        expect(validateJsonSchema({}, schema)).toEqual([expect.stringMatching(/^\$: circular reference #/)]);
+    });
+
+    it('fails anyOf options whose references loop', () => {
+        const schema: JsonSchema = { anyOf: [{ $ref: '#' }] };
+        expect(validateJsonSchema('value', schema)).toEqual(['$: does not match any allowed schema']);
+    });
+
+    it('compares enum and const values regardless of key order', () => {
+        const schema: JsonSchema = {
+            properties: {
+                point: { enum: [{ x: 1, y: 2 }, [1, { a: true, b: null }]] },
+                origin: { const: { x: 0, y: 0 } },
+            },
+        };
+
+        expect(validateJsonSchema({ point: { y: 2, x: 1 }, origin: { y: 0, x: 0 } }, schema)).toEqual([]);
+        expect(validateJsonSchema({ point: [1, { b: null, a: true }] }, schema)).toEqual([]);
+        expect(validateJsonSchema({ point: { x: 1, y: 2, z: 3 }, origin: { x: 0 } }, schema)).toEqual([
+            '$.point: must be one of {"x":1,"y":2}, [1,{"a":true,"b":null}]',
+            '$.origin: must be {"x":0,"y":0}',
+        ]);
+    });
+
+    it('checks anyOf and oneOf on their own when a schema uses both', () => {
+        const schema: JsonSchema = {
+            anyOf: [{ type: 'string' }, { type: 'integer' }],
+            oneOf: [{ type: 'number' }, { type: 'integer' }],
+        };
+
+        // anyOf passes, but an integer matches both oneOf options
+        expect(validateJsonSchema(3, schema)).toEqual(['$: matches more than one schema']);
+        // oneOf passes, anyOf fails
+        expect(validateJsonSchema(1.5, schema)).toEqual(['$: does not match any allowed schema']);
+        // Neither passes
+        expect(validateJsonSchema('text', schema)).toEqual(['$: does not match any allowed schema']);
+    });
+
+    it('reports unresolved references', () => {
+        expect(validateJsonSchema({}, { $ref: '#/$defs/missing' })).toEqual([
+            '$: unresolved reference #/$defs/missing',
+        ]);
+    });
+});
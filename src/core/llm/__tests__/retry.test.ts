@@ -0,0 +1,36 @@
+import { getBackoffDelay, getRetryDelay, isRetryableLLMError, parseRetryAfter } from '../retry';
+import { LLMError, LLMErrorCode } from '../types';
+
+describe('retry policy', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('doubles the delay on each attempt, with jitter', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        expect([0, 1, 2].map((attempt) => getBackoffDelay(attempt, 500))).toEqual([500, 1000, 2000]);
+        expect(getRetryDelay(1)).toBe(2000);
+    });
+
+    it('prefers the server Retry-After and caps every delay', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        expect(getBackoffDelay(0, 500, 3000)).toBe(3000);
+        expect(getBackoffDelay(10, 500)).toBe(20000);
+        expect(getRetryDelay(0, new LLMError('Slow down', LLMErrorCode.RATE_LIMIT, 'openai', undefined, 60000))).toBe(20000);
+    });
+
+    it('parses Retry-After seconds and HTTP dates', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Mon, 19 Oct 2026 10:00:00 GMT'));
+        expect(parseRetryAfter('2')).toBe(2000);
+        expect(parseRetryAfter('Mon, 19 Oct 2026 10:00:05 GMT')).toBe(5000);
+        expect(parseRetryAfter('Mon, 19 Oct 2026 09:00:00 GMT')).toBe(0);
+        expect(parseRetryAfter('soon')).toBeUndefined();
+        expect(parseRetryAfter(null)).toBeUndefined();
+    });
+
+    it('only retries transient errors', () => {
+        expect(isRetryableLLMError(new LLMError('Busy', LLMErrorCode.SERVER_ERROR, 'openai'))).toBe(true);
+        expect(isRetryableLLMError(new LLMError('Bad key', LLMErrorCode.AUTH_ERROR, 'openai'))).toBe(false);
+        expect(isRetryableLLMError(new Error('Busy'))).toBe(false);
+    });
+});
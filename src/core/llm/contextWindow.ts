@@ -0,0 +1,137 @@
+/**
+ * Context Window Budgeting
+ *
+ * Knows the context limit of each provider/model and estimates how many
+ * tokens a prompt will use, so request history can be trimmed to fit.
+ *
+ * Design notes:
+ * - Token counts are estimated (~4 characters per token); no tokenizer is loaded
+ * - Local providers use the configured window (llama.cpp nCtx) or a safe default
+ * - Remote providers are matched against known model families
+ * - Part of the window is reserved for the model's response
+ */
+
+import { LLMConfig } from '../types';
+import { ChatMessage } from './types';
+
+/** Approximate characters per token for English text */
+const CHARS_PER_TOKEN = 4;
+
+/** Fixed per-message overhead for role markers and chat template tokens */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Rough per-image cost; vision encoders use a few hundred to ~1.5k tokens per image */
+const IMAGE_TOKENS = 768;
+
+/** Default llama.cpp context size (matches llamaCppLLMStore default) */
+export const DEFAULT_LLAMA_CPP_CONTEXT = 2048;
+
+/** Default ExecuTorch context size (exported .pte models use 2048) */
+export const DEFAULT_EXECUTORCH_CONTEXT = 2048;
+
+/** Fallback context size for remote models we don't recognize */
+const DEFAULT_REMOTE_CONTEXT = 8192;
+
+/** Ollama's default num_ctx when the model isn't configured otherwise */
+const DEFAULT_OLLAMA_CONTEXT = 4096;
+
+/** Default number of tokens reserved for the response */
+const DEFAULT_OUTPUT_RESERVE = 1024;
+
+/** Never reserve more than this fraction of the window for the response */
+const MAX_OUTPUT_RESERVE_RATIO = 0.25;
+
+/**
+ * Known context windows for remote model families.
+ * First matching pattern wins, so more specific patterns come first.
+ */
+const KNOWN_MODEL_CONTEXT_WINDOWS: Array<{ pattern: RegExp; contextWindow: number }> = [
+    { pattern: /gpt-4\.1/i, contextWindow: 1047576 },
+    { pattern: /gpt-4o|gpt-4-turbo|^o[134](-|$)/i, contextWindow: 128000 },
+    { pattern: /gpt-4-32k/i, contextWindow: 32768 },
+    { pattern: /gpt-4/i, contextWindow: 8192 },
+    { pattern: /gpt-3\.5-turbo/i, contextWindow: 16385 },
+    { pattern: /claude/i, contextWindow: 200000 },
+    { pattern: /llama-?3\.[1-3]|llama3\.[1-3]/i, contextWindow: 131072 },
+    { pattern: /qwen2\.5|qwen3/i, contextWindow: 32768 },
+    { pattern: /mistral|mixtral/i, contextWindow: 32768 },
+    { pattern: /gemma-?3|gemma3/i, contextWindow: 131072 },
+];
+
+/**
+ * Estimate the token count of a piece of text.
+ */
+export function estimateTokens(text: string): number {
+    if (!text) return 0;
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut text to at most maxTokens estimated tokens, at a word boundary where there is one.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+    const maxLength = Math.max(0, Math.floor(maxTokens)) * CHARS_PER_TOKEN;
+    if (text.length <= maxLength) return text;
+
+    const cut = text.slice(0, maxLength);
+    const lastSpace = cut.search(/\s\S*$/);
+    return (/\s/.test(text[maxLength]!) || lastSpace <= 0 ? cut : cut.slice(0, lastSpace)).trimEnd();
+}
+
+/**
+ * Estimate the token count of a single chat message including template overhead.
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+    const toolCallTokens = message.toolCalls
+        ? estimateTokens(JSON.stringify(message.toolCalls))
+        : 0;
+    const imageTokens = (message.images?.length ?? 0) * IMAGE_TOKENS;
+    return estimateTokens(message.content) + toolCallTokens + imageTokens + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Get the total context window (prompt + response) for a provider/model.
+ *
+ * Ollama serves models with its own num_ctx regardless of the model family
+ * window, so its default is used as-is.
+ */
+export function getContextWindow(llmConfig: LLMConfig, modelId?: string): number {
+    switch (llmConfig.provider) {
+        case 'llama-cpp':
+            return llmConfig.llamaCppConfig?.nCtx || DEFAULT_LLAMA_CPP_CONTEXT;
+        case 'executorch':
+            return DEFAULT_EXECUTORCH_CONTEXT;
+        case 'ollama':
+            return DEFAULT_OLLAMA_CONTEXT;
+        default:
+            return lookupKnownContextWindow(modelId || llmConfig.defaultModel) ?? DEFAULT_REMOTE_CONTEXT;
+    }
+}
+
+/**
+ * Get the number of tokens reserved for the model's response.
+ */
+export function getOutputReserve(llmConfig: LLMConfig, contextWindow: number): number {
+    const configured = llmConfig.provider === 'llama-cpp'
+        ? llmConfig.llamaCppConfig?.nPredict
+        : llmConfig.providerSettings?.maxOutputTokens;
+
+    return Math.min(
+        configured ?? DEFAULT_OUTPUT_RESERVE,
+        Math.floor(contextWindow * MAX_OUTPUT_RESERVE_RATIO)
+    );
+}
+
+/**
+ * Get the number of tokens available for the prompt (system + history)
+ * after reserving room for the response.
+ */
+export function getPromptTokenBudget(llmConfig: LLMConfig, modelId?: string): number {
+    const contextWindow = getContextWindow(llmConfig, modelId);
+    return contextWindow - getOutputReserve(llmConfig, contextWindow);
+}
+
+function lookupKnownContextWindow(modelId?: string): number | undefined {
+    if (!modelId) return undefined;
+    return KNOWN_MODEL_CONTEXT_WINDOWS.find((entry) => entry.pattern.test(modelId))?.contextWindow;
+}
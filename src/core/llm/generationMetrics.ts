@@ -0,0 +1,106 @@
+/**
+ * Generation Metrics
+ *
+ * Combines what a provider reports about a completion (token usage, llama.cpp
+ * timings) with timestamps taken by the caller into the metrics saved on a message.
+ */
+
+import { GenerationMetrics, Message, TokenUsage } from '../types';
+import { estimateTokens } from './contextWindow';
+import { LLMTimings } from './types';
+
+export interface GenerationTiming {
+    /** Generated text (content and thinking), used to estimate tokens when none are reported */
+    text: string;
+    startedAt: number;
+    /** First content or thinking token; unset when nothing was generated */
+    firstTokenAt?: number;
+    endedAt: number;
+    usage?: TokenUsage;
+    timings?: LLMTimings;
+}
+
+/**
+ * Usage and metrics for a completion. Providers that report no completion
+ * tokens get an estimate from the text.
+ */
+export function measureGeneration({
+    text,
+    startedAt,
+    firstTokenAt,
+    endedAt,
+    usage,
+    timings,
+}: GenerationTiming): { usage: TokenUsage; metrics: GenerationMetrics } {
+    const completionTokens = usage?.completionTokens ?? estimateTokens(text);
+    const generationSeconds = firstTokenAt ? (endedAt - firstTokenAt) / 1000 : 0;
+    const measuredSpeed = generationSeconds > 0 ? completionTokens / generationSeconds : undefined;
+
+    return {
+        usage: { ...usage, completionTokens },
+        metrics: {
+            latencyMs: endedAt - startedAt,
+            timeToFirstTokenMs: firstTokenAt ? firstTokenAt - startedAt : undefined,
+            promptMs: timings?.promptMs,
+            tokensPerSecond: timings?.tokensPerSecond ?? measuredSpeed,
+            tokensEstimated: usage?.completionTokens === undefined || undefined,
+        },
+    };
+}
+
+/**
+ * Format a duration for metric displays (e.g. 850 ms, 2.4 s)
+ */
+export function formatDuration(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Averages of the answers generated by one provider/model
+ */
+export interface ModelGenerationStats {
+    providerId?: string;
+    modelId: string;
+    answerCount: number;
+    avgTokensPerSecond?: number;
+    avgTimeToFirstTokenMs?: number;
+    avgPromptMs?: number;
+    avgLatencyMs: number;
+    promptTokens: number;
+    completionTokens: number;
+    /** Some answers have estimated token counts */
+    hasEstimatedTokens: boolean;
+}
+
+function average(values: Array<number | undefined>): number | undefined {
+    const known = values.filter((v): v is number => v !== undefined);
+    return known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : undefined;
+}
+
+/**
+ * Summarize answer metrics per provider/model, most used first.
+ * Interrupted answers are left out since their timings are partial.
+ */
+export function summarizeByModel(messages: Message[]): ModelGenerationStats[] {
+    const groups = new Map<string, Message[]>();
+    for (const message of messages) {
+        if (!message.metrics || message.interrupted || message.role !== 'assistant') continue;
+        const key = `${message.providerId || ''}\n${message.modelId}`;
+        groups.set(key, [...(groups.get(key) || []), message]);
+    }
+
+    return Array.from(groups.values())
+        .map((group) => ({
+            providerId: group[0].providerId,
+            modelId: group[0].modelId,
+            answerCount: group.length,
+            avgTokensPerSecond: average(group.map((m) => m.metrics!.tokensPerSecond)),
+            avgTimeToFirstTokenMs: average(group.map((m) => m.metrics!.timeToFirstTokenMs)),
+            avgPromptMs: average(group.map((m) => m.metrics!.promptMs)),
+            avgLatencyMs: average(group.map((m) => m.metrics!.latencyMs))!,
+            promptTokens: group.reduce((sum, m) => sum + (m.usage?.promptTokens ?? 0), 0),
+            completionTokens: group.reduce((sum, m) => sum + (m.usage?.completionTokens ?? 0), 0),
+            hasEstimatedTokens: group.some((m) => m.metrics!.tokensEstimated),
+        }))
+        .sort((a, b) => b.answerCount - a.answerCount);
+}
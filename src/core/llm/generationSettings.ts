@@ -0,0 +1,51 @@
+/**
+ * Generation Settings
+ *
+ * Layered generation parameters. Each provider starts from its own config
+ * (providerSettings, llamaCppConfig, executorchConfig) and applies the
+ * persona, conversation and request overrides on top.
+ */
+
+import { GenerationSettings } from '../types';
+import { LLMGenerateRequest, LLMRequest } from './types';
+
+/**
+ * Merge settings layers left to right; unset fields don't override earlier layers
+ */
+export function mergeGenerationSettings(
+    ...layers: (GenerationSettings | undefined)[]
+): GenerationSettings {
+    const merged: GenerationSettings = {};
+    for (const layer of layers) {
+        if (!layer) continue;
+        for (const [key, value] of Object.entries(layer) as [keyof GenerationSettings, number | undefined][]) {
+            if (value !== undefined && value !== null) {
+                merged[key] = value;
+            }
+        }
+    }
+    return merged;
+}
+
+/**
+ * Resolve the effective settings for a request:
+ * provider config → persona → conversation → request
+ */
+export function resolveGenerationSettings(
+    providerDefaults: GenerationSettings,
+    request: Pick<LLMRequest | LLMGenerateRequest, 'personaSettings' | 'conversationSettings' | 'temperature' | 'maxTokens'>
+): GenerationSettings {
+    return mergeGenerationSettings(
+        providerDefaults,
+        request.personaSettings,
+        request.conversationSettings,
+        { temperature: request.temperature, maxTokens: request.maxTokens }
+    );
+}
+
+/**
+ * Check whether a settings object overrides anything
+ */
+export function hasGenerationSettings(settings?: GenerationSettings): boolean {
+    return !!settings && Object.values(settings).some((value) => value !== undefined && value !== null);
+}
@@ -0,0 +1,68 @@
+/**
+ * Image Helpers
+ *
+ * Attached images are kept as base64 data: URLs so they can be stored with
+ * the message and sent to any provider without touching the file system.
+ */
+
+import { LLMConfig } from '../types';
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(;base64)?,(.*)$/s;
+
+/** Maximum number of images attached to a single message */
+export const MAX_IMAGE_ATTACHMENTS = 4;
+
+/** Fallback MIME type when a data URL doesn't declare one */
+const DEFAULT_IMAGE_MIME_TYPE = 'image/jpeg';
+
+/**
+ * Build a base64 data: URL.
+ */
+export function toDataUrl(base64: string, mimeType: string): string {
+    return `data:${mimeType};base64,${base64}`;
+}
+
+/**
+ * Get the MIME type declared by a data: URL.
+ */
+export function getDataUrlMimeType(url: string): string {
+    return DATA_URL_PATTERN.exec(url)?.[1] || DEFAULT_IMAGE_MIME_TYPE;
+}
+
+/**
+ * Get the base64 payload of a data: URL.
+ */
+export function getDataUrlBase64(url: string): string {
+    return DATA_URL_PATTERN.exec(url)?.[3] ?? '';
+}
+
+/**
+ * Remote model families known to accept image input.
+ * OpenAI-compatible endpoints are assumed to support it; the server decides.
+ */
+const VISION_MODEL_PATTERNS: Partial<Record<LLMConfig['provider'], RegExp>> = {
+    openai: /gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|^o[134](?!-mini)|^o4-mini/i,
+    anthropic: /claude/i,
+    ollama: /llava|vision|-vl|vl:|gemma3|minicpm-v|moondream|bakllava|granite3\.2-vision|mistral-small3/i,
+};
+
+/**
+ * Whether a provider/model can take images.
+ * @param localMultimodal - llama.cpp only: a multimodal projector is loaded
+ */
+export function supportsImageInput(
+    llmConfig: LLMConfig,
+    modelId: string,
+    localMultimodal: boolean = false
+): boolean {
+    switch (llmConfig.provider) {
+        case 'llama-cpp':
+            return localMultimodal;
+        case 'executorch':
+            return false;
+        case 'openai-spec':
+            return true;
+        default:
+            return VISION_MODEL_PATTERNS[llmConfig.provider]?.test(modelId) ?? false;
+    }
+}
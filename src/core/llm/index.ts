@@ -1,5 +1,12 @@
+export * from './contextWindow';
+export * from './generationMetrics';
+export * from './generationSettings';
+export * from './images';
+export * from './jsonSchema';
 export { llmClientFactory } from './LLMClient';
 export { LocalLLMService } from './LocalLLMService';
+export * from './memoryEstimator';
 export * from './providers';
+export * from './retry';
+export * from './structuredOutput';
 export * from './types';
-
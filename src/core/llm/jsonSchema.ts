@@ -0,0 +1,208 @@
+/**
+ * JSON Schema Validation
+ *
+ * Checks structured answers against the schema they were requested with.
+ * Covers the keywords extraction schemas use in practice (types, properties,
+ * required, items, enum/const, string/number/array bounds, pattern, combinators
+ * and local $ref); unknown keywords are ignored.
+ */
+
+export type JsonSchema = {
+    [keyword: string]: unknown;
+};
+
+/** Stop collecting after this many errors */
+const MAX_ERRORS = 20;
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Structural equality of JSON values; object key order doesn't matter
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    const type = typeOf(a);
+    if (type !== typeOf(b) || (type !== 'array' && type !== 'object')) return false;
+
+    if (type === 'array') {
+        const left = a as unknown[];
+        const right = b as unknown[];
+        return left.length === right.length && left.every((item, index) => isEqual(item, right[index]));
+    }
+
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length
+        && keys.every((key) => Object.prototype.hasOwnProperty.call(right, key) && isEqual(left[key], right[key]));
+}
+
+/**
+ * Resolve a local reference such as "#/$defs/address"
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+    if (!ref.startsWith('#')) return undefined;
+    let target: unknown = root;
+    for (const part of ref.slice(1).split('/').filter(Boolean)) {
+        const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+        target = target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+    }
+    return target && typeof target === 'object' ? (target as JsonSchema) : undefined;
+}
+
+/**
+ * @param refs - References followed without moving into the value; seeing one again
+ *   means the schema loops (e.g. {"$ref": "#"}) and would never finish
+ */
+function validateNode(
+    value: unknown,
+    schema: JsonSchema,
+    root: JsonSchema,
+    path: string,
+    errors: string[],
+    refs: string[] = []
+): void {
+    if (errors.length >= MAX_ERRORS) return;
+
+    if (typeof schema.$ref === 'string') {
+        if (refs.includes(schema.$ref)) {
+            errors.push(`${path}: circular reference ${schema.$ref}`);
+            return;
+        }
+        const resolved = resolveRef(root, schema.$ref);
+        if (!resolved) {
+            errors.push(`${path}: unresolved reference ${schema.$ref}`);
+            return;
+        }
+        validateNode(value, resolved, root, path, errors, [...refs, schema.$ref]);
+    }
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+        if (!types.some((type) => matchesType(value, type))) {
+            errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+            return;
+        }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((option) => isEqual(option, value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    }
+    if (schema.const !== undefined && !isEqual(schema.const, value)) {
+        errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'string') {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+            errors.push(`${path}: shorter than ${schema.minLength} characters`);
+        }
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+            errors.push(`${path}: longer than ${schema.maxLength} characters`);
+        }
+        if (typeof schema.pattern === 'string') {
+            try {
+                if (!new RegExp(schema.pattern, 'u').test(value)) {
+                    errors.push(`${path}: does not match pattern ${schema.pattern}`);
+                }
+            } catch {
+                // Patterns JavaScript can't compile are skipped
+            }
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) {
+            errors.push(`${path}: less than ${schema.minimum}`);
+        }
+        if (typeof schema.maximum === 'number' && value > schema.maximum) {
+            errors.push(`${path}: greater than ${schema.maximum}`);
+        }
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+            errors.push(`${path}: must be greater than ${schema.exclusiveMinimum}`);
+        }
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+            errors.push(`${path}: must be less than ${schema.exclusiveMaximum}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+            errors.push(`${path}: fewer than ${schema.minItems} items`);
+        }
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+            errors.push(`${path}: more than ${schema.maxItems} items`);
+        }
+        if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+            value.forEach((item, index) => validateNode(item, schema.items as JsonSchema, root, `${path}[${index}]`, errors));
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const object = value as Record<string, unknown>;
+        const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+
+        if (Array.isArray(schema.required)) {
+            for (const key of schema.required as string[]) {
+                if (!(key in object)) errors.push(`${path}: missing required property "${key}"`);
+            }
+        }
+
+        for (const [key, propertyValue] of Object.entries(object)) {
+            const propertyPath = `${path}.${key}`;
+            if (properties[key]) {
+                validateNode(propertyValue, properties[key], root, propertyPath, errors);
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}: unexpected property "${key}"`);
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                validateNode(propertyValue, schema.additionalProperties as JsonSchema, root, propertyPath, errors);
+            }
+        }
+    }
+
+    if (Array.isArray(schema.allOf)) {
+        for (const sub of schema.allOf as JsonSchema[]) validateNode(value, sub, root, path, errors, refs);
+    }
+    // A schema may use both; each is checked on its own
+    if (Array.isArray(schema.anyOf) && countMatches(value, schema.anyOf as JsonSchema[], root, path, refs) === 0) {
+        errors.push(`${path}: does not match any allowed schema`);
+    }
+    if (Array.isArray(schema.oneOf)) {
+        const matching = countMatches(value, schema.oneOf as JsonSchema[], root, path, refs);
+        if (matching === 0) {
+            errors.push(`${path}: does not match any allowed schema`);
+        } else if (matching > 1) {
+            errors.push(`${path}: matches more than one schema`);
+        }
+    }
+}
+
+/**
+ * Number of combinator options the value is valid against
+ */
+function countMatches(value: unknown, options: JsonSchema[], root: JsonSchema, path: string, refs: string[]): number {
+    return options.filter((sub) => {
+        const optionErrors: string[] = [];
+        validateNode(value, sub, root, path, optionErrors, refs);
+        return optionErrors.length === 0;
+    }).length;
+}
+
+/**
+ * Validate a value against a JSON Schema. Returns readable errors with
+ * JSONPath-like locations ($.items[0].name), empty when the value is valid.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, root: JsonSchema = schema): string[] {
+    const errors: string[] = [];
+    validateNode(value, schema, root, '$', errors);
+    return errors;
+}
@@ -0,0 +1,214 @@
+/**
+ * Memory Estimator
+ *
+ * Rough memory requirements for running a local model, used to label models
+ * as fitting the device and to warn before a load that will likely run out of memory.
+ *
+ * required = weights + KV cache (grows with nCtx) + runtime overhead
+ *
+ * Weights come from the file size when known, otherwise from parameter count
+ * and quantization. The KV cache is estimated from the parameter count since
+ * layer/head counts aren't known before the model is loaded; the estimate is
+ * deliberately on the high side.
+ */
+
+export type ModelFit = 'fits' | 'tight' | 'wont-fit';
+
+export interface DeviceResources {
+    /** Total RAM in bytes (null when unknown) */
+    totalMemory: number | null;
+    /** Free storage in bytes (null when unknown) */
+    freeStorage: number | null;
+}
+
+export interface ModelMemoryInput {
+    /** Model file size in bytes */
+    fileSize?: number;
+    /** Parameter count */
+    parameters?: number;
+    /** Quantization name, e.g. "Q4_K_M" */
+    quantization?: string;
+    /** Context window in tokens */
+    nCtx: number;
+}
+
+export interface MemoryEstimate {
+    weightsBytes: number;
+    kvCacheBytes: number;
+    overheadBytes: number;
+    totalBytes: number;
+}
+
+export interface FitResult {
+    fit: ModelFit;
+    /** Which resource limits the fit */
+    limitedBy?: 'memory' | 'storage';
+    estimate: MemoryEstimate;
+    /** RAM the app can realistically use */
+    usableMemory: number | null;
+    /** Largest standard context size that fits, when the requested one doesn't fit comfortably */
+    suggestedNCtx?: number;
+}
+
+const GB = 1024 * 1024 * 1024;
+
+// Share of total RAM an app can use before the OS kills it
+const USABLE_MEMORY_RATIO = 0.6;
+
+// Required memory above this share of usable memory is "tight"
+const TIGHT_RATIO = 0.8;
+
+// Runtime buffers: fixed cost plus a share of the weights
+const BASE_OVERHEAD_BYTES = 300 * 1024 * 1024;
+const WEIGHTS_OVERHEAD_RATIO = 0.1;
+
+// f16 KV cache bytes per token for a 1B model; scales with sqrt(parameters in billions)
+const KV_BYTES_PER_TOKEN_1B = 64 * 1024;
+
+// Free storage to keep after a download
+const STORAGE_MARGIN_RATIO = 1.1;
+
+// Context sizes offered as suggestions
+const CONTEXT_SIZES = [512, 1024, 2048, 4096, 8192, 16384, 32768, 65536, 131072];
+const MIN_SUGGESTED_CONTEXT = 512;
+
+// Approximate bits per weight for common GGUF quantizations
+const BITS_PER_WEIGHT: Record<string, number> = {
+    F32: 32,
+    F16: 16,
+    BF16: 16,
+    Q8_0: 8.5,
+    Q6_K: 6.6,
+    Q5_K_M: 5.7,
+    Q5_K_S: 5.5,
+    Q5_0: 5.5,
+    Q4_K_M: 4.9,
+    Q4_K_S: 4.6,
+    Q4_0: 4.5,
+    IQ4_XS: 4.3,
+    Q3_K_L: 4.3,
+    Q3_K_M: 3.9,
+    Q3_K_S: 3.5,
+    IQ3_XS: 3.3,
+    Q2_K: 3.4,
+    IQ2_XS: 2.4,
+};
+const DEFAULT_BITS_PER_WEIGHT = 16;
+
+/**
+ * Parse a human readable size ("~2.5 GB", "800 MB") into bytes
+ */
+export function parseSizeString(size?: string): number | undefined {
+    const match = size?.match(/([\d.]+)\s*(TB|GB|MB|KB|B)\b/i);
+    if (!match) return undefined;
+    const units: Record<string, number> = { B: 1, KB: 1024, MB: 1024 ** 2, GB: GB, TB: 1024 * GB };
+    return parseFloat(match[1]!) * units[match[2]!.toUpperCase()]!;
+}
+
+/**
+ * Parse a parameter count label ("1B", "0.6B", "135M") into a number
+ */
+export function parseParameterCount(label?: string): number | undefined {
+    const match = label?.match(/(\d+(?:\.\d+)?)\s*([BM])\b/i);
+    if (!match) return undefined;
+    return parseFloat(match[1]!) * (match[2]!.toUpperCase() === 'B' ? 1e9 : 1e6);
+}
+
+/**
+ * Find a quantization name in a file name or label
+ */
+export function findQuantization(text?: string): string | undefined {
+    return text?.match(/(I?Q\d(?:_[A-Z0-9]+)*|BF16|F16|F32)(?![a-z])/i)?.[1]?.toUpperCase();
+}
+
+export function getBitsPerWeight(quantization?: string): number {
+    if (!quantization) return DEFAULT_BITS_PER_WEIGHT;
+    return BITS_PER_WEIGHT[quantization.toUpperCase()]
+        // Unlisted variants: use the bit count in the name (Q4_1 → ~4.5)
+        ?? (parseInt(quantization.replace(/^I?Q/i, ''), 10) + 0.5 || DEFAULT_BITS_PER_WEIGHT);
+}
+
+function kvBytesPerToken(weightsBytes: number, input: ModelMemoryInput): number {
+    const parameters = input.parameters
+        ?? weightsBytes / (getBitsPerWeight(input.quantization) / 8);
+    return KV_BYTES_PER_TOKEN_1B * Math.sqrt(Math.max(parameters / 1e9, 0.1));
+}
+
+export function estimateModelMemory(input: ModelMemoryInput): MemoryEstimate {
+    const weightsBytes = input.fileSize
+        ?? ((input.parameters ?? 0) * getBitsPerWeight(input.quantization)) / 8;
+    const kvCacheBytes = kvBytesPerToken(weightsBytes, input) * input.nCtx;
+    const overheadBytes = BASE_OVERHEAD_BYTES + weightsBytes * WEIGHTS_OVERHEAD_RATIO;
+
+    return {
+        weightsBytes,
+        kvCacheBytes,
+        overheadBytes,
+        totalBytes: weightsBytes + kvCacheBytes + overheadBytes,
+    };
+}
+
+/**
+ * Largest standard context size whose estimate stays below the "tight" threshold
+ */
+export function suggestContextSize(input: ModelMemoryInput, usableMemory: number): number | undefined {
+    const budget = usableMemory * TIGHT_RATIO;
+    const fitting = CONTEXT_SIZES.filter((nCtx) =>
+        nCtx >= MIN_SUGGESTED_CONTEXT && estimateModelMemory({ ...input, nCtx }).totalBytes <= budget
+    );
+    return fitting[fitting.length - 1];
+}
+
+/**
+ * Check a model against the device's memory and (for downloads) free storage
+ * @param needsDownload - Also require free storage for the file
+ */
+export function checkModelFit(
+    input: ModelMemoryInput,
+    resources: DeviceResources,
+    needsDownload = false
+): FitResult {
+    const estimate = estimateModelMemory(input);
+    const usableMemory = resources.totalMemory ? resources.totalMemory * USABLE_MEMORY_RATIO : null;
+
+    let fit: ModelFit = 'fits';
+    let limitedBy: FitResult['limitedBy'];
+
+    if (usableMemory) {
+        if (estimate.totalBytes > usableMemory) {
+            fit = 'wont-fit';
+            limitedBy = 'memory';
+        } else if (estimate.totalBytes > usableMemory * TIGHT_RATIO) {
+            fit = 'tight';
+            limitedBy = 'memory';
+        }
+    }
+
+    if (needsDownload && resources.freeStorage !== null && fit !== 'wont-fit') {
+        const downloadBytes = estimate.weightsBytes;
+        if (downloadBytes > resources.freeStorage) {
+            fit = 'wont-fit';
+            limitedBy = 'storage';
+        } else if (downloadBytes * STORAGE_MARGIN_RATIO > resources.freeStorage) {
+            fit = 'tight';
+            limitedBy = limitedBy ?? 'storage';
+        }
+    }
+
+    const suggestedNCtx = usableMemory && limitedBy === 'memory'
+        ? suggestContextSize(input, usableMemory)
+        : undefined;
+
+    return {
+        fit,
+        limitedBy,
+        estimate,
+        usableMemory,
+        // Only suggest a context that actually changes the outcome
+        suggestedNCtx: suggestedNCtx && suggestedNCtx < input.nCtx ? suggestedNCtx : undefined,
+    };
+}
+
+export function formatGigabytes(bytes: number): string {
+    return `${(bytes / GB).toFixed(1)} GB`;
+}
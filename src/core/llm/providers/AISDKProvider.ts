@@ -6,12 +6,36 @@
  */
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
-import { streamText } from 'ai';
+import {
+    APICallError,
+    jsonSchema,
+    LanguageModelUsage,
+    ModelMessage,
+    Output,
+    RetryError,
+    streamText,
+    tool,
+    ToolSet,
+} from 'ai';
 import { fetch as expoFetch } from 'expo/fetch';
 import { createOllama } from 'ollama-ai-provider-v2';
 
-import { LLMConfig } from '../../types';
-import { LLMError, LLMErrorCode, LLMGenerateRequest, LLMRequest, LLMStreamChunk } from '../types';
+import { GenerationSettings, LLMConfig, LLMProvider, ResponseFormat, TokenUsage } from '../../types';
+import { resolveGenerationSettings } from '../generationSettings';
+import { getDataUrlBase64 } from '../images';
+import { parseRetryAfter } from '../retry';
+import { isStructuredFormat, parseResponseSchema } from '../structuredOutput';
+import {
+    ChatMessage,
+    LLMError,
+    LLMErrorCode,
+    LLMGenerateRequest,
+    LLMRequest,
+    LLMStreamChunk,
+    LLMToolCall,
+    LLMToolSpec,
+    toToolArgs,
+} from '../types';
 
 /**
  * Creates an AI SDK provider instance based on the LLMConfig
@@ -51,6 +75,168 @@ function getSDKProvider(config: LLMConfig) {
     }
 }
 
+/**
+ * Converts chat messages to AI SDK model messages, including images, tool calls and results
+ */
+function toModelMessages(messages: ChatMessage[]): ModelMessage[] {
+    return messages.map((m): ModelMessage => {
+        if (m.role === 'tool') {
+            return {
+                role: 'tool',
+                content: [{
+                    type: 'tool-result',
+                    toolCallId: m.toolCallId || '',
+                    toolName: m.toolName || '',
+                    output: { type: 'text', value: m.content },
+                }],
+            };
+        }
+        if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+            return {
+                role: 'assistant',
+                content: [
+                    ...(m.content ? [{ type: 'text' as const, text: m.content }] : []),
+                    ...m.toolCalls.map((call) => ({
+                        type: 'tool-call' as const,
+                        toolCallId: call.id,
+                        toolName: call.name,
+                        input: call.args,
+                    })),
+                ],
+            };
+        }
+        if (m.role === 'user' && m.images && m.images.length > 0) {
+            return {
+                role: 'user',
+                content: [
+                    ...m.images.map((image) => ({
+                        type: 'image' as const,
+                        image: getDataUrlBase64(image.url),
+                        mediaType: image.mimeType,
+                    })),
+                    ...(m.content ? [{ type: 'text' as const, text: m.content }] : []),
+                ],
+            };
+        }
+        return { role: m.role, content: m.content };
+    });
+}
+
+/**
+ * Converts tool specs to an AI SDK tool set.
+ * Tools have no execute function, so calls are returned to the caller instead of run here.
+ */
+function toToolSet(tools?: LLMToolSpec[]): ToolSet | undefined {
+    if (!tools || tools.length === 0) return undefined;
+    return Object.fromEntries(tools.map((spec) => [
+        spec.name,
+        tool({
+            description: spec.description,
+            inputSchema: jsonSchema(spec.parameters),
+        }),
+    ]));
+}
+
+/**
+ * Converts a response format to AI SDK structured output, which providers map to
+ * their native JSON mode or JSON Schema support. Free text needs no output spec.
+ */
+function toOutput(format: ResponseFormat | undefined, config: LLMConfig) {
+    if (!isStructuredFormat(format)) return undefined;
+    if (format.type === 'json') return Output.json();
+
+    try {
+        return Output.object({ schema: jsonSchema(parseResponseSchema(format)) });
+    } catch (error) {
+        throw new LLMError(
+            error instanceof Error ? error.message : 'Invalid JSON Schema',
+            LLMErrorCode.INVALID_REQUEST,
+            config.provider
+        );
+    }
+}
+
+/**
+ * Map the LLM config's provider settings to generation settings
+ */
+function getProviderDefaults(config: LLMConfig): GenerationSettings {
+    const { maxOutputTokens, ...settings } = config.providerSettings || {};
+    return { ...settings, maxTokens: maxOutputTokens };
+}
+
+/**
+ * Convert resolved generation settings to AI SDK call settings
+ */
+function toCallSettings(settings: GenerationSettings) {
+    return {
+        temperature: settings.temperature,
+        topP: settings.topP,
+        topK: settings.topK,
+        maxOutputTokens: settings.maxTokens,
+        presencePenalty: settings.presencePenalty,
+        frequencyPenalty: settings.frequencyPenalty,
+    };
+}
+
+/**
+ * Convert AI SDK usage to token usage (providers may leave counts out)
+ */
+function toTokenUsage(usage: LanguageModelUsage): TokenUsage {
+    return {
+        promptTokens: usage.inputTokens,
+        completionTokens: usage.outputTokens,
+        totalTokens: usage.totalTokens,
+    };
+}
+
+/**
+ * Error code for an HTTP error response (no status means the server wasn't reached)
+ */
+function getStatusErrorCode(status: number | undefined, body: string): LLMErrorCode {
+    if (status === undefined) return LLMErrorCode.NETWORK_ERROR;
+    if (status === 401 || status === 403) return LLMErrorCode.AUTH_ERROR;
+    if (status === 404) return LLMErrorCode.MODEL_NOT_FOUND;
+    if (status === 408) return LLMErrorCode.TIMEOUT;
+    if (status === 429) return LLMErrorCode.RATE_LIMIT;
+    if (status >= 500) return LLMErrorCode.SERVER_ERROR;
+    if (/context (length|window)|maximum context|too many tokens/i.test(body)) {
+        return LLMErrorCode.CONTEXT_LENGTH_EXCEEDED;
+    }
+    return LLMErrorCode.INVALID_REQUEST;
+}
+
+/**
+ * Convert an AI SDK or fetch error to an LLMError, so callers can tell transient failures apart
+ */
+function toLLMError(error: unknown, provider: LLMProvider): LLMError {
+    if (error instanceof LLMError) {
+        return error;
+    }
+    if (RetryError.isInstance(error)) {
+        return toLLMError(error.lastError, provider);
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+        return new LLMError('Request cancelled', LLMErrorCode.CANCELLED, provider);
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const cause = error instanceof Error ? error : undefined;
+    if (APICallError.isInstance(error)) {
+        return new LLMError(
+            message,
+            getStatusErrorCode(error.statusCode, error.responseBody || message),
+            provider,
+            cause,
+            parseRetryAfter(error.responseHeaders?.['retry-after'])
+        );
+    }
+    // fetch rejects with a TypeError when the server can't be reached
+    if (error instanceof TypeError) {
+        return new LLMError(message, LLMErrorCode.NETWORK_ERROR, provider, cause);
+    }
+    return new LLMError(message, LLMErrorCode.UNKNOWN, provider, cause);
+}
+
 /**
  * AISDKProvider - Adapter for remote providers using Vercel AI SDK
  */
@@ -63,7 +249,7 @@ export class AISDKProvider {
     async *sendMessageStream(
         request: LLMRequest
     ): AsyncGenerator<LLMStreamChunk, void, unknown> {
-        const { llmConfig, messages, model, temperature, onToken, onThinking } = request;
+        const { llmConfig, messages, model, tools, onToken, onThinking } = request;
         const provider = getSDKProvider(llmConfig);
         const actualModel = model || llmConfig.defaultModel;
 
@@ -71,6 +257,7 @@ export class AISDKProvider {
             provider: llmConfig.provider,
             model: actualModel,
             messageCount: messages.length,
+            toolCount: tools?.length || 0,
         });
 
         this.abortController = new AbortController();
@@ -81,29 +268,27 @@ export class AISDKProvider {
                 ? { ollama: { think: true } }
                 : undefined;
 
-            // Use provider settings from config, with request-level override for temperature
-            const settings = llmConfig.providerSettings || {};
+            // Provider settings from config, overridden by persona, conversation and request
+            const settings = resolveGenerationSettings(getProviderDefaults(llmConfig), request);
 
             const result = streamText({
                 model: provider(actualModel),
-                messages: messages.map((m) => ({
-                    role: m.role,
-                    content: m.content,
-                })),
-                // Request-level temperature takes precedence, then config, then undefined (use default)
-                temperature: temperature ?? settings.temperature,
-                topP: settings.topP,
-                maxOutputTokens: settings.maxOutputTokens,
-                presencePenalty: settings.presencePenalty,
-                frequencyPenalty: settings.frequencyPenalty,
+                messages: toModelMessages(messages),
+                tools: toToolSet(tools),
+                output: toOutput(request.responseFormat, llmConfig),
+                ...toCallSettings(settings),
                 abortSignal: this.abortController.signal,
+                // Retries (and falling back to other providers) are up to the caller
+                maxRetries: 0,
                 providerOptions,
             });
 
             let fullContent = '';
             let thinkingContent = '';
+            let usage: TokenUsage | undefined;
+            const toolCalls: LLMToolCall[] = [];
 
-            // Use fullStream to access both text and reasoning content
+            // Use fullStream to access text, reasoning and tool call content
             for await (const part of result.fullStream) {
                 switch (part.type) {
                     case 'text-delta': {
@@ -122,44 +307,43 @@ export class AISDKProvider {
                         yield { content: '', thinking: part.text, done: false };
                         break;
                     }
-                    case 'error': {
-                        console.error('[AISDKProvider] Stream error:', part.error);
+                    case 'tool-call': {
+                        toolCalls.push({
+                            id: part.toolCallId,
+                            name: part.toolName,
+                            args: toToolArgs(part.input),
+                        });
                         break;
                     }
+                    case 'error': {
+                        // Request failures arrive as stream parts rather than exceptions
+                        throw part.error;
+                    }
                     case 'finish': {
-                        // Stream finished
+                        // Stream finished, usage covers every step
+                        usage = toTokenUsage(part.totalUsage);
                         break;
                     }
                 }
             }
 
             // Final chunk
-            yield { content: '', thinking: thinkingContent || undefined, done: true };
+            yield {
+                content: '',
+                thinking: thinkingContent || undefined,
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                usage,
+                done: true,
+            };
 
             console.log('[AISDKProvider] Stream complete', {
                 contentLength: fullContent.length,
                 thinkingLength: thinkingContent.length,
+                toolCallCount: toolCalls.length,
             });
         } catch (error) {
             console.error('[AISDKProvider] Error:', error);
-
-            if (error instanceof Error && error.name === 'AbortError') {
-                throw new LLMError(
-                    'Request cancelled',
-                    LLMErrorCode.CANCELLED,
-                    llmConfig.provider
-                );
-            }
-
-            if (error instanceof LLMError) {
-                throw error;
-            }
-
-            throw new LLMError(
-                error instanceof Error ? error.message : 'Unknown error',
-                LLMErrorCode.UNKNOWN,
-                llmConfig.provider
-            );
+            throw toLLMError(error, llmConfig.provider);
         } finally {
             this.abortController = null;
         }
@@ -183,7 +367,7 @@ export class AISDKProvider {
     async *sendGenerateStream(
         request: LLMGenerateRequest
     ): AsyncGenerator<LLMStreamChunk, void, unknown> {
-        const { llmConfig, system, prompt, model, temperature, onToken, onThinking } = request;
+        const { llmConfig, system, prompt, model, onToken, onThinking } = request;
         const provider = getSDKProvider(llmConfig);
         const actualModel = model || llmConfig.defaultModel;
 
@@ -202,24 +386,24 @@ export class AISDKProvider {
                 ? { ollama: { think: true } }
                 : undefined;
 
-            // Use provider settings from config, with request-level override for temperature
-            const settings = llmConfig.providerSettings || {};
+            // Provider settings from config, overridden by persona, conversation and request
+            const settings = resolveGenerationSettings(getProviderDefaults(llmConfig), request);
 
             const result = streamText({
                 model: provider(actualModel),
                 system,   // System prompt as separate param
                 prompt,   // Single prompt string (not messages array)
-                temperature: temperature ?? settings.temperature,
-                topP: settings.topP,
-                maxOutputTokens: settings.maxOutputTokens,
-                presencePenalty: settings.presencePenalty,
-                frequencyPenalty: settings.frequencyPenalty,
+                output: toOutput(request.responseFormat, llmConfig),
+                ...toCallSettings(settings),
                 abortSignal: this.abortController.signal,
+                // Retries (and falling back to other providers) are up to the caller
+                maxRetries: 0,
                 providerOptions,
             });
 
             let fullContent = '';
             let thinkingContent = '';
+            let usage: TokenUsage | undefined;
 
             // Use fullStream to access both text and reasoning content
             for await (const part of result.fullStream) {
@@ -241,18 +425,19 @@ export class AISDKProvider {
                         break;
                     }
                     case 'error': {
-                        console.error('[AISDKProvider] Generate stream error:', part.error);
-                        break;
+                        // Request failures arrive as stream parts rather than exceptions
+                        throw part.error;
                     }
                     case 'finish': {
-                        // Stream finished
+                        // Stream finished, usage covers every step
+                        usage = toTokenUsage(part.totalUsage);
                         break;
                     }
                 }
             }
 
             // Final chunk
-            yield { content: '', thinking: thinkingContent || undefined, done: true };
+            yield { content: '', thinking: thinkingContent || undefined, usage, done: true };
 
             console.log('[AISDKProvider] Generate stream complete', {
                 contentLength: fullContent.length,
@@ -260,24 +445,7 @@ export class AISDKProvider {
             });
         } catch (error) {
             console.error('[AISDKProvider] Generate error:', error);
-
-            if (error instanceof Error && error.name === 'AbortError') {
-                throw new LLMError(
-                    'Request cancelled',
-                    LLMErrorCode.CANCELLED,
-                    llmConfig.provider
-                );
-            }
-
-            if (error instanceof LLMError) {
-                throw error;
-            }
-
-            throw new LLMError(
-                error instanceof Error ? error.message : 'Unknown error',
-                LLMErrorCode.UNKNOWN,
-                llmConfig.provider
-            );
+            throw toLLMError(error, llmConfig.provider);
         } finally {
             this.abortController = null;
         }
@@ -7,10 +7,16 @@
  * - Uses setTokenCallback for real-time token streaming (NOT polling)
  * - Processes tokens into thinking/content and calls onToken/onThinking
  * - Checks isStreaming from conversationStore, if false calls llmModule.interrupt()
+ *   (except for background requests such as title generation)
  * - interrupt() calls the native module's interrupt function directly
+ * - No tool calling support; tool messages in history are flattened to text
+ * - Reports the generated token count; timings are measured by the caller
+ * - No constrained decoding; structured output relies on the format instruction in the prompt
  */
 
+import { flattenToolMessages } from '../../tools/toolMessages';
 import { LLMConfig } from '../../types';
+import { resolveGenerationSettings } from '../generationSettings';
 import {
     ILLMProvider,
     LLMError,
@@ -45,7 +51,7 @@ export class ExecuTorchProvider implements ILLMProvider {
     async *sendMessageStream(
         request: LLMRequest
     ): AsyncGenerator<LLMStreamChunk, void, unknown> {
-        const { llmConfig, messages, onToken, onThinking } = request;
+        const { llmConfig, messages, background, onToken, onThinking } = request;
         const state = this.getStoreState();
         const llmModule = state.getLLMModule();
 
@@ -57,7 +63,7 @@ export class ExecuTorchProvider implements ILLMProvider {
             );
         }
 
-        const formattedMessages = messages.map(m => ({
+        const formattedMessages = flattenToolMessages(messages).map(m => ({
             role: m.role as 'user' | 'assistant' | 'system',
             content: m.content,
         }));
@@ -80,13 +86,18 @@ export class ExecuTorchProvider implements ILLMProvider {
         let resolveWait: (() => void) | null = null;
         let generationComplete = false;
 
-        // Get generation config from llmConfig
+        // Generation config from llmConfig, overridden by persona, conversation and request
+        // (ExecuTorch only supports temperature and top-p sampling)
         const genConfig = llmConfig?.executorchConfig;
+        const settings = resolveGenerationSettings({
+            temperature: genConfig?.temperature,
+            topP: genConfig?.topp,
+        }, request);
 
         llmModule.configure({
             generationConfig: {
-                topp: genConfig?.topp ?? 0.9,
-                temperature: genConfig?.temperature ?? 0.7,
+                topp: settings.topP ?? 0.9,
+                temperature: settings.temperature ?? 0.7,
                 outputTokenBatchSize: genConfig?.outputTokenBatchSize,
                 batchTimeInterval: genConfig?.batchTimeInterval,
             }
@@ -95,9 +106,9 @@ export class ExecuTorchProvider implements ILLMProvider {
         // Set up token callback BEFORE calling generate
         llmModule.setTokenCallback({
             tokenCallback: (token: string) => {
-                // Check if streaming was stopped by UI
+                // Check if streaming was stopped by UI (background requests only stop via interrupt())
                 const isStreaming = useConversationStore.getState().isStreaming;
-                if (!isStreaming) {
+                if (!background && !isStreaming) {
                     // User pressed stop - interrupt the model
                     console.log('[ExecuTorchProvider] isStreaming=false, interrupting...');
                     llmModule.interrupt();
@@ -171,6 +182,7 @@ export class ExecuTorchProvider implements ILLMProvider {
             chunkQueue.push({
                 content: '',
                 thinking: thinkingBuffer || undefined,
+                usage: { completionTokens: llmModule.getGeneratedTokenCount() },
                 done: true,
             });
 
@@ -249,6 +261,10 @@ export class ExecuTorchProvider implements ILLMProvider {
             maxTokens: request.maxTokens,
             signal: request.signal,
             thinkingEnabled: request.thinkingEnabled,
+            personaSettings: request.personaSettings,
+            conversationSettings: request.conversationSettings,
+            responseFormat: request.responseFormat,
+            background: request.background,
             onToken: request.onToken,
             onThinking: request.onThinking,
         };
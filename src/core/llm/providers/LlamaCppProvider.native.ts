@@ -7,17 +7,28 @@
  * - Uses context.completion() with token callback for streaming
  * - Processes tokens into thinking/content and calls onToken/onThinking
  * - Checks isStreaming from conversationStore, if false calls stopCompletion()
+ *   (except for background requests such as title generation)
+ * - Tools are passed through the model's jinja chat template; parsed calls come back on the result
+ * - Images are sent as image_url parts when the model's multimodal projector is loaded
+ * - Token counts and timings (prompt processing, generation speed) come from the completion result
+ * - JSON output is enforced with GBNF grammar-constrained decoding: a generic JSON grammar for json,
+ *   llama.cpp's schema-to-grammar conversion for json_schema (skipped when tools are passed,
+ *   since tool calling brings its own grammar)
  * - Based on llama.rn API: https://github.com/mybigday/llama.rn (library is called llama.rn but runs llama.cpp)
  */
 
 import { LLMConfig } from '../../types';
+import { resolveGenerationSettings } from '../generationSettings';
+import { isStructuredFormat, JSON_GBNF, parseResponseSchema } from '../structuredOutput';
 import {
     ILLMProvider,
     LLMError,
     LLMErrorCode,
     LLMGenerateRequest,
     LLMRequest,
-    LLMStreamChunk
+    LLMStreamChunk,
+    LLMToolCall,
+    toToolArgs
 } from '../types';
 
 import { useConversationStore } from '../../../state/conversationStore';
@@ -36,6 +47,28 @@ const STOP_WORDS = [
     '<' + '|endoftext|>'
 ];
 
+/**
+ * Convert llama.rn tool calls (JSON string arguments) to LLMToolCall
+ */
+function parseToolCalls(
+    toolCalls?: Array<{ id?: string; function: { name: string; arguments: string } }>
+): LLMToolCall[] {
+    if (!toolCalls) return [];
+    return toolCalls.map((call, index) => {
+        let args: Record<string, unknown> = {};
+        try {
+            args = call.function.arguments ? toToolArgs(JSON.parse(call.function.arguments)) : {};
+        } catch {
+            console.warn('[LlamaCppProvider] Could not parse tool call arguments:', call.function.arguments);
+        }
+        return {
+            id: call.id || `call_${Date.now()}_${index}`,
+            name: call.function.name,
+            args,
+        };
+    });
+}
+
 export class LlamaCppProvider implements ILLMProvider {
     private getStoreState() {
         return useLlamaCppLLMStore.getState();
@@ -57,7 +90,7 @@ export class LlamaCppProvider implements ILLMProvider {
     async *sendMessageStream(
         request: LLMRequest
     ): AsyncGenerator<LLMStreamChunk, void, unknown> {
-        const { llmConfig, messages, onToken, onThinking } = request;
+        const { llmConfig, messages, tools, responseFormat, background, onToken, onThinking } = request;
         const state = this.getStoreState();
         const context = state.getContext();
 
@@ -69,11 +102,44 @@ export class LlamaCppProvider implements ILLMProvider {
             );
         }
 
+        // Images are only understood when a multimodal projector is loaded
         const formattedMessages = messages.map(m => ({
-            role: m.role as 'user' | 'assistant' | 'system',
-            content: m.content,
+            role: m.role,
+            content: state.isMultimodal && m.images && m.images.length > 0
+                ? [
+                    ...m.images.map(image => ({
+                        type: 'image_url' as const,
+                        image_url: { url: image.url },
+                    })),
+                    { type: 'text' as const, text: m.content },
+                ]
+                : m.content,
+            tool_calls: m.toolCalls?.map(call => ({
+                type: 'function' as const,
+                id: call.id,
+                function: { name: call.name, arguments: JSON.stringify(call.args) },
+            })),
+            tool_call_id: m.toolCallId,
         }));
 
+        const hasTools = !!tools && tools.length > 0;
+
+        // Grammar-constrained decoding for structured output
+        let formatParams: { grammar?: string; json_schema?: string } = {};
+        if (isStructuredFormat(responseFormat) && !hasTools) {
+            try {
+                formatParams = responseFormat.type === 'json_schema'
+                    ? { json_schema: JSON.stringify(parseResponseSchema(responseFormat)) }
+                    : { grammar: JSON_GBNF };
+            } catch (error) {
+                throw new LLMError(
+                    error instanceof Error ? error.message : 'Invalid JSON Schema',
+                    LLMErrorCode.INVALID_REQUEST,
+                    'llama-cpp'
+                );
+            }
+        }
+
         console.log('[LlamaCppProvider] Starting generation with', formattedMessages.length, 'messages');
 
         // Clear previous response and set up for generation
@@ -95,24 +161,42 @@ export class LlamaCppProvider implements ILLMProvider {
         const thinkOpenTag = '<' + 'think>';
         const thinkCloseTag = '<' + '/think>';
 
-        // Get generation config from llmConfig
+        // Generation config from llmConfig, overridden by persona, conversation and request
         const genConfig = llmConfig?.llamaCppConfig;
+        const settings = resolveGenerationSettings({
+            temperature: genConfig?.temperature,
+            topP: genConfig?.topP,
+            maxTokens: genConfig?.nPredict,
+            repeatPenalty: genConfig?.repeatPenalty,
+        }, request);
 
         try {
             // Start generation with token callback
             const completionPromise = context.completion(
                 {
                     messages: formattedMessages,
-                    n_predict: genConfig?.nPredict ?? 2048,
+                    n_predict: settings.maxTokens ?? 2048,
                     stop: STOP_WORDS,
-                    temperature: genConfig?.temperature ?? 0.8,
-                    top_p: genConfig?.topP ?? 0.95,
-                    // Note: repeat_penalty from llamaCppConfig is not currently supported by llama.rn types
+                    temperature: settings.temperature ?? 0.8,
+                    top_p: settings.topP ?? 0.95,
+                    top_k: settings.topK,
+                    penalty_repeat: settings.repeatPenalty,
+                    penalty_present: settings.presencePenalty,
+                    penalty_freq: settings.frequencyPenalty,
+                    ...formatParams,
+                    ...(hasTools && {
+                        jinja: true,
+                        tools: tools.map(t => ({
+                            type: 'function' as const,
+                            function: { name: t.name, description: t.description, parameters: t.parameters },
+                        })),
+                        tool_choice: 'auto',
+                    }),
                 },
                 (data) => {
-                    // Check if streaming was stopped by UI
+                    // Check if streaming was stopped by UI (background requests only stop via interrupt())
                     const isStreaming = useConversationStore.getState().isStreaming;
-                    if (!isStreaming) {
+                    if (!background && !isStreaming) {
                         console.log('[LlamaCppProvider] isStreaming=false, stopping...');
                         context.stopCompletion();
                         return;
@@ -170,9 +254,20 @@ export class LlamaCppProvider implements ILLMProvider {
                 generationComplete = true;
 
                 // Add final chunk
+                const toolCalls = parseToolCalls(result?.tool_calls);
                 chunkQueue.push({
                     content: '',
                     thinking: thinkingBuffer || undefined,
+                    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                    usage: result?.tokens_predicted !== undefined ? {
+                        promptTokens: result.tokens_evaluated,
+                        completionTokens: result.tokens_predicted,
+                        totalTokens: (result.tokens_evaluated ?? 0) + result.tokens_predicted,
+                    } : undefined,
+                    timings: result?.timings && {
+                        promptMs: result.timings.prompt_ms,
+                        tokensPerSecond: result.timings.predicted_per_second,
+                    },
                     done: true,
                 });
 
@@ -245,6 +340,10 @@ export class LlamaCppProvider implements ILLMProvider {
             maxTokens: request.maxTokens,
             signal: request.signal,
             thinkingEnabled: request.thinkingEnabled,
+            personaSettings: request.personaSettings,
+            conversationSettings: request.conversationSettings,
+            responseFormat: request.responseFormat,
+            background: request.background,
             onToken: request.onToken,
             onThinking: request.onThinking,
         };
@@ -0,0 +1,63 @@
+/**
+ * Retry Policy
+ *
+ * Decides which LLM errors are worth retrying and how long to wait before
+ * each retry. Used by the conversation store, which moves on to the next
+ * target of a fallback chain once the retries for a target run out; the
+ * backoff and Retry-After parsing are shared with OpenAIEmbeddings.
+ *
+ * Design notes:
+ * - Only transient failures are retried (rate limits, server and network errors, timeouts)
+ * - Delays double on each attempt with jitter, honoring Retry-After when the server sends it
+ * - Local providers are never retried: their failures don't go away on their own
+ */
+
+import { LLMError, LLMErrorCode } from './types';
+
+/** Retries per target before falling back to the next one */
+export const MAX_LLM_RETRIES = 2;
+
+/** Delay before the first retry; doubles on each attempt */
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 20000;
+
+const RETRYABLE_ERROR_CODES: ReadonlySet<LLMErrorCode> = new Set([
+    LLMErrorCode.RATE_LIMIT,
+    LLMErrorCode.SERVER_ERROR,
+    LLMErrorCode.NETWORK_ERROR,
+    LLMErrorCode.TIMEOUT,
+]);
+
+/**
+ * Whether the error is transient, so retrying or falling back may succeed
+ */
+export function isRetryableLLMError(error: unknown): error is LLMError {
+    return error instanceof LLMError && RETRYABLE_ERROR_CODES.has(error.code);
+}
+
+/**
+ * Delay before retry number attempt (0-based): baseDelayMs doubled per attempt with jitter,
+ * or the server's Retry-After when known, capped at MAX_RETRY_DELAY_MS
+ */
+export function getBackoffDelay(attempt: number, baseDelayMs: number, retryAfterMs?: number): number {
+    const backoff = baseDelayMs * 2 ** attempt * (0.5 + Math.random());
+    return Math.min(retryAfterMs ?? backoff, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Delay before retry number attempt (0-based) of an LLM request
+ */
+export function getRetryDelay(attempt: number, error?: LLMError): number {
+    return getBackoffDelay(attempt, BASE_RETRY_DELAY_MS, error?.retryAfterMs);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
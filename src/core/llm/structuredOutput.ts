@@ -0,0 +1,125 @@
+/**
+ * Structured Output
+ *
+ * Helpers for conversations that ask for JSON instead of free text: the
+ * instruction added to the prompt, the GBNF grammar llama.cpp decodes with in
+ * JSON mode, and validation of the finished answer against the schema.
+ */
+
+import { OutputValidation, ResponseFormat } from '../types';
+import { JsonSchema, validateJsonSchema } from './jsonSchema';
+
+/**
+ * Grammar restricting llama.cpp output to a JSON object or array
+ * (adapted from llama.cpp grammars/json.gbnf)
+ */
+export const JSON_GBNF = String.raw`root   ::= (object | array) ws
+value  ::= object | array | string | number | ("true" | "false" | "null") ws
+
+object ::=
+  "{" ws (
+            string ":" ws value
+    ("," ws string ":" ws value)*
+  )? "}" ws
+
+array  ::=
+  "[" ws (
+            value
+    ("," ws value)*
+  )? "]" ws
+
+string ::=
+  "\"" (
+    [^"\\\x7F\x00-\x1F] |
+    "\\" (["\\/bfnrt] | "u" [0-9a-fA-F]{4})
+  )* "\"" ws
+
+number ::= ("-"? ([0-9] | [1-9] [0-9]{0,15})) ("." [0-9]+)? ([eE] [-+]? [0-9] [1-9]{0,15})? ws
+
+ws ::= | " " | "\n" [ \t]{0,20}
+`;
+
+/**
+ * Whether a format asks for JSON (unset means free text)
+ */
+export function isStructuredFormat(format?: ResponseFormat): format is ResponseFormat & { type: 'json' | 'json_schema' } {
+    return !!format && format.type !== 'text';
+}
+
+/**
+ * Parse the schema of a json_schema format.
+ * Throws with a readable message when the schema text isn't a JSON object.
+ */
+export function parseResponseSchema(format: ResponseFormat): JsonSchema {
+    let schema: unknown;
+    try {
+        schema = JSON.parse(format.schema || '');
+    } catch (error) {
+        throw new Error(`Invalid JSON Schema: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        throw new Error('Invalid JSON Schema: must be a JSON object');
+    }
+    return schema as JsonSchema;
+}
+
+/**
+ * Instruction added to the system prompt so every provider knows what to produce.
+ * Also required by OpenAI-compatible JSON mode, which rejects prompts without "JSON".
+ */
+export function getFormatInstruction(format?: ResponseFormat): string | undefined {
+    if (!isStructuredFormat(format)) return undefined;
+
+    const instruction = 'Respond with valid JSON only, without any other text or code fences.';
+    if (format.type === 'json_schema' && format.schema?.trim()) {
+        return `${instruction} The JSON must match this JSON Schema:\n${format.schema.trim()}`;
+    }
+    return instruction;
+}
+
+/**
+ * Strip a surrounding ```json code fence, which models add despite instructions
+ */
+export function extractJson(content: string): string {
+    const trimmed = content.trim();
+    const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+    return fenced ? fenced[1].trim() : trimmed;
+}
+
+/**
+ * Parse a structured answer, undefined when it isn't valid JSON
+ */
+export function parseJsonOutput(content: string): unknown {
+    try {
+        return JSON.parse(extractJson(content));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Check a finished answer against the format it was requested with.
+ * Returns undefined for free text.
+ */
+export function validateStructuredOutput(content: string, format?: ResponseFormat): OutputValidation | undefined {
+    if (!isStructuredFormat(format)) return undefined;
+
+    let value: unknown;
+    try {
+        value = JSON.parse(extractJson(content));
+    } catch (error) {
+        return {
+            type: format.type,
+            errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+        };
+    }
+
+    if (format.type === 'json_schema') {
+        try {
+            return { type: format.type, errors: validateJsonSchema(value, parseResponseSchema(format)) };
+        } catch (error) {
+            return { type: format.type, errors: [error instanceof Error ? error.message : String(error)] };
+        }
+    }
+    return { type: format.type, errors: [] };
+}
@@ -1,11 +1,71 @@
-import { LLMConfig, LLMProvider } from '../types';
+import { GenerationSettings, LLMConfig, LLMProvider, ResponseFormat, TokenUsage } from '../types';
 
 /**
  * Message format for LLM requests
+ *
+ * Tool calling:
+ * - assistant messages may carry toolCalls requested by the model
+ * - tool messages carry the result for toolCallId
+ *
+ * Images attached to user messages are sent to vision-capable models;
+ * providers without image support drop them.
  */
 export interface ChatMessage {
-    role: 'user' | 'assistant' | 'system';
+    role: 'user' | 'assistant' | 'system' | 'tool';
     content: string;
+    images?: ChatImage[];
+    toolCalls?: LLMToolCall[];
+    toolCallId?: string;
+    toolName?: string;
+}
+
+/**
+ * Image attached to a chat message
+ */
+export interface ChatImage {
+    /** data: URL with base64 image content */
+    url: string;
+    mimeType: string;
+}
+
+/**
+ * JSON Schema describing tool parameters (object schema)
+ */
+export interface ToolParametersSchema {
+    type: 'object';
+    properties: Record<string, {
+        type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+        description?: string;
+        enum?: string[];
+        items?: { type: string };
+    }>;
+    required?: string[];
+}
+
+/**
+ * Tool made available to the model for a request
+ */
+export interface LLMToolSpec {
+    name: string;
+    description: string;
+    parameters: ToolParametersSchema;
+}
+
+/**
+ * Tool call requested by the model
+ */
+export interface LLMToolCall {
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+/**
+ * Tool call arguments as an object. Models sometimes send null, a number,
+ * a string or an array instead; those become no arguments.
+ */
+export function toToolArgs(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
 }
 
 /**
@@ -21,6 +81,33 @@ export interface LLMRequest {
     signal?: AbortSignal;
     thinkingEnabled?: boolean;
 
+    /**
+     * Generation overrides from the persona and the conversation.
+     * Merged over the provider config as persona → conversation → request
+     * (temperature/maxTokens above); see resolveGenerationSettings().
+     */
+    personaSettings?: GenerationSettings;
+    conversationSettings?: GenerationSettings;
+
+    /**
+     * Tools the model may call. Providers that don't support tool calling ignore this.
+     * Requested calls are returned on the final stream chunk; the caller executes them.
+     */
+    tools?: LLMToolSpec[];
+
+    /**
+     * Request isn't part of the conversation being streamed (e.g. title generation).
+     * Local providers normally stop when the conversation stops streaming;
+     * background requests are only stopped through interrupt().
+     */
+    background?: boolean;
+
+    /**
+     * Requested output format (free text when unset). Mapped to native structured
+     * output or grammar-constrained decoding where the provider supports it.
+     */
+    responseFormat?: ResponseFormat;
+
     /**
      * Callback invoked with accumulated content on each token.
      * Used by stores to update UI during streaming.
@@ -47,6 +134,11 @@ export interface LLMGenerateRequest {
     maxTokens?: number;
     signal?: AbortSignal;
     thinkingEnabled?: boolean;
+    personaSettings?: GenerationSettings;
+    conversationSettings?: GenerationSettings;
+    responseFormat?: ResponseFormat;
+    /** Not part of a conversation being streamed; see LLMRequest.background */
+    background?: boolean;
     onToken?: (content: string) => void;
     onThinking?: (content: string) => void;
 }
@@ -76,14 +168,30 @@ export interface LLMResponse {
     metadata?: Record<string, unknown>;
 }
 
+/**
+ * Generation timings reported by a provider.
+ * Providers leave out what they can't measure; callers time the rest themselves.
+ */
+export interface LLMTimings {
+    /** Time spent processing the prompt */
+    promptMs?: number;
+    /** Completion tokens generated per second */
+    tokensPerSecond?: number;
+}
+
 /**
  * Streaming chunk from LLM
  */
 export interface LLMStreamChunk {
     content: string;
     done: boolean;
-    usage?: LLMResponse['usage'];
+    /** Token counts known to the provider (final chunk only) */
+    usage?: TokenUsage;
+    /** Provider timings (final chunk only) */
+    timings?: LLMTimings;
     thinking?: string;
+    /** Tool calls requested by the model (final chunk only) */
+    toolCalls?: LLMToolCall[];
 }
 
 /**
@@ -111,7 +219,9 @@ export class LLMError extends Error {
         message: string,
         public readonly code: LLMErrorCode,
         public readonly provider: LLMProvider,
-        public readonly cause?: Error
+        public readonly cause?: Error,
+        /** Delay the server asked for before retrying (Retry-After) */
+        public readonly retryAfterMs?: number
     ) {
         super(message);
         this.name = 'LLMError';
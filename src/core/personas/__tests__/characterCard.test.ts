@@ -0,0 +1,112 @@
+import { strFromU8 } from 'fflate';
+import { base64ToBytes } from '../../encoding';
+import { getDataUrlBase64 } from '../../llm/images';
+import { Persona } from '../../types';
+import { CharacterCard, readCharacterCardFile, toCharacterCard, writeCharacterCardPng } from '../characterCard';
+import { createSolidPng, readPngText, writePngText } from '../pngText';
+
+const persona: Persona = {
+    id: 'persona',
+    name: 'Marina',
+    description: 'A tide pool guide.',
+    personality: 'Patient',
+    scenario: 'Low tide at the reef.',
+    system_prompt: 'You are {{char}}.',
+    post_history_instructions: 'Stay in character.',
+    first_mes: 'Mind the urchins!',
+    alternate_greetings: ['The tide is out.'],
+    mes_example: '<START>\n{{user}}: Hi\n{{char}}: Hello',
+    creator_notes: 'Best with small models.',
+    creator: 'reef',
+    character_version: '1.2',
+    tags: ['ocean'],
+    character_book: {
+        extensions: {},
+        entries: [{ keys: ['kelp'], content: 'Kelp grows fast.', extensions: {}, enabled: true, insertion_order: 0 }],
+    },
+    // Fields of the imported card ModelFlux has no use for
+    cardExtensions: {
+        nickname: 'Mari',
+        creation_date: 1700000000,
+        extensions: { depth_prompt: { depth: 4, prompt: 'Whisper.' }, talkativeness: '0.5' },
+    },
+    generationSettings: { temperature: 0.7 },
+    compiledSystemPrompt: '',
+    createdAt: 0,
+    updatedAt: 0,
+};
+
+function decodeCard(encoded: string): CharacterCard {
+    return JSON.parse(strFromU8(base64ToBytes(encoded)));
+}
+
+describe('PNG character cards', () => {
+    const png = writeCharacterCardPng(persona);
+    const text = readPngText(png);
+
+    it('writes a V2 card in chara and a V3 card in ccv3', () => {
+        const v2 = decodeCard(text.chara!);
+        const v3 = decodeCard(text.ccv3!);
+
+        expect([v2.spec, v2.spec_version]).toEqual(['chara_card_v2', '2.0']);
+        expect([v3.spec, v3.spec_version]).toEqual(['chara_card_v3', '3.0']);
+
+        // Same card data; V3 adds its required group_only_greetings
+        const { group_only_greetings, ...v3Data } = v3.data;
+        expect(group_only_greetings).toEqual([]);
+        expect(v3Data).toEqual(v2.data);
+    });
+
+    it('writes unknown card fields and extensions back next to the persona settings', () => {
+        const { data } = decodeCard(text.ccv3!);
+
+        expect(data).toMatchObject({ nickname: 'Mari', creation_date: 1700000000 });
+        expect(data.extensions).toEqual({
+            depth_prompt: { depth: 4, prompt: 'Whisper.' },
+            talkativeness: '0.5',
+            modelflux: { generationSettings: { temperature: 0.7 } },
+        });
+    });
+
+    it('reads back the persona it was written from', () => {
+        const { id, compiledSystemPrompt, createdAt, updatedAt, avatar, ...fields } = persona;
+        const draft = readCharacterCardFile(png);
+
+        expect({ ...draft, avatar: undefined }).toEqual(fields);
+        expect(draft.avatar).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('keeps the image as the avatar, without the card text', () => {
+        const avatar = base64ToBytes(getDataUrlBase64(readCharacterCardFile(png).avatar!));
+
+        expect(readPngText(avatar)).toEqual({});
+        expect(Buffer.from(avatar).equals(Buffer.from(createSolidPng(256, 256, [0x63, 0x66, 0xf1])))).toBe(true);
+    });
+
+    it('writes the same card again after a round trip', () => {
+        const reimported = { ...persona, ...readCharacterCardFile(png) };
+        const again = readPngText(writeCharacterCardPng(reimported));
+
+        expect(decodeCard(again.ccv3!)).toEqual(decodeCard(text.ccv3!));
+        expect(decodeCard(again.chara!)).toEqual(decodeCard(text.chara!));
+    });
+
+    it('prefers the V3 card when an image carries both', () => {
+        const v2 = toCharacterCard({ ...persona, name: 'Old Marina' }, 'chara_card_v2');
+        const image = writePngText(png, { chara: Buffer.from(JSON.stringify(v2)).toString('base64') });
+
+        expect(readCharacterCardFile(image).name).toBe('Marina');
+    });
+
+    it('reads images from apps that only write a V2 card', () => {
+        const image = writePngText(png, { ccv3: undefined });
+        const draft = readCharacterCardFile(image);
+
+        expect(draft.name).toBe('Marina');
+        expect(draft.cardExtensions).toEqual(persona.cardExtensions);
+    });
+
+    it('refuses images without card data', () => {
+        expect(() => readCharacterCardFile(createSolidPng(1, 1, [0, 0, 0]))).toThrow('no character card data');
+    });
+});
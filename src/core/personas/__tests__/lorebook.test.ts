@@ -0,0 +1,97 @@
+import { CharacterBook, CharacterBookEntry } from '../../types';
+import { selectLore } from '../lorebook';
+
+function entry(name: string, content: string, overrides: Partial<CharacterBookEntry> = {}): CharacterBookEntry {
+    return { keys: [name], content, extensions: {}, enabled: true, insertion_order: 0, name, ...overrides };
+}
+
+function book(entries: CharacterBookEntry[], overrides: Partial<CharacterBook> = {}): CharacterBook {
+    return { extensions: {}, entries, ...overrides };
+}
+
+describe('selectLore', () => {
+    it('scans only the most recent messages', () => {
+        const lore = selectLore(book([entry('castle', 'The castle is old.')], { scan_depth: 1 }), [
+            'We reached the castle.',
+            'Then we rested.',
+        ]);
+        expect(lore.entries).toEqual([]);
+    });
+
+    it('scans nothing with a scan depth of 0', () => {
+        const lore = selectLore(book([entry('castle', 'The castle is old.')], { scan_depth: 0 }), [
+            'We reached the castle.',
+        ]);
+        expect(lore.entries).toEqual([]);
+    });
+
+    it('still inserts constant entries with a scan depth of 0', () => {
+        const lore = selectLore(book([entry('rules', 'Magic is rare.', { constant: true })], { scan_depth: 0 }), []);
+        expect(lore.before).toBe('Magic is rare.');
+    });
+
+    it('skips entries that no longer fit the budget instead of cutting them short', () => {
+        const lore = selectLore(book([
+            entry('low', 'L'.repeat(40), { priority: 1 }),
+            entry('high', 'H'.repeat(40), { priority: 3 }),
+            entry('middle', 'M'.repeat(20), { priority: 2, position: 'after_char' }),
+        ], { token_budget: 16 }), ['low high middle']);
+
+        expect(lore.entries.map((e) => e.name)).toEqual(['high', 'middle']);
+        expect(lore.before).toBe('H'.repeat(40));
+        expect(lore.after).toBe('M'.repeat(20));
+    });
+
+    it('keeps filling the budget with smaller entries after skipping one', () => {
+        const lore = selectLore(book([
+            entry('large', 'L'.repeat(80), { priority: 2 }),
+            entry('small', 'S'.repeat(8), { priority: 1 }),
+        ], { token_budget: 10 }), ['large small']);
+
+        expect(lore.entries).toEqual([{ name: 'small', keys: ['small'], tokens: 2 }]);
+    });
+
+    it('cuts an entry to its own token budget at a word boundary', () => {
+        const lore = selectLore(book([
+            entry('harbor', 'The harbor freezes every winter and ships wait offshore.', { token_budget: 5 }),
+        ]), ['the harbor']);
+
+        expect(lore.before).toBe('The harbor freezes');
+        expect(lore.entries).toEqual([{ name: 'harbor', keys: ['harbor'], tokens: 5 }]);
+    });
+
+    it('counts a cut entry against the book budget with its cut size', () => {
+        const lore = selectLore(book([
+            entry('long', 'L'.repeat(80), { token_budget: 4, priority: 2 }),
+            entry('short', 'S'.repeat(24), { priority: 1 }),
+        ], { token_budget: 10 }), ['long short']);
+
+        expect(lore.before).toBe(`${'L'.repeat(16)}\n\n${'S'.repeat(24)}`);
+        expect(lore.entries.map((e) => e.tokens)).toEqual([4, 6]);
+    });
+
+    it('skips entries with a token budget of 0', () => {
+        const lore = selectLore(book([entry('castle', 'The castle is old.', { token_budget: 0 })]), ['castle']);
+        expect(lore).toEqual({ before: '', after: '', entries: [] });
+    });
+
+    it('inserts after_char entries after the character, apart from before_char ones', () => {
+        const lore = selectLore(book([
+            entry('oath', 'She swore an oath.', { position: 'after_char', insertion_order: 1 }),
+            entry('city', 'The city is walled.', { insertion_order: 2 }),
+            entry('debt', 'She owes the guild.', { position: 'after_char', insertion_order: 0 }),
+        ]), ['oath city debt']);
+
+        expect(lore.before).toBe('The city is walled.');
+        expect(lore.after).toBe('She owes the guild.\n\nShe swore an oath.');
+    });
+
+    it('inserts the selected entries in insertion order', () => {
+        const lore = selectLore(book([
+            entry('second', 'Second.', { insertion_order: 2, priority: 5 }),
+            entry('first', 'First.', { insertion_order: 1 }),
+        ]), ['second first']);
+
+        expect(lore.before).toBe('First.\n\nSecond.');
+    });
+});
@@ -0,0 +1,85 @@
+import { strFromU8, unzlibSync } from 'fflate';
+import { crc32 } from 'zlib';
+import { createSolidPng, isPng, readPngText, writePngText } from '../pngText';
+
+interface Chunk {
+    type: string;
+    data: Uint8Array;
+    crc: number;
+}
+
+// Independent chunk reader, so the tests don't rely on the module's own parsing
+function chunks(bytes: Uint8Array): Chunk[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const result: Chunk[] = [];
+    for (let offset = 8; offset < bytes.length;) {
+        const length = view.getUint32(offset);
+        result.push({
+            type: strFromU8(bytes.subarray(offset + 4, offset + 8)),
+            data: bytes.subarray(offset + 8, offset + 8 + length),
+            crc: view.getUint32(offset + 8 + length),
+        });
+        offset += 12 + length;
+    }
+    return result;
+}
+
+describe('createSolidPng', () => {
+    const png = createSolidPng(2, 3, [0x10, 0x20, 0x30]);
+
+    it('writes the signature, IHDR, IDAT and IEND', () => {
+        expect(isPng(png)).toBe(true);
+        expect(chunks(png).map((c) => c.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    });
+
+    it('describes an 8-bit RGB image of the given size', () => {
+        const header = new DataView(chunks(png)[0]!.data.buffer, chunks(png)[0]!.data.byteOffset, 13);
+        expect([header.getUint32(0), header.getUint32(4), header.getUint8(8), header.getUint8(9)]).toEqual([2, 3, 8, 2]);
+    });
+
+    it('fills every pixel with the color', () => {
+        const row = [0, 0x10, 0x20, 0x30, 0x10, 0x20, 0x30];
+        expect(Array.from(unzlibSync(chunks(png)[1]!.data))).toEqual([...row, ...row, ...row]);
+    });
+
+    it('checksums the type and data of every chunk', () => {
+        for (const chunk of chunks(png)) {
+            const typeAndData = Buffer.concat([Buffer.from(chunk.type, 'latin1'), chunk.data]);
+            expect(chunk.crc).toBe(crc32(typeAndData));
+        }
+        // The well-known CRC of an empty IEND chunk
+        expect(chunks(png)[2]!.crc).toBe(0xae426082);
+    });
+});
+
+describe('PNG text chunks', () => {
+    const image = createSolidPng(1, 1, [0, 0, 0]);
+
+    it('reads back text written before the image end', () => {
+        const png = writePngText(image, { chara: 'e30=', ccv3: 'e30K' });
+
+        expect(readPngText(png)).toEqual({ chara: 'e30=', ccv3: 'e30K' });
+        expect(chunks(png).map((c) => c.type)).toEqual(['IHDR', 'IDAT', 'tEXt', 'tEXt', 'IEND']);
+        for (const chunk of chunks(png)) {
+            expect(chunk.crc).toBe(crc32(Buffer.concat([Buffer.from(chunk.type, 'latin1'), chunk.data])));
+        }
+    });
+
+    it('replaces text with the same keyword and keeps the rest', () => {
+        const png = writePngText(writePngText(image, { chara: 'old', Comment: 'kept' }), { chara: 'new' });
+        expect(readPngText(png)).toEqual({ Comment: 'kept', chara: 'new' });
+    });
+
+    it('removes text given no value, leaving the image data untouched', () => {
+        const png = writePngText(writePngText(image, { chara: 'card' }), { chara: undefined });
+        expect(Buffer.from(png).equals(Buffer.from(image))).toBe(true);
+    });
+
+    it('refuses files that are not PNG images', () => {
+        expect(() => readPngText(new Uint8Array([0x7b, 0x7d]))).toThrow('Not a PNG image');
+    });
+
+    it('refuses images cut short inside a chunk', () => {
+        expect(() => readPngText(image.subarray(0, 50))).toThrow('Damaged PNG image');
+    });
+});
@@ -0,0 +1,294 @@
+/**
+ * Character Cards
+ *
+ * Import and export of personas as Character Card V1/V2/V3 JSON or PNG images
+ * (card JSON base64-encoded in the tEXt chunk 'chara'; V3 cards also in 'ccv3').
+ * Card fields without a persona counterpart are kept in Persona.cardExtensions
+ * and written back on export, so a card survives a round trip unchanged.
+ *
+ * @see https://github.com/malfoyslastname/character-card-spec-v2
+ * @see https://github.com/kwaroran/character-card-spec-v3
+ */
+
+import { strFromU8, strToU8 } from 'fflate';
+import { base64ToBytes, bytesToBase64 } from '../encoding';
+import { getDataUrlBase64, getDataUrlMimeType, toDataUrl } from '../llm/images';
+import { CharacterBook, GenerationSettings, Persona } from '../types';
+import { createSolidPng, isPng, readPngText, writePngText } from './pngText';
+
+/**
+ * Persona fields read from a card, before it is saved
+ */
+export type PersonaDraft = Omit<Persona, 'id' | 'createdAt' | 'updatedAt' | 'compiledSystemPrompt'>;
+
+export type CharacterCardSpec = 'chara_card_v2' | 'chara_card_v3';
+
+export type CharacterCardFormat = 'png' | 'json-v3' | 'json-v2';
+
+export const CHARACTER_CARD_FORMATS: CharacterCardFormat[] = ['png', 'json-v3', 'json-v2'];
+
+export interface CharacterCardData {
+    name: string;
+    description: string;
+    personality: string;
+    scenario: string;
+    first_mes: string;
+    mes_example: string;
+    creator_notes: string;
+    system_prompt: string;
+    post_history_instructions: string;
+    alternate_greetings: string[];
+    character_book?: CharacterBook;
+    tags: string[];
+    creator: string;
+    character_version: string;
+    extensions: Record<string, unknown>;
+    // V3 fields (assets, nickname, group_only_greetings, ...) and unknown ones
+    [field: string]: unknown;
+}
+
+export interface CharacterCard {
+    spec: CharacterCardSpec;
+    spec_version: string;
+    data: CharacterCardData;
+}
+
+/** Card data fields stored as persona fields; the rest goes to cardExtensions */
+const PERSONA_FIELDS = [
+    'name',
+    'description',
+    'personality',
+    'scenario',
+    'first_mes',
+    'mes_example',
+    'creator_notes',
+    'system_prompt',
+    'post_history_instructions',
+    'alternate_greetings',
+    'character_book',
+    'tags',
+    'creator',
+    'character_version',
+    'extensions',
+];
+
+/** Key under data.extensions for persona settings only ModelFlux understands */
+const EXTENSION_KEY = 'modelflux';
+
+/** Name {{user}} stands for */
+const DEFAULT_USER_NAME = 'User';
+
+// Image for cards exported from personas without one
+const PLACEHOLDER_SIZE = 256;
+const PLACEHOLDER_COLOR: [number, number, number] = [0x63, 0x66, 0xf1];
+
+function isObject(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toStringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Fill in required entry fields; unknown fields are kept as they are
+ */
+function parseCharacterBook(value: unknown): CharacterBook | undefined {
+    if (!isObject(value) || !Array.isArray(value.entries)) return undefined;
+
+    return {
+        ...value,
+        extensions: isObject(value.extensions) ? value.extensions : {},
+        entries: value.entries.filter(isObject).map((entry, index) => ({
+            ...entry,
+            keys: toStringList(entry.keys),
+            content: typeof entry.content === 'string' ? entry.content : '',
+            extensions: isObject(entry.extensions) ? entry.extensions : {},
+            enabled: entry.enabled !== false,
+            insertion_order: typeof entry.insertion_order === 'number' ? entry.insertion_order : index,
+        })),
+    };
+}
+
+/**
+ * Read a parsed card of any version into persona fields.
+ * Throws if the value isn't a character card.
+ */
+export function parseCharacterCard(value: unknown): PersonaDraft {
+    if (!isObject(value)) {
+        throw new Error('Not a character card');
+    }
+
+    // V2/V3 cards keep their fields under data; V1 cards are flat
+    const isVersioned = (value.spec === 'chara_card_v2' || value.spec === 'chara_card_v3') && isObject(value.data);
+    const data: Record<string, unknown> = isVersioned ? value.data : value;
+    if (typeof data.name !== 'string' || !data.name.trim()) {
+        throw new Error('Not a character card');
+    }
+
+    const text = (field: string) => (typeof data[field] === 'string' ? data[field] as string : '');
+    const { [EXTENSION_KEY]: modelflux, ...extensions } = isObject(data.extensions) ? data.extensions : {};
+
+    const cardExtensions: Record<string, unknown> = {};
+    for (const [field, fieldValue] of Object.entries(data)) {
+        if (!PERSONA_FIELDS.includes(field)) cardExtensions[field] = fieldValue;
+    }
+    // V3 export adds it again; kept, it would leak into V2 cards
+    if (Array.isArray(cardExtensions.group_only_greetings) && cardExtensions.group_only_greetings.length === 0) {
+        delete cardExtensions.group_only_greetings;
+    }
+    if (Object.keys(extensions).length > 0) cardExtensions.extensions = extensions;
+
+    const alternateGreetings = toStringList(data.alternate_greetings).filter((greeting) => greeting.trim());
+    const tags = toStringList(data.tags);
+
+    return {
+        name: data.name.trim(),
+        description: text('description'),
+        personality: text('personality'),
+        scenario: text('scenario'),
+        system_prompt: text('system_prompt'),
+        post_history_instructions: text('post_history_instructions'),
+        creator_notes: text('creator_notes'),
+        first_mes: text('first_mes') || undefined,
+        alternate_greetings: alternateGreetings.length > 0 ? alternateGreetings : undefined,
+        mes_example: text('mes_example') || undefined,
+        creator: text('creator') || undefined,
+        character_version: text('character_version') || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        character_book: parseCharacterBook(data.character_book),
+        generationSettings: isObject(modelflux) && isObject(modelflux.generationSettings)
+            ? modelflux.generationSettings as GenerationSettings
+            : undefined,
+        cardExtensions: Object.keys(cardExtensions).length > 0 ? cardExtensions : undefined,
+    };
+}
+
+/**
+ * Build a card from a persona
+ */
+export function toCharacterCard(persona: Persona, spec: CharacterCardSpec = 'chara_card_v3'): CharacterCard {
+    const { extensions, ...extraFields } = persona.cardExtensions || {};
+
+    const data: CharacterCardData = {
+        ...extraFields,
+        name: persona.name,
+        description: persona.description,
+        personality: persona.personality,
+        scenario: persona.scenario,
+        first_mes: persona.first_mes || '',
+        mes_example: persona.mes_example || '',
+        creator_notes: persona.creator_notes,
+        system_prompt: persona.system_prompt,
+        post_history_instructions: persona.post_history_instructions,
+        alternate_greetings: persona.alternate_greetings || [],
+        tags: persona.tags || [],
+        creator: persona.creator || '',
+        character_version: persona.character_version || '',
+        extensions: {
+            ...(isObject(extensions) ? extensions : {}),
+            ...(persona.generationSettings ? { [EXTENSION_KEY]: { generationSettings: persona.generationSettings } } : {}),
+        },
+    };
+    if (persona.character_book) {
+        data.character_book = persona.character_book;
+    }
+
+    if (spec === 'chara_card_v3') {
+        // Required by V3
+        data.group_only_greetings ??= [];
+        return { spec, spec_version: '3.0', data };
+    }
+    return { spec, spec_version: '2.0', data };
+}
+
+function encodeCard(card: CharacterCard): string {
+    return bytesToBase64(strToU8(JSON.stringify(card)));
+}
+
+/**
+ * Read a card file (PNG image or JSON). PNG images become the persona's avatar.
+ */
+export function readCharacterCardFile(bytes: Uint8Array): PersonaDraft {
+    if (!isPng(bytes)) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(strFromU8(bytes));
+        } catch {
+            throw new Error('Not a character card (expected a PNG or JSON file)');
+        }
+        return parseCharacterCard(parsed);
+    }
+
+    const text = readPngText(bytes);
+    const encoded = text.ccv3 || text.chara;
+    if (!encoded) {
+        throw new Error('This image has no character card data');
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(strFromU8(base64ToBytes(encoded)));
+    } catch {
+        throw new Error('The character card data in this image is damaged');
+    }
+
+    // Keep the picture without the card text, which is written again on export
+    const image = writePngText(bytes, { chara: undefined, ccv3: undefined });
+    return { ...parseCharacterCard(parsed), avatar: toDataUrl(bytesToBase64(image), 'image/png') };
+}
+
+/**
+ * PNG card: the persona's avatar (or a plain image) carrying a V2 card in
+ * 'chara' for older apps and a V3 card in 'ccv3'
+ */
+export function writeCharacterCardPng(persona: Persona): Uint8Array {
+    const image = persona.avatar && getDataUrlMimeType(persona.avatar) === 'image/png'
+        ? base64ToBytes(getDataUrlBase64(persona.avatar))
+        : createSolidPng(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, PLACEHOLDER_COLOR);
+
+    return writePngText(image, {
+        chara: encodeCard(toCharacterCard(persona, 'chara_card_v2')),
+        ccv3: encodeCard(toCharacterCard(persona, 'chara_card_v3')),
+    });
+}
+
+export function writeCharacterCardJson(persona: Persona, spec: CharacterCardSpec): string {
+    return JSON.stringify(toCharacterCard(persona, spec), null, 2);
+}
+
+export function getCharacterCardFileName(persona: Persona, format: CharacterCardFormat): string {
+    const baseName = persona.name.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'character';
+    return format === 'png' ? `${baseName}.png` : `${baseName}.${format === 'json-v2' ? 'v2' : 'v3'}.json`;
+}
+
+/**
+ * Fill in the {{char}}/{{user}} placeholders cards use (and the older <BOT>/<USER>).
+ * {{original}} stands for the app's own system prompt, which personas don't have.
+ */
+export function replaceCardMacros(text: string, charName: string, userName: string = DEFAULT_USER_NAME): string {
+    return text
+        .replace(/\{\{char\}\}|<BOT>/gi, charName)
+        .replace(/\{\{user\}\}|<USER>/gi, userName)
+        .replace(/\{\{original\}\}/gi, '');
+}
+
+/**
+ * Opening messages of a new conversation: first_mes, then the alternate greetings
+ */
+export function getPersonaGreetings(persona: Persona): string[] {
+    return [persona.first_mes, ...(persona.alternate_greetings || [])]
+        .filter((greeting): greeting is string => !!greeting?.trim())
+        .map((greeting) => replaceCardMacros(greeting.trim(), persona.name));
+}
+
+/**
+ * Example dialogue as separate blocks (cards separate them with <START>)
+ */
+export function formatExampleDialogue(mesExample: string | undefined): string {
+    return (mesExample || '')
+        .split(/<START>/i)
+        .map((block) => block.trim())
+        .filter(Boolean)
+        .join('\n\n');
+}
@@ -0,0 +1,7 @@
+/**
+ * Persona Module Exports
+ */
+
+export * from './characterCard';
+export * from './lorebook';
+export * from './pngText';
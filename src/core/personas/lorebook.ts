@@ -0,0 +1,161 @@
+/**
+ * Lorebook
+ *
+ * A persona's lorebook (the character_book of its card) holds entries that are
+ * only inserted into the prompt when one of their keys appears in the recent
+ * messages, so long-running chats can draw on facts without carrying all of
+ * them in every request.
+ */
+
+import { estimateTokens, truncateToTokens } from '../llm/contextWindow';
+import { CharacterBook, CharacterBookEntry, MessageLoreEntry } from '../types';
+
+/** Recent messages scanned for keys when the book doesn't set scan_depth */
+export const DEFAULT_LORE_SCAN_DEPTH = 4;
+
+/** Tokens of lore inserted per request when the book doesn't set token_budget */
+export const DEFAULT_LORE_TOKEN_BUDGET = 1024;
+
+/** Rounds of recursive scanning (entries triggering other entries) */
+const MAX_RECURSION = 3;
+
+/**
+ * Lore selected for a request, split by where it goes relative to the character definition
+ */
+export interface LoreInsertion {
+    before: string;
+    after: string;
+    entries: MessageLoreEntry[];
+}
+
+interface TriggeredEntry {
+    entry: CharacterBookEntry;
+    index: number;
+    matchedKeys: string[];
+}
+
+/**
+ * Compile a regex key. Accepts /pattern/flags or a bare pattern; invalid patterns never match.
+ */
+function toRegExp(key: string, caseSensitive: boolean): RegExp | null {
+    const literal = /^\/(.+)\/([a-z]*)$/s.exec(key);
+    try {
+        if (literal) {
+            const flags = literal[2].replace(/[gy]/g, '');
+            return new RegExp(literal[1], caseSensitive || flags.includes('i') ? flags : flags + 'i');
+        }
+        return new RegExp(key, caseSensitive ? '' : 'i');
+    } catch {
+        return null;
+    }
+}
+
+function matchesKey(entry: CharacterBookEntry, key: string, text: string): boolean {
+    if (!key.trim()) return false;
+    const caseSensitive = !!entry.case_sensitive;
+
+    if (entry.use_regex) {
+        return toRegExp(key, caseSensitive)?.test(text) ?? false;
+    }
+    return caseSensitive
+        ? text.includes(key.trim())
+        : text.toLowerCase().includes(key.trim().toLowerCase());
+}
+
+/**
+ * Entries whose keys (and secondary keys, for selective entries) appear in the text
+ */
+function findTriggeredEntries(book: CharacterBook, text: string, skip: Set<number>): TriggeredEntry[] {
+    const triggered: TriggeredEntry[] = [];
+
+    book.entries.forEach((entry, index) => {
+        if (!entry.enabled || skip.has(index) || !entry.content.trim()) return;
+
+        if (entry.constant) {
+            triggered.push({ entry, index, matchedKeys: [] });
+            return;
+        }
+
+        const matchedKeys = entry.keys.filter((key) => matchesKey(entry, key, text));
+        if (matchedKeys.length === 0) return;
+
+        if (entry.selective && entry.secondary_keys?.length
+            && !entry.secondary_keys.some((key) => matchesKey(entry, key, text))) {
+            return;
+        }
+        triggered.push({ entry, index, matchedKeys });
+    });
+
+    return triggered;
+}
+
+/**
+ * Entry content as inserted: trimmed, and cut to the entry's own token budget if it sets one
+ */
+function getInsertedContent(entry: CharacterBookEntry): string {
+    const content = entry.content.trim();
+    return entry.token_budget === undefined ? content : truncateToTokens(content, entry.token_budget);
+}
+
+export function getLoreEntryName(entry: CharacterBookEntry, index: number): string {
+    return entry.name?.trim() || entry.comment?.trim() || entry.keys[0]?.trim() || `Entry ${index + 1}`;
+}
+
+/**
+ * Select the lore for a request from the most recent message texts (oldest first).
+ * Entries with a token_budget of their own are first cut to it. The book's token
+ * budget is then filled entry by entry from the highest priority down; an entry
+ * that doesn't fit in what is left is skipped whole, never cut short.
+ * The selected entries are inserted in insertion_order.
+ */
+export function selectLore(book: CharacterBook | undefined, recentTexts: string[]): LoreInsertion {
+    const empty: LoreInsertion = { before: '', after: '', entries: [] };
+    if (!book || book.entries.length === 0) return empty;
+
+    // slice(-0) would scan every message
+    const scanDepth = book.scan_depth ?? DEFAULT_LORE_SCAN_DEPTH;
+    let text = (scanDepth > 0 ? recentTexts.slice(-scanDepth) : []).join('\n');
+
+    const triggered: TriggeredEntry[] = [];
+    const seen = new Set<number>();
+    for (let round = 0; round <= (book.recursive_scanning ? MAX_RECURSION : 0); round++) {
+        const found = findTriggeredEntries(book, text, seen);
+        if (found.length === 0) break;
+
+        found.forEach((t) => seen.add(t.index));
+        triggered.push(...found);
+        // Recursive scanning: inserted lore can trigger further entries
+        text = found.map((t) => t.entry.content).join('\n');
+    }
+
+    const budget = book.token_budget ?? DEFAULT_LORE_TOKEN_BUDGET;
+    const byPriority = [...triggered].sort((a, b) =>
+        (b.entry.priority ?? 0) - (a.entry.priority ?? 0) || a.index - b.index);
+    const selected: Array<TriggeredEntry & { content: string; tokens: number }> = [];
+    let used = 0;
+    for (const t of byPriority) {
+        // Counted as inserted; an entry budget of 0 leaves nothing to insert
+        const content = getInsertedContent(t.entry);
+        const tokens = estimateTokens(content);
+        if (!content || used + tokens > budget) continue;
+        selected.push({ ...t, content, tokens });
+        used += tokens;
+    }
+    if (selected.length === 0) return empty;
+
+    selected.sort((a, b) => a.entry.insertion_order - b.entry.insertion_order || a.index - b.index);
+    const contentAt = (position: 'before_char' | 'after_char') => selected
+        .filter((t) => (t.entry.position ?? 'before_char') === position)
+        .map((t) => t.content)
+        .join('\n\n');
+
+    return {
+        before: contentAt('before_char'),
+        after: contentAt('after_char'),
+        entries: selected.map(({ entry, index, matchedKeys, tokens }) => ({
+            name: getLoreEntryName(entry, index),
+            keys: matchedKeys,
+            tokens,
+        })),
+    };
+}
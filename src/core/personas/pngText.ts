@@ -0,0 +1,146 @@
+/**
+ * PNG Text Chunks
+ *
+ * Character cards travel as PNG images with the card JSON in tEXt chunks.
+ * Only the chunk layer is handled here; image data is copied as is.
+ */
+
+import { strFromU8, strToU8, zlibSync } from 'fflate';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface PngChunk {
+    type: string;
+    data: Uint8Array;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+    return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+function readChunks(bytes: Uint8Array): PngChunk[] {
+    if (!isPng(bytes)) {
+        throw new Error('Not a PNG image');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PngChunk[] = [];
+    let offset = PNG_SIGNATURE.length;
+
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = strFromU8(bytes.subarray(offset + 4, offset + 8), true);
+        const end = offset + 12 + length;
+        if (end > bytes.length) {
+            throw new Error('Damaged PNG image');
+        }
+        chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset = end;
+        if (type === 'IEND') break;
+    }
+    return chunks;
+}
+
+function writeChunks(chunks: PngChunk[]): Uint8Array {
+    const size = PNG_SIGNATURE.length + chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, 0);
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+    bytes.set(PNG_SIGNATURE);
+
+    let offset = PNG_SIGNATURE.length;
+    for (const { type, data } of chunks) {
+        const typeAndData = new Uint8Array(4 + data.length);
+        typeAndData.set(strToU8(type, true));
+        typeAndData.set(data, 4);
+
+        view.setUint32(offset, data.length);
+        bytes.set(typeAndData, offset + 4);
+        view.setUint32(offset + 8 + data.length, crc32(typeAndData));
+        offset += 12 + data.length;
+    }
+    return bytes;
+}
+
+/**
+ * Read the tEXt chunks of a PNG image, keyed by keyword
+ */
+export function readPngText(bytes: Uint8Array): Record<string, string> {
+    const text: Record<string, string> = {};
+    for (const chunk of readChunks(bytes)) {
+        if (chunk.type !== 'tEXt') continue;
+        const separator = chunk.data.indexOf(0);
+        if (separator <= 0) continue;
+        text[strFromU8(chunk.data.subarray(0, separator), true)] = strFromU8(chunk.data.subarray(separator + 1), true);
+    }
+    return text;
+}
+
+/**
+ * Replace tEXt chunks of a PNG image. Chunks with the given keywords are
+ * removed, then the entries with a value are written before the image end.
+ */
+export function writePngText(bytes: Uint8Array, entries: Record<string, string | undefined>): Uint8Array {
+    const keywords = Object.keys(entries);
+    const chunks = readChunks(bytes).filter((chunk) => {
+        if (chunk.type !== 'tEXt') return true;
+        const separator = chunk.data.indexOf(0);
+        return !keywords.includes(strFromU8(chunk.data.subarray(0, Math.max(separator, 0)), true));
+    });
+
+    const textChunks = Object.entries(entries)
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+        .map(([keyword, value]) => ({ type: 'tEXt', data: strToU8(`${keyword}\0${value}`, true) }));
+
+    const end = chunks.findIndex((chunk) => chunk.type === 'IEND');
+    chunks.splice(end === -1 ? chunks.length : end, 0, ...textChunks);
+    if (end === -1) chunks.push({ type: 'IEND', data: new Uint8Array(0) });
+    return writeChunks(chunks);
+}
+
+/**
+ * Single-color RGB image, used for cards exported without an image
+ */
+export function createSolidPng(width: number, height: number, rgb: [number, number, number]): Uint8Array {
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = 8;      // bit depth
+    header[9] = 2;      // color type: RGB
+
+    // Each scanline starts with filter type 0 (none)
+    const rowLength = 1 + width * 3;
+    const pixels = new Uint8Array(rowLength * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            pixels.set(rgb, y * rowLength + 1 + x * 3);
+        }
+    }
+
+    return writeChunks([
+        { type: 'IHDR', data: header },
+        { type: 'IDAT', data: zlibSync(pixels) },
+        { type: 'IEND', data: new Uint8Array(0) },
+    ]);
+}
@@ -0,0 +1,5 @@
+/**
+ * Prompt Library Module Exports
+ */
+
+export * from './templateVariables';
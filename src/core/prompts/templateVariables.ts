@@ -0,0 +1,73 @@
+/**
+ * Prompt Template Variables
+ *
+ * Templates use {{name}} placeholders. Built-in variables are filled in
+ * automatically when a template is used; any other variable is asked for.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Variables resolved from the environment rather than asked for
+ */
+export const BUILT_IN_VARIABLES = ['date', 'time', 'datetime', 'clipboard', 'selection'] as const;
+
+export type BuiltInVariable = typeof BUILT_IN_VARIABLES[number];
+
+export interface BuiltInVariableContext {
+    /** Clipboard text, if it could be read */
+    clipboard?: string;
+    /** Text selected in the message input when the command was typed */
+    selection?: string;
+    now?: Date;
+}
+
+export function isBuiltInVariable(name: string): name is BuiltInVariable {
+    return (BUILT_IN_VARIABLES as readonly string[]).includes(name);
+}
+
+/**
+ * Unique variable names in order of first appearance
+ */
+export function extractVariables(content: string): string[] {
+    const names = Array.from(content.matchAll(VARIABLE_PATTERN), (match) => match[1]!);
+    return Array.from(new Set(names));
+}
+
+/**
+ * Values for built-in variables; empty clipboard/selection are left out so they get asked for
+ */
+export function resolveBuiltInVariables(context: BuiltInVariableContext): Record<string, string> {
+    const now = context.now ?? new Date();
+    const values: Record<string, string> = {
+        date: now.toLocaleDateString(),
+        time: now.toLocaleTimeString(),
+        datetime: now.toLocaleString(),
+    };
+    if (context.clipboard) values.clipboard = context.clipboard;
+    if (context.selection) values.selection = context.selection;
+    return values;
+}
+
+/**
+ * Variables in the template that have no value yet
+ */
+export function getMissingVariables(content: string, values: Record<string, string>): string[] {
+    return extractVariables(content).filter((name) => values[name] === undefined);
+}
+
+/**
+ * Replace placeholders with their values; unknown placeholders are kept as written
+ */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+    return content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+        values[name] !== undefined ? values[name]! : placeholder
+    );
+}
+
+/**
+ * Slash command name for a template ("Code Review" → "code-review")
+ */
+export function getTemplateCommand(name: string): string {
+    return name.trim().toLowerCase().replace(/[^\w]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,191 @@
+/**
+ * Keyword Index
+ *
+ * BM25 keyword search over RAG chunks, stored in the same OP-SQLite database
+ * as the vector store. Complements vector search for exact identifiers,
+ * error codes and names that embeddings tend to blur.
+ *
+ * Design notes:
+ * - Chunks are keyed by their vector store row id so results can be fused
+ * - Term frequencies are stored per chunk; BM25 is scored in JS at query time
+ * - Compound tokens (ERR_404, foo.bar) are indexed whole and as their parts
+ * - Searches restricted to some sources join the vector rows for their metadata
+ */
+
+import type { DB, SQLBatchTuple } from '@op-engineering/op-sqlite';
+import { sourceCondition } from './hybridSearch';
+
+const TERMS_TABLE = 'keyword_terms';
+const DOCS_TABLE = 'keyword_docs';
+
+// BM25 parameters (common defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface KeywordSearchResult {
+    /** Vector store row id */
+    id: string;
+    score: number;
+}
+
+/**
+ * Split text into lowercase search terms
+ */
+export function tokenize(text: string): string[] {
+    const terms: string[] = [];
+    const compounds = text.toLowerCase().match(/[\p{L}\p{N}]+(?:[._\-:/][\p{L}\p{N}]+)*/gu) ?? [];
+
+    for (const compound of compounds) {
+        const parts = compound.split(/[._\-:/]/);
+        if (parts.length > 1) {
+            terms.push(compound);
+        }
+        terms.push(...parts);
+    }
+
+    // Single characters are noise except for digits in codes
+    return terms.filter((term) => term.length > 1 || /\d/.test(term));
+}
+
+export class KeywordIndex {
+    constructor(private db: DB) { }
+
+    /**
+     * Create tables and backfill chunks already in the vector store
+     */
+    async load(): Promise<this> {
+        await this.db.execute(`
+            CREATE TABLE IF NOT EXISTS ${DOCS_TABLE} (
+                id TEXT PRIMARY KEY,
+                length INTEGER NOT NULL
+            );
+        `);
+        await this.db.execute(`
+            CREATE TABLE IF NOT EXISTS ${TERMS_TABLE} (
+                term TEXT NOT NULL,
+                id TEXT NOT NULL,
+                tf INTEGER NOT NULL
+            );
+        `);
+        await this.db.execute(`CREATE INDEX IF NOT EXISTS idx_${TERMS_TABLE}_term ON ${TERMS_TABLE}(term);`);
+
+        await this.backfill();
+        return this;
+    }
+
+    /**
+     * Index a chunk
+     */
+    async add(id: string, content: string): Promise<void> {
+        const terms = tokenize(content);
+        const frequencies = new Map<string, number>();
+        for (const term of terms) {
+            frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+        }
+
+        // executeBatch runs the statements in a single transaction
+        const commands: SQLBatchTuple[] = [
+            [`INSERT OR REPLACE INTO ${DOCS_TABLE}(id, length) VALUES (?, ?)`, [id, terms.length]],
+            [`DELETE FROM ${TERMS_TABLE} WHERE id = ?`, [id]],
+        ];
+        if (frequencies.size > 0) {
+            commands.push([
+                `INSERT INTO ${TERMS_TABLE}(term, id, tf) VALUES (?, ?, ?)`,
+                Array.from(frequencies, ([term, tf]) => [term, id, tf]),
+            ]);
+        }
+        await this.db.executeBatch(commands);
+    }
+
+    /**
+     * Remove chunks from the index
+     */
+    async delete(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        const placeholders = ids.map(() => '?').join(',');
+        await this.db.executeBatch([
+            [`DELETE FROM ${TERMS_TABLE} WHERE id IN (${placeholders})`, ids],
+            [`DELETE FROM ${DOCS_TABLE} WHERE id IN (${placeholders})`, ids],
+        ]);
+    }
+
+    /**
+     * Find the chunks that best match the query terms, best first
+     * @param sourceIds - Only match chunks of these sources (all sources when unset)
+     */
+    async search(query: string, limit: number, sourceIds?: number[]): Promise<KeywordSearchResult[]> {
+        const queryTerms = [...new Set(tokenize(query))];
+        if (queryTerms.length === 0) return [];
+
+        const stats = await this.db.execute(`SELECT COUNT(*) AS n, AVG(length) AS avgLength FROM ${DOCS_TABLE}`);
+        const docCount = Number(stats.rows[0]?.n ?? 0);
+        const avgLength = Number(stats.rows[0]?.avgLength ?? 0) || 1;
+        if (docCount === 0) return [];
+
+        const placeholders = queryTerms.map(() => '?').join(',');
+
+        // Document frequency of each term, over the whole index
+        const frequencies = await this.db.execute(
+            `SELECT term, COUNT(*) AS df FROM ${TERMS_TABLE} WHERE term IN (${placeholders}) GROUP BY term`,
+            queryTerms
+        );
+        const documentFrequency = new Map(frequencies.rows.map((row) => [row.term as string, Number(row.df)]));
+
+        const sources = sourceCondition(sourceIds, 'v.metadata');
+        const { rows } = await this.db.execute(
+            `SELECT t.term AS term, t.id AS id, t.tf AS tf, d.length AS length
+             FROM ${TERMS_TABLE} t
+             JOIN ${DOCS_TABLE} d ON d.id = t.id
+             JOIN vectors v ON v.id = t.id
+             WHERE t.term IN (${placeholders}) AND ${sources.sql}`,
+            [...queryTerms, ...sources.params]
+        );
+
+        const scores = new Map<string, number>();
+        for (const row of rows) {
+            const df = documentFrequency.get(row.term as string)!;
+            const tf = Number(row.tf);
+            const length = Number(row.length);
+
+            const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+            const score = idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / avgLength));
+
+            const id = row.id as string;
+            scores.set(id, (scores.get(id) ?? 0) + score);
+        }
+
+        return Array.from(scores, ([id, score]) => ({ id, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    /**
+     * Remove all indexed chunks
+     */
+    async clear(): Promise<void> {
+        await this.db.execute(`DROP TABLE IF EXISTS ${TERMS_TABLE};`);
+        await this.db.execute(`DROP TABLE IF EXISTS ${DOCS_TABLE};`);
+    }
+
+    /**
+     * Index vector store chunks that were added before the keyword index existed
+     */
+    private async backfill(): Promise<void> {
+        const vectorsTable = await this.db.execute(
+            `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'vectors'`
+        );
+        if (vectorsTable.rows.length === 0) return;
+
+        const { rows } = await this.db.execute(
+            `SELECT v.id AS id, v.content AS content FROM vectors v
+             LEFT JOIN ${DOCS_TABLE} d ON d.id = v.id
+             WHERE d.id IS NULL`
+        );
+        if (rows.length === 0) return;
+
+        console.log('[KeywordIndex] Indexing', rows.length, 'existing chunks');
+        for (const row of rows) {
+            await this.add(row.id as string, row.content as string);
+        }
+    }
+}
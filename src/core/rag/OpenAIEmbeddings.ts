@@ -0,0 +1,229 @@
+/**
+ * OpenAI Embeddings
+ *
+ * Embedding implementation for the OpenAI /embeddings API and compatible
+ * servers (LM Studio, vLLM, llama-server, ...) for RAG.
+ *
+ * Design notes:
+ * - embedBatch() sends texts in batches and caches the vectors, so the
+ *   following embed() calls made by the vector store don't hit the network again
+ * - Rate limits (429) and server errors (5xx) are retried with exponential backoff,
+ *   honoring Retry-After when the server sends it
+ * - dimensions is only sent when set (text-embedding-3 models support shortening)
+ *
+ * Usage:
+ *   const embeddings = new OpenAIEmbeddings({ baseUrl: 'https://api.openai.com/v1', apiKey, model: 'text-embedding-3-small' });
+ *   await embeddings.load();
+ *   const vector = await embeddings.embed('Hello, world!');
+ *   await embeddings.unload();
+ */
+
+import { fetch } from 'expo/fetch';
+import { Embeddings } from 'react-native-rag';
+import { getBackoffDelay, parseRetryAfter } from '../llm/retry';
+
+export interface OpenAIEmbeddingsConfig {
+    /** Base URL of the API including the version path (e.g., 'https://api.openai.com/v1') */
+    baseUrl: string;
+    /** API key (optional for local servers) */
+    apiKey?: string;
+    /** Model name to use for embeddings (e.g., 'text-embedding-3-small') */
+    model: string;
+    /** Output dimensions (only supported by some models) */
+    dimensions?: number;
+    /** Maximum number of texts per request */
+    batchSize?: number;
+    /** Number of retries for rate-limited or failed requests */
+    maxRetries?: number;
+    /** Optional extra headers */
+    headers?: Record<string, string>;
+}
+
+const DEFAULT_BATCH_SIZE = 64;
+const DEFAULT_MAX_RETRIES = 3;
+
+/** Delay before the first retry; doubles on each attempt */
+const BASE_RETRY_DELAY_MS = 500;
+
+/**
+ * Error from the embeddings API, carrying the HTTP status when there is one
+ */
+class EmbeddingRequestError extends Error {
+    constructor(message: string, readonly status?: number, readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'EmbeddingRequestError';
+    }
+
+    get isRetryable(): boolean {
+        // Network errors have no status
+        return this.status === undefined || this.status === 429 || this.status >= 500;
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * OpenAI-compatible Embeddings implementation
+ * Implements the Embeddings interface from react-native-rag
+ */
+export class OpenAIEmbeddings implements Embeddings {
+    private config: OpenAIEmbeddingsConfig;
+    private _isLoaded = false;
+
+    /** Vectors computed by embedBatch(), consumed by embed() */
+    private cache = new Map<string, number[]>();
+
+    constructor(config: OpenAIEmbeddingsConfig) {
+        this.config = {
+            ...config,
+            baseUrl: config.baseUrl.replace(/\/+$/, ''),
+        };
+    }
+
+    /**
+     * Load the embedding model (verify the endpoint and model with a test request)
+     * Returns self for chaining (required by Embeddings interface)
+     */
+    async load(): Promise<this> {
+        if (this._isLoaded) {
+            console.log('[OpenAIEmbeddings] Already loaded');
+            return this;
+        }
+
+        console.log('[OpenAIEmbeddings] Loading embedding model:', this.config.model);
+
+        try {
+            await this.request(['test']);
+            this._isLoaded = true;
+            console.log('[OpenAIEmbeddings] Model loaded successfully');
+            return this;
+        } catch (error) {
+            console.error('[OpenAIEmbeddings] Failed to load model:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Unload the embedding model (no-op for remote APIs)
+     */
+    async unload(): Promise<void> {
+        console.log('[OpenAIEmbeddings] Unloading model');
+        this.cache.clear();
+        this._isLoaded = false;
+    }
+
+    /**
+     * Generate embedding for a single text
+     */
+    async embed(text: string): Promise<number[]> {
+        if (!this._isLoaded) {
+            throw new Error('[OpenAIEmbeddings] Model not loaded. Call load() first.');
+        }
+
+        const cached = this.cache.get(text);
+        if (cached) {
+            this.cache.delete(text);
+            return cached;
+        }
+
+        const [embedding] = await this.request([text]);
+        return embedding;
+    }
+
+    /**
+     * Generate embeddings for many texts using batched requests.
+     * Results are also kept for the next embed() call with the same text.
+     */
+    async embedBatch(texts: string[]): Promise<number[][]> {
+        if (!this._isLoaded) {
+            throw new Error('[OpenAIEmbeddings] Model not loaded. Call load() first.');
+        }
+
+        const batchSize = this.config.batchSize ?? DEFAULT_BATCH_SIZE;
+        const results: number[][] = [];
+
+        for (let i = 0; i < texts.length; i += batchSize) {
+            const batch = texts.slice(i, i + batchSize);
+            console.log(`[OpenAIEmbeddings] Embedding batch ${i / batchSize + 1} (${batch.length} texts)`);
+            const embeddings = await this.request(batch);
+            batch.forEach((text, index) => this.cache.set(text, embeddings[index]));
+            results.push(...embeddings);
+        }
+
+        return results;
+    }
+
+    /**
+     * Check if the model is loaded
+     */
+    isLoaded(): boolean {
+        return this._isLoaded;
+    }
+
+    /**
+     * Call the embeddings endpoint, retrying rate limits and server errors
+     */
+    private async request(input: string[]): Promise<number[][]> {
+        const maxRetries = this.config.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.send(input);
+            } catch (error) {
+                const requestError = error instanceof EmbeddingRequestError
+                    ? error
+                    : new EmbeddingRequestError(error instanceof Error ? error.message : String(error));
+
+                if (!requestError.isRetryable || attempt >= maxRetries) {
+                    throw requestError;
+                }
+
+                const delay = getBackoffDelay(attempt, BASE_RETRY_DELAY_MS, requestError.retryAfterMs);
+                console.warn(`[OpenAIEmbeddings] ${requestError.message}; retrying in ${Math.round(delay)}ms`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    private async send(input: string[]): Promise<number[][]> {
+        const { baseUrl, apiKey, model, dimensions, headers } = this.config;
+
+        const response = await fetch(`${baseUrl}/embeddings`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+                ...headers,
+            },
+            body: JSON.stringify({
+                model,
+                input,
+                encoding_format: 'float',
+                ...(dimensions && { dimensions }),
+            }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new EmbeddingRequestError(
+                `Embedding request failed: ${response.status} - ${errorText}`,
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            );
+        }
+
+        const data = await response.json();
+        const items: Array<{ index: number; embedding: number[] }> | undefined = data?.data;
+
+        if (!items || items.length !== input.length) {
+            throw new EmbeddingRequestError('[OpenAIEmbeddings] Unexpected number of embeddings returned', response.status);
+        }
+
+        // Results may come back out of order; index refers to the input position
+        return [...items]
+            .sort((a, b) => a.index - b.index)
+            .map((item) => item.embedding);
+    }
+}
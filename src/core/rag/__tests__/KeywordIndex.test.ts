@@ -0,0 +1,108 @@
+import type { DB } from '@op-engineering/op-sqlite';
+import { sourceCondition } from '../hybridSearch';
+import { KeywordIndex, tokenize } from '../KeywordIndex';
+import { insertChunks, openTestDatabase } from './testDatabase';
+
+// Three chunks of 3, 2 and 2 terms: N = 3, average length 7/3
+const CORPUS = [
+    { id: 'a', content: 'kelp kelp reef', documentId: 1 },
+    { id: 'b', content: 'reef tide', documentId: 1 },
+    { id: 'c', content: 'tide pool', documentId: 2 },
+];
+
+async function count(db: DB, table: string, ids: string[]): Promise<number> {
+    const { rows } = await db.execute(
+        `SELECT COUNT(*) AS n FROM ${table} WHERE id IN (${ids.map(() => '?').join(',')})`,
+        ids
+    );
+    return Number(rows[0]!.n);
+}
+
+describe('tokenize', () => {
+    it('indexes compound tokens whole and as their parts', () => {
+        expect(tokenize('Got ERR_404 from api.example')).toEqual([
+            'got', 'err_404', 'err', '404', 'from', 'api.example', 'api', 'example',
+        ]);
+    });
+
+    it('drops single letters but keeps digits', () => {
+        expect(tokenize('a 7 b')).toEqual(['7']);
+    });
+});
+
+describe('KeywordIndex', () => {
+    let db: DB;
+    let index: KeywordIndex;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        db = await openTestDatabase();
+        // Chunks in the vector store before the index exists are backfilled on load
+        await insertChunks(db, CORPUS);
+        index = await new KeywordIndex(db).load();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('scores a term with BM25', async () => {
+        // idf = ln(1 + 2.5 / 1.5), tf = 2, length 3
+        expect(await index.search('kelp', 10)).toEqual([
+            { id: 'a', score: expect.closeTo(1.2483281401967425, 6) },
+        ]);
+    });
+
+    it('ranks shorter chunks higher for the same term frequency', async () => {
+        expect(await index.search('reef', 10)).toEqual([
+            { id: 'b', score: expect.closeTo(0.4991762683023676, 6) },
+            { id: 'a', score: expect.closeTo(0.42081720292932145, 6) },
+        ]);
+    });
+
+    it('sums the scores of each query term', async () => {
+        const [best] = await index.search('kelp reef', 10);
+        expect(best).toEqual({ id: 'a', score: expect.closeTo(1.6691453431260639, 6) });
+    });
+
+    it('limits the number of results', async () => {
+        expect((await index.search('reef tide', 1)).map((r) => r.id)).toEqual(['b']);
+    });
+
+    it('finds nothing for unknown terms or an empty query', async () => {
+        expect(await index.search('coral', 10)).toEqual([]);
+        expect(await index.search('  ', 10)).toEqual([]);
+    });
+
+    it('only matches chunks of the given sources', async () => {
+        expect((await index.search('tide', 10, [2])).map((r) => r.id)).toEqual(['c']);
+        expect(await index.search('tide', 10, [])).toEqual([]);
+    });
+
+    it('deletes the postings of a source together with its chunks', async () => {
+        // The same steps the RAG runtime takes to delete a source
+        const sources = sourceCondition([1]);
+        const { rows } = await db.execute(`SELECT id FROM vectors WHERE ${sources.sql}`, sources.params);
+        const ids = rows.map((row) => row.id as string);
+        await db.execute(`DELETE FROM vectors WHERE ${sources.sql}`, sources.params);
+        await index.delete(ids);
+
+        expect(ids.sort()).toEqual(['a', 'b']);
+        expect(await count(db, 'keyword_terms', ids)).toBe(0);
+        expect(await count(db, 'keyword_docs', ids)).toBe(0);
+        expect(await count(db, 'keyword_terms', ['c'])).toBe(2);
+
+        // Statistics only cover what is left: a single chunk of length 2
+        expect(await index.search('reef', 10)).toEqual([]);
+        expect(await index.search('tide', 10)).toEqual([
+            { id: 'c', score: expect.closeTo(Math.log(1 + 0.5 / 1.5), 6) },
+        ]);
+    });
+
+    it('replaces the postings of a chunk indexed again', async () => {
+        await index.add('a', 'pool');
+
+        expect(await index.search('kelp', 10)).toEqual([]);
+        expect((await index.search('pool', 10)).map((r) => r.id).sort()).toEqual(['a', 'c']);
+    });
+});
@@ -0,0 +1,74 @@
+import { cosineSimilarity, maximalMarginalRelevance, reciprocalRankFusion, sourceCondition } from '../hybridSearch';
+
+describe('reciprocalRankFusion', () => {
+    it('sums weight / (60 + rank) over the rankings', () => {
+        const scores = reciprocalRankFusion([
+            { ids: ['a', 'b'], weight: 1 },
+            { ids: ['b', 'a', 'c'], weight: 0.5 },
+        ]);
+
+        expect(scores.get('a')).toBeCloseTo(1 / 61 + 0.5 / 62, 12);
+        expect(scores.get('b')).toBeCloseTo(1 / 62 + 0.5 / 61, 12);
+        expect(scores.get('c')).toBeCloseTo(0.5 / 63, 12);
+        // The heavier ranking decides between items both rank
+        expect(scores.get('a')!).toBeGreaterThan(scores.get('b')!);
+    });
+
+    it('skips rankings without weight', () => {
+        const scores = reciprocalRankFusion([
+            { ids: ['a'], weight: 1 },
+            { ids: ['b', 'a'], weight: 0 },
+        ]);
+
+        expect([...scores.keys()]).toEqual(['a']);
+        expect(scores.get('a')).toBeCloseTo(1 / 61, 12);
+    });
+});
+
+describe('cosineSimilarity', () => {
+    it('compares directions, not lengths', () => {
+        expect(cosineSimilarity([1, 0], [3, 0])).toBeCloseTo(1);
+        expect(cosineSimilarity([1, 0], [0, 2])).toBeCloseTo(0);
+        expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+});
+
+describe('maximalMarginalRelevance', () => {
+    // b nearly repeats a; c is less relevant but covers something else
+    const candidates = [
+        { id: 'a', relevance: 0.9, embedding: [1, 0] },
+        { id: 'b', relevance: 0.85, embedding: [0.99, 0.14] },
+        { id: 'c', relevance: 0.6, embedding: [0, 1] },
+    ];
+
+    it('orders by relevance alone when lambda is 1', () => {
+        expect(maximalMarginalRelevance(candidates, 3, 1)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('prefers a diverse item over a near duplicate', () => {
+        expect(maximalMarginalRelevance(candidates, 3, 0.5)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('picks at most k items', () => {
+        expect(maximalMarginalRelevance(candidates, 2, 0.5)).toEqual(['a', 'c']);
+        expect(maximalMarginalRelevance([], 2, 0.5)).toEqual([]);
+    });
+});
+
+describe('sourceCondition', () => {
+    it('matches every row without a source filter', () => {
+        expect(sourceCondition(undefined)).toEqual({ sql: '1 = 1', params: [] });
+    });
+
+    it('matches no row for an empty source list', () => {
+        expect(sourceCondition([])).toEqual({ sql: '1 = 0', params: [] });
+    });
+
+    it('matches the document id in the metadata column', () => {
+        expect(sourceCondition([3, 5])).toEqual({
+            sql: `json_extract(metadata, '$.documentId') IN (?,?)`,
+            params: [3, 5],
+        });
+        expect(sourceCondition([3], 'v.metadata').sql).toBe(`json_extract(v.metadata, '$.documentId') IN (?)`);
+    });
+});
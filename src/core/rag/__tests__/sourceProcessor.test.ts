@@ -0,0 +1,89 @@
+/**
+ * Web and native source processors share the extractors, so the same file
+ * must produce the same chunks (content and page metadata) on both.
+ * Only file access differs: expo-file-system on native, fetch on web.
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Source } from '../../types';
+import { SourceChunk } from '../extractors';
+import * as nativeProcessor from '../sourceProcessor.native';
+import * as webProcessor from '../sourceProcessor.web';
+
+const FIXTURES_DIR = join(__dirname, '../extractors/__tests__/fixtures');
+
+const toPath = (uri: string) => uri.replace('file://', '');
+
+jest.mock('expo-file-system', () => {
+    const fs = jest.requireActual('fs');
+    return {
+        File: class {
+            path: string;
+            constructor(uri: string) {
+                this.path = uri.replace('file://', '');
+            }
+            bytes = async () => new Uint8Array(fs.readFileSync(this.path));
+            text = async () => fs.readFileSync(this.path, 'utf8');
+        },
+    };
+});
+
+// Native module, only used for PDFs
+jest.mock('react-native-pdfium', () => ({ readPDF: jest.fn() }), { virtual: true });
+
+type Processor = typeof nativeProcessor;
+
+const FIXTURES: Array<[name: string, mimeType: string]> = [
+    ['sample.txt', 'text/plain'],
+    ['crlf.txt', 'text/plain'],
+    ['sample.md', 'text/markdown'],
+    ['guide.md', 'application/octet-stream'],
+    ['sample.html', 'text/html'],
+    ['sample.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    ['sample.epub', 'application/epub+zip'],
+    ['sample.csv', 'text/csv'],
+    ['sample.tsv', 'text/tab-separated-values'],
+    ['sample.py', 'text/x-python'],
+];
+
+function createSource(name: string, mimeType: string): Source {
+    const uri = `file://${join(FIXTURES_DIR, name)}`;
+    return { id: 1, name, uri, mimeType, fileSize: readFileSync(toPath(uri)).length, addedAt: 0 };
+}
+
+async function processWith(processor: Processor, source: Source) {
+    const addChunks = jest.fn(async (_chunks: SourceChunk[], _metadata: { documentId: number; name: string }) => {});
+    const result = await processor.processSource(source, addChunks);
+    return { result, calls: addChunks.mock.calls };
+}
+
+describe('processSource', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(global, 'fetch').mockImplementation(async (input) =>
+            new Response(readFileSync(toPath(String(input))))
+        );
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    it.each(FIXTURES)('produces the same chunks on web and native for %s', async (name, mimeType) => {
+        const source = createSource(name, mimeType);
+        const native = await processWith(nativeProcessor, source);
+        const web = await processWith(webProcessor, source);
+
+        expect(native.result).toEqual({ success: true });
+        expect(native.calls).toHaveLength(1);
+        expect(native.calls[0]![0].length).toBeGreaterThan(0);
+        expect(web).toEqual(native);
+    });
+
+    it('reports empty files on both platforms', async () => {
+        const source = { ...createSource('sample.txt', 'text/plain'), uri: 'file:///dev/null' };
+
+        expect((await processWith(nativeProcessor, source)).result).toEqual({ success: false, isEmpty: true });
+        expect((await processWith(webProcessor, source)).result).toEqual({ success: false, isEmpty: true });
+    });
+});
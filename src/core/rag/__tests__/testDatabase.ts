@@ -0,0 +1,66 @@
+/**
+ * In-memory SQLite (sql.js) behind the part of op-sqlite's DB interface that
+ * the keyword index and search queries use, so they run against real SQL in tests.
+ * Vector functions of libsql (vector_distance_cos, ...) are not available.
+ */
+import type { DB, Scalar, SQLBatchTuple } from '@op-engineering/op-sqlite';
+import initSqlJs, { SqlValue } from 'sql.js';
+
+export interface TestChunk {
+    id: string;
+    content: string;
+    documentId: number;
+}
+
+export async function openTestDatabase(): Promise<DB> {
+    const SQL = await initSqlJs();
+    const sqlite = new SQL.Database();
+
+    const query = (sql: string, params: Scalar[] = []) => {
+        const statement = sqlite.prepare(sql);
+        try {
+            statement.bind(params as SqlValue[]);
+            const rows: Record<string, unknown>[] = [];
+            while (statement.step()) {
+                rows.push(statement.getAsObject());
+            }
+            return rows;
+        } finally {
+            statement.free();
+        }
+    };
+
+    const db = {
+        execute: async (sql: string, params?: Scalar[]) => ({ rows: query(sql, params) }),
+        executeBatch: async (commands: SQLBatchTuple[]) => {
+            sqlite.run('BEGIN');
+            try {
+                for (const [sql, params = []] of commands) {
+                    // Batch tuples carry either one parameter list or one per row
+                    const paramSets = Array.isArray(params[0]) ? params as Scalar[][] : [params as Scalar[]];
+                    paramSets.forEach((set) => query(sql, set));
+                }
+                sqlite.run('COMMIT');
+            } catch (error) {
+                sqlite.run('ROLLBACK');
+                throw error;
+            }
+            return { rowsAffected: 0 };
+        },
+    };
+    return db as unknown as DB;
+}
+
+/**
+ * Vector store rows as OPSQLiteVectorStore writes them, without the embedding column
+ */
+export async function insertChunks(db: DB, chunks: TestChunk[]): Promise<void> {
+    await db.execute('CREATE TABLE IF NOT EXISTS vectors (id TEXT PRIMARY KEY, content TEXT, metadata TEXT)');
+    for (const chunk of chunks) {
+        await db.execute('INSERT INTO vectors (id, content, metadata) VALUES (?, ?, ?)', [
+            chunk.id,
+            chunk.content,
+            JSON.stringify({ documentId: chunk.documentId, name: `source-${chunk.documentId}` }),
+        ]);
+    }
+}
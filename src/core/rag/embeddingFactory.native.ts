@@ -3,6 +3,7 @@ import { Embeddings } from 'react-native-rag';
 import { DownloadedModel, RAGProviderType } from '../types';
 import { LlamaEmbeddings } from './LlamaEmbeddings';
 import { OllamaEmbeddings, OllamaEmbeddingsConfig } from './OllamaEmbeddings';
+import { OpenAIEmbeddings, OpenAIEmbeddingsConfig } from './OpenAIEmbeddings';
 import { IEmbeddingFactory } from './types';
 
 /**
@@ -15,7 +16,7 @@ class EmbeddingFactory implements IEmbeddingFactory {
     async createEmbedding(
         providerType: RAGProviderType,
         model: DownloadedModel,
-        ollamaConfig?: OllamaEmbeddingsConfig
+        remoteConfig?: OllamaEmbeddingsConfig | OpenAIEmbeddingsConfig
     ): Promise<Embeddings> {
         switch (providerType) {
             case 'executorch':
@@ -25,14 +26,16 @@ class EmbeddingFactory implements IEmbeddingFactory {
                 return this.createLlamaEmbedding(model);
 
             case 'openai':
-                // TODO: Implement OpenAI embeddings
-                throw new Error('OpenAI embeddings not yet implemented');
+                if (!remoteConfig) {
+                    throw new Error('Remote config required for OpenAI embeddings');
+                }
+                return this.createOpenAIEmbedding(remoteConfig);
 
             case 'ollama':
-                if (!ollamaConfig) {
+                if (!remoteConfig) {
                     throw new Error('Ollama config required for Ollama embeddings');
                 }
-                return this.createOllamaEmbedding(ollamaConfig);
+                return this.createOllamaEmbedding(remoteConfig);
 
             default:
                 throw new Error(`Unknown provider type: ${providerType}`);
@@ -102,6 +105,21 @@ class EmbeddingFactory implements IEmbeddingFactory {
 
         return embeddings;
     }
+
+    /**
+     * Create OpenAI-compatible embedding instance from config
+     */
+    private async createOpenAIEmbedding(config: OpenAIEmbeddingsConfig): Promise<Embeddings> {
+        console.log('[EmbeddingFactory] Creating OpenAI embedding with model:', config.model);
+        console.log('[EmbeddingFactory] Base URL:', config.baseUrl);
+
+        const embeddings = new OpenAIEmbeddings(config);
+
+        // Load (verify connection) before returning
+        await embeddings.load();
+
+        return embeddings;
+    }
 }
 
 export const embeddingFactory = new EmbeddingFactory();
@@ -0,0 +1,30 @@
+import { extractChunks } from '..';
+import { chunkRecords, csvExtractor } from '../csv';
+import { fixtureFile } from './fixtureFile';
+
+describe('csvExtractor', () => {
+    it('keeps quoted newlines inside their row', async () => {
+        const { chunks } = await csvExtractor.extract(fixtureFile('sample.csv', 'text/csv'));
+        expect(chunks).toEqual([
+            'species,habitat,count\nSea star,Rocks,4\n"Anemone, green","Pool\nedge",9\nShore crab,Seaweed,12',
+        ]);
+    });
+
+    it('handles TSV files by extension', async () => {
+        const chunks = await extractChunks(fixtureFile('sample.tsv', ''));
+        expect(chunks).toEqual([
+            { content: 'species\thabitat\tcount\nSea star\tRocks\t4\nShore crab\tSeaweed\t12' },
+        ]);
+    });
+
+    it('repeats the header in every chunk and never splits rows', () => {
+        const rows = Array.from({ length: 6 }, (_, i) => `row ${i},${'x'.repeat(20)}`);
+        const chunks = chunkRecords(['name,value', ...rows], 70);
+
+        expect(chunks).toHaveLength(3);
+        for (const chunk of chunks) {
+            expect(chunk.startsWith('name,value\n')).toBe(true);
+        }
+        expect(chunks.flatMap((chunk) => chunk.split('\n').slice(1))).toEqual(rows);
+    });
+});
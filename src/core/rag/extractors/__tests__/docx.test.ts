@@ -0,0 +1,27 @@
+import { docxExtractor } from '../docx';
+import { fixtureFile } from './fixtureFile';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+describe('docxExtractor', () => {
+    it('keeps paragraphs, tabs, line breaks and table cells', async () => {
+        const { text } = await docxExtractor.extract(fixtureFile('sample.docx', DOCX_MIME_TYPE));
+        expect(text).toBe([
+            'Tide Pool Survey',
+            'Sea stars & crabs\tcounted\nat dawn.',
+            'Kept sentence.',
+            // Table cells hold paragraphs of their own
+            'Crab\n\n\t12',
+        ].join('\n\n'));
+    });
+
+    it('leaves out deleted revisions', async () => {
+        const { text } = await docxExtractor.extract(fixtureFile('sample.docx', DOCX_MIME_TYPE));
+        expect(text).not.toContain('Removed sentence.');
+    });
+
+    it('rejects archives without a document', async () => {
+        await expect(docxExtractor.extract(fixtureFile('sample.epub', DOCX_MIME_TYPE)))
+            .rejects.toThrow('word/document.xml not found');
+    });
+});
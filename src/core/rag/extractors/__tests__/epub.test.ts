@@ -0,0 +1,14 @@
+import { epubExtractor } from '../epub';
+import { fixtureFile } from './fixtureFile';
+
+describe('epubExtractor', () => {
+    it('reads the spine chapters in reading order', async () => {
+        const { text } = await epubExtractor.extract(fixtureFile('sample.epub', 'application/epub+zip'));
+        expect(text).toBe('Chapter One\n\nThe tide goes out.\n\nChapter Two\n\nThe tide returns.');
+    });
+
+    it('rejects archives without a package document', async () => {
+        await expect(epubExtractor.extract(fixtureFile('sample.docx', 'application/epub+zip')))
+            .rejects.toThrow('package document not found');
+    });
+});
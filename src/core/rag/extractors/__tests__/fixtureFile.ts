@@ -0,0 +1,19 @@
+/**
+ * Source file handle backed by a file in the fixtures directory
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SourceFile } from '../types';
+
+export const FIXTURES_DIR = join(__dirname, 'fixtures');
+
+export function fixtureFile(name: string, mimeType = ''): SourceFile {
+    const path = join(FIXTURES_DIR, name);
+    return {
+        uri: `file://${path}`,
+        name,
+        mimeType,
+        readBytes: async () => new Uint8Array(readFileSync(path)),
+        readText: async () => readFileSync(path, 'utf8'),
+    };
+}
@@ -0,0 +1,13 @@
+import math
+
+
+def area(radius):
+    return math.pi * radius ** 2
+
+
+class Pool:
+    def __init__(self, radius):
+        self.radius = radius
+
+    def volume(self, depth):
+        return area(self.radius) * depth
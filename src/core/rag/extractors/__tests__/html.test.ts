@@ -0,0 +1,24 @@
+import { extractChunks } from '..';
+import { htmlExtractor } from '../html';
+import { fixtureFile } from './fixtureFile';
+
+describe('htmlExtractor', () => {
+    it('keeps the main content as plain text', async () => {
+        const { text } = await htmlExtractor.extract(fixtureFile('sample.html', 'text/html'));
+        expect(text).toBe([
+            'Tide Pools',
+            'Sea stars & anemones live in the intertidal zone.',
+            'Temperature swings are “extreme”.\nVisit at low tide.',
+            'Species Count',
+            'Crab 12',
+        ].join('\n\n'));
+    });
+
+    it('drops scripts, styles, navigation and page chrome', async () => {
+        const chunks = await extractChunks(fixtureFile('sample.html', 'text/html'));
+        const content = chunks.map((chunk) => chunk.content).join('\n');
+        for (const dropped of ['tracking', 'color:', 'Home', 'Related articles', 'Shore Club']) {
+            expect(content).not.toContain(dropped);
+        }
+    });
+});
@@ -0,0 +1,50 @@
+import { extractChunks } from '..';
+import { codeExtractor, markdownExtractor, plainTextExtractor } from '../text';
+import { fixtureFile } from './fixtureFile';
+
+describe('plainTextExtractor', () => {
+    it('keeps the text and splits it into one chunk per small file', async () => {
+        const document = await plainTextExtractor.extract(fixtureFile('sample.txt', 'text/plain'));
+        expect(document.text).toContain('Tide pools form where the ocean leaves water behind');
+        expect(document.separators).toBeUndefined();
+
+        const chunks = await extractChunks(fixtureFile('sample.txt', 'text/plain'));
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0]).toEqual({ content: document.text.trim() });
+    });
+
+    it('normalizes Windows line endings', async () => {
+        const document = await plainTextExtractor.extract(fixtureFile('crlf.txt', 'text/plain'));
+        expect(document.text).toBe('Line endings from Windows\nare normalized.\n');
+    });
+});
+
+describe('markdownExtractor', () => {
+    it('drops front matter, comments and image URLs', async () => {
+        const { text } = await markdownExtractor.extract(fixtureFile('sample.md', 'text/markdown'));
+        expect(text.startsWith('# Field Notes')).toBe(true);
+        expect(text).not.toContain('tags:');
+        expect(text).not.toContain('draft');
+        expect(text).toContain('Observed at dawn. A sea star on a rock');
+        expect(text).not.toContain('star.jpg');
+    });
+
+    it('splits long documents at headings', async () => {
+        // Generic MIME type: the extension picks the Markdown extractor
+        const chunks = await extractChunks(fixtureFile('guide.md', 'application/octet-stream'));
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks.slice(1)) {
+            expect(chunk.content.startsWith('## ')).toBe(true);
+        }
+    });
+});
+
+describe('codeExtractor', () => {
+    it('splits between top-level declarations', async () => {
+        const document = await codeExtractor.extract(fixtureFile('sample.py', 'text/x-python'));
+        expect(document.separators).toContain('\ndef ');
+
+        const chunks = await extractChunks(fixtureFile('sample.py', 'text/plain'));
+        expect(chunks).toEqual([{ content: document.text.trim() }]);
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * CSV / TSV extractor
+ *
+ * Produces row-aware chunks: rows are never split across chunks and every
+ * chunk repeats the header row so each chunk can be understood on its own.
+ */
+import { TEXT_SPLITTER_CHUNK_SIZE } from '../../../config/ragConstants';
+import { normalizeText } from './text';
+import { DocumentExtractor } from './types';
+
+/**
+ * Split delimited text into raw record lines, keeping newlines inside quoted fields
+ */
+export function splitRecords(text: string): string[] {
+    const records: string[] = [];
+    let start = 0;
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') {
+            inQuotes = !inQuotes;
+        } else if (char === '\n' && !inQuotes) {
+            records.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    records.push(text.slice(start));
+
+    return records.filter((record) => record.trim().length > 0);
+}
+
+/**
+ * Group records into chunks of at most chunkSize characters, each starting with the header
+ */
+export function chunkRecords(records: string[], chunkSize = TEXT_SPLITTER_CHUNK_SIZE): string[] {
+    const [header, ...rows] = records;
+    if (header === undefined) return [];
+    if (rows.length === 0) return [header];
+
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let length = header.length;
+
+    for (const row of rows) {
+        // A single oversized row still becomes its own chunk
+        if (current.length > 0 && length + row.length + 1 > chunkSize) {
+            chunks.push([header, ...current].join('\n'));
+            current = [];
+            length = header.length;
+        }
+        current.push(row);
+        length += row.length + 1;
+    }
+
+    if (current.length > 0) {
+        chunks.push([header, ...current].join('\n'));
+    }
+
+    return chunks;
+}
+
+export const csvExtractor: DocumentExtractor = {
+    id: 'csv',
+    mimeTypes: ['text/csv', 'text/comma-separated-values', 'application/csv', 'text/tab-separated-values'],
+    extensions: ['csv', 'tsv', 'tab'],
+    extract: async (file) => {
+        const text = normalizeText(await file.readText());
+        const records = splitRecords(text);
+        return { text, chunks: chunkRecords(records) };
+    },
+};
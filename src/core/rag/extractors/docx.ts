@@ -0,0 +1,46 @@
+/**
+ * DOCX extractor
+ *
+ * Reads word/document.xml from the archive and keeps paragraph, tab and
+ * line-break structure. Formatting, headers and footers are ignored.
+ */
+import { strFromU8, unzipSync } from 'fflate';
+import { decodeEntities } from './html';
+import { DocumentExtractor } from './types';
+
+const DOCUMENT_PATH = 'word/document.xml';
+
+export function docxXmlToText(xml: string): string {
+    const text = xml
+        // Paragraph and row boundaries
+        .replace(/<\/w:p>/g, '\n\n')
+        .replace(/<\/w:tr>/g, '\n')
+        .replace(/<\/w:tc>/g, '\t')
+        .replace(/<w:tab\/>/g, '\t')
+        .replace(/<w:(br|cr)\b[^>]*\/>/g, '\n')
+        // Deleted revisions are not part of the document text
+        .replace(/<w:delText\b[^>]*>[\s\S]*?<\/w:delText>/g, '')
+        .replace(/<[^>]+>/g, '');
+
+    return decodeEntities(text)
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+export const docxExtractor: DocumentExtractor = {
+    id: 'docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['docx'],
+    extract: async (file) => {
+        const files = unzipSync(await file.readBytes(), {
+            filter: (entry) => entry.name === DOCUMENT_PATH,
+        });
+        const documentXml = files[DOCUMENT_PATH];
+
+        if (!documentXml) {
+            throw new Error('Invalid DOCX file: word/document.xml not found');
+        }
+
+        return { text: docxXmlToText(strFromU8(documentXml)) };
+    },
+};
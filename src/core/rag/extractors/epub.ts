@@ -0,0 +1,78 @@
+/**
+ * EPUB extractor
+ *
+ * Follows META-INF/container.xml to the package document and reads the
+ * spine's XHTML files in reading order.
+ */
+import { strFromU8, unzipSync, Unzipped } from 'fflate';
+import { htmlToText } from './html';
+import { DocumentExtractor } from './types';
+
+const CONTAINER_PATH = 'META-INF/container.xml';
+
+function readEntry(files: Unzipped, path: string): string | null {
+    const data = files[path];
+    return data ? strFromU8(data) : null;
+}
+
+function getAttribute(tag: string, name: string): string | null {
+    const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+    return match ? (match[2] ?? match[3] ?? null) : null;
+}
+
+/**
+ * Resolve an href from the package document against its directory
+ */
+function resolvePath(baseDir: string, href: string): string {
+    const parts = (baseDir + decodeURIComponent(href.split('#')[0]!)).split('/');
+    const resolved: string[] = [];
+    for (const part of parts) {
+        if (part === '..') resolved.pop();
+        else if (part !== '.' && part !== '') resolved.push(part);
+    }
+    return resolved.join('/');
+}
+
+/**
+ * Get the spine's content documents in reading order
+ */
+function getSpinePaths(files: Unzipped): string[] {
+    const container = readEntry(files, CONTAINER_PATH);
+    const rootfileTag = container?.match(/<rootfile\b[^>]*>/)?.[0];
+    const opfPath = rootfileTag ? getAttribute(rootfileTag, 'full-path') : null;
+    const opf = opfPath ? readEntry(files, opfPath) : null;
+
+    if (!opfPath || !opf) {
+        throw new Error('Invalid EPUB file: package document not found');
+    }
+
+    const baseDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+
+    const manifest = new Map<string, string>();
+    for (const item of opf.match(/<item\b[^>]*>/g) ?? []) {
+        const id = getAttribute(item, 'id');
+        const href = getAttribute(item, 'href');
+        if (id && href) manifest.set(id, resolvePath(baseDir, href));
+    }
+
+    return (opf.match(/<itemref\b[^>]*>/g) ?? [])
+        .map((itemref) => manifest.get(getAttribute(itemref, 'idref') ?? ''))
+        .filter((path): path is string => !!path);
+}
+
+export const epubExtractor: DocumentExtractor = {
+    id: 'epub',
+    mimeTypes: ['application/epub+zip'],
+    extensions: ['epub'],
+    extract: async (file) => {
+        const files = unzipSync(await file.readBytes());
+
+        const chapters = getSpinePaths(files)
+            .map((path) => readEntry(files, path))
+            .filter((html): html is string => !!html)
+            .map(htmlToText)
+            .filter((text) => text.length > 0);
+
+        return { text: chapters.join('\n\n') };
+    },
+};
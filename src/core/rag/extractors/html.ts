@@ -0,0 +1,84 @@
+/**
+ * HTML extractor
+ *
+ * Keeps the main content only: prefers <main>/<article>, drops scripts,
+ * styles, navigation, headers, footers and sidebars. Regex based so it
+ * works without a DOM on native.
+ */
+import { normalizeText } from './text';
+import { DocumentExtractor } from './types';
+
+// Elements whose content is never part of the main text
+const STRIPPED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'nav', 'header', 'footer', 'aside', 'form'];
+
+// Elements that start a new line of text
+const BLOCK_ELEMENTS = 'p|div|section|article|main|h[1-6]|li|ul|ol|tr|table|blockquote|pre|dd|dt|figcaption';
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    mdash: '—',
+    ndash: '–',
+    hellip: '…',
+    lsquo: '‘',
+    rsquo: '’',
+    ldquo: '“',
+    rdquo: '”',
+    copy: '©',
+};
+
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+            return Number.isNaN(code) ? match : String.fromCodePoint(code);
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Return the inner HTML of the first matching element, if any
+ */
+function innerOf(html: string, tag: string): string | null {
+    const match = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)</${tag}>`, 'i'));
+    return match ? match[1]! : null;
+}
+
+/**
+ * Convert an HTML (or XHTML) document to readable plain text
+ */
+export function htmlToText(html: string): string {
+    let content = html.replace(/<!--[\s\S]*?-->/g, '');
+
+    for (const tag of STRIPPED_ELEMENTS) {
+        content = content.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, 'gi'), '');
+    }
+
+    content = innerOf(content, 'main') ?? innerOf(content, 'article') ?? innerOf(content, 'body') ?? content;
+
+    const text = content
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(new RegExp(`</?(${BLOCK_ELEMENTS})\\b[^>]*>`, 'gi'), '\n\n')
+        .replace(/<(td|th)\b[^>]*>/gi, ' ')
+        .replace(/<[^>]+>/g, '');
+
+    return decodeEntities(normalizeText(text))
+        .replace(/[ \t\u00a0]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+export const htmlExtractor: DocumentExtractor = {
+    id: 'html',
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extensions: ['html', 'htm', 'xhtml'],
+    extract: async (file) => ({ text: htmlToText(await file.readText()) }),
+};
@@ -0,0 +1,95 @@
+/**
+ * Document Extractor Registry
+ *
+ * Maps a source's MIME type (or file extension as a fallback) to the
+ * extractor that turns it into chunks. Platform-specific extractors
+ * (PDF) are registered by the platform source processors.
+ */
+import { csvExtractor } from './csv';
+import { docxExtractor } from './docx';
+import { epubExtractor } from './epub';
+import { htmlExtractor } from './html';
+import { codeExtractor, markdownExtractor, plainTextExtractor } from './text';
+import { splitText } from './textSplitter';
+import { DocumentExtractor, SourceChunk, SourceFile } from './types';
+
+export * from './types';
+export { splitText } from './textSplitter';
+
+const extractors: DocumentExtractor[] = [
+    plainTextExtractor,
+    markdownExtractor,
+    htmlExtractor,
+    docxExtractor,
+    epubExtractor,
+    csvExtractor,
+    codeExtractor,
+];
+
+/**
+ * Register an extractor; later registrations take precedence
+ */
+export function registerExtractor(extractor: DocumentExtractor): void {
+    const existing = extractors.findIndex((e) => e.id === extractor.id);
+    if (existing !== -1) {
+        extractors.splice(existing, 1);
+    }
+    extractors.unshift(extractor);
+}
+
+function getExtension(name: string): string {
+    const dot = name.lastIndexOf('.');
+    return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Find the extractor for a file. The MIME type wins; the extension is used
+ * when the type is missing or generic (pickers often report octet-stream
+ * or text/plain for Markdown and code).
+ */
+export function findExtractor(mimeType: string, name: string): DocumentExtractor | null {
+    const type = mimeType.split(';')[0]!.trim().toLowerCase();
+    const extension = getExtension(name);
+
+    const byExtension = extension ? extractors.find((e) => e.extensions.includes(extension)) : undefined;
+    const isGeneric = !type || type === 'application/octet-stream' || type === 'text/plain';
+
+    if (isGeneric && byExtension) {
+        return byExtension;
+    }
+    return extractors.find((e) => e.mimeTypes.includes(type)) ?? byExtension ?? null;
+}
+
+/**
+ * MIME types accepted by the source picker
+ */
+export function getSupportedMimeTypes(): string[] {
+    // Code and Markdown files are commonly reported as text/* or octet-stream
+    return [...new Set([...extractors.flatMap((e) => e.mimeTypes), 'text/*', 'application/octet-stream'])];
+}
+
+/**
+ * Extract a file and split it into chunks
+ */
+export async function extractChunks(file: SourceFile): Promise<SourceChunk[]> {
+    const extractor = findExtractor(file.mimeType, file.name);
+    if (!extractor) {
+        throw new Error(`Unsupported file type: ${file.mimeType || file.name}`);
+    }
+
+    console.log('[Extractors] Using', extractor.id, 'extractor for:', file.name);
+    const document = await extractor.extract(file);
+
+    if (document.chunks) {
+        return document.chunks.map((content) => ({ content }));
+    }
+    if (document.pages) {
+        return document.pages.flatMap((pageText, i) =>
+            splitText(pageText, { separators: document.separators }).map((content) => ({ content, page: i + 1 }))
+        );
+    }
+    if (!document.text || document.text.trim().length === 0) {
+        return [];
+    }
+    return splitText(document.text, { separators: document.separators }).map((content) => ({ content }));
+}
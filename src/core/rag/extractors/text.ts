@@ -0,0 +1,78 @@
+/**
+ * Plain text, Markdown and source code extractors
+ */
+import { DocumentExtractor } from './types';
+
+/**
+ * Normalize line endings and strip a leading byte order mark
+ */
+export function normalizeText(text: string): string {
+    return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+export const plainTextExtractor: DocumentExtractor = {
+    id: 'text',
+    mimeTypes: ['text/plain'],
+    extensions: ['txt', 'text', 'log'],
+    extract: async (file) => ({ text: normalizeText(await file.readText()) }),
+};
+
+export const markdownExtractor: DocumentExtractor = {
+    id: 'markdown',
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extensions: ['md', 'markdown', 'mdx'],
+    extract: async (file) => {
+        const text = normalizeText(await file.readText())
+            // YAML front matter
+            .replace(/^---\n[\s\S]*?\n---\n/, '')
+            // HTML comments
+            .replace(/<!--[\s\S]*?-->/g, '')
+            // Images carry no text beyond their alt
+            .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1');
+
+        return {
+            text,
+            // Prefer splitting at headings so sections stay together
+            separators: ['\n# ', '\n## ', '\n### ', '\n#### ', '\n\n', '\n', '. ', ' ', ''],
+        };
+    },
+};
+
+export const codeExtractor: DocumentExtractor = {
+    id: 'code',
+    mimeTypes: [
+        'application/javascript',
+        'text/javascript',
+        'application/typescript',
+        'application/x-typescript',
+        'application/json',
+        'application/xml',
+        'text/xml',
+        'application/x-yaml',
+        'text/yaml',
+        'application/x-sh',
+        'text/x-python',
+        'text/x-java-source',
+        'text/x-c',
+        'text/x-c++',
+        'text/x-csharp',
+        'text/x-go',
+        'text/x-rust',
+        'text/x-kotlin',
+        'text/x-swift',
+        'text/css',
+    ],
+    extensions: [
+        'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'json', 'xml', 'yaml', 'yml', 'toml', 'ini',
+        'sh', 'bash', 'py', 'rb', 'php', 'java', 'kt', 'kts', 'swift', 'go', 'rs',
+        'c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'm', 'scala', 'lua', 'sql', 'css', 'scss',
+    ],
+    extract: async (file) => ({
+        text: normalizeText(await file.readText()),
+        // Prefer splitting between top-level declarations, then blank lines, never mid-line
+        separators: [
+            '\nclass ', '\nfunction ', '\nexport ', '\ndef ', '\nfunc ', '\nfn ', '\npub ',
+            '\n\n', '\n', ' ', '',
+        ],
+    }),
+};
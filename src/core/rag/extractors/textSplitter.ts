@@ -0,0 +1,107 @@
+/**
+ * Recursive character text splitter
+ *
+ * Shared by web and native so chunk boundaries don't depend on the platform.
+ * Splits on the first separator that occurs in the text, recursing into
+ * pieces that are still too long, then merges small pieces back together
+ * up to the chunk size with some overlap.
+ */
+import { TEXT_SPLITTER_CHUNK_OVERLAP, TEXT_SPLITTER_CHUNK_SIZE } from '../../../config/ragConstants';
+
+export const DEFAULT_SEPARATORS = ['\n\n', '\n', '. ', ' ', ''];
+
+interface TextSplitterOptions {
+    chunkSize?: number;
+    chunkOverlap?: number;
+    separators?: string[];
+}
+
+export function splitText(text: string, options: TextSplitterOptions = {}): string[] {
+    const {
+        chunkSize = TEXT_SPLITTER_CHUNK_SIZE,
+        chunkOverlap = TEXT_SPLITTER_CHUNK_OVERLAP,
+        separators = DEFAULT_SEPARATORS,
+    } = options;
+
+    return split(text, separators, chunkSize, chunkOverlap)
+        .map((chunk) => chunk.trim())
+        .filter((chunk) => chunk.length > 0);
+}
+
+function split(text: string, separators: string[], chunkSize: number, chunkOverlap: number): string[] {
+    // Pick the first separator present in the text ('' always matches)
+    const index = separators.findIndex((sep) => sep === '' || text.includes(sep));
+    const separator = index === -1 ? '' : separators[index]!;
+    const remaining = index === -1 ? [] : separators.slice(index + 1);
+
+    const pieces = separator === '' ? Array.from(text) : splitKeepingSeparator(text, separator);
+
+    const chunks: string[] = [];
+    let pending: string[] = [];
+
+    for (const piece of pieces) {
+        if (piece.length <= chunkSize) {
+            pending.push(piece);
+            continue;
+        }
+
+        // Too long on its own: flush what we have and recurse with finer separators
+        if (pending.length > 0) {
+            chunks.push(...merge(pending, chunkSize, chunkOverlap));
+            pending = [];
+        }
+        if (remaining.length === 0) {
+            for (let i = 0; i < piece.length; i += chunkSize - chunkOverlap) {
+                chunks.push(piece.slice(i, i + chunkSize));
+            }
+        } else {
+            chunks.push(...split(piece, remaining, chunkSize, chunkOverlap));
+        }
+    }
+
+    if (pending.length > 0) {
+        chunks.push(...merge(pending, chunkSize, chunkOverlap));
+    }
+
+    return chunks;
+}
+
+/**
+ * Split text, keeping the separator at the start of each following piece
+ * so headings and code keywords stay attached to their content
+ */
+function splitKeepingSeparator(text: string, separator: string): string[] {
+    const parts = text.split(separator);
+    return parts
+        .map((part, i) => (i === 0 ? part : separator + part))
+        .filter((part) => part.length > 0);
+}
+
+/**
+ * Merge small pieces into chunks of at most chunkSize, carrying trailing
+ * pieces over as overlap into the next chunk
+ */
+function merge(pieces: string[], chunkSize: number, chunkOverlap: number): string[] {
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let length = 0;
+
+    for (const piece of pieces) {
+        if (length + piece.length > chunkSize && current.length > 0) {
+            chunks.push(current.join(''));
+
+            // Drop pieces from the front until only the overlap remains
+            while (length > chunkOverlap || (length + piece.length > chunkSize && length > 0)) {
+                length -= current.shift()!.length;
+            }
+        }
+        current.push(piece);
+        length += piece.length;
+    }
+
+    if (current.length > 0) {
+        chunks.push(current.join(''));
+    }
+
+    return chunks;
+}
@@ -0,0 +1,56 @@
+/**
+ * Document Extractor Types
+ *
+ * Extractors turn a source file into plain text (or ready-made chunks)
+ * for the RAG pipeline. They are pure TypeScript so web and native
+ * produce identical output; only file access is platform-specific.
+ */
+
+/**
+ * Platform-neutral handle to a source file
+ */
+export interface SourceFile {
+    uri: string;
+    name: string;
+    mimeType: string;
+    /** Read the whole file as bytes */
+    readBytes: () => Promise<Uint8Array>;
+    /** Read the whole file as UTF-8 text */
+    readText: () => Promise<string>;
+}
+
+/**
+ * Result of extracting a document
+ */
+export interface ExtractedDocument {
+    /** Extracted plain text, split into chunks by the shared text splitter */
+    text: string;
+    /** Separators tried in order when splitting (defaults to paragraphs → lines → sentences → words) */
+    separators?: string[];
+    /** Ready-made chunks for formats with natural boundaries (e.g., CSV rows); skips the text splitter */
+    chunks?: string[];
+    /** Text of each page for paged formats (PDF); pages are split separately so chunks keep their page number */
+    pages?: string[];
+}
+
+/**
+ * Chunk of a source ready for embedding
+ */
+export interface SourceChunk {
+    content: string;
+    /** 1-based page number, when the format has pages */
+    page?: number;
+}
+
+/**
+ * Extractor for one family of file formats
+ */
+export interface DocumentExtractor {
+    /** Identifier used in logs */
+    id: string;
+    /** MIME types handled by this extractor (lowercase) */
+    mimeTypes: string[];
+    /** File extensions handled by this extractor, used when the MIME type is missing or generic */
+    extensions: string[];
+    extract: (file: SourceFile) => Promise<ExtractedDocument>;
+}
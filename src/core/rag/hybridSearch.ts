@@ -0,0 +1,207 @@
+/**
+ * Hybrid Search
+ *
+ * Combines vector similarity and BM25 keyword results for RAG retrieval:
+ * 1. Vector ranking over the OP-SQLite vector store (with similarity cutoff)
+ * 2. Keyword ranking from the KeywordIndex
+ * 3. Weighted reciprocal rank fusion of both rankings
+ * 4. Optional MMR (maximal marginal relevance) step to diversify results
+ */
+
+import type { DB } from '@op-engineering/op-sqlite';
+import { Embeddings } from 'react-native-rag';
+import { RAGRetrievalSettings } from '../types';
+import type { KeywordIndex } from './KeywordIndex';
+import { RAGSearchResult } from './types';
+
+// Standard RRF constant; dampens the advantage of the very first ranks
+const RRF_K = 60;
+
+// Candidates considered per ranking before fusion
+const MIN_CANDIDATES = 20;
+const CANDIDATES_PER_RESULT = 4;
+
+export interface HybridSearchOptions {
+    db: DB;
+    embeddings: Embeddings;
+    /** Query embedding computed beforehand with the same embeddings (embedded here when unset) */
+    queryEmbedding?: number[];
+    keywordIndex: KeywordIndex | null;
+    settings: RAGRetrievalSettings;
+    /** Number of results to return */
+    k: number;
+    /** Only search chunks of these sources (all sources when unset) */
+    sourceIds?: number[];
+}
+
+/**
+ * Fuse rankings by summing weight / (RRF_K + rank) for each list an item appears in
+ */
+export function reciprocalRankFusion(
+    rankings: { ids: string[]; weight: number }[]
+): Map<string, number> {
+    const scores = new Map<string, number>();
+    for (const { ids, weight } of rankings) {
+        if (weight <= 0) continue;
+        ids.forEach((id, rank) => {
+            scores.set(id, (scores.get(id) ?? 0) + weight / (RRF_K + rank + 1));
+        });
+    }
+    return scores;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i]! * b[i]!;
+        normA += a[i]! * a[i]!;
+        normB += b[i]! * b[i]!;
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Pick k items balancing relevance against similarity to items already picked.
+ * lambda = 1 ranks purely by relevance, lambda = 0 purely by diversity.
+ */
+export function maximalMarginalRelevance(
+    candidates: { id: string; relevance: number; embedding: number[] }[],
+    k: number,
+    lambda: number
+): string[] {
+    const remaining = [...candidates];
+    const selected: typeof candidates = [];
+
+    while (selected.length < k && remaining.length > 0) {
+        let bestIndex = 0;
+        let bestScore = -Infinity;
+
+        remaining.forEach((candidate, i) => {
+            const redundancy = selected.length > 0
+                ? Math.max(...selected.map((s) => cosineSimilarity(candidate.embedding, s.embedding)))
+                : 0;
+            const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+            if (score > bestScore) {
+                bestScore = score;
+                bestIndex = i;
+            }
+        });
+
+        selected.push(remaining.splice(bestIndex, 1)[0]!);
+    }
+
+    return selected.map((s) => s.id);
+}
+
+function parseMetadata(raw: unknown): RAGSearchResult['metadata'] {
+    return raw ? JSON.parse(raw as string) : undefined;
+}
+
+/**
+ * SQL condition (and its parameters) restricting vector rows to the given sources
+ */
+export function sourceCondition(sourceIds: number[] | undefined, column = 'metadata'): { sql: string; params: number[] } {
+    if (!sourceIds) return { sql: '1 = 1', params: [] };
+    if (sourceIds.length === 0) return { sql: '1 = 0', params: [] };
+    return {
+        sql: `json_extract(${column}, '$.documentId') IN (${sourceIds.map(() => '?').join(',')})`,
+        params: sourceIds,
+    };
+}
+
+/**
+ * Run hybrid retrieval over the vector store.
+ * Results carry the cosine similarity to the query, ordered by fused rank.
+ */
+export async function hybridSearch(query: string, options: HybridSearchOptions): Promise<RAGSearchResult[]> {
+    const { db, embeddings, keywordIndex, settings, k, sourceIds } = options;
+    const poolSize = Math.max(k * CANDIDATES_PER_RESULT, MIN_CANDIDATES);
+    const sources = sourceCondition(sourceIds);
+
+    const queryEmbedding = options.queryEmbedding ?? await embeddings.embed(query);
+    const queryVector = `[${queryEmbedding.join(',')}]`;
+
+    const candidates = new Map<string, RAGSearchResult & { id: string }>();
+    const addCandidates = (rows: Record<string, unknown>[]) => {
+        for (const row of rows) {
+            candidates.set(row.id as string, {
+                id: row.id as string,
+                content: row.content as string,
+                metadata: parseMetadata(row.metadata),
+                similarity: 1 - (row.cosine_distance as number),
+            });
+        }
+    };
+
+    // 1. Vector ranking: the closest chunks of the searched sources
+    const { rows } = await db.execute(
+        `SELECT id, content, metadata, vector_distance_cos(embedding, vector(?)) AS cosine_distance
+         FROM vectors
+         WHERE ${sources.sql}
+         ORDER BY cosine_distance ASC
+         LIMIT ?`,
+        [queryVector, ...sources.params, poolSize]
+    );
+    addCandidates(rows);
+
+    const vectorIds = Array.from(candidates.values())
+        .filter((c) => (c.similarity ?? 0) >= settings.minSimilarity)
+        .map((c) => c.id);
+
+    // 2. Keyword ranking; exact term matches bypass the similarity cutoff
+    let keywordIds: string[] = [];
+    if (keywordIndex && settings.keywordWeight > 0) {
+        const keywordResults = await keywordIndex.search(query, poolSize, sourceIds);
+        keywordIds = keywordResults.map((r) => r.id);
+
+        // Keyword hits outside the vector pool still need their content and similarity
+        const missing = keywordIds.filter((id) => !candidates.has(id));
+        if (missing.length > 0) {
+            const keywordRows = await db.execute(
+                `SELECT id, content, metadata, vector_distance_cos(embedding, vector(?)) AS cosine_distance
+                 FROM vectors
+                 WHERE id IN (${missing.map(() => '?').join(',')})`,
+                [queryVector, ...missing]
+            );
+            addCandidates(keywordRows.rows);
+        }
+        keywordIds = keywordIds.filter((id) => candidates.has(id));
+    }
+
+    // 3. Fusion
+    const fused = Array.from(reciprocalRankFusion([
+        { ids: vectorIds, weight: settings.vectorWeight },
+        { ids: keywordIds, weight: settings.keywordWeight },
+    ]))
+        .sort((a, b) => b[1] - a[1]);
+
+    let rankedIds = fused.map(([id]) => id);
+
+    // 4. Diversity
+    if (settings.useMMR && rankedIds.length > k) {
+        const pool = fused.slice(0, poolSize);
+        const placeholders = pool.map(() => '?').join(',');
+        const embeddingRows = await db.execute(
+            `SELECT id, vector_extract(embedding) AS embedding FROM vectors WHERE id IN (${placeholders})`,
+            pool.map(([id]) => id)
+        );
+        const embeddingsById = new Map(
+            embeddingRows.rows.map((row) => [row.id as string, JSON.parse(row.embedding as string) as number[]])
+        );
+
+        const topScore = pool[0]?.[1] || 1;
+        rankedIds = maximalMarginalRelevance(
+            pool.map(([id, score]) => ({
+                id,
+                relevance: score / topScore,
+                embedding: embeddingsById.get(id) ?? [],
+            })),
+            k,
+            settings.mmrLambda
+        );
+    }
+
+    return rankedIds.slice(0, k).map((id) => candidates.get(id)!);
+}
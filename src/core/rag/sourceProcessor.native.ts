@@ -1,20 +1,50 @@
 /**
  * Source Processor - Native Implementation
- * 
+ *
  * Stateless worker for processing source documents.
- * Extracts text from PDFs using react-native-pdfium, splits into chunks.
+ * Extracts text with the extractor registered for the source's type
+ * (PDFs via react-native-pdfium), splits into chunks.
  */
+import { File } from 'expo-file-system';
 import { readPDF } from 'react-native-pdfium';
-import { RecursiveCharacterTextSplitter } from 'react-native-rag';
-import { TEXT_SPLITTER_CHUNK_OVERLAP, TEXT_SPLITTER_CHUNK_SIZE } from '../../config/ragConstants';
 import { Source } from '../types';
+import { DocumentExtractor, extractChunks, registerExtractor, SourceChunk, SourceFile } from './extractors';
 
 // Types for external dependencies
-type RAGRuntimeAddChunksFunction = (chunks: string[], metadata: { documentId: number; name: string }) => Promise<void>;
+type RAGRuntimeAddChunksFunction = (chunks: SourceChunk[], metadata: { documentId: number; name: string }) => Promise<void>;
+
+/**
+ * PDF extractor using react-native-pdfium (reads from the file path directly).
+ * Page numbers are kept when the text contains form feed page breaks.
+ */
+const pdfExtractor: DocumentExtractor = {
+    id: 'pdf',
+    mimeTypes: ['application/pdf'],
+    extensions: ['pdf'],
+    extract: async (file) => {
+        const text = await readPDF(file.uri.replace('file://', ''));
+        return text.includes('\f') ? { text, pages: text.split('\f') } : { text };
+    },
+};
+
+registerExtractor(pdfExtractor);
+
+/**
+ * Create a file handle for a source stored on the device
+ */
+function toSourceFile(source: Source): SourceFile {
+    return {
+        uri: source.uri,
+        name: source.name,
+        mimeType: source.mimeType,
+        readBytes: () => new File(source.uri).bytes(),
+        readText: () => new File(source.uri).text(),
+    };
+}
 
 /**
  * Process a source document and add to vector store
- * 
+ *
  * @param source The source document to process
  * @param addChunks Function to add chunks to RAG runtime
  * @returns Object with success status and optional error
@@ -24,19 +54,9 @@ export async function processSource(
     addChunks: RAGRuntimeAddChunksFunction
 ): Promise<{ success: boolean; isEmpty?: boolean; error?: string }> {
     try {
-        const normalizedUri = source.uri.replace('file://', '');
-
-        // 1. Extract text from PDF
+        // 1. Extract text and split into chunks
         console.log('[SourceProcessor] Extracting text from:', source.name);
-        const text = await readPDF(normalizedUri);
-
-        if (!text || text.trim().length === 0) {
-            return { success: false, isEmpty: true };
-        }
-
-        // 2. Split text into chunks
-        console.log('[SourceProcessor] Splitting text into chunks...');
-        const chunks = await splitText(text);
+        const chunks = await extractChunks(toSourceFile(source));
 
         if (chunks.length === 0) {
             return { success: false, isEmpty: true };
@@ -44,7 +64,7 @@ export async function processSource(
 
         console.log('[SourceProcessor] Created', chunks.length, 'chunks');
 
-        // 3. Send to RAG runtime for embedding + storage
+        // 2. Send to RAG runtime for embedding + storage
         await addChunks(chunks, {
             documentId: source.id,
             name: source.name,
@@ -58,17 +78,6 @@ export async function processSource(
     }
 }
 
-/**
- * Split text into chunks using RecursiveCharacterTextSplitter
- */
-async function splitText(text: string): Promise<string[]> {
-    const textSplitter = new RecursiveCharacterTextSplitter({
-        chunkSize: TEXT_SPLITTER_CHUNK_SIZE,
-        chunkOverlap: TEXT_SPLITTER_CHUNK_OVERLAP,
-    });
-    return await textSplitter.splitText(text);
-}
-
 /**
  * Check if source processing is supported on current platform
  */
@@ -2,15 +2,16 @@
  * Source Processor - Web Implementation
  * 
  * Stateless worker for processing source documents.
- * Extracts text from PDFs using pdfjs-dist for web platform.
+ * Extracts text with the extractor registered for the source's type
+ * (PDFs via pdfjs-dist), splits into chunks.
  * 
  * Note: pdfjs-dist is loaded dynamically to avoid bundling issues with DOMMatrix.
  */
-import { TEXT_SPLITTER_CHUNK_OVERLAP, TEXT_SPLITTER_CHUNK_SIZE } from '../../config/ragConstants';
 import { Source } from '../types';
+import { DocumentExtractor, extractChunks, registerExtractor, SourceChunk, SourceFile } from './extractors';
 
 // Types for external dependencies
-type RAGRuntimeAddChunksFunction = (chunks: string[], metadata: { documentId: number; name: string }) => Promise<void>;
+type RAGRuntimeAddChunksFunction = (chunks: SourceChunk[], metadata: { documentId: number; name: string }) => Promise<void>;
 
 // Lazy-loaded pdfjs library
 let pdfjsLib: typeof import('pdfjs-dist') | null = null;
@@ -33,9 +34,9 @@ async function getPdfJs(): Promise<typeof import('pdfjs-dist')> {
 }
 
 /**
- * Extract text from a PDF file using pdfjs-dist
+ * Extract the text of each page of a PDF file using pdfjs-dist
  */
-async function extractTextFromPDF(uri: string): Promise<string> {
+async function extractPagesFromPDF(uri: string): Promise<string[]> {
     const pdfjs = await getPdfJs();
 
     try {
@@ -43,7 +44,7 @@ async function extractTextFromPDF(uri: string): Promise<string> {
         const loadingTask = pdfjs.getDocument(uri);
         const pdf = await loadingTask.promise;
 
-        let fullText = '';
+        const pages: string[] = [];
 
         // Extract text from each page
         for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
@@ -54,10 +55,10 @@ async function extractTextFromPDF(uri: string): Promise<string> {
                 .map((item: any) => item.str)
                 .join(' ');
 
-            fullText += pageText + '\n';
+            pages.push(pageText.trim());
         }
 
-        return fullText.trim();
+        return pages;
     } catch (error) {
         console.error('[SourceProcessor] Error extracting PDF text:', error);
         throw error;
@@ -65,55 +66,39 @@ async function extractTextFromPDF(uri: string): Promise<string> {
 }
 
 /**
- * Split text into chunks using a simple recursive character splitter
- * This is a simplified version for web - no native RecursiveCharacterTextSplitter
+ * PDF extractor using pdfjs-dist
  */
-function splitText(text: string): string[] {
-    const chunkSize = TEXT_SPLITTER_CHUNK_SIZE;
-    const chunkOverlap = TEXT_SPLITTER_CHUNK_OVERLAP;
-    const chunks: string[] = [];
-
-    // Split by paragraphs first
-    const paragraphs = text.split(/\n\n+/);
-    let currentChunk = '';
-
-    for (const paragraph of paragraphs) {
-        if (currentChunk.length + paragraph.length <= chunkSize) {
-            currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-        } else {
-            if (currentChunk) {
-                chunks.push(currentChunk);
-                // Keep overlap from the end of the current chunk
-                const overlap = currentChunk.slice(-chunkOverlap);
-                currentChunk = overlap + (overlap ? '\n\n' : '') + paragraph;
-            } else {
-                // Paragraph is too long, split by sentences
-                const sentences = paragraph.split(/(?<=[.!?])\s+/);
-                for (const sentence of sentences) {
-                    if (currentChunk.length + sentence.length <= chunkSize) {
-                        currentChunk += (currentChunk ? ' ' : '') + sentence;
-                    } else {
-                        if (currentChunk) {
-                            chunks.push(currentChunk);
-                            const overlap = currentChunk.slice(-chunkOverlap);
-                            currentChunk = overlap + (overlap ? ' ' : '') + sentence;
-                        } else {
-                            // Sentence is too long, just split by size
-                            for (let i = 0; i < sentence.length; i += chunkSize - chunkOverlap) {
-                                chunks.push(sentence.slice(i, i + chunkSize));
-                            }
-                        }
-                    }
-                }
-            }
-        }
-    }
-
-    if (currentChunk) {
-        chunks.push(currentChunk);
-    }
+const pdfExtractor: DocumentExtractor = {
+    id: 'pdf',
+    mimeTypes: ['application/pdf'],
+    extensions: ['pdf'],
+    extract: async (file) => {
+        const pages = await extractPagesFromPDF(file.uri);
+        return { text: pages.join('\n'), pages };
+    },
+};
+
+registerExtractor(pdfExtractor);
 
-    return chunks;
+/**
+ * Create a file handle for a source (blob: or http(s): URI)
+ */
+function toSourceFile(source: Source): SourceFile {
+    const load = async () => {
+        const response = await fetch(source.uri);
+        if (!response.ok) {
+            throw new Error(`Failed to read ${source.name}: ${response.status}`);
+        }
+        return response;
+    };
+
+    return {
+        uri: source.uri,
+        name: source.name,
+        mimeType: source.mimeType,
+        readBytes: async () => new Uint8Array(await (await load()).arrayBuffer()),
+        readText: async () => (await load()).text(),
+    };
 }
 
 /**
@@ -128,17 +113,9 @@ export async function processSource(
     addChunks: RAGRuntimeAddChunksFunction
 ): Promise<{ success: boolean; isEmpty?: boolean; error?: string }> {
     try {
-        // 1. Extract text from PDF
+        // 1. Extract text and split into chunks
         console.log('[SourceProcessor] Extracting text from:', source.name);
-        const text = await extractTextFromPDF(source.uri);
-
-        if (!text || text.trim().length === 0) {
-            return { success: false, isEmpty: true };
-        }
-
-        // 2. Split text into chunks
-        console.log('[SourceProcessor] Splitting text into chunks...');
-        const chunks = splitText(text);
+        const chunks = await extractChunks(toSourceFile(source));
 
         if (chunks.length === 0) {
             return { success: false, isEmpty: true };
@@ -146,7 +123,7 @@ export async function processSource(
 
         console.log('[SourceProcessor] Created', chunks.length, 'chunks');
 
-        // 3. Send to RAG runtime for embedding + storage
+        // 2. Send to RAG runtime for embedding + storage
         await addChunks(chunks, {
             documentId: source.id,
             name: source.name,
@@ -164,6 +141,6 @@ export async function processSource(
  * Check if source processing is supported on current platform
  */
 export function isProcessingSupported(): boolean {
-    // On web, PDF processing is available but loaded dynamically
+    // On web, PDF processing is available but pdfjs is loaded dynamically
     return true;
 }
@@ -11,8 +11,9 @@ import { DownloadedModel, RAGProviderType } from '../types';
  * Generate a fingerprint for a RAG provider config
  * Used to detect when reprocessing is needed
  */
-export function generateProviderFingerprint(providerType: RAGProviderType, modelId: string): string {
-    return `${providerType}:${modelId}`;
+export function generateProviderFingerprint(providerType: RAGProviderType, modelId: string, dimensions?: number): string {
+    // Shortened embeddings are incompatible with full-size ones from the same model
+    return dimensions ? `${providerType}:${modelId}:${dimensions}` : `${providerType}:${modelId}`;
 }
 
 /**
@@ -34,14 +35,24 @@ export interface IEmbeddingFactory {
     isLocalProvider(providerType: RAGProviderType): boolean;
 }
 
+/**
+ * Metadata stored with each chunk in the vector store
+ */
+export interface RAGChunkMetadata {
+    documentId: number;
+    name: string;
+    /** Position of the chunk within its source */
+    chunkIndex?: number;
+    /** 1-based page number (paged formats only) */
+    page?: number;
+}
+
 /**
  * Search result from vector store query
  */
 export interface RAGSearchResult {
+    id?: string;
     content: string;
-    metadata?: {
-        documentId?: number;
-        name?: string;
-    };
+    metadata?: Partial<RAGChunkMetadata>;
     similarity?: number;
 }
@@ -0,0 +1,7 @@
+/**
+ * Search Module Exports
+ */
+
+export { messageSearchIndex } from './messageSearchIndex';
+export { splitHighlights } from './queryUtils';
+export * from './types';
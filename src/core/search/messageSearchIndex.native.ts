@@ -0,0 +1,108 @@
+/**
+ * Message Search Index - Native Implementation
+ *
+ * Queries the SQLite FTS4 table (messages_fts) maintained by triggers,
+ * joined with messages and conversations for filtering.
+ */
+
+import { Q } from '@nozbe/watermelondb';
+import { database } from '../database';
+import { MESSAGES_FTS_TABLE } from '../database/fts';
+import { MessageModel } from '../database/models';
+import { MessageRole } from '../types';
+import { tokenize } from './queryUtils';
+import {
+    HIGHLIGHT_END,
+    HIGHLIGHT_START,
+    IMessageSearchIndex,
+    MessageSearchFilters,
+    MessageSearchHit,
+} from './types';
+
+/** Tokens of context in each snippet */
+const SNIPPET_TOKENS = 16;
+
+/** Raw row returned by the search query */
+interface SearchRow {
+    id: string;
+    conversation_id: string;
+    role: string;
+    model_id: string;
+    timestamp: number;
+    snippet: string | null;
+}
+
+/**
+ * Build an FTS MATCH expression: every term must match, as a prefix.
+ */
+function toMatchExpression(terms: string[]): string {
+    return terms.map((term) => `${term}*`).join(' ');
+}
+
+class MessageSearchIndex implements IMessageSearchIndex {
+    async search(
+        query: string,
+        filters: MessageSearchFilters = {},
+        limit: number = 50
+    ): Promise<MessageSearchHit[]> {
+        const terms = tokenize(query);
+        if (terms.length === 0) return [];
+
+        const conditions = [
+            `${MESSAGES_FTS_TABLE} match ?`,
+            `m.role in ('user', 'assistant')`,
+            `m._status is not 'deleted'`,
+            `c._status is not 'deleted'`,
+        ];
+        const values: Array<string | number> = [toMatchExpression(terms)];
+
+        if (filters.providerId) {
+            conditions.push('c.provider_id = ?');
+            values.push(filters.providerId);
+        }
+        if (filters.modelId) {
+            conditions.push('m.model_id = ?');
+            values.push(filters.modelId);
+        }
+        if (filters.personaId) {
+            conditions.push('c.persona_id = ?');
+            values.push(filters.personaId);
+        }
+        if (filters.from !== undefined) {
+            conditions.push('m.timestamp >= ?');
+            values.push(filters.from);
+        }
+        if (filters.to !== undefined) {
+            conditions.push('m.timestamp <= ?');
+            values.push(filters.to);
+        }
+
+        const sql = `
+            select m.id, m.conversation_id, m.role, m.model_id, m.timestamp,
+                snippet(${MESSAGES_FTS_TABLE}, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', -1, ${SNIPPET_TOKENS}) as snippet
+            from ${MESSAGES_FTS_TABLE}
+            join messages m on m.rowid = ${MESSAGES_FTS_TABLE}.docid
+            join conversations c on c.id = m.conversation_id
+            where ${conditions.join(' and ')}
+            order by m.timestamp desc
+            limit ?
+        `;
+        values.push(limit);
+
+        const rows = await database
+            .get<MessageModel>('messages')
+            .query(Q.unsafeSqlQuery(sql, values))
+            .unsafeFetchRaw();
+
+        return (rows as SearchRow[]).map((row) => ({
+            messageId: row.id,
+            conversationId: row.conversation_id,
+            role: row.role as MessageRole,
+            modelId: row.model_id,
+            timestamp: row.timestamp,
+            snippet: row.snippet || '',
+        }));
+    }
+}
+
+export const messageSearchIndex = new MessageSearchIndex();
@@ -0,0 +1,10 @@
+/**
+ * Message Search Index
+ *
+ * This file re-exports from the platform-specific implementations.
+ * React Native bundler will pick the correct file based on platform:
+ * - messageSearchIndex.native.ts for iOS/Android (SQLite FTS)
+ * - messageSearchIndex.web.ts for web (in-memory inverted index)
+ */
+
+export * from './messageSearchIndex.native';
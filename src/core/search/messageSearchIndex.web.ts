@@ -0,0 +1,169 @@
+/**
+ * Message Search Index - Web Implementation
+ *
+ * LokiJS has no full-text search, so an in-memory inverted index
+ * (term -> message ids) is built on first search and kept current
+ * by listening to message collection changes.
+ */
+
+import type { CollectionChangeSet } from '@nozbe/watermelondb/Collection';
+import { database } from '../database';
+import { MessageModel } from '../database/models';
+import { conversationRepository } from '../storage';
+import { MessageRole } from '../types';
+import { buildSnippet, tokenize } from './queryUtils';
+import { IMessageSearchIndex, MessageSearchFilters, MessageSearchHit } from './types';
+
+interface IndexedMessage {
+    id: string;
+    conversationId: string;
+    role: MessageRole;
+    modelId: string;
+    timestamp: number;
+    content: string;
+    thinkingContent: string;
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+    const result = new Set<string>();
+    for (const id of a) {
+        if (b.has(id)) result.add(id);
+    }
+    return result;
+}
+
+class MessageSearchIndex implements IMessageSearchIndex {
+    private documents = new Map<string, IndexedMessage>();
+    private postings = new Map<string, Set<string>>();
+    private buildPromise: Promise<void> | null = null;
+
+    async search(
+        query: string,
+        filters: MessageSearchFilters = {},
+        limit: number = 50
+    ): Promise<MessageSearchHit[]> {
+        const terms = tokenize(query);
+        if (terms.length === 0) return [];
+
+        await this.ensureBuilt();
+
+        // Every term must match (as a prefix of an indexed term)
+        let matches: Set<string> | null = null;
+        for (const term of terms) {
+            const termMatches = this.matchPrefix(term);
+            matches = matches ? intersect(matches, termMatches) : termMatches;
+            if (matches.size === 0) return [];
+        }
+
+        const needsConversation = !!(filters.providerId || filters.personaId);
+        const conversations = needsConversation
+            ? new Map((await conversationRepository.findAll()).map((c) => [c.id, c]))
+            : null;
+
+        const hits = [...(matches || [])]
+            .map((id) => this.documents.get(id)!)
+            .filter((doc) => {
+                if (filters.modelId && doc.modelId !== filters.modelId) return false;
+                if (filters.from !== undefined && doc.timestamp < filters.from) return false;
+                if (filters.to !== undefined && doc.timestamp > filters.to) return false;
+                if (conversations) {
+                    const conversation = conversations.get(doc.conversationId);
+                    if (!conversation) return false;
+                    if (filters.providerId && conversation.providerId !== filters.providerId) return false;
+                    if (filters.personaId && conversation.personaId !== filters.personaId) return false;
+                }
+                return true;
+            })
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, limit);
+
+        return hits.map((doc) => ({
+            messageId: doc.id,
+            conversationId: doc.conversationId,
+            role: doc.role,
+            modelId: doc.modelId,
+            timestamp: doc.timestamp,
+            snippet: buildSnippet(doc.content, terms) || buildSnippet(doc.thinkingContent, terms) || '',
+        }));
+    }
+
+    private ensureBuilt(): Promise<void> {
+        if (!this.buildPromise) {
+            this.buildPromise = this.build().catch((error) => {
+                this.buildPromise = null;
+                throw error;
+            });
+        }
+        return this.buildPromise;
+    }
+
+    private async build(): Promise<void> {
+        const collection = database.get<MessageModel>('messages');
+
+        // Subscribe first so changes made while fetching aren't missed
+        collection.changes.subscribe((changeSet: CollectionChangeSet<MessageModel>) => {
+            for (const { record, type } of changeSet) {
+                this.remove(record.id);
+                if (type !== 'destroyed') {
+                    this.add(record);
+                }
+            }
+        });
+
+        const models = await collection.query().fetch();
+        for (const model of models) {
+            this.add(model);
+        }
+        console.log('[MessageSearchIndex] Indexed', this.documents.size, 'messages,', this.postings.size, 'terms');
+    }
+
+    private add(model: MessageModel): void {
+        if (model.role !== 'user' && model.role !== 'assistant') return;
+
+        const doc: IndexedMessage = {
+            id: model.id,
+            conversationId: model.conversationId,
+            role: model.role as MessageRole,
+            modelId: model.modelId,
+            timestamp: model.timestamp,
+            content: model.content || '',
+            thinkingContent: model.thinkingContent || '',
+        };
+        this.documents.set(doc.id, doc);
+
+        for (const term of new Set(tokenize(`${doc.content} ${doc.thinkingContent}`))) {
+            let ids = this.postings.get(term);
+            if (!ids) {
+                ids = new Set();
+                this.postings.set(term, ids);
+            }
+            ids.add(doc.id);
+        }
+    }
+
+    private remove(id: string): void {
+        const doc = this.documents.get(id);
+        if (!doc) return;
+
+        this.documents.delete(id);
+        for (const term of new Set(tokenize(`${doc.content} ${doc.thinkingContent}`))) {
+            const ids = this.postings.get(term);
+            ids?.delete(id);
+            if (ids && ids.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+    }
+
+    private matchPrefix(prefix: string): Set<string> {
+        const result = new Set<string>();
+        for (const [term, ids] of this.postings) {
+            if (term.startsWith(prefix)) {
+                ids.forEach((id) => result.add(id));
+            }
+        }
+        return result;
+    }
+}
+
+export const messageSearchIndex = new MessageSearchIndex();
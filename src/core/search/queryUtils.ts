@@ -0,0 +1,66 @@
+/**
+ * Search Query Helpers
+ *
+ * Shared tokenization and snippet helpers for the platform search indexes.
+ */
+
+import { HIGHLIGHT_END, HIGHLIGHT_START } from './types';
+
+/** Words (letters, digits, underscore) in any script */
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+/** Characters of context kept on each side of the first match in a snippet */
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Split text into lowercase search terms.
+ */
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(WORD_PATTERN) || []);
+}
+
+/**
+ * Build an excerpt around the first match of any term (prefix match),
+ * with every match in the excerpt wrapped in highlight markers.
+ * Returns null if no term occurs in the text.
+ */
+export function buildSnippet(text: string, terms: string[]): string | null {
+    if (!text || terms.length === 0) return null;
+
+    const pattern = new RegExp(
+        `(${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}_]*`,
+        'giu'
+    );
+    const first = pattern.exec(text);
+    if (!first) return null;
+
+    const start = Math.max(0, first.index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, first.index + first[0].length + SNIPPET_RADIUS);
+    const excerpt = text.slice(start, end).replace(/\s+/g, ' ');
+
+    return (start > 0 ? '…' : '')
+        + excerpt.replace(pattern, (match) => `${HIGHLIGHT_START}${match}${HIGHLIGHT_END}`)
+        + (end < text.length ? '…' : '');
+}
+
+/**
+ * Split a snippet into plain and highlighted parts for rendering.
+ */
+export function splitHighlights(snippet: string): Array<{ text: string; highlighted: boolean }> {
+    const parts: Array<{ text: string; highlighted: boolean }> = [];
+    for (const segment of snippet.split(HIGHLIGHT_START)) {
+        const endIndex = segment.indexOf(HIGHLIGHT_END);
+        if (endIndex === -1) {
+            if (segment) parts.push({ text: segment, highlighted: false });
+            continue;
+        }
+        parts.push({ text: segment.slice(0, endIndex), highlighted: true });
+        const rest = segment.slice(endIndex + HIGHLIGHT_END.length);
+        if (rest) parts.push({ text: rest, highlighted: false });
+    }
+    return parts;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,44 @@
+/**
+ * Message Search Types
+ */
+
+import { MessageRole } from '../types';
+
+/** Marks the start of a highlighted match inside a snippet */
+export const HIGHLIGHT_START = '\uE000';
+
+/** Marks the end of a highlighted match inside a snippet */
+export const HIGHLIGHT_END = '\uE001';
+
+/**
+ * Filters applied to full-text message search
+ */
+export interface MessageSearchFilters {
+    providerId?: string;
+    modelId?: string;
+    personaId?: string;
+    /** Only messages sent at or after this time (ms) */
+    from?: number;
+    /** Only messages sent at or before this time (ms) */
+    to?: number;
+}
+
+/**
+ * A message matching a full-text search
+ */
+export interface MessageSearchHit {
+    messageId: string;
+    conversationId: string;
+    role: MessageRole;
+    modelId: string;
+    timestamp: number;
+    /** Excerpt around the match, with matches wrapped in HIGHLIGHT_START/HIGHLIGHT_END */
+    snippet: string;
+}
+
+/**
+ * Full-text index over message content and thinking content
+ */
+export interface IMessageSearchIndex {
+    search(query: string, filters?: MessageSearchFilters, limit?: number): Promise<MessageSearchHit[]>;
+}
@@ -0,0 +1,135 @@
+import { strFromU8, strToU8 } from 'fflate';
+import { formatJsonResponse, hasBearerToken, HttpError, HttpRequest, MAX_BODY_BYTES, parseHttpRequest } from '../http';
+
+const BODY = '{"model":"kelp","messages":[]}';
+const REQUEST = [
+    'POST /v1/chat/completions?stream=false HTTP/1.1',
+    'Host: 127.0.0.1:8080',
+    'Authorization: Bearer sk-local',
+    'Content-Type: application/json',
+    `Content-Length: ${BODY.length}`,
+    '',
+    BODY,
+].join('\r\n');
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const bytes = new Uint8Array(a.length + b.length);
+    bytes.set(a);
+    bytes.set(b, a.length);
+    return bytes;
+}
+
+function head(...headers: string[]): Uint8Array {
+    return strToU8(['POST /v1/embeddings HTTP/1.1', ...headers, '', ''].join('\r\n'));
+}
+
+function parseError(bytes: Uint8Array): HttpError {
+    try {
+        parseHttpRequest(bytes);
+    } catch (error) {
+        return error as HttpError;
+    }
+    throw new Error('Request was accepted');
+}
+
+describe('parseHttpRequest', () => {
+    it('parses a complete request', () => {
+        const request = parseHttpRequest(strToU8(REQUEST))!;
+
+        expect(request.method).toBe('POST');
+        expect(request.path).toBe('/v1/chat/completions');
+        expect(request.headers['content-type']).toBe('application/json');
+        expect(strFromU8(request.body)).toBe(BODY);
+    });
+
+    it('waits for the rest of a request split across TCP chunks', () => {
+        const bytes = strToU8(REQUEST);
+        // Cuts inside the request line, inside the blank line ending the head, and inside the body
+        const cuts = [10, REQUEST.indexOf('\r\n\r\n') + 2, bytes.length - 5, bytes.length];
+
+        let received: Uint8Array = new Uint8Array(0);
+        let start = 0;
+        const results = cuts.map((end) => {
+            received = concat(received, bytes.subarray(start, end));
+            start = end;
+            return parseHttpRequest(received);
+        });
+
+        expect(results.slice(0, -1)).toEqual([null, null, null]);
+        expect(strFromU8(results[results.length - 1]!.body)).toBe(BODY);
+    });
+
+    it('reads only Content-Length bytes of body', () => {
+        const request = parseHttpRequest(concat(head('Content-Length: 2'), strToU8('{}trailing')))!;
+        expect(strFromU8(request.body)).toBe('{}');
+    });
+
+    it('treats a missing Content-Length as an empty body', () => {
+        expect(parseHttpRequest(head('Host: localhost'))!.body).toHaveLength(0);
+    });
+
+    it.each(['abc', '-1', '1.5'])('refuses Content-Length %s', (value) => {
+        expect(parseError(head(`Content-Length: ${value}`))).toMatchObject({ status: 400, message: 'Invalid Content-Length' });
+    });
+
+    it('refuses chunked bodies', () => {
+        expect(parseError(head('Transfer-Encoding: chunked'))).toMatchObject({ status: 411 });
+    });
+
+    it('refuses a head over 16 KB, even before it is complete', () => {
+        const longHeader = `X-Padding: ${'a'.repeat(16 * 1024)}`;
+
+        expect(parseError(strToU8(`GET / HTTP/1.1\r\n${longHeader}`))).toMatchObject({ status: 431 });
+        expect(parseError(strToU8(`GET / HTTP/1.1\r\n${longHeader}\r\n\r\n`))).toMatchObject({ status: 431 });
+    });
+
+    it('refuses a body over 8 MB from its Content-Length, before receiving it', () => {
+        expect(parseError(head(`Content-Length: ${MAX_BODY_BYTES + 1}`))).toMatchObject({ status: 413 });
+        expect(parseHttpRequest(head(`Content-Length: ${MAX_BODY_BYTES}`))).toBeNull();
+    });
+
+    it.each([
+        ['a malformed request line', 'GET /\r\n\r\n'],
+        ['a header without a colon', 'GET / HTTP/1.1\r\nHost localhost\r\n\r\n'],
+    ])('refuses %s', (_, raw) => {
+        expect(parseError(strToU8(raw))).toMatchObject({ status: 400 });
+    });
+});
+
+describe('hasBearerToken', () => {
+    const withAuthorization = (authorization?: string): HttpRequest => ({
+        method: 'GET',
+        path: '/v1/models',
+        headers: authorization === undefined ? {} : { authorization },
+        body: new Uint8Array(0),
+    });
+
+    it('accepts the API key as a Bearer token', () => {
+        expect(hasBearerToken(withAuthorization('Bearer sk-local'), 'sk-local')).toBe(true);
+        expect(hasBearerToken(withAuthorization('bearer  sk-local '), 'sk-local')).toBe(true);
+    });
+
+    it.each([
+        ['a missing header', undefined],
+        ['a wrong key', 'Bearer sk-other'],
+        ['a key prefix', 'Bearer sk-loc'],
+        ['another scheme', 'Basic sk-local'],
+    ])('rejects %s', (_, authorization) => {
+        expect(hasBearerToken(withAuthorization(authorization), 'sk-local')).toBe(false);
+    });
+
+    it('rejects every request when no API key is set', () => {
+        expect(hasBearerToken(withAuthorization('Bearer '), '')).toBe(false);
+    });
+});
+
+describe('formatJsonResponse', () => {
+    it('sends the body length and closes the connection', () => {
+        const response = strFromU8(formatJsonResponse(401, { error: 'Invalid API key' }));
+
+        expect(response.startsWith('HTTP/1.1 401 Unauthorized\r\n')).toBe(true);
+        expect(response).toContain('\r\nContent-Length: 27\r\n');
+        expect(response).toContain('\r\nConnection: close\r\n');
+        expect(response.endsWith('\r\n\r\n{"error":"Invalid API key"}')).toBe(true);
+    });
+});
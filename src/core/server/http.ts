@@ -0,0 +1,175 @@
+/**
+ * Minimal HTTP/1.1
+ *
+ * Request parsing and response formatting for the local API server, which
+ * receives raw bytes from a TCP socket. Every response closes the connection,
+ * so there is no keep-alive or pipelining to handle; request bodies must come
+ * with a Content-Length (chunked uploads are refused).
+ */
+
+import { strFromU8, strToU8 } from 'fflate';
+
+/** Largest request head (request line + headers) accepted */
+const MAX_HEAD_BYTES = 16 * 1024;
+
+/** Largest request body accepted */
+export const MAX_BODY_BYTES = 8 * 1024 * 1024;
+
+const STATUS_TEXT: Record<number, string> = {
+    200: 'OK',
+    204: 'No Content',
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    404: 'Not Found',
+    405: 'Method Not Allowed',
+    411: 'Length Required',
+    413: 'Payload Too Large',
+    429: 'Too Many Requests',
+    431: 'Request Header Fields Too Large',
+    500: 'Internal Server Error',
+    503: 'Service Unavailable',
+};
+
+/** Sent with every response so browser-based tools can call the server */
+const CORS_HEADERS: Record<string, string> = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+export interface HttpRequest {
+    method: string;
+    /** Path without the query string */
+    path: string;
+    /** Header names are lowercased */
+    headers: Record<string, string>;
+    body: Uint8Array;
+}
+
+/**
+ * Error answered with an HTTP status
+ */
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string, readonly code?: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+function indexOfHeadEnd(bytes: Uint8Array): number {
+    for (let i = 0; i + 3 < bytes.length; i++) {
+        if (bytes[i] === 13 && bytes[i + 1] === 10 && bytes[i + 2] === 13 && bytes[i + 3] === 10) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Parse a request from the bytes received so far.
+ * Returns null while the request is incomplete; throws HttpError for malformed or oversized requests.
+ */
+export function parseHttpRequest(bytes: Uint8Array): HttpRequest | null {
+    const headEnd = indexOfHeadEnd(bytes);
+    if (headEnd === -1) {
+        if (bytes.length > MAX_HEAD_BYTES) throw new HttpError(431, 'Request headers too large');
+        return null;
+    }
+    if (headEnd > MAX_HEAD_BYTES) throw new HttpError(431, 'Request headers too large');
+
+    const [requestLine, ...headerLines] = strFromU8(bytes.subarray(0, headEnd), true).split('\r\n');
+    const match = /^([A-Z]+) (\S+) HTTP\/1\.[01]$/.exec(requestLine);
+    if (!match) throw new HttpError(400, 'Malformed request line');
+
+    const headers: Record<string, string> = {};
+    for (const line of headerLines) {
+        const colon = line.indexOf(':');
+        if (colon <= 0) throw new HttpError(400, 'Malformed header');
+        headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+
+    if (headers['transfer-encoding']) {
+        throw new HttpError(411, 'Chunked request bodies are not supported; send a Content-Length');
+    }
+    const contentLength = Number(headers['content-length'] ?? 0);
+    if (!Number.isInteger(contentLength) || contentLength < 0) {
+        throw new HttpError(400, 'Invalid Content-Length');
+    }
+    if (contentLength > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+
+    const bodyStart = headEnd + 4;
+    if (bytes.length < bodyStart + contentLength) return null;
+
+    return {
+        method: match[1],
+        path: match[2].split('?')[0],
+        headers,
+        body: bytes.slice(bodyStart, bodyStart + contentLength),
+    };
+}
+
+/**
+ * Decode a JSON request body
+ */
+export function readJsonBody<T>(request: HttpRequest): T {
+    try {
+        return JSON.parse(strFromU8(request.body));
+    } catch {
+        throw new HttpError(400, 'Request body is not valid JSON');
+    }
+}
+
+function formatHead(status: number, headers: Record<string, string>): string {
+    const lines = [`HTTP/1.1 ${status} ${STATUS_TEXT[status] ?? 'Unknown'}`];
+    for (const [name, value] of Object.entries({ ...CORS_HEADERS, ...headers, Connection: 'close' })) {
+        lines.push(`${name}: ${value}`);
+    }
+    return lines.join('\r\n') + '\r\n\r\n';
+}
+
+/**
+ * Complete response with a JSON body (no body when json is undefined)
+ */
+export function formatJsonResponse(status: number, json?: unknown): Uint8Array {
+    const body = json === undefined ? new Uint8Array(0) : strToU8(JSON.stringify(json));
+    const head = strToU8(formatHead(status, {
+        ...(json !== undefined && { 'Content-Type': 'application/json; charset=utf-8' }),
+        'Content-Length': String(body.length),
+    }));
+
+    const response = new Uint8Array(head.length + body.length);
+    response.set(head);
+    response.set(body, head.length);
+    return response;
+}
+
+/**
+ * Head of a Server-Sent Events response; events follow until the connection closes
+ */
+export function formatSseHead(): Uint8Array {
+    return strToU8(formatHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+    }));
+}
+
+/**
+ * A Server-Sent Event carrying JSON (or a raw string such as [DONE])
+ */
+export function formatSseEvent(data: unknown): Uint8Array {
+    return strToU8(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Whether the request carries the API key as a Bearer token (compared in constant time)
+ */
+export function hasBearerToken(request: HttpRequest, apiKey: string): boolean {
+    const token = /^Bearer\s+(.+)$/i.exec(request.headers['authorization'] ?? '')?.[1]?.trim() ?? '';
+    if (!apiKey || token.length !== apiKey.length) return false;
+
+    let diff = 0;
+    for (let i = 0; i < token.length; i++) {
+        diff |= token.charCodeAt(i) ^ apiKey.charCodeAt(i);
+    }
+    return diff === 0;
+}
@@ -0,0 +1,6 @@
+/**
+ * Local API Server Module Exports
+ */
+
+export * from './http';
+export * from './openai';
@@ -0,0 +1,354 @@
+/**
+ * OpenAI API Mapping
+ *
+ * Converts OpenAI-style request bodies to ModelFlux LLM requests and builds the
+ * OpenAI-shaped responses (and streaming chunks) returned by the local API server.
+ * Only the fields local providers can honor are read; the rest are ignored.
+ */
+
+import { estimateTokens } from '../llm/contextWindow';
+import { getDataUrlMimeType } from '../llm/images';
+import { ChatMessage, LLMToolCall, LLMToolSpec, ToolParametersSchema } from '../llm/types';
+import { GenerationSettings, ResponseFormat, TokenUsage } from '../types';
+import { HttpError } from './http';
+
+type OpenAIContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: string | { url: string } };
+
+interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+export interface OpenAIChatMessage {
+    role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+    content?: string | OpenAIContentPart[] | null;
+    tool_calls?: OpenAIToolCall[];
+    tool_call_id?: string;
+}
+
+/** Sampling parameters shared by chat and text completions */
+interface OpenAISamplingParams {
+    model?: string;
+    stream?: boolean;
+    temperature?: number;
+    top_p?: number;
+    max_tokens?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
+}
+
+export interface OpenAIChatCompletionRequest extends OpenAISamplingParams {
+    messages: OpenAIChatMessage[];
+    max_completion_tokens?: number;
+    tools?: Array<{
+        type: 'function';
+        function: { name: string; description?: string; parameters?: ToolParametersSchema };
+    }>;
+    response_format?: {
+        type: 'text' | 'json_object' | 'json_schema';
+        json_schema?: { name?: string; schema?: object };
+    };
+    stream_options?: { include_usage?: boolean };
+}
+
+export interface OpenAICompletionRequest extends OpenAISamplingParams {
+    prompt: string | string[];
+    stream_options?: { include_usage?: boolean };
+}
+
+export interface OpenAIEmbeddingRequest {
+    model?: string;
+    input: string | string[];
+}
+
+/**
+ * Model listed by /v1/models
+ */
+export interface OpenAIModel {
+    id: string;
+    object: 'model';
+    created: number;
+    owned_by: string;
+}
+
+export type OpenAIFinishReason = 'stop' | 'length' | 'tool_calls';
+
+/**
+ * Text of a message content (string or content parts) and its data: URL images
+ */
+function readContent(content: OpenAIChatMessage['content']): Pick<ChatMessage, 'content' | 'images'> {
+    if (typeof content === 'string' || !content) return { content: content ?? '' };
+    if (!Array.isArray(content)) throw new HttpError(400, 'Message content must be a string or an array of parts');
+
+    const texts: string[] = [];
+    const images: NonNullable<ChatMessage['images']> = [];
+    for (const part of content) {
+        if (part.type === 'text') {
+            texts.push(part.text);
+        } else if (part.type === 'image_url') {
+            const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+            if (!url?.startsWith('data:')) {
+                throw new HttpError(400, 'Only base64 data: URLs are supported for images');
+            }
+            images.push({ url, mimeType: getDataUrlMimeType(url) });
+        }
+    }
+    return { content: texts.join('\n'), ...(images.length > 0 && { images }) };
+}
+
+/**
+ * Convert OpenAI chat messages to ChatMessage
+ */
+export function toChatMessages(messages: OpenAIChatMessage[] | undefined): ChatMessage[] {
+    if (!Array.isArray(messages) || messages.length === 0) {
+        throw new HttpError(400, '"messages" must be a non-empty array');
+    }
+
+    const toolNames = new Map<string, string>();
+    return messages.map((message): ChatMessage => {
+        switch (message.role) {
+            case 'system':
+            case 'developer':
+                return { role: 'system', content: readContent(message.content).content };
+            case 'user':
+                return { role: 'user', ...readContent(message.content) };
+            case 'assistant': {
+                const toolCalls = message.tool_calls?.map((call): LLMToolCall => {
+                    toolNames.set(call.id, call.function.name);
+                    let args: Record<string, unknown> = {};
+                    try {
+                        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+                    } catch {
+                        throw new HttpError(400, `Tool call ${call.id} has invalid JSON arguments`);
+                    }
+                    return { id: call.id, name: call.function.name, args };
+                });
+                return {
+                    role: 'assistant',
+                    content: readContent(message.content).content,
+                    ...(toolCalls?.length && { toolCalls }),
+                };
+            }
+            case 'tool':
+                return {
+                    role: 'tool',
+                    content: readContent(message.content).content,
+                    toolCallId: message.tool_call_id,
+                    toolName: message.tool_call_id ? toolNames.get(message.tool_call_id) : undefined,
+                };
+            default:
+                throw new HttpError(400, `Unsupported message role: ${(message as { role?: string }).role}`);
+        }
+    });
+}
+
+/**
+ * Prompt of a text completion request (a single prompt per request)
+ */
+export function getCompletionPrompt(body: OpenAICompletionRequest): string {
+    const prompts = Array.isArray(body.prompt) ? body.prompt : [body.prompt];
+    if (prompts.length !== 1 || typeof prompts[0] !== 'string') {
+        throw new HttpError(400, '"prompt" must be a single string');
+    }
+    return prompts[0];
+}
+
+/**
+ * Texts to embed
+ */
+export function getEmbeddingInputs(body: OpenAIEmbeddingRequest): string[] {
+    const inputs = Array.isArray(body.input) ? body.input : [body.input];
+    if (inputs.length === 0 || inputs.some((input) => typeof input !== 'string')) {
+        throw new HttpError(400, '"input" must be a string or an array of strings');
+    }
+    return inputs;
+}
+
+/**
+ * Request sampling parameters as generation settings (applied over the provider config)
+ */
+export function toGenerationSettings(body: OpenAIChatCompletionRequest | OpenAICompletionRequest): GenerationSettings {
+    const maxTokens = ('max_completion_tokens' in body && body.max_completion_tokens) || body.max_tokens;
+    const settings: GenerationSettings = {
+        temperature: body.temperature,
+        topP: body.top_p,
+        maxTokens,
+        presencePenalty: body.presence_penalty,
+        frequencyPenalty: body.frequency_penalty,
+    };
+    for (const [key, value] of Object.entries(settings)) {
+        if (value === undefined || value === null) {
+            delete settings[key as keyof GenerationSettings];
+        } else if (typeof value !== 'number') {
+            throw new HttpError(400, 'Sampling parameters must be numbers');
+        }
+    }
+    return settings;
+}
+
+export function toToolSpecs(tools: OpenAIChatCompletionRequest['tools']): LLMToolSpec[] | undefined {
+    if (!tools?.length) return undefined;
+    return tools.map((tool) => ({
+        name: tool.function.name,
+        description: tool.function.description ?? '',
+        parameters: tool.function.parameters ?? { type: 'object', properties: {} },
+    }));
+}
+
+export function toResponseFormat(format: OpenAIChatCompletionRequest['response_format']): ResponseFormat | undefined {
+    switch (format?.type) {
+        case 'json_object':
+            return { type: 'json' };
+        case 'json_schema':
+            if (!format.json_schema?.schema) throw new HttpError(400, 'response_format.json_schema.schema is required');
+            return { type: 'json_schema', schema: JSON.stringify(format.json_schema.schema) };
+        default:
+            return undefined;
+    }
+}
+
+export function createCompletionId(prefix: 'chatcmpl' | 'cmpl'): string {
+    return `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Token usage in OpenAI form; counts the provider didn't report are estimated from the text
+ */
+export function toOpenAIUsage(usage: TokenUsage | undefined, promptText: string, completionText: string) {
+    const prompt_tokens = usage?.promptTokens ?? estimateTokens(promptText);
+    const completion_tokens = usage?.completionTokens ?? estimateTokens(completionText);
+    return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+export function getFinishReason(toolCalls: LLMToolCall[] | undefined, completionTokens: number, maxTokens?: number): OpenAIFinishReason {
+    if (toolCalls?.length) return 'tool_calls';
+    return maxTokens !== undefined && completionTokens >= maxTokens ? 'length' : 'stop';
+}
+
+function toOpenAIToolCalls(toolCalls: LLMToolCall[]): OpenAIToolCall[] {
+    return toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) },
+    }));
+}
+
+interface CompletionResult {
+    id: string;
+    model: string;
+    created: number;
+    content: string;
+    thinking?: string;
+    toolCalls?: LLMToolCall[];
+    finishReason: OpenAIFinishReason;
+    usage: ReturnType<typeof toOpenAIUsage>;
+}
+
+export function chatCompletion(result: CompletionResult) {
+    return {
+        id: result.id,
+        object: 'chat.completion',
+        created: result.created,
+        model: result.model,
+        choices: [{
+            index: 0,
+            message: {
+                role: 'assistant',
+                content: result.content,
+                ...(result.thinking && { reasoning_content: result.thinking }),
+                ...(result.toolCalls?.length && { tool_calls: toOpenAIToolCalls(result.toolCalls) }),
+            },
+            finish_reason: result.finishReason,
+        }],
+        usage: result.usage,
+    };
+}
+
+/**
+ * Streaming chat chunk. The delta carries new content, reasoning or tool calls;
+ * the last chunk has the finish reason, and usage follows in a chunk without choices.
+ */
+export function chatCompletionChunk(
+    base: Pick<CompletionResult, 'id' | 'model' | 'created'>,
+    delta: { role?: 'assistant'; content?: string; thinking?: string; toolCalls?: LLMToolCall[] },
+    finishReason: OpenAIFinishReason | null = null,
+    usage?: CompletionResult['usage']
+) {
+    return {
+        id: base.id,
+        object: 'chat.completion.chunk',
+        created: base.created,
+        model: base.model,
+        choices: usage ? [] : [{
+            index: 0,
+            delta: {
+                ...(delta.role && { role: delta.role }),
+                ...(delta.content !== undefined && { content: delta.content }),
+                ...(delta.thinking !== undefined && { reasoning_content: delta.thinking }),
+                ...(delta.toolCalls?.length && {
+                    tool_calls: toOpenAIToolCalls(delta.toolCalls).map((call, index) => ({ index, ...call })),
+                }),
+            },
+            finish_reason: finishReason,
+        }],
+        ...(usage && { usage }),
+    };
+}
+
+export function textCompletion(result: CompletionResult) {
+    return {
+        id: result.id,
+        object: 'text_completion',
+        created: result.created,
+        model: result.model,
+        choices: [{ index: 0, text: result.content, logprobs: null, finish_reason: result.finishReason }],
+        usage: result.usage,
+    };
+}
+
+export function textCompletionChunk(
+    base: Pick<CompletionResult, 'id' | 'model' | 'created'>,
+    text: string,
+    finishReason: OpenAIFinishReason | null = null,
+    usage?: CompletionResult['usage']
+) {
+    return {
+        id: base.id,
+        object: 'text_completion',
+        created: base.created,
+        model: base.model,
+        choices: usage ? [] : [{ index: 0, text, logprobs: null, finish_reason: finishReason }],
+        ...(usage && { usage }),
+    };
+}
+
+export function embeddingList(model: string, vectors: number[][], inputs: string[]) {
+    const promptTokens = inputs.reduce((sum, input) => sum + estimateTokens(input), 0);
+    return {
+        object: 'list',
+        data: vectors.map((embedding, index) => ({ object: 'embedding', index, embedding })),
+        model,
+        usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+    };
+}
+
+export function modelList(models: OpenAIModel[]) {
+    return { object: 'list', data: models };
+}
+
+/**
+ * OpenAI error body for an HTTP status
+ */
+export function errorBody(status: number, message: string, code?: string) {
+    const type = status === 401
+        ? 'authentication_error'
+        : status === 429
+            ? 'rate_limit_error'
+            : status >= 500
+                ? 'server_error'
+                : 'invalid_request_error';
+    return { error: { message, type, param: null, code: code ?? null } };
+}
@@ -35,6 +35,13 @@ function modelToConversation(model: ConversationModel): Conversation {
         contextPrompt: model.contextPrompt,
         attachedSourceIds: model.attachedSourceIds,
         thinkingEnabled: model.thinkingEnabled,
+        toolsEnabled: model.toolsEnabled || false,
+        activeLeafId: model.activeLeafId || undefined,
+        generationSettings: model.generationSettings || undefined,
+        collectionIds: model.collectionIds || undefined,
+        compareTargets: model.compareTargets || undefined,
+        responseFormat: model.responseFormat || undefined,
+        fallbackTargets: model.fallbackTargets || undefined,
         createdAt: model.createdAt,
         updatedAt: model.updatedAt,
     };
@@ -82,6 +89,13 @@ class ConversationRepository implements IConversationRepository {
                 record.contextPrompt = entity.contextPrompt;
                 (record as any)._setRaw('attached_source_ids', JSON.stringify(entity.attachedSourceIds || []));
                 record.thinkingEnabled = entity.thinkingEnabled || false;
+                record.toolsEnabled = entity.toolsEnabled || false;
+                record.activeLeafId = entity.activeLeafId;
+                (record as any)._setRaw('generation_settings', entity.generationSettings ? JSON.stringify(entity.generationSettings) : null);
+                (record as any)._setRaw('collection_ids', entity.collectionIds?.length ? JSON.stringify(entity.collectionIds) : null);
+                (record as any)._setRaw('compare_targets', entity.compareTargets?.length ? JSON.stringify(entity.compareTargets) : null);
+                (record as any)._setRaw('response_format', entity.responseFormat ? JSON.stringify(entity.responseFormat) : null);
+                (record as any)._setRaw('fallback_targets', entity.fallbackTargets?.length ? JSON.stringify(entity.fallbackTargets) : null);
                 record.createdAt = entity.createdAt;
                 record.updatedAt = entity.updatedAt;
             });
@@ -103,6 +117,13 @@ class ConversationRepository implements IConversationRepository {
                 record.contextPrompt = entity.contextPrompt;
                 (record as any)._setRaw('attached_source_ids', JSON.stringify(entity.attachedSourceIds || []));
                 record.thinkingEnabled = entity.thinkingEnabled || false;
+                record.toolsEnabled = entity.toolsEnabled || false;
+                record.activeLeafId = entity.activeLeafId;
+                (record as any)._setRaw('generation_settings', entity.generationSettings ? JSON.stringify(entity.generationSettings) : null);
+                (record as any)._setRaw('collection_ids', entity.collectionIds?.length ? JSON.stringify(entity.collectionIds) : null);
+                (record as any)._setRaw('compare_targets', entity.compareTargets?.length ? JSON.stringify(entity.compareTargets) : null);
+                (record as any)._setRaw('response_format', entity.responseFormat ? JSON.stringify(entity.responseFormat) : null);
+                (record as any)._setRaw('fallback_targets', entity.fallbackTargets?.length ? JSON.stringify(entity.fallbackTargets) : null);
                 record.updatedAt = Date.now();
             });
         });
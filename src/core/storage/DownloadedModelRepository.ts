@@ -25,6 +25,7 @@ function modelToDownloadedModel(model: DownloadedModelModel): DownloadedModel {
         modelFilePath: model.modelFilePath,
         tokenizerFilePath: model.tokenizerFilePath,
         tokenizerConfigFilePath: model.tokenizerConfigFilePath,
+        mmprojFilePath: model.mmprojFilePath || undefined,
         sizeEstimate: model.sizeEstimate,
         downloadedSize: model.downloadedSize,
         status: model.status as ModelDownloadStatus,
@@ -87,6 +88,7 @@ class DownloadedModelRepository implements IDownloadedModelRepository {
                 record.modelFilePath = model.modelFilePath;
                 record.tokenizerFilePath = model.tokenizerFilePath;
                 record.tokenizerConfigFilePath = model.tokenizerConfigFilePath;
+                record.mmprojFilePath = model.mmprojFilePath;
                 record.sizeEstimate = model.sizeEstimate;
                 record.downloadedSize = model.downloadedSize;
                 record.status = model.status;
@@ -117,6 +119,7 @@ class DownloadedModelRepository implements IDownloadedModelRepository {
                     if (updates.modelFilePath !== undefined) record.modelFilePath = updates.modelFilePath;
                     if (updates.tokenizerFilePath !== undefined) record.tokenizerFilePath = updates.tokenizerFilePath;
                     if (updates.tokenizerConfigFilePath !== undefined) record.tokenizerConfigFilePath = updates.tokenizerConfigFilePath;
+                    if (updates.mmprojFilePath !== undefined) record.mmprojFilePath = updates.mmprojFilePath;
                     if (updates.sizeEstimate !== undefined) record.sizeEstimate = updates.sizeEstimate;
                     if (updates.downloadedSize !== undefined) record.downloadedSize = updates.downloadedSize;
                     if (updates.status !== undefined) record.status = updates.status;
@@ -6,13 +6,27 @@
 import { Q } from '@nozbe/watermelondb';
 import { database } from '../database';
 import { MessageModel } from '../database/models';
-import { Message, MessageContentType, MessageImage, TokenUsage } from '../types';
+import {
+    GenerationMetrics,
+    Message,
+    MessageCitation,
+    MessageContentType,
+    MessageDeliveryStatus,
+    MessageFailedAttempt,
+    MessageImage,
+    MessageLoreEntry,
+    MessageToolCall,
+    OutputValidation,
+    TokenUsage,
+} from '../types';
 
 export interface IMessageRepository {
     findById(id: string): Promise<Message | null>;
     findAll(): Promise<Message[]>;
     findByConversationId(conversationId: string): Promise<Message[]>;
     findByConversationIdSorted(conversationId: string): Promise<Message[]>;
+    findInOutbox(): Promise<Message[]>;
+    search(query: string, limit?: number): Promise<Message[]>;
     create(entity: Message): Promise<Message>;
     update(entity: Message): Promise<Message>;
     delete(id: string): Promise<void>;
@@ -27,15 +41,25 @@ function modelToMessage(model: MessageModel): Message {
     return {
         id: model.id,
         conversationId: model.conversationId,
+        parentId: model.parentId || undefined,
         role: model.role as Message['role'],
         content: model.content,
         contentType: model.contentType as MessageContentType,
         images: model.images as MessageImage[],
         modelId: model.modelId,
+        providerId: model.providerId || undefined,
         usage: model.usage as TokenUsage | undefined,
+        metrics: (model.metrics as GenerationMetrics | null) || undefined,
         thinkingContent: model.thinkingContent,
         context: model.context,
         contextIds: model.contextIds,
+        citations: (model.citations as MessageCitation[] | null) || undefined,
+        toolCall: (model.toolCall as MessageToolCall | null) || undefined,
+        outputValidation: (model.outputValidation as OutputValidation | null) || undefined,
+        loreEntries: (model.loreEntries as MessageLoreEntry[] | null) || undefined,
+        failedAttempts: (model.failedAttempts as MessageFailedAttempt[] | null) || undefined,
+        deliveryStatus: (model.deliveryStatus as MessageDeliveryStatus) || undefined,
+        deliveryError: model.deliveryError || undefined,
         interrupted: model.interrupted,
         timestamp: model.timestamp,
     };
@@ -77,20 +101,61 @@ class MessageRepository implements IMessageRepository {
         return models.map(modelToMessage);
     }
 
+    /**
+     * User messages waiting in the outbox, oldest first
+     */
+    async findInOutbox(): Promise<Message[]> {
+        const models = await this.collection
+            .query(
+                Q.where('delivery_status', Q.notEq(null)),
+                Q.sortBy('timestamp', Q.asc)
+            )
+            .fetch();
+        return models.map(modelToMessage);
+    }
+
+    async findWithMetrics(): Promise<Message[]> {
+        const models = await this.collection
+            .query(Q.where('metrics', Q.notEq(null)))
+            .fetch();
+        return models.map(modelToMessage);
+    }
+
+    async search(query: string, limit: number = 20): Promise<Message[]> {
+        const models = await this.collection
+            .query(
+                Q.where('content', Q.like(`%${Q.sanitizeLikeString(query)}%`)),
+                Q.sortBy('timestamp', Q.desc),
+                Q.take(limit)
+            )
+            .fetch();
+        return models.map(modelToMessage);
+    }
+
     async create(entity: Message): Promise<Message> {
         await database.write(async () => {
             await this.collection.create((record) => {
                 (record._raw as any).id = entity.id;
                 record.conversationId = entity.conversationId;
+                record.parentId = entity.parentId;
                 record.role = entity.role;
                 record.content = entity.content;
                 record.contentType = entity.contentType;
                 (record as any)._setRaw('images', JSON.stringify(entity.images || []));
                 record.modelId = entity.modelId;
+                record.providerId = entity.providerId;
                 (record as any)._setRaw('usage', JSON.stringify(entity.usage || null));
+                (record as any)._setRaw('metrics', entity.metrics ? JSON.stringify(entity.metrics) : null);
                 record.thinkingContent = entity.thinkingContent;
                 record.context = entity.context;
                 (record as any)._setRaw('context_ids', JSON.stringify(entity.contextIds || []));
+                (record as any)._setRaw('citations', entity.citations ? JSON.stringify(entity.citations) : null);
+                (record as any)._setRaw('tool_call', entity.toolCall ? JSON.stringify(entity.toolCall) : null);
+                (record as any)._setRaw('output_validation', entity.outputValidation ? JSON.stringify(entity.outputValidation) : null);
+                (record as any)._setRaw('lore_entries', entity.loreEntries?.length ? JSON.stringify(entity.loreEntries) : null);
+                (record as any)._setRaw('failed_attempts', entity.failedAttempts?.length ? JSON.stringify(entity.failedAttempts) : null);
+                record.deliveryStatus = entity.deliveryStatus;
+                record.deliveryError = entity.deliveryError;
                 record.interrupted = entity.interrupted || false;
                 record.timestamp = entity.timestamp;
             });
@@ -102,14 +167,24 @@ class MessageRepository implements IMessageRepository {
         await database.write(async () => {
             const model = await this.collection.find(entity.id);
             await model.update((record) => {
+                record.parentId = entity.parentId;
                 record.content = entity.content;
                 record.contentType = entity.contentType;
                 (record as any)._setRaw('images', JSON.stringify(entity.images || []));
                 record.modelId = entity.modelId;
+                record.providerId = entity.providerId;
                 (record as any)._setRaw('usage', JSON.stringify(entity.usage || null));
+                (record as any)._setRaw('metrics', entity.metrics ? JSON.stringify(entity.metrics) : null);
                 record.thinkingContent = entity.thinkingContent;
                 record.context = entity.context;
                 (record as any)._setRaw('context_ids', JSON.stringify(entity.contextIds || []));
+                (record as any)._setRaw('citations', entity.citations ? JSON.stringify(entity.citations) : null);
+                (record as any)._setRaw('tool_call', entity.toolCall ? JSON.stringify(entity.toolCall) : null);
+                (record as any)._setRaw('output_validation', entity.outputValidation ? JSON.stringify(entity.outputValidation) : null);
+                (record as any)._setRaw('lore_entries', entity.loreEntries?.length ? JSON.stringify(entity.loreEntries) : null);
+                (record as any)._setRaw('failed_attempts', entity.failedAttempts?.length ? JSON.stringify(entity.failedAttempts) : null);
+                record.deliveryStatus = entity.deliveryStatus;
+                record.deliveryError = entity.deliveryError;
                 record.interrupted = entity.interrupted || false;
             });
         });
@@ -146,15 +221,25 @@ class MessageRepository implements IMessageRepository {
                 await this.collection.create((record) => {
                     (record._raw as any).id = entity.id;
                     record.conversationId = entity.conversationId;
+                    record.parentId = entity.parentId;
                     record.role = entity.role;
                     record.content = entity.content;
                     record.contentType = entity.contentType;
                     (record as any)._setRaw('images', JSON.stringify(entity.images || []));
                     record.modelId = entity.modelId;
+                    record.providerId = entity.providerId;
                     (record as any)._setRaw('usage', JSON.stringify(entity.usage || null));
+                    (record as any)._setRaw('metrics', entity.metrics ? JSON.stringify(entity.metrics) : null);
                     record.thinkingContent = entity.thinkingContent;
                     record.context = entity.context;
                     (record as any)._setRaw('context_ids', JSON.stringify(entity.contextIds || []));
+                    (record as any)._setRaw('citations', entity.citations ? JSON.stringify(entity.citations) : null);
+                    (record as any)._setRaw('tool_call', entity.toolCall ? JSON.stringify(entity.toolCall) : null);
+                    (record as any)._setRaw('output_validation', entity.outputValidation ? JSON.stringify(entity.outputValidation) : null);
+                    (record as any)._setRaw('lore_entries', entity.loreEntries?.length ? JSON.stringify(entity.loreEntries) : null);
+                    (record as any)._setRaw('failed_attempts', entity.failedAttempts?.length ? JSON.stringify(entity.failedAttempts) : null);
+                    record.deliveryStatus = entity.deliveryStatus;
+                    record.deliveryError = entity.deliveryError;
                     record.interrupted = entity.interrupted || false;
                     record.timestamp = entity.timestamp;
                 });
@@ -29,11 +29,38 @@ function modelToPersona(model: PersonaModel): Persona {
         post_history_instructions: model.postHistoryInstructions,
         creator_notes: model.creatorNotes,
         compiledSystemPrompt: model.compiledSystemPrompt,
+        generationSettings: model.generationSettings || undefined,
+        collectionIds: model.collectionIds || undefined,
+        fallbackTargets: model.fallbackTargets || undefined,
+        first_mes: model.firstMes || undefined,
+        alternate_greetings: model.alternateGreetings || undefined,
+        mes_example: model.mesExample || undefined,
+        creator: model.creator || undefined,
+        character_version: model.characterVersion || undefined,
+        tags: model.tags || undefined,
+        character_book: model.characterBook || undefined,
+        avatar: model.avatar || undefined,
+        cardExtensions: model.cardExtensions || undefined,
         createdAt: model.createdAt,
         updatedAt: model.updatedAt,
     };
 }
 
+/**
+ * Write the Character Card fields of a persona
+ */
+function setCardFields(record: PersonaModel, entity: Persona): void {
+    record.firstMes = entity.first_mes;
+    record.mesExample = entity.mes_example;
+    record.creator = entity.creator;
+    record.characterVersion = entity.character_version;
+    record.avatar = entity.avatar;
+    (record as any)._setRaw('alternate_greetings', entity.alternate_greetings?.length ? JSON.stringify(entity.alternate_greetings) : null);
+    (record as any)._setRaw('tags', entity.tags?.length ? JSON.stringify(entity.tags) : null);
+    (record as any)._setRaw('character_book', entity.character_book ? JSON.stringify(entity.character_book) : null);
+    (record as any)._setRaw('card_extensions', entity.cardExtensions ? JSON.stringify(entity.cardExtensions) : null);
+}
+
 class PersonaRepository implements IPersonaRepository {
     private get collection() {
         return database.get<PersonaModel>('personas');
@@ -65,6 +92,10 @@ class PersonaRepository implements IPersonaRepository {
                 record.postHistoryInstructions = entity.post_history_instructions;
                 record.creatorNotes = entity.creator_notes;
                 record.compiledSystemPrompt = entity.compiledSystemPrompt;
+                (record as any)._setRaw('generation_settings', entity.generationSettings ? JSON.stringify(entity.generationSettings) : null);
+                (record as any)._setRaw('collection_ids', entity.collectionIds?.length ? JSON.stringify(entity.collectionIds) : null);
+                (record as any)._setRaw('fallback_targets', entity.fallbackTargets?.length ? JSON.stringify(entity.fallbackTargets) : null);
+                setCardFields(record, entity);
                 record.createdAt = entity.createdAt;
                 record.updatedAt = entity.updatedAt;
             });
@@ -85,6 +116,10 @@ class PersonaRepository implements IPersonaRepository {
                 record.postHistoryInstructions = entity.post_history_instructions;
                 record.creatorNotes = entity.creator_notes;
                 record.compiledSystemPrompt = entity.compiledSystemPrompt;
+                (record as any)._setRaw('generation_settings', entity.generationSettings ? JSON.stringify(entity.generationSettings) : null);
+                (record as any)._setRaw('collection_ids', entity.collectionIds?.length ? JSON.stringify(entity.collectionIds) : null);
+                (record as any)._setRaw('fallback_targets', entity.fallbackTargets?.length ? JSON.stringify(entity.fallbackTargets) : null);
+                setCardFields(record, entity);
                 record.updatedAt = now;
             });
         });
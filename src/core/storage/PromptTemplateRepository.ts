@@ -0,0 +1,99 @@
+/**
+ * Prompt Template Repository
+ *
+ * Manages persistence of the prompt library using WatermelonDB.
+ */
+
+import { database } from '../database';
+import { PromptTemplateModel } from '../database/models';
+import { PromptTemplate } from '../types';
+
+/**
+ * Convert WatermelonDB model to PromptTemplate type
+ */
+function modelToPromptTemplate(model: PromptTemplateModel): PromptTemplate {
+    return {
+        id: model.id,
+        name: model.name,
+        description: model.description || undefined,
+        content: model.content,
+        createdAt: model.createdAt,
+        updatedAt: model.updatedAt,
+    };
+}
+
+class PromptTemplateRepository {
+    private get collection() {
+        return database.get<PromptTemplateModel>('prompt_templates');
+    }
+
+    /**
+     * Get all templates
+     */
+    async findAll(): Promise<PromptTemplate[]> {
+        const models = await this.collection.query().fetch();
+        return models.map(modelToPromptTemplate);
+    }
+
+    /**
+     * Find a template by ID
+     */
+    async findById(id: string): Promise<PromptTemplate | null> {
+        try {
+            const model = await this.collection.find(id);
+            return modelToPromptTemplate(model);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Create a new template
+     */
+    async create(entity: PromptTemplate): Promise<PromptTemplate> {
+        await database.write(async () => {
+            await this.collection.create((record) => {
+                (record._raw as any).id = entity.id;
+                record.name = entity.name;
+                record.description = entity.description;
+                record.content = entity.content;
+                record.createdAt = entity.createdAt;
+                record.updatedAt = entity.updatedAt;
+            });
+        });
+        return entity;
+    }
+
+    /**
+     * Update an existing template
+     */
+    async update(entity: PromptTemplate): Promise<PromptTemplate> {
+        const now = Date.now();
+        await database.write(async () => {
+            const model = await this.collection.find(entity.id);
+            await model.update((record) => {
+                record.name = entity.name;
+                (record as any)._setRaw('description', entity.description || null);
+                record.content = entity.content;
+                record.updatedAt = now;
+            });
+        });
+        return { ...entity, updatedAt: now };
+    }
+
+    /**
+     * Delete a template by ID
+     */
+    async delete(id: string): Promise<void> {
+        await database.write(async () => {
+            try {
+                const model = await this.collection.find(id);
+                await model.destroyPermanently();
+            } catch {
+                // Record doesn't exist, ignore
+            }
+        });
+    }
+}
+
+export const promptTemplateRepository = new PromptTemplateRepository();
@@ -7,7 +7,7 @@
 import { Q } from '@nozbe/watermelondb';
 import { database } from '../database';
 import { RAGConfigModel } from '../database/models';
-import { RAGConfig, RAGProvider } from '../types';
+import { RAGConfig, RAGProvider, RAGRetrievalSettings } from '../types';
 
 /**
  * Convert WatermelonDB model to RAGConfig type
@@ -21,6 +21,9 @@ function modelToRAGConfig(model: RAGConfigModel): RAGConfig {
         modelName: model.modelName,
         modelPath: model.modelPath,
         tokenizerPath: model.tokenizerPath,
+        llmConfigId: model.llmConfigId,
+        dimensions: model.dimensions,
+        retrievalSettings: (model.retrievalSettings as RAGRetrievalSettings | null) || undefined,
         isDefault: model.isDefault,
         createdAt: model.createdAt,
         updatedAt: model.updatedAt,
@@ -85,6 +88,9 @@ class RAGConfigRepository {
                 record.modelName = config.modelName;
                 record.modelPath = config.modelPath;
                 record.tokenizerPath = config.tokenizerPath;
+                record.llmConfigId = config.llmConfigId;
+                record.dimensions = config.dimensions;
+                (record as any)._setRaw('retrieval_settings', config.retrievalSettings ? JSON.stringify(config.retrievalSettings) : null);
                 record.isDefault = config.isDefault;
                 record.createdAt = config.createdAt;
                 record.updatedAt = config.updatedAt;
@@ -112,6 +118,9 @@ class RAGConfigRepository {
                 record.modelName = config.modelName;
                 record.modelPath = config.modelPath;
                 record.tokenizerPath = config.tokenizerPath;
+                record.llmConfigId = config.llmConfigId;
+                record.dimensions = config.dimensions;
+                (record as any)._setRaw('retrieval_settings', config.retrievalSettings ? JSON.stringify(config.retrievalSettings) : null);
                 record.isDefault = config.isDefault;
                 record.updatedAt = Date.now();
             });
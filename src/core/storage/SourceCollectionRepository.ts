@@ -0,0 +1,119 @@
+/**
+ * Source Collection Repository
+ *
+ * Manages persistence of named source collections using WatermelonDB.
+ */
+
+import { database } from '../database';
+import { SourceCollectionModel } from '../database/models';
+import { SourceCollection } from '../types';
+
+/**
+ * Convert WatermelonDB model to SourceCollection type
+ */
+function modelToSourceCollection(model: SourceCollectionModel): SourceCollection {
+    return {
+        id: model.id,
+        name: model.name,
+        description: model.description || undefined,
+        sourceIds: model.sourceIds || [],
+        ragConfigId: model.ragConfigId || undefined,
+        createdAt: model.createdAt,
+        updatedAt: model.updatedAt,
+    };
+}
+
+class SourceCollectionRepository {
+    private get collection() {
+        return database.get<SourceCollectionModel>('source_collections');
+    }
+
+    /**
+     * Get all collections
+     */
+    async findAll(): Promise<SourceCollection[]> {
+        const models = await this.collection.query().fetch();
+        return models.map(modelToSourceCollection);
+    }
+
+    /**
+     * Find a collection by ID
+     */
+    async findById(id: string): Promise<SourceCollection | null> {
+        try {
+            const model = await this.collection.find(id);
+            return modelToSourceCollection(model);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Create a new collection
+     */
+    async create(entity: SourceCollection): Promise<SourceCollection> {
+        await database.write(async () => {
+            await this.collection.create((record) => {
+                (record._raw as any).id = entity.id;
+                record.name = entity.name;
+                record.description = entity.description;
+                (record as any)._setRaw('source_ids', JSON.stringify(entity.sourceIds));
+                record.ragConfigId = entity.ragConfigId;
+                record.createdAt = entity.createdAt;
+                record.updatedAt = entity.updatedAt;
+            });
+        });
+        return entity;
+    }
+
+    /**
+     * Update an existing collection
+     */
+    async update(entity: SourceCollection): Promise<SourceCollection> {
+        const now = Date.now();
+        await database.write(async () => {
+            const model = await this.collection.find(entity.id);
+            await model.update((record) => {
+                record.name = entity.name;
+                (record as any)._setRaw('description', entity.description || null);
+                (record as any)._setRaw('source_ids', JSON.stringify(entity.sourceIds));
+                (record as any)._setRaw('rag_config_id', entity.ragConfigId || null);
+                record.updatedAt = now;
+            });
+        });
+        return { ...entity, updatedAt: now };
+    }
+
+    /**
+     * Delete a collection by ID
+     */
+    async delete(id: string): Promise<void> {
+        await database.write(async () => {
+            try {
+                const model = await this.collection.find(id);
+                await model.destroyPermanently();
+            } catch {
+                // Record doesn't exist, ignore
+            }
+        });
+    }
+
+    /**
+     * Drop a deleted source from every collection that contains it
+     */
+    async removeSourceFromAll(sourceId: number): Promise<void> {
+        await database.write(async () => {
+            const models = await this.collection.query().fetch();
+            for (const model of models) {
+                const sourceIds: number[] = model.sourceIds || [];
+                if (!sourceIds.includes(sourceId)) continue;
+                await model.update((record) => {
+                    (record as any)._setRaw('source_ids', JSON.stringify(sourceIds.filter((id) => id !== sourceId)));
+                    record.updatedAt = Date.now();
+                });
+            }
+        });
+    }
+}
+
+export const sourceCollectionRepository = new SourceCollectionRepository();
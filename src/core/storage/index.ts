@@ -9,8 +9,10 @@ export { llmConfigRepository } from './LLMConfigRepository';
 export { llmProviderRepository } from './LLMProviderRepository';
 export { messageRepository } from './MessageRepository';
 export { personaRepository } from './PersonaRepository';
+export { promptTemplateRepository } from './PromptTemplateRepository';
 export { ragConfigRepository } from './RAGConfigRepository';
 export { settingsRepository } from './SettingsRepository';
+export { sourceCollectionRepository } from './SourceCollectionRepository';
 export { sourceRepository } from './SourceRepository';
 
 export type { IConversationRepository } from './ConversationRepository';
@@ -0,0 +1,69 @@
+/**
+ * Tool Registry
+ *
+ * Holds the tools available for function calling and executes tool calls
+ * requested by the model.
+ */
+
+import { LLMToolCall, LLMToolSpec, toToolArgs } from '../llm/types';
+import { ToolDefinition, ToolExecutionContext, ToolExecutionResult } from './types';
+
+export class ToolRegistry {
+    private tools: Map<string, ToolDefinition<any>> = new Map();
+
+    /**
+     * Register a tool. Replaces any tool with the same name.
+     */
+    register<TArgs>(tool: ToolDefinition<TArgs>): void {
+        this.tools.set(tool.name, tool);
+    }
+
+    get(name: string): ToolDefinition<any> | undefined {
+        return this.tools.get(name);
+    }
+
+    list(): ToolDefinition<any>[] {
+        return Array.from(this.tools.values());
+    }
+
+    /**
+     * Get tool specs to send with an LLM request (without execute functions)
+     */
+    getSpecs(): LLMToolSpec[] {
+        return this.list().map(({ name, description, parameters }) => ({
+            name,
+            description,
+            parameters,
+        }));
+    }
+
+    /**
+     * Execute a tool call requested by the model.
+     * Never throws - failures are returned as error output for the model.
+     */
+    async execute(call: LLMToolCall, context: ToolExecutionContext): Promise<ToolExecutionResult> {
+        const tool = this.tools.get(call.name);
+        if (!tool) {
+            return { output: `Unknown tool: ${call.name}`, isError: true };
+        }
+
+        try {
+            const args = toToolArgs(call.args);
+            const missing = (tool.parameters.required || []).filter(
+                (key) => args[key] === undefined || args[key] === null
+            );
+            if (missing.length > 0) {
+                return { output: `Missing required argument(s): ${missing.join(', ')}`, isError: true };
+            }
+
+            const output = await tool.execute(args, context);
+            return { output, isError: false };
+        } catch (error) {
+            console.error('[ToolRegistry] Tool execution failed:', call.name, error);
+            return {
+                output: error instanceof Error ? error.message : String(error),
+                isError: true,
+            };
+        }
+    }
+}
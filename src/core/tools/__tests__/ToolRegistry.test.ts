@@ -0,0 +1,53 @@
+import { LLMToolCall } from '../../llm/types';
+import { ToolRegistry } from '../ToolRegistry';
+import { ToolDefinition } from '../types';
+
+const context = { conversationId: 'conversation', sourceIds: [] };
+
+const echoTool: ToolDefinition<{ text: string }> = {
+    name: 'echo',
+    description: 'Repeats the text',
+    parameters: {
+        type: 'object',
+        properties: { text: { type: 'string', description: 'Text to repeat' } },
+        required: ['text'],
+    },
+    execute: async ({ text }) => text,
+};
+
+function createRegistry(): ToolRegistry {
+    const registry = new ToolRegistry();
+    registry.register(echoTool);
+    return registry;
+}
+
+describe('ToolRegistry.execute', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('runs the tool with its arguments', async () => {
+        const result = await createRegistry().execute({ id: '1', name: 'echo', args: { text: 'hi' } }, context);
+        expect(result).toEqual({ output: 'hi', isError: false });
+    });
+
+    it.each([null, 42, 'text', ['text']])('reports missing arguments when the model sends %p', async (args) => {
+        const call = { id: '1', name: 'echo', args } as unknown as LLMToolCall;
+        const result = await createRegistry().execute(call, context);
+        expect(result).toEqual({ output: 'Missing required argument(s): text', isError: true });
+    });
+
+    it('returns tool failures to the model', async () => {
+        const registry = createRegistry();
+        registry.register({ ...echoTool, execute: async () => { throw new Error('Broken'); } });
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        const result = await registry.execute({ id: '1', name: 'echo', args: { text: 'hi' } }, context);
+        expect(result).toEqual({ output: 'Broken', isError: true });
+    });
+
+    it('reports unknown tools', async () => {
+        const result = await createRegistry().execute({ id: '1', name: 'missing', args: {} }, context);
+        expect(result).toEqual({ output: 'Unknown tool: missing', isError: true });
+    });
+});
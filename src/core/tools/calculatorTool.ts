@@ -0,0 +1,166 @@
+/**
+ * Calculator Tool
+ *
+ * Evaluates arithmetic expressions with a small recursive-descent parser
+ * (no eval). Supports + - * / % ^, parentheses, constants (pi, e) and
+ * common math functions.
+ */
+
+import { ToolDefinition } from './types';
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    ln: Math.log,
+    log: Math.log10,
+    exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E,
+};
+
+/**
+ * Evaluate an arithmetic expression.
+ * @throws Error if the expression is invalid
+ */
+export function evaluateExpression(expression: string): number {
+    const input = expression.replace(/\s+/g, '').toLowerCase();
+    let pos = 0;
+
+    const peek = () => input[pos];
+
+    const expect = (char: string) => {
+        if (input[pos] !== char) {
+            throw new Error(`Expected '${char}' at position ${pos}`);
+        }
+        pos++;
+    };
+
+    // expression := term (('+' | '-') term)*
+    const parseExpression = (): number => {
+        let value = parseTerm();
+        while (peek() === '+' || peek() === '-') {
+            const op = input[pos++];
+            const right = parseTerm();
+            value = op === '+' ? value + right : value - right;
+        }
+        return value;
+    };
+
+    // term := power (('*' | '/' | '%') power)*
+    const parseTerm = (): number => {
+        let value = parsePower();
+        while (peek() === '*' || peek() === '/' || peek() === '%') {
+            const op = input[pos++];
+            const right = parsePower();
+            if (op === '*') value *= right;
+            else if (op === '/') value /= right;
+            else value %= right;
+        }
+        return value;
+    };
+
+    // power := unary ('^' power)?   (right-associative)
+    const parsePower = (): number => {
+        const base = parseUnary();
+        if (peek() === '^') {
+            pos++;
+            return Math.pow(base, parsePower());
+        }
+        return base;
+    };
+
+    // unary := ('+' | '-') unary | primary
+    const parseUnary = (): number => {
+        if (peek() === '-') {
+            pos++;
+            return -parseUnary();
+        }
+        if (peek() === '+') {
+            pos++;
+            return parseUnary();
+        }
+        return parsePrimary();
+    };
+
+    // primary := number | constant | function '(' expression ')' | '(' expression ')'
+    const parsePrimary = (): number => {
+        if (peek() === '(') {
+            pos++;
+            const value = parseExpression();
+            expect(')');
+            return value;
+        }
+
+        const numberMatch = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/.exec(input.slice(pos));
+        if (numberMatch) {
+            pos += numberMatch[0].length;
+            return parseFloat(numberMatch[0]);
+        }
+
+        const nameMatch = /^[a-z]+/.exec(input.slice(pos));
+        if (nameMatch) {
+            const name = nameMatch[0];
+            pos += name.length;
+            if (FUNCTIONS[name]) {
+                expect('(');
+                const arg = parseExpression();
+                expect(')');
+                return FUNCTIONS[name](arg);
+            }
+            if (CONSTANTS[name] !== undefined) {
+                return CONSTANTS[name];
+            }
+            throw new Error(`Unknown identifier: ${name}`);
+        }
+
+        throw new Error(peek() === undefined
+            ? 'Unexpected end of expression'
+            : `Unexpected character '${peek()}' at position ${pos}`);
+    };
+
+    if (!input) {
+        throw new Error('Expression is empty');
+    }
+
+    const result = parseExpression();
+    if (pos < input.length) {
+        throw new Error(`Unexpected character '${input[pos]}' at position ${pos}`);
+    }
+    if (!Number.isFinite(result)) {
+        throw new Error('Result is not a finite number');
+    }
+    return result;
+}
+
+export const calculatorTool: ToolDefinition<{ expression: string }> = {
+    name: 'calculator',
+    description: 'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and functions: '
+        + Object.keys(FUNCTIONS).join(', ') + '.',
+    parameters: {
+        type: 'object',
+        properties: {
+            expression: {
+                type: 'string',
+                description: 'Expression to evaluate, e.g. "(12.5 * 4) / sqrt(16)"',
+            },
+        },
+        required: ['expression'],
+    },
+    execute: async ({ expression }) => {
+        const result = evaluateExpression(String(expression));
+        // Trim floating point noise (0.1 + 0.2 -> 0.3)
+        return String(parseFloat(result.toPrecision(12)));
+    },
+};
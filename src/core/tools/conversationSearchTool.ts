@@ -0,0 +1,50 @@
+/**
+ * Conversation Search Tool
+ *
+ * Lets the model look up earlier messages across all conversations.
+ */
+
+import { conversationRepository, messageRepository } from '../storage';
+import { ToolDefinition } from './types';
+
+/** Maximum characters returned per matching message */
+const SNIPPET_LENGTH = 300;
+
+export const conversationSearchTool: ToolDefinition<{ query: string; limit?: number }> = {
+    name: 'search_conversations',
+    description: 'Search the user\'s past conversations for messages containing a phrase. '
+        + 'Use this when the user refers to something discussed earlier.',
+    parameters: {
+        type: 'object',
+        properties: {
+            query: {
+                type: 'string',
+                description: 'Phrase to search for in message content',
+            },
+            limit: {
+                type: 'integer',
+                description: 'Maximum number of messages to return (default 10)',
+            },
+        },
+        required: ['query'],
+    },
+    execute: async ({ query, limit }) => {
+        const messages = await messageRepository.search(String(query), Number(limit) || 10);
+        const matches = messages.filter((m) => m.role === 'user' || m.role === 'assistant');
+
+        if (matches.length === 0) {
+            return 'No matching messages found.';
+        }
+
+        const conversations = await conversationRepository.findAll();
+
+        return JSON.stringify(matches.map((m) => ({
+            conversation: conversations.find((c) => c.id === m.conversationId)?.title || 'Unknown conversation',
+            role: m.role,
+            date: new Date(m.timestamp).toISOString(),
+            content: m.content.length > SNIPPET_LENGTH
+                ? m.content.slice(0, SNIPPET_LENGTH) + '...'
+                : m.content,
+        })));
+    },
+};
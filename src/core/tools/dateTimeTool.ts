@@ -0,0 +1,50 @@
+/**
+ * Date/Time Tool
+ *
+ * Returns the current date and time on the device, optionally in another timezone.
+ */
+
+import { ToolDefinition } from './types';
+
+export const dateTimeTool: ToolDefinition<{ timezone?: string }> = {
+    name: 'current_datetime',
+    description: 'Get the current date, time and weekday. Optionally for a specific IANA timezone.',
+    parameters: {
+        type: 'object',
+        properties: {
+            timezone: {
+                type: 'string',
+                description: 'IANA timezone name, e.g. "Europe/Berlin". Defaults to the device timezone.',
+            },
+        },
+    },
+    execute: async ({ timezone }) => {
+        const now = new Date();
+        const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        const timeZone = timezone || deviceTimezone;
+
+        let formatted: string;
+        try {
+            formatted = now.toLocaleString('en-US', {
+                timeZone,
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+                second: '2-digit',
+                timeZoneName: 'short',
+            });
+        } catch {
+            throw new Error(`Unknown timezone: ${timezone}`);
+        }
+
+        return JSON.stringify({
+            datetime: formatted,
+            timezone: timeZone,
+            iso: now.toISOString(),
+            unix: Math.floor(now.getTime() / 1000),
+        });
+    },
+};
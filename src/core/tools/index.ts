@@ -0,0 +1,23 @@
+/**
+ * Tools Module Exports
+ *
+ * Tool registry with the built-in tools registered.
+ */
+
+import { calculatorTool } from './calculatorTool';
+import { conversationSearchTool } from './conversationSearchTool';
+import { dateTimeTool } from './dateTimeTool';
+import { ragSearchTool } from './ragSearchTool';
+import { ToolRegistry } from './ToolRegistry';
+
+export { evaluateExpression } from './calculatorTool';
+export { flattenToolMessages } from './toolMessages';
+export { ToolRegistry } from './ToolRegistry';
+export * from './types';
+
+// Singleton registry with built-in tools
+export const toolRegistry = new ToolRegistry();
+toolRegistry.register(calculatorTool);
+toolRegistry.register(dateTimeTool);
+toolRegistry.register(ragSearchTool);
+toolRegistry.register(conversationSearchTool);
@@ -0,0 +1,61 @@
+/**
+ * RAG Search Tool
+ *
+ * Lets the model search the document sources attached to the conversation
+ * (or all sources if none are attached).
+ */
+
+import { sourceRepository } from '../storage';
+import { ToolDefinition } from './types';
+
+export const ragSearchTool: ToolDefinition<{ query: string; limit?: number }> = {
+    name: 'search_sources',
+    description: 'Search the user\'s document sources for passages relevant to a query. '
+        + 'Use this when the user asks about their documents.',
+    parameters: {
+        type: 'object',
+        properties: {
+            query: {
+                type: 'string',
+                description: 'What to search for',
+            },
+            limit: {
+                type: 'integer',
+                description: 'Maximum number of passages to return (defaults to the configured number)',
+            },
+        },
+        required: ['query'],
+    },
+    execute: async ({ query, limit }, context) => {
+        // Lazy import to avoid a circular dependency with the state layer
+        const { isRagSupported, useRAGRuntimeStore } = await import('../../state/ragRuntimeStore');
+        if (!isRagSupported()) {
+            throw new Error('Document search is not available on this platform');
+        }
+
+        const ragStore = useRAGRuntimeStore.getState();
+        const isReady = await ragStore.ensureReady();
+        if (!isReady) {
+            throw new Error('Document search is not ready. Configure a RAG provider and add sources first.');
+        }
+
+        const sources = await sourceRepository.findAll();
+        const sourceIds = context.sourceIds.length > 0 ? context.sourceIds : sources.map((s) => s.id);
+        if (sourceIds.length === 0) {
+            return 'No document sources available.';
+        }
+
+        const results = await useRAGRuntimeStore.getState().query(String(query), Number(limit) || undefined, sourceIds);
+
+        if (results.length === 0) {
+            return 'No relevant passages found.';
+        }
+
+        return JSON.stringify(results.map((result) => ({
+            source: sources.find((s) => s.id === result.metadata?.documentId)?.name
+                || result.metadata?.name
+                || 'Unknown source',
+            content: result.content.trim(),
+        })));
+    },
+};
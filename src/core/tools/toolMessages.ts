@@ -0,0 +1,32 @@
+/**
+ * Tool Message Helpers
+ *
+ * Converts tool call/result chat messages to plain text for providers
+ * that can't represent them natively (e.g. ExecuTorch).
+ */
+
+import { ChatMessage } from '../llm/types';
+
+/**
+ * Flatten tool calls and tool results into plain assistant/user messages.
+ */
+export function flattenToolMessages(messages: ChatMessage[]): ChatMessage[] {
+    return messages.map((m) => {
+        if (m.role === 'tool') {
+            return {
+                role: 'user',
+                content: `[Result of tool ${m.toolName || 'call'}]\n${m.content}`,
+            };
+        }
+        if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+            const calls = m.toolCalls
+                .map((call) => `[Called tool ${call.name} with ${JSON.stringify(call.args)}]`)
+                .join('\n');
+            return {
+                role: 'assistant',
+                content: [m.content, calls].filter(Boolean).join('\n'),
+            };
+        }
+        return { role: m.role, content: m.content };
+    });
+}
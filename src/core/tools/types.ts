@@ -0,0 +1,39 @@
+/**
+ * Tool Types
+ *
+ * Types for locally executed tools the model can call.
+ */
+
+import { LLMToolSpec, ToolParametersSchema } from '../llm/types';
+
+/**
+ * Context passed to a tool when it is executed
+ */
+export interface ToolExecutionContext {
+    /** Conversation the tool call belongs to */
+    conversationId: string;
+    /** Source IDs attached to the conversation (for RAG search) */
+    sourceIds: number[];
+}
+
+/**
+ * A tool that can be offered to the model and executed locally.
+ *
+ * @typeParam TArgs - Shape of the arguments described by `parameters`
+ */
+export interface ToolDefinition<TArgs = Record<string, unknown>> extends LLMToolSpec {
+    parameters: ToolParametersSchema;
+    /**
+     * Execute the tool. Returns text sent back to the model.
+     * Throw to report a failure; the error message is returned to the model.
+     */
+    execute: (args: TArgs, context: ToolExecutionContext) => Promise<string>;
+}
+
+/**
+ * Result of executing a tool call
+ */
+export interface ToolExecutionResult {
+    output: string;
+    isError: boolean;
+}
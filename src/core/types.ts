@@ -15,8 +15,9 @@ export const generateId = (): string => {
  * Conversation type determines how messages are sent to the LLM
  * - chat: Full message history is sent (messages array)
  * - generate: Only system prompt + current prompt sent (system + prompt params)
+ * - compare: Each prompt is sent to several models; the picked answer continues the thread
  */
-export type ConversationType = 'chat' | 'generate';
+export type ConversationType = 'chat' | 'generate' | 'compare';
 
 /**
  * LLM Provider keys - enum for type-safe provider references
@@ -91,6 +92,29 @@ export interface LlamaCppConfig {
     nPredict?: number;
 }
 
+/**
+ * Generation parameter overrides for a persona or conversation.
+ * Unset fields fall through to the next level:
+ * provider config → persona → conversation → request.
+ * Providers ignore parameters their runtime doesn't support.
+ */
+export interface GenerationSettings {
+    /** Controls randomness (0.0-2.0) */
+    temperature?: number;
+    /** Nucleus sampling threshold (0.0-1.0) */
+    topP?: number;
+    /** Sample only from the K most likely tokens */
+    topK?: number;
+    /** Maximum tokens to generate */
+    maxTokens?: number;
+    /** Penalize tokens that already appeared (-2.0 to 2.0) */
+    presencePenalty?: number;
+    /** Penalize tokens by how often they appeared (-2.0 to 2.0) */
+    frequencyPenalty?: number;
+    /** Repetition penalty for local models (1.0 = no penalty) */
+    repeatPenalty?: number;
+}
+
 /**
  * Local model configuration for on-device providers
  */
@@ -169,11 +193,60 @@ export interface Conversation {
 
     // RAG sources (accumulates with each message)
     attachedSourceIds?: number[];    // Source IDs used in this conversation
+    collectionIds?: string[];        // Source collections searched on every message
 
     // Features
     thinkingEnabled?: boolean;
+    toolsEnabled?: boolean;          // Allow the model to call registered tools
+
+    // Generation overrides for this conversation (on top of persona and provider settings)
+    generationSettings?: GenerationSettings;
+    responseFormat?: ResponseFormat;     // Structured output (free text when unset)
+
+    // Branching (messages form a tree via Message.parentId)
+    activeLeafId?: string;           // Last message of the branch being shown
+
+    // Compare conversations: every prompt is answered by each target
+    compareTargets?: CompareTarget[];
+
+    // Tried in order when the provider keeps failing with transient errors (overrides the persona's chain)
+    fallbackTargets?: ModelTarget[];
+}
+
+/**
+ * Format answers are requested in
+ * - text: free text
+ * - json: any JSON value
+ * - json_schema: JSON matching schema
+ */
+export type ResponseFormatType = 'text' | 'json' | 'json_schema';
+
+export interface ResponseFormat {
+    type: ResponseFormatType;
+    schema?: string;                 // JSON Schema source text (json_schema only)
 }
 
+/**
+ * Result of checking a structured answer against its requested format
+ */
+export interface OutputValidation {
+    type: Exclude<ResponseFormatType, 'text'>;
+    errors: string[];                // Empty when the answer is valid
+}
+
+/**
+ * Provider/model pair a prompt can be sent to
+ */
+export interface ModelTarget {
+    providerId: string;              // LLMConfig id
+    modelId: string;
+}
+
+/**
+ * Provider/model pair answering prompts in a compare conversation
+ */
+export type CompareTarget = ModelTarget;
+
 /**
  * Content type for messages
  */
@@ -184,13 +257,72 @@ export type MessageContentType = 'text' | 'mixed';
  */
 export interface MessageImage {
     id: string;
-    url: string;
+    url: string;                     // Remote URL or data: URL for attached images
+    mimeType?: string;
     alt?: string;
     width?: number;
     height?: number;
     revisedPrompt?: string;
 }
 
+/**
+ * Message role
+ * - tool-call: the model requested a tool call (assistant side)
+ * - tool-result: output of an executed tool call
+ */
+export type MessageRole = 'user' | 'assistant' | 'system' | 'tool-call' | 'tool-result';
+
+/**
+ * Tool call details for tool-call / tool-result messages
+ */
+export interface MessageToolCall {
+    callId: string;                  // Links a tool-result to its tool-call
+    toolName: string;
+    args: Record<string, unknown>;
+    isError?: boolean;               // Tool execution failed (tool-result only)
+}
+
+/**
+ * Retrieved RAG chunk that an answer can cite as [index]
+ */
+export interface MessageCitation {
+    index: number;                   // Marker number used in the context and answer ([1], [2], ...)
+    sourceId: number;
+    sourceName: string;
+    chunkIndex?: number;             // Position of the chunk within its source
+    page?: number;                   // 1-based page number (paged formats only)
+    score?: number;                  // Similarity to the query
+    content: string;                 // Chunk text
+}
+
+/**
+ * Lorebook entry inserted into the prompt an answer was generated from
+ */
+export interface MessageLoreEntry {
+    name: string;                    // Entry name (or comment / first key)
+    keys: string[];                  // Keys found in the recent messages (empty for constant entries)
+    tokens: number;                  // Estimated size of the inserted content
+}
+
+/**
+ * Provider/model that failed before another one in the fallback chain answered
+ */
+export interface MessageFailedAttempt {
+    providerId: string;              // LLMConfig id
+    modelId: string;
+    code: string;                    // LLMErrorCode of the last failure
+    error: string;                   // Error message of the last failure
+    retries: number;                 // Retries made before moving on
+}
+
+/**
+ * Outbox state of a user message sent to a remote provider while offline
+ * - queued: waiting for the network
+ * - sending: being answered
+ * - failed: delivery failed; waits for the user to retry or pick a local model
+ */
+export type MessageDeliveryStatus = 'queued' | 'sending' | 'failed';
+
 /**
  * Token usage statistics
  */
@@ -200,18 +332,36 @@ export interface TokenUsage {
     totalTokens?: number;
 }
 
+/**
+ * Timing of a generated answer
+ */
+export interface GenerationMetrics {
+    latencyMs: number;               // Request start to last token
+    timeToFirstTokenMs?: number;     // Request start to first token (content or thinking)
+    promptMs?: number;               // Prompt processing, when the provider reports it (llama.cpp)
+    tokensPerSecond?: number;        // Generation speed (reported by the provider, else measured after the first token)
+    tokensEstimated?: boolean;       // Provider reported no usage; token counts are estimated from the text
+}
+
 /**
  * Single message in a conversation
  * 
  * Design notes:
  * - context is stored separately from content (immutable after creation)
  * - contextIds tracks which sources were used for RAG
+ * - citations keeps each retrieved chunk so answers can link [n] markers back to it
  * - interrupted marks messages that were stopped mid-generation
+ * - tool-call/tool-result messages record tool usage; content holds the tool output
+ * - compare answers are sibling assistant messages under the prompt; the picked one becomes the active branch
+ * - loreEntries records which persona lorebook entries were triggered for an answer
+ * - providerId/modelId are those that actually answered; failedAttempts lists fallback targets tried first
+ * - deliveryStatus marks user messages in the outbox (sent offline to a remote provider); cleared once answered
  */
 export interface Message {
     id: string;
     conversationId: string;
-    role: 'user' | 'assistant' | 'system';
+    parentId?: string;               // Previous message in the thread (undefined for the first message)
+    role: MessageRole;
     content: string;
     contentType: MessageContentType;
     images?: MessageImage[];
@@ -219,9 +369,11 @@ export interface Message {
 
     // Model tracking (for assistant messages)
     modelId: string;                 // Model used for this message
+    providerId?: string;             // LLMConfig used for this message
 
     // Token usage
     usage?: TokenUsage;
+    metrics?: GenerationMetrics;
 
     // Thinking/reasoning content
     thinkingContent?: string;
@@ -229,15 +381,69 @@ export interface Message {
     // RAG context (stored separately from content, immutable)
     context?: string;                // RAG context as formatted string
     contextIds?: number[];           // Source IDs used for context
+    citations?: MessageCitation[];   // Retrieved chunks, numbered as in the context
+
+    // Tool calling (tool-call / tool-result messages)
+    toolCall?: MessageToolCall;
+
+    // Structured output (assistant messages answering in JSON)
+    outputValidation?: OutputValidation;
+
+    // Lorebook entries inserted into the prompt for this answer
+    loreEntries?: MessageLoreEntry[];
+
+    // Fallback chain: targets that failed before providerId/modelId answered
+    failedAttempts?: MessageFailedAttempt[];
+
+    // Offline outbox (user messages waiting to be answered)
+    deliveryStatus?: MessageDeliveryStatus;
+    deliveryError?: string;          // Why the last delivery failed
 
     // Generation state
     interrupted?: boolean;           // Was generation interrupted?
 }
 
+/**
+ * Lorebook entry of a character card, inserted into the prompt when one of its keys comes up
+ * @see https://github.com/malfoyslastname/character-card-spec-v2
+ */
+export interface CharacterBookEntry {
+    keys: string[];
+    content: string;
+    extensions: Record<string, unknown>;
+    enabled: boolean;
+    insertion_order: number;          // Lower values are inserted higher up
+    case_sensitive?: boolean;
+    use_regex?: boolean;              // V3: keys are regular expressions
+    name?: string;
+    priority?: number;                // Entries with lower priority are dropped first when over budget
+    id?: number | string;
+    comment?: string;
+    selective?: boolean;              // Also requires one of secondary_keys
+    secondary_keys?: string[];
+    constant?: boolean;               // Always inserted
+    position?: 'before_char' | 'after_char';
+    token_budget?: number;            // ModelFlux extension: content is cut to this many tokens
+}
+
+/**
+ * Lorebook embedded in a character card
+ */
+export interface CharacterBook {
+    name?: string;
+    description?: string;
+    scan_depth?: number;
+    token_budget?: number;
+    recursive_scanning?: boolean;
+    extensions: Record<string, unknown>;
+    entries: CharacterBookEntry[];
+}
+
 /**
  * Persona for customizing LLM behavior
- * Based on Character Card V2 specification (simplified subset)
+ * Based on Character Card V2/V3 specification
  * @see https://github.com/malfoyslastname/character-card-spec-v2
+ * @see https://github.com/kwaroran/character-card-spec-v3
  */
 export interface Persona {
     // Identity
@@ -253,17 +459,56 @@ export interface Persona {
     system_prompt: string;            // Base system prompt template
     post_history_instructions: string; // Instructions placed after chat history (jailbreak/UJB)
 
+    // Greetings and example dialogue
+    first_mes?: string;               // First message of new conversations
+    alternate_greetings?: string[];   // Other first messages, offered as branches
+    mes_example?: string;             // Example dialogue, blocks separated by <START>
+
     // Metadata
     creator_notes: string;            // Notes for users (NOT used in prompts)
+    creator?: string;
+    character_version?: string;
+    tags?: string[];
+
+    // Lorebook carried by the card
+    character_book?: CharacterBook;
+
+    // Card image as a data: URL (imported from or exported to PNG cards)
+    avatar?: string;
+
+    // Card fields ModelFlux doesn't use (extensions, V3 assets, ...), written back unchanged on export
+    cardExtensions?: Record<string, unknown>;
 
     // Pre-compiled prompt (ModelFlux extension - generated at save time)
     compiledSystemPrompt: string;
 
+    // Default generation overrides for conversations using this persona (ModelFlux extension)
+    generationSettings?: GenerationSettings;
+
+    // Source collections searched in conversations using this persona (ModelFlux extension)
+    collectionIds?: string[];
+
+    // Fallback chain for conversations using this persona (ModelFlux extension)
+    fallbackTargets?: ModelTarget[];
+
     // Timestamps
     createdAt: number;
     updatedAt: number;
 }
 
+/**
+ * Reusable prompt from the prompt library.
+ * Content may contain {{variable}} placeholders, filled in when the template is used.
+ */
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    description?: string;
+    content: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
 
 
 /**
@@ -275,7 +520,7 @@ export type ThemeMode = 'light' | 'dark' | 'system';
  * RAG Provider types
  * - executorch: Local on-device embeddings with ExecutorTorch
  * - llama-cpp: Local on-device embeddings with llama.rn
- * - openai: OpenAI embeddings API (future)
+ * - openai: OpenAI-compatible embeddings API (reuses an LLM config's credentials)
  * - ollama: Ollama local embeddings (future)
  */
 export type RAGProviderType = 'executorch' | 'llama-cpp' | 'openai' | 'ollama';
@@ -326,11 +571,40 @@ export interface RAGConfig {
     modelName?: string;              // Model display name (for UI)
     modelPath?: string;              // Full path to model file
     tokenizerPath?: string;          // Full path to tokenizer file
+    llmConfigId?: string;            // LLM config whose credentials are reused (remote providers)
+    dimensions?: number;             // Requested embedding dimensions (OpenAI-compatible only)
+    retrievalSettings?: RAGRetrievalSettings; // Hybrid search tuning (defaults when unset)
     isDefault: boolean;              // Whether this is the default RAG config
     createdAt: number;
     updatedAt: number;
 }
 
+/**
+ * Retrieval tuning for a RAG config
+ * - Vector and BM25 keyword results are merged with reciprocal rank fusion (RRF)
+ * - MMR optionally re-ranks the fused results for diversity
+ */
+export interface RAGRetrievalSettings {
+    topK: number;                    // Number of passages returned
+    vectorWeight: number;            // RRF weight of vector results (0 disables vector search)
+    keywordWeight: number;           // RRF weight of keyword results (0 disables keyword search)
+    minSimilarity: number;           // Vector results below this cosine similarity are dropped (0 = no cutoff)
+    useMMR: boolean;                 // Diversify results with maximal marginal relevance
+    mmrLambda: number;               // MMR trade-off: 1 = relevance only, 0 = diversity only
+}
+
+/**
+ * Default retrieval settings
+ */
+export const DEFAULT_RAG_RETRIEVAL_SETTINGS: RAGRetrievalSettings = {
+    topK: 5,
+    vectorWeight: 1,
+    keywordWeight: 1,
+    minSimilarity: 0,
+    useMMR: false,
+    mmrLambda: 0.7,
+};
+
 /**
  * Source document for RAG
  */
@@ -344,6 +618,21 @@ export interface Source {
     isProcessing?: boolean;
 }
 
+/**
+ * Named group of sources.
+ * Membership is resolved when a message is sent, so conversations and personas
+ * attached to a collection pick up documents added to it later.
+ */
+export interface SourceCollection {
+    id: string;
+    name: string;
+    description?: string;
+    sourceIds: number[];
+    ragConfigId?: string;            // RAG config whose embedding model and retrieval settings apply (default config if unset)
+    createdAt: number;
+    updatedAt: number;
+}
+
 /**
  * App settings
  */
@@ -362,8 +651,46 @@ export interface AppSettings {
     ragTrackingModelId?: string;
     // Onboarding state
     onboardingCompleted: boolean;
+    // Background conversation titles
+    titleGeneration: TitleGenerationSettings;
+    // Local OpenAI-compatible API server
+    apiServer: ApiServerSettings;
+}
+
+/**
+ * Settings for LLM-generated conversation titles
+ */
+export interface TitleGenerationSettings {
+    enabled: boolean;                // Generate a title after the first exchange
+    llmId: string | null;            // LLM config used for titles (null = the conversation's own provider)
+    model: string;                   // Model for remote providers ('' = provider default); local providers use the loaded model
+}
+
+/**
+ * Default title generation settings
+ */
+export const DEFAULT_TITLE_GENERATION_SETTINGS: TitleGenerationSettings = {
+    enabled: false,
+    llmId: null,
+    model: '',
+};
+
+/**
+ * Settings for the local OpenAI-compatible API server
+ */
+export interface ApiServerSettings {
+    port: number;                    // Port listened on (all interfaces)
+    apiKey: string;                  // Bearer token clients must send ('' = generated on first start)
 }
 
+/**
+ * Default API server settings
+ */
+export const DEFAULT_API_SERVER_SETTINGS: ApiServerSettings = {
+    port: 8080,
+    apiKey: '',
+};
+
 /**
  * Export format
  */
@@ -381,12 +708,12 @@ export interface ExportedData {
 /**
  * Tag for categorizing models
  */
-export type ModelTag = 'executorch' | 'llama-cpp' | 'custom' | 'Thinking' | 'Function Calling' | 'Quantized' | 'Embedding' | 'LLM';
+export type ModelTag = 'executorch' | 'llama-cpp' | 'custom' | 'huggingface' | 'Thinking' | 'Function Calling' | 'Quantized' | 'Embedding' | 'LLM';
 
 /**
  * Download status for models
  */
-export type ModelDownloadStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'cancelled';
+export type ModelDownloadStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'cancelled' | 'corrupted';
 
 /**
  * Model provider for downloaded models
@@ -413,6 +740,7 @@ export interface DownloadedModel {
     modelFilePath: string;           // Path to .pte file
     tokenizerFilePath: string;       // Path to tokenizer file
     tokenizerConfigFilePath: string; // Path to tokenizer config
+    mmprojFilePath?: string;         // Multimodal projector (llama.cpp vision models)
     sizeEstimate: string;            // Human readable size
     downloadedSize: number;          // Actual bytes downloaded
     status: ModelDownloadStatus;
@@ -421,6 +749,16 @@ export interface DownloadedModel {
     errorMessage?: string;
 }
 
+/**
+ * File or folder in the models directory that no downloaded model references
+ */
+export interface OrphanedModelFile {
+    name: string;
+    path: string;
+    size: number;
+    isDirectory: boolean;
+}
+
 /**
  * Default settings
  */
@@ -433,4 +771,6 @@ export const DEFAULT_SETTINGS: AppSettings = {
     language: 'en',
     ragSettings: DEFAULT_RAG_SETTINGS,
     onboardingCompleted: false,
+    titleGeneration: DEFAULT_TITLE_GENERATION_SETTINGS,
+    apiServer: DEFAULT_API_SERVER_SETTINGS,
 };
@@ -33,22 +33,54 @@ export const en: Record<string, string> = {
     "settings.providers.title": "LLM Providers",
     "settings.providers.manage": "Manage LLM Providers",
     "settings.providers.count": "{count} provider(s) configured",
+    "settings.titles.title": "Conversations",
+    "settings.titles.auto": "Generate titles automatically",
+    "settings.titles.autoDesc": "Ask a model for a short title after the first reply",
+    "settings.titles.provider": "Title provider",
+    "settings.titles.sameAsConversation": "Same as conversation",
+    "settings.titles.model": "Title model",
+    "settings.titles.modelHint": "A small, fast model works best. Leave empty to use the provider's default model.",
+    "settings.titles.localHint": "Uses the loaded local model. Titles are skipped while it is busy.",
     "settings.data.title": "Data",
     "settings.export.title": "Export Data",
-    "settings.export.description": "Save providers & chats as JSON",
-    "settings.export.summary": "Exporting:\n• {llmConfigs} provider(s)\n• {conversations} conversation(s)\n• {messages} message(s)",
+    "settings.export.description": "Back up chats, personas and settings, optionally encrypted",
     "settings.export.success": "Data exported successfully!",
     "settings.export.failed": "Export Failed",
     "settings.import.title": "Import Data",
-    "settings.import.description": "Load providers & chats from JSON",
+    "settings.import.description": "Restore or merge data from a backup file",
     "settings.import.success": "Import Successful",
     "settings.import.summary": "Imported:\n• {llmConfigs} provider(s)\n• {conversations} conversation(s)\n• {messages} message(s)",
+    "settings.import.skipped": "{count} existing item(s) skipped",
     "settings.import.failed": "Import Failed",
+    "settings.backup.contents": "Include",
+    "settings.backup.scope.conversations": "Conversations",
+    "settings.backup.scope.personas": "Personas",
+    "settings.backup.scope.promptTemplates": "Prompt templates",
+    "settings.backup.scope.configs": "Providers",
+    "settings.backup.scope.settings": "Settings",
+    "settings.backup.scope.sources": "Source collections (document files are not included)",
+    "settings.backup.encryption": "Encryption",
+    "settings.backup.password": "Password",
+    "settings.backup.passwordHint": "Without a password the backup is not encrypted and API keys are left out",
+    "settings.backup.confirmPassword": "Confirm password",
+    "settings.backup.passwordMismatch": "Passwords don't match",
+    "settings.backup.export": "Export",
+    "settings.backup.import": "Import",
+    "settings.backup.encrypted": "This backup is encrypted. Enter the password it was created with.",
+    "settings.backup.createdAt": "Created {date}",
+    "settings.backup.includes": "Includes: {scopes}",
+    "settings.backup.strategy": "When an item already exists",
+    "settings.backup.strategy.merge": "Merge",
+    "settings.backup.strategy.mergeDesc": "Overwrite matching items with the backup, keep everything else",
+    "settings.backup.strategy.skip": "Skip duplicates",
+    "settings.backup.strategy.skipDesc": "Keep your items, only add new ones from the backup",
+    "settings.backup.strategy.replace": "Replace",
+    "settings.backup.strategy.replaceDesc": "Delete your data in the included parts first, then restore the backup",
     "settings.about.title": "About",
     "settings.about.website": "Visit Website",
     "settings.about.licenses": "Third-Party Licenses",
 
-    // Personas - Character Card V2
+    // Personas - Character Card V2/V3
     "settings.personas.title": "Personas",
     "settings.personas.create": "Create Persona",
     "settings.personas.edit": "Edit Persona",
@@ -74,12 +106,70 @@ export const en: Record<string, string> = {
     "settings.personas.postHistoryInstructions": "Post-History Instructions",
     "settings.personas.postHistoryInstructionsPlaceholder": "Instructions placed after chat history...",
     "settings.personas.characters": "characters",
+    "settings.personas.exampleDialogue": "Example Dialogue",
+    "settings.personas.exampleDialoguePlaceholder": "<START>\n{{user}}: Hi!\n{{char}}: Hello there...",
+    "settings.personas.exampleDialogueHint": "Shows the model how the character talks. Separate conversations with <START>; {{char}} and {{user}} are replaced with the names.",
+
+    // Greetings section
+    "settings.personas.greetingsSection": "Greetings",
+    "settings.personas.greetingsHint": "Opening messages of new conversations. Alternate greetings are added as branches to pick from.",
+    "settings.personas.firstMessage": "First Message",
+    "settings.personas.firstMessagePlaceholder": "How the character opens a conversation...",
+    "settings.personas.alternateGreeting": "Alternate Greeting {number}",
+    "settings.personas.addGreeting": "Add Alternate Greeting",
+
+    // Lorebook section
+    "settings.personas.loreSection": "Lorebook",
+    "settings.personas.loreHint": "Entries are added to the prompt only when one of their keys comes up in the recent messages.",
+    "settings.personas.lore.add": "Add Entry",
+    "settings.personas.lore.edit": "Edit Entry",
+    "settings.personas.lore.always": "Always included",
+    "settings.personas.lore.name": "Name",
+    "settings.personas.lore.namePlaceholder": "e.g., The capital city",
+    "settings.personas.lore.keys": "Keys",
+    "settings.personas.lore.keysPlaceholder": "e.g., capital, Aldoria",
+    "settings.personas.lore.keysHint": "Comma-separated. The entry is inserted when any of them appears.",
+    "settings.personas.lore.secondaryKeys": "Secondary Keys",
+    "settings.personas.lore.secondaryKeysHint": "Optional. If set, one of these must appear as well.",
+    "settings.personas.lore.regex": "Regular expressions",
+    "settings.personas.lore.regexDesc": "Treat keys as patterns, e.g. /dragons?/",
+    "settings.personas.lore.caseSensitive": "Case sensitive",
+    "settings.personas.lore.caseSensitiveDesc": "Match keys with the exact capitalization",
+    "settings.personas.lore.content": "Content",
+    "settings.personas.lore.contentPlaceholder": "What the model should know when this comes up...",
+    "settings.personas.lore.position": "Insert",
+    "settings.personas.lore.position.before_char": "Before the character",
+    "settings.personas.lore.position.after_char": "After the character",
+    "settings.personas.lore.priority": "Priority",
+    "settings.personas.lore.priorityHint": "Lower priorities are dropped first when over budget",
+    "settings.personas.lore.order": "Order",
+    "settings.personas.lore.orderHint": "Lower numbers are inserted first",
+    "settings.personas.lore.entryTokenBudget": "Token Limit",
+    "settings.personas.lore.entryTokenBudgetHint": "Longer content is cut short. Empty for no limit.",
+    "settings.personas.lore.constant": "Always include",
+    "settings.personas.lore.constantDesc": "Insert without waiting for a key",
+    "settings.personas.lore.enabled": "Enabled",
+    "settings.personas.lore.enabledDesc": "Disabled entries are never inserted",
+    "settings.personas.lore.required": "An entry needs content and at least one key (or Always include).",
+    "settings.personas.lore.tokenBudget": "Token Budget",
+    "settings.personas.lore.scanDepth": "Scan Depth",
+    "settings.personas.lore.scanDepthHint": "Recent messages searched for keys",
 
     // Metadata section
+    "settings.personas.generationSection": "Generation",
+    "settings.personas.generationHint": "Defaults for conversations with this persona. Leave empty to use the provider's settings.",
+    "settings.personas.collectionsSection": "Knowledge",
+    "settings.personas.collectionsHint": "Source collections searched in every conversation with this persona.",
+    "settings.personas.fallbackSection": "Fallback Models",
+    "settings.personas.fallbackHint": "Tried in order when the model keeps failing with rate limit, server or network errors. Conversations can set their own.",
     "settings.personas.metadataSection": "Metadata",
     "settings.personas.creatorNotes": "Creator Notes",
     "settings.personas.creatorNotesPlaceholder": "Notes for users about this persona...",
     "settings.personas.creatorNotesHint": "These notes are for reference only and not used in prompts.",
+    "settings.personas.creator": "Creator",
+    "settings.personas.characterVersion": "Version",
+    "settings.personas.tags": "Tags",
+    "settings.personas.tagsPlaceholder": "Comma-separated, e.g., fantasy, adventure",
 
     // List/management
     "settings.personas.empty": "No personas yet",
@@ -93,6 +183,41 @@ export const en: Record<string, string> = {
     "settings.personas.emptyState.description": "Add your first persona to customize how the AI behaves.",
     "settings.personas.emptyState.cta": "Create Persona",
 
+    // Character cards
+    "settings.personas.import": "Import Character Card",
+    "settings.personas.importSuccess": "Imported \"{name}\".",
+    "settings.personas.export.title": "Export Character Card",
+    "settings.personas.export.format": "Format",
+    "settings.personas.export.png": "PNG image",
+    "settings.personas.export.pngDesc": "Card embedded in the picture, readable by most character apps",
+    "settings.personas.export.json-v3": "JSON (Character Card V3)",
+    "settings.personas.export.json-v3Desc": "Plain card file in the current format",
+    "settings.personas.export.json-v2": "JSON (Character Card V2)",
+    "settings.personas.export.json-v2Desc": "For apps that don't read V3 cards yet",
+    "settings.personas.export.button": "Export",
+
+    // Prompt Library
+    "prompts.title": "Prompt Library",
+    "prompts.empty": "No prompt templates yet",
+    "prompts.count": "{count} template(s)",
+    "prompts.emptyState.title": "No prompt templates yet",
+    "prompts.emptyState.description": "Save prompts you use often and insert them in chat by typing \"/\" followed by the template name.",
+    "prompts.emptyState.cta": "Create Template",
+    "prompts.delete.title": "Delete Template",
+    "prompts.delete.confirm": "Are you sure you want to delete \"{name}\"?",
+    "prompts.editor.new": "New Template",
+    "prompts.editor.edit": "Edit Template",
+    "prompts.editor.name": "Name",
+    "prompts.editor.namePlaceholder": "e.g. Summarize",
+    "prompts.editor.commandHint": "Insert in chat with /{command}",
+    "prompts.editor.description": "Description",
+    "prompts.editor.content": "Template",
+    "prompts.editor.contentPlaceholder": "Summarize the following text in {{length}} sentences:\n\n{{clipboard}}",
+    "prompts.editor.variablesHint": "Use {{name}} for variables. Built-in: {builtIns}",
+    "prompts.editor.required": "Name and template are required",
+    "prompts.variables.hint": "Fill in the template variables",
+    "prompts.variables.insert": "Insert",
+
 
 
 
@@ -192,7 +317,14 @@ export const en: Record<string, string> = {
     // Chat Screen
     "chat.input.placeholder": "Type a message...",
     "chat.input.placeholder.noLlm": "Select an LLM to start chatting...",
+    "chat.attach.title": "Attach Image",
+    "chat.attach.camera": "Take Photo",
+    "chat.attach.library": "Choose from Library",
     "chat.persona.select": "Select Persona",
+    "generationSettings.title": "Generation Settings",
+    "generationSettings.conversationHint": "Overrides for this conversation only. Empty fields use the persona or provider settings; unsupported settings are ignored by the provider.",
+    "generationSettings.default": "Default",
+    "generationSettings.reset": "Reset",
     "chat.persona.none": "No Persona",
     "chat.persona.noneDesc": "Use default AI behavior",
     "chat.persona.empty": "No personas created yet. Create one in Settings.",
@@ -218,8 +350,63 @@ export const en: Record<string, string> = {
     "chat.modelSelector.noModels.remote": "No models available. Check connection.",
     "chat.modelSelector.downloadModels": "Download Models",
 
+    // Compare Mode
+    "chat.compare.provider": "Select Provider",
+    "chat.compare.model": "Select Model",
+    "chat.compare.addModel": "Add Model",
+    "chat.compare.unknownProvider": "Unknown provider",
+    "chat.compare.waiting": "Waiting for another local model...",
+    "chat.compare.loading": "Loading model...",
+    "chat.compare.thinking": "Thinking...",
+    "chat.compare.stopped": "Stopped",
+    "chat.compare.tokens": "{count} tokens",
+    "chat.compare.speed": "{speed} tok/s",
+    "chat.compare.pick": "Use this answer",
+
+    // Fallback Chain
+    "chat.fallback.label": "Fallback Models",
+    "chat.fallback.hint": "Tried in order when the model keeps failing with rate limit, server or network errors",
+    "chat.fallback.personaChain": "Using the persona's {count} fallback model(s) until you add some here",
+    "chat.fallback.add": "Add Fallback",
+
+    // Offline Outbox
+    "chat.outbox.offline": "You're offline. Messages to remote models are queued and sent when the connection returns.",
+    "chat.outbox.answeringElsewhere": "Answering a queued message in another conversation...",
+    "chat.outbox.selectLocalModel": "Send to Local Model",
+    "chat.outbox.selectLocalModelHint": "The conversation switches to this model and it answers right away.",
+    "chat.outbox.noLocalModels": "No downloaded local models. Download one in Settings to answer while offline.",
+
+    // Response Format
+    "chat.responseFormat.label": "Response Format",
+    "chat.responseFormat.hint": "Ask the model for JSON; answers are checked against the schema",
+    "chat.responseFormat.text": "Free text",
+    "chat.responseFormat.json": "JSON",
+    "chat.responseFormat.jsonSchema": "JSON Schema",
+    "chat.responseFormat.schemaHint": "Saved once the schema is valid JSON",
+
     // Sidebar
     "sidebar.newChat": "New Chat",
+    "sidebar.search": "Search",
+
+    // Search Screen
+    "search.title": "Search",
+    "search.placeholder": "Search conversations and messages...",
+    "search.filter.provider": "Provider",
+    "search.filter.model": "Model",
+    "search.filter.persona": "Persona",
+    "search.filter.date": "Date",
+    "search.filter.any": "Any",
+    "search.filter.date.day": "Last 24 hours",
+    "search.filter.date.week": "Last 7 days",
+    "search.filter.date.month": "Last 30 days",
+    "search.filter.date.year": "Last year",
+    "search.section.conversations": "Conversations",
+    "search.section.messages": "Messages",
+    "search.role.user": "You",
+    "search.role.assistant": "Assistant",
+    "search.empty.title": "Search your chats",
+    "search.empty.description": "Find conversations by title or messages by their content.",
+    "search.noResults": "No results for \"{query}\"",
 
     // Alerts
     "alert.error.default": "An error occurred",
@@ -238,6 +425,8 @@ export const en: Record<string, string> = {
     "models.download.complete": "Downloaded",
     "models.download.progress": "Downloading... {progress}%",
     "models.download.failed": "Download failed",
+    "models.download.paused": "Paused at {progress}%",
+    "models.download.corrupted": "Checksum verification failed. Download again or delete the files.",
     "models.notification.title": "Downloading Model",
     "models.notification.complete": "Download Complete",
     "models.notification.failed": "Download Failed",
@@ -246,6 +435,43 @@ export const en: Record<string, string> = {
     "models.empty": "No models available",
     "models.empty.search": "No models match your search",
     "models.web.unsupported": "Model downloads are not supported on web. Use the mobile app.",
+    "models.catalog.title": "Hugging Face",
+    "models.catalog.placeholder": "Search GGUF models...",
+    "models.catalog.empty": "Search for a model by name to list its GGUF repositories.",
+    "models.catalog.error": "Failed to load the model catalog",
+    "models.catalog.stats": "{downloads} downloads · {likes} likes",
+    "models.catalog.license": "License",
+    "models.catalog.contextLength": "Context length",
+    "models.catalog.architecture": "Architecture",
+    "models.catalog.baseModel": "Base model",
+    "models.catalog.chatTemplate": "Chat template",
+    "models.catalog.noTemplate": "Not provided",
+    "models.catalog.files": "Quantizations",
+    "models.catalog.noFiles": "No single-file GGUF models in this repository. Models split into parts aren't supported.",
+    "models.catalog.mmprojHint": "Vision projector {file} is downloaded with the model.",
+    "models.storage.title": "Model Storage",
+    "models.storage.empty": "No orphaned files in the models folder.",
+    "models.storage.hint": "{count} item(s) not used by any model, {size} in total.",
+    "models.storage.scanError": "Failed to scan the models folder",
+    "models.storage.deleteError": "Failed to delete files",
+    "models.storage.delete.title": "Delete File",
+    "models.storage.delete.confirm": "Delete \"{name}\"? This cannot be undone.",
+    "models.storage.deleteAll": "Delete All",
+    "models.storage.deleteAll.title": "Delete Orphaned Files",
+    "models.storage.deleteAll.confirm": "Delete {count} item(s) ({size})? This cannot be undone.",
+    "models.fit.fits": "Fits",
+    "models.fit.tight": "Tight",
+    "models.fit.wont-fit": "Won't fit",
+    "models.fit.memoryHint": "Needs ~{required} of ~{available} usable memory.",
+    "models.fit.storageHint": "Needs {required} of free storage.",
+    "models.fit.suggestContext": "Try a {nCtx} token context.",
+    "models.fit.useContext": "Use {nCtx} tokens",
+    "models.fit.loadAnyway": "Load Anyway",
+    "models.fit.downloadWarning.title": "Model Too Large",
+    "models.fit.downloadWarning.memory": "{name} likely needs more memory than this device has. Download anyway?",
+    "models.fit.loadWarning.title": "Low Memory",
+    "models.fit.loadWarning.tight": "{name} needs ~{required} and this device has ~{available} usable. Loading may fail or slow down the device.",
+    "models.fit.loadWarning.wontFit": "{name} needs ~{required} but this device has only ~{available} usable. Loading will likely crash the app.",
 
     // RAG Settings
     "settings.rag.title": "RAG (Document Context)",
@@ -269,6 +495,20 @@ export const en: Record<string, string> = {
     "sources.rename": "Rename",
     "sources.error.empty": "The document appears to be empty or unreadable.",
     "sources.error.processing": "Failed to process document.",
+    "sources.collections.all": "All documents",
+    "sources.collections.count": "{count} docs",
+    "sources.collections.new": "New Collection",
+    "sources.collections.edit": "Edit Collection",
+    "sources.collections.name": "Name",
+    "sources.collections.namePlaceholder": "e.g. Product manuals",
+    "sources.collections.nameRequired": "Collection name is required.",
+    "sources.collections.description": "Description",
+    "sources.collections.ragConfig": "RAG config",
+    "sources.collections.defaultConfig": "Active RAG config",
+    "sources.collections.ragConfigHint": "Documents in this collection are searched with the chosen config's embedding model and retrieval settings. With a model other than the active one, they are embedded again the first time they are searched.",
+    "sources.collections.membershipHint": "Check documents to include them. New documents added here join the collection.",
+    "sources.collections.delete.title": "Delete Collection",
+    "sources.collections.delete.confirm": "Delete \"{name}\"? Its documents are kept.",
 
     // Chat Sources
     "chat.sources.button": "Add Context",
@@ -276,6 +516,9 @@ export const en: Record<string, string> = {
     "chat.sources.selected": "{count} source(s) selected",
     "chat.sources.none": "No sources selected",
     "chat.sources.clear": "Clear Selection",
+    "chat.sources.collections": "Collections",
+    "chat.sources.collectionsHint": "Attached collections are searched on every message, including documents added later.",
+    "chat.sources.documents": "Documents",
 
     // Additional RAG Settings strings
     "settings.rag.configure": "Manage RAG Providers",
@@ -315,6 +558,26 @@ export const en: Record<string, string> = {
     "rag.editor.options": "Options",
     "rag.editor.setDefault": "Set as Default",
     "rag.editor.setDefaultHint": "Use this provider for generating embeddings",
+    "rag.editor.connection": "Connection",
+    "rag.editor.modelPlaceholder": "e.g. text-embedding-3-small",
+    "rag.editor.dimensions": "Dimensions",
+    "rag.editor.dimensionsPlaceholder": "Model default",
+    "rag.editor.dimensionsHint": "Shorter vectors use less storage. Only supported by some models; changing it requires reprocessing sources.",
+    "rag.editor.retrieval.title": "Retrieval",
+    "rag.editor.retrieval.topK": "Passages to retrieve",
+    "rag.editor.retrieval.topKHint": "Number of passages added to the context (1-50)",
+    "rag.editor.retrieval.vectorWeight": "Semantic weight",
+    "rag.editor.retrieval.vectorWeightHint": "Weight of embedding similarity results when merging (0 disables)",
+    "rag.editor.retrieval.keywordWeight": "Keyword weight",
+    "rag.editor.retrieval.keywordWeightHint": "Weight of exact keyword (BM25) results when merging (0 disables)",
+    "rag.editor.retrieval.minSimilarity": "Minimum similarity",
+    "rag.editor.retrieval.minSimilarityHint": "Semantic results below this score (0-1) are dropped",
+    "rag.editor.retrieval.useMMR": "Diversify results",
+    "rag.editor.retrieval.useMMRHint": "Skip passages that repeat ones already selected (MMR)",
+    "rag.editor.retrieval.mmrLambda": "Relevance balance",
+    "rag.editor.retrieval.mmrLambdaHint": "1 favors relevance, 0 favors diversity",
+    "rag.openai.notConfiguredTitle": "OpenAI Not Configured",
+    "rag.openai.notConfigured": "Add an OpenAI or OpenAI Compatible provider in Settings → Manage LLM Providers first. Its URL and API key are used for embeddings.",
     "rag.initRequired": "RAG initialization required",
     "rag.initRequiredHint": "Configure a RAG provider in settings first",
     "rag.initializing": "Initializing embedding model...",
@@ -324,6 +587,8 @@ export const en: Record<string, string> = {
     "settings.developer.title": "Developer",
     "settings.developer.logs": "View Logs",
     "settings.developer.logsDesc": "View and share application logs",
+    "settings.developer.statsDesc": "Speed and latency of each model",
+    "settings.developer.apiServerDesc": "Serve the loaded model to other devices over an OpenAI-compatible API",
     "logs.title": "Logs",
     "logs.share": "Share",
     "logs.clear": "Clear",
@@ -331,6 +596,46 @@ export const en: Record<string, string> = {
     "logs.cleared": "Logs cleared",
     "logs.count": "{count} log entries",
 
+    // Generation Statistics
+    "stats.title": "Generation Statistics",
+    "stats.hint": "Averages over completed answers. Tokens marked ~ include estimates for providers that don't report usage.",
+    "stats.answers": "{count} answers",
+    "stats.unknownModel": "Unknown model",
+    "stats.unknownProvider": "Unknown provider",
+    "stats.speed": "Speed",
+    "stats.timeToFirstToken": "First token",
+    "stats.promptProcessing": "Prompt processing",
+    "stats.latency": "Total time",
+    "stats.promptTokens": "Prompt tokens",
+    "stats.completionTokens": "Completion tokens",
+    "stats.empty.title": "No statistics yet",
+    "stats.empty.description": "Speed and token counts are recorded for every answer you generate.",
+
+    // Local API Server
+    "apiServer.title": "API Server",
+    "apiServer.hint": "Other apps on your network can use the loaded model through /v1/chat/completions, /v1/completions, /v1/embeddings and /v1/models. Requests must send the API key as a Bearer token. One generation runs at a time, and chatting in ModelFlux stops the server's generation.",
+    "apiServer.enabled": "Server",
+    "apiServer.starting": "Starting...",
+    "apiServer.running": "Running on port {port}",
+    "apiServer.runningOffline": "Running, but the device isn't connected to a network",
+    "apiServer.stopped": "Stopped",
+    "apiServer.startFailed": "Could not start the server",
+    "apiServer.unsupported": "The API server is only available in the iOS and Android apps.",
+    "apiServer.baseUrl": "Base URL",
+    "apiServer.port": "Port",
+    "apiServer.portHintRunning": "Stop the server to change the port",
+    "apiServer.portInvalid": "Enter a port between {min} and {max}",
+    "apiServer.apiKey": "API key",
+    "apiServer.apiKeyPending": "Created when the server first starts",
+    "apiServer.regenerateKey": "Regenerate API Key",
+    "apiServer.regenerateKeyConfirm": "Clients using the current key will stop working until they are given the new one.",
+    "apiServer.regenerate": "Regenerate",
+    "apiServer.log.title": "Requests",
+    "apiServer.log.clear": "Clear",
+    "apiServer.log.empty": "No requests yet",
+    "apiServer.log.stream": "stream",
+    "apiServer.log.tokens": "{prompt} → {completion} tokens",
+
     // Conversation Runtime Alerts
     "conversation.stopGeneration.title": "Stop Generation?",
     "conversation.stopGeneration.message": "The current conversation will stop generating if you switch. Do you want to continue?",
@@ -344,6 +649,8 @@ export const en: Record<string, string> = {
     "llm.editor.temperature.anthropic.hint": "Controls randomness (0.0-1.0)",
     "llm.editor.topP": "Top-P",
     "llm.editor.topP.hint": "Nucleus sampling (0.0-1.0)",
+    "llm.editor.topK": "Top-K",
+    "llm.editor.topK.hint": "Sample only from the K most likely tokens",
     "llm.editor.maxTokens": "Max Tokens",
     "llm.editor.maxTokens.hint": "Maximum output tokens",
     "llm.editor.presencePenalty": "Presence Penalty",
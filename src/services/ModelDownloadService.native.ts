@@ -14,10 +14,11 @@ import {
 import * as Notifications from 'expo-notifications';
 import { PermissionsAndroid, Platform } from 'react-native';
 import RNFS from 'react-native-fs';
-import { DOWNLOADABLE_MODELS, DownloadableModel } from '../config/downloadableModels';
+import { AssetKey, DOWNLOADABLE_MODELS, DownloadableModel } from '../config/downloadableModels';
 import { ModelType } from '../config/modelTypePresets';
 import { downloadedModelRepository } from '../core/storage';
-import { DownloadedModel, DownloadedModelProvider } from '../core/types';
+import { DownloadedModel, DownloadedModelProvider, OrphanedModelFile } from '../core/types';
+import { getPartPath, getRangeHeaders, isRangeResponse, isResumableDownloadError, mergePartFile } from './downloadResume';
 import { logger } from './LoggerService';
 
 // Notification channel for Android
@@ -32,6 +33,10 @@ interface DownloadMetadata {
     fileType: FileType;
     modelName: string;
     destinationDir: string;
+    // Full definition for models outside the bundled catalog (e.g. Hugging Face picks)
+    model?: DownloadableModel;
+    // Size of the partial file when the task downloads the rest of it into a part file
+    resumeOffset?: number;
 }
 
 // Track active downloads - maps modelId to its download tasks
@@ -41,17 +46,29 @@ const activeDownloads = new Map<string, {
     completedFiles: Map<FileType, string>; // fileType -> filePath
     totalBytesExpected: number;
     bytesDownloaded: Map<FileType, number>;
+    resumeOffsets: Map<FileType, number>; // fileType -> partial file size its part file continues from
     lastNotifiedProgress: number;
+    isPaused: boolean;
 }>();
 
+// Snapshot of an in-flight download for the store
+export interface ActiveDownloadInfo {
+    modelId: string;
+    name: string;
+    progress: number;
+    isPaused: boolean;
+}
+
 // Progress callbacks
 type ProgressCallback = (modelId: string, progress: number) => void;
 type CompletionCallback = (modelId: string, model: DownloadedModel) => void;
 type ErrorCallback = (modelId: string, error: string) => void;
+type PauseCallback = (modelId: string) => void;
 
 let progressCallback: ProgressCallback | null = null;
 let completionCallback: CompletionCallback | null = null;
 let errorCallback: ErrorCallback | null = null;
+let pauseCallback: PauseCallback | null = null;
 let hasRequestedNotificationPermission = false;
 
 /**
@@ -60,11 +77,13 @@ let hasRequestedNotificationPermission = false;
 export function setDownloadCallbacks(
     onProgress: ProgressCallback,
     onComplete: CompletionCallback,
-    onError: ErrorCallback
+    onError: ErrorCallback,
+    onPause: PauseCallback
 ) {
     progressCallback = onProgress;
     completionCallback = onComplete;
     errorCallback = onError;
+    pauseCallback = onPause;
 }
 
 /**
@@ -74,6 +93,7 @@ export function clearDownloadCallbacks() {
     progressCallback = null;
     completionCallback = null;
     errorCallback = null;
+    pauseCallback = null;
 }
 
 /**
@@ -127,7 +147,8 @@ async function showDownloadNotification(
     progress: number,
     isComplete: boolean = false,
     isFailed: boolean = false,
-    isCancelled: boolean = false
+    isCancelled: boolean = false,
+    isPaused: boolean = false
 ) {
     const hasPermission = await ensureNotificationPermissions();
     if (!hasPermission) return;
@@ -144,6 +165,9 @@ async function showDownloadNotification(
     } else if (isCancelled) {
         title = 'Download Cancelled';
         body = `${modelName} download was cancelled`;
+    } else if (isPaused) {
+        title = 'Download Paused';
+        body = `${modelName}: paused at ${progress}%`;
     }
 
     await Notifications.scheduleNotificationAsync({
@@ -244,6 +268,30 @@ function getFileNameFromUrl(url: string): string {
     return parts[parts.length - 1] || 'file';
 }
 
+/**
+ * Get the path a model file is downloaded to
+ */
+function getFileDestination(modelId: string, url: string): string {
+    return `${getModelDirPath(modelId)}${getFileNameFromUrl(url)}`;
+}
+
+/**
+ * Get the files to download for a model as [asset key, url] pairs
+ * Only 'model' is required, all other assets are optional
+ */
+function getAssetFiles(model: DownloadableModel): [FileType, string][] {
+    return Object.entries(model.assets).filter(
+        (entry): entry is [FileType, string] => typeof entry[1] === 'string' && entry[1].length > 0
+    );
+}
+
+/**
+ * Strip the file:// scheme for react-native-fs calls
+ */
+function toFsPath(path: string): string {
+    return path.replace(/^file:\/\//, '');
+}
+
 /**
  * Generate a unique task ID for a file download
  */
@@ -276,9 +324,7 @@ function calculateProgress(modelId: string): number {
     if (!download) return 0;
 
     // Get all asset keys from the model
-    const assetKeys = Object.keys(download.model.assets).filter(
-        key => download.model.assets[key as keyof typeof download.model.assets]
-    );
+    const assetKeys = getAssetFiles(download.model).map(([key]) => key);
 
     if (assetKeys.length === 0) return 0;
 
@@ -298,7 +344,9 @@ function calculateProgress(modelId: string): number {
     for (const [fileType, task] of download.tasks) {
         if (!download.completedFiles.has(fileType)) {
             const bytesDownloaded = download.bytesDownloaded.get(fileType) || 0;
-            const bytesTotal = task.bytesTotal > 0 ? task.bytesTotal : 1;
+            // A part file's task only knows the size of the rest of the file
+            const offset = download.resumeOffsets.get(fileType) ?? 0;
+            const bytesTotal = task.bytesTotal > 0 ? offset + task.bytesTotal : 1;
             const fileProgress = bytesDownloaded / bytesTotal;
             const weight = fileType === 'model' ? modelWeight : otherWeight;
             totalProgress += fileProgress * weight;
@@ -342,9 +390,7 @@ async function handleFileComplete(
     completeHandler(taskId);
 
     // Check if all files are complete - dynamically get required files from assets
-    const requiredFiles = Object.keys(download.model.assets).filter(
-        key => download.model.assets[key as keyof typeof download.model.assets]
-    );
+    const requiredFiles = getAssetFiles(download.model).map(([key]) => key);
 
     const allComplete = requiredFiles.every(ft => download.completedFiles.has(ft));
 
@@ -353,6 +399,60 @@ async function handleFileComplete(
     }
 }
 
+/**
+ * Handle a finished download task; a part file is first appended to the partial file it continues
+ */
+async function handleTaskDone(
+    modelId: string,
+    fileType: FileType,
+    location: string,
+    taskId: string
+): Promise<void> {
+    const download = activeDownloads.get(modelId);
+    const offset = download?.resumeOffsets.get(fileType);
+    const url = download && getAssetFiles(download.model).find(([key]) => key === fileType)?.[1];
+    if (!download || offset === undefined || !url) {
+        await handleFileComplete(modelId, fileType, location, taskId);
+        return;
+    }
+
+    const destination = getFileDestination(modelId, url);
+    try {
+        download.bytesDownloaded.set(fileType, await mergePartFile(RNFS, toFsPath(destination), offset));
+    } catch (error) {
+        completeHandler(taskId);
+        handleDownloadError(modelId, error instanceof Error ? error.message : 'Unknown error');
+        return;
+    }
+    download.resumeOffsets.delete(fileType);
+    await handleFileComplete(modelId, fileType, destination, taskId);
+}
+
+/**
+ * Check downloaded files against the SHA-256 checksums declared in the model's assets
+ * @returns Asset keys whose content doesn't match
+ */
+async function verifyChecksums(
+    model: DownloadableModel,
+    completedFiles: Map<FileType, string>
+): Promise<FileType[]> {
+    const mismatched: FileType[] = [];
+
+    for (const [fileType, location] of completedFiles) {
+        const expected = model.assets.sha256?.[fileType as AssetKey];
+        if (!expected) continue;
+
+        logger.log('ModelDownload', 'Verifying checksum for', fileType);
+        const actual = await RNFS.hash(toFsPath(location), 'sha256');
+        if (actual.toLowerCase() !== expected.toLowerCase()) {
+            logger.warn('ModelDownload', `Checksum mismatch for ${fileType}: expected ${expected}, got ${actual}`);
+            mismatched.push(fileType);
+        }
+    }
+
+    return mismatched;
+}
+
 /**
  * Finalize a completed model download
  */
@@ -373,6 +473,9 @@ async function finalizeDownload(modelId: string): Promise<void> {
             totalSize += bytesDownloaded;
         }
 
+        // Keep corrupted files on record so the user sees why the model can't be used
+        const mismatched = await verifyChecksums(download.model, download.completedFiles);
+        const isCorrupted = mismatched.length > 0;
 
         // Prepare downloaded model record
         const modelData = {
@@ -381,16 +484,18 @@ async function finalizeDownload(modelId: string): Promise<void> {
             description: download.model.description,
             provider: download.model.provider,
             type: download.model.type,
-            tags: [],
+            tags: download.model.tags || [],
             localPath: modelDirPath,
             modelFilePath: download.completedFiles.get('model') || '',
             tokenizerFilePath: download.completedFiles.get('tokenizer') || '',
             tokenizerConfigFilePath: download.completedFiles.get('tokenizerConfig') || '',
+            mmprojFilePath: download.completedFiles.get('mmproj'),
             sizeEstimate: download.model.size,
             downloadedSize: totalSize,
-            status: 'completed' as const,
+            status: isCorrupted ? 'corrupted' as const : 'completed' as const,
             progress: 100,
             downloadedAt: Date.now(),
+            errorMessage: isCorrupted ? `Checksum mismatch: ${mismatched.join(', ')}` : undefined,
         };
 
         console.log('[ModelDownload] Saving downloaded model:', JSON.stringify(modelData, null, 2));
@@ -402,7 +507,7 @@ async function finalizeDownload(modelId: string): Promise<void> {
         activeDownloads.delete(modelId);
 
         // Show completion notification
-        await showDownloadNotification(modelId, download.model.name, 100, true);
+        await showDownloadNotification(modelId, download.model.name, 100, !isCorrupted, isCorrupted);
 
         // Notify callback
         progressCallback?.(modelId, 100);
@@ -417,13 +522,33 @@ async function finalizeDownload(modelId: string): Promise<void> {
 
 /**
  * Handle download error
+ * Network errors pause the download and keep the partial files, so resumeDownload
+ * can continue them; other errors delete them.
  */
-async function handleDownloadError(modelId: string, errorMessage: string): Promise<void> {
+async function handleDownloadError(modelId: string, errorMessage: string, errorCode?: number): Promise<void> {
     console.error(`[ModelDownload] Error for ${modelId}: `, errorMessage);
 
     const download = activeDownloads.get(modelId);
     const modelName = download?.model.name || modelId;
 
+    if (download && errorCode !== undefined && isResumableDownloadError(errorCode)) {
+        // Hold the other files too, so the whole model resumes together
+        for (const [, task] of download.tasks) {
+            if (task.state === 'DOWNLOADING' || task.state === 'PENDING') {
+                try {
+                    await task.pause();
+                } catch (e) {
+                    // Ignore errors when pausing
+                }
+            }
+        }
+        download.isPaused = true;
+
+        await showDownloadNotification(modelId, modelName, calculateProgress(modelId), false, false, false, true);
+        pauseCallback?.(modelId);
+        return;
+    }
+
     // Stop all tasks for this model
     if (download) {
         for (const [, task] of download.tasks) {
@@ -443,6 +568,82 @@ async function handleDownloadError(modelId: string, errorMessage: string): Promi
     errorCallback?.(modelId, errorMessage);
 }
 
+/**
+ * Report progress, completion and errors of a file's download task
+ */
+function attachTaskHandlers(task: DownloadTask, modelId: string, fileType: FileType): DownloadTask {
+    return task
+        .begin(({ expectedBytes, headers }) => {
+            console.log(`[ModelDownload] ${fileType} begin: ${expectedBytes} bytes`);
+            const download = activeDownloads.get(modelId);
+            if (!download) return;
+
+            download.totalBytesExpected += expectedBytes;
+            // A server without range support sends the whole file into the part file
+            if (download.resumeOffsets.has(fileType) && !isRangeResponse(headers)) {
+                download.resumeOffsets.set(fileType, 0);
+            }
+        })
+        .progress(({ bytesDownloaded }) => {
+            const download = activeDownloads.get(modelId);
+            if (download) {
+                download.bytesDownloaded.set(fileType, (download.resumeOffsets.get(fileType) ?? 0) + bytesDownloaded);
+                const progress = calculateProgress(modelId);
+                progressCallback?.(modelId, progress);
+
+                // Update notification if progress changed significantly (e.g. 1%)
+                if (progress > download.lastNotifiedProgress && (progress - download.lastNotifiedProgress >= 1 || progress === 100)) {
+                    download.lastNotifiedProgress = progress;
+                    showDownloadNotification(modelId, download.model.name, progress);
+                }
+            }
+        })
+        .done(({ location }) => {
+            console.log(`[ModelDownload] ${fileType} done: ${location}`);
+            handleTaskDone(modelId, fileType, location, task.id);
+        })
+        .error(({ error, errorCode }) => {
+            handleDownloadError(modelId, error, errorCode);
+        });
+}
+
+/**
+ * Create and start the download task for one file of a model.
+ * With a resume offset, only the rest of the file is requested, into its part file.
+ */
+function startFileTask(
+    model: DownloadableModel,
+    fileType: FileType,
+    url: string,
+    modelDirPath: string,
+    resumeOffset?: number
+): DownloadTask {
+    const taskId = getTaskId(model.id, fileType);
+    const destination = getFileDestination(model.id, url);
+    const isResume = resumeOffset !== undefined;
+
+    const metadata: DownloadMetadata = {
+        modelId: model.id,
+        fileType,
+        modelName: model.name,
+        destinationDir: modelDirPath,
+        model: DOWNLOADABLE_MODELS.some((m) => m.id === model.id) ? undefined : model,
+        resumeOffset,
+    };
+
+    console.log(`[ModelDownload] Creating task ${taskId} for ${url}${isResume ? ` from byte ${resumeOffset}` : ''}`);
+
+    const task = createDownloadTask({
+        id: taskId,
+        url,
+        destination: isResume ? getPartPath(destination) : destination,
+        headers: isResume ? getRangeHeaders(resumeOffset) : undefined,
+        metadata,
+    });
+    attachTaskHandlers(task, model.id, fileType).start();
+    return task;
+}
+
 /**
  * Start downloading a model
  */
@@ -478,7 +679,9 @@ export async function startDownload(model: DownloadableModel): Promise<void> {
             completedFiles: new Map<FileType, string>(),
             totalBytesExpected: 0,
             bytesDownloaded: new Map<FileType, number>(),
+            resumeOffsets: new Map<FileType, number>(),
             lastNotifiedProgress: 0,
+            isPaused: false,
         };
         activeDownloads.set(modelId, downloadState);
 
@@ -486,71 +689,9 @@ export async function startDownload(model: DownloadableModel): Promise<void> {
         await showDownloadNotification(modelId, model.name, 0);
         progressCallback?.(modelId, 0);
 
-        // Define files to download - iterate over all assets dynamically
-        // Only 'model' is required, all other assets are optional
-        const files: { url: string; fileType: FileType; filename: string }[] = [];
-
-        for (const [assetKey, assetUrl] of Object.entries(model.assets)) {
-            if (assetUrl && typeof assetUrl === 'string') {
-                files.push({
-                    url: assetUrl,
-                    fileType: assetKey as FileType,
-                    filename: getFileNameFromUrl(assetUrl),
-                });
-            }
-        }
-
-        // Create and start download tasks
-        for (const file of files) {
-            const taskId = getTaskId(modelId, file.fileType);
-            const destination = `${modelDirPath}${file.filename}`;
-
-            const metadata: DownloadMetadata = {
-                modelId,
-                fileType: file.fileType,
-                modelName: model.name,
-                destinationDir: modelDirPath,
-            };
-
-            console.log(`[ModelDownload] Creating task ${taskId} for ${file.url}`);
-
-            const task = createDownloadTask({
-                id: taskId,
-                url: file.url,
-                destination,
-                metadata,
-            })
-                .begin(({ expectedBytes }) => {
-                    console.log(`[ModelDownload] ${file.fileType} begin: ${expectedBytes} bytes`);
-                    const download = activeDownloads.get(modelId);
-                    if (download) {
-                        download.totalBytesExpected += expectedBytes;
-                    }
-                })
-                .progress(({ bytesDownloaded, bytesTotal }) => {
-                    const download = activeDownloads.get(modelId);
-                    if (download) {
-                        download.bytesDownloaded.set(file.fileType, bytesDownloaded);
-                        const progress = calculateProgress(modelId);
-                        progressCallback?.(modelId, progress);
-
-                        // Update notification if progress changed significantly (e.g. 1%)
-                        if (progress > download.lastNotifiedProgress && (progress - download.lastNotifiedProgress >= 1 || progress === 100)) {
-                            download.lastNotifiedProgress = progress;
-                            showDownloadNotification(modelId, model.name, progress);
-                        }
-                    }
-                })
-                .done(({ location }) => {
-                    console.log(`[ModelDownload] ${file.fileType} done: ${location}`);
-                    handleFileComplete(modelId, file.fileType, location, taskId);
-                })
-                .error(({ error }) => {
-                    handleDownloadError(modelId, error);
-                });
-
-            downloadState.tasks.set(file.fileType, task);
-            task.start();
+        // Create and start download tasks - iterate over all assets dynamically
+        for (const [fileType, url] of getAssetFiles(model)) {
+            downloadState.tasks.set(fileType, startFileTask(model, fileType, url, modelDirPath));
         }
 
     } catch (error) {
@@ -560,6 +701,56 @@ export async function startDownload(model: DownloadableModel): Promise<void> {
     }
 }
 
+/**
+ * Pause an ongoing download; the partial files are kept and
+ * resumeDownload continues them with HTTP range requests
+ */
+export async function pauseDownload(modelId: string): Promise<void> {
+    const download = activeDownloads.get(modelId);
+    if (!download || download.isPaused) return;
+
+    console.log(`[ModelDownload] Pausing download for ${modelId}`);
+
+    for (const [, task] of download.tasks) {
+        await task.pause();
+    }
+    download.isPaused = true;
+
+    await showDownloadNotification(modelId, download.model.name, calculateProgress(modelId), false, false, false, true);
+}
+
+/**
+ * Resume a paused download from where it stopped
+ */
+export async function resumeDownload(modelId: string): Promise<void> {
+    const download = activeDownloads.get(modelId);
+    if (!download || !download.isPaused) return;
+
+    console.log(`[ModelDownload] Resuming download for ${modelId}`);
+
+    for (const [fileType, task] of download.tasks) {
+        if (task.state !== 'FAILED') {
+            await task.resume();
+            continue;
+        }
+
+        // A task that failed on a network error can't resume: request the rest of its file
+        const url = getAssetFiles(download.model).find(([key]) => key === fileType)?.[1];
+        if (!url) continue;
+        const offset = await mergePartFile(
+            RNFS,
+            toFsPath(getFileDestination(modelId, url)),
+            download.resumeOffsets.get(fileType) ?? 0
+        );
+        download.resumeOffsets.set(fileType, offset);
+        download.bytesDownloaded.set(fileType, offset);
+        download.tasks.set(fileType, startFileTask(download.model, fileType, url, getModelDirPath(modelId), offset));
+    }
+    download.isPaused = false;
+
+    await showDownloadNotification(modelId, download.model.name, calculateProgress(modelId));
+}
+
 /**
  * Cancel an ongoing download
  */
@@ -619,6 +810,18 @@ export function getActiveDownloadIds(): string[] {
     return Array.from(activeDownloads.keys());
 }
 
+/**
+ * Get all active downloads, including ones re-attached after a restart
+ */
+export function getActiveDownloads(): ActiveDownloadInfo[] {
+    return Array.from(activeDownloads.entries()).map(([modelId, download]) => ({
+        modelId,
+        name: download.model.name,
+        progress: calculateProgress(modelId),
+        isPaused: download.isPaused,
+    }));
+}
+
 /**
  * Get queue position for a model (0 if downloading, -1 if not found)
  * Note: With background downloads, there's no queue - all downloads run in parallel
@@ -659,8 +862,9 @@ export async function reattachBackgroundDownloads(): Promise<void> {
 
         // Re-attach to each model's downloads
         for (const [modelId, tasks] of tasksByModel) {
-            // Find the model definition
-            const model = DOWNLOADABLE_MODELS.find((m: DownloadableModel) => m.id === modelId);
+            // Find the model definition (catalog picks carry it in the task metadata)
+            const model = DOWNLOADABLE_MODELS.find((m: DownloadableModel) => m.id === modelId)
+                ?? tasks.map((t) => (t.metadata as Partial<DownloadMetadata> | undefined)?.model).find(Boolean);
             if (!model) {
                 console.warn(`[ModelDownload] Model not found for ${modelId}, stopping tasks`);
                 for (const task of tasks) {
@@ -678,7 +882,9 @@ export async function reattachBackgroundDownloads(): Promise<void> {
                     completedFiles: new Map(),
                     totalBytesExpected: 0,
                     bytesDownloaded: new Map(),
+                    resumeOffsets: new Map(),
                     lastNotifiedProgress: 0,
+                    isPaused: false,
                 });
             }
 
@@ -692,32 +898,20 @@ export async function reattachBackgroundDownloads(): Promise<void> {
                 const { fileType } = parsed;
                 console.log(`[ModelDownload] Re - attaching to ${task.id}, state: ${task.state} `);
 
+                // Part files of resumed downloads are merged when they finish
+                const resumeOffset = (task.metadata as Partial<DownloadMetadata> | undefined)?.resumeOffset;
+                if (resumeOffset !== undefined) {
+                    download.resumeOffsets.set(fileType, resumeOffset);
+                }
+
                 download.tasks.set(fileType, task);
-                download.bytesDownloaded.set(fileType, task.bytesDownloaded);
-
-                task
-                    .progress(({ bytesDownloaded }) => {
-                        const dl = activeDownloads.get(modelId);
-                        if (dl) {
-                            dl.bytesDownloaded.set(fileType, bytesDownloaded);
-                            const progress = calculateProgress(modelId);
-                            progressCallback?.(modelId, progress);
-
-                            // Update notification if progress changed significantly
-                            if (progress > dl.lastNotifiedProgress && (progress - dl.lastNotifiedProgress >= 1 || progress === 100)) {
-                                dl.lastNotifiedProgress = progress;
-                                showDownloadNotification(modelId, dl.model.name, progress);
-                            }
-                        }
-                    })
-                    .done(({ location }) => {
-                        handleFileComplete(modelId, fileType, location, task.id);
-                    })
-                    .error(({ error }) => {
-                        handleDownloadError(modelId, error);
-                    });
+                download.bytesDownloaded.set(fileType, (resumeOffset ?? 0) + task.bytesDownloaded);
+                attachTaskHandlers(task, modelId, fileType);
             }
 
+            // Tasks paused before the app closed stay paused until resumed
+            download.isPaused = tasks.every((task) => task.state === 'PAUSED');
+
             // Report current progress
             const progress = calculateProgress(modelId);
             progressCallback?.(modelId, progress);
@@ -766,6 +960,78 @@ export async function deleteDownloadedModel(modelId: string): Promise<void> {
     }
 }
 
+/**
+ * Total size of a file or directory in bytes
+ */
+async function getPathSize(path: string): Promise<number> {
+    const stat = await RNFS.stat(path);
+    if (!stat.isDirectory()) return Number(stat.size);
+
+    const entries = await RNFS.readDir(path);
+    const sizes = await Promise.all(entries.map((entry) => getPathSize(entry.path)));
+    return sizes.reduce((sum, size) => sum + size, 0);
+}
+
+/**
+ * Find files in the models directory that no downloaded model or active download uses:
+ * folders of deleted/failed downloads and stray files inside a model's folder
+ */
+export async function findOrphanedFiles(): Promise<OrphanedModelFile[]> {
+    const modelsDirPath = getModelsDirPath();
+    if (!(await RNFS.exists(modelsDirPath))) return [];
+
+    const models = await downloadedModelRepository.getAll();
+    const modelsById = new Map(models.map((m) => [m.modelId, m]));
+    const orphans: OrphanedModelFile[] = [];
+
+    for (const entry of await RNFS.readDir(modelsDirPath)) {
+        // Partial files of in-flight downloads aren't orphans
+        if (activeDownloads.has(entry.name)) continue;
+
+        const model = modelsById.get(entry.name);
+        if (!model || !entry.isDirectory()) {
+            orphans.push({
+                name: entry.name,
+                path: entry.path,
+                size: await getPathSize(entry.path),
+                isDirectory: entry.isDirectory(),
+            });
+            continue;
+        }
+
+        const referenced = new Set(
+            [model.modelFilePath, model.tokenizerFilePath, model.tokenizerConfigFilePath, model.mmprojFilePath]
+                .filter((path): path is string => !!path)
+                .map(toFsPath)
+        );
+        for (const file of await RNFS.readDir(entry.path)) {
+            if (!referenced.has(file.path)) {
+                orphans.push({
+                    name: `${entry.name}/${file.name}`,
+                    path: file.path,
+                    size: await getPathSize(file.path),
+                    isDirectory: file.isDirectory(),
+                });
+            }
+        }
+    }
+
+    return orphans.sort((a, b) => b.size - a.size);
+}
+
+/**
+ * Delete an orphaned file or folder; only paths inside the models directory are accepted
+ */
+export async function deleteOrphanedFile(path: string): Promise<void> {
+    if (!toFsPath(path).startsWith(`${getModelsDirPath()}/`)) {
+        throw new Error('Refusing to delete a path outside the models directory');
+    }
+    if (await RNFS.exists(path)) {
+        await RNFS.unlink(path);
+        console.log(`[ModelDownload] Deleted orphaned file: ${path}`);
+    }
+}
+
 /**
  * Import a local model from user's storage
  */
@@ -8,12 +8,21 @@
 
 import { DownloadableModel } from '../config/downloadableModels';
 import { ModelType } from '../config/modelTypePresets';
-import { DownloadedModel, DownloadedModelProvider } from '../core/types';
+import { DownloadedModel, DownloadedModelProvider, OrphanedModelFile } from '../core/types';
 
 // Progress/completion callback types
 export type ProgressCallback = (modelId: string, progress: number) => void;
 export type CompletionCallback = (modelId: string, model: DownloadedModel) => void;
 export type ErrorCallback = (modelId: string, error: string) => void;
+export type PauseCallback = (modelId: string) => void;
+
+// Snapshot of an in-flight download for the store
+export interface ActiveDownloadInfo {
+    modelId: string;
+    name: string;
+    progress: number;
+    isPaused: boolean;
+}
 
 /**
  * Placeholder exports for TypeScript compatibility.
@@ -31,7 +40,8 @@ const notImplementedError = () => {
 export function setDownloadCallbacks(
     _onProgress: ProgressCallback,
     _onComplete: CompletionCallback,
-    _onError: ErrorCallback
+    _onError: ErrorCallback,
+    _onPause: PauseCallback
 ): void {
     notImplementedError();
 }
@@ -44,6 +54,14 @@ export async function startDownload(_model: DownloadableModel): Promise<void> {
     notImplementedError();
 }
 
+export async function pauseDownload(_modelId: string): Promise<void> {
+    notImplementedError();
+}
+
+export async function resumeDownload(_modelId: string): Promise<void> {
+    notImplementedError();
+}
+
 export async function cancelDownload(_modelId: string): Promise<void> {
     notImplementedError();
 }
@@ -58,6 +76,11 @@ export function getActiveDownloadIds(): string[] {
     return [];
 }
 
+export function getActiveDownloads(): ActiveDownloadInfo[] {
+    notImplementedError();
+    return [];
+}
+
 export function getQueuePosition(_modelId: string): number {
     notImplementedError();
     return -1;
@@ -71,6 +94,15 @@ export async function deleteDownloadedModel(_modelId: string): Promise<void> {
     notImplementedError();
 }
 
+export async function findOrphanedFiles(): Promise<OrphanedModelFile[]> {
+    notImplementedError();
+    return [];
+}
+
+export async function deleteOrphanedFile(_path: string): Promise<void> {
+    notImplementedError();
+}
+
 export async function importLocalModel(
     _name: string,
     _description: string,
@@ -4,16 +4,25 @@
  */
 
 import { DownloadableModel } from '../config/downloadableModels';
-import { DownloadedModel } from '../core/types';
+import { DownloadedModel, OrphanedModelFile } from '../core/types';
 
 type ProgressCallback = (modelId: string, progress: number) => void;
 type CompletionCallback = (modelId: string, model: DownloadedModel) => void;
 type ErrorCallback = (modelId: string, error: string) => void;
+type PauseCallback = (modelId: string) => void;
+
+export interface ActiveDownloadInfo {
+    modelId: string;
+    name: string;
+    progress: number;
+    isPaused: boolean;
+}
 
 export function setDownloadCallbacks(
     _onProgress: ProgressCallback,
     _onComplete: CompletionCallback,
-    _onError: ErrorCallback
+    _onError: ErrorCallback,
+    _onPause: PauseCallback
 ) {
     // No-op on web
 }
@@ -26,6 +35,14 @@ export async function startDownload(_model: DownloadableModel): Promise<void> {
     throw new Error('Model downloads are not supported on web. Please use the mobile app.');
 }
 
+export async function pauseDownload(_modelId: string): Promise<void> {
+    // No-op on web
+}
+
+export async function resumeDownload(_modelId: string): Promise<void> {
+    // No-op on web
+}
+
 export async function cancelDownload(_modelId: string): Promise<void> {
     // No-op on web
 }
@@ -38,6 +55,10 @@ export function getActiveDownloadIds(): string[] {
     return [];
 }
 
+export function getActiveDownloads(): ActiveDownloadInfo[] {
+    return [];
+}
+
 export function getQueuePosition(_modelId: string): number {
     return -1;
 }
@@ -50,6 +71,14 @@ export async function deleteDownloadedModel(_modelId: string): Promise<void> {
     throw new Error('Model deletion is not supported on web. Please use the mobile app.');
 }
 
+export async function findOrphanedFiles(): Promise<OrphanedModelFile[]> {
+    return [];
+}
+
+export async function deleteOrphanedFile(_path: string): Promise<void> {
+    // No-op on web
+}
+
 export async function importLocalModel(
     _name: string,
     _description: string,
@@ -0,0 +1,31 @@
+import { decryptBackup, encryptBackup, EncryptedBackup } from '../backupCrypto';
+
+jest.mock('expo-crypto', () => ({
+    getRandomBytes: (length: number) => new Uint8Array(jest.requireActual('crypto').randomBytes(length)),
+}));
+
+describe('backup encryption', () => {
+    let backup: EncryptedBackup;
+
+    beforeAll(async () => {
+        backup = await encryptBackup('{"version":"2.4"}', 'correct horse');
+    });
+
+    it('decrypts with the right password', async () => {
+        await expect(decryptBackup(backup, 'correct horse')).resolves.toBe('{"version":"2.4"}');
+    });
+
+    it('rejects a wrong password', async () => {
+        await expect(decryptBackup(backup, 'wrong')).rejects.toThrow('Wrong password or damaged backup');
+    });
+
+    it.each([0, -1, NaN, 1.5, 1000, 1e12])('rejects %p KDF iterations before deriving a key', async (iterations) => {
+        const tampered = { ...backup, kdf: { ...backup.kdf, iterations } };
+        await expect(decryptBackup(tampered, 'correct horse')).rejects.toThrow('Invalid backup encryption parameters');
+    });
+
+    it('rejects an unknown key derivation', async () => {
+        const tampered = { ...backup, kdf: { ...backup.kdf, name: 'scrypt' } } as unknown as EncryptedBackup;
+        await expect(decryptBackup(tampered, 'correct horse')).rejects.toThrow('Unsupported backup encryption');
+    });
+});
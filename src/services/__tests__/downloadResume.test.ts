@@ -0,0 +1,144 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { appendFile, open, rename, stat, unlink } from 'fs/promises';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    getPartPath,
+    getRangeHeaders,
+    isRangeResponse,
+    isResumableDownloadError,
+    mergePartFile,
+    PartFileSystem,
+} from '../downloadResume';
+
+// react-native-fs calls backed by Node's fs
+const nodeFs: PartFileSystem = {
+    exists: async (path) => existsSync(path),
+    stat: async (path) => ({ size: (await stat(path)).size }),
+    read: async (path, length, position) => {
+        const file = await open(path, 'r');
+        try {
+            const buffer = Buffer.alloc(length);
+            const { bytesRead } = await file.read(buffer, 0, length, position);
+            return buffer.subarray(0, bytesRead).toString('base64');
+        } finally {
+            await file.close();
+        }
+    },
+    appendFile: (path, contents) => appendFile(path, Buffer.from(contents, 'base64')),
+    moveFile: (from, to) => rename(from, to),
+    unlink: (path) => unlink(path),
+};
+
+const MODEL = Buffer.from(Array.from({ length: 1000 }, (_, i) => i % 251));
+
+describe('resuming a download', () => {
+    let dir: string;
+    let destination: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'download-resume-'));
+        destination = join(dir, 'model.gguf');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps partial files on network errors only', () => {
+        expect([-1005, -1009, -1, 1004, 408, 429, 503].every(isResumableDownloadError)).toBe(true);
+        expect([-999, 404, 416, 1001, 1006].some(isResumableDownloadError)).toBe(false);
+    });
+
+    it('continues from the size of the partial file', async () => {
+        writeFileSync(destination, MODEL.subarray(0, 300));
+
+        const offset = await mergePartFile(nodeFs, destination, 0);
+
+        expect(offset).toBe(300);
+        expect(getRangeHeaders(offset)).toEqual({ Range: 'bytes=300-' });
+    });
+
+    it('appends the part file in chunks and deletes it', async () => {
+        writeFileSync(destination, MODEL.subarray(0, 300));
+        writeFileSync(getPartPath(destination), MODEL.subarray(300));
+
+        await expect(mergePartFile(nodeFs, destination, 300, 64)).resolves.toBe(MODEL.length);
+        expect(readFileSync(destination).equals(MODEL)).toBe(true);
+        expect(existsSync(getPartPath(destination))).toBe(false);
+    });
+
+    it('merges a part file cut short by another error, then continues after it', async () => {
+        writeFileSync(destination, MODEL.subarray(0, 300));
+        writeFileSync(getPartPath(destination), MODEL.subarray(300, 700));
+
+        await expect(mergePartFile(nodeFs, destination, 300)).resolves.toBe(700);
+        expect(readFileSync(destination).equals(MODEL.subarray(0, 700))).toBe(true);
+    });
+
+    it('replaces the partial file when the server sent the whole file', async () => {
+        writeFileSync(destination, MODEL.subarray(0, 300));
+        writeFileSync(getPartPath(destination), MODEL);
+
+        await expect(mergePartFile(nodeFs, destination, 0)).resolves.toBe(MODEL.length);
+        expect(readFileSync(destination).equals(MODEL)).toBe(true);
+    });
+
+    it('drops a part file that no longer lines up with the partial file', async () => {
+        writeFileSync(destination, MODEL.subarray(0, 500));
+        writeFileSync(getPartPath(destination), MODEL.subarray(300));
+
+        await expect(mergePartFile(nodeFs, destination, 300)).resolves.toBe(500);
+        expect(existsSync(getPartPath(destination))).toBe(false);
+    });
+
+    describe('over HTTP', () => {
+        let server: Server;
+        let baseUrl: string;
+
+        beforeAll(async () => {
+            server = createServer((request, response) => {
+                const range = /^bytes=(\d+)-$/.exec(request.headers.range ?? '');
+                if (request.url === '/ranged' && range) {
+                    const start = Number(range[1]);
+                    response.writeHead(206, { 'Content-Range': `bytes ${start}-${MODEL.length - 1}/${MODEL.length}` });
+                    response.end(MODEL.subarray(start));
+                    return;
+                }
+                response.writeHead(200);
+                response.end(MODEL);
+            });
+            await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterAll(async () => {
+            await new Promise((resolve) => server.close(resolve));
+        });
+
+        // What the service does on resume: request the rest into the part file, then merge it
+        async function resume(path: string): Promise<Buffer> {
+            writeFileSync(destination, MODEL.subarray(0, 400));
+            let offset = await mergePartFile(nodeFs, destination, 0);
+
+            const response = await fetch(`${baseUrl}${path}`, { headers: getRangeHeaders(offset) });
+            if (!isRangeResponse(Object.fromEntries(response.headers))) {
+                offset = 0;
+            }
+            writeFileSync(getPartPath(destination), Buffer.from(await response.arrayBuffer()));
+
+            await mergePartFile(nodeFs, destination, offset);
+            return readFileSync(destination);
+        }
+
+        it('completes the file from a server with range support', async () => {
+            expect((await resume('/ranged')).equals(MODEL)).toBe(true);
+        });
+
+        it('completes the file from a server that ignores the Range header', async () => {
+            expect((await resume('/whole')).equals(MODEL)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,416 @@
+/**
+ * Backup Content
+ *
+ * Platform-independent part of export/import: which data goes into a backup
+ * (by scope), password encryption, migrating files written by older versions
+ * and importing with a conflict strategy. dataExport.native/web only handle files.
+ */
+import {
+    conversationRepository,
+    llmConfigRepository,
+    messageRepository,
+    personaRepository,
+    promptTemplateRepository,
+    settingsRepository,
+    sourceCollectionRepository,
+    sourceRepository,
+} from '../core/storage';
+import { AppSettings, Conversation, LLMConfig, Message, Persona, PromptTemplate, Source, SourceCollection } from '../core/types';
+import { decryptBackup, encryptBackup, isEncryptedBackup } from './backupCrypto';
+import { logger } from './LoggerService';
+
+// 1.1: messages carry parentId (message tree), conversations carry activeLeafId
+// 1.2: source collections; conversations and personas carry collectionIds
+// 1.3: prompt templates
+// 1.4: compare conversations carry compareTargets; messages carry providerId and metrics
+// 1.5: conversations carry responseFormat; messages carry outputValidation
+// 2.0: scoped backups; API keys only included in encrypted backups
+// 2.1: personas carry Character Card fields (greetings, example dialogue, lorebook, avatar)
+// 2.2: messages carry loreEntries
+// 2.3: conversations and personas carry fallbackTargets; messages carry failedAttempts
+// 2.4: messages carry deliveryStatus/deliveryError (offline outbox)
+export const BACKUP_VERSION = '2.4';
+
+/**
+ * Parts of the app data a backup can contain
+ */
+export type BackupScope = 'conversations' | 'personas' | 'promptTemplates' | 'configs' | 'settings' | 'sources';
+
+export const BACKUP_SCOPES: BackupScope[] = ['conversations', 'personas', 'promptTemplates', 'configs', 'settings', 'sources'];
+
+/**
+ * What happens to local records that share an id with imported ones:
+ * - merge: imported records overwrite local ones, other local records stay
+ * - skip: local records are kept, only new ones are added
+ * - replace: local data in the imported scopes is deleted first
+ */
+export type ImportStrategy = 'merge' | 'skip' | 'replace';
+
+/**
+ * Export data structure
+ */
+export interface ExportData {
+    version: string;
+    exportedAt: number;
+    scopes: BackupScope[];
+    /** LLM configs and the API server settings carry their API keys (encrypted backups only) */
+    secretsIncluded: boolean;
+    llmConfigs?: LLMConfig[];
+    conversations?: Conversation[];
+    messages?: Message[];
+    settings?: AppSettings;
+    personas?: Persona[];
+    sourceCollections?: SourceCollection[];
+    promptTemplates?: PromptTemplate[];
+    /** Source metadata (not the files), used to remap source IDs of collections, conversations and messages on import */
+    sources?: Source[];
+}
+
+export interface ExportOptions {
+    scopes: BackupScope[];
+    /** Encrypt the backup; without one API keys are left out */
+    password?: string;
+}
+
+export interface ImportOptions {
+    strategy: ImportStrategy;
+    /** Required for encrypted backups */
+    password?: string;
+}
+
+/**
+ * Backup file picked for import, inspected before asking for import options
+ */
+export interface BackupFile {
+    content: string;
+    encrypted: boolean;
+    /** Unknown until an encrypted backup is decrypted */
+    scopes?: BackupScope[];
+    exportedAt?: number;
+}
+
+export interface ImportStats {
+    llmConfigs: number;
+    conversations: number;
+    messages: number;
+    personas: number;
+    sourceCollections: number;
+    promptTemplates: number;
+    /** Records left alone because they already exist (skip strategy) */
+    skipped: number;
+}
+
+/**
+ * Build the backup file content for the selected scopes
+ */
+export async function createBackup({ scopes, password }: ExportOptions): Promise<string> {
+    const has = (scope: BackupScope) => scopes.includes(scope);
+    const data: ExportData = {
+        version: BACKUP_VERSION,
+        exportedAt: Date.now(),
+        scopes,
+        secretsIncluded: !!password,
+    };
+
+    if (has('conversations')) {
+        data.conversations = await conversationRepository.findAll();
+        data.messages = [];
+        for (const conv of data.conversations) {
+            data.messages.push(...await messageRepository.findByConversationId(conv.id));
+        }
+    }
+    if (has('personas')) {
+        data.personas = await personaRepository.findAll();
+    }
+    if (has('promptTemplates')) {
+        data.promptTemplates = await promptTemplateRepository.findAll();
+    }
+    if (has('configs')) {
+        const configs = await llmConfigRepository.findAll();
+        data.llmConfigs = password ? configs : configs.map(({ apiKey: _, ...config }) => config);
+    }
+    if (has('settings')) {
+        const settings = await settingsRepository.get();
+        data.settings = password ? settings : { ...settings, apiServer: { ...settings.apiServer, apiKey: '' } };
+    }
+    if (has('sources')) {
+        data.sourceCollections = await sourceCollectionRepository.findAll();
+    }
+    if (has('sources') || has('conversations')) {
+        data.sources = await sourceRepository.findAll();
+    }
+
+    const json = JSON.stringify(data, null, 2);
+    return password ? JSON.stringify(await encryptBackup(json, password), null, 2) : json;
+}
+
+/**
+ * Check a picked file is a backup and whether it needs a password
+ */
+export function inspectBackup(content: string): BackupFile {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        throw new Error('Invalid backup file format');
+    }
+
+    if (isEncryptedBackup(parsed)) {
+        return { content, encrypted: true };
+    }
+    const data = migrateBackup(parsed);
+    return { content, encrypted: false, scopes: data.scopes, exportedAt: data.exportedAt };
+}
+
+/**
+ * Decrypt (if needed), migrate and import a backup
+ */
+export async function restoreBackup(file: BackupFile, { strategy, password }: ImportOptions): Promise<ImportStats> {
+    let parsed: unknown = JSON.parse(file.content);
+    if (isEncryptedBackup(parsed)) {
+        if (!password) throw new Error('This backup is encrypted, enter its password');
+        parsed = JSON.parse(await decryptBackup(parsed, password));
+    }
+    return importBackup(migrateBackup(parsed), strategy);
+}
+
+/**
+ * Fields every backup version has; the rest depends on the version
+ */
+interface VersionedBackup {
+    version: string;
+    exportedAt: number;
+    [key: string]: unknown;
+}
+
+function compareVersions(a: string, b: string): number {
+    const pa = a.split('.').map(Number);
+    const pb = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+        const diff = (pa[i] || 0) - (pb[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+/**
+ * Upgrades applied to backups older than their version, oldest first.
+ * Changes before 2.0 only added optional fields, read as absent by the importer
+ * (unlinked 1.0 messages are linked into a branch when their conversation loads).
+ */
+const MIGRATIONS: Array<{ version: string; migrate: (data: VersionedBackup) => VersionedBackup }> = [
+    {
+        // Older backups contained everything available at the time, API keys in plain text
+        version: '2.0',
+        migrate: (data) => ({
+            ...data,
+            scopes: BACKUP_SCOPES.filter((scope) => {
+                switch (scope) {
+                    case 'conversations': return !!data.conversations;
+                    case 'personas': return !!data.personas;
+                    case 'promptTemplates': return !!data.promptTemplates;
+                    case 'configs': return !!data.llmConfigs;
+                    case 'settings': return !!data.settings;
+                    case 'sources': return !!data.sourceCollections;
+                }
+            }),
+            secretsIncluded: true,
+        }),
+    },
+];
+
+function isVersionedBackup(value: unknown): value is VersionedBackup {
+    return !!value && typeof value === 'object'
+        && typeof (value as VersionedBackup).version === 'string'
+        && !!(value as VersionedBackup).exportedAt;
+}
+
+/**
+ * Bring a backup written by any earlier version up to BACKUP_VERSION
+ */
+export function migrateBackup(raw: unknown): ExportData {
+    if (!isVersionedBackup(raw)) {
+        throw new Error('Invalid backup file format');
+    }
+    if (Number(raw.version.split('.')[0]) > Number(BACKUP_VERSION.split('.')[0])) {
+        throw new Error(`Backup version ${raw.version} was created by a newer version of the app`);
+    }
+
+    let data = raw;
+    for (const { version, migrate } of MIGRATIONS) {
+        if (compareVersions(data.version, version) < 0) {
+            data = { ...migrate(data), version };
+        }
+    }
+    // Records are read as written; the importer skips ones its repositories reject
+    return data as unknown as ExportData;
+}
+
+interface ImportRepository<T> {
+    findById(id: string): Promise<T | null>;
+    findAll(): Promise<T[]>;
+    create(entity: T): Promise<unknown>;
+    update(entity: T): Promise<unknown>;
+    delete(id: string): Promise<void>;
+}
+
+/**
+ * Import records of one kind. Returns how many were written and how many skipped.
+ */
+async function importRecords<T extends { id: string }>(
+    kind: string,
+    records: T[],
+    repository: ImportRepository<T>,
+    strategy: ImportStrategy,
+    prepare: (record: T, existing: T | null) => T = (record) => record
+): Promise<{ imported: number; skipped: number }> {
+    let imported = 0;
+    let skipped = 0;
+
+    for (const record of records) {
+        try {
+            const existing = await repository.findById(record.id);
+            if (existing && strategy === 'skip') {
+                skipped++;
+                continue;
+            }
+            if (existing) {
+                await repository.update(prepare(record, existing));
+            } else {
+                await repository.create(prepare(record, null));
+            }
+            imported++;
+        } catch (error) {
+            logger.error('DataExport', `Failed to import ${kind}:`, record.id, error);
+        }
+    }
+    return { imported, skipped };
+}
+
+/**
+ * Delete every local record of a kind (replace strategy)
+ */
+async function clearRecords<T extends { id: string }>(kind: string, repository: ImportRepository<T>): Promise<void> {
+    for (const record of await repository.findAll()) {
+        try {
+            await repository.delete(record.id);
+        } catch (error) {
+            logger.error('DataExport', `Failed to delete ${kind}:`, record.id, error);
+        }
+    }
+}
+
+async function importBackup(data: ExportData, strategy: ImportStrategy): Promise<ImportStats> {
+    const stats: ImportStats = {
+        llmConfigs: 0,
+        conversations: 0,
+        messages: 0,
+        personas: 0,
+        sourceCollections: 0,
+        promptTemplates: 0,
+        skipped: 0,
+    };
+    const replace = strategy === 'replace';
+
+    // Source IDs differ between devices; IDs of sources missing here are dropped
+    const sourceIdMap = await mapSourceIds(data.sources);
+    const remapSourceIds = (ids: number[]) => ids
+        .map((id) => sourceIdMap.get(id))
+        .filter((id): id is number => id !== undefined);
+
+    if (data.llmConfigs) {
+        // Backups without secrets keep the API keys already on this device
+        const localKeys = new Map((await llmConfigRepository.findAll()).map((c) => [c.id, c.apiKey]));
+        if (replace) await clearRecords('config', llmConfigRepository);
+
+        const result = await importRecords('config', data.llmConfigs, llmConfigRepository, strategy, (config) => (
+            data.secretsIncluded ? config : { ...config, apiKey: localKeys.get(config.id) }
+        ));
+        stats.llmConfigs = result.imported;
+        stats.skipped += result.skipped;
+    }
+
+    if (data.conversations) {
+        if (replace) {
+            for (const conv of await conversationRepository.findAll()) {
+                await messageRepository.deleteByConversationId(conv.id);
+            }
+            await clearRecords('conversation', conversationRepository);
+        }
+
+        const conversations = await importRecords('conversation', data.conversations, conversationRepository, strategy, (conversation) => (
+            conversation.attachedSourceIds
+                ? { ...conversation, attachedSourceIds: remapSourceIds(conversation.attachedSourceIds) }
+                : conversation
+        ));
+        const messages = await importRecords('message', data.messages || [], messageRepository, strategy, (message): Message => ({
+            ...message,
+            contextIds: message.contextIds && remapSourceIds(message.contextIds),
+            // A prompt that was being sent when the backup was made goes back into the outbox
+            deliveryStatus: message.deliveryStatus === 'sending' ? 'queued' : message.deliveryStatus,
+        }));
+        stats.conversations = conversations.imported;
+        stats.messages = messages.imported;
+        stats.skipped += conversations.skipped + messages.skipped;
+    }
+
+    if (data.settings && strategy !== 'skip') {
+        try {
+            // Keep this device's API server key unless the backup carries secrets
+            const { apiServer } = await settingsRepository.get();
+            await settingsRepository.update(data.secretsIncluded ? data.settings : {
+                ...data.settings,
+                apiServer: { ...apiServer, ...data.settings.apiServer, apiKey: apiServer.apiKey },
+            });
+        } catch (error) {
+            logger.error('DataExport', 'Failed to import settings:', error);
+        }
+    }
+
+    if (data.personas) {
+        if (replace) await clearRecords('persona', personaRepository);
+        const result = await importRecords('persona', data.personas, personaRepository, strategy);
+        stats.personas = result.imported;
+        stats.skipped += result.skipped;
+    }
+
+    if (data.sourceCollections) {
+        if (replace) await clearRecords('collection', sourceCollectionRepository);
+
+        const result = await importRecords('collection', data.sourceCollections, sourceCollectionRepository, strategy, (collection) => ({
+            ...collection,
+            sourceIds: remapSourceIds(collection.sourceIds),
+        }));
+        stats.sourceCollections = result.imported;
+        stats.skipped += result.skipped;
+    }
+
+    if (data.promptTemplates) {
+        if (replace) await clearRecords('prompt template', promptTemplateRepository);
+        const result = await importRecords('prompt template', data.promptTemplates, promptTemplateRepository, strategy);
+        stats.promptTemplates = result.imported;
+        stats.skipped += result.skipped;
+    }
+
+    return stats;
+}
+
+/**
+ * Map exported source IDs to local ones by name and size.
+ * Document files are not part of the backup, so sources not present locally have no mapping.
+ */
+async function mapSourceIds(exportedSources: Source[] = []): Promise<Map<number, number>> {
+    const localSources = await sourceRepository.findAll();
+    const map = new Map<number, number>();
+    for (const exported of exportedSources) {
+        const local = localSources.find((s) => s.name === exported.name && s.fileSize === exported.fileSize);
+        if (local) map.set(exported.id, local.id);
+    }
+    return map;
+}
+
+export function getBackupFileName(encrypted: boolean): string {
+    const now = new Date();
+    const date = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+    return `modelflux-backup-${date}${encrypted ? '-encrypted' : ''}.json`;
+}
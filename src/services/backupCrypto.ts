@@ -0,0 +1,85 @@
+/**
+ * Backup Encryption
+ *
+ * Password-protected backups: PBKDF2-SHA256 derives an AES-256-GCM key, so a
+ * wrong password or a modified file fails authentication instead of importing
+ * garbage. Implemented in JavaScript so native and web read each other's files.
+ */
+import { gcm } from '@noble/ciphers/aes.js';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils.js';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { getRandomBytes } from 'expo-crypto';
+import { base64ToBytes, bytesToBase64 } from '../core/encoding';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'modelflux-encrypted-backup';
+
+/**
+ * Encrypted backup file. Key derivation parameters travel with the file so
+ * they can be raised later without breaking older backups.
+ */
+export interface EncryptedBackup {
+    format: typeof ENCRYPTED_BACKUP_FORMAT;
+    kdf: {
+        name: 'PBKDF2-SHA256';
+        iterations: number;
+        salt: string;        // base64
+    };
+    cipher: {
+        name: 'AES-256-GCM';
+        nonce: string;       // base64
+    };
+    ciphertext: string;      // base64, includes the GCM tag
+}
+
+// Derivation runs in JavaScript on the device; kept where it finishes in seconds on Hermes
+const KDF_ITERATIONS = 100_000;
+// Iteration counts accepted from a file: never weaker than ours, never so slow the import hangs
+const MAX_KDF_ITERATIONS = 1_000_000;
+const SALT_BYTES = 16;
+const NONCE_BYTES = 12;
+const KEY_BYTES = 32;
+
+function deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    // asyncTick yields to the UI thread during the (slow, pure JS) derivation
+    return pbkdf2Async(sha256, password, salt, { c: iterations, dkLen: KEY_BYTES, asyncTick: 20 });
+}
+
+export function isEncryptedBackup(value: unknown): value is EncryptedBackup {
+    return !!value && typeof value === 'object' && (value as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+export async function encryptBackup(plaintext: string, password: string): Promise<EncryptedBackup> {
+    const salt = getRandomBytes(SALT_BYTES);
+    const nonce = getRandomBytes(NONCE_BYTES);
+    const key = await deriveKey(password, salt, KDF_ITERATIONS);
+    const ciphertext = gcm(key, nonce).encrypt(utf8ToBytes(plaintext));
+
+    return {
+        format: ENCRYPTED_BACKUP_FORMAT,
+        kdf: { name: 'PBKDF2-SHA256', iterations: KDF_ITERATIONS, salt: bytesToBase64(salt) },
+        cipher: { name: 'AES-256-GCM', nonce: bytesToBase64(nonce) },
+        ciphertext: bytesToBase64(ciphertext),
+    };
+}
+
+/**
+ * Decrypt a backup. Throws when the password is wrong or the file was modified.
+ */
+export async function decryptBackup(backup: EncryptedBackup, password: string): Promise<string> {
+    if (backup.kdf?.name !== 'PBKDF2-SHA256' || backup.cipher?.name !== 'AES-256-GCM') {
+        throw new Error('Unsupported backup encryption');
+    }
+    const { iterations } = backup.kdf;
+    if (!Number.isInteger(iterations) || iterations < KDF_ITERATIONS || iterations > MAX_KDF_ITERATIONS) {
+        throw new Error('Invalid backup encryption parameters');
+    }
+
+    const key = await deriveKey(password, base64ToBytes(backup.kdf.salt), iterations);
+    try {
+        const plaintext = gcm(key, base64ToBytes(backup.cipher.nonce)).decrypt(base64ToBytes(backup.ciphertext));
+        return bytesToUtf8(plaintext);
+    } catch {
+        throw new Error('Wrong password or damaged backup');
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Character Card Files - Native Implementation
+ * Uses expo-document-picker, expo-file-system and expo-sharing
+ */
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import {
+    CharacterCardFormat,
+    getCharacterCardFileName,
+    PersonaDraft,
+    readCharacterCardFile,
+    writeCharacterCardJson,
+    writeCharacterCardPng,
+} from '../core/personas';
+import { Persona } from '../core/types';
+import { logger } from './LoggerService';
+
+class CharacterCardFileService {
+    /**
+     * Pick a card (PNG or JSON); null when cancelled. Throws for files that aren't cards.
+     */
+    async pickCard(): Promise<PersonaDraft | null> {
+        const result = await DocumentPicker.getDocumentAsync({
+            type: ['image/png', 'application/json'],
+            copyToCacheDirectory: true,
+        });
+
+        if (result.canceled || !result.assets?.[0]) {
+            return null;
+        }
+
+        return readCharacterCardFile(await new File(result.assets[0].uri).bytes());
+    }
+
+    async exportCard(persona: Persona, format: CharacterCardFormat): Promise<void> {
+        const file = new File(Paths.cache, getCharacterCardFileName(persona, format));
+        if (file.exists) {
+            file.delete();
+        }
+        file.create();
+        file.write(format === 'png'
+            ? writeCharacterCardPng(persona)
+            : writeCharacterCardJson(persona, format === 'json-v2' ? 'chara_card_v2' : 'chara_card_v3'));
+
+        logger.log('CharacterCard', 'File written to:', file.uri);
+
+        await Sharing.shareAsync(file.uri, format === 'png'
+            ? { mimeType: 'image/png', dialogTitle: 'Export Character Card', UTI: 'public.png' }
+            : { mimeType: 'application/json', dialogTitle: 'Export Character Card', UTI: 'public.json' });
+    }
+}
+
+export const characterCardFileService = new CharacterCardFileService();
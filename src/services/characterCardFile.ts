@@ -0,0 +1,5 @@
+/**
+ * Character Card Files - Fallback
+ * Re-exports native implementation
+ */
+export * from './characterCardFile.native';
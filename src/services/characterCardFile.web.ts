@@ -0,0 +1,69 @@
+/**
+ * Character Card Files - Web Implementation
+ * Uses blob download for export and file input for import
+ */
+import {
+    CharacterCardFormat,
+    getCharacterCardFileName,
+    PersonaDraft,
+    readCharacterCardFile,
+    writeCharacterCardJson,
+    writeCharacterCardPng,
+} from '../core/personas';
+import { Persona } from '../core/types';
+
+class CharacterCardFileService {
+    /**
+     * Pick a card (PNG or JSON). Throws for files that aren't cards.
+     */
+    async pickCard(): Promise<PersonaDraft | null> {
+        return readCharacterCardFile(await this.pickFileWeb());
+    }
+
+    async exportCard(persona: Persona, format: CharacterCardFormat): Promise<void> {
+        const blob = format === 'png'
+            ? new Blob([writeCharacterCardPng(persona) as Uint8Array<ArrayBuffer>], { type: 'image/png' })
+            : new Blob(
+                [writeCharacterCardJson(persona, format === 'json-v2' ? 'chara_card_v2' : 'chara_card_v3')],
+                { type: 'application/json' }
+            );
+
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = getCharacterCardFileName(persona, format);
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    }
+
+    private pickFileWeb(): Promise<Uint8Array> {
+        return new Promise((resolve, reject) => {
+            const input = document.createElement('input');
+            input.type = 'file';
+            input.accept = 'image/png,application/json,.json,.png';
+
+            input.onchange = async (e) => {
+                const file = (e.target as HTMLInputElement).files?.[0];
+                if (!file) {
+                    reject(new Error('No file selected'));
+                    return;
+                }
+
+                const reader = new FileReader();
+                reader.onload = () => {
+                    resolve(new Uint8Array(reader.result as ArrayBuffer));
+                };
+                reader.onerror = () => {
+                    reject(new Error('Failed to read file'));
+                };
+                reader.readAsArrayBuffer(file);
+            };
+
+            input.click();
+        });
+    }
+}
+
+export const characterCardFileService = new CharacterCardFileService();
@@ -0,0 +1,57 @@
+/**
+ * Connectivity Service
+ *
+ * Tracks whether the device is online (expo-network), so messages for remote
+ * providers can wait in the outbox instead of failing. States the platform
+ * can't determine (isInternetReachable unknown) count as online.
+ */
+import * as Network from 'expo-network';
+import { logger } from './LoggerService';
+
+type ConnectivityListener = (isOnline: boolean) => void;
+
+function isOnlineState(state: Network.NetworkState): boolean {
+    return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+class ConnectivityService {
+    private online = true;
+    private listeners = new Set<ConnectivityListener>();
+    private subscription: { remove: () => void } | null = null;
+
+    get isOnline(): boolean {
+        return this.online;
+    }
+
+    /**
+     * Read the current state and start watching for changes
+     */
+    async start(): Promise<boolean> {
+        if (this.subscription) return this.online;
+
+        this.subscription = Network.addNetworkStateListener((state) => this.update(isOnlineState(state)));
+        try {
+            this.update(isOnlineState(await Network.getNetworkStateAsync()));
+        } catch (error) {
+            logger.warn('Connectivity', 'Could not read the network state:', error);
+        }
+        return this.online;
+    }
+
+    /**
+     * Listen for the device going online or offline. Returns an unsubscribe function.
+     */
+    subscribe(listener: ConnectivityListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private update(isOnline: boolean): void {
+        if (isOnline === this.online) return;
+        this.online = isOnline;
+        logger.log('Connectivity', isOnline ? 'Online' : 'Offline');
+        this.listeners.forEach((listener) => listener(isOnline));
+    }
+}
+
+export const connectivityService = new ConnectivityService();
@@ -0,0 +1,104 @@
+/**
+ * Download Resume
+ * Continues model downloads that stopped on a network error. The background
+ * downloader can't restart a failed task where it left off, so the rest of the
+ * file is fetched into a part file with a Range request and appended to the
+ * partial file once it arrives.
+ */
+
+/**
+ * File operations used to merge part files (the subset of react-native-fs it needs)
+ */
+export interface PartFileSystem {
+    exists(path: string): Promise<boolean>;
+    stat(path: string): Promise<{ size: number }>;
+    read(path: string, length: number, position: number, encoding: 'base64'): Promise<string>;
+    appendFile(path: string, contents: string, encoding: 'base64'): Promise<void>;
+    moveFile(from: string, to: string): Promise<void>;
+    unlink(path: string): Promise<void>;
+}
+
+// Bytes copied per step when appending a part file; the file API only moves base64 strings
+const APPEND_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// NSURLSession connection failures: timed out, host unreachable, connection lost, offline, data not allowed
+const IOS_NETWORK_ERROR_CODES = new Set([-1001, -1003, -1004, -1005, -1009, -1018, -1020]);
+
+// Android I/O failures (-1) and DownloadManager's ERROR_UNKNOWN and ERROR_HTTP_DATA_ERROR
+const ANDROID_NETWORK_ERROR_CODES = new Set([-1, 1000, 1004]);
+
+/**
+ * Whether a download error is transient, so the partial file is worth keeping:
+ * connection failures and HTTP 408, 429 and 5xx responses
+ */
+export function isResumableDownloadError(errorCode: number): boolean {
+    return IOS_NETWORK_ERROR_CODES.has(errorCode)
+        || ANDROID_NETWORK_ERROR_CODES.has(errorCode)
+        || errorCode === 408
+        || errorCode === 429
+        || (errorCode >= 500 && errorCode < 600);
+}
+
+/**
+ * Path of the part file that continues a partial download
+ */
+export function getPartPath(destination: string): string {
+    return `${destination}.part`;
+}
+
+/**
+ * Request headers asking for the bytes after the ones already on disk
+ */
+export function getRangeHeaders(offset: number): Record<string, string> {
+    return { Range: `bytes=${offset}-` };
+}
+
+/**
+ * Whether the server answered a Range request with only the requested bytes;
+ * servers without range support send the whole file instead
+ */
+export function isRangeResponse(headers: Record<string, string | null>): boolean {
+    return Object.entries(headers).some(([name, value]) => name.toLowerCase() === 'content-range' && !!value);
+}
+
+async function getFileSize(fs: PartFileSystem, path: string): Promise<number> {
+    return (await fs.exists(path)) ? Number((await fs.stat(path)).size) : 0;
+}
+
+/**
+ * Append the part file of a resumed download to the partial file and delete it.
+ * offset is the size the partial file had when the part was requested; 0 means
+ * the part holds the file from its start and replaces the partial file.
+ * @returns Size of the partial file afterwards, where the next Range request starts
+ */
+export async function mergePartFile(
+    fs: PartFileSystem,
+    destination: string,
+    offset: number,
+    chunkSize: number = APPEND_CHUNK_SIZE
+): Promise<number> {
+    const partPath = getPartPath(destination);
+    if (!(await fs.exists(partPath))) {
+        return getFileSize(fs, destination);
+    }
+
+    if (offset === 0) {
+        if (await fs.exists(destination)) {
+            await fs.unlink(destination);
+        }
+        await fs.moveFile(partPath, destination);
+    } else if (await getFileSize(fs, destination) === offset) {
+        const partSize = await getFileSize(fs, partPath);
+        for (let position = 0; position < partSize; position += chunkSize) {
+            const chunk = await fs.read(partPath, Math.min(chunkSize, partSize - position), position, 'base64');
+            await fs.appendFile(destination, chunk, 'base64');
+        }
+        await fs.unlink(partPath);
+    } else {
+        // The partial file changed since the part was requested (e.g. an interrupted merge),
+        // so the part no longer lines up with its end
+        await fs.unlink(partPath);
+    }
+
+    return getFileSize(fs, destination);
+}
@@ -0,0 +1,182 @@
+/**
+ * HTTP Server - Native Implementation
+ *
+ * Listens on a TCP port (all interfaces) with react-native-tcp-socket and hands
+ * each parsed request to a handler. One request per connection: the connection
+ * closes when the response ends. Used by the local API server.
+ */
+import * as Network from 'expo-network';
+import { strToU8 } from 'fflate';
+import TcpSocket from 'react-native-tcp-socket';
+import { errorBody, formatJsonResponse, HttpError, HttpRequest, parseHttpRequest } from '../core/server';
+import { logger } from './LoggerService';
+
+type TcpServer = ReturnType<typeof TcpSocket.createServer>;
+type TcpConnection = InstanceType<typeof TcpSocket.Socket>;
+
+/** Time a client has to send a complete request */
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Response side of a connection
+ */
+export interface HttpResponseWriter {
+    /** Send a complete response and close the connection */
+    send(bytes: Uint8Array): void;
+    /** Write part of a streamed response */
+    write(bytes: Uint8Array): void;
+    /** Finish a streamed response and close the connection */
+    end(): void;
+    /** Whether anything has been written yet */
+    readonly isStarted: boolean;
+    /** Whether the client is still connected */
+    readonly isOpen: boolean;
+    /** Called when the client disconnects before the response ends */
+    onClose(listener: () => void): void;
+}
+
+export type HttpRequestHandler = (
+    request: HttpRequest,
+    response: HttpResponseWriter,
+    remoteAddress: string
+) => Promise<void>;
+
+function createResponseWriter(socket: TcpConnection): HttpResponseWriter {
+    let isStarted = false;
+    let isOpen = true;
+    const listeners: Array<() => void> = [];
+
+    socket.on('close', () => {
+        if (!isOpen) return;
+        isOpen = false;
+        listeners.forEach((listener) => listener());
+    });
+
+    const write = (bytes: Uint8Array) => {
+        if (!isOpen) return;
+        isStarted = true;
+        socket.write(bytes);
+    };
+    const end = () => {
+        if (!isOpen) return;
+        isOpen = false;
+        socket.end();
+    };
+
+    return {
+        send: (bytes) => {
+            write(bytes);
+            end();
+        },
+        write,
+        end,
+        get isStarted() {
+            return isStarted;
+        },
+        get isOpen() {
+            return isOpen;
+        },
+        onClose: (listener) => {
+            listeners.push(listener);
+        },
+    };
+}
+
+class HttpServerService {
+    readonly isSupported = true;
+
+    private server: TcpServer | null = null;
+
+    get isRunning(): boolean {
+        return this.server !== null;
+    }
+
+    /**
+     * Start listening. Resolves once the port is open; rejects if it can't be bound.
+     */
+    start(port: number, handler: HttpRequestHandler): Promise<void> {
+        if (this.server) return Promise.resolve();
+
+        const server = TcpSocket.createServer((socket) => this.accept(socket, handler));
+        return new Promise((resolve, reject) => {
+            server.once('error', (error) => {
+                logger.error('HttpServer', 'Could not start server:', error);
+                server.close();
+                reject(error);
+            });
+            server.listen({ port, host: '0.0.0.0', reuseAddress: true }, () => {
+                logger.log('HttpServer', `Listening on port ${port}`);
+                this.server = server;
+                server.on('error', (error) => logger.error('HttpServer', 'Server error:', error));
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stop accepting connections. Connections already open finish on their own.
+     */
+    stop(): void {
+        if (!this.server) return;
+        this.server.close();
+        this.server = null;
+        logger.log('HttpServer', 'Stopped');
+    }
+
+    /**
+     * IPv4 address of the device on the local network, null when offline
+     */
+    async getLanAddress(): Promise<string | null> {
+        try {
+            const address = await Network.getIpAddressAsync();
+            return address && address !== '0.0.0.0' ? address : null;
+        } catch (error) {
+            logger.warn('HttpServer', 'Could not get the IP address:', error);
+            return null;
+        }
+    }
+
+    private accept(socket: TcpConnection, handler: HttpRequestHandler): void {
+        const remoteAddress = socket.remoteAddress ?? '';
+        const response = createResponseWriter(socket);
+        let received = new Uint8Array(0);
+        let isHandled = false;
+
+        socket.setTimeout(REQUEST_TIMEOUT_MS, () => {
+            if (!isHandled) socket.destroy();
+        });
+        socket.on('error', (error) => logger.warn('HttpServer', `Connection error (${remoteAddress}):`, error));
+
+        socket.on('data', (data) => {
+            if (isHandled) return;
+
+            const chunk = typeof data === 'string' ? strToU8(data) : new Uint8Array(data);
+            const merged = new Uint8Array(received.length + chunk.length);
+            merged.set(received);
+            merged.set(chunk, received.length);
+            received = merged;
+
+            let request: HttpRequest | null;
+            try {
+                request = parseHttpRequest(received);
+            } catch (error) {
+                isHandled = true;
+                const status = error instanceof HttpError ? error.status : 400;
+                response.send(formatJsonResponse(status, errorBody(status, (error as Error).message)));
+                return;
+            }
+            if (!request) return;
+
+            // Generation can take longer than the request timeout
+            isHandled = true;
+            socket.setTimeout(0);
+            handler(request, response, remoteAddress).catch((error) => {
+                logger.error('HttpServer', 'Unhandled request error:', error);
+                if (!response.isStarted) response.send(formatJsonResponse(500, errorBody(500, 'Internal server error')));
+                else response.end();
+            });
+        });
+    }
+}
+
+export const httpServerService = new HttpServerService();
@@ -0,0 +1,5 @@
+/**
+ * HTTP Server - Fallback
+ * Re-exports native implementation
+ */
+export * from './httpServer.native';
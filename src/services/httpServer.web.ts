@@ -0,0 +1,43 @@
+/**
+ * HTTP Server - Web Stub
+ *
+ * Browsers can't listen on a port, so the local API server is native only.
+ */
+import { HttpRequest } from '../core/server';
+
+export interface HttpResponseWriter {
+    send(bytes: Uint8Array): void;
+    write(bytes: Uint8Array): void;
+    end(): void;
+    readonly isStarted: boolean;
+    readonly isOpen: boolean;
+    onClose(listener: () => void): void;
+}
+
+export type HttpRequestHandler = (
+    request: HttpRequest,
+    response: HttpResponseWriter,
+    remoteAddress: string
+) => Promise<void>;
+
+class HttpServerService {
+    readonly isSupported = false;
+
+    get isRunning(): boolean {
+        return false;
+    }
+
+    async start(_port: number, _handler: HttpRequestHandler): Promise<void> {
+        throw new Error('The API server is not available on web');
+    }
+
+    stop(): void {
+        // Nothing to stop
+    }
+
+    async getLanAddress(): Promise<string | null> {
+        return null;
+    }
+}
+
+export const httpServerService = new HttpServerService();
@@ -1,4 +1,8 @@
+export * from './backup';
+export * from './characterCardFile';
+export * from './connectivity';
 export * from './dataExport';
+export * from './httpServer';
 export * from './LocaleService';
 export * from './LoggerService';
 export * from './ModelDownloadService';
@@ -0,0 +1,158 @@
+import { estimateMessageTokens } from '../../core/llm/contextWindow';
+import { Conversation, Message, Persona } from '../../core/types';
+import { prepareChatMessages } from '../messageHelpers';
+
+// Only RAG context generation reads sources; the database can't open outside the app
+jest.mock('../../core/storage', () => ({ sourceRepository: {} }));
+
+const conversation: Conversation = {
+    id: 'conversation',
+    title: 'Tides',
+    type: 'chat',
+    createdAt: 0,
+    updatedAt: 0,
+    providerId: 'provider',
+    modelId: 'model',
+    providerType: 'llama-cpp',
+};
+
+function message(id: string, index: number, content: string, context?: string): Message {
+    return {
+        id,
+        conversationId: 'conversation',
+        role: index % 2 ? 'assistant' : 'user',
+        content,
+        contentType: 'text',
+        timestamp: index,
+        modelId: 'model',
+        context,
+    };
+}
+
+// 20 alternating turns of 100 characters: 29 tokens each with the message overhead
+const longChat = Array.from({ length: 20 }, (_, i) => message(`m${i}`, i, `${i}`.padEnd(100, '.')));
+
+describe('prepareChatMessages', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('sends everything, context included, without a budget', () => {
+        const messages = [message('u', 0, 'What is a tide?', 'Tides are caused by the moon.')];
+        const prepared = prepareChatMessages({ ...conversation, personaPrompt: 'Be brief.' }, messages);
+
+        expect(prepared.messages).toEqual([
+            { role: 'system', content: 'Be brief.' },
+            { role: 'user', content: '<context>\nTides are caused by the moon.\n</context>\nWhat is a tide?' },
+        ]);
+        expect(prepared.excludedMessageIds).toEqual([]);
+        expect(prepared.strippedContextMessageIds).toEqual([]);
+    });
+
+    it('strips stale context from earlier user messages before dropping turns', () => {
+        const context = 'c'.repeat(400);
+        const messages = [
+            message('u0', 0, 'first question', context),
+            message('a1', 1, 'answer'),
+            message('u2', 2, 'second question', context),
+        ];
+
+        // 233 tokens in full; 128 once the first context is gone
+        const prepared = prepareChatMessages(conversation, messages, 150);
+
+        expect(prepared.strippedContextMessageIds).toEqual(['u0']);
+        expect(prepared.excludedMessageIds).toEqual([]);
+        expect(prepared.messages.map((m) => m.content)).toEqual([
+            'first question',
+            'answer',
+            `<context>\n${context}\n</context>\nsecond question`,
+        ]);
+        expect(prepared.estimatedTokens).toBe(128);
+    });
+
+    it('drops the oldest turns and summarizes them in the system prompt', () => {
+        // 580 tokens; with 60 kept for the summary, history must shrink to 340
+        const prepared = prepareChatMessages({ ...conversation, personaPrompt: 'Be brief.' }, longChat, 400);
+
+        // Nine turns would fit, but history then resumes on an assistant reply, so m9 goes too
+        expect(prepared.excludedMessageIds).toEqual(longChat.slice(0, 10).map((m) => m.id));
+        expect(prepared.messages.slice(1)).toHaveLength(10);
+        expect(prepared.messages[1]).toMatchObject({ role: 'user', content: longChat[10]!.content });
+        expect(prepared.estimatedTokens).toBeLessThanOrEqual(400);
+
+        // Only the most recent dropped turn fits the summary budget
+        const [system] = prepared.messages;
+        expect(system).toEqual({
+            role: 'system',
+            content: [
+                'Be brief.',
+                'Summary of earlier conversation (older messages were omitted to fit the context window):\n'
+                + `- Assistant: ${longChat[9]!.content}`,
+            ].join('\n\n'),
+        });
+    });
+
+    it.each([
+        ['joins the system prompt', 'Be brief.'],
+        ['becomes the system prompt', undefined],
+    ])('counts the summary when it %s', (_, personaPrompt) => {
+        const prepared = prepareChatMessages({ ...conversation, personaPrompt }, longChat, 400);
+        const sent = prepared.messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+        expect(prepared.estimatedTokens).toBe(sent);
+    });
+
+    it('does not report stripped context for messages that were dropped', () => {
+        const messages = [
+            message('u0', 0, 'first question', 'c'.repeat(40)),
+            message('a1', 1, 'answer'),
+            message('u2', 2, 'q'.repeat(400)),
+        ];
+
+        const prepared = prepareChatMessages(conversation, messages, 100);
+
+        expect(prepared.excludedMessageIds).toEqual(['u0', 'a1']);
+        expect(prepared.strippedContextMessageIds).toEqual([]);
+    });
+
+    it('places lorebook entries around the persona prompt by position', () => {
+        const persona = {
+            name: 'Marina',
+            character_book: {
+                extensions: {},
+                entries: [
+                    { keys: ['reef'], content: 'The reef is {{char}}\'s home.', extensions: {}, enabled: true, insertion_order: 0, position: 'after_char' },
+                    { keys: ['tide'], content: 'Tides turn twice a day.', extensions: {}, enabled: true, insertion_order: 1 },
+                ],
+            },
+        } as Persona;
+
+        const prepared = prepareChatMessages(
+            { ...conversation, personaPrompt: 'You are Marina.' },
+            [message('u', 0, 'Is the tide low at the reef?')],
+            undefined,
+            persona
+        );
+
+        expect(prepared.messages[0]!.content).toBe(
+            'Tides turn twice a day.\n\nYou are Marina.\n\nThe reef is Marina\'s home.'
+        );
+        expect(prepared.loreEntries.map((e) => e.name)).toEqual(['reef', 'tide']);
+    });
+
+    it('keeps the latest message even when it alone is over budget', () => {
+        const messages = [message('u0', 0, 'q'.repeat(400), 'c'.repeat(400))];
+
+        const prepared = prepareChatMessages(conversation, messages, 10);
+
+        expect(prepared.messages).toEqual([
+            { role: 'user', content: `<context>\n${'c'.repeat(400)}\n</context>\n${'q'.repeat(400)}` },
+        ]);
+        expect(prepared.excludedMessageIds).toEqual([]);
+        expect(prepared.strippedContextMessageIds).toEqual([]);
+    });
+});
@@ -0,0 +1,39 @@
+import { Message } from '../../core/types';
+import { getActiveBranch, linkLegacyMessages } from '../messageTree';
+
+function message(id: string, timestamp: number, parentId?: string): Message {
+    return {
+        id,
+        conversationId: 'conversation',
+        role: timestamp % 2 ? 'user' : 'assistant',
+        content: id,
+        contentType: 'text',
+        timestamp,
+        modelId: 'model',
+        parentId,
+    };
+}
+
+const parents = (messages: Message[]) => messages.map((m) => [m.id, m.parentId]);
+
+describe('linkLegacyMessages', () => {
+    it('links messages saved before branching into one thread by time', () => {
+        const linked = linkLegacyMessages([message('b', 2), message('a', 1), message('c', 3)]);
+
+        expect(parents(linked)).toEqual([['a', undefined], ['b', 'a'], ['c', 'b']]);
+    });
+
+    it('changes nothing when linking twice', () => {
+        const once = linkLegacyMessages([message('a', 1), message('b', 2), message('c', 3)]);
+        expect(linkLegacyMessages(once)).toEqual(once);
+    });
+
+    it('leaves conversations that already branch as they are', () => {
+        // The first message was edited: both versions are roots, each with its own answer
+        const tree = [message('a', 1), message('a2', 3), message('b', 2, 'a'), message('b2', 4, 'a2')];
+        const linked = linkLegacyMessages(tree);
+
+        expect(parents(linked)).toEqual([['a', undefined], ['b', 'a'], ['a2', undefined], ['b2', 'a2']]);
+        expect(getActiveBranch(linked).map((m) => m.id)).toEqual(['a2', 'b2']);
+    });
+});
@@ -0,0 +1,384 @@
+/**
+ * API Server Routes
+ *
+ * OpenAI-compatible endpoints served by the local API server:
+ * - GET  /v1/models            loaded local models and the RAG embedding model
+ * - POST /v1/chat/completions  chat with the loaded model (SSE when stream is set)
+ * - POST /v1/completions       single-prompt completion (SSE when stream is set)
+ * - POST /v1/embeddings        vectors from the active RAG embedding model
+ *
+ * Only one generation runs at a time; others get 429. The in-app chat has
+ * priority: starting a local chat answer stops the server's generation.
+ */
+
+import { llmClientFactory, LLMStreamChunk } from '../core/llm';
+import {
+    chatCompletion,
+    chatCompletionChunk,
+    createCompletionId,
+    embeddingList,
+    formatJsonResponse,
+    formatSseEvent,
+    formatSseHead,
+    getCompletionPrompt,
+    getEmbeddingInputs,
+    getFinishReason,
+    HttpError,
+    HttpRequest,
+    modelList,
+    OpenAIChatCompletionRequest,
+    OpenAICompletionRequest,
+    OpenAIEmbeddingRequest,
+    OpenAIModel,
+    readJsonBody,
+    textCompletion,
+    textCompletionChunk,
+    toChatMessages,
+    toGenerationSettings,
+    toOpenAIUsage,
+    toResponseFormat,
+    toToolSpecs,
+} from '../core/server';
+import { LLMConfig, LLMProvider } from '../core/types';
+import type { HttpResponseWriter } from '../services/httpServer';
+import { useExecutorchLLMStore } from './executorchLLMStore';
+import { useLlamaCppLLMStore } from './llamaCppLLMStore';
+import { useLLMStore } from './llmStore';
+import { useRAGRuntimeStore } from './ragRuntimeStore';
+import { isLocalModelBusy } from './titleGenerator';
+
+/**
+ * Details a route reports for the request log
+ */
+export interface ApiRouteDetails {
+    model?: string;
+    stream?: boolean;
+    promptTokens?: number;
+    completionTokens?: number;
+}
+
+interface LoadedModel {
+    id: string;
+    provider: LLMProvider;
+    llmConfig: LLMConfig;
+}
+
+interface GenerationCallbacks {
+    onToken: (content: string) => void;
+    onThinking: (content: string) => void;
+}
+
+type LLMClient = ReturnType<typeof llmClientFactory.getClient>;
+
+interface GenerationResult {
+    content: string;
+    thinking: string;
+    finalChunk?: LLMStreamChunk;
+}
+
+// Generation in progress (one at a time)
+let activeGeneration: { client: LLMClient; done: Promise<void> } | null = null;
+
+/**
+ * Models loaded in the local providers that have a provider config
+ */
+function getLoadedModels(): LoadedModel[] {
+    const { configs } = useLLMStore.getState();
+    const llamaCpp = useLlamaCppLLMStore.getState();
+    const executorch = useExecutorchLLMStore.getState();
+    const loaded: Array<{ id: string | null; provider: LLMProvider; isReady: boolean }> = [
+        { id: llamaCpp.selectedModelId, provider: 'llama-cpp', isReady: llamaCpp.isReady },
+        { id: executorch.selectedModelId, provider: 'executorch', isReady: executorch.isReady },
+    ];
+
+    return loaded.flatMap(({ id, provider, isReady }) => {
+        const llmConfig = configs.find((c) => c.provider === provider);
+        return isReady && id && llmConfig ? [{ id, provider, llmConfig }] : [];
+    });
+}
+
+/**
+ * Model a request asked for; the first loaded model when it didn't name one
+ */
+function resolveModel(requested: string | undefined): LoadedModel {
+    const models = getLoadedModels();
+    if (models.length === 0) {
+        throw new HttpError(503, 'No local model is loaded. Load a model in ModelFlux first.', 'model_not_loaded');
+    }
+    if (!requested) return models[0];
+
+    const model = models.find((m) => m.id === requested);
+    if (!model) {
+        throw new HttpError(404, `The model "${requested}" is not loaded`, 'model_not_found');
+    }
+    return model;
+}
+
+function getEmbeddingModelId(): string | null {
+    return useRAGRuntimeStore.getState().currentConfig?.modelId ?? null;
+}
+
+/**
+ * Run a generation on a loaded model, holding the generation slot until it ends.
+ * The stream is started on the model's client with callbacks that receive the accumulated content and thinking;
+ * onStart runs once the slot is taken (before any token).
+ */
+async function runGeneration(
+    model: LoadedModel,
+    response: HttpResponseWriter,
+    startStream: (client: LLMClient, callbacks: GenerationCallbacks) => AsyncGenerator<LLMStreamChunk, void, unknown>,
+    onStart?: () => void
+): Promise<GenerationResult> {
+    if (activeGeneration || isLocalModelBusy(model.provider)) {
+        throw new HttpError(429, 'Another generation is in progress. Try again when it has finished.', 'generation_in_progress');
+    }
+
+    const client = llmClientFactory.getClient(model.llmConfig);
+    let finish!: () => void;
+    activeGeneration = { client, done: new Promise((resolve) => { finish = resolve; }) };
+
+    // The client went away: stop generating for nobody
+    response.onClose(() => {
+        if (activeGeneration?.client === client) client.interrupt();
+    });
+
+    const result: GenerationResult = { content: '', thinking: '' };
+    try {
+        onStart?.();
+        const stream = startStream(client, {
+            onToken: (content) => { result.content = content; },
+            onThinking: (thinking) => { result.thinking = thinking; },
+        });
+        for await (const chunk of stream) {
+            if (chunk.done) result.finalChunk = chunk;
+        }
+        return result;
+    } finally {
+        activeGeneration = null;
+        finish();
+    }
+}
+
+/**
+ * Callbacks that forward what was added to the accumulated content and thinking
+ */
+function deltaCallbacks(
+    callbacks: GenerationCallbacks,
+    onDelta: (delta: { content?: string; thinking?: string }) => void
+): GenerationCallbacks {
+    let content = '';
+    let thinking = '';
+    return {
+        onToken: (text) => {
+            callbacks.onToken(text);
+            const delta = text.slice(content.length);
+            content = text;
+            if (delta) onDelta({ content: delta });
+        },
+        onThinking: (text) => {
+            callbacks.onThinking(text);
+            const delta = text.slice(thinking.length);
+            thinking = text;
+            if (delta) onDelta({ thinking: delta });
+        },
+    };
+}
+
+function listModels(response: HttpResponseWriter): void {
+    const created = Math.floor(Date.now() / 1000);
+    const models: OpenAIModel[] = getLoadedModels().map((model) => ({
+        id: model.id,
+        object: 'model',
+        created,
+        owned_by: model.provider,
+    }));
+
+    const embeddingModelId = getEmbeddingModelId();
+    const embeddingProvider = useRAGRuntimeStore.getState().currentConfig?.provider;
+    if (embeddingModelId && embeddingProvider) {
+        models.push({ id: embeddingModelId, object: 'model', created, owned_by: embeddingProvider });
+    }
+
+    response.send(formatJsonResponse(200, modelList(models)));
+}
+
+async function chatCompletions(
+    request: HttpRequest,
+    response: HttpResponseWriter,
+    report: (details: ApiRouteDetails) => void
+): Promise<void> {
+    const body = readJsonBody<OpenAIChatCompletionRequest>(request);
+    const messages = toChatMessages(body.messages);
+    const settings = toGenerationSettings(body);
+    const tools = toToolSpecs(body.tools);
+    const responseFormat = toResponseFormat(body.response_format);
+    const model = resolveModel(body.model);
+    report({ model: model.id, stream: !!body.stream });
+
+    const base = { id: createCompletionId('chatcmpl'), model: model.id, created: Math.floor(Date.now() / 1000) };
+    const sendEvent = (data: unknown) => response.write(formatSseEvent(data));
+
+    const result = await runGeneration(
+        model,
+        response,
+        (client, callbacks) => client.sendMessageStream({
+            llmConfig: model.llmConfig,
+            messages,
+            model: model.id,
+            conversationSettings: settings,
+            tools,
+            responseFormat,
+            background: true,
+            ...(body.stream ? deltaCallbacks(callbacks, (delta) => sendEvent(chatCompletionChunk(base, delta))) : callbacks),
+        }),
+        body.stream ? () => {
+            response.write(formatSseHead());
+            sendEvent(chatCompletionChunk(base, { role: 'assistant', content: '' }));
+        } : undefined
+    );
+
+    const toolCalls = result.finalChunk?.toolCalls;
+    const promptText = messages.map((m) => m.content).join('\n');
+    const usage = toOpenAIUsage(result.finalChunk?.usage, promptText, result.thinking + result.content);
+    const finishReason = getFinishReason(toolCalls, usage.completion_tokens, settings.maxTokens);
+    report({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens });
+
+    if (body.stream) {
+        sendEvent(chatCompletionChunk(base, { toolCalls }, finishReason));
+        if (body.stream_options?.include_usage) sendEvent(chatCompletionChunk(base, {}, null, usage));
+        sendEvent('[DONE]');
+        response.end();
+        return;
+    }
+
+    response.send(formatJsonResponse(200, chatCompletion({
+        ...base,
+        content: result.content,
+        thinking: result.thinking || undefined,
+        toolCalls,
+        finishReason,
+        usage,
+    })));
+}
+
+async function completions(
+    request: HttpRequest,
+    response: HttpResponseWriter,
+    report: (details: ApiRouteDetails) => void
+): Promise<void> {
+    const body = readJsonBody<OpenAICompletionRequest>(request);
+    const prompt = getCompletionPrompt(body);
+    const settings = toGenerationSettings(body);
+    const model = resolveModel(body.model);
+    report({ model: model.id, stream: !!body.stream });
+
+    const base = { id: createCompletionId('cmpl'), model: model.id, created: Math.floor(Date.now() / 1000) };
+    const sendEvent = (data: unknown) => response.write(formatSseEvent(data));
+
+    // Local providers apply the model's chat template; reasoning isn't part of the completion text
+    const result = await runGeneration(
+        model,
+        response,
+        (client, callbacks) => client.sendGenerateStream({
+            llmConfig: model.llmConfig,
+            system: '',
+            prompt,
+            model: model.id,
+            conversationSettings: settings,
+            background: true,
+            ...(body.stream
+                ? deltaCallbacks(callbacks, (delta) => {
+                    if (delta.content) sendEvent(textCompletionChunk(base, delta.content));
+                })
+                : callbacks),
+        }),
+        body.stream ? () => response.write(formatSseHead()) : undefined
+    );
+
+    const usage = toOpenAIUsage(result.finalChunk?.usage, prompt, result.thinking + result.content);
+    const finishReason = getFinishReason(undefined, usage.completion_tokens, settings.maxTokens);
+    report({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens });
+
+    if (body.stream) {
+        sendEvent(textCompletionChunk(base, '', finishReason));
+        if (body.stream_options?.include_usage) sendEvent(textCompletionChunk(base, '', null, usage));
+        sendEvent('[DONE]');
+        response.end();
+        return;
+    }
+
+    response.send(formatJsonResponse(200, textCompletion({ ...base, content: result.content, finishReason, usage })));
+}
+
+async function embeddings(
+    request: HttpRequest,
+    response: HttpResponseWriter,
+    report: (details: ApiRouteDetails) => void
+): Promise<void> {
+    const body = readJsonBody<OpenAIEmbeddingRequest>(request);
+    const inputs = getEmbeddingInputs(body);
+
+    const ragRuntime = useRAGRuntimeStore.getState();
+    const embedder = await ragRuntime.ensureReady() ? ragRuntime.getEmbeddings() : null;
+    const modelId = getEmbeddingModelId();
+    if (!embedder || !modelId) {
+        throw new HttpError(503, 'No embedding model is available. Set one up in the RAG settings.', 'model_not_loaded');
+    }
+    if (body.model && body.model !== modelId) {
+        throw new HttpError(404, `The embedding model "${body.model}" is not loaded`, 'model_not_found');
+    }
+    report({ model: modelId });
+
+    const vectors: number[][] = [];
+    for (const input of inputs) {
+        vectors.push(await embedder.embed(input));
+    }
+
+    const result = embeddingList(modelId, vectors, inputs);
+    report({ promptTokens: result.usage.prompt_tokens });
+    response.send(formatJsonResponse(200, result));
+}
+
+/**
+ * Answer an authenticated API request. Errors are thrown as HttpError.
+ */
+export async function handleApiRoute(
+    request: HttpRequest,
+    response: HttpResponseWriter,
+    report: (details: ApiRouteDetails) => void
+): Promise<void> {
+    const route = `${request.method} ${request.path.replace(/\/+$/, '')}`;
+    switch (route) {
+        case 'GET /v1/models':
+            return listModels(response);
+        case 'POST /v1/chat/completions':
+            return chatCompletions(request, response, report);
+        case 'POST /v1/completions':
+            return completions(request, response, report);
+        case 'POST /v1/embeddings':
+            return embeddings(request, response, report);
+    }
+
+    const knownPath = ['/v1/models', '/v1/chat/completions', '/v1/completions', '/v1/embeddings']
+        .includes(request.path.replace(/\/+$/, ''));
+    throw knownPath
+        ? new HttpError(405, `${request.method} is not allowed on ${request.path}`)
+        : new HttpError(404, `Unknown endpoint: ${request.path}`);
+}
+
+/**
+ * Stop the API server's generation when it runs on the given (local) client
+ */
+export async function stopApiGenerationOn(client: { interrupt: () => void }): Promise<void> {
+    if (activeGeneration?.client === client) {
+        activeGeneration.client.interrupt();
+        await activeGeneration.done;
+    }
+}
+
+/**
+ * Stop the API server's generation, whatever model it runs on
+ */
+export function interruptApiGeneration(): void {
+    activeGeneration?.client.interrupt();
+}
@@ -0,0 +1,166 @@
+/**
+ * API Server Store
+ *
+ * State of the local OpenAI-compatible API server: whether it's listening,
+ * the address clients reach it on, and a log of recent requests.
+ * The port and API key are kept in the app settings; routes are in apiServerRoutes.
+ */
+
+import { getRandomBytes } from 'expo-crypto';
+import { create } from 'zustand';
+import { errorBody, formatJsonResponse, formatSseEvent, HttpError, hasBearerToken } from '../core/server';
+import { generateId } from '../core/types';
+import { httpServerService, HttpRequestHandler } from '../services/httpServer';
+import { logger } from '../services/LoggerService';
+import { ApiRouteDetails, handleApiRoute, interruptApiGeneration } from './apiServerRoutes';
+import { useSettingsStore } from './settingsStore';
+
+/** Requests kept in the log */
+const MAX_LOG_ENTRIES = 100;
+
+/**
+ * Request received by the API server
+ */
+export interface ApiRequestLogEntry extends ApiRouteDetails {
+    id: string;
+    method: string;
+    path: string;
+    remoteAddress: string;
+    startedAt: number;
+    status?: number;                 // Unset while the request is in progress
+    durationMs?: number;
+    error?: string;
+}
+
+interface ApiServerStoreState {
+    isSupported: boolean;
+    isRunning: boolean;
+    isStarting: boolean;
+    /** LAN address of the device (null when offline or stopped) */
+    address: string | null;
+    requests: ApiRequestLogEntry[];
+    error: string | null;
+}
+
+interface ApiServerStoreActions {
+    start: () => Promise<void>;
+    stop: () => void;
+    setPort: (port: number) => Promise<void>;
+    regenerateApiKey: () => Promise<void>;
+    clearLog: () => void;
+    clearError: () => void;
+}
+
+type ApiServerStore = ApiServerStoreState & ApiServerStoreActions;
+
+function createApiKey(): string {
+    const hex = Array.from(getRandomBytes(24), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return `mf-${hex}`;
+}
+
+export const useApiServerStore = create<ApiServerStore>((set, get) => {
+    const updateEntry = (id: string, updates: Partial<ApiRequestLogEntry>) => {
+        set((state) => ({
+            requests: state.requests.map((entry) => (entry.id === id ? { ...entry, ...updates } : entry)),
+        }));
+    };
+
+    const handleRequest: HttpRequestHandler = async (request, response, remoteAddress) => {
+        // CORS preflight
+        if (request.method === 'OPTIONS') {
+            response.send(formatJsonResponse(204));
+            return;
+        }
+
+        const entry: ApiRequestLogEntry = {
+            id: generateId(),
+            method: request.method,
+            path: request.path,
+            remoteAddress,
+            startedAt: Date.now(),
+        };
+        set((state) => ({ requests: [entry, ...state.requests].slice(0, MAX_LOG_ENTRIES) }));
+
+        let status = 200;
+        try {
+            // Read the key per request so a regenerated key applies immediately
+            const { apiKey } = useSettingsStore.getState().settings.apiServer;
+            if (!hasBearerToken(request, apiKey)) {
+                throw new HttpError(401, 'Invalid or missing API key', 'invalid_api_key');
+            }
+            await handleApiRoute(request, response, (details) => updateEntry(entry.id, details));
+        } catch (error) {
+            status = error instanceof HttpError ? error.status : 500;
+            const message = error instanceof Error ? error.message : 'Request failed';
+            const body = errorBody(status, message, error instanceof HttpError ? error.code : undefined);
+            if (status === 500) logger.error('ApiServer', `${request.method} ${request.path} failed:`, error);
+
+            // A stream that already started reports the error as its last event
+            if (response.isStarted) {
+                response.write(formatSseEvent(body));
+                response.end();
+            } else {
+                response.send(formatJsonResponse(status, body));
+            }
+            updateEntry(entry.id, { error: message });
+        }
+        updateEntry(entry.id, { status, durationMs: Date.now() - entry.startedAt });
+    };
+
+    return {
+        // Initial state
+        isSupported: httpServerService.isSupported,
+        isRunning: false,
+        isStarting: false,
+        address: null,
+        requests: [],
+        error: null,
+
+        start: async () => {
+            if (get().isRunning || get().isStarting) return;
+            set({ isStarting: true, error: null });
+
+            try {
+                const settingsStore = useSettingsStore.getState();
+                let { apiServer } = settingsStore.settings;
+                if (!apiServer.apiKey) {
+                    apiServer = { ...apiServer, apiKey: createApiKey() };
+                    await settingsStore.updateSettings({ apiServer });
+                }
+
+                await httpServerService.start(apiServer.port, handleRequest);
+                const address = await httpServerService.getLanAddress();
+                set({ isRunning: true, isStarting: false, address });
+            } catch (error) {
+                set({
+                    error: error instanceof Error ? error.message : 'Failed to start the API server',
+                    isStarting: false,
+                });
+            }
+        },
+
+        stop: () => {
+            httpServerService.stop();
+            interruptApiGeneration();
+            set({ isRunning: false, address: null });
+        },
+
+        setPort: async (port) => {
+            const { settings, updateSettings } = useSettingsStore.getState();
+            await updateSettings({ apiServer: { ...settings.apiServer, port } });
+        },
+
+        regenerateApiKey: async () => {
+            const { settings, updateSettings } = useSettingsStore.getState();
+            await updateSettings({ apiServer: { ...settings.apiServer, apiKey: createApiKey() } });
+        },
+
+        clearLog: () => {
+            set({ requests: [] });
+        },
+
+        clearError: () => {
+            set({ error: null });
+        },
+    };
+});
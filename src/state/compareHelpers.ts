@@ -0,0 +1,97 @@
+/**
+ * Compare Conversation Helpers
+ *
+ * A compare conversation answers every prompt with each of its targets.
+ * Answers are stored as sibling assistant messages under the prompt; the one
+ * the user picks becomes the active branch that the next prompt continues from.
+ */
+
+import { CompareTarget, LLMConfig, Message } from '../core/types';
+import { useExecutorchLLMStore } from './executorchLLMStore';
+import { useLlamaCppLLMStore } from './llamaCppLLMStore';
+import { useModelDownloadStore } from './modelDownloadStore';
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+/**
+ * Progress of one target while a comparison runs
+ * - waiting: queued behind another local model
+ * - loading: local model is being loaded
+ * - stopped: cancelled by the user
+ */
+export type CompareAnswerStatus = 'waiting' | 'loading' | 'streaming' | 'done' | 'stopped' | 'error';
+
+export interface CompareRunEntry {
+    target: CompareTarget;
+    status: CompareAnswerStatus;
+    content: string;
+    thinking: string;
+    error?: string;
+}
+
+/**
+ * Comparison running (or last run) for a prompt, one entry per target
+ */
+export interface CompareRun {
+    userMessageId: string;
+    entries: CompareRunEntry[];
+}
+
+/**
+ * What to show in a target's column: its saved answer and/or live progress
+ */
+export interface CompareColumn {
+    target: CompareTarget;
+    message?: Message;
+    entry?: CompareRunEntry;
+}
+
+export function isSameTarget(a: CompareTarget, b: CompareTarget): boolean {
+    return a.providerId === b.providerId && a.modelId === b.modelId;
+}
+
+/**
+ * Columns for the answers to a prompt. The latest answer of each target is shown
+ * (re-running a comparison adds new answers next to the old ones).
+ */
+export function getCompareColumns(
+    targets: CompareTarget[],
+    allMessages: Message[],
+    userMessageId: string,
+    run?: CompareRun
+): CompareColumn[] {
+    const answers = allMessages
+        .filter((m) => m.parentId === userMessageId && m.role === 'assistant')
+        .sort((a, b) => b.timestamp - a.timestamp);
+    const entries = run?.userMessageId === userMessageId ? run.entries : [];
+
+    return targets.map((target, index) => {
+        const entry = entries[index];
+        const isRunning = entry && entry.status !== 'done' && entry.status !== 'stopped';
+        return {
+            target,
+            // While re-running, the previous answer would be misleading
+            message: isRunning
+                ? undefined
+                : answers.find((m) => m.providerId === target.providerId && m.modelId === target.modelId),
+            entry,
+        };
+    });
+}
+
+/**
+ * Load a target's local model (swapping out the loaded one) and report whether it's ready
+ */
+export async function loadTargetModel(llmConfig: LLMConfig, modelName: string): Promise<boolean> {
+    const store = llmConfig.provider === 'llama-cpp' ? useLlamaCppLLMStore : useExecutorchLLMStore;
+    const state = store.getState();
+    if (state.isReady && state.selectedModelName === modelName) return true;
+
+    const downloadedModel = useModelDownloadStore.getState().downloadedModels
+        .find((m) => m.name === modelName && m.provider === llmConfig.provider);
+    if (!downloadedModel) return false;
+
+    await state.loadModel(downloadedModel.modelId, downloadedModel.name, downloadedModel);
+    return store.getState().isReady;
+}
@@ -1,18 +1,63 @@
 import { create } from 'zustand';
-import { LLMError, llmClientFactory } from '../core/llm';
-import { conversationRepository, messageRepository } from '../core/storage';
-import { Conversation, ConversationType, Message, generateId } from '../core/types';
+import {
+    AISDKProvider,
+    getFormatInstruction,
+    getPromptTokenBudget,
+    getRetryDelay,
+    isRetryableLLMError,
+    LLMError,
+    LLMErrorCode,
+    llmClientFactory,
+    LLMStreamChunk,
+    LLMToolCall,
+    MAX_LLM_RETRIES,
+    measureGeneration,
+    validateStructuredOutput,
+} from '../core/llm';
+import { getPersonaGreetings } from '../core/personas';
+import { conversationRepository, messageRepository, sourceCollectionRepository } from '../core/storage';
+import { toolRegistry } from '../core/tools';
+import {
+    CompareTarget,
+    Conversation,
+    ConversationType,
+    GenerationSettings,
+    LLMConfig,
+    Message,
+    MessageDeliveryStatus,
+    MessageFailedAttempt,
+    MessageImage,
+    MessageLoreEntry,
+    ModelTarget,
+    ResponseFormat,
+    generateId,
+} from '../core/types';
+import { connectivityService } from '../services/connectivity';
 import { logger } from '../services/LoggerService';
+import { stopApiGenerationOn } from './apiServerRoutes';
+import { CompareRun, CompareRunEntry, loadTargetModel } from './compareHelpers';
 import { isLocalProvider, useExecutorchLLMStore } from './executorchLLMStore';
+import { getFallbackChain } from './fallbackChain';
 import { useLLMStore } from './llmStore';
 import {
     CONTEXT_INSTRUCTION,
     compileSystemPrompt,
-    prepareChatMessages
+    prepareChatMessages,
+    RagContextResult
 } from './messageHelpers';
+import { getActiveBranch, getLatestLeafId, linkLegacyMessages } from './messageTree';
 import { usePersonaStore } from './personaStore';
 import { useRAGRuntimeStore } from './ragRuntimeStore';
 import { useSettingsStore } from './settingsStore';
+import {
+    buildTitleMessages,
+    cleanGeneratedTitle,
+    getFallbackTitle,
+    getFirstExchange,
+    isLocalModelBusy,
+    isLocalModelReady,
+    TITLE_MAX_TOKENS,
+} from './titleGenerator';
 
 interface ConversationStoreState {
     conversations: Conversation[];
@@ -21,24 +66,76 @@ interface ConversationStoreState {
     isLoadingConversations: boolean;
     isSendingMessage: boolean;
     isStreaming: boolean;
+    /** Conversation the response is being generated for, which may not be the open one (outbox) */
+    streamingConversationId: string | null;
     currentMessageMap: Record<string, string>;
     currentThinkingMessageMap: Record<string, string>;
+    /** Per-conversation record of messages trimmed from the last prompt */
+    promptTrimMap: Record<string, PromptTrimInfo>;
+    /** Message to scroll to and highlight in the chat (e.g. opened from search) */
+    focusedMessageId: string | null;
+    // Conversations whose title is being generated
+    generatingTitleIds: string[];
+    // Latest comparison per compare conversation
+    compareRuns: Record<string, CompareRun>;
+    /** Whether the device is online; messages for remote providers wait in the outbox while offline */
+    isOnline: boolean;
     error: string | null;
 }
 
+/**
+ * Which messages were left out of (or shortened in) the last prompt sent
+ */
+export interface PromptTrimInfo {
+    excludedMessageIds: string[];
+    strippedContextMessageIds: string[];
+}
+
 interface ConversationStoreActions {
     loadConversations: () => Promise<void>;
-    createConversation: (llmId?: string, model?: string, personaId?: string, type?: ConversationType) => Promise<Conversation>;
+    createConversation: (
+        llmId?: string,
+        model?: string,
+        personaId?: string,
+        type?: ConversationType,
+        compareTargets?: CompareTarget[]
+    ) => Promise<Conversation>;
     startNewConversation: () => void;
     selectConversation: (id: string | null) => Promise<void>;
     deleteConversation: (id: string) => Promise<void>;
     updateConversationTitle: (id: string, title: string) => Promise<void>;
+    generateTitle: (id: string, isAutomatic?: boolean) => Promise<void>;
     setThinkingEnabled: (enabled: boolean) => Promise<void>;
+    setToolsEnabled: (enabled: boolean) => Promise<void>;
+    /** Set the output format of the current conversation (undefined means free text) */
+    setResponseFormat: (format: ResponseFormat | undefined) => Promise<void>;
+    /** Set generation overrides for the current conversation (undefined clears them) */
+    setGenerationSettings: (settings: GenerationSettings | undefined) => Promise<void>;
+    /** Set the source collections searched on every message of the current conversation */
+    setCollectionIds: (collectionIds: string[]) => Promise<void>;
+    /** Set the fallback chain of the current conversation (empty uses the persona's) */
+    setFallbackTargets: (targets: ModelTarget[]) => Promise<void>;
     loadMessages: (conversationId: string) => Promise<void>;
-    sendMessage: (content: string, selectedSourceIds?: number[]) => Promise<void>;
+    setActiveLeaf: (conversationId: string, leafId: string) => Promise<void>;
+    switchBranch: (messageId: string) => Promise<void>;
+    openMessage: (conversationId: string, messageId: string) => Promise<void>;
+    clearFocusedMessage: () => void;
+    sendMessage: (content: string, selectedSourceIds?: number[], images?: MessageImage[]) => Promise<void>;
+    /** Edit a user message into a new branch; images default to the original message's */
+    editMessage: (messageId: string, content: string, images?: MessageImage[]) => Promise<void>;
     cancelStreaming: () => Promise<void>;
     regenerateLastMessage: () => Promise<void>;
+    regenerateMessage: (messageId: string) => Promise<void>;
+    pickCompareAnswer: (messageId: string) => Promise<void>;
     setActiveLLM: (llmId: string, model: string) => Promise<void>;
+    /** Watch connectivity and deliver messages left in the outbox (call once at startup) */
+    startOutbox: () => Promise<void>;
+    /** Answer queued messages in order, as far as the network allows */
+    deliverOutbox: () => Promise<void>;
+    /** Queue a message whose delivery failed again */
+    retryQueuedMessage: (messageId: string) => Promise<void>;
+    /** Switch the current conversation to another (e.g. local) model and answer a queued message with it */
+    sendQueuedMessageTo: (messageId: string, llmId: string, model: string) => Promise<void>;
     getCurrentConversation: () => Conversation | null;
     getCurrentMessages: () => Message[];
     clearError: () => void;
@@ -51,8 +148,27 @@ interface ConversationStoreActions {
 
 type ConversationStore = ConversationStoreState & ConversationStoreActions;
 
+/** Maximum model round-trips with tools offered before the model must answer */
+const MAX_TOOL_STEPS = 5;
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 // Store reference to active provider for interrupt calls
 let activeProvider: { interrupt: () => void } | null = null;
+// Provider/model answering in generateResponse (a fallback target after the conversation's own failed)
+let activeTarget: ModelTarget | null = null;
+// Message the response being generated goes under
+let activeReplyParentId: string | undefined;
+
+// Background title request, interrupted when a chat response needs the same (local) model
+let activeTitleRequest: { client: { interrupt: () => void }; done: Promise<void> } | null = null;
+
+// Outbox delivery runs one pass at a time; a request during a pass triggers another one
+let isOutboxStarted = false;
+let isDeliveringOutbox = false;
+let shouldRedeliverOutbox = false;
 
 export const useConversationStore = create<ConversationStore>((set, get) => ({
     // State
@@ -62,8 +178,14 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
     isLoadingConversations: false,
     isSendingMessage: false,
     isStreaming: false,
+    streamingConversationId: null,
     currentMessageMap: {},
     currentThinkingMessageMap: {},
+    promptTrimMap: {},
+    focusedMessageId: null,
+    generatingTitleIds: [],
+    compareRuns: {},
+    isOnline: true,
     error: null,
 
     // Actions
@@ -80,14 +202,15 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
         }
     },
 
-    createConversation: async (llmId, model, personaId, type = 'chat') => {
+    createConversation: async (llmId, model, personaId, type = 'chat', compareTargets) => {
         const settings = useSettingsStore.getState().settings;
         const llmConfigs = useLLMStore.getState().configs;
 
-        // Determine which LLM to use
-        const providerId = llmId || settings.defaultLLMId || llmConfigs[0]?.id || '';
+        // Determine which LLM to use (compare conversations: the first target)
+        const firstTarget = type === 'compare' ? compareTargets?.[0] : undefined;
+        const providerId = firstTarget?.providerId || llmId || settings.defaultLLMId || llmConfigs[0]?.id || '';
         const providerConfig = llmConfigs.find((c) => c.id === providerId);
-        const modelId = model || providerConfig?.defaultModel || '';
+        const modelId = firstTarget?.modelId || model || providerConfig?.defaultModel || '';
         const providerType = providerConfig?.provider || 'openai';
 
         // Get persona prompt (without RAG context instruction)
@@ -111,14 +234,31 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
             personaId,
             personaPrompt: personaPrompt || undefined,  // Persona prompt (empty if no persona)
             contextPrompt: undefined,                    // RAG context (set when sources first attached)
+            compareTargets: type === 'compare' ? compareTargets : undefined,
         };
 
+        // The persona's greetings open the conversation; alternates are sibling branches
+        const greetings: Message[] = (persona && type === 'chat' ? getPersonaGreetings(persona) : [])
+            .map((content, index) => ({
+                id: generateId(),
+                conversationId: conversation.id,
+                role: 'assistant',
+                content,
+                contentType: 'text',
+                timestamp: now + index,
+                modelId: '',
+            }));
+        conversation.activeLeafId = greetings[0]?.id;
+
         try {
             await conversationRepository.create(conversation);
+            if (greetings.length > 0) {
+                await messageRepository.createBatch(greetings);
+            }
             set((state) => ({
                 conversations: [conversation, ...state.conversations],
                 currentConversationId: conversation.id,
-                messages: { ...state.messages, [conversation.id]: [] },
+                messages: { ...state.messages, [conversation.id]: greetings },
             }));
             return conversation;
         } catch (error) {
@@ -182,11 +322,13 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
 
             set((state) => {
                 const { [id]: _, ...remainingMessages } = state.messages;
+                const { [id]: __, ...remainingTrims } = state.promptTrimMap;
                 return {
                     conversations: state.conversations.filter((c) => c.id !== id),
                     currentConversationId:
                         state.currentConversationId === id ? null : state.currentConversationId,
                     messages: remainingMessages,
+                    promptTrimMap: remainingTrims,
                 };
             });
         } catch (error) {
@@ -214,6 +356,93 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
         }
     },
 
+    generateTitle: async (id, isAutomatic = false) => {
+        if (get().generatingTitleIds.includes(id)) return;
+
+        const conversation = get().conversations.find((c) => c.id === id);
+        if (!conversation) return;
+
+        const { titleGeneration } = useSettingsStore.getState().settings;
+        const llmConfig = useLLMStore.getState().getConfigById(titleGeneration.llmId || conversation.providerId || '');
+        if (!llmConfig) {
+            if (!isAutomatic) set({ error: 'No LLM configured for title generation.' });
+            return;
+        }
+
+        if (!get().messages[id]) {
+            await get().loadMessages(id);
+        }
+        const branch = getActiveBranch(get().messages[id] || [], conversation.activeLeafId);
+        const messages = buildTitleMessages(branch);
+        if (!messages) return;
+
+        // Local models are shared with chat: never start while a response is being generated
+        const isLocal = isLocalProvider(llmConfig.provider);
+        if (isLocal) {
+            const { isStreaming, isSendingMessage } = get();
+            if (isStreaming || isSendingMessage || isLocalModelBusy(llmConfig.provider)) {
+                logger.log('ConversationStore', 'Local model busy, skipping title generation');
+                if (!isAutomatic) set({ error: 'The model is busy. Try again when it has finished responding.' });
+                return;
+            }
+            if (!isLocalModelReady(llmConfig.provider)) {
+                logger.log('ConversationStore', 'Local model not loaded, skipping title generation');
+                if (!isAutomatic) set({ error: 'Load a model before generating a title.' });
+                return;
+            }
+        }
+
+        // Remote requests get their own client so they can't abort the chat stream
+        const client = isLocal ? llmClientFactory.getClient(llmConfig) : new AISDKProvider();
+        const model = titleGeneration.llmId
+            ? titleGeneration.model || llmConfig.defaultModel
+            : conversation.modelId || llmConfig.defaultModel;
+
+        set((state) => ({ generatingTitleIds: [...state.generatingTitleIds, id] }));
+
+        let content = '';
+        const run = async () => {
+            const stream = client.sendMessageStream({
+                llmConfig,
+                messages,
+                model,
+                maxTokens: TITLE_MAX_TOKENS,
+                background: true,
+                onToken: (text: string) => {
+                    content = text;
+                    // The first line is all we need
+                    if (/\S.*\n/.test(text)) client.interrupt();
+                },
+            });
+            for await (const chunk of stream) {
+                if (chunk.done) break;
+            }
+        };
+        const done = run();
+        const request = { client, done: done.catch(() => undefined) };
+        activeTitleRequest = request;
+
+        try {
+            await done;
+        } catch (error) {
+            // Interrupted after the first line (or by a chat response): keep what arrived
+            if (!(error instanceof LLMError && error.code === LLMErrorCode.CANCELLED)) {
+                logger.warn('ConversationStore', 'Title generation failed:', error);
+                if (!isAutomatic) {
+                    set({ error: error instanceof Error ? error.message : 'Failed to generate title' });
+                }
+            }
+        } finally {
+            if (activeTitleRequest === request) activeTitleRequest = null;
+            set((state) => ({ generatingTitleIds: state.generatingTitleIds.filter((c) => c !== id) }));
+        }
+
+        const title = cleanGeneratedTitle(content);
+        if (title) {
+            await get().updateConversationTitle(id, title);
+        }
+    },
+
     setThinkingEnabled: async (enabled) => {
         const { currentConversationId, conversations } = get();
         if (!currentConversationId) return;
@@ -238,240 +467,227 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
         }
     },
 
-    loadMessages: async (conversationId) => {
+    setToolsEnabled: async (enabled) => {
+        const { currentConversationId, conversations } = get();
+        if (!currentConversationId) return;
+
+        const conversation = conversations.find((c) => c.id === currentConversationId);
+        if (!conversation) return;
+
         try {
-            const messages = await messageRepository.findByConversationIdSorted(conversationId);
+            const updated = await conversationRepository.update({
+                ...conversation,
+                toolsEnabled: enabled,
+            });
             set((state) => ({
-                messages: { ...state.messages, [conversationId]: messages },
+                conversations: state.conversations.map((c) =>
+                    c.id === currentConversationId ? updated : c
+                ),
             }));
         } catch (error) {
             set({
-                error: error instanceof Error ? error.message : 'Failed to load messages',
+                error: error instanceof Error ? error.message : 'Failed to update tools setting',
             });
         }
     },
 
-    sendMessage: async (content, selectedSourceIds) => {
+    setResponseFormat: async (format) => {
         const { currentConversationId, conversations } = get();
-        if (!currentConversationId || !content.trim()) return;
+        if (!currentConversationId) return;
 
         const conversation = conversations.find((c) => c.id === currentConversationId);
         if (!conversation) return;
 
-        // Use new field
-        const configId = conversation.providerId || '';
-        const llmConfig = useLLMStore.getState().getConfigById(configId);
-        if (!llmConfig) {
-            set({ error: 'No LLM configured. Please add an LLM in settings.' });
-            return;
+        try {
+            const updated = await conversationRepository.update({
+                ...conversation,
+                responseFormat: format?.type === 'text' ? undefined : format,
+            });
+            set((state) => ({
+                conversations: state.conversations.map((c) =>
+                    c.id === currentConversationId ? updated : c
+                ),
+            }));
+        } catch (error) {
+            set({
+                error: error instanceof Error ? error.message : 'Failed to update response format',
+            });
         }
+    },
 
-        const now = Date.now();
-
-        // Generate RAG context if sources are selected - RAG store handles lazy init internally
-        let contextResult = { contextMap: {} as Record<number, string>, contextString: '' };
-        let updatedConversation = conversation;
+    setGenerationSettings: async (settings) => {
+        const { currentConversationId, conversations } = get();
+        if (!currentConversationId) return;
 
-        if (selectedSourceIds && selectedSourceIds.length > 0) {
-            contextResult = await useRAGRuntimeStore.getState().generateContext(content, selectedSourceIds);
+        const conversation = conversations.find((c) => c.id === currentConversationId);
+        if (!conversation) return;
 
-            // Set contextPrompt on conversation if not already set (first time sources attached)
-            if (!conversation.contextPrompt) {
-                try {
-                    updatedConversation = await conversationRepository.update({
-                        ...conversation,
-                        contextPrompt: CONTEXT_INSTRUCTION,
-                    });
-                    set((state) => ({
-                        conversations: state.conversations.map((c) =>
-                            c.id === currentConversationId ? updatedConversation : c
-                        ),
-                    }));
-                    logger.log('ConversationStore', 'Set contextPrompt on conversation (first source attached)');
-                } catch (error) {
-                    logger.error('ConversationStore', 'Failed to update contextPrompt:', error);
-                }
-            }
+        try {
+            const updated = await conversationRepository.update({
+                ...conversation,
+                generationSettings: settings,
+            });
+            set((state) => ({
+                conversations: state.conversations.map((c) =>
+                    c.id === currentConversationId ? updated : c
+                ),
+            }));
+        } catch (error) {
+            set({
+                error: error instanceof Error ? error.message : 'Failed to update generation settings',
+            });
         }
+    },
 
-        // Create user message - context stored in message.context field
-        const conversationModelId = conversation.modelId || '';
+    setCollectionIds: async (collectionIds) => {
+        const { currentConversationId, conversations } = get();
+        if (!currentConversationId) return;
 
-        const userMessage: Message = {
-            id: generateId(),
-            conversationId: currentConversationId,
-            role: 'user',
-            content: content.trim(),
-            contentType: 'text',
-            timestamp: now,
-            modelId: conversationModelId,
-            // Store context in dedicated field (NOT in content)
-            context: contextResult.contextString || undefined,
-            contextIds: selectedSourceIds && selectedSourceIds.length > 0 ? selectedSourceIds : undefined,
-        };
+        const conversation = conversations.find((c) => c.id === currentConversationId);
+        if (!conversation) return;
 
-        // Save user message and update UI
         try {
-            await messageRepository.create(userMessage);
+            const updated = await conversationRepository.update({
+                ...conversation,
+                collectionIds: collectionIds.length > 0 ? collectionIds : undefined,
+            });
             set((state) => ({
-                messages: {
-                    ...state.messages,
-                    [currentConversationId]: [...(state.messages[currentConversationId] || []), userMessage],
-                },
-                isSendingMessage: true,
-                error: null,
+                conversations: state.conversations.map((c) =>
+                    c.id === currentConversationId ? updated : c
+                ),
             }));
+        } catch (error) {
+            set({
+                error: error instanceof Error ? error.message : 'Failed to update collections',
+            });
+        }
+    },
 
-            // Update conversation title if first message
-            const currentMessages = get().messages[currentConversationId] || [];
-            if (currentMessages.filter((m) => m.role === 'user').length === 1) {
-                const title = content.slice(0, 50) + (content.length > 50 ? '...' : '');
-                await get().updateConversationTitle(currentConversationId, title);
-            }
-
-            // Build chat messages using helper (uses updated conversation with contextPrompt)
-            const chatMessages = prepareChatMessages(updatedConversation, currentMessages);
-
-            const client = llmClientFactory.getClient(llmConfig);
-            // Store reference for interrupt calls
-            activeProvider = client;
-
-            // Clear current message for this conversation before starting
-            get().clearCurrentMessage(currentConversationId);
-
-            // Set isStreaming=true - use new callbacks for streaming updates
-            set({ isStreaming: true });
-
-            // Use modelId field
-            const currentModelId = conversation.modelId || '';
+    setFallbackTargets: async (targets) => {
+        const { currentConversationId, conversations } = get();
+        if (!currentConversationId) return;
 
-            // Choose stream method based on conversation type
-            let stream: AsyncGenerator<import('../core/llm/types').LLMStreamChunk, void, unknown>;
+        const conversation = conversations.find((c) => c.id === currentConversationId);
+        if (!conversation) return;
 
-            if (updatedConversation.type === 'generate') {
-                // Generate mode: use system + prompt (no message history)
-                const systemPrompt = [
-                    updatedConversation.personaPrompt,
-                    updatedConversation.contextPrompt
-                ].filter(Boolean).join('\n\n');
+        try {
+            const updated = await conversationRepository.update({
+                ...conversation,
+                fallbackTargets: targets.length > 0 ? targets : undefined,
+            });
+            set((state) => ({
+                conversations: state.conversations.map((c) =>
+                    c.id === currentConversationId ? updated : c
+                ),
+            }));
+        } catch (error) {
+            set({
+                error: error instanceof Error ? error.message : 'Failed to update fallback models',
+            });
+        }
+    },
 
-                // Build prompt with context if present
-                let prompt = userMessage.content;
-                if (contextResult.contextString) {
-                    prompt = `<context>\n${contextResult.contextString}\n</context>\n${userMessage.content}`;
+    loadMessages: async (conversationId) => {
+        try {
+            let messages = await messageRepository.findByConversationIdSorted(conversationId);
+
+            // Conversations saved before branching have no active leaf: link them into one thread.
+            // Setting the leaf marks the conversation as migrated, so this runs once.
+            const conversation = get().conversations.find((c) => c.id === conversationId);
+            if (conversation && !conversation.activeLeafId && messages.length > 0) {
+                const linked = linkLegacyMessages(messages);
+                for (const message of linked) {
+                    if (message.parentId !== messages.find((m) => m.id === message.id)?.parentId) {
+                        await messageRepository.update(message);
+                    }
                 }
-
-                logger.log('ConversationStore', 'Calling sendGenerateStream (generate mode)');
-                stream = client.sendGenerateStream({
-                    llmConfig,
-                    system: systemPrompt,
-                    prompt,
-                    model: currentModelId,
-                    thinkingEnabled: conversation.thinkingEnabled,
-                    onToken: (content: string) => {
-                        get().updateCurrentMessage(currentConversationId, content);
-                    },
-                    onThinking: (content: string) => {
-                        get().updateCurrentThinkingMessage(currentConversationId, content);
-                    },
-                });
-            } else {
-                // Chat mode: use full message history
-                logger.log('ConversationStore', 'Calling sendMessageStream with', chatMessages.length, 'messages');
-                stream = client.sendMessageStream({
-                    llmConfig,
-                    messages: chatMessages,
-                    model: currentModelId,
-                    thinkingEnabled: conversation.thinkingEnabled,
-                    onToken: (content: string) => {
-                        get().updateCurrentMessage(currentConversationId, content);
-                    },
-                    onThinking: (content: string) => {
-                        get().updateCurrentThinkingMessage(currentConversationId, content);
-                    },
-                });
+                messages = linked;
+                const branch = getActiveBranch(linked);
+                await get().setActiveLeaf(conversationId, branch[branch.length - 1].id);
             }
 
-            // Wait for stream to complete - callbacks update currentMessageMap
-            for await (const chunk of stream) {
-                if (chunk.done) break;
-            }
+            set((state) => ({
+                messages: { ...state.messages, [conversationId]: messages },
+            }));
+        } catch (error) {
+            set({
+                error: error instanceof Error ? error.message : 'Failed to load messages',
+            });
+        }
+    },
 
-            // Check if streaming was cancelled - if so, cancelStreaming already saved the message
-            // This prevents duplicate messages when user interrupts during generation
-            if (!get().isStreaming) {
-                logger.log('ConversationStore', 'Streaming was cancelled, skipping message save (handled by cancelStreaming)');
-                return;
-            }
+    setActiveLeaf: async (conversationId, leafId) => {
+        const conversation = get().conversations.find((c) => c.id === conversationId);
+        if (!conversation) return;
 
-            // Get the final content from currentMessageMap (populated by callbacks during streaming)
-            const fullContent = get().getCurrentMessage(currentConversationId);
-            const thinkingContent = get().getCurrentThinkingMessage(currentConversationId);
+        const updated = { ...conversation, activeLeafId: leafId };
+        set((state) => ({
+            conversations: state.conversations.map((c) =>
+                c.id === conversationId ? updated : c
+            ),
+        }));
 
-            // Save assistant message with the collected content
-            const assistantMessage: Message = {
-                id: generateId(),
-                conversationId: currentConversationId,
-                role: 'assistant',
-                content: fullContent,
-                contentType: 'text',
-                timestamp: Date.now(),
-                modelId: currentModelId,
-                thinkingContent: thinkingContent || undefined,
-            };
+        try {
+            await conversationRepository.update(updated);
+        } catch (error) {
+            logger.error('ConversationStore', 'Failed to save active branch:', error);
+        }
+    },
 
-            await messageRepository.create(assistantMessage);
+    switchBranch: async (messageId) => {
+        const { currentConversationId, messages, isStreaming, isSendingMessage } = get();
+        if (!currentConversationId || isStreaming || isSendingMessage) return;
 
-            // Add message to state and clear streaming content
-            set((state) => {
-                const { [currentConversationId]: _, ...restMessages } = state.currentMessageMap;
-                const { [currentConversationId]: __, ...restThinking } = state.currentThinkingMessageMap;
-                return {
-                    messages: {
-                        ...state.messages,
-                        [currentConversationId]: [
-                            ...(state.messages[currentConversationId] || []),
-                            assistantMessage,
-                        ],
-                    },
-                    currentMessageMap: restMessages,
-                    currentThinkingMessageMap: restThinking,
-                    isStreaming: false,
-                    isSendingMessage: false,
-                };
-            });
+        const allMessages = messages[currentConversationId] || [];
+        if (!allMessages.some((m) => m.id === messageId)) return;
 
-            // Update conversation timestamp
-            await conversationRepository.touch(currentConversationId);
+        await get().setActiveLeaf(currentConversationId, getLatestLeafId(allMessages, messageId));
+    },
 
-        } catch (error) {
-            if (error instanceof LLMError && error.code === 'CANCELLED') {
-                // User cancelled, just reset state
-                if (currentConversationId) {
-                    get().clearCurrentMessage(currentConversationId);
-                }
-                set({ isSendingMessage: false, isStreaming: false });
-                return;
-            }
+    openMessage: async (conversationId, messageId) => {
+        await get().selectConversation(conversationId);
+        if (!get().messages[conversationId]) return;
 
-            if (currentConversationId) {
-                get().clearCurrentMessage(currentConversationId);
+        // Show the branch containing the message, then focus it
+        const allMessages = get().messages[conversationId] || [];
+        if (allMessages.some((m) => m.id === messageId)) {
+            const branch = get().getCurrentMessages();
+            if (!branch.some((m) => m.id === messageId)) {
+                await get().setActiveLeaf(conversationId, getLatestLeafId(allMessages, messageId));
             }
-            set({
-                error: error instanceof Error ? error.message : 'Failed to send message',
-                isSendingMessage: false,
-                isStreaming: false,
-            });
-        } finally {
-            activeProvider = null;
+            set({ focusedMessageId: messageId });
         }
     },
 
+    clearFocusedMessage: () => {
+        set({ focusedMessageId: null });
+    },
+
+    sendMessage: async (content, selectedSourceIds, images) => {
+        const branch = get().getCurrentMessages();
+        await sendUserMessage(content, selectedSourceIds, branch[branch.length - 1]?.id, images);
+    },
+
+    editMessage: async (messageId, content, images) => {
+        const message = get().getCurrentMessages().find((m) => m.id === messageId);
+        if (!message || message.role !== 'user') {
+            set({ error: 'Can only edit user messages' });
+            return;
+        }
+
+        // The edited message becomes a sibling of the original, starting a new branch
+        await sendUserMessage(content, message.contextIds, message.parentId, images ?? message.images);
+    },
+
     cancelStreaming: async () => {
-        const { currentConversationId, conversations } = get();
+        const { currentConversationId, streamingConversationId, conversations } = get();
+        // A queued message may be answered in a conversation other than the open one
+        const conversationId = streamingConversationId ?? currentConversationId;
 
         // Immediately set streaming to false so UI updates
-        set({ isStreaming: false, isSendingMessage: false });
+        set({ isStreaming: false, isSendingMessage: false, streamingConversationId: null });
+        const interruptedTarget = activeTarget;
+        const replyParentId = activeReplyParentId;
 
         // Call interrupt on the provider (stops native model or HTTP request)
         if (activeProvider) {
@@ -484,41 +700,34 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
         }
 
         // Get any partial content that was being streamed
-        if (currentConversationId) {
-            const partialContent = get().getCurrentMessage(currentConversationId);
-            const partialThinking = get().getCurrentThinkingMessage(currentConversationId);
+        if (conversationId) {
+            const partialContent = get().getCurrentMessage(conversationId);
+            const partialThinking = get().getCurrentThinkingMessage(conversationId);
 
             // If there's partial content OR partial thinking, save it as an interrupted message
             // This ensures we preserve thinking content even if no actual response was generated
             if ((partialContent && partialContent.trim()) || (partialThinking && partialThinking.trim())) {
-                const conversation = conversations.find((c) => c.id === currentConversationId);
+                const conversation = conversations.find((c) => c.id === conversationId);
                 if (conversation) {
-                    const currentModelId = conversation.modelId || '';
+                    // A fallback target may have been answering instead of the conversation's own
+                    const answerTarget = interruptedTarget || { providerId: conversation.providerId, modelId: conversation.modelId || '' };
 
                     const interruptedMessage: Message = {
                         id: generateId(),
-                        conversationId: currentConversationId,
+                        conversationId,
                         role: 'assistant',
                         content: partialContent || '', // May be empty if interrupted during thinking
                         contentType: 'text',
                         timestamp: Date.now(),
-                        modelId: currentModelId,
+                        modelId: answerTarget.modelId,
+                        providerId: answerTarget.providerId,
                         thinkingContent: partialThinking || undefined,
                         // Mark as interrupted
                         interrupted: true,
                     };
 
                     try {
-                        await messageRepository.create(interruptedMessage);
-                        set((state) => ({
-                            messages: {
-                                ...state.messages,
-                                [currentConversationId]: [
-                                    ...(state.messages[currentConversationId] || []),
-                                    interruptedMessage,
-                                ],
-                            },
-                        }));
+                        await appendReply(conversationId, [interruptedMessage], replyParentId ?? getLeafId(conversationId));
                         logger.log('ConversationStore', 'Saved interrupted message with',
                             partialContent?.length || 0, 'chars content,',
                             partialThinking?.length || 0, 'chars thinking');
@@ -529,7 +738,7 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
             }
 
             // Clear the streaming state
-            get().clearCurrentMessage(currentConversationId);
+            get().clearCurrentMessage(conversationId);
         }
 
         set({ isStreaming: false, isSendingMessage: false });
@@ -566,29 +775,35 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
     },
 
     regenerateLastMessage: async () => {
-        const { currentConversationId, messages } = get();
-        if (!currentConversationId) {
-            set({ error: 'No conversation selected' });
+        const currentMessages = get().getCurrentMessages();
+        const lastMessage = currentMessages[currentMessages.length - 1];
+        if (!lastMessage) {
+            set({ error: 'No messages to regenerate' });
             return;
         }
 
-        const currentMessages = messages[currentConversationId] || [];
-        if (currentMessages.length === 0) {
-            set({ error: 'No messages to regenerate' });
+        await get().regenerateMessage(lastMessage.id);
+    },
+
+    regenerateMessage: async (messageId) => {
+        const { currentConversationId, isStreaming, isSendingMessage } = get();
+        if (!currentConversationId) {
+            set({ error: 'No conversation selected' });
             return;
         }
+        if (isStreaming || isSendingMessage) return;
 
-        // Find the last message and verify it's an assistant message
-        const lastMessage = currentMessages[currentMessages.length - 1];
-        if (lastMessage.role !== 'assistant') {
+        // Verify it's an assistant message on the active branch
+        const currentMessages = get().getCurrentMessages();
+        const index = currentMessages.findIndex((m) => m.id === messageId);
+        if (index === -1 || currentMessages[index].role !== 'assistant') {
             set({ error: 'Can only regenerate assistant messages' });
             return;
         }
 
-        // Get the user message that triggered this response
-        // Find the last user message before this assistant message
+        // Find the user message that triggered this response (tool calls may sit in between)
         let lastUserMessage: Message | undefined;
-        for (let i = currentMessages.length - 2; i >= 0; i--) {
+        for (let i = index - 1; i >= 0; i--) {
             if (currentMessages[i].role === 'user') {
                 lastUserMessage = currentMessages[i];
                 break;
@@ -600,28 +815,39 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
             return;
         }
 
-        try {
-            // Delete the last assistant message from repository
-            await messageRepository.delete(lastMessage.id);
+        const conversation = get().getCurrentConversation();
+        const llmConfig = conversation
+            ? useLLMStore.getState().getConfigById(conversation.providerId || '')
+            : undefined;
+        if (!llmConfig) {
+            set({ error: 'No LLM configured. Please add an LLM in settings.' });
+            return;
+        }
 
-            // Update local state to remove the last assistant message
-            set((state) => ({
-                messages: {
-                    ...state.messages,
-                    [currentConversationId]: currentMessages.slice(0, -1),
-                },
-            }));
+        // Keep the old response: the new one becomes a sibling branch under the same user message
+        logger.log('ConversationStore', 'Regenerating response as a new branch');
+        await get().setActiveLeaf(currentConversationId, lastUserMessage.id);
+        if (conversation?.type === 'compare') {
+            set({ isSendingMessage: true, error: null });
+            await generateComparison(currentConversationId, lastUserMessage);
+        } else {
+            await generateResponse(currentConversationId, llmConfig, lastUserMessage);
+        }
+    },
 
-            logger.log('ConversationStore', 'Deleted last assistant message, re-sending...');
+    pickCompareAnswer: async (messageId) => {
+        const { currentConversationId } = get();
+        if (!currentConversationId || get().isStreaming) return;
 
-            // Re-send the last user message (with its original context if any)
-            const sourceIds = lastUserMessage.contextIds;
-            await get().sendMessage(lastUserMessage.content, sourceIds);
+        // The picked answer becomes the branch the next prompt continues from
+        await get().setActiveLeaf(currentConversationId, messageId);
+        set((state) => {
+            const { [currentConversationId]: _, ...rest } = state.compareRuns;
+            return { compareRuns: rest };
+        });
 
-        } catch (error) {
-            set({
-                error: error instanceof Error ? error.message : 'Failed to regenerate message',
-            });
+        if (shouldGenerateTitle(currentConversationId)) {
+            get().generateTitle(currentConversationId, true);
         }
     },
 
@@ -631,8 +857,80 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
     },
 
     getCurrentMessages: () => {
-        const { currentConversationId, messages } = get();
-        return currentConversationId ? messages[currentConversationId] || [] : [];
+        const conversation = get().getCurrentConversation();
+        return conversation
+            ? getActiveBranch(get().messages[conversation.id] || [], conversation.activeLeafId)
+            : [];
+    },
+
+    startOutbox: async () => {
+        if (isOutboxStarted) return;
+        isOutboxStarted = true;
+
+        set({ isOnline: await connectivityService.start() });
+        connectivityService.subscribe((isOnline) => {
+            set({ isOnline });
+            if (isOnline) get().deliverOutbox();
+        });
+
+        // Deliveries wait while another response is generated
+        useConversationStore.subscribe((state, prev) => {
+            if (prev.isStreaming && !state.isStreaming) get().deliverOutbox();
+        });
+
+        // Messages being sent when the app closed go out again
+        try {
+            const interrupted = (await messageRepository.findInOutbox()).filter((m) => m.deliveryStatus === 'sending');
+            for (const message of interrupted) {
+                await setDeliveryStatus(message, 'queued');
+            }
+        } catch (error) {
+            logger.error('ConversationStore', 'Failed to read the outbox:', error);
+        }
+
+        get().deliverOutbox();
+    },
+
+    deliverOutbox: async () => {
+        if (isDeliveringOutbox) {
+            shouldRedeliverOutbox = true;
+            return;
+        }
+        isDeliveringOutbox = true;
+
+        try {
+            do {
+                shouldRedeliverOutbox = false;
+                for (const message of await messageRepository.findInOutbox()) {
+                    // Failed messages wait for the user to retry them
+                    if (message.deliveryStatus === 'failed') continue;
+                    // Later messages wait as well, so they are answered in order
+                    if (!(await deliverQueuedMessage(message))) break;
+                }
+            } while (shouldRedeliverOutbox);
+        } catch (error) {
+            logger.error('ConversationStore', 'Outbox delivery failed:', error);
+        } finally {
+            isDeliveringOutbox = false;
+        }
+    },
+
+    retryQueuedMessage: async (messageId) => {
+        const message = await messageRepository.findById(messageId);
+        if (message?.deliveryStatus !== 'failed') return;
+
+        await setDeliveryStatus(message, 'queued');
+        await get().deliverOutbox();
+    },
+
+    sendQueuedMessageTo: async (messageId, llmId, model) => {
+        const message = get().getCurrentMessages().find((m) => m.id === messageId);
+        if (!message?.deliveryStatus || message.deliveryStatus === 'sending') return;
+
+        await get().setActiveLLM(llmId, model);
+        if (!(await deliverQueuedMessage(message))) {
+            set({ error: 'Wait for the current response to finish, then try again.' });
+        }
     },
 
     clearError: () => {
@@ -677,3 +975,863 @@ export const useConversationStore = create<ConversationStore>((set, get) => ({
     },
 }));
 
+/**
+ * Append messages to the end of a conversation's active branch (or under parentId),
+ * chaining each message to the previous one, and make the last one the active leaf
+ * unless moveLeaf is false.
+ */
+async function appendToBranch(
+    conversationId: string,
+    newMessages: Message[],
+    parentId: string | undefined = getLeafId(conversationId),
+    moveLeaf = true
+): Promise<void> {
+    const set = useConversationStore.setState;
+    const linked: Message[] = [];
+    for (const message of newMessages) {
+        linked.push({ ...message, parentId: linked[linked.length - 1]?.id ?? parentId });
+    }
+
+    await messageRepository.createBatch(linked);
+    set((state) => ({
+        messages: {
+            ...state.messages,
+            [conversationId]: [...(state.messages[conversationId] || []), ...linked],
+        },
+    }));
+    if (moveLeaf) {
+        await useConversationStore.getState().setActiveLeaf(conversationId, linked[linked.length - 1].id);
+    }
+}
+
+/**
+ * Append a response under parentId. The active leaf only follows when it was parentId,
+ * so an answer arriving in the background never moves the user off the branch they chose.
+ */
+async function appendReply(conversationId: string, replies: Message[], parentId: string | undefined): Promise<void> {
+    await appendToBranch(conversationId, replies, parentId, getLeafId(conversationId) === parentId);
+}
+
+/**
+ * Update the outbox state of a message, in the database and in the loaded messages.
+ */
+async function setDeliveryStatus(
+    message: Message,
+    deliveryStatus?: MessageDeliveryStatus,
+    deliveryError?: string
+): Promise<Message> {
+    const updated: Message = { ...message, deliveryStatus, deliveryError };
+    await messageRepository.update(updated);
+    useConversationStore.setState((state) => {
+        const messages = state.messages[message.conversationId];
+        if (!messages) return {};
+        return {
+            messages: {
+                ...state.messages,
+                [message.conversationId]: messages.map((m) => (m.id === message.id ? updated : m)),
+            },
+        };
+    });
+    return updated;
+}
+
+/**
+ * Answer a message from the outbox with its conversation's provider/model.
+ * Resolves false when it has to wait (offline, or another response is being generated).
+ */
+async function deliverQueuedMessage(message: Message): Promise<boolean> {
+    const get = useConversationStore.getState;
+    const set = useConversationStore.setState;
+    if (get().isStreaming || get().isSendingMessage) return false;
+
+    // Deleted conversations take their messages with them
+    const conversation = get().conversations.find((c) => c.id === message.conversationId);
+    if (!conversation) return true;
+
+    const llmConfig = useLLMStore.getState().getConfigById(conversation.providerId);
+    if (!llmConfig) {
+        await setDeliveryStatus(message, 'failed', 'No LLM configured. Please add an LLM in settings.');
+        return true;
+    }
+    if (isLocalProvider(llmConfig.provider)) {
+        const isLoaded = await loadTargetModel(llmConfig, conversation.modelId).catch(() => false);
+        if (!isLoaded) {
+            await setDeliveryStatus(message, 'failed', `Model ${conversation.modelId} could not be loaded`);
+            return true;
+        }
+    } else if (!connectivityService.isOnline) {
+        return false;
+    }
+
+    // The answer goes under the queued message, leaving the user's branch as it is
+    if (!get().messages[conversation.id]) {
+        await get().loadMessages(conversation.id);
+    }
+
+    logger.log('ConversationStore', 'Delivering queued message', message.id);
+    const previousError = get().error;
+    const sending = await setDeliveryStatus(message, 'sending');
+    const error = await generateResponse(conversation.id, llmConfig, sending);
+
+    // The outcome is shown on the message; keep whatever error the chat was showing
+    if (get().error === (error ? error.message : null)) {
+        set({ error: previousError });
+    }
+
+    if (!error) {
+        // Cancelled before anything was written: keep it in the outbox UI so it can be retried
+        const isAnswered = (get().messages[conversation.id] || []).some((m) => m.parentId === sending.id);
+        if (isAnswered) {
+            await setDeliveryStatus(sending, undefined);
+        } else {
+            await setDeliveryStatus(sending, 'failed', 'Response was cancelled');
+        }
+        return true;
+    }
+
+    // Connection lost during the request: wait for it to come back
+    if (!connectivityService.isOnline) {
+        await setDeliveryStatus(sending, 'queued');
+        return false;
+    }
+    await setDeliveryStatus(sending, 'failed', error.message);
+    return true;
+}
+
+/**
+ * Get the id of the last message on a conversation's active branch.
+ */
+function getLeafId(conversationId: string): string | undefined {
+    const { conversations, messages } = useConversationStore.getState();
+    const conversation = conversations.find((c) => c.id === conversationId);
+    const branch = getActiveBranch(messages[conversationId] || [], conversation?.activeLeafId);
+    return branch[branch.length - 1]?.id;
+}
+
+/**
+ * Stop a background title request using the given (local) client
+ */
+async function stopTitleRequestOn(client: { interrupt: () => void }): Promise<void> {
+    if (activeTitleRequest?.client === client) {
+        activeTitleRequest.client.interrupt();
+        await activeTitleRequest.done;
+    }
+}
+
+/**
+ * Whether a conversation still has the placeholder title from its first message
+ * and automatic titles are enabled.
+ */
+function shouldGenerateTitle(conversationId: string): boolean {
+    if (!useSettingsStore.getState().settings.titleGeneration.enabled) return false;
+
+    const { conversations, messages } = useConversationStore.getState();
+    const conversation = conversations.find((c) => c.id === conversationId);
+    if (!conversation) return false;
+
+    const exchange = getFirstExchange(getActiveBranch(messages[conversationId] || [], conversation.activeLeafId));
+    return !!exchange && conversation.title === getFallbackTitle(exchange.user.content);
+}
+
+/**
+ * Create a user message under parentId in the current conversation and generate the response.
+ */
+async function sendUserMessage(
+    content: string,
+    selectedSourceIds: number[] | undefined,
+    parentId: string | undefined,
+    images: MessageImage[] = []
+): Promise<void> {
+    const get = useConversationStore.getState;
+    const set = useConversationStore.setState;
+
+    const { currentConversationId, conversations, isStreaming, isSendingMessage } = get();
+    if (!currentConversationId || (!content.trim() && images.length === 0) || isStreaming || isSendingMessage) return;
+
+    const conversation = conversations.find((c) => c.id === currentConversationId);
+    if (!conversation) return;
+
+    // Use new field
+    const configId = conversation.providerId || '';
+    const llmConfig = useLLMStore.getState().getConfigById(configId);
+    if (!llmConfig) {
+        set({ error: 'No LLM configured. Please add an LLM in settings.' });
+        return;
+    }
+
+    // The outbox answers prompts in order, so nothing can follow one that is still waiting
+    const parent = parentId ? get().messages[currentConversationId]?.find((m) => m.id === parentId) : undefined;
+    if (parent?.deliveryStatus) {
+        set({ error: 'The previous message is waiting to be sent. Retry it or send it to a local model first.' });
+        return;
+    }
+
+    // Remote providers can't be reached offline: the prompt waits in the outbox
+    const isQueued = conversation.type !== 'compare'
+        && !isLocalProvider(llmConfig.provider)
+        && !connectivityService.isOnline;
+
+    const now = Date.now();
+
+    // Add the current members of collections attached to the conversation or its persona
+    const persona = conversation.personaId
+        ? usePersonaStore.getState().getPersonaById(conversation.personaId)
+        : undefined;
+    const collectionIds = new Set([...(conversation.collectionIds || []), ...(persona?.collectionIds || [])]);
+    const collections = collectionIds.size > 0
+        ? (await sourceCollectionRepository.findAll()).filter((c) => collectionIds.has(c.id))
+        : [];
+    const sourceIds = Array.from(new Set([
+        ...(selectedSourceIds || []),
+        ...collections.flatMap((c) => c.sourceIds),
+    ]));
+
+    // Generate RAG context if sources are selected - RAG store handles lazy init internally
+    let contextResult: RagContextResult = { contextMap: {}, contextString: '', citations: [] };
+
+    if (sourceIds.length > 0 && content.trim()) {
+        contextResult = await useRAGRuntimeStore.getState().generateContext(content, sourceIds, collections);
+
+        // Set contextPrompt on conversation if not already set (first time sources attached)
+        if (!conversation.contextPrompt) {
+            try {
+                const updatedConversation = await conversationRepository.update({
+                    ...conversation,
+                    contextPrompt: CONTEXT_INSTRUCTION,
+                });
+                set((state) => ({
+                    conversations: state.conversations.map((c) =>
+                        c.id === currentConversationId ? updatedConversation : c
+                    ),
+                }));
+                logger.log('ConversationStore', 'Set contextPrompt on conversation (first source attached)');
+            } catch (error) {
+                logger.error('ConversationStore', 'Failed to update contextPrompt:', error);
+            }
+        }
+    }
+
+    // Create user message - context stored in message.context field
+    const conversationModelId = conversation.modelId || '';
+
+    const userMessage: Message = {
+        id: generateId(),
+        conversationId: currentConversationId,
+        role: 'user',
+        content: content.trim(),
+        contentType: images.length > 0 ? 'mixed' : 'text',
+        images: images.length > 0 ? images : undefined,
+        timestamp: now,
+        modelId: conversationModelId,
+        // Store context in dedicated field (NOT in content)
+        context: contextResult.contextString || undefined,
+        contextIds: sourceIds.length > 0 ? sourceIds : undefined,
+        citations: contextResult.citations.length > 0 ? contextResult.citations : undefined,
+        deliveryStatus: isQueued ? 'queued' : undefined,
+    };
+
+    // Save user message and update UI
+    try {
+        set({ isSendingMessage: true, error: null });
+        await appendToBranch(currentConversationId, [userMessage], parentId);
+
+        // Update conversation title if first message
+        const allMessages = get().messages[currentConversationId] || [];
+        if (allMessages.filter((m) => m.role === 'user').length === 1 && content.trim()) {
+            await get().updateConversationTitle(currentConversationId, getFallbackTitle(content.trim()));
+        }
+    } catch (error) {
+        set({
+            error: error instanceof Error ? error.message : 'Failed to send message',
+            isSendingMessage: false,
+        });
+        return;
+    }
+
+    if (isQueued) {
+        logger.log('ConversationStore', 'Offline: message queued in the outbox');
+        set({ isSendingMessage: false });
+        return;
+    }
+
+    if (conversation.type === 'compare') {
+        await generateComparison(currentConversationId, userMessage);
+    } else {
+        await generateResponse(currentConversationId, llmConfig, userMessage);
+    }
+}
+
+/**
+ * Generate the model's response to userMessage.
+ * Tool calls and the final assistant message are appended under it; the active leaf
+ * follows them only when userMessage was the active leaf.
+ * Transient failures are retried with backoff, then the fallback chain is tried in order.
+ * Resolves with the error that ended generation (null when answered or cancelled).
+ */
+async function generateResponse(
+    currentConversationId: string,
+    llmConfig: LLMConfig,
+    userMessage: Message
+): Promise<Error | null> {
+    const get = useConversationStore.getState;
+    const set = useConversationStore.setState;
+
+    const getConversation = () => get().conversations.find((c) => c.id === currentConversationId);
+    const conversation = getConversation();
+    if (!conversation) return null;
+
+    set({ isSendingMessage: true, streamingConversationId: currentConversationId, error: null });
+    let replyParentId = userMessage.id;
+    activeReplyParentId = replyParentId;
+
+    try {
+        // Targets tried in order when the provider keeps failing with transient errors
+        const persona = conversation.personaId
+            ? usePersonaStore.getState().getPersonaById(conversation.personaId)
+            : undefined;
+        const chain = getFallbackChain(conversation, llmConfig, persona);
+        const failedAttempts: MessageFailedAttempt[] = [];
+        let targetIndex = 0;
+        let target = chain[0];
+
+        // Build chat messages from the branch ending at the reply's parent using helper
+        // (uses conversation with contextPrompt), trimmed to fit the provider/model context window
+        let tokenBudget = getPromptTokenBudget(target.llmConfig, target.modelId);
+        let loreEntries: MessageLoreEntry[] = [];
+        const buildChatMessages = () => {
+            const latestConversation = getConversation() || conversation;
+            const prepared = prepareChatMessages(
+                latestConversation,
+                getActiveBranch(get().messages[currentConversationId] || [], replyParentId),
+                tokenBudget,
+                persona
+            );
+            loreEntries = prepared.loreEntries;
+            set((state) => ({
+                promptTrimMap: {
+                    ...state.promptTrimMap,
+                    [currentConversationId]: {
+                        excludedMessageIds: prepared.excludedMessageIds,
+                        strippedContextMessageIds: prepared.strippedContextMessageIds,
+                    },
+                },
+            }));
+            return prepared.messages;
+        };
+
+        let client = llmClientFactory.getClient(target.llmConfig);
+        await stopTitleRequestOn(client);
+        await stopApiGenerationOn(client);
+
+        // Store reference for interrupt calls
+        activeProvider = client;
+        activeTarget = { providerId: target.llmConfig.id, modelId: target.modelId };
+
+        // Clear current message for this conversation before starting
+        get().clearCurrentMessage(currentConversationId);
+
+        // Set isStreaming=true - use new callbacks for streaming updates
+        set({ isStreaming: true });
+
+        // Tools are only offered in chat mode when enabled for the conversation
+        const toolsEnabled = conversation.type !== 'generate' && !!conversation.toolsEnabled;
+
+        // Generation overrides: persona defaults, then this conversation's own settings
+        const personaSettings = persona?.generationSettings;
+        const conversationSettings = conversation.generationSettings;
+
+        // Timing of the step that produces the answer (the last one)
+        let startedAt = 0;
+        let firstTokenAt: number | undefined;
+        let finalChunk: LLMStreamChunk | undefined;
+        const onToken = (content: string) => {
+            firstTokenAt ??= Date.now();
+            get().updateCurrentMessage(currentConversationId, content);
+        };
+        const onThinking = (content: string) => {
+            firstTokenAt ??= Date.now();
+            get().updateCurrentThinkingMessage(currentConversationId, content);
+        };
+
+        // Send one step to the current target and return the tool calls it requested
+        const runStep = async (step: number): Promise<LLMToolCall[]> => {
+            startedAt = Date.now();
+            firstTokenAt = undefined;
+
+            // Choose stream method based on conversation type
+            let stream: AsyncGenerator<LLMStreamChunk, void, unknown>;
+
+            if (conversation.type === 'generate') {
+                // Generate mode: use system + prompt (no message history)
+                const systemPrompt = [
+                    conversation.personaPrompt,
+                    conversation.contextPrompt,
+                    getFormatInstruction(conversation.responseFormat),
+                ].filter(Boolean).join('\n\n');
+
+                // Build prompt with context if present
+                let prompt = userMessage.content;
+                if (userMessage.context) {
+                    prompt = `<context>\n${userMessage.context}\n</context>\n${userMessage.content}`;
+                }
+
+                logger.log('ConversationStore', 'Calling sendGenerateStream (generate mode)');
+                stream = client.sendGenerateStream({
+                    llmConfig: target.llmConfig,
+                    system: systemPrompt,
+                    prompt,
+                    model: target.modelId,
+                    thinkingEnabled: conversation.thinkingEnabled,
+                    personaSettings,
+                    conversationSettings,
+                    responseFormat: conversation.responseFormat,
+                    onToken,
+                    onThinking,
+                });
+            } else {
+                // Chat mode: use full message history (including tool calls/results so far)
+                const chatMessages = buildChatMessages();
+                logger.log('ConversationStore', 'Calling sendMessageStream with', chatMessages.length, 'messages');
+                stream = client.sendMessageStream({
+                    llmConfig: target.llmConfig,
+                    messages: chatMessages,
+                    model: target.modelId,
+                    thinkingEnabled: conversation.thinkingEnabled,
+                    personaSettings,
+                    conversationSettings,
+                    // Stop offering tools once the step limit is reached so the model has to answer
+                    tools: toolsEnabled && step < MAX_TOOL_STEPS ? toolRegistry.getSpecs() : undefined,
+                    responseFormat: conversation.responseFormat,
+                    onToken,
+                    onThinking,
+                });
+            }
+
+            // Wait for stream to complete - callbacks update currentMessageMap
+            for await (const chunk of stream) {
+                if (chunk.done) {
+                    finalChunk = chunk;
+                    return chunk.toolCalls || [];
+                }
+            }
+            return [];
+        };
+
+        // Move on to the next target of the chain that can be used; false when none is left
+        const fallBack = async (error: LLMError, retries: number): Promise<boolean> => {
+            failedAttempts.push({
+                providerId: target.llmConfig.id,
+                modelId: target.modelId,
+                code: error.code,
+                error: error.message,
+                retries,
+            });
+
+            while (++targetIndex < chain.length) {
+                target = chain[targetIndex];
+                logger.warn('ConversationStore', `Falling back to ${target.llmConfig.name} (${target.modelId})`);
+
+                client = llmClientFactory.getClient(target.llmConfig);
+                activeProvider = client;
+                activeTarget = { providerId: target.llmConfig.id, modelId: target.modelId };
+                tokenBudget = getPromptTokenBudget(target.llmConfig, target.modelId);
+                if (!isLocalProvider(target.llmConfig.provider)) return true;
+
+                await stopTitleRequestOn(client);
+                await stopApiGenerationOn(client);
+                const isLoaded = await loadTargetModel(target.llmConfig, target.modelId).catch(() => false);
+                if (!get().isStreaming) return false;
+                if (isLoaded) return true;
+
+                failedAttempts.push({
+                    providerId: target.llmConfig.id,
+                    modelId: target.modelId,
+                    code: LLMErrorCode.MODEL_NOT_FOUND,
+                    error: `Model ${target.modelId} could not be loaded`,
+                    retries: 0,
+                });
+            }
+            return false;
+        };
+
+        // Chat mode loops while the model requests tools: call -> execute -> send results back
+        for (let step = 0; ; step++) {
+            let toolCalls: LLMToolCall[] = [];
+
+            // Retry transient failures with backoff, then fall back to the next target
+            for (let retries = 0; ;) {
+                try {
+                    toolCalls = await runStep(step);
+                    break;
+                } catch (error) {
+                    if (!isRetryableLLMError(error) || !get().isStreaming) throw error;
+                    get().clearCurrentMessage(currentConversationId);
+
+                    if (!isLocalProvider(target.llmConfig.provider) && retries < MAX_LLM_RETRIES) {
+                        const delay = getRetryDelay(retries, error);
+                        retries++;
+                        logger.warn('ConversationStore', `${error.message}; retrying in ${Math.round(delay)}ms`);
+                        await sleep(delay);
+                    } else {
+                        const hasNext = await fallBack(error, retries);
+                        if (!get().isStreaming) return null;
+                        if (!hasNext) throw error;
+                        retries = 0;
+                    }
+
+                    // Cancelled while waiting
+                    if (!get().isStreaming) return null;
+                }
+            }
+
+            // Check if streaming was cancelled - if so, cancelStreaming already saved the message
+            // This prevents duplicate messages when user interrupts during generation
+            if (!get().isStreaming) {
+                logger.log('ConversationStore', 'Streaming was cancelled, skipping message save (handled by cancelStreaming)');
+                return null;
+            }
+
+            if (toolCalls.length === 0) break;
+
+            logger.log('ConversationStore', 'Model requested', toolCalls.length, 'tool call(s)');
+
+            // Keep any text the model produced alongside the tool calls
+            const stepContent = get().getCurrentMessage(currentConversationId);
+            const stepThinking = get().getCurrentThinkingMessage(currentConversationId);
+            get().clearCurrentMessage(currentConversationId);
+
+            const toolMessages: Message[] = [];
+            if (stepContent.trim() || stepThinking.trim()) {
+                toolMessages.push({
+                    id: generateId(),
+                    conversationId: currentConversationId,
+                    role: 'assistant',
+                    content: stepContent,
+                    contentType: 'text',
+                    timestamp: Date.now(),
+                    modelId: target.modelId,
+                    providerId: target.llmConfig.id,
+                    thinkingContent: stepThinking || undefined,
+                });
+            }
+
+            for (const call of toolCalls) {
+                const result = await toolRegistry.execute(call, {
+                    conversationId: currentConversationId,
+                    sourceIds: userMessage.contextIds || [],
+                });
+                const callInfo = { callId: call.id, toolName: call.name, args: call.args };
+                toolMessages.push({
+                    id: generateId(),
+                    conversationId: currentConversationId,
+                    role: 'tool-call',
+                    content: '',
+                    contentType: 'text',
+                    timestamp: Date.now(),
+                    modelId: target.modelId,
+                    providerId: target.llmConfig.id,
+                    toolCall: callInfo,
+                }, {
+                    id: generateId(),
+                    conversationId: currentConversationId,
+                    role: 'tool-result',
+                    content: result.output,
+                    contentType: 'text',
+                    timestamp: Date.now(),
+                    modelId: target.modelId,
+                    providerId: target.llmConfig.id,
+                    toolCall: { ...callInfo, isError: result.isError || undefined },
+                });
+            }
+
+            await appendReply(currentConversationId, toolMessages, replyParentId);
+            replyParentId = toolMessages[toolMessages.length - 1].id;
+            activeReplyParentId = replyParentId;
+
+            // Cancelled while tools were running
+            if (!get().isStreaming) return null;
+        }
+
+        // Get the final content from currentMessageMap (populated by callbacks during streaming)
+        const fullContent = get().getCurrentMessage(currentConversationId);
+        const thinkingContent = get().getCurrentThinkingMessage(currentConversationId);
+
+        // Save assistant message with the collected content
+        const endedAt = Date.now();
+        const assistantMessage: Message = {
+            id: generateId(),
+            conversationId: currentConversationId,
+            role: 'assistant',
+            content: fullContent,
+            contentType: 'text',
+            timestamp: endedAt,
+            // The target that answered, which differs from the conversation's after a fallback
+            modelId: target.modelId,
+            providerId: target.llmConfig.id,
+            thinkingContent: thinkingContent || undefined,
+            outputValidation: validateStructuredOutput(fullContent, conversation.responseFormat),
+            loreEntries: loreEntries.length > 0 ? loreEntries : undefined,
+            failedAttempts: failedAttempts.length > 0 ? failedAttempts : undefined,
+            ...measureGeneration({
+                text: fullContent + thinkingContent,
+                startedAt,
+                firstTokenAt,
+                endedAt,
+                usage: finalChunk?.usage,
+                timings: finalChunk?.timings,
+            }),
+        };
+
+        await appendReply(currentConversationId, [assistantMessage], replyParentId);
+
+        // Clear streaming content
+        set((state) => {
+            const { [currentConversationId]: _, ...restMessages } = state.currentMessageMap;
+            const { [currentConversationId]: __, ...restThinking } = state.currentThinkingMessageMap;
+            return {
+                currentMessageMap: restMessages,
+                currentThinkingMessageMap: restThinking,
+                isStreaming: false,
+                isSendingMessage: false,
+            };
+        });
+
+        // Update conversation timestamp
+        await conversationRepository.touch(currentConversationId);
+
+        // Replace the placeholder title after the first exchange (not awaited: runs in the background)
+        if (shouldGenerateTitle(currentConversationId)) {
+            get().generateTitle(currentConversationId, true);
+        }
+        return null;
+
+    } catch (error) {
+        if (error instanceof LLMError && error.code === 'CANCELLED') {
+            // User cancelled, just reset state
+            get().clearCurrentMessage(currentConversationId);
+            set({ isSendingMessage: false, isStreaming: false });
+            return null;
+        }
+
+        get().clearCurrentMessage(currentConversationId);
+        set({
+            error: error instanceof Error ? error.message : 'Failed to send message',
+            isSendingMessage: false,
+            isStreaming: false,
+        });
+        return error instanceof Error ? error : new Error('Failed to send message');
+    } finally {
+        activeProvider = null;
+        activeTarget = null;
+        activeReplyParentId = undefined;
+        set({ streamingConversationId: null });
+    }
+}
+
+/**
+ * Answer userMessage (the active leaf) with every target of a compare conversation.
+ * Remote targets run in parallel; local targets run one after another since each
+ * may need its model loaded. Answers are saved as siblings under userMessage.
+ */
+async function generateComparison(conversationId: string, userMessage: Message): Promise<void> {
+    const get = useConversationStore.getState;
+    const set = useConversationStore.setState;
+
+    const conversation = get().conversations.find((c) => c.id === conversationId);
+    const targets = conversation?.compareTargets || [];
+    if (!conversation || targets.length === 0) {
+        set({ error: 'No models to compare', isSendingMessage: false });
+        return;
+    }
+
+    const branch = getActiveBranch(get().messages[conversationId] || [], conversation.activeLeafId);
+    const persona = conversation.personaId
+        ? usePersonaStore.getState().getPersonaById(conversation.personaId)
+        : undefined;
+    const personaSettings = persona?.generationSettings;
+
+    const updateEntry = (index: number, updates: Partial<CompareRunEntry>) => {
+        set((state) => {
+            const run = state.compareRuns[conversationId];
+            if (!run || run.userMessageId !== userMessage.id) return {};
+            return {
+                compareRuns: {
+                    ...state.compareRuns,
+                    [conversationId]: {
+                        ...run,
+                        entries: run.entries.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)),
+                    },
+                },
+            };
+        });
+    };
+
+    const failEntry = (index: number, error: unknown) => {
+        updateEntry(index, { status: 'error', error: error instanceof Error ? error.message : 'Failed to generate' });
+    };
+
+    set((state) => ({
+        isStreaming: true,
+        error: null,
+        compareRuns: {
+            ...state.compareRuns,
+            [conversationId]: {
+                userMessageId: userMessage.id,
+                entries: targets.map((target) => ({ target, status: 'waiting', content: '', thinking: '' })),
+            },
+        },
+    }));
+
+    // Stopping the comparison interrupts every running target
+    const clients = new Set<{ interrupt: () => void }>();
+    activeProvider = { interrupt: () => clients.forEach((client) => client.interrupt()) };
+
+    const answerTarget = async (target: CompareTarget, index: number) => {
+        if (!get().isStreaming) {
+            updateEntry(index, { status: 'stopped' });
+            return;
+        }
+
+        const llmConfig = useLLMStore.getState().getConfigById(target.providerId);
+        if (!llmConfig) {
+            updateEntry(index, { status: 'error', error: 'Provider not found' });
+            return;
+        }
+
+        const isLocal = isLocalProvider(llmConfig.provider);
+        if (isLocal) {
+            updateEntry(index, { status: 'loading' });
+            if (!await loadTargetModel(llmConfig, target.modelId).catch(() => false)) {
+                updateEntry(index, { status: 'error', error: `Model "${target.modelId}" could not be loaded` });
+                return;
+            }
+        }
+
+        // Remote targets get their own client so each can be interrupted
+        const client = isLocal ? llmClientFactory.getClient(llmConfig) : new AISDKProvider();
+        if (isLocal) {
+            await stopTitleRequestOn(client);
+            await stopApiGenerationOn(client);
+        }
+        clients.add(client);
+
+        const { messages, loreEntries } = prepareChatMessages(
+            conversation,
+            branch,
+            getPromptTokenBudget(llmConfig, target.modelId),
+            persona
+        );
+        const startedAt = Date.now();
+        let firstTokenAt: number | undefined;
+        let content = '';
+        let thinking = '';
+        let finalChunk: LLMStreamChunk | undefined;
+
+        updateEntry(index, { status: 'streaming' });
+        try {
+            const stream = client.sendMessageStream({
+                llmConfig,
+                messages,
+                model: target.modelId,
+                thinkingEnabled: conversation.thinkingEnabled,
+                personaSettings,
+                conversationSettings: conversation.generationSettings,
+                responseFormat: conversation.responseFormat,
+                onToken: (text: string) => {
+                    firstTokenAt ??= Date.now();
+                    content = text;
+                    updateEntry(index, { content: text });
+                },
+                onThinking: (text: string) => {
+                    firstTokenAt ??= Date.now();
+                    thinking = text;
+                    updateEntry(index, { thinking: text });
+                },
+            });
+            for await (const chunk of stream) {
+                if (chunk.done) {
+                    finalChunk = chunk;
+                    break;
+                }
+            }
+        } catch (error) {
+            if (!(error instanceof LLMError && error.code === LLMErrorCode.CANCELLED)) {
+                failEntry(index, error);
+                return;
+            }
+        } finally {
+            clients.delete(client);
+        }
+
+        const interrupted = !get().isStreaming;
+        if (interrupted && !content.trim() && !thinking.trim()) {
+            updateEntry(index, { status: 'stopped' });
+            return;
+        }
+
+        const endedAt = Date.now();
+        const answer: Message = {
+            id: generateId(),
+            conversationId,
+            parentId: userMessage.id,
+            role: 'assistant',
+            content,
+            contentType: 'text',
+            timestamp: endedAt,
+            modelId: target.modelId,
+            providerId: target.providerId,
+            thinkingContent: thinking || undefined,
+            outputValidation: interrupted ? undefined : validateStructuredOutput(content, conversation.responseFormat),
+            loreEntries: loreEntries.length > 0 ? loreEntries : undefined,
+            ...measureGeneration({
+                text: content + thinking,
+                startedAt,
+                firstTokenAt,
+                endedAt,
+                usage: finalChunk?.usage,
+                timings: finalChunk?.timings,
+            }),
+            interrupted: interrupted || undefined,
+        };
+
+        try {
+            await messageRepository.create(answer);
+        } catch (error) {
+            failEntry(index, error);
+            return;
+        }
+        set((state) => ({
+            messages: {
+                ...state.messages,
+                [conversationId]: [...(state.messages[conversationId] || []), answer],
+            },
+        }));
+        updateEntry(index, { status: interrupted ? 'stopped' : 'done' });
+    };
+
+    const isLocalTarget = (target: CompareTarget) => {
+        const config = useLLMStore.getState().getConfigById(target.providerId);
+        return !!config && isLocalProvider(config.provider);
+    };
+    // A failing target marks only its own column; the others keep streaming
+    const settleTarget = (target: CompareTarget, index: number) =>
+        answerTarget(target, index).catch((error) => failEntry(index, error));
+    const indexed = targets.map((target, index) => ({ target, index }));
+
+    try {
+        await Promise.allSettled([
+            ...indexed.filter(({ target }) => !isLocalTarget(target)).map(({ target, index }) => settleTarget(target, index)),
+            (async () => {
+                for (const { target, index } of indexed.filter(({ target }) => isLocalTarget(target))) {
+                    await settleTarget(target, index);
+                }
+            })(),
+        ]);
+        await conversationRepository.touch(conversationId);
+    } catch (error) {
+        set({ error: error instanceof Error ? error.message : 'Failed to compare models' });
+    } finally {
+        activeProvider = null;
+        set({ isStreaming: false, isSendingMessage: false });
+    }
+}
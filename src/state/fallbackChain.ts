@@ -0,0 +1,51 @@
+/**
+ * Fallback Chain Helpers
+ *
+ * A conversation (or its persona) can list provider/model pairs to try when its own
+ * provider keeps failing with transient errors, e.g. a cloud model, then a self-hosted
+ * Ollama server, then an on-device llama.cpp model. The conversation's chain replaces
+ * the persona's; the conversation's own provider/model always comes first.
+ */
+
+import { Conversation, LLMConfig, ModelTarget, Persona } from '../core/types';
+import { isSameTarget } from './compareHelpers';
+import { useLLMStore } from './llmStore';
+
+export const MAX_FALLBACK_TARGETS = 3;
+
+/**
+ * Target of the chain with its provider config resolved
+ */
+export interface FallbackChainEntry {
+    llmConfig: LLMConfig;
+    modelId: string;
+}
+
+/**
+ * Fallback targets that apply to the conversation (its own, else the persona's)
+ */
+export function getFallbackTargets(conversation: Conversation, persona?: Persona): ModelTarget[] {
+    return conversation.fallbackTargets?.length ? conversation.fallbackTargets : persona?.fallbackTargets || [];
+}
+
+/**
+ * Targets to try in order, starting with the conversation's own provider/model.
+ * Targets whose provider was deleted or disabled, that have no model, or that repeat
+ * an earlier target are skipped.
+ */
+export function getFallbackChain(
+    conversation: Conversation,
+    llmConfig: LLMConfig,
+    persona?: Persona
+): FallbackChainEntry[] {
+    const chain: FallbackChainEntry[] = [{ llmConfig, modelId: conversation.modelId || '' }];
+    const { getConfigById } = useLLMStore.getState();
+
+    for (const target of getFallbackTargets(conversation, persona)) {
+        const config = getConfigById(target.providerId);
+        if (!config?.isEnabled || !target.modelId) continue;
+        if (chain.some((entry) => isSameTarget({ providerId: entry.llmConfig.id, modelId: entry.modelId }, target))) continue;
+        chain.push({ llmConfig: config, modelId: target.modelId });
+    }
+    return chain;
+}
@@ -1,3 +1,4 @@
+export { useApiServerStore } from './apiServerStore';
 export { useConversationRuntimeStore } from './conversationRuntimeStore';
 export { useConversationStore } from './conversationStore';
 export { isLocalProvider, useExecutorchLLMStore } from './executorchLLMStore';
@@ -7,7 +8,9 @@ export { useOllamaModelStore } from './ollamaModelStore';
 
 export { useModelDownloadStore } from './modelDownloadStore';
 export { usePersonaStore } from './personaStore';
+export { usePromptTemplateStore } from './promptTemplateStore';
 export { useSettingsStore } from './settingsStore';
+export { useSourceCollectionStore } from './sourceCollectionStore';
 export { useSourceStore } from './sourceStore';
 
 // RAG stores - new architecture
@@ -10,19 +10,65 @@ import { create } from 'zustand';
 import { DownloadedModel } from '../core/types';
 
 // Type definitions for llama.rn (package provides these at runtime)
+interface LlamaToolCall {
+    type: 'function';
+    id?: string;
+    function: { name: string; arguments: string };
+}
+
+interface LlamaTimings {
+    prompt_n: number;
+    prompt_ms: number;
+    predicted_n: number;
+    predicted_ms: number;
+    predicted_per_second: number;
+}
+
+interface LlamaCompletionResult {
+    text: string;
+    tool_calls?: LlamaToolCall[];
+    tokens_predicted?: number;
+    tokens_evaluated?: number;
+    timings?: LlamaTimings;
+}
+
+interface LlamaMessagePart {
+    type: 'text' | 'image_url';
+    text?: string;
+    image_url?: { url: string };
+}
+
 interface LlamaContext {
     completion: (
         params: {
-            messages?: Array<{ role: string; content: string }>;
+            messages?: Array<{
+                role: string;
+                content: string | LlamaMessagePart[];
+                tool_calls?: LlamaToolCall[];
+                tool_call_id?: string;
+            }>;
             prompt?: string;
             n_predict?: number;
             stop?: string[];
             temperature?: number;
             top_p?: number;
+            top_k?: number;
+            penalty_repeat?: number;
+            penalty_present?: number;
+            penalty_freq?: number;
+            grammar?: string;
+            json_schema?: string;
+            jinja?: boolean;
+            tools?: Array<{
+                type: 'function';
+                function: { name: string; description: string; parameters: object };
+            }>;
+            tool_choice?: string;
         },
         callback: (data: { token: string }) => void
-    ) => Promise<{ text: string }>;
+    ) => Promise<LlamaCompletionResult>;
     stopCompletion: () => void;
+    initMultimodal: (params: { path: string; use_gpu?: boolean }) => Promise<boolean>;
     release: () => Promise<void>;
 }
 
@@ -83,6 +129,9 @@ interface LlamaCppLLMState {
     isReady: boolean;
     error: string | null;
 
+    // Image input is available (multimodal projector loaded)
+    isMultimodal: boolean;
+
     // Generation state
     currentResponse: string;
     isGenerating: boolean;
@@ -155,6 +204,7 @@ export const useLlamaCppLLMStore = create<LlamaCppLLMStore>((set, get) => ({
     isLoading: false,
     isReady: false,
     error: null,
+    isMultimodal: false,
     currentResponse: '',
     isGenerating: false,
     isProcessingPrompt: false,
@@ -192,6 +242,7 @@ export const useLlamaCppLLMStore = create<LlamaCppLLMStore>((set, get) => ({
             selectedModelName: modelName,
             isLoading: true,
             isReady: false,
+            isMultimodal: false,
             error: null,
         });
 
@@ -201,18 +252,40 @@ export const useLlamaCppLLMStore = create<LlamaCppLLMStore>((set, get) => ({
         try {
             // Initialize llama context with model using dynamic import
             const initLlama = await getInitLlama();
+
+            // Honor the context window configured on the llama-cpp provider so that
+            // prompt budgeting (getPromptTokenBudget) matches the loaded context
+            const { useLLMStore } = await import('./llmStore');
+            const providerNCtx = useLLMStore.getState().configs
+                .find((c) => c.provider === 'llama-cpp')?.llamaCppConfig?.nCtx;
+
             llamaContext = await initLlama({
                 model: downloadedModel.modelFilePath,
-                n_ctx: config.n_ctx,
+                n_ctx: providerNCtx || config.n_ctx,
                 n_gpu_layers: config.n_gpu_layers,
                 use_mlock: config.use_mlock,
             });
 
             console.log('[LlamaCppLLMStore] Model loaded successfully');
 
+            // Vision models ship a separate projector; without it the model is text-only
+            let isMultimodal = false;
+            if (downloadedModel.mmprojFilePath) {
+                try {
+                    isMultimodal = await llamaContext.initMultimodal({
+                        path: downloadedModel.mmprojFilePath,
+                        use_gpu: config.n_gpu_layers > 0,
+                    });
+                    console.log('[LlamaCppLLMStore] Multimodal projector loaded:', isMultimodal);
+                } catch (mmErr) {
+                    console.warn('[LlamaCppLLMStore] Multimodal init failed (text only):', mmErr);
+                }
+            }
+
             set({
                 isLoading: false,
                 isReady: true,
+                isMultimodal,
             });
         } catch (err) {
             console.error('[LlamaCppLLMStore] Load error:', err);
@@ -258,6 +331,7 @@ export const useLlamaCppLLMStore = create<LlamaCppLLMStore>((set, get) => ({
             selectedModelName: null,
             isLoading: false,
             isReady: false,
+            isMultimodal: false,
             error: null,
             currentResponse: '',
             isGenerating: false,
@@ -28,6 +28,7 @@ interface LlamaCppLLMState {
     selectedModelName: string | null;
     isLoading: boolean;
     isReady: boolean;
+    isMultimodal: boolean;
     error: string | null;
     currentResponse: string;
     isGenerating: boolean;
@@ -69,6 +70,7 @@ export const useLlamaCppLLMStore = create<LlamaCppLLMStore>((set, get) => ({
     selectedModelName: null,
     isLoading: false,
     isReady: false,
+    isMultimodal: false,
     error: 'Llama.cpp is not supported on web',
     currentResponse: '',
     isGenerating: false,
@@ -4,10 +4,14 @@
  * Utility functions for building LLM request messages.
  */
 
-import { K_DOCUMENTS_TO_RETRIEVE } from '../config/ragConstants';
-import { ChatMessage } from '../core/llm';
+import { estimateMessageTokens, estimateTokens } from '../core/llm/contextWindow';
+import { getDataUrlMimeType } from '../core/llm/images';
+import { getFormatInstruction } from '../core/llm/structuredOutput';
+import { ChatImage, ChatMessage } from '../core/llm/types';
+import { formatExampleDialogue, replaceCardMacros, selectLore } from '../core/personas';
 import { sourceRepository } from '../core/storage';
-import { Conversation, Message, Persona, Source } from '../core/types';
+import { RAGSearchResult } from '../core/rag/types';
+import { Conversation, Message, MessageCitation, MessageImage, MessageLoreEntry, Persona } from '../core/types';
 
 /**
  * Static context instruction - added to system prompt when sources capability is enabled
@@ -20,7 +24,8 @@ Instructions for using context:
 - If the context directly addresses the user's question, use that information as the primary basis for your response
 - If information from context conflicts with your general knowledge, prioritize the context
 - If the context doesn't contain relevant information say "I don't know" or "The provided context does not contain the information"
-- When citing information from context, you can reference it naturally without formal citations`;
+- The context is split into numbered passages like [1], [2]; cite the passages you use by appending their number in square brackets, e.g. "The warranty lasts two years [2]." or "[1][3]"
+- Only cite passage numbers that appear in the context`;
 
 /**
  * RAG context result from generateRagContext
@@ -30,6 +35,8 @@ export interface RagContextResult {
     contextMap: Record<number, string>;
     /** Single formatted context string for message.context field */
     contextString: string;
+    /** Retrieved chunks numbered as in contextString, for message.citations */
+    citations: MessageCitation[];
 }
 
 /**
@@ -37,27 +44,22 @@ export interface RagContextResult {
  * 
  * @param query - The user's query text
  * @param sourceIds - Selected source IDs to search
- * @param vectorStore - The vector store for similarity search
+ * @param search - Retrieval function (the RAG runtime's hybrid query)
  * @returns Context map and formatted string for storage
  */
 export async function generateRagContext(
     query: string,
     sourceIds: number[],
-    vectorStore: { similaritySearch: Function } | null
+    search: (query: string, sourceIds: number[]) => Promise<RAGSearchResult[]>
 ): Promise<RagContextResult> {
-    const emptyResult: RagContextResult = { contextMap: {}, contextString: '' };
+    const emptyResult: RagContextResult = { contextMap: {}, contextString: '', citations: [] };
 
-    if (!vectorStore || sourceIds.length === 0) {
+    if (sourceIds.length === 0) {
         return emptyResult;
     }
 
     try {
-        const results = await vectorStore.similaritySearch(
-            query,
-            K_DOCUMENTS_TO_RETRIEVE,
-            (value: { metadata?: { documentId?: number } }) =>
-                sourceIds.includes(value.metadata?.documentId || 0)
-        );
+        const results = await search(query, sourceIds);
 
         if (!results || results.length === 0) {
             return emptyResult;
@@ -65,24 +67,32 @@ export async function generateRagContext(
 
         const sources = await sourceRepository.findAll();
         const contextMap: Record<number, string> = {};
+        const citations: MessageCitation[] = [];
 
-        // Aggregate content by source ID
-        results.forEach((item: { content: string; metadata?: { documentId?: number } }) => {
+        // Number each chunk (in ranking order) and aggregate content by source ID
+        results.forEach((item) => {
             const docId = item.metadata?.documentId || 0;
-            if (docId > 0) {
-                if (contextMap[docId]) {
-                    contextMap[docId] += '\n' + item.content.trim();
-                } else {
-                    contextMap[docId] = item.content.trim();
-                }
-            }
+            if (docId <= 0) return;
+
+            const content = item.content.trim();
+            contextMap[docId] = contextMap[docId] ? contextMap[docId] + '\n' + content : content;
+
+            citations.push({
+                index: citations.length + 1,
+                sourceId: docId,
+                sourceName: sources.find((s) => s.id === docId)?.name || item.metadata?.name || `Document ${docId}`,
+                chunkIndex: item.metadata?.chunkIndex,
+                page: item.metadata?.page,
+                score: item.similarity,
+                content,
+            });
         });
 
         // Format single context string
-        const contextString = formatContextString(contextMap, sources);
+        const contextString = formatContextString(citations);
 
-        console.log('[messageHelpers] Generated context for', Object.keys(contextMap).length, 'sources');
-        return { contextMap, contextString };
+        console.log('[messageHelpers] Generated context with', citations.length, 'chunks from', Object.keys(contextMap).length, 'sources');
+        return { contextMap, contextString, citations };
     } catch (error) {
         console.error('[messageHelpers] Error generating RAG context:', error);
         return emptyResult;
@@ -107,27 +117,16 @@ function sanitizeContent(content: string): string {
 }
 
 /**
- * Format context map into a single LLM-readable string.
+ * Format retrieved chunks into a single LLM-readable string of numbered passages.
  */
-function formatContextString(
-    contextMap: Record<number, string>,
-    sources: Source[]
-): string {
-    const parts: string[] = [];
-    let sourceIndex = 1;
-
-    for (const sourceId of Object.keys(contextMap).map(Number)) {
-        const sourceName = sources.find((s) => s.id === sourceId)?.name
-            || `Document ${sourceId}`;
-        // Sanitize content to prevent parsing issues
-        const sanitizedContent = sanitizeContent(contextMap[sourceId]);
-        parts.push(
-            `[Source ${sourceIndex}: ${sourceName}]\n${sanitizedContent}\n[End Source ${sourceIndex}]`
-        );
-        sourceIndex++;
-    }
-
-    return parts.join('\n\n');
+function formatContextString(citations: MessageCitation[]): string {
+    return citations
+        .map((citation) => {
+            const location = citation.page ? `${citation.sourceName}, page ${citation.page}` : citation.sourceName;
+            // Sanitize content to prevent parsing issues
+            return `[${citation.index}] (${location})\n${sanitizeContent(citation.content)}`;
+        })
+        .join('\n\n');
 }
 
 /**
@@ -140,6 +139,7 @@ function formatContextString(
  * Prompt structure (Character Card V2):
  * - Personality traits
  * - Scenario/setting
+ * - Example dialogue
  * - System prompt (main instructions)
  * - Context instruction (RAG support)
  * - Post-history instructions (at end of chat, before response)
@@ -173,6 +173,12 @@ export function compileSystemPrompt(persona: Persona | null, includeRagContext:
         parts.push(`Scenario: ${persona.scenario}`);
     }
 
+    // Example dialogue (cards separate conversations with <START>)
+    const examples = formatExampleDialogue(persona.mes_example);
+    if (examples) {
+        parts.push(`Example dialogue showing how ${persona.name} talks (not part of this conversation):\n\n${examples}`);
+    }
+
     // Main system prompt (V2 field)
     const mainPrompt = persona.system_prompt || '';
     if (mainPrompt) {
@@ -187,7 +193,7 @@ export function compileSystemPrompt(persona: Persona | null, includeRagContext:
     // Post-history instructions are NOT added here - they go after chat history
     // This is handled in prepareChatMessages
 
-    return parts.filter(p => p.trim()).join('\n\n');
+    return replaceCardMacros(parts.filter(p => p.trim()).join('\n\n'), persona.name);
 }
 
 /**
@@ -198,63 +204,260 @@ export function compileSystemPrompt(persona: Persona | null, includeRagContext:
  * @returns Post-history instructions or empty string
  */
 export function getPostHistoryInstructions(persona: Persona | null): string {
-    return persona?.post_history_instructions || '';
+    return persona?.post_history_instructions
+        ? replaceCardMacros(persona.post_history_instructions, persona.name)
+        : '';
+}
+
+/**
+ * Share of the prompt budget set aside for the summary of dropped turns
+ */
+const SUMMARY_BUDGET_RATIO = 0.15;
+
+/**
+ * Maximum characters kept per dropped message in the summary
+ */
+const SUMMARY_SNIPPET_LENGTH = 200;
+
+/**
+ * Result of prepareChatMessages
+ */
+export interface PreparedChatMessages {
+    /** ChatMessage array ready for LLM */
+    messages: ChatMessage[];
+    /** IDs of messages left out of the prompt to fit the context window */
+    excludedMessageIds: string[];
+    /** IDs of user messages whose stale <context> block was stripped */
+    strippedContextMessageIds: string[];
+    /** Estimated prompt size in tokens */
+    estimatedTokens: number;
+    /** Persona lorebook entries triggered by the recent messages and inserted */
+    loreEntries: MessageLoreEntry[];
+}
+
+/**
+ * Format message content with its RAG context prefixed in <context> tags.
+ */
+function formatMessageContent(msg: Message, includeContext: boolean): string {
+    if (includeContext && msg.context && msg.context.trim()) {
+        return `<context>\n${msg.context}\n</context>\n${msg.content}`;
+    }
+    return msg.content;
+}
+
+/**
+ * Convert a stored message to a ChatMessage.
+ * Tool calls become assistant messages carrying toolCalls; tool results become tool messages.
+ */
+function toChatMessage(msg: Message, includeContext: boolean): ChatMessage {
+    if (msg.role === 'tool-call' && msg.toolCall) {
+        return {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: msg.toolCall.callId, name: msg.toolCall.toolName, args: msg.toolCall.args }],
+        };
+    }
+    if (msg.role === 'tool-result' && msg.toolCall) {
+        return {
+            role: 'tool',
+            content: msg.content,
+            toolCallId: msg.toolCall.callId,
+            toolName: msg.toolCall.toolName,
+        };
+    }
+    const images = msg.role === 'user' ? toChatImages(msg.images) : undefined;
+    return {
+        role: msg.role === 'user' || msg.role === 'system' ? msg.role : 'assistant',
+        content: formatMessageContent(msg, includeContext),
+        ...(images && images.length > 0 && { images }),
+    };
+}
+
+/**
+ * Attached images that can be sent to the model (inline data: URLs only).
+ */
+function toChatImages(images?: MessageImage[]): ChatImage[] | undefined {
+    return images
+        ?.filter((image) => image.url.startsWith('data:'))
+        .map((image) => ({
+            url: image.url,
+            mimeType: image.mimeType || getDataUrlMimeType(image.url),
+        }));
+}
+
+/**
+ * Condense dropped messages into a short summary that fits the given budget.
+ * Most recent messages are kept when the budget runs out.
+ */
+function summarizeDroppedMessages(dropped: Message[], tokenBudget: number): string {
+    const header = 'Summary of earlier conversation (older messages were omitted to fit the context window):';
+    let used = estimateTokens(header);
+    const lines: string[] = [];
+
+    for (let i = dropped.length - 1; i >= 0; i--) {
+        const msg = dropped[i];
+        if (msg.role !== 'user' && msg.role !== 'assistant') continue;
+        const text = sanitizeContent(msg.content).replace(/\s+/g, ' ');
+        if (!text) continue;
+
+        const snippet = text.length > SUMMARY_SNIPPET_LENGTH
+            ? text.slice(0, SUMMARY_SNIPPET_LENGTH) + '...'
+            : text;
+        const line = `- ${msg.role === 'user' ? 'User' : 'Assistant'}: ${snippet}`;
+        const lineTokens = estimateTokens(line);
+        if (used + lineTokens > tokenBudget) break;
+
+        lines.unshift(line);
+        used += lineTokens;
+    }
+
+    return lines.length > 0 ? [header, ...lines].join('\n') : '';
 }
 
 /**
  * Prepare ChatMessage array for LLM request.
  * 
  * This function:
- * 1. Combines personaPrompt + contextPrompt from conversation as system prompt
+ * 1. Combines personaPrompt + contextPrompt from conversation as system prompt,
+ *    plus the response format instruction when JSON output is requested and the
+ *    persona's lorebook entries triggered by the recent messages
  * 2. For each message, prefixes message.context with message.content using <context> tags
+ * 3. If a token budget is given and the prompt doesn't fit:
+ *    a. Strips stale <context> blocks from earlier user messages (oldest first)
+ *    b. Drops the oldest turns and appends a condensed summary of them to the system prompt
+ * 
+ * The latest message is always kept, even if it alone exceeds the budget.
  * 
  * @param conversation - The conversation (contains personaPrompt, contextPrompt)
  * @param messages - Message history
- * @returns ChatMessage array ready for LLM
+ * @param tokenBudget - Prompt token budget (see getPromptTokenBudget); no trimming if omitted
+ * @param persona - The conversation's persona, for its lorebook
+ * @returns Prepared messages and which history entries were trimmed
  */
 export function prepareChatMessages(
     conversation: Conversation,
-    messages: Message[]
-): ChatMessage[] {
-    const chatMessages: ChatMessage[] = [];
-
+    messages: Message[],
+    tokenBudget?: number,
+    persona?: Persona | null
+): PreparedChatMessages {
     // Combine prompt parts from conversation
     const promptParts: string[] = [];
 
+    // Lorebook entries triggered by the recent messages go around the persona prompt
+    const lore = selectLore(
+        persona?.character_book,
+        messages.filter((m) => m.role === 'user' || m.role === 'assistant').map((m) => m.content)
+    );
+    const withMacros = (text: string) => (persona ? replaceCardMacros(text, persona.name) : text);
+
+    if (lore.before) {
+        promptParts.push(withMacros(lore.before));
+    }
+
     // Add persona prompt (empty if no persona)
     if (conversation.personaPrompt) {
         promptParts.push(conversation.personaPrompt);
     }
 
+    if (lore.after) {
+        promptParts.push(withMacros(lore.after));
+    }
+
     // Add context prompt (set when sources first attached)
     if (conversation.contextPrompt) {
         promptParts.push(conversation.contextPrompt);
     }
 
+    // Add structured output instruction (JSON or JSON Schema)
+    const formatInstruction = getFormatInstruction(conversation.responseFormat);
+    if (formatInstruction) {
+        promptParts.push(formatInstruction);
+    }
+
     const systemPromptContent = promptParts.join('\n\n');
+    const systemMessage: ChatMessage | null = systemPromptContent
+        ? { role: 'system', content: systemPromptContent }
+        : null;
 
-    // Add system prompt at the top
-    if (systemPromptContent) {
-        chatMessages.push({
-            role: 'system',
-            content: systemPromptContent,
-        });
-    }
+    // Process each message, keeping context blocks for now
+    const history: ChatMessage[] = messages.map((msg) => toChatMessage(msg, true));
 
-    // Process each message
-    for (const msg of messages) {
-        let content = msg.content;
+    let total = (systemMessage ? estimateMessageTokens(systemMessage) : 0)
+        + history.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
 
-        // If message has context, prefix it with <context> tags
-        if (msg.context && msg.context.trim()) {
-            content = `<context>\n${msg.context}\n</context>\n${msg.content}`;
+    const strippedContextMessageIds: string[] = [];
+    const excludedMessageIds: string[] = [];
+    let summary = '';
+    let firstKeptIndex = 0;
+
+    if (tokenBudget !== undefined && total > tokenBudget) {
+        const lastIndex = messages.length - 1;
+
+        // Step 1: strip stale context from earlier user messages (the latest keeps its context)
+        for (let i = 0; i < lastIndex && total > tokenBudget; i++) {
+            const msg = messages[i];
+            if (msg.role !== 'user' || !msg.context || !msg.context.trim()) continue;
+
+            const before = estimateMessageTokens(history[i]);
+            history[i] = toChatMessage(msg, false);
+            total -= before - estimateMessageTokens(history[i]);
+            strippedContextMessageIds.push(msg.id);
         }
 
+        // Step 2: drop oldest turns, leaving room for a summary of them
+        if (total > tokenBudget) {
+            const summaryBudget = Math.floor(tokenBudget * SUMMARY_BUDGET_RATIO);
+
+            while (firstKeptIndex < lastIndex && total + summaryBudget > tokenBudget) {
+                total -= estimateMessageTokens(history[firstKeptIndex]);
+                firstKeptIndex++;
+            }
+
+            // History should resume on a user turn, not a dangling assistant reply
+            while (firstKeptIndex < lastIndex && messages[firstKeptIndex].role !== 'user') {
+                total -= estimateMessageTokens(history[firstKeptIndex]);
+                firstKeptIndex++;
+            }
+
+            const dropped = messages.slice(0, firstKeptIndex);
+            excludedMessageIds.push(...dropped.map((m) => m.id));
+            summary = summarizeDroppedMessages(dropped, summaryBudget);
+            if (summary) {
+                // The summary joins the system message, or becomes one
+                const systemTokens = systemMessage ? estimateMessageTokens(systemMessage) : 0;
+                const withSummary = [systemMessage?.content, summary].filter(Boolean).join('\n\n');
+                total += estimateMessageTokens({ role: 'system', content: withSummary }) - systemTokens;
+            }
+        }
+
+        console.log('[messageHelpers] Trimmed prompt to fit budget:', {
+            tokenBudget,
+            estimatedTokens: total,
+            strippedContext: strippedContextMessageIds.length,
+            excluded: excludedMessageIds.length,
+        });
+    }
+
+    const chatMessages: ChatMessage[] = [];
+
+    // Add system prompt at the top (with summary of dropped turns, if any)
+    const systemContent = [systemMessage?.content, summary].filter(Boolean).join('\n\n');
+    if (systemContent) {
         chatMessages.push({
-            role: msg.role,
-            content,
+            role: 'system',
+            content: systemContent,
         });
     }
 
-    return chatMessages;
+    chatMessages.push(...history.slice(firstKeptIndex));
+
+    return {
+        messages: chatMessages,
+        excludedMessageIds,
+        strippedContextMessageIds: strippedContextMessageIds.filter(
+            (id) => !excludedMessageIds.includes(id)
+        ),
+        estimatedTokens: total,
+        loreEntries: lore.entries,
+    };
 }
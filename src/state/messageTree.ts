@@ -0,0 +1,96 @@
+/**
+ * Message Tree Helpers
+ *
+ * Messages form a tree through Message.parentId. Editing a user message or
+ * regenerating a response adds a sibling branch; the conversation's
+ * activeLeafId selects which branch is shown and sent to the model.
+ */
+
+import { Message } from '../core/types';
+
+/**
+ * Branch position of a message among its siblings
+ */
+export interface BranchInfo {
+    /** Zero-based index of the message among its siblings */
+    index: number;
+    /** Siblings ordered by creation time (including the message itself) */
+    siblings: Message[];
+}
+
+function byTimestamp(a: Message, b: Message): number {
+    return a.timestamp - b.timestamp;
+}
+
+/**
+ * Get the children of a message (or the root messages if parentId is undefined),
+ * oldest first.
+ */
+export function getChildren(messages: Message[], parentId: string | undefined): Message[] {
+    return messages
+        .filter((m) => m.parentId === parentId)
+        .sort(byTimestamp);
+}
+
+/**
+ * Follow the most recent child at each level, starting from a message.
+ * Returns the id of the deepest message reached.
+ */
+export function getLatestLeafId(messages: Message[], fromId: string): string {
+    let leafId = fromId;
+    for (;;) {
+        const children = getChildren(messages, leafId);
+        if (children.length === 0) return leafId;
+        leafId = children[children.length - 1].id;
+    }
+}
+
+/**
+ * Get the active branch (root to leaf) of a conversation's message tree.
+ * Falls back to the most recent branch if the leaf is missing or unknown.
+ */
+export function getActiveBranch(messages: Message[], activeLeafId?: string): Message[] {
+    if (messages.length === 0) return [];
+
+    const byId = new Map(messages.map((m) => [m.id, m]));
+    let leaf = activeLeafId ? byId.get(activeLeafId) : undefined;
+
+    if (!leaf) {
+        const roots = getChildren(messages, undefined);
+        if (roots.length === 0) return [];
+        leaf = byId.get(getLatestLeafId(messages, roots[roots.length - 1].id));
+    }
+
+    const branch: Message[] = [];
+    const visited = new Set<string>();
+    while (leaf && !visited.has(leaf.id)) {
+        visited.add(leaf.id);
+        branch.unshift(leaf);
+        leaf = leaf.parentId ? byId.get(leaf.parentId) : undefined;
+    }
+    return branch;
+}
+
+/**
+ * Get the position of a message among its siblings.
+ */
+export function getBranchInfo(messages: Message[], message: Message): BranchInfo {
+    const siblings = getChildren(messages, message.parentId);
+    return {
+        index: siblings.findIndex((m) => m.id === message.id),
+        siblings,
+    };
+}
+
+/**
+ * Link messages saved before branching existed into a single thread.
+ * Each message without a parent is attached to the message before it.
+ * Messages that already form a tree are returned as they are (sibling roots
+ * from an edited first message stay roots), so linking twice changes nothing.
+ */
+export function linkLegacyMessages(messages: Message[]): Message[] {
+    const sorted = [...messages].sort(byTimestamp);
+    if (sorted.some((m) => m.parentId)) return sorted;
+
+    return sorted.map((m, i) => (i > 0 ? { ...m, parentId: sorted[i - 1].id } : m));
+}
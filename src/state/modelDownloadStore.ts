@@ -11,7 +11,10 @@ import { logger } from '../services/LoggerService';
 import {
     cancelDownload as cancelDownloadService,
     deleteDownloadedModel as deleteDownloadedModelService,
+    getActiveDownloads,
+    pauseDownload as pauseDownloadService,
     reattachBackgroundDownloads,
+    resumeDownload as resumeDownloadService,
     setDownloadCallbacks,
     startDownload as startDownloadService
 } from '../services/ModelDownloadService';
@@ -20,6 +23,7 @@ interface ActiveDownload {
     modelId: string;
     name: string;
     progress: number;
+    isPaused: boolean;
 }
 
 interface ModelDownloadState {
@@ -29,6 +33,9 @@ interface ModelDownloadState {
     // All downloaded models from repository
     downloadedModels: DownloadedModel[];
 
+    // Downloads that failed checksum verification
+    corruptedModels: DownloadedModel[];
+
     // Loading state
     isLoading: boolean;
 
@@ -36,8 +43,12 @@ interface ModelDownloadState {
     loadDownloadedModels: () => Promise<void>;
     startDownload: (model: DownloadableModel) => Promise<void>;
     cancelDownload: (modelId: string) => Promise<void>;
+    pauseDownload: (modelId: string) => Promise<void>;
+    resumeDownload: (modelId: string) => Promise<void>;
     isDownloading: (modelId: string) => boolean;
     isDownloaded: (modelId: string) => boolean;
+    isPaused: (modelId: string) => boolean;
+    isCorrupted: (modelId: string) => boolean;
     getDownloadProgress: (modelId: string) => number;
     getDownloadedModel: (modelId: string) => DownloadedModel | undefined;
     deleteDownloadedModel: (modelId: string) => Promise<void>;
@@ -58,7 +69,9 @@ export const useModelDownloadStore = create<ModelDownloadState>((set, get) => {
         (modelId: string, model: DownloadedModel) => {
             set((state) => ({
                 activeDownloads: state.activeDownloads.filter((d) => d.modelId !== modelId),
-                downloadedModels: [...state.downloadedModels, model],
+                ...(model.status === 'corrupted'
+                    ? { corruptedModels: [...state.corruptedModels, model] }
+                    : { downloadedModels: [...state.downloadedModels, model] }),
             }));
         },
         // onError
@@ -66,12 +79,21 @@ export const useModelDownloadStore = create<ModelDownloadState>((set, get) => {
             set((state) => ({
                 activeDownloads: state.activeDownloads.filter((d) => d.modelId !== modelId),
             }));
+        },
+        // onPause (a network error paused the download, keeping its partial files)
+        (modelId: string) => {
+            set((state) => ({
+                activeDownloads: state.activeDownloads.map((d) =>
+                    d.modelId === modelId ? { ...d, isPaused: true } : d
+                ),
+            }));
         }
     );
 
     return {
         activeDownloads: [],
         downloadedModels: [],
+        corruptedModels: [],
         isLoading: false,
 
         loadDownloadedModels: async () => {
@@ -86,7 +108,13 @@ export const useModelDownloadStore = create<ModelDownloadState>((set, get) => {
                 // Filter to only completed downloads
                 const completedModels = models.filter((m) => m.status === 'completed');
                 logger.log('ModelDownloadStore', 'Completed models:', completedModels.length);
-                set({ downloadedModels: completedModels, isLoading: false });
+                set({
+                    downloadedModels: completedModels,
+                    corruptedModels: models.filter((m) => m.status === 'corrupted'),
+                    // Include downloads re-attached from a previous session
+                    activeDownloads: getActiveDownloads(),
+                    isLoading: false,
+                });
             } catch (error) {
                 logger.error('ModelDownloadStore', 'Failed to load downloaded models:', error);
                 set({ isLoading: false });
@@ -108,11 +136,19 @@ export const useModelDownloadStore = create<ModelDownloadState>((set, get) => {
                 return;
             }
 
+            // Replace a download that failed verification
+            if (get().isCorrupted(model.id)) {
+                await deleteDownloadedModelService(model.id);
+                set((state) => ({
+                    corruptedModels: state.corruptedModels.filter((m) => m.modelId !== model.id),
+                }));
+            }
+
             // Add to active downloads
             set((state) => ({
                 activeDownloads: [
                     ...state.activeDownloads,
-                    { modelId: model.id, name: model.name, progress: 0 },
+                    { modelId: model.id, name: model.name, progress: 0, isPaused: false },
                 ],
             }));
 
@@ -135,6 +171,24 @@ export const useModelDownloadStore = create<ModelDownloadState>((set, get) => {
             }));
         },
 
+        pauseDownload: async (modelId: string) => {
+            await pauseDownloadService(modelId);
+            set((state) => ({
+                activeDownloads: state.activeDownloads.map((d) =>
+                    d.modelId === modelId ? { ...d, isPaused: true } : d
+                ),
+            }));
+        },
+
+        resumeDownload: async (modelId: string) => {
+            await resumeDownloadService(modelId);
+            set((state) => ({
+                activeDownloads: state.activeDownloads.map((d) =>
+                    d.modelId === modelId ? { ...d, isPaused: false } : d
+                ),
+            }));
+        },
+
         isDownloading: (modelId: string) => {
             return get().activeDownloads.some((d) => d.modelId === modelId);
         },
@@ -143,6 +197,14 @@ export const useModelDownloadStore = create<ModelDownloadState>((set, get) => {
             return get().downloadedModels.some((m) => m.modelId === modelId);
         },
 
+        isPaused: (modelId: string) => {
+            return get().activeDownloads.some((d) => d.modelId === modelId && d.isPaused);
+        },
+
+        isCorrupted: (modelId: string) => {
+            return get().corruptedModels.some((m) => m.modelId === modelId);
+        },
+
         getDownloadProgress: (modelId: string) => {
             const download = get().activeDownloads.find((d) => d.modelId === modelId);
             return download?.progress ?? 0;
@@ -154,13 +216,14 @@ export const useModelDownloadStore = create<ModelDownloadState>((set, get) => {
 
         deleteDownloadedModel: async (modelId: string) => {
             const model = get().getDownloadedModel(modelId);
-            if (model) {
+            if (model || get().isCorrupted(modelId)) {
                 // Delete files and from repository using the service
                 await deleteDownloadedModelService(modelId);
 
                 // Update state
                 set((state) => ({
                     downloadedModels: state.downloadedModels.filter((m) => m.modelId !== modelId),
+                    corruptedModels: state.corruptedModels.filter((m) => m.modelId !== modelId),
                 }));
             }
         },
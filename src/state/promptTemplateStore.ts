@@ -0,0 +1,114 @@
+/**
+ * Prompt Template Store
+ *
+ * State management for the prompt library used by slash commands in the message input.
+ */
+
+import { create } from 'zustand';
+import { promptTemplateRepository } from '../core/storage';
+import { generateId, PromptTemplate } from '../core/types';
+
+interface PromptTemplateStoreState {
+    templates: PromptTemplate[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+interface PromptTemplateStoreActions {
+    loadTemplates: () => Promise<void>;
+    createTemplate: (template: Omit<PromptTemplate, 'id' | 'createdAt' | 'updatedAt'>) => Promise<PromptTemplate | null>;
+    updateTemplate: (template: PromptTemplate) => Promise<void>;
+    deleteTemplate: (id: string) => Promise<void>;
+    getTemplateById: (id: string) => PromptTemplate | undefined;
+    clearError: () => void;
+}
+
+type PromptTemplateStore = PromptTemplateStoreState & PromptTemplateStoreActions;
+
+/**
+ * Sort templates by name for the library and the slash command picker
+ */
+function sortByName(templates: PromptTemplate[]): PromptTemplate[] {
+    return [...templates].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const usePromptTemplateStore = create<PromptTemplateStore>((set, get) => ({
+    // Initial state
+    templates: [],
+    isLoading: false,
+    error: null,
+
+    loadTemplates: async () => {
+        set({ isLoading: true, error: null });
+        try {
+            const templates = await promptTemplateRepository.findAll();
+            set({ templates: sortByName(templates), isLoading: false });
+        } catch (e) {
+            console.error('[PromptTemplateStore] Error loading templates:', e);
+            set({
+                error: e instanceof Error ? e.message : 'Failed to load prompt templates',
+                isLoading: false,
+            });
+        }
+    },
+
+    createTemplate: async (templateData) => {
+        const now = Date.now();
+        const template: PromptTemplate = {
+            ...templateData,
+            id: generateId(),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        try {
+            await promptTemplateRepository.create(template);
+            set((state) => ({
+                templates: sortByName([...state.templates, template]),
+            }));
+            return template;
+        } catch (e) {
+            console.error('[PromptTemplateStore] Error creating template:', e);
+            set({
+                error: e instanceof Error ? e.message : 'Failed to create prompt template',
+            });
+            return null;
+        }
+    },
+
+    updateTemplate: async (template) => {
+        try {
+            const updated = await promptTemplateRepository.update(template);
+            set((state) => ({
+                templates: sortByName(state.templates.map((t) => (t.id === updated.id ? updated : t))),
+            }));
+        } catch (e) {
+            console.error('[PromptTemplateStore] Error updating template:', e);
+            set({
+                error: e instanceof Error ? e.message : 'Failed to update prompt template',
+            });
+        }
+    },
+
+    deleteTemplate: async (id) => {
+        try {
+            await promptTemplateRepository.delete(id);
+            set((state) => ({
+                templates: state.templates.filter((t) => t.id !== id),
+            }));
+        } catch (e) {
+            console.error('[PromptTemplateStore] Error deleting template:', e);
+            set({
+                error: e instanceof Error ? e.message : 'Failed to delete prompt template',
+            });
+        }
+    },
+
+    getTemplateById: (id) => {
+        return get().templates.find((t) => t.id === id);
+    },
+
+    clearError: () => {
+        set({ error: null });
+    },
+}));
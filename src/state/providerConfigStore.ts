@@ -153,6 +153,12 @@ export const useProviderConfigStore = create<ProviderConfigStore>()((set, get) =
                     configs: state.configs.map((c) => (c.id === updated.id ? updated : c)),
                 }));
             }
+
+            // Apply retrieval settings to the running runtime without re-initializing
+            const { useRAGRuntimeStore } = await import('./ragRuntimeStore');
+            if (useRAGRuntimeStore.getState().currentConfig?.id === updated.id) {
+                useRAGRuntimeStore.setState({ currentConfig: updated });
+            }
         } catch (error) {
             set({
                 error: error instanceof Error ? error.message : 'Failed to update provider config',
@@ -208,7 +214,7 @@ export const useProviderConfigStore = create<ProviderConfigStore>()((set, get) =
         if (config.provider === 'none') {
             return 'none:none';
         }
-        return generateProviderFingerprint(config.provider as RAGProviderType, config.modelId);
+        return generateProviderFingerprint(config.provider as RAGProviderType, config.modelId, config.dimensions);
     },
 
     hasProviderType: (providerType: RAGProviderType) => {
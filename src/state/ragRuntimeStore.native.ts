@@ -9,20 +9,39 @@
  * - Detect stale state when provider changes
  * - Handle reprocessing flow
  * - Provide vector store operations
+ * - Keep a vector store per embedding model of collections bound to another RAG config
  */
 
 import { OPSQLiteVectorStore } from '@react-native-rag/op-sqlite';
 import { Embeddings } from 'react-native-rag';
 import { create } from 'zustand';
 import { embeddingFactory } from '../core/rag/embeddingFactory';
+import { SourceChunk } from '../core/rag/extractors';
+import { hybridSearch, sourceCondition } from '../core/rag/hybridSearch';
+import { KeywordIndex } from '../core/rag/KeywordIndex';
+import { OpenAIEmbeddings } from '../core/rag/OpenAIEmbeddings';
 import { isProcessingSupported, processSource } from '../core/rag/sourceProcessor';
-import { generateProviderFingerprint, RAGSearchResult } from '../core/rag/types';
-import { settingsRepository, sourceRepository } from '../core/storage';
-import { DownloadedModel, RAGConfig, RAGProviderType, RAGRuntimeStatus } from '../core/types';
+import { generateProviderFingerprint, RAGChunkMetadata, RAGSearchResult } from '../core/rag/types';
+import { ragConfigRepository, settingsRepository, sourceRepository } from '../core/storage';
+import {
+    DEFAULT_RAG_RETRIEVAL_SETTINGS,
+    DownloadedModel,
+    RAGConfig,
+    RAGProviderType,
+    RAGRetrievalSettings,
+    RAGRuntimeStatus,
+    SourceCollection,
+} from '../core/types';
+import type { RagContextResult } from './messageHelpers';
 
 // Storage key for persisting fingerprint
 const RAG_FINGERPRINT_STORAGE_KEY = 'rag_last_provider_fingerprint';
 
+// Indexes of bound RAG configs with their own embedding model, by fingerprint
+const configIndexes = new Map<string, Promise<EmbeddingIndex>>();
+// Embedding of missing sources into config indexes, one run at a time
+let configIndexQueue: Promise<void> = Promise.resolve();
+
 interface RAGRuntimeState {
     // Current provider config being used
     currentConfig: RAGConfig | null;
@@ -33,6 +52,9 @@ interface RAGRuntimeState {
     // Active vector store instance
     vectorStore: OPSQLiteVectorStore | null;
 
+    // BM25 keyword index stored alongside the vectors
+    keywordIndex: KeywordIndex | null;
+
     // Fingerprint tracking for stale detection
     lastUsedFingerprint: string | null;
     currentFingerprint: string | null;
@@ -74,17 +96,30 @@ interface RAGRuntimeActions {
     reprocess: () => Promise<void>;
 
     /**
-     * Add chunks to vector store
+     * Add chunks of a source to vector store (chunk index and page are stored per chunk)
+     */
+    addChunks: (chunks: SourceChunk[], metadata: { documentId: number; name: string }) => Promise<void>;
+
+    /**
+     * Hybrid (vector + keyword) search using the current config's retrieval settings
+     * @param k - Number of results; defaults to the config's topK
+     * @param sourceIds - Only search chunks of these sources (all sources when unset)
+     * @param settings - Retrieval settings to use instead of the current config's
      */
-    addChunks: (chunks: string[], metadata: { documentId: number; name: string }) => Promise<void>;
+    query: (
+        prompt: string,
+        k?: number,
+        sourceIds?: number[],
+        settings?: RAGRetrievalSettings
+    ) => Promise<RAGSearchResult[]>;
 
     /**
-     * Query vector store for similar content
+     * Delete the chunks of a source from the vector store and keyword index
      */
-    query: (prompt: string, k: number, filter?: (result: RAGSearchResult) => boolean) => Promise<RAGSearchResult[]>;
+    deleteSourceChunks: (sourceId: number) => Promise<void>;
 
     /**
-     * Delete all data in vector store
+     * Delete all data in vector store and keyword index
      */
     clearVectorStore: () => Promise<void>;
 
@@ -120,13 +155,16 @@ interface RAGRuntimeActions {
      * Handles lazy initialization internally - conversationStore just calls this.
      * 
      * @param query - The user's query
-     * @param sourceIds - Selected source IDs
-     * @returns Context string and contextMap, or empty if not available
+     * @param sourceIds - Selected source IDs (including collection members)
+     * @param collections - Collections the sources came from; members of a collection
+     *   bound to a RAG config are searched with that config's retrieval settings
+     * @returns Context string, contextMap and numbered citations, or empty if not available
      */
     generateContext: (
         query: string,
-        sourceIds: number[]
-    ) => Promise<{ contextString: string; contextMap: Record<number, string> }>;
+        sourceIds: number[],
+        collections?: SourceCollection[]
+    ) => Promise<RagContextResult>;
 }
 
 type RAGRuntimeStore = RAGRuntimeState & RAGRuntimeActions;
@@ -136,6 +174,7 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
     currentConfig: null,
     embeddings: null,
     vectorStore: null,
+    keywordIndex: null,
     lastUsedFingerprint: null,
     currentFingerprint: null,
     status: 'idle',
@@ -154,9 +193,7 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
         }
 
         // Generate fingerprint for this config
-        const newFingerprint = config.provider === 'none'
-            ? 'none:none'
-            : generateProviderFingerprint(config.provider as RAGProviderType, config.modelId);
+        const newFingerprint = getEmbeddingFingerprint(config);
 
         console.log('[RAGRuntimeStore] Initializing with config:', config.name);
         console.log('[RAGRuntimeStore] New fingerprint:', newFingerprint);
@@ -167,28 +204,7 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
         try {
             // Create embedding instance via factory
             console.log('[RAGRuntimeStore] Creating embedding instance...');
-
-            // For remote providers (Ollama, OpenAI), pass config info
-            const isRemoteProvider = config.provider === 'ollama' || config.provider === 'openai';
-            let embeddingsInstance: Embeddings;
-
-            if (isRemoteProvider && (model as any)._remoteConfig) {
-                const remoteConfig = (model as any)._remoteConfig;
-                embeddingsInstance = await embeddingFactory.createEmbedding(
-                    config.provider as RAGProviderType,
-                    model,
-                    {
-                        baseUrl: remoteConfig.baseUrl,
-                        model: config.modelId, // The embedding model name
-                        headers: remoteConfig.headers,
-                    }
-                );
-            } else {
-                embeddingsInstance = await embeddingFactory.createEmbedding(
-                    config.provider as RAGProviderType,
-                    model
-                );
-            }
+            const embeddingsInstance = await createEmbeddings(config, model);
 
             // Create/load vector store
             console.log('[RAGRuntimeStore] Creating/loading vector store...');
@@ -196,6 +212,7 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
                 name: 'modelflux-rag',
                 embeddings: embeddingsInstance,
             }).load();
+            const keywordIndex = await new KeywordIndex(store.db).load();
 
             // Check if stale (fingerprint mismatch with persisted fingerprint)
             const fingerprintMismatch = state.lastUsedFingerprint !== null &&
@@ -214,6 +231,7 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
                     currentConfig: config,
                     embeddings: embeddingsInstance,
                     vectorStore: store,
+                    keywordIndex,
                     currentFingerprint: newFingerprint,
                     status: 'stale',
                 });
@@ -234,6 +252,7 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
                     currentConfig: config,
                     embeddings: embeddingsInstance,
                     vectorStore: store,
+                    keywordIndex,
                     currentFingerprint: newFingerprint,
                     lastUsedFingerprint: newFingerprint,
                     status: 'ready',
@@ -256,6 +275,7 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
             currentConfig: null,
             embeddings: null,
             vectorStore: null,
+            keywordIndex: null,
             currentFingerprint: null,
             status: 'idle',
             error: null,
@@ -297,14 +317,16 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
             // Step 1: Clear existing vector store data
             console.log('[RAGRuntimeStore] Clearing vector store...');
             await state.vectorStore.deleteVectorStore();
+            await state.keywordIndex?.clear();
 
             // Reload vector store after clearing
             const store = await new OPSQLiteVectorStore({
                 name: 'modelflux-rag',
                 embeddings: state.embeddings,
             }).load();
+            const keywordIndex = await new KeywordIndex(store.db).load();
 
-            set({ vectorStore: store });
+            set({ vectorStore: store, keywordIndex });
 
             // Step 2: Fetch all sources
             const sources = await sourceRepository.findAll();
@@ -352,20 +374,17 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
     },
 
     addChunks: async (chunks, metadata) => {
-        const { vectorStore } = get();
-        if (!vectorStore) {
+        const { vectorStore, keywordIndex, embeddings } = get();
+        if (!vectorStore || !embeddings) {
             throw new Error('Vector store not initialized');
         }
-
-        for (const chunk of chunks) {
-            await vectorStore.add(chunk, metadata);
-        }
+        await addChunksTo({ embeddings, vectorStore, keywordIndex }, chunks, metadata);
     },
 
-    query: async (prompt, k, filter) => {
-        const { vectorStore, status } = get();
+    query: async (prompt, k, sourceIds, settingsOverride) => {
+        const { vectorStore, keywordIndex, embeddings, currentConfig, status } = get();
 
-        if (!vectorStore) {
+        if (!vectorStore || !embeddings) {
             console.log('[RAGRuntimeStore] Cannot query: vector store not initialized');
             return [];
         }
@@ -375,16 +394,43 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
             return [];
         }
 
-        const results = await vectorStore.similaritySearch(prompt, k, filter);
-        return results as RAGSearchResult[];
+        const settings = {
+            ...DEFAULT_RAG_RETRIEVAL_SETTINGS,
+            ...(settingsOverride ?? currentConfig?.retrievalSettings),
+        };
+
+        return hybridSearch(prompt, {
+            db: vectorStore.db,
+            embeddings,
+            keywordIndex,
+            settings,
+            k: k ?? settings.topK,
+            sourceIds,
+        });
+    },
+
+    deleteSourceChunks: async (sourceId) => {
+        const { vectorStore, keywordIndex } = get();
+        if (vectorStore) {
+            await deleteChunksFrom(vectorStore, keywordIndex, [sourceId]);
+        }
+        for (const index of await getOpenConfigIndexes()) {
+            await deleteChunksFrom(index.vectorStore, index.keywordIndex, [sourceId]);
+        }
     },
 
     clearVectorStore: async () => {
-        const { vectorStore } = get();
+        const { vectorStore, keywordIndex } = get();
         if (vectorStore) {
             console.log('[RAGRuntimeStore] Clearing vector store...');
             await vectorStore.deleteVectorStore();
+            await keywordIndex?.clear();
         }
+        for (const index of await getOpenConfigIndexes()) {
+            await index.vectorStore.deleteVectorStore();
+            await index.keywordIndex?.clear();
+        }
+        configIndexes.clear();
     },
 
     getVectorStore: () => get().vectorStore,
@@ -420,64 +466,12 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
                 return false;
             }
 
-            // Check if this is a remote provider (Ollama, OpenAI)
-            const isRemoteProvider = defaultConfig.provider === 'ollama' || defaultConfig.provider === 'openai';
-
-            if (isRemoteProvider) {
-                // For remote providers, we need baseUrl from LLM config
-                const { useLLMStore } = await import('./llmStore');
-                const llmConfig = useLLMStore.getState().configs.find(c => c.provider === defaultConfig.provider);
-
-                if (!llmConfig?.baseUrl) {
-                    console.log('[RAGRuntimeStore] No LLM config found for remote provider:', defaultConfig.provider);
-                    return false;
-                }
-
-                // Create a placeholder model object for remote providers
-                // The actual embedding is handled by the remote server
-                const remoteModel = {
-                    id: defaultConfig.modelId,
-                    modelId: defaultConfig.modelId,
-                    name: defaultConfig.modelName || defaultConfig.modelId,
-                    // Store remote config info for embedding factory
-                    _remoteConfig: {
-                        baseUrl: llmConfig.baseUrl,
-                        headers: llmConfig.headers,
-                    },
-                } as unknown as import('../core/types').DownloadedModel;
-
-                await get().initialize(defaultConfig, remoteModel);
-                return get().status === 'ready';
-            }
-
-            // For local providers, get model info - prefer stored paths, fallback to downloaded models lookup
-            let model: import('../core/types').DownloadedModel;
-
-            if (defaultConfig.modelPath && defaultConfig.tokenizerPath) {
-                // Config has model paths stored - use directly
-                model = {
-                    id: defaultConfig.modelId,
-                    modelId: defaultConfig.modelId,
-                    name: defaultConfig.modelName || defaultConfig.modelId,
-                    modelPath: defaultConfig.modelPath,
-                    tokenizerPath: defaultConfig.tokenizerPath,
-                } as unknown as import('../core/types').DownloadedModel;
-            } else {
-                // Lookup from downloaded models
-                const { useModelDownloadStore } = await import('./modelDownloadStore');
-                const downloadedModel = useModelDownloadStore.getState().downloadedModels
-                    .find(m => m.id === defaultConfig.modelId);
-
-                if (!downloadedModel) {
-                    console.log('[RAGRuntimeStore] Model not found:', defaultConfig.modelId);
-                    return false;
-                }
-                model = downloadedModel;
+            const model = await resolveEmbeddingModel(defaultConfig);
+            if (!model) {
+                return false;
             }
 
-            // Initialize vector store (no fingerprint needed for context generation)
             await get().initialize(defaultConfig, model);
-
             return get().status === 'ready';
         } catch (error) {
             console.error('[RAGRuntimeStore] ensureReady error:', error);
@@ -485,8 +479,8 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
         }
     },
 
-    generateContext: async (query, sourceIds) => {
-        const emptyResult = { contextString: '', contextMap: {} as Record<number, string> };
+    generateContext: async (query, sourceIds, collections = []) => {
+        const emptyResult: RagContextResult = { contextString: '', contextMap: {}, citations: [] };
 
         if (sourceIds.length === 0) {
             return emptyResult;
@@ -499,14 +493,339 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>((set, get) => ({
             return emptyResult;
         }
 
-        // Use the generateRagContext helper
+        // Use the generateRagContext helper with hybrid search and the config's K
         const { generateRagContext } = await import('./messageHelpers');
-        const vectorStore = get().vectorStore;
 
-        return generateRagContext(query, sourceIds, vectorStore);
+        // Search each group with its own model and settings, then interleave the rankings
+        const groups = await groupSourcesByRagConfig(sourceIds, collections, get().currentConfig);
+        return generateRagContext(query, sourceIds, async (prompt) => {
+            // One query embedding per model, shared by the groups searched with it
+            const queryEmbeddings = new Map<string, number[]>();
+            const rankings: RAGSearchResult[][] = [];
+
+            // One group at a time: local embedding models run a single request at once
+            for (const group of groups) {
+                const { vectorStore, keywordIndex, embeddings, status } = get();
+                try {
+                    const index = group.config
+                        ? await getConfigIndex(group.config, group.sourceIds)
+                        : (vectorStore && embeddings && status !== 'stale' ? { vectorStore, keywordIndex, embeddings } : null);
+                    if (!index) continue;
+
+                    const queryEmbedding = queryEmbeddings.get(group.fingerprint) ?? await index.embeddings.embed(prompt);
+                    queryEmbeddings.set(group.fingerprint, queryEmbedding);
+
+                    const settings = { ...DEFAULT_RAG_RETRIEVAL_SETTINGS, ...group.settings };
+                    rankings.push(await hybridSearch(prompt, {
+                        db: index.vectorStore.db,
+                        embeddings: index.embeddings,
+                        queryEmbedding,
+                        keywordIndex: index.keywordIndex,
+                        settings,
+                        k: settings.topK,
+                        sourceIds: group.sourceIds,
+                    }));
+                } catch (err) {
+                    console.error('[RAGRuntimeStore] Search failed for', group.config?.name ?? 'active config', err);
+                }
+            }
+            return interleaveResults(rankings);
+        });
     },
 }));
 
+/**
+ * Vector store and keyword index filled with one embedding model
+ */
+interface EmbeddingIndex {
+    embeddings: Embeddings;
+    vectorStore: OPSQLiteVectorStore;
+    keywordIndex: KeywordIndex | null;
+}
+
+/**
+ * Sources searched together: with the active index unless config is set
+ * (a bound RAG config whose embedding model differs from the active one)
+ */
+interface SourceGroup {
+    sourceIds: number[];
+    fingerprint: string;
+    config?: RAGConfig;
+    settings?: RAGRetrievalSettings;
+}
+
+function getEmbeddingFingerprint(config: RAGConfig): string {
+    return config.provider === 'none'
+        ? 'none:none'
+        : generateProviderFingerprint(config.provider as RAGProviderType, config.modelId, config.dimensions);
+}
+
+/**
+ * Find the model to embed with for a RAG config.
+ * Remote providers get a placeholder carrying the credentials of their LLM config.
+ */
+async function resolveEmbeddingModel(config: RAGConfig): Promise<DownloadedModel | null> {
+    // Check if this is a remote provider (Ollama, OpenAI)
+    const isRemoteProvider = config.provider === 'ollama' || config.provider === 'openai';
+
+    if (isRemoteProvider) {
+        // For remote providers, we need baseUrl (and credentials) from LLM config
+        const { useLLMStore } = await import('./llmStore');
+        const { configs } = useLLMStore.getState();
+        const llmConfig = configs.find(c => c.id === config.llmConfigId)
+            ?? configs.find(c => c.provider === config.provider);
+
+        if (!llmConfig?.baseUrl) {
+            console.log('[RAGRuntimeStore] No LLM config found for remote provider:', config.provider);
+            return null;
+        }
+
+        // Create a placeholder model object for remote providers
+        // The actual embedding is handled by the remote server
+        return {
+            id: config.modelId,
+            modelId: config.modelId,
+            name: config.modelName || config.modelId,
+            // Store remote config info for embedding factory
+            _remoteConfig: {
+                baseUrl: llmConfig.baseUrl,
+                apiKey: llmConfig.apiKey,
+                headers: llmConfig.headers,
+            },
+        } as unknown as DownloadedModel;
+    }
+
+    // For local providers, get model info - prefer stored paths, fallback to downloaded models lookup
+    if (config.modelPath && config.tokenizerPath) {
+        // Config has model paths stored - use directly
+        return {
+            id: config.modelId,
+            modelId: config.modelId,
+            name: config.modelName || config.modelId,
+            modelPath: config.modelPath,
+            tokenizerPath: config.tokenizerPath,
+        } as unknown as DownloadedModel;
+    }
+
+    // Lookup from downloaded models
+    const { useModelDownloadStore } = await import('./modelDownloadStore');
+    const downloadedModel = useModelDownloadStore.getState().downloadedModels
+        .find(m => m.id === config.modelId);
+
+    if (!downloadedModel) {
+        console.log('[RAGRuntimeStore] Model not found:', config.modelId);
+        return null;
+    }
+    return downloadedModel;
+}
+
+/**
+ * Create the embedding instance for a RAG config via the factory
+ */
+async function createEmbeddings(config: RAGConfig, model: DownloadedModel): Promise<Embeddings> {
+    // For remote providers (Ollama, OpenAI), pass config info
+    const isRemoteProvider = config.provider === 'ollama' || config.provider === 'openai';
+
+    if (isRemoteProvider && (model as any)._remoteConfig) {
+        const remoteConfig = (model as any)._remoteConfig;
+        return embeddingFactory.createEmbedding(
+            config.provider as RAGProviderType,
+            model,
+            {
+                baseUrl: remoteConfig.baseUrl,
+                apiKey: remoteConfig.apiKey,
+                model: config.modelId, // The embedding model name
+                headers: remoteConfig.headers,
+                dimensions: config.dimensions,
+            }
+        );
+    }
+    return embeddingFactory.createEmbedding(config.provider as RAGProviderType, model);
+}
+
+/**
+ * Embed chunks of a source and add them to an index (chunk index and page are stored per chunk)
+ */
+async function addChunksTo(
+    index: EmbeddingIndex,
+    chunks: SourceChunk[],
+    metadata: { documentId: number; name: string }
+): Promise<void> {
+    // Remote providers embed in batches up front; vectorStore.add() then reads the cached vectors
+    if (index.embeddings instanceof OpenAIEmbeddings) {
+        await index.embeddings.embedBatch(chunks.map((chunk) => chunk.content));
+    }
+
+    for (let i = 0; i < chunks.length; i++) {
+        const chunk = chunks[i]!;
+        const chunkMetadata: RAGChunkMetadata = { ...metadata, chunkIndex: i, page: chunk.page };
+        const id = await index.vectorStore.add(chunk.content, chunkMetadata);
+        await index.keywordIndex?.add(id, chunk.content);
+    }
+}
+
+/**
+ * Delete the chunks of sources from a vector store and its keyword index
+ */
+async function deleteChunksFrom(
+    vectorStore: OPSQLiteVectorStore,
+    keywordIndex: KeywordIndex | null,
+    sourceIds: number[]
+): Promise<void> {
+    const sources = sourceCondition(sourceIds);
+    const { rows } = await vectorStore.db.execute(`SELECT id FROM vectors WHERE ${sources.sql}`, sources.params);
+    const ids = rows.map((row) => row.id as string);
+    if (ids.length === 0) return;
+
+    console.log('[RAGRuntimeStore] Deleting', ids.length, 'chunks of sources', sourceIds.join(', '));
+    await vectorStore.db.execute(`DELETE FROM vectors WHERE ${sources.sql}`, sources.params);
+    await keywordIndex?.delete(ids);
+}
+
+/**
+ * Ids of the sources that have chunks in a vector store
+ */
+async function getIndexedSourceIds(vectorStore: OPSQLiteVectorStore): Promise<Set<number>> {
+    const { rows } = await vectorStore.db.execute(
+        `SELECT DISTINCT json_extract(metadata, '$.documentId') AS documentId FROM vectors`
+    );
+    return new Set(rows.map((row) => Number(row.documentId)));
+}
+
+/**
+ * Config indexes opened so far (failed ones are skipped)
+ */
+async function getOpenConfigIndexes(): Promise<EmbeddingIndex[]> {
+    const results = await Promise.allSettled(configIndexes.values());
+    return results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+}
+
+/**
+ * Get the index of a bound RAG config, opening it on first use, with sourceIds embedded.
+ * Each embedding model keeps its own vector store; sources are embedded into it the first
+ * time they are searched, and chunks of sources deleted meanwhile are dropped on open.
+ */
+async function getConfigIndex(config: RAGConfig, sourceIds: number[]): Promise<EmbeddingIndex> {
+    const fingerprint = getEmbeddingFingerprint(config);
+    let opening = configIndexes.get(fingerprint);
+    if (!opening) {
+        opening = openConfigIndex(config, fingerprint);
+        configIndexes.set(fingerprint, opening);
+        // Retry on next use rather than caching the failure
+        opening.catch(() => configIndexes.delete(fingerprint));
+    }
+    const index = await opening;
+
+    // Queued so concurrent searches don't embed the same source twice
+    const embedding = configIndexQueue.then(async () => {
+        const indexed = await getIndexedSourceIds(index.vectorStore);
+        for (const sourceId of sourceIds) {
+            if (indexed.has(sourceId)) continue;
+            const source = await sourceRepository.findById(sourceId);
+            if (!source) continue;
+
+            console.log('[RAGRuntimeStore] Embedding', source.name, 'for', config.name);
+            await processSource(source, (chunks, metadata) => addChunksTo(index, chunks, metadata));
+        }
+    });
+    configIndexQueue = embedding.catch(() => {});
+    await embedding;
+    return index;
+}
+
+async function openConfigIndex(
+    config: RAGConfig,
+    fingerprint: string
+): Promise<EmbeddingIndex> {
+    const model = await resolveEmbeddingModel(config);
+    if (!model) {
+        throw new Error(`Embedding model of ${config.name} is not available`);
+    }
+
+    console.log('[RAGRuntimeStore] Opening vector store for', fingerprint);
+    const embeddings = await createEmbeddings(config, model);
+    const vectorStore = await new OPSQLiteVectorStore({
+        name: `modelflux-rag-${fingerprint.replace(/[^A-Za-z0-9]+/g, '_')}`,
+        embeddings,
+    }).load();
+    const keywordIndex = await new KeywordIndex(vectorStore.db).load();
+
+    // Sources deleted while the store was closed
+    const existing = new Set((await sourceRepository.findAll()).map((source) => source.id));
+    const deleted = [...await getIndexedSourceIds(vectorStore)].filter((id) => !existing.has(id));
+    if (deleted.length > 0) {
+        await deleteChunksFrom(vectorStore, keywordIndex, deleted);
+    }
+    return { embeddings, vectorStore, keywordIndex };
+}
+
+/**
+ * Split sources by the RAG config that searches them.
+ * Members of a collection bound to a RAG config use that config's retrieval settings
+ * (first bound collection wins), and its embedding model when it differs from the active
+ * one; everything else uses the current config.
+ */
+async function groupSourcesByRagConfig(
+    sourceIds: number[],
+    collections: SourceCollection[],
+    currentConfig: RAGConfig | null
+): Promise<SourceGroup[]> {
+    const currentFingerprint = currentConfig ? getEmbeddingFingerprint(currentConfig) : '';
+    const groups = new Map<string, SourceGroup>();
+    const assigned = new Set<number>();
+
+    for (const collection of collections) {
+        if (!collection.ragConfigId || collection.ragConfigId === currentConfig?.id) continue;
+        const config = await ragConfigRepository.findById(collection.ragConfigId);
+        if (!config) continue;
+
+        const members = collection.sourceIds.filter((id) => sourceIds.includes(id) && !assigned.has(id));
+        if (members.length === 0) continue;
+
+        // Configs without an embedding model of their own search the active index
+        const fingerprint = getEmbeddingFingerprint(config);
+        const usesActiveIndex = fingerprint === currentFingerprint || config.provider === 'none';
+        const group = groups.get(config.id) ?? {
+            sourceIds: [],
+            fingerprint: usesActiveIndex ? currentFingerprint : fingerprint,
+            config: usesActiveIndex ? undefined : config,
+            settings: config.retrievalSettings ?? DEFAULT_RAG_RETRIEVAL_SETTINGS,
+        };
+        group.sourceIds.push(...members);
+        groups.set(config.id, group);
+        members.forEach((id) => assigned.add(id));
+    }
+
+    const remaining = sourceIds.filter((id) => !assigned.has(id));
+    return [
+        ...(remaining.length > 0
+            ? [{ sourceIds: remaining, fingerprint: currentFingerprint, settings: currentConfig?.retrievalSettings }]
+            : []),
+        ...groups.values(),
+    ];
+}
+
+/**
+ * Merge several rankings by taking results round-robin, skipping duplicates
+ */
+function interleaveResults(rankings: RAGSearchResult[][]): RAGSearchResult[] {
+    const merged: RAGSearchResult[] = [];
+    const seen = new Set<string>();
+    const longest = Math.max(0, ...rankings.map((r) => r.length));
+
+    for (let rank = 0; rank < longest; rank++) {
+        for (const ranking of rankings) {
+            const result = ranking[rank];
+            if (!result) continue;
+            const key = result.id ?? result.content;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            merged.push(result);
+        }
+    }
+    return merged;
+}
+
 /**
  * Check if RAG is supported on current platform
  */
@@ -27,11 +27,13 @@ interface RAGRuntimeActions {
     reprocess: () => Promise<void>;
     addChunks: () => Promise<void>;
     query: () => Promise<[]>;
+    deleteSourceChunks: () => Promise<void>;
     clearVectorStore: () => Promise<void>;
     getVectorStore: () => null;
     getEmbeddings: () => null;
     isReady: () => boolean;
     isStale: () => boolean;
+    ensureReady: () => Promise<boolean>;
 }
 
 type RAGRuntimeStore = RAGRuntimeState & RAGRuntimeActions;
@@ -54,11 +56,13 @@ export const useRAGRuntimeStore = create<RAGRuntimeStore>(() => ({
     reprocess: async () => { },
     addChunks: async () => { },
     query: async () => [],
+    deleteSourceChunks: async () => { },
     clearVectorStore: async () => { },
     getVectorStore: () => null,
     getEmbeddings: () => null,
     isReady: () => false,
     isStale: () => false,
+    ensureReady: async () => false,
 }));
 
 export function isRagSupported(): boolean {
@@ -0,0 +1,149 @@
+/**
+ * Source Collection Store
+ *
+ * State management for named groups of sources.
+ * Conversations and personas reference collections by ID; membership is
+ * resolved at send time so newly added documents are picked up automatically.
+ */
+
+import { create } from 'zustand';
+import { sourceCollectionRepository } from '../core/storage';
+import { generateId, SourceCollection } from '../core/types';
+
+interface SourceCollectionStoreState {
+    collections: SourceCollection[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+interface SourceCollectionStoreActions {
+    loadCollections: () => Promise<void>;
+    createCollection: (collection: Omit<SourceCollection, 'id' | 'createdAt' | 'updatedAt'>) => Promise<SourceCollection | null>;
+    updateCollection: (collection: SourceCollection) => Promise<void>;
+    deleteCollection: (id: string) => Promise<void>;
+    addSourceToCollection: (collectionId: string, sourceId: number) => Promise<void>;
+    removeSourceFromCollection: (collectionId: string, sourceId: number) => Promise<void>;
+    /** Drop a deleted source from every collection */
+    removeSource: (sourceId: number) => Promise<void>;
+    getCollectionById: (id: string) => SourceCollection | undefined;
+    clearError: () => void;
+}
+
+type SourceCollectionStore = SourceCollectionStoreState & SourceCollectionStoreActions;
+
+export const useSourceCollectionStore = create<SourceCollectionStore>((set, get) => ({
+    // Initial state
+    collections: [],
+    isLoading: false,
+    error: null,
+
+    loadCollections: async () => {
+        set({ isLoading: true, error: null });
+        try {
+            const collections = await sourceCollectionRepository.findAll();
+            set({ collections, isLoading: false });
+        } catch (e) {
+            console.error('[SourceCollectionStore] Error loading collections:', e);
+            set({
+                error: e instanceof Error ? e.message : 'Failed to load collections',
+                isLoading: false,
+            });
+        }
+    },
+
+    createCollection: async (collectionData) => {
+        const now = Date.now();
+        const collection: SourceCollection = {
+            ...collectionData,
+            id: generateId(),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        try {
+            await sourceCollectionRepository.create(collection);
+            set((state) => ({
+                collections: [...state.collections, collection],
+            }));
+            return collection;
+        } catch (e) {
+            console.error('[SourceCollectionStore] Error creating collection:', e);
+            set({
+                error: e instanceof Error ? e.message : 'Failed to create collection',
+            });
+            return null;
+        }
+    },
+
+    updateCollection: async (collection) => {
+        try {
+            const updated = await sourceCollectionRepository.update(collection);
+            set((state) => ({
+                collections: state.collections.map((c) => (c.id === updated.id ? updated : c)),
+            }));
+        } catch (e) {
+            console.error('[SourceCollectionStore] Error updating collection:', e);
+            set({
+                error: e instanceof Error ? e.message : 'Failed to update collection',
+            });
+        }
+    },
+
+    deleteCollection: async (id) => {
+        try {
+            await sourceCollectionRepository.delete(id);
+            set((state) => ({
+                collections: state.collections.filter((c) => c.id !== id),
+            }));
+        } catch (e) {
+            console.error('[SourceCollectionStore] Error deleting collection:', e);
+            set({
+                error: e instanceof Error ? e.message : 'Failed to delete collection',
+            });
+        }
+    },
+
+    addSourceToCollection: async (collectionId, sourceId) => {
+        const collection = get().getCollectionById(collectionId);
+        if (!collection || collection.sourceIds.includes(sourceId)) return;
+        await get().updateCollection({
+            ...collection,
+            sourceIds: [...collection.sourceIds, sourceId],
+        });
+    },
+
+    removeSourceFromCollection: async (collectionId, sourceId) => {
+        const collection = get().getCollectionById(collectionId);
+        if (!collection) return;
+        await get().updateCollection({
+            ...collection,
+            sourceIds: collection.sourceIds.filter((id) => id !== sourceId),
+        });
+    },
+
+    removeSource: async (sourceId) => {
+        try {
+            await sourceCollectionRepository.removeSourceFromAll(sourceId);
+            set((state) => ({
+                collections: state.collections.map((c) =>
+                    c.sourceIds.includes(sourceId)
+                        ? { ...c, sourceIds: c.sourceIds.filter((id) => id !== sourceId) }
+                        : c
+                ),
+            }));
+        } catch (e) {
+            console.error('[SourceCollectionStore] Error removing source from collections:', e);
+            set({
+                error: e instanceof Error ? e.message : 'Failed to update collections',
+            });
+        }
+    },
+
+    getCollectionById: (id) => {
+        return get().collections.find((c) => c.id === id);
+    },
+
+    clearError: () => {
+        set({ error: null });
+    },
+}));
@@ -71,6 +71,13 @@ export const useSourceStore = create<SourceStore>((set, get) => ({
             set((state) => ({
                 sources: state.sources.filter((s) => s.id !== source.id),
             }));
+
+            const { useSourceCollectionStore } = await import('./sourceCollectionStore');
+            await useSourceCollectionStore.getState().removeSource(source.id);
+
+            // Drop its chunks so they no longer match searches
+            const { useRAGRuntimeStore } = await import('./ragRuntimeStore');
+            await useRAGRuntimeStore.getState().deleteSourceChunks(source.id);
         } catch (e) {
             console.error('[SourceStore] Error deleting source:', e);
             set({
@@ -0,0 +1,106 @@
+/**
+ * Conversation Title Helpers
+ *
+ * Builds the title request from a conversation's first exchange and cleans up
+ * the model's answer. conversationStore decides when titles are generated.
+ */
+
+import { ChatMessage } from '../core/llm';
+import { LLMProvider, Message } from '../core/types';
+import { useExecutorchLLMStore } from './executorchLLMStore';
+import { useLlamaCppLLMStore } from './llamaCppLLMStore';
+
+const TITLE_PROMPT = 'Write a short title (3 to 6 words) for the conversation below. '
+    + 'Reply with the title only: no quotes, no explanation, no trailing punctuation.';
+
+/** Characters of each message included in the title request */
+const MAX_EXCERPT_LENGTH = 1000;
+
+/** Longer answers are truncated */
+const MAX_TITLE_LENGTH = 60;
+
+/** Placeholder length used before a title is generated */
+const FALLBACK_TITLE_LENGTH = 50;
+
+/** Room for reasoning models to think before answering */
+export const TITLE_MAX_TOKENS = 256;
+
+/**
+ * Placeholder title from the first user message
+ */
+export function getFallbackTitle(content: string): string {
+    return content.slice(0, FALLBACK_TITLE_LENGTH) + (content.length > FALLBACK_TITLE_LENGTH ? '...' : '');
+}
+
+function excerpt(text: string): string {
+    const trimmed = text.trim();
+    return trimmed.length > MAX_EXCERPT_LENGTH ? `${trimmed.slice(0, MAX_EXCERPT_LENGTH)}...` : trimmed;
+}
+
+/**
+ * Find the first user message and the first answer to it on a branch
+ */
+export function getFirstExchange(branch: Message[]): { user: Message; assistant: Message } | null {
+    const userIndex = branch.findIndex((m) => m.role === 'user' && m.content.trim());
+    if (userIndex === -1) return null;
+    const assistant = branch.slice(userIndex + 1).find((m) => m.role === 'assistant' && m.content.trim());
+    return assistant ? { user: branch[userIndex], assistant } : null;
+}
+
+/**
+ * Build the title request from the first exchange; null when there's nothing to summarize yet
+ */
+export function buildTitleMessages(branch: Message[]): ChatMessage[] | null {
+    const exchange = getFirstExchange(branch);
+    if (!exchange) return null;
+
+    return [
+        { role: 'system', content: TITLE_PROMPT },
+        {
+            role: 'user',
+            content: `User: ${excerpt(exchange.user.content)}\n\nAssistant: ${excerpt(exchange.assistant.content)}`,
+        },
+    ];
+}
+
+/**
+ * Reduce a model answer to a single title line
+ */
+export function cleanGeneratedTitle(raw: string): string {
+    const line = raw
+        .replace(/<think>[\s\S]*?(<\/think>|$)/g, '')
+        .split('\n')
+        .map((l) => l.trim())
+        .find(Boolean) ?? '';
+
+    const title = line
+        .replace(/^#+\s*/, '')
+        .replace(/^title\s*:\s*/i, '')
+        .replace(/^[*_"'“”‘’`]+|[*_"'“”‘’`]+$/g, '')
+        .replace(/[.!:;,]+$/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH).trim()}...` : title;
+}
+
+/**
+ * Whether a local model is loaded and can take a request
+ */
+export function isLocalModelReady(provider: LLMProvider): boolean {
+    if (provider === 'executorch') return useExecutorchLLMStore.getState().isReady;
+    if (provider === 'llama-cpp') return useLlamaCppLLMStore.getState().isReady;
+    return false;
+}
+
+/**
+ * Whether a local model is processing a prompt or generating
+ */
+export function isLocalModelBusy(provider: LLMProvider): boolean {
+    const state = provider === 'executorch'
+        ? useExecutorchLLMStore.getState()
+        : provider === 'llama-cpp'
+            ? useLlamaCppLLMStore.getState()
+            : null;
+    return !!state && (state.isGenerating || state.isProcessingPrompt);
+}
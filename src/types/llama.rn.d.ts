@@ -4,21 +4,48 @@
  */
 
 declare module 'llama.rn' {
+    export interface LlamaToolCall {
+        type: 'function';
+        id?: string;
+        function: { name: string; arguments: string };
+    }
+
+    export interface LlamaMessagePart {
+        type: 'text' | 'image_url';
+        text?: string;
+        image_url?: { url: string };
+    }
+
     export interface LlamaContext {
         completion(
             params: {
-                messages?: Array<{ role: string; content: string }>;
+                messages?: Array<{
+                    role: string;
+                    content: string | LlamaMessagePart[];
+                    tool_calls?: LlamaToolCall[];
+                    tool_call_id?: string;
+                }>;
                 prompt?: string;
                 n_predict?: number;
                 stop?: string[];
                 temperature?: number;
                 top_p?: number;
+                jinja?: boolean;
+                tools?: Array<{
+                    type: 'function';
+                    function: { name: string; description: string; parameters: object };
+                }>;
+                tool_choice?: string;
             },
             callback: (data: { token: string }) => void
-        ): Promise<{ text: string }>;
+        ): Promise<{ text: string; tool_calls?: LlamaToolCall[] }>;
 
         embedding(text: string): Promise<{ embedding: number[] }>;
 
+        initMultimodal(params: { path: string; use_gpu?: boolean }): Promise<boolean>;
+
+        releaseMultimodal(): Promise<void>;
+
         stopCompletion(): void;
 
         release(): Promise<void>;
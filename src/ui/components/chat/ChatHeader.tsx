@@ -9,8 +9,10 @@ import {
     View,
 } from 'react-native';
 import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
-import { Conversation } from '../../../core/types';
+import { hasGenerationSettings } from '../../../core/llm';
+import { Conversation, GenerationSettings } from '../../../core/types';
 import { useAppColorScheme } from '../../hooks';
+import { GenerationSettingsModal } from './GenerationSettingsModal';
 
 interface ChatHeaderProps {
     conversation: Conversation | null;
@@ -18,6 +20,10 @@ interface ChatHeaderProps {
     onMenuPress?: () => void;
     onSettingsPress?: () => void;
     showAlert?: boolean; // Show warning icon instead of settings when local model needs selection
+    /** Save the conversation's generation overrides; shows the generation settings button when set */
+    onGenerationSettingsChange?: (settings: GenerationSettings | undefined) => void;
+    /** Persona defaults shown as inherited values in the generation settings panel */
+    personaGenerationSettings?: GenerationSettings;
 }
 
 export function ChatHeader({
@@ -26,8 +32,11 @@ export function ChatHeader({
     onMenuPress,
     onSettingsPress,
     showAlert = false,
+    onGenerationSettingsChange,
+    personaGenerationSettings,
 }: ChatHeaderProps) {
     const [isEditingTitle, setIsEditingTitle] = useState(false);
+    const [showGenerationSettings, setShowGenerationSettings] = useState(false);
     const [editedTitle, setEditedTitle] = useState('');
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
@@ -98,6 +107,15 @@ export function ChatHeader({
             </View>
 
             <View style={styles.rightSection}>
+                {onGenerationSettingsChange && (
+                    <TouchableOpacity onPress={() => setShowGenerationSettings(true)} style={styles.settingsButton}>
+                        <Ionicons
+                            name="options-outline"
+                            size={22}
+                            color={hasGenerationSettings(conversation.generationSettings) ? colors.tint : colors.textMuted}
+                        />
+                    </TouchableOpacity>
+                )}
                 {onSettingsPress && (
                     <TouchableOpacity onPress={onSettingsPress} style={styles.settingsButton}>
                         <Ionicons
@@ -108,6 +126,16 @@ export function ChatHeader({
                     </TouchableOpacity>
                 )}
             </View>
+
+            {onGenerationSettingsChange && (
+                <GenerationSettingsModal
+                    visible={showGenerationSettings}
+                    settings={conversation.generationSettings}
+                    personaSettings={personaGenerationSettings}
+                    onSave={onGenerationSettingsChange}
+                    onClose={() => setShowGenerationSettings(false)}
+                />
+            )}
         </View>
     );
 }
@@ -0,0 +1,146 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { MessageCitation } from '../../../core/types';
+import { useAppColorScheme } from '../../hooks';
+
+interface CitationSheetProps {
+    /** Citation to show; the sheet is hidden when null */
+    citation: MessageCitation | null;
+    onClose: () => void;
+}
+
+/**
+ * Shows the retrieved chunk behind a [n] citation in an answer
+ */
+export function CitationSheet({ citation, onClose }: CitationSheetProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { width, height } = useWindowDimensions();
+
+    const details = citation
+        ? [
+            citation.page !== undefined && `Page ${citation.page}`,
+            citation.chunkIndex !== undefined && `Passage ${citation.chunkIndex + 1}`,
+            citation.score !== undefined && `${Math.round(citation.score * 100)}% match`,
+        ].filter(Boolean).join(' · ')
+        : '';
+
+    return (
+        <Modal
+            visible={!!citation}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 520),
+                            maxHeight: height * 0.7,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    {citation && (
+                        <>
+                            <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                                <View style={[styles.indexBadge, { backgroundColor: colors.tint + '20' }]}>
+                                    <Text style={[styles.indexText, { color: colors.tint }]}>{citation.index}</Text>
+                                </View>
+                                <View style={styles.headerInfo}>
+                                    <Text style={[styles.sourceName, { color: colors.text }]} numberOfLines={2}>
+                                        {citation.sourceName}
+                                    </Text>
+                                    {!!details && (
+                                        <Text style={[styles.details, { color: colors.textMuted }]}>
+                                            {details}
+                                        </Text>
+                                    )}
+                                </View>
+                                <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                                    <Ionicons name="close" size={24} color={colors.textMuted} />
+                                </TouchableOpacity>
+                            </View>
+                            <ScrollView contentContainerStyle={styles.body}>
+                                <Text style={[styles.chunkText, { color: colors.text }]} selectable>
+                                    {citation.content}
+                                </Text>
+                            </ScrollView>
+                        </>
+                    )}
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+        gap: Spacing.sm,
+    },
+    indexBadge: {
+        minWidth: 28,
+        height: 28,
+        borderRadius: BorderRadius.sm,
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingHorizontal: Spacing.xs,
+    },
+    indexText: {
+        fontSize: FontSizes.sm,
+        fontWeight: '700',
+    },
+    headerInfo: {
+        flex: 1,
+    },
+    sourceName: {
+        fontSize: FontSizes.md,
+        fontWeight: '600',
+    },
+    details: {
+        fontSize: FontSizes.xs,
+        marginTop: 2,
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    body: {
+        padding: Spacing.md,
+    },
+    chunkText: {
+        fontSize: FontSizes.sm,
+        lineHeight: 20,
+    },
+});
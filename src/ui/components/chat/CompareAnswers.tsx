@@ -0,0 +1,193 @@
+/**
+ * CompareAnswers
+ *
+ * Answers of a compare conversation's targets to the latest prompt, side by side.
+ * Each column shows its answer (or live progress) with latency, token usage and
+ * speed; picking one continues the conversation from that answer.
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { formatDuration } from '../../../core/llm/generationMetrics';
+import { Message } from '../../../core/types';
+import { useLLMStore } from '../../../state';
+import { CompareColumn } from '../../../state/compareHelpers';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { MessageBubble } from './MessageBubble';
+
+interface CompareAnswersProps {
+    columns: CompareColumn[];
+    onPick: (message: Message) => void;
+    /** Picking is disabled while any target is still answering */
+    isRunning: boolean;
+}
+
+// Columns narrower than this scroll horizontally instead of shrinking
+const MIN_COLUMN_WIDTH = 260;
+
+export function CompareAnswers({ columns, onPick, isRunning }: CompareAnswersProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { getConfigById } = useLLMStore();
+    const [width, setWidth] = useState(0);
+
+    const columnWidth = Math.max(MIN_COLUMN_WIDTH, (width - Spacing.md) / columns.length - Spacing.sm);
+
+    const renderStatus = (column: CompareColumn) => {
+        const entry = column.entry;
+        if (!entry || column.message) return null;
+
+        if (entry.status === 'error') {
+            return (
+                <View style={styles.status}>
+                    <Ionicons name="alert-circle-outline" size={16} color={colors.error} />
+                    <Text style={[styles.statusText, { color: colors.error }]}>{entry.error}</Text>
+                </View>
+            );
+        }
+        if (entry.status === 'stopped') {
+            return <Text style={[styles.statusText, styles.status, { color: colors.textMuted }]}>{t('chat.compare.stopped')}</Text>;
+        }
+        if (entry.status === 'streaming' && (entry.content || entry.thinking)) {
+            return (
+                <MessageBubble
+                    message={{
+                        id: `compare-${column.target.providerId}-${column.target.modelId}`,
+                        conversationId: '',
+                        role: 'assistant',
+                        content: entry.content,
+                        contentType: 'text',
+                        timestamp: Date.now(),
+                        modelId: column.target.modelId,
+                        thinkingContent: entry.thinking || undefined,
+                    }}
+                    showLLMBadge={false}
+                />
+            );
+        }
+        return (
+            <View style={styles.status}>
+                <ActivityIndicator size="small" color={colors.tint} />
+                <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+                    {t(entry.status === 'waiting'
+                        ? 'chat.compare.waiting'
+                        : entry.status === 'loading' ? 'chat.compare.loading' : 'chat.compare.thinking')}
+                </Text>
+            </View>
+        );
+    };
+
+    const renderMetrics = (message: Message) => {
+        const { metrics, usage } = message;
+        const tokens = usage?.completionTokens;
+        const parts = [
+            metrics && formatDuration(metrics.latencyMs),
+            tokens !== undefined && t('chat.compare.tokens', { count: `${metrics?.tokensEstimated ? '~' : ''}${tokens}` }),
+            metrics?.tokensPerSecond !== undefined && t('chat.compare.speed', { speed: metrics.tokensPerSecond.toFixed(1) }),
+        ].filter(Boolean);
+        if (parts.length === 0) return null;
+
+        return (
+            <Text style={[styles.metrics, { color: colors.textMuted }]}>
+                {parts.join(' • ')}
+            </Text>
+        );
+    };
+
+    return (
+        <View onLayout={(event) => setWidth(event.nativeEvent.layout.width)}>
+            <ScrollView horizontal contentContainerStyle={styles.columns} showsHorizontalScrollIndicator={false}>
+                {columns.map((column, index) => {
+                    const config = getConfigById(column.target.providerId);
+                    return (
+                        <View
+                            key={index}
+                            style={[
+                                styles.column,
+                                { width: columnWidth, backgroundColor: colors.backgroundSecondary, borderColor: colors.border },
+                            ]}
+                        >
+                            <Text style={[styles.columnTitle, { color: colors.text }]} numberOfLines={1}>
+                                {config?.name || t('chat.compare.unknownProvider')} • {column.target.modelId}
+                            </Text>
+
+                            <View style={styles.columnBody}>
+                                {column.message ? (
+                                    <MessageBubble message={column.message} showLLMBadge={false} />
+                                ) : renderStatus(column)}
+                            </View>
+
+                            {column.message && (
+                                <>
+                                    {renderMetrics(column.message)}
+                                    <TouchableOpacity
+                                        onPress={() => onPick(column.message!)}
+                                        disabled={isRunning}
+                                        style={[styles.pickButton, { backgroundColor: colors.tint }, isRunning && { opacity: 0.5 }]}
+                                    >
+                                        <Ionicons name="checkmark" size={16} color="#fff" />
+                                        <Text style={styles.pickButtonText}>{t('chat.compare.pick')}</Text>
+                                    </TouchableOpacity>
+                                </>
+                            )}
+                        </View>
+                    );
+                })}
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    columns: {
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        gap: Spacing.sm,
+        alignItems: 'flex-start',
+    },
+    column: {
+        borderRadius: BorderRadius.md,
+        borderWidth: 1,
+        paddingVertical: Spacing.sm,
+    },
+    columnTitle: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        paddingHorizontal: Spacing.sm,
+    },
+    columnBody: {
+        minHeight: 48,
+    },
+    status: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.xs,
+        padding: Spacing.sm,
+    },
+    statusText: {
+        flexShrink: 1,
+        fontSize: FontSizes.sm,
+    },
+    metrics: {
+        fontSize: FontSizes.xs,
+        paddingHorizontal: Spacing.sm,
+    },
+    pickButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: Spacing.xs,
+        marginTop: Spacing.sm,
+        marginHorizontal: Spacing.sm,
+        paddingVertical: Spacing.xs,
+        borderRadius: BorderRadius.sm,
+    },
+    pickButtonText: {
+        color: '#fff',
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,170 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { GenerationSettings } from '../../../core/types';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import {
+    Button,
+    GenerationSettingsFields,
+    parseGenerationSettingsDraft,
+    toGenerationSettingsDraft,
+} from '../common';
+
+interface GenerationSettingsModalProps {
+    visible: boolean;
+    /** Current conversation overrides */
+    settings?: GenerationSettings;
+    /** Persona defaults, shown as the inherited values */
+    personaSettings?: GenerationSettings;
+    onSave: (settings: GenerationSettings | undefined) => void;
+    onClose: () => void;
+}
+
+/**
+ * Panel for editing a conversation's generation overrides
+ */
+export function GenerationSettingsModal({
+    visible,
+    settings,
+    personaSettings,
+    onSave,
+    onClose,
+}: GenerationSettingsModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { width, height } = useWindowDimensions();
+
+    const [draft, setDraft] = useState(() => toGenerationSettingsDraft(settings));
+
+    // Reset the form each time the panel opens
+    useEffect(() => {
+        if (visible) {
+            setDraft(toGenerationSettingsDraft(settings));
+        }
+    }, [visible]);
+
+    const handleSave = () => {
+        onSave(parseGenerationSettingsDraft(draft));
+        onClose();
+    };
+
+    const handleReset = () => {
+        onSave(undefined);
+        onClose();
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 440),
+                            maxHeight: height * 0.8,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]}>
+                            {t('generationSettings.title')}
+                        </Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+                        <Text style={[styles.hint, { color: colors.textMuted }]}>
+                            {t('generationSettings.conversationHint')}
+                        </Text>
+                        <GenerationSettingsFields
+                            value={draft}
+                            onChange={setDraft}
+                            inherited={personaSettings}
+                        />
+                    </ScrollView>
+
+                    <View style={[styles.actions, { borderTopColor: colors.border }]}>
+                        <Button
+                            title={t('generationSettings.reset')}
+                            onPress={handleReset}
+                            variant="secondary"
+                            style={styles.actionButton}
+                        />
+                        <Button
+                            title={t('common.save')}
+                            onPress={handleSave}
+                            style={styles.actionButton}
+                        />
+                    </View>
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    body: {
+        padding: Spacing.md,
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+        marginBottom: Spacing.md,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderTopWidth: 1,
+    },
+    actionButton: {
+        flex: 1,
+    },
+});
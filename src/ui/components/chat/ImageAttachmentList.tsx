@@ -0,0 +1,70 @@
+/**
+ * ImageAttachmentList - thumbnails of images attached to the message being composed
+ */
+import { Ionicons } from '@expo/vector-icons';
+import { Image, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { BorderRadius, Colors, Spacing } from '../../../config/theme';
+import { MessageImage } from '../../../core/types';
+import { useAppColorScheme } from '../../hooks';
+
+interface ImageAttachmentListProps {
+    images: MessageImage[];
+    onRemove: (imageId: string) => void;
+}
+
+export function ImageAttachmentList({ images, onRemove }: ImageAttachmentListProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+
+    if (images.length === 0) return null;
+
+    return (
+        <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.container}
+        >
+            {images.map((image) => (
+                <View key={image.id} style={[styles.thumbnail, { borderColor: colors.border }]}>
+                    <Image source={{ uri: image.url }} style={styles.image} resizeMode="cover" />
+                    <TouchableOpacity
+                        onPress={() => onRemove(image.id)}
+                        style={[styles.removeButton, { backgroundColor: colors.overlay }]}
+                        hitSlop={6}
+                    >
+                        <Ionicons name="close" size={12} color="#FFFFFF" />
+                    </TouchableOpacity>
+                </View>
+            ))}
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        gap: Spacing.xs,
+        paddingHorizontal: Spacing.sm,
+        paddingTop: Spacing.sm,
+    },
+    thumbnail: {
+        width: 56,
+        height: 56,
+        borderRadius: BorderRadius.md,
+        borderWidth: 1,
+        overflow: 'hidden',
+    },
+    image: {
+        width: '100%',
+        height: '100%',
+    },
+    removeButton: {
+        position: 'absolute',
+        top: 2,
+        right: 2,
+        width: 18,
+        height: 18,
+        borderRadius: 9,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+});
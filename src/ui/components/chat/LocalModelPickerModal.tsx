@@ -0,0 +1,182 @@
+/**
+ * LocalModelPickerModal
+ *
+ * Lists the downloaded models of the enabled on-device providers, so a prompt
+ * queued for a remote provider can be answered locally instead.
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { isLocalProvider } from '../../../state';
+import { useAppColorScheme, useLocale, useModelSelection } from '../../hooks';
+
+interface LocalModelPickerModalProps {
+    visible: boolean;
+    onSelect: (providerId: string, modelId: string) => void;
+    onClose: () => void;
+}
+
+export function LocalModelPickerModal({ visible, onSelect, onClose }: LocalModelPickerModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { enabledConfigs, getModelsForConfig } = useModelSelection();
+    const { width, height } = useWindowDimensions();
+
+    const options = enabledConfigs
+        .filter((config) => isLocalProvider(config.provider))
+        .flatMap((config) => getModelsForConfig(config).map((modelId) => ({ config, modelId })));
+
+    const modalWidth = Math.min(width - 32, 400);
+    const modalMaxHeight = height * 0.6;
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: modalWidth,
+                            maxHeight: modalMaxHeight,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]}>
+                            {t('chat.outbox.selectLocalModel')}
+                        </Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+                    <Text style={[styles.hint, { color: colors.textMuted }]}>
+                        {t('chat.outbox.selectLocalModelHint')}
+                    </Text>
+
+                    <ScrollView
+                        style={styles.list}
+                        contentContainerStyle={styles.listContent}
+                        nestedScrollEnabled={true}
+                    >
+                        {options.map(({ config, modelId }) => (
+                            <TouchableOpacity
+                                key={`${config.id}:${modelId}`}
+                                style={[styles.modelItem, { borderBottomColor: colors.border }]}
+                                onPress={() => {
+                                    onSelect(config.id, modelId);
+                                    onClose();
+                                }}
+                            >
+                                <Ionicons name="phone-portrait-outline" size={18} color={colors.tint} />
+                                <View style={styles.modelInfo}>
+                                    <Text style={[styles.modelName, { color: colors.text }]} numberOfLines={1}>
+                                        {modelId}
+                                    </Text>
+                                    <Text style={[styles.providerName, { color: colors.textMuted }]}>
+                                        {config.name}
+                                    </Text>
+                                </View>
+                            </TouchableOpacity>
+                        ))}
+
+                        {options.length === 0 && (
+                            <View style={styles.emptyState}>
+                                <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+                                    {t('chat.outbox.noLocalModels')}
+                                </Text>
+                            </View>
+                        )}
+                    </ScrollView>
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+        paddingHorizontal: Spacing.md,
+        paddingTop: Spacing.sm,
+    },
+    list: {
+        flexGrow: 0,
+        flexShrink: 1,
+    },
+    listContent: {
+        paddingVertical: Spacing.xs,
+    },
+    modelItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.md,
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.md,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+    },
+    modelInfo: {
+        flex: 1,
+    },
+    modelName: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+        marginBottom: 2,
+    },
+    providerName: {
+        fontSize: FontSizes.sm,
+    },
+    emptyState: {
+        padding: Spacing.lg,
+        alignItems: 'center',
+    },
+    emptyText: {
+        fontSize: FontSizes.sm,
+        textAlign: 'center',
+    },
+});
@@ -11,15 +11,432 @@ import {
 } from 'react-native';
 import Markdown from 'react-native-markdown-display';
 import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
-import { Message } from '../../../core/types';
-import { useLLMStore } from '../../../state';
+import { formatDuration } from '../../../core/llm/generationMetrics';
+import { parseJsonOutput } from '../../../core/llm/structuredOutput';
+import { Message, MessageCitation, MessageFailedAttempt, MessageLoreEntry, OutputValidation } from '../../../core/types';
+import { useConversationStore, useLLMStore } from '../../../state';
 import { useAppColorScheme } from '../../hooks';
+import { CitationSheet } from './CitationSheet';
 
 interface MessageBubbleProps {
     message: Message;
     showLLMBadge?: boolean;
+    /**
+     * How this message was trimmed from the last prompt:
+     * - excluded: left out entirely to fit the context window
+     * - contextStripped: sent without its RAG context block
+     */
+    promptStatus?: 'excluded' | 'contextStripped';
+    /** Position among sibling branches, shown when there is more than one */
+    branch?: MessageBranch;
+    /** Edit this (user) message into a new branch */
+    onEdit?: () => void;
+    /** Regenerate this (assistant) message into a new branch */
+    onRegenerate?: () => void;
+    /** Briefly highlight the message (e.g. opened from search) */
+    highlighted?: boolean;
+    /** Retrieved RAG chunks the (assistant) message can cite as [1], [2], ... */
+    citations?: MessageCitation[];
+    /** Retry sending this (user) message after its delivery failed */
+    onRetryDelivery?: () => void;
+    /** Answer this queued (user) message with a local model instead */
+    onSendToLocalModel?: () => void;
 }
 
+export interface MessageBranch {
+    index: number;
+    count: number;
+    onSelect: (index: number) => void;
+}
+
+// Link scheme for citation markers, handled in onLinkPress instead of opening a URL
+const CITATION_LINK_PREFIX = 'citation:';
+
+/**
+ * Turn [n] markers that match a citation into Markdown links.
+ * Code spans and fenced blocks are left alone, as is indexing like arr[1].
+ */
+function linkCitations(content: string, citations: MessageCitation[]): string {
+    const indices = new Set(citations.map((c) => c.index));
+    return content
+        .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+        .map((part, i) => i % 2 === 1
+            ? part
+            : part.replace(/(?<![\w\\])\[(\d+)\](?![(:])/g, (match, n: string) =>
+                indices.has(Number(n)) ? `[\\[${n}\\]](${CITATION_LINK_PREFIX}${n})` : match
+            ))
+        .join('');
+}
+
+// Arrows to switch between sibling branches, e.g. "< 2 / 3 >"
+const BranchNavigator = memo(function BranchNavigator({
+    branch,
+    colors,
+}: {
+    branch: MessageBranch;
+    colors: any;
+}) {
+    const hasPrevious = branch.index > 0;
+    const hasNext = branch.index < branch.count - 1;
+
+    return (
+        <View style={branchStyles.container}>
+            <TouchableOpacity
+                onPress={() => branch.onSelect(branch.index - 1)}
+                disabled={!hasPrevious}
+                style={branchStyles.arrow}
+            >
+                <Ionicons name="chevron-back" size={14} color={hasPrevious ? colors.textSecondary : colors.border} />
+            </TouchableOpacity>
+            <Text style={[branchStyles.label, { color: colors.textMuted }]}>
+                {branch.index + 1} / {branch.count}
+            </Text>
+            <TouchableOpacity
+                onPress={() => branch.onSelect(branch.index + 1)}
+                disabled={!hasNext}
+                style={branchStyles.arrow}
+            >
+                <Ionicons name="chevron-forward" size={14} color={hasNext ? colors.textSecondary : colors.border} />
+            </TouchableOpacity>
+        </View>
+    );
+});
+
+const branchStyles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    arrow: {
+        padding: 2,
+    },
+    label: {
+        fontSize: FontSizes.xs,
+        fontVariant: ['tabular-nums'],
+    },
+});
+
+// Generation metrics of an assistant message, one line per measurement
+const GenerationStats = memo(function GenerationStats({
+    message,
+    colors,
+}: {
+    message: Message;
+    colors: any;
+}) {
+    const { metrics, usage } = message;
+    const estimated = metrics?.tokensEstimated ? '~' : '';
+    const rows: Array<[string, string]> = [];
+
+    if (metrics?.promptMs !== undefined) rows.push(['Prompt processing', formatDuration(metrics.promptMs)]);
+    if (metrics?.timeToFirstTokenMs !== undefined) rows.push(['Time to first token', formatDuration(metrics.timeToFirstTokenMs)]);
+    if (metrics?.tokensPerSecond !== undefined) rows.push(['Speed', `${metrics.tokensPerSecond.toFixed(1)} tok/s`]);
+    if (usage?.promptTokens !== undefined) rows.push(['Prompt tokens', String(usage.promptTokens)]);
+    if (usage?.completionTokens !== undefined) rows.push(['Completion tokens', `${estimated}${usage.completionTokens}`]);
+    if (metrics) rows.push(['Total time', formatDuration(metrics.latencyMs)]);
+
+    return (
+        <View style={[statsStyles.container, { backgroundColor: colors.backgroundSecondary }]}>
+            {rows.map(([label, value]) => (
+                <View key={label} style={statsStyles.row}>
+                    <Text style={[statsStyles.label, { color: colors.textMuted }]}>{label}</Text>
+                    <Text style={[statsStyles.value, { color: colors.textSecondary }]}>{value}</Text>
+                </View>
+            ))}
+        </View>
+    );
+});
+
+const statsStyles = StyleSheet.create({
+    container: {
+        borderRadius: BorderRadius.md,
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: Spacing.xs,
+        marginTop: Spacing.xs,
+        alignSelf: 'flex-end',
+        minWidth: 200,
+    },
+    row: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: Spacing.md,
+    },
+    label: {
+        fontSize: FontSizes.xs,
+    },
+    value: {
+        fontSize: FontSizes.xs,
+        fontVariant: ['tabular-nums'],
+    },
+});
+
+// Lorebook entries inserted into the prompt for this answer, with the keys that triggered them
+const LoreEntries = memo(function LoreEntries({
+    entries,
+    colors,
+}: {
+    entries: MessageLoreEntry[];
+    colors: any;
+}) {
+    return (
+        <View style={[statsStyles.container, { backgroundColor: colors.backgroundSecondary }]}>
+            {entries.map((entry, index) => (
+                <View key={index} style={statsStyles.row}>
+                    <Text style={[statsStyles.label, loreStyles.name, { color: colors.textSecondary }]} numberOfLines={1}>
+                        {entry.name}
+                    </Text>
+                    <Text style={[statsStyles.value, { color: colors.textMuted }]} numberOfLines={1}>
+                        {entry.keys.length > 0 ? entry.keys.join(', ') : 'always'} • ~{entry.tokens} tok
+                    </Text>
+                </View>
+            ))}
+        </View>
+    );
+});
+
+// Fallback targets that failed before the one that answered, with their last error
+const FailedAttempts = memo(function FailedAttempts({
+    attempts,
+    colors,
+}: {
+    attempts: MessageFailedAttempt[];
+    colors: any;
+}) {
+    const { getConfigById } = useLLMStore();
+
+    return (
+        <View style={[statsStyles.container, failedStyles.container, { backgroundColor: colors.backgroundSecondary }]}>
+            {attempts.map((attempt, index) => (
+                <View key={index}>
+                    <Text style={[statsStyles.label, { color: colors.textSecondary }]} numberOfLines={1}>
+                        {getConfigById(attempt.providerId)?.name || 'Deleted provider'} • {attempt.modelId}
+                    </Text>
+                    <Text style={[statsStyles.value, { color: colors.textMuted }]} numberOfLines={2}>
+                        {attempt.error}
+                        {attempt.retries > 0 ? ` (retried ${attempt.retries}×)` : ''}
+                    </Text>
+                </View>
+            ))}
+        </View>
+    );
+});
+
+// Outbox state of a user message that hasn't been answered yet, with its actions
+const DeliveryStatus = memo(function DeliveryStatus({
+    message,
+    colors,
+    onRetry,
+    onSendToLocalModel,
+}: {
+    message: Message;
+    colors: any;
+    onRetry?: () => void;
+    onSendToLocalModel?: () => void;
+}) {
+    const isOnline = useConversationStore((s) => s.isOnline);
+    const isFailed = message.deliveryStatus === 'failed';
+    const isSending = message.deliveryStatus === 'sending';
+
+    let label = isOnline ? 'Queued' : 'Queued • waiting for connection';
+    if (isSending) label = 'Sending…';
+    if (isFailed) label = `Not sent: ${message.deliveryError || 'unknown error'}`;
+
+    return (
+        <View style={deliveryStyles.container}>
+            <View style={deliveryStyles.status}>
+                <Ionicons
+                    name={isFailed ? 'alert-circle-outline' : isSending ? 'cloud-upload-outline' : 'time-outline'}
+                    size={12}
+                    color={isFailed ? colors.error : colors.textMuted}
+                />
+                <Text
+                    style={[deliveryStyles.label, { color: isFailed ? colors.error : colors.textMuted }]}
+                    numberOfLines={2}
+                >
+                    {label}
+                </Text>
+            </View>
+            {!isSending && (
+                <View style={deliveryStyles.actions}>
+                    {isFailed && onRetry && (
+                        <TouchableOpacity style={deliveryStyles.action} onPress={onRetry}>
+                            <Ionicons name="refresh-outline" size={12} color={colors.tint} />
+                            <Text style={[deliveryStyles.actionText, { color: colors.tint }]}>Retry</Text>
+                        </TouchableOpacity>
+                    )}
+                    {onSendToLocalModel && (
+                        <TouchableOpacity style={deliveryStyles.action} onPress={onSendToLocalModel}>
+                            <Ionicons name="phone-portrait-outline" size={12} color={colors.tint} />
+                            <Text style={[deliveryStyles.actionText, { color: colors.tint }]}>
+                                Send to local model
+                            </Text>
+                        </TouchableOpacity>
+                    )}
+                </View>
+            )}
+        </View>
+    );
+});
+
+const deliveryStyles = StyleSheet.create({
+    container: {
+        alignItems: 'flex-end',
+        gap: 2,
+        paddingHorizontal: Spacing.md,
+        marginTop: 2,
+    },
+    status: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    label: {
+        fontSize: FontSizes.xs,
+        flexShrink: 1,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.md,
+    },
+    action: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 2,
+        paddingVertical: 2,
+    },
+    actionText: {
+        fontSize: FontSizes.xs,
+        fontWeight: '600',
+    },
+});
+
+const failedStyles = StyleSheet.create({
+    container: {
+        alignSelf: 'flex-start',
+        gap: Spacing.xs,
+        marginTop: 0,
+        marginBottom: Spacing.xs,
+    },
+});
+
+const loreStyles = StyleSheet.create({
+    name: {
+        flexShrink: 1,
+    },
+});
+
+// Structured (JSON) answer: validation status, errors and a collapsible pretty-printed view
+const JsonOutput = memo(function JsonOutput({
+    value,
+    validation,
+    colors,
+}: {
+    /** Parsed answer, undefined when it isn't valid JSON */
+    value: unknown;
+    validation: OutputValidation;
+    colors: any;
+}) {
+    const [isExpanded, setIsExpanded] = useState(true);
+    const isValid = validation.errors.length === 0;
+    const hasValue = value !== undefined;
+    const formatted = useMemo(() => (hasValue ? JSON.stringify(value, null, 2) : ''), [hasValue, value]);
+
+    return (
+        <View style={[jsonStyles.container, { backgroundColor: colors.backgroundSecondary }]}>
+            <TouchableOpacity
+                style={jsonStyles.header}
+                onPress={() => setIsExpanded(!isExpanded)}
+                disabled={!hasValue}
+                activeOpacity={0.7}
+            >
+                <Ionicons name="code-slash-outline" size={14} color={colors.textMuted} />
+                <Text style={[jsonStyles.title, { color: colors.textSecondary }]}>
+                    {validation.type === 'json_schema' ? 'JSON Schema' : 'JSON'}
+                </Text>
+                <Ionicons
+                    name={isValid ? 'checkmark-circle' : 'alert-circle'}
+                    size={14}
+                    color={isValid ? colors.success : colors.error}
+                />
+                <Text style={[jsonStyles.status, { color: isValid ? colors.success : colors.error }]}>
+                    {isValid
+                        ? 'Valid'
+                        : `${validation.errors.length} ${validation.errors.length === 1 ? 'error' : 'errors'}`}
+                </Text>
+                {hasValue && (
+                    <Ionicons
+                        name={isExpanded ? 'chevron-up' : 'chevron-down'}
+                        size={14}
+                        color={colors.textMuted}
+                    />
+                )}
+            </TouchableOpacity>
+            {!isValid && (
+                <View style={[jsonStyles.errors, { borderTopColor: colors.border }]}>
+                    {validation.errors.map((error, index) => (
+                        <Text key={index} style={[jsonStyles.error, { color: colors.error }]} selectable>
+                            • {error}
+                        </Text>
+                    ))}
+                </View>
+            )}
+            {hasValue && isExpanded && (
+                <Text
+                    style={[
+                        jsonStyles.code,
+                        {
+                            color: colors.text,
+                            borderTopColor: colors.border,
+                            fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+                        }
+                    ]}
+                    selectable
+                >
+                    {formatted}
+                </Text>
+            )}
+        </View>
+    );
+});
+
+const jsonStyles = StyleSheet.create({
+    container: {
+        borderRadius: BorderRadius.sm,
+        marginVertical: Spacing.xs,
+        overflow: 'hidden',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.xs,
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: Spacing.xs,
+    },
+    title: {
+        fontSize: FontSizes.xs,
+        fontWeight: '500',
+        flex: 1,
+    },
+    status: {
+        fontSize: FontSizes.xs,
+    },
+    errors: {
+        borderTopWidth: 1,
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: Spacing.xs,
+        gap: 2,
+    },
+    error: {
+        fontSize: FontSizes.xs,
+    },
+    code: {
+        fontSize: FontSizes.sm,
+        lineHeight: 20,
+        padding: Spacing.sm,
+        borderTopWidth: 1,
+    },
+});
+
 // Code block component with copy button
 const CodeBlock = memo(function CodeBlock({
     content,
@@ -95,9 +512,100 @@ const codeStyles = StyleSheet.create({
     },
 });
 
+// Compact collapsible card for tool calls and tool results
+const ToolMessageCard = memo(function ToolMessageCard({
+    message,
+    colors,
+}: {
+    message: Message;
+    colors: any;
+}) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const toolCall = message.toolCall;
+    const isResult = message.role === 'tool-result';
+    const isError = isResult && !!toolCall?.isError;
+
+    const details = isResult
+        ? message.content
+        : JSON.stringify(toolCall?.args ?? {}, null, 2);
+
+    return (
+        <TouchableOpacity
+            style={[toolStyles.container, { backgroundColor: colors.backgroundSecondary }]}
+            onPress={() => setIsExpanded(!isExpanded)}
+            activeOpacity={0.7}
+        >
+            <View style={toolStyles.header}>
+                <Ionicons
+                    name={isResult ? (isError ? 'alert-circle-outline' : 'checkmark-circle-outline') : 'construct-outline'}
+                    size={14}
+                    color={isError ? colors.error : colors.textMuted}
+                />
+                <Text style={[toolStyles.title, { color: colors.textSecondary }]} numberOfLines={1}>
+                    {isResult ? `Result from ${toolCall?.toolName}` : `Called ${toolCall?.toolName}`}
+                </Text>
+                <Ionicons
+                    name={isExpanded ? 'chevron-up' : 'chevron-down'}
+                    size={14}
+                    color={colors.textMuted}
+                />
+            </View>
+            {isExpanded && (
+                <Text
+                    style={[
+                        toolStyles.details,
+                        {
+                            color: colors.text,
+                            fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+                        }
+                    ]}
+                    selectable
+                >
+                    {details}
+                </Text>
+            )}
+        </TouchableOpacity>
+    );
+});
+
+const toolStyles = StyleSheet.create({
+    container: {
+        borderRadius: BorderRadius.md,
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: Spacing.xs,
+        marginHorizontal: Spacing.md,
+        marginVertical: 2,
+        alignSelf: 'flex-start',
+        maxWidth: '85%',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.xs,
+    },
+    title: {
+        fontSize: FontSizes.xs,
+        fontWeight: '500',
+        flexShrink: 1,
+    },
+    details: {
+        fontSize: FontSizes.xs,
+        lineHeight: 18,
+        marginTop: Spacing.xs,
+    },
+});
+
 export const MessageBubble = memo(function MessageBubble({
     message,
     showLLMBadge = true,
+    promptStatus,
+    branch,
+    onEdit,
+    onRegenerate,
+    highlighted,
+    citations,
+    onRetryDelivery,
+    onSendToLocalModel,
 }: MessageBubbleProps) {
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
@@ -106,11 +614,44 @@ export const MessageBubble = memo(function MessageBubble({
     const isUser = message.role === 'user';
     const isSystem = message.role === 'system';
 
-    const llmConfig = message.modelId ? getConfigById(message.modelId) : null;
+    const llmConfig = getConfigById(message.providerId || message.modelId) || null;
 
     // State for thinking content expansion
     const [isThinkingExpanded, setIsThinkingExpanded] = useState(false);
 
+    // Generation metrics footer expansion
+    const [isStatsExpanded, setIsStatsExpanded] = useState(false);
+    const hasStats = !isUser && !isSystem && (!!message.metrics || !!message.usage);
+    const [isLoreExpanded, setIsLoreExpanded] = useState(false);
+    const hasLore = !isUser && !isSystem && !!message.loreEntries?.length;
+    const [isFallbackExpanded, setIsFallbackExpanded] = useState(false);
+    const hasFailedAttempts = !isUser && !isSystem && !!message.failedAttempts?.length;
+
+    // Citation opened from a [n] marker
+    const [openCitation, setOpenCitation] = useState<MessageCitation | null>(null);
+
+    // Structured answers show as formatted JSON when they parse
+    const outputValidation = !isUser && !isSystem ? message.outputValidation : undefined;
+    const jsonValue = useMemo(
+        () => (outputValidation ? parseJsonOutput(message.content) : undefined),
+        [outputValidation, message.content]
+    );
+
+    const hasCitations = !isUser && !!citations && citations.length > 0;
+    const displayContent = useMemo(
+        () => (hasCitations ? linkCitations(message.content, citations!) : message.content),
+        [hasCitations, message.content, citations]
+    );
+
+    const handleLinkPress = useCallback((url: string) => {
+        if (!url.startsWith(CITATION_LINK_PREFIX)) {
+            return true; // Let the Markdown renderer open regular links
+        }
+        const index = Number(url.slice(CITATION_LINK_PREFIX.length));
+        setOpenCitation(citations?.find((c) => c.index === index) ?? null);
+        return false;
+    }, [citations]);
+
     const handleCopyMessage = useCallback(async () => {
         await Clipboard.setStringAsync(message.content);
     }, [message.content]);
@@ -263,14 +804,45 @@ export const MessageBubble = memo(function MessageBubble({
         },
     }), [colorScheme, colors]);
 
+    // Tool calls and results render as compact cards
+    if (message.role === 'tool-call' || message.role === 'tool-result') {
+        return (
+            <View style={promptStatus === 'excluded' && styles.excludedContainer}>
+                <ToolMessageCard message={message} colors={colors} />
+                {branch && (
+                    <View style={styles.toolBranch}>
+                        <BranchNavigator branch={branch} colors={colors} />
+                    </View>
+                )}
+            </View>
+        );
+    }
+
     return (
         <View
             style={[
                 styles.container,
                 isUser && styles.userContainer,
                 !isUser && !isSystem && styles.assistantContainer,
+                promptStatus === 'excluded' && styles.excludedContainer,
+                highlighted && { backgroundColor: colors.tint + '15' },
             ]}
         >
+            {/* Prompt trimming indicator (context window limit) */}
+            {promptStatus && (
+                <View style={[styles.promptStatus, isUser && styles.promptStatusUser]}>
+                    <Ionicons
+                        name={promptStatus === 'excluded' ? 'eye-off-outline' : 'document-outline'}
+                        size={12}
+                        color={colors.textMuted}
+                    />
+                    <Text style={[styles.promptStatusText, { color: colors.textMuted }]}>
+                        {promptStatus === 'excluded'
+                            ? 'Not in model context (context window limit)'
+                            : 'Sources omitted from model context'}
+                    </Text>
+                </View>
+            )}
             <View style={[styles.bubble, getBubbleStyle()]}>
                 {/* Collapsible Thinking Section for assistant messages */}
                 {!isUser && !isSystem && message.thinkingContent && (
@@ -311,19 +883,36 @@ export const MessageBubble = memo(function MessageBubble({
                     </TouchableOpacity>
                 )}
 
-                {/* LLM Badge for assistant messages */}
+                {/* LLM Badge for assistant messages (tap to see the failures when a fallback answered) */}
                 {showLLMBadge && !isUser && !isSystem && llmConfig && (
-                    <View style={[styles.llmBadge, { backgroundColor: colors.backgroundTertiary }]}>
+                    <TouchableOpacity
+                        style={[styles.llmBadge, { backgroundColor: colors.backgroundTertiary }]}
+                        onPress={() => setIsFallbackExpanded(!isFallbackExpanded)}
+                        disabled={!hasFailedAttempts}
+                    >
+                        {hasFailedAttempts && (
+                            <Ionicons name="swap-horizontal" size={12} color={colors.warning} />
+                        )}
                         <Text style={[styles.llmBadgeText, { color: colors.textSecondary }]}>
                             {llmConfig.name} • {message.modelId}
                         </Text>
-                    </View>
+                    </TouchableOpacity>
+                )}
+                {showLLMBadge && hasFailedAttempts && isFallbackExpanded && (
+                    <FailedAttempts attempts={message.failedAttempts!} colors={colors} />
+                )}
+
+                {/* Structured output: validation result and formatted JSON */}
+                {outputValidation && (
+                    <JsonOutput value={jsonValue} validation={outputValidation} colors={colors} />
                 )}
 
-                {/* Message content with Markdown support */}
-                <Markdown style={markdownStyles} rules={markdownRules}>
-                    {message.content}
-                </Markdown>
+                {/* Message content with Markdown support (may be empty for image-only messages) */}
+                {!!message.content && jsonValue === undefined && (
+                    <Markdown style={markdownStyles} rules={markdownRules} onLinkPress={handleLinkPress}>
+                        {displayContent}
+                    </Markdown>
+                )}
 
                 {/* Images */}
                 {message.contentType === 'mixed' && message.images && message.images.length > 0 && (
@@ -332,7 +921,7 @@ export const MessageBubble = memo(function MessageBubble({
                             <TouchableOpacity key={image.id} style={styles.imageWrapper}>
                                 <Image
                                     source={{ uri: image.url }}
-                                    style={styles.image}
+                                    style={[styles.image, isUser && styles.attachedImage]}
                                     resizeMode="cover"
                                 />
                                 {image.revisedPrompt && (
@@ -350,16 +939,67 @@ export const MessageBubble = memo(function MessageBubble({
 
                 {/* Timestamp and actions */}
                 <View style={styles.footer}>
+                    {branch && <BranchNavigator branch={branch} colors={colors} />}
+                    {hasLore && (
+                        <TouchableOpacity
+                            style={styles.statsButton}
+                            onPress={() => setIsLoreExpanded(!isLoreExpanded)}
+                        >
+                            <Ionicons name="book-outline" size={14} color={colors.textMuted} />
+                            <Text style={[styles.timestamp, { color: colors.textMuted }]}>
+                                {message.loreEntries!.length}
+                            </Text>
+                        </TouchableOpacity>
+                    )}
+                    {hasStats && (
+                        <TouchableOpacity
+                            style={styles.statsButton}
+                            onPress={() => setIsStatsExpanded(!isStatsExpanded)}
+                        >
+                            <Ionicons name="speedometer-outline" size={14} color={colors.textMuted} />
+                            {message.metrics?.tokensPerSecond !== undefined && (
+                                <Text style={[styles.timestamp, { color: colors.textMuted }]}>
+                                    {message.metrics.tokensPerSecond.toFixed(1)} tok/s
+                                </Text>
+                            )}
+                        </TouchableOpacity>
+                    )}
                     <Text style={[styles.timestamp, { color: colors.textMuted }]}>
                         {formatTime(message.timestamp)}
                     </Text>
+                    {onEdit && (
+                        <TouchableOpacity style={styles.copyButton} onPress={onEdit}>
+                            <Ionicons name="create-outline" size={14} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    )}
+                    {onRegenerate && (
+                        <TouchableOpacity style={styles.copyButton} onPress={onRegenerate}>
+                            <Ionicons name="refresh-outline" size={14} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    )}
                     {!isSystem && (
                         <TouchableOpacity style={styles.copyButton} onPress={handleCopyMessage}>
                             <Ionicons name="copy-outline" size={14} color={colors.textMuted} />
                         </TouchableOpacity>
                     )}
                 </View>
+                {hasLore && isLoreExpanded && <LoreEntries entries={message.loreEntries!} colors={colors} />}
+                {hasStats && isStatsExpanded && <GenerationStats message={message} colors={colors} />}
             </View>
+
+            {/* Outbox status of a prompt that hasn't reached its provider yet */}
+            {isUser && message.deliveryStatus && (
+                <DeliveryStatus
+                    message={message}
+                    colors={colors}
+                    onRetry={onRetryDelivery}
+                    onSendToLocalModel={onSendToLocalModel}
+                />
+            )}
+
+            {hasCitations && (
+                <CitationSheet citation={openCitation} onClose={() => setOpenCitation(null)} />
+            )}
         </View>
     );
 });
@@ -377,12 +1017,35 @@ const styles = StyleSheet.create({
         maxWidth: '100%',
         alignSelf: 'stretch',
     },
+    excludedContainer: {
+        opacity: 0.55,
+    },
+    toolBranch: {
+        paddingHorizontal: Spacing.md,
+    },
+    promptStatus: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: Spacing.md,
+        marginBottom: 2,
+    },
+    promptStatusUser: {
+        alignSelf: 'flex-end',
+    },
+    promptStatusText: {
+        fontSize: FontSizes.xs,
+        fontStyle: 'italic',
+    },
     bubble: {
         paddingHorizontal: Spacing.md,
         paddingVertical: Spacing.sm,
         maxWidth: '100%',
     },
     llmBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
         paddingHorizontal: Spacing.sm,
         paddingVertical: 2,
         borderRadius: BorderRadius.sm,
@@ -409,6 +1072,9 @@ const styles = StyleSheet.create({
         height: 200,
         borderRadius: BorderRadius.md,
     },
+    attachedImage: {
+        width: 200,
+    },
     imageCaption: {
         fontSize: FontSizes.xs,
         marginTop: Spacing.xs,
@@ -427,6 +1093,12 @@ const styles = StyleSheet.create({
     copyButton: {
         padding: 2,
     },
+    statsButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 2,
+        padding: 2,
+    },
     thinkingContainer: {
         borderRadius: BorderRadius.md,
         padding: Spacing.sm,
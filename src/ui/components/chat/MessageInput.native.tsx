@@ -1,6 +1,7 @@
 /**
  * MessageInput - Native Implementation
- * Full functionality with RAG sources button
+ * Full functionality with RAG sources button, image attachments (camera / photo library)
+ * and "/" prompt template commands
  */
 import { Ionicons } from '@expo/vector-icons';
 import { useState } from 'react';
@@ -12,8 +13,15 @@ import {
     View
 } from 'react-native';
 import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { MAX_IMAGE_ATTACHMENTS } from '../../../core/llm/images';
+import { generateId, MessageImage } from '../../../core/types';
 import { useProviderConfigStore, useRAGRuntimeStore, useSettingsStore } from '../../../state';
-import { useAppColorScheme, useLocale } from '../../hooks';
+import { showAlert } from '../../../utils/alert';
+import { ImageSource, pickImages } from '../../../utils/imagePicker';
+import { useAppColorScheme, useLocale, usePromptCommand } from '../../hooks';
+import { ImageAttachmentList } from './ImageAttachmentList';
+import { PromptCommandMenu } from './PromptCommandMenu';
+import { PromptVariablesModal } from './PromptVariablesModal';
 
 interface MessageInputProps {
     value: string;
@@ -25,6 +33,10 @@ interface MessageInputProps {
     onSourcesPress?: () => void;
     selectedSourceCount?: number;
     hasSources?: boolean;
+    attachments?: MessageImage[];
+    onAttachmentsChange?: (attachments: MessageImage[]) => void;
+    /** The selected model accepts images */
+    canAttachImages?: boolean;
 }
 
 export function MessageInput({
@@ -37,11 +49,15 @@ export function MessageInput({
     onSourcesPress,
     selectedSourceCount = 0,
     hasSources = false,
+    attachments = [],
+    onAttachmentsChange,
+    canAttachImages = false,
 }: MessageInputProps) {
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
     const { t } = useLocale();
     const [inputHeight, setInputHeight] = useState(44);
+    const promptCommand = usePromptCommand(value, onChange);
 
     const ragSettings = useSettingsStore((state) => state.settings.ragSettings);
     const isStale = useRAGRuntimeStore((state) => state.status === 'stale');
@@ -49,17 +65,54 @@ export function MessageInput({
 
     const isRagEnabled = (ragSettings?.isEnabled || hasSources) && !isStale && hasDefaultProvider;
 
+    const hasContent = value.trim().length > 0 || attachments.length > 0;
+    const remainingAttachments = MAX_IMAGE_ATTACHMENTS - attachments.length;
+
     const handleSend = () => {
-        if (value.trim() && !disabled) {
+        if (hasContent && !disabled) {
             onSend();
         }
     };
 
-    const canSend = value.trim().length > 0 && !disabled && !isStreaming;
+    const addImages = async (source: ImageSource) => {
+        const picked = await pickImages(source, remainingAttachments);
+        if (picked.length === 0 || !onAttachmentsChange) return;
+        onAttachmentsChange([
+            ...attachments,
+            ...picked.map((image) => ({
+                id: generateId(),
+                url: image.uri,
+                mimeType: image.mimeType,
+                width: image.width,
+                height: image.height,
+            })),
+        ]);
+    };
+
+    const handleAttachPress = () => {
+        showAlert(t('chat.attach.title'), undefined, [
+            { text: t('chat.attach.camera'), onPress: () => addImages('camera') },
+            { text: t('chat.attach.library'), onPress: () => addImages('library') },
+            { text: t('common.cancel'), style: 'cancel' },
+        ]);
+    };
+
+    const handleRemoveAttachment = (imageId: string) => {
+        onAttachmentsChange?.(attachments.filter((image) => image.id !== imageId));
+    };
+
+    const canSend = hasContent && !disabled && !isStreaming;
+    const canAttach = canAttachImages && !!onAttachmentsChange && !disabled && remainingAttachments > 0;
     const hasSelectedSources = selectedSourceCount > 0;
 
     return (
         <View style={[styles.container, { backgroundColor: colors.backgroundSecondary }]}>
+            {promptCommand.isMenuVisible && (
+                <PromptCommandMenu
+                    templates={promptCommand.commandMatches}
+                    onSelect={promptCommand.selectTemplate}
+                />
+            )}
             {isRagEnabled && onSourcesPress && (
                 <TouchableOpacity
                     onPress={onSourcesPress}
@@ -75,12 +128,18 @@ export function MessageInput({
                     />
                 </TouchableOpacity>
             )}
+            {canAttach && (
+                <TouchableOpacity onPress={handleAttachPress} style={styles.sourcesButton}>
+                    <Ionicons name="image-outline" size={22} color={colors.textMuted} />
+                </TouchableOpacity>
+            )}
             <View
                 style={[
                     styles.inputContainer,
                     { backgroundColor: colors.background, borderColor: colors.border },
                 ]}
             >
+                <ImageAttachmentList images={attachments} onRemove={handleRemoveAttachment} />
                 <TextInput
                     value={value}
                     onChangeText={onChange}
@@ -95,6 +154,7 @@ export function MessageInput({
                     onContentSizeChange={(e) => {
                         setInputHeight(Math.max(44, e.nativeEvent.contentSize.height));
                     }}
+                    onSelectionChange={(e) => promptCommand.onSelectionChange(e.nativeEvent.selection)}
                 />
             </View>
 
@@ -123,6 +183,14 @@ export function MessageInput({
                     />
                 </TouchableOpacity>
             )}
+
+            <PromptVariablesModal
+                visible={!!promptCommand.pending}
+                templateName={promptCommand.pending?.template.name ?? ''}
+                variables={promptCommand.pending?.missing ?? []}
+                onSubmit={promptCommand.submitVariables}
+                onCancel={promptCommand.cancelVariables}
+            />
         </View>
     );
 }
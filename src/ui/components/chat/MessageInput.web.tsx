@@ -1,9 +1,11 @@
 /**
  * MessageInput - Web Implementation
- * No RAG sources button, Enter to send
+ * No RAG sources button, Enter to send.
+ * Images can be attached from a file dialog, pasted, or dropped onto the input.
+ * Typing "/" opens the prompt template picker.
  */
 import { Ionicons } from '@expo/vector-icons';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import {
     StyleSheet,
     TextInput,
@@ -11,7 +13,13 @@ import {
     View
 } from 'react-native';
 import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
-import { useAppColorScheme, useLocale } from '../../hooks';
+import { MAX_IMAGE_ATTACHMENTS } from '../../../core/llm/images';
+import { generateId, MessageImage } from '../../../core/types';
+import { PickedImage, pickImages, readImageFiles } from '../../../utils/imagePicker';
+import { useAppColorScheme, useLocale, usePromptCommand } from '../../hooks';
+import { ImageAttachmentList } from './ImageAttachmentList';
+import { PromptCommandMenu } from './PromptCommandMenu';
+import { PromptVariablesModal } from './PromptVariablesModal';
 
 interface MessageInputProps {
     value: string;
@@ -23,6 +31,10 @@ interface MessageInputProps {
     onSourcesPress?: () => void;
     selectedSourceCount?: number;
     hasSources?: boolean;
+    attachments?: MessageImage[];
+    onAttachmentsChange?: (attachments: MessageImage[]) => void;
+    /** The selected model accepts images */
+    canAttachImages?: boolean;
 }
 
 export function MessageInput({
@@ -32,35 +44,148 @@ export function MessageInput({
     onStop,
     isStreaming,
     disabled,
+    attachments = [],
+    onAttachmentsChange,
+    canAttachImages = false,
 }: MessageInputProps) {
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
     const { t } = useLocale();
     const [inputHeight, setInputHeight] = useState(44);
+    const promptCommand = usePromptCommand(value, onChange);
+    const [isDragging, setIsDragging] = useState(false);
+    const containerRef = useRef<View>(null);
+
+    const hasContent = value.trim().length > 0 || attachments.length > 0;
+    const remainingAttachments = MAX_IMAGE_ATTACHMENTS - attachments.length;
+    const canAttach = canAttachImages && !!onAttachmentsChange && !disabled && remainingAttachments > 0;
+
+    // Latest values for the DOM listeners registered below
+    const attachStateRef = useRef({ attachments, onAttachmentsChange, canAttach, remainingAttachments });
+    attachStateRef.current = { attachments, onAttachmentsChange, canAttach, remainingAttachments };
+
+    const addImages = (picked: PickedImage[]) => {
+        const { attachments: current, onAttachmentsChange: onChangeAttachments } = attachStateRef.current;
+        if (picked.length === 0 || !onChangeAttachments) return;
+        onChangeAttachments([
+            ...current,
+            ...picked.map((image) => ({
+                id: generateId(),
+                url: image.uri,
+                mimeType: image.mimeType,
+                width: image.width,
+                height: image.height,
+            })),
+        ]);
+    };
+
+    // Paste and drag-and-drop of image files
+    useEffect(() => {
+        const element = containerRef.current as unknown as HTMLElement | null;
+        if (!element) return;
+
+        const addFiles = async (files: FileList | null | undefined) => {
+            const { canAttach: allowed, remainingAttachments: remaining } = attachStateRef.current;
+            if (!allowed || !files || files.length === 0) return false;
+            const fileArray = Array.from(files).filter((file) => file.type.startsWith('image/'));
+            if (fileArray.length === 0) return false;
+            addImages(await readImageFiles(fileArray, remaining));
+            return true;
+        };
+
+        const handlePaste = (event: ClipboardEvent) => {
+            const files = event.clipboardData?.files;
+            if (files && Array.from(files).some((file) => file.type.startsWith('image/'))) {
+                event.preventDefault();
+                addFiles(files);
+            }
+        };
+        const handleDragOver = (event: DragEvent) => {
+            if (!attachStateRef.current.canAttach) return;
+            event.preventDefault();
+            setIsDragging(true);
+        };
+        const handleDragLeave = () => setIsDragging(false);
+        const handleDrop = (event: DragEvent) => {
+            setIsDragging(false);
+            if (!attachStateRef.current.canAttach) return;
+            event.preventDefault();
+            addFiles(event.dataTransfer?.files);
+        };
+
+        element.addEventListener('paste', handlePaste);
+        element.addEventListener('dragover', handleDragOver);
+        element.addEventListener('dragleave', handleDragLeave);
+        element.addEventListener('drop', handleDrop);
+        return () => {
+            element.removeEventListener('paste', handlePaste);
+            element.removeEventListener('dragover', handleDragOver);
+            element.removeEventListener('dragleave', handleDragLeave);
+            element.removeEventListener('drop', handleDrop);
+        };
+    }, []);
 
     const handleSend = () => {
-        if (value.trim() && !disabled) {
+        if (hasContent && !disabled) {
             onSend();
         }
     };
 
+    const handleAttachPress = async () => {
+        addImages(await pickImages('library', remainingAttachments));
+    };
+
+    const handleRemoveAttachment = (imageId: string) => {
+        onAttachmentsChange?.(attachments.filter((image) => image.id !== imageId));
+    };
+
     const handleKeyPress = (e: any) => {
+        // Enter picks the first slash command match, Escape closes the picker
+        if (promptCommand.isMenuVisible) {
+            if (e.nativeEvent.key === 'Enter' && !e.nativeEvent.shiftKey) {
+                e.preventDefault();
+                promptCommand.selectTemplate(promptCommand.commandMatches[0]!);
+                return;
+            }
+            if (e.nativeEvent.key === 'Escape') {
+                promptCommand.dismissMenu();
+                return;
+            }
+        }
         if (e.nativeEvent.key === 'Enter' && !e.nativeEvent.shiftKey) {
             e.preventDefault();
             handleSend();
         }
     };
 
-    const canSend = value.trim().length > 0 && !disabled && !isStreaming;
+    const canSend = hasContent && !disabled && !isStreaming;
 
     return (
-        <View style={[styles.container, { backgroundColor: colors.backgroundSecondary }]}>
+        <View
+            ref={containerRef}
+            style={[styles.container, { backgroundColor: colors.backgroundSecondary }]}
+        >
+            {promptCommand.isMenuVisible && (
+                <PromptCommandMenu
+                    templates={promptCommand.commandMatches}
+                    onSelect={promptCommand.selectTemplate}
+                />
+            )}
+            {canAttach && (
+                <TouchableOpacity onPress={handleAttachPress} style={styles.attachButton}>
+                    <Ionicons name="image-outline" size={22} color={colors.textMuted} />
+                </TouchableOpacity>
+            )}
             <View
                 style={[
                     styles.inputContainer,
-                    { backgroundColor: colors.background, borderColor: colors.border },
+                    {
+                        backgroundColor: colors.background,
+                        borderColor: isDragging ? colors.tint : colors.border,
+                    },
                 ]}
             >
+                <ImageAttachmentList images={attachments} onRemove={handleRemoveAttachment} />
                 <TextInput
                     value={value}
                     onChangeText={onChange}
@@ -75,6 +200,7 @@ export function MessageInput({
                     onContentSizeChange={(e) => {
                         setInputHeight(Math.max(44, e.nativeEvent.contentSize.height));
                     }}
+                    onSelectionChange={(e) => promptCommand.onSelectionChange(e.nativeEvent.selection)}
                     onKeyPress={handleKeyPress}
                 />
             </View>
@@ -104,6 +230,14 @@ export function MessageInput({
                     />
                 </TouchableOpacity>
             )}
+
+            <PromptVariablesModal
+                visible={!!promptCommand.pending}
+                templateName={promptCommand.pending?.template.name ?? ''}
+                variables={promptCommand.pending?.missing ?? []}
+                onSubmit={promptCommand.submitVariables}
+                onCancel={promptCommand.cancelVariables}
+            />
         </View>
     );
 }
@@ -122,6 +256,13 @@ const styles = StyleSheet.create({
         borderRadius: BorderRadius.xl,
         borderWidth: 1,
     },
+    attachButton: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
     input: {
         fontSize: FontSizes.md,
         paddingVertical: Spacing.sm,
@@ -1,16 +1,35 @@
 import { Ionicons } from '@expo/vector-icons';
 import { FlashListRef } from '@shopify/flash-list';
-import React, { useCallback, useEffect, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, NativeScrollEvent, NativeSyntheticEvent, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { Colors, FontSizes, Spacing } from '../../../config/theme';
-import { ConversationType, DownloadedModel, Message } from '../../../core/types';
+import { CompareTarget, ConversationType, DownloadedModel, Message, MessageCitation } from '../../../core/types';
 import { useLLMStore } from '../../../state';
-import { useAppColorScheme } from '../../hooks';
+import { CompareColumn, MAX_COMPARE_TARGETS, MIN_COMPARE_TARGETS } from '../../../state/compareHelpers';
+import { PromptTrimInfo } from '../../../state/conversationStore';
+import { getBranchInfo } from '../../../state/messageTree';
+import { useAppColorScheme, useLocale } from '../../hooks';
 import { ModelPicker, VirtualizedList } from '../common';
+import { CompareAnswers } from './CompareAnswers';
 import { MessageBubble } from './MessageBubble';
+import { ModelTargetsPicker } from './ModelTargetsPicker';
 
 interface MessageListProps {
+    /** Messages on the active branch */
     messages: Message[];
+    /** All messages of the conversation (every branch), used for branch navigation */
+    allMessages?: Message[];
+    onSwitchBranch?: (messageId: string) => void;
+    onEditMessage?: (message: Message) => void;
+    onRegenerateMessage?: (message: Message) => void;
+    // Outbox: prompts waiting for the network
+    onRetryDelivery?: (message: Message) => void;
+    onSendToLocalModel?: (message: Message) => void;
+    /** Message to scroll to and highlight briefly (e.g. opened from search) */
+    focusedMessageId?: string | null;
+    onFocusHandled?: () => void;
+    /** Messages trimmed from the last prompt to fit the context window */
+    promptTrim?: PromptTrimInfo;
     streamingContent?: string;
     streamingThinkingContent?: string;
     isLoading: boolean;
@@ -31,13 +50,30 @@ interface MessageListProps {
     onNavigateToModels?: () => void;
     // Optional: provider connection status
     providerConnectionStatus?: Record<string, boolean>;
+    // Compare mode: targets for a new conversation, answers to the latest prompt
+    compareTargets?: CompareTarget[];
+    onCompareTargetsChange?: (targets: CompareTarget[]) => void;
+    compareColumns?: CompareColumn[];
+    onPickCompareAnswer?: (message: Message) => void;
 }
 
 // Threshold for considering user "at bottom" (in pixels)
 const SCROLL_THRESHOLD = 100;
 
+// How long a focused message stays highlighted (ms)
+const FOCUS_HIGHLIGHT_DURATION = 2000;
+
 export function MessageList({
     messages,
+    allMessages,
+    onSwitchBranch,
+    onEditMessage,
+    onRegenerateMessage,
+    onRetryDelivery,
+    onSendToLocalModel,
+    focusedMessageId,
+    onFocusHandled,
+    promptTrim,
     streamingContent,
     streamingThinkingContent,
     isLoading,
@@ -54,15 +90,36 @@ export function MessageList({
     onNavigateToPersonas,
     onNavigateToModels,
     providerConnectionStatus = {},
+    compareTargets,
+    onCompareTargetsChange,
+    compareColumns,
+    onPickCompareAnswer,
 }: MessageListProps) {
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
+    const { t } = useLocale();
     const flashListRef = useRef<FlashListRef<Message>>(null);
     // Track if user is at the bottom of the list
     const isAtBottomRef = useRef(true);
     // Track content height and layout height for scroll calculations
     const contentHeightRef = useRef(0);
     const layoutHeightRef = useRef(0);
+    // Message highlighted after being focused
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+    // Answers cite the chunks retrieved for the user message they reply to
+    const citationsByMessageId = useMemo(() => {
+        const map: Record<string, MessageCitation[]> = {};
+        let current: MessageCitation[] | undefined;
+        for (const message of messages) {
+            if (message.role === 'user') {
+                current = message.citations;
+            } else if (message.role === 'assistant' && current) {
+                map[message.id] = current;
+            }
+        }
+        return map;
+    }, [messages]);
 
     // Check if any LLM configs exist
     const { configs } = useLLMStore();
@@ -93,6 +150,28 @@ export function MessageList({
         }
     }, [messages.length]);
 
+    // Scroll to a focused message (after the new-messages auto-scroll has run)
+    useEffect(() => {
+        if (!focusedMessageId) return;
+        const index = messages.findIndex((m) => m.id === focusedMessageId);
+        if (index === -1) return;
+
+        const scrollTimer = setTimeout(() => {
+            isAtBottomRef.current = false;
+            flashListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.3 });
+            setHighlightedMessageId(focusedMessageId);
+            onFocusHandled?.();
+        }, 300);
+        return () => clearTimeout(scrollTimer);
+    }, [focusedMessageId, messages]);
+
+    // Clear the highlight after a moment
+    useEffect(() => {
+        if (!highlightedMessageId) return;
+        const highlightTimer = setTimeout(() => setHighlightedMessageId(null), FOCUS_HIGHLIGHT_DURATION);
+        return () => clearTimeout(highlightTimer);
+    }, [highlightedMessageId]);
+
     // When streaming starts, reset to bottom
     useEffect(() => {
         if (streamingContent !== undefined && flashListRef.current) {
@@ -123,7 +202,15 @@ export function MessageList({
                         : 'Configure an LLM provider in Settings to get started.'}
                 </Text>
 
-                {hasConfigs && onProviderChange && onModelChange && (
+                {hasConfigs && selectedConversationType === 'compare' && compareTargets && onCompareTargetsChange ? (
+                    <ModelTargetsPicker
+                        targets={compareTargets}
+                        onChange={onCompareTargetsChange}
+                        minTargets={MIN_COMPARE_TARGETS}
+                        maxTargets={MAX_COMPARE_TARGETS}
+                        addLabel={t('chat.compare.addModel')}
+                    />
+                ) : hasConfigs && onProviderChange && onModelChange && (
                     <ModelPicker
                         mode="panel"
                         selectedProviderId={selectedProviderId}
@@ -189,6 +276,27 @@ export function MessageList({
                                     Generate
                                 </Text>
                             </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.typeToggleButton,
+                                    selectedConversationType === 'compare' && { backgroundColor: colors.tint },
+                                ]}
+                                onPress={() => onConversationTypeChange('compare')}
+                            >
+                                <Ionicons
+                                    name="git-compare-outline"
+                                    size={16}
+                                    color={selectedConversationType === 'compare' ? '#fff' : colors.textSecondary}
+                                />
+                                <Text
+                                    style={[
+                                        styles.typeToggleText,
+                                        { color: selectedConversationType === 'compare' ? '#fff' : colors.textSecondary },
+                                    ]}
+                                >
+                                    Compare
+                                </Text>
+                            </TouchableOpacity>
                         </View>
                     </View>
                 )}
@@ -198,7 +306,9 @@ export function MessageList({
                     <Text style={[styles.tipText, { color: colors.textMuted }]}>
                         {selectedConversationType === 'generate'
                             ? 'Generate mode: Each message is independent'
-                            : 'Chat mode: Full conversation history is used'}
+                            : selectedConversationType === 'compare'
+                                ? 'Compare mode: Each prompt goes to every model, pick an answer to continue'
+                                : 'Chat mode: Full conversation history is used'}
                     </Text>
                 )}
             </View>
@@ -239,12 +349,54 @@ export function MessageList({
         );
     }
 
-    const renderItem = ({ item }: { item: Message }) => (
-        <MessageBubble message={item} showLLMBadge={item.role === 'assistant'} />
-    );
+    const renderItem = ({ item }: { item: Message }) => {
+        // Sibling branches of this message (other edits / regenerations)
+        const branchInfo = allMessages && onSwitchBranch ? getBranchInfo(allMessages, item) : null;
+        const branch = branchInfo && branchInfo.siblings.length > 1
+            ? {
+                index: branchInfo.index,
+                count: branchInfo.siblings.length,
+                onSelect: (index: number) => onSwitchBranch?.(branchInfo.siblings[index].id),
+            }
+            : undefined;
+
+        return (
+            <MessageBubble
+                message={item}
+                showLLMBadge={item.role === 'assistant'}
+                promptStatus={
+                    promptTrim?.excludedMessageIds.includes(item.id)
+                        ? 'excluded'
+                        : promptTrim?.strippedContextMessageIds.includes(item.id)
+                            ? 'contextStripped'
+                            : undefined
+                }
+                branch={branch}
+                highlighted={item.id === highlightedMessageId}
+                citations={citationsByMessageId[item.id]}
+                onEdit={item.role === 'user' && onEditMessage ? () => onEditMessage(item) : undefined}
+                onRegenerate={item.role === 'assistant' && onRegenerateMessage
+                    ? () => onRegenerateMessage(item)
+                    : undefined}
+                onRetryDelivery={onRetryDelivery ? () => onRetryDelivery(item) : undefined}
+                onSendToLocalModel={onSendToLocalModel ? () => onSendToLocalModel(item) : undefined}
+            />
+        );
+    };
 
     // Determine footer content: processing indicator, streaming content, or nothing
     const renderFooter = () => {
+        // Compare conversations answer in columns until one answer is picked
+        if (compareColumns && onPickCompareAnswer) {
+            return (
+                <CompareAnswers
+                    columns={compareColumns}
+                    onPick={onPickCompareAnswer}
+                    isRunning={isProcessing}
+                />
+            );
+        }
+
         // Show streaming content when response is coming in (either thinking or actual content)
         // Note: Check for !== undefined to handle empty string initial state during streaming
         if (streamingContent !== undefined || streamingThinkingContent) {
@@ -319,6 +471,7 @@ export function MessageList({
             data={messages}
             keyExtractor={(item) => item.id}
             renderItem={renderItem}
+            extraData={[promptTrim, allMessages, onEditMessage, onRegenerateMessage, onRetryDelivery, onSendToLocalModel, highlightedMessageId, compareColumns]}
             contentContainerStyle={styles.listContent}
             ListFooterComponent={renderFooter}
             onScroll={handleScroll}
@@ -0,0 +1,153 @@
+/**
+ * ModelTargetsPicker
+ *
+ * Picks an ordered list of provider/model pairs: the targets a new compare
+ * conversation sends each prompt to, or a fallback chain.
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { ModelTarget } from '../../../core/types';
+import { isLocalProvider } from '../../../state';
+import { useAppColorScheme, useLocale, useModelSelection } from '../../hooks';
+import { Dropdown } from '../common';
+
+interface ModelTargetsPickerProps {
+    targets: ModelTarget[];
+    onChange: (targets: ModelTarget[]) => void;
+    /** Rows can't be removed below this count */
+    minTargets: number;
+    maxTargets: number;
+    addLabel: string;
+}
+
+export function ModelTargetsPicker({ targets, onChange, minTargets, maxTargets, addLabel }: ModelTargetsPickerProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { enabledConfigs, getConfigById, getModelsForConfig, fetchModelsForConfig } = useModelSelection();
+
+    // Remote model lists are fetched on demand
+    const providerIds = Array.from(new Set(targets.map((target) => target.providerId)));
+    useEffect(() => {
+        providerIds.forEach((providerId) => fetchModelsForConfig(providerId));
+    }, [providerIds.join(','), fetchModelsForConfig]);
+
+    const updateTarget = (index: number, updates: Partial<ModelTarget>) => {
+        onChange(targets.map((target, i) => (i === index ? { ...target, ...updates } : target)));
+    };
+
+    const addTarget = () => {
+        const config = enabledConfigs[0];
+        if (!config) return;
+        onChange([...targets, { providerId: config.id, modelId: isLocalProvider(config.provider) ? '' : config.defaultModel }]);
+    };
+
+    const providerOptions = enabledConfigs.map((config) => ({ label: config.name, value: config.id }));
+
+    return (
+        <View style={styles.container}>
+            {targets.map((target, index) => {
+                const config = getConfigById(target.providerId);
+                const models = config ? getModelsForConfig(config) : [];
+                // Keep a model that isn't in the (possibly not yet fetched) list selectable
+                const modelOptions = (target.modelId && !models.includes(target.modelId) ? [target.modelId, ...models] : models)
+                    .map((model) => ({ label: model, value: model }));
+
+                return (
+                    <View
+                        key={index}
+                        style={[styles.row, { backgroundColor: colors.backgroundSecondary, borderColor: colors.border }]}
+                    >
+                        <Text style={[styles.rowNumber, { color: colors.textMuted }]}>{index + 1}</Text>
+                        <View style={styles.rowFields}>
+                            <Dropdown
+                                value={target.providerId}
+                                options={providerOptions}
+                                onSelect={(providerId) => {
+                                    const next = getConfigById(providerId);
+                                    updateTarget(index, {
+                                        providerId,
+                                        modelId: next && !isLocalProvider(next.provider) ? next.defaultModel : '',
+                                    });
+                                }}
+                                placeholder={t('chat.compare.provider')}
+                            />
+                            <Dropdown
+                                value={target.modelId}
+                                options={modelOptions}
+                                onSelect={(modelId) => updateTarget(index, { modelId })}
+                                placeholder={t('chat.compare.model')}
+                                disabled={modelOptions.length === 0}
+                            />
+                        </View>
+                        {targets.length > minTargets && (
+                            <TouchableOpacity
+                                onPress={() => onChange(targets.filter((_, i) => i !== index))}
+                                style={styles.removeButton}
+                                hitSlop={8}
+                            >
+                                <Ionicons name="close-circle-outline" size={20} color={colors.textMuted} />
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                );
+            })}
+
+            {targets.length < maxTargets && (
+                <TouchableOpacity
+                    onPress={addTarget}
+                    style={[styles.addButton, { borderColor: colors.border }]}
+                >
+                    <Ionicons name="add" size={18} color={colors.tint} />
+                    <Text style={[styles.addButtonText, { color: colors.tint }]}>{addLabel}</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        width: '100%',
+        maxWidth: 400,
+        gap: Spacing.sm,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        padding: Spacing.sm,
+        borderRadius: BorderRadius.md,
+        borderWidth: 1,
+    },
+    rowNumber: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        width: 16,
+        textAlign: 'center',
+    },
+    rowFields: {
+        flex: 1,
+        gap: Spacing.xs,
+    },
+    removeButton: {
+        padding: Spacing.xs,
+    },
+    addButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: Spacing.xs,
+        paddingVertical: Spacing.sm,
+        borderRadius: BorderRadius.md,
+        borderWidth: 1,
+        borderStyle: 'dashed',
+    },
+    addButtonText: {
+        fontSize: FontSizes.sm,
+        fontWeight: '500',
+    },
+});
@@ -0,0 +1,81 @@
+/**
+ * PromptCommandMenu - Slash command picker shown above the message input
+ */
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { getTemplateCommand } from '../../../core/prompts';
+import { PromptTemplate } from '../../../core/types';
+import { useAppColorScheme } from '../../hooks';
+
+interface PromptCommandMenuProps {
+    templates: PromptTemplate[];
+    onSelect: (template: PromptTemplate) => void;
+}
+
+export function PromptCommandMenu({ templates, onSelect }: PromptCommandMenuProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+
+    return (
+        <View
+            style={[
+                styles.menu,
+                { backgroundColor: colors.cardBackground, borderColor: colors.border },
+            ]}
+        >
+            {templates.map((template, index) => (
+                <TouchableOpacity
+                    key={template.id}
+                    style={[
+                        styles.item,
+                        index > 0 && { borderTopWidth: 1, borderTopColor: colors.border },
+                    ]}
+                    onPress={() => onSelect(template)}
+                >
+                    <Ionicons name="flash-outline" size={16} color={colors.tint} />
+                    <View style={styles.itemInfo}>
+                        <Text style={[styles.itemTitle, { color: colors.text }]} numberOfLines={1}>
+                            /{getTemplateCommand(template.name)}
+                        </Text>
+                        <Text style={[styles.itemDescription, { color: colors.textMuted }]} numberOfLines={1}>
+                            {template.description || template.content}
+                        </Text>
+                    </View>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    menu: {
+        position: 'absolute',
+        bottom: '100%',
+        left: Spacing.md,
+        right: Spacing.md,
+        borderWidth: 1,
+        borderRadius: BorderRadius.md,
+        overflow: 'hidden',
+        marginBottom: Spacing.xs,
+    },
+    item: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+    },
+    itemInfo: {
+        flex: 1,
+    },
+    itemTitle: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    itemDescription: {
+        fontSize: FontSizes.xs,
+        marginTop: 2,
+    },
+});
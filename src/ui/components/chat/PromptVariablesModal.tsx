@@ -0,0 +1,160 @@
+/**
+ * PromptVariablesModal - Asks for template variables that couldn't be filled in automatically
+ */
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { Button, Input } from '../common';
+
+interface PromptVariablesModalProps {
+    visible: boolean;
+    templateName: string;
+    variables: string[];
+    onSubmit: (values: Record<string, string>) => void;
+    onCancel: () => void;
+}
+
+export function PromptVariablesModal({
+    visible,
+    templateName,
+    variables,
+    onSubmit,
+    onCancel,
+}: PromptVariablesModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { width, height } = useWindowDimensions();
+
+    const [values, setValues] = useState<Record<string, string>>({});
+
+    // Start empty for each template
+    useEffect(() => {
+        if (visible) setValues({});
+    }, [visible]);
+
+    const handleSubmit = () => {
+        onSubmit(Object.fromEntries(variables.map((name) => [name, values[name] ?? ''])));
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onCancel}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onCancel}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 440),
+                            maxHeight: height * 0.8,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]} numberOfLines={1}>
+                            {templateName}
+                        </Text>
+                        <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+                        <Text style={[styles.hint, { color: colors.textMuted }]}>
+                            {t('prompts.variables.hint')}
+                        </Text>
+                        {variables.map((name, index) => (
+                            <Input
+                                key={name}
+                                label={name}
+                                value={values[name] ?? ''}
+                                onChangeText={(text) => setValues((prev) => ({ ...prev, [name]: text }))}
+                                multiline
+                                autoFocus={index === 0}
+                            />
+                        ))}
+                    </ScrollView>
+
+                    <View style={[styles.actions, { borderTopColor: colors.border }]}>
+                        <Button
+                            title={t('common.cancel')}
+                            onPress={onCancel}
+                            variant="secondary"
+                            style={styles.actionButton}
+                        />
+                        <Button
+                            title={t('prompts.variables.insert')}
+                            onPress={handleSubmit}
+                            style={styles.actionButton}
+                        />
+                    </View>
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        flex: 1,
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    body: {
+        padding: Spacing.md,
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+        marginBottom: Spacing.sm,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderTopWidth: 1,
+    },
+    actionButton: {
+        flex: 1,
+    },
+});
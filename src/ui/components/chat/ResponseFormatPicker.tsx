@@ -0,0 +1,124 @@
+/**
+ * ResponseFormatPicker
+ *
+ * Chooses between free text, JSON and JSON Schema output for a conversation.
+ * A schema is only saved once it parses, so the conversation never holds one
+ * providers would reject.
+ */
+
+import { useEffect, useState } from 'react';
+import { Platform, StyleSheet, Text, View } from 'react-native';
+import { Colors, FontSizes, Spacing } from '../../../config/theme';
+import { parseResponseSchema } from '../../../core/llm/structuredOutput';
+import { ResponseFormat, ResponseFormatType } from '../../../core/types';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { Dropdown, Input } from '../common';
+
+interface ResponseFormatPickerProps {
+    format?: ResponseFormat;
+    /** Called with undefined for free text */
+    onChange: (format: ResponseFormat | undefined) => void;
+    disabled?: boolean;
+}
+
+const SCHEMA_PLACEHOLDER = '{\n  "type": "object",\n  "properties": {\n    "name": { "type": "string" }\n  },\n  "required": ["name"]\n}';
+
+function getSchemaError(schema: string): string | undefined {
+    try {
+        parseResponseSchema({ type: 'json_schema', schema });
+        return undefined;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+export function ResponseFormatPicker({ format, onChange, disabled = false }: ResponseFormatPickerProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+
+    const [type, setType] = useState<ResponseFormatType>(format?.type || 'text');
+    const [schema, setSchema] = useState(format?.schema || '');
+
+    // Follow the conversation when it changes
+    useEffect(() => {
+        setType(format?.type || 'text');
+        setSchema(format?.schema || '');
+    }, [format?.type, format?.schema]);
+
+    const schemaError = type === 'json_schema' && schema.trim() ? getSchemaError(schema) : undefined;
+
+    const handleTypeChange = (value: ResponseFormatType) => {
+        setType(value);
+        if (value === 'text') {
+            onChange(undefined);
+        } else if (value === 'json') {
+            onChange({ type: 'json' });
+        } else if (schema.trim() && !getSchemaError(schema)) {
+            onChange({ type: 'json_schema', schema });
+        }
+    };
+
+    const handleSchemaChange = (value: string) => {
+        setSchema(value);
+        if (value.trim() && !getSchemaError(value)) {
+            onChange({ type: 'json_schema', schema: value });
+        }
+    };
+
+    return (
+        <View style={styles.container}>
+            <Text style={[styles.label, { color: colors.text }]}>{t('chat.responseFormat.label')}</Text>
+            <Text style={[styles.hint, { color: colors.textMuted }]}>{t('chat.responseFormat.hint')}</Text>
+            <Dropdown
+                value={type}
+                options={[
+                    { label: t('chat.responseFormat.text'), value: 'text' as const },
+                    { label: t('chat.responseFormat.json'), value: 'json' as const },
+                    { label: t('chat.responseFormat.jsonSchema'), value: 'json_schema' as const },
+                ]}
+                onSelect={handleTypeChange}
+                disabled={disabled}
+            />
+            {type === 'json_schema' && (
+                <Input
+                    value={schema}
+                    onChangeText={handleSchemaChange}
+                    placeholder={SCHEMA_PLACEHOLDER}
+                    error={schemaError}
+                    hint={schemaError ? undefined : t('chat.responseFormat.schemaHint')}
+                    multiline
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    disabled={disabled}
+                    containerStyle={styles.schemaContainer}
+                    inputStyle={styles.schemaInput}
+                />
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        gap: Spacing.xs,
+    },
+    label: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+    },
+    schemaContainer: {
+        marginTop: Spacing.xs,
+        marginBottom: 0,
+    },
+    schemaInput: {
+        minHeight: 120,
+        maxHeight: 240,
+        fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+        fontSize: FontSizes.sm,
+        textAlignVertical: 'top',
+    },
+});
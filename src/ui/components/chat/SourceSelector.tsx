@@ -2,7 +2,8 @@
  * Source Selector
  * 
  * Modal/popover for selecting active sources to use as context in chat.
- * Shows available sources with checkboxes for multi-select.
+ * Shows available sources with checkboxes for multi-select, and source
+ * collections that stay attached to the conversation for every message.
  */
 
 import { Ionicons } from '@expo/vector-icons';
@@ -15,8 +16,8 @@ import {
     View,
 } from 'react-native';
 import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
-import { Source } from '../../../core/types';
-import { useSourceStore } from '../../../state';
+import { Source, SourceCollection } from '../../../core/types';
+import { useSourceCollectionStore, useSourceStore } from '../../../state';
 import { useAppColorScheme, useLocale } from '../../hooks';
 import { VirtualizedList } from '../common';
 
@@ -26,6 +27,9 @@ interface SourceSelectorProps {
     selectedSourceIds: number[];
     onSourceToggle: (sourceId: number) => void;
     onClearSelection: () => void;
+    /** Collections attached to the conversation */
+    attachedCollectionIds?: string[];
+    onCollectionToggle?: (collectionId: string) => void;
 }
 
 export function SourceSelector({
@@ -34,20 +38,24 @@ export function SourceSelector({
     selectedSourceIds,
     onSourceToggle,
     onClearSelection,
+    attachedCollectionIds = [],
+    onCollectionToggle,
 }: SourceSelectorProps) {
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
     const { t } = useLocale();
 
     const { sources, loadSources } = useSourceStore();
+    const { collections, loadCollections } = useSourceCollectionStore();
 
     // Load sources when modal becomes visible
     useEffect(() => {
         if (visible) {
             console.log('[SourceSelector] Modal visible, loading sources...');
             loadSources();
+            loadCollections();
         }
-    }, [visible, loadSources]);
+    }, [visible, loadSources, loadCollections]);
 
     // Debug: Log sources after they're loaded
     useEffect(() => {
@@ -85,6 +93,57 @@ export function SourceSelector({
         );
     };
 
+    const renderCollection = (collection: SourceCollection) => {
+        const isAttached = attachedCollectionIds.includes(collection.id);
+
+        return (
+            <TouchableOpacity
+                key={collection.id}
+                style={[
+                    styles.sourceItem,
+                    { backgroundColor: isAttached ? colors.tint + '20' : colors.backgroundSecondary },
+                ]}
+                onPress={() => onCollectionToggle?.(collection.id)}
+            >
+                <View style={styles.checkbox}>
+                    {isAttached ? (
+                        <Ionicons name="checkbox" size={24} color={colors.tint} />
+                    ) : (
+                        <Ionicons name="square-outline" size={24} color={colors.textMuted} />
+                    )}
+                </View>
+                <View style={styles.sourceIcon}>
+                    <Ionicons name="folder" size={20} color={colors.tint} />
+                </View>
+                <Text style={[styles.sourceName, { color: colors.text }]} numberOfLines={1}>
+                    {collection.name}
+                </Text>
+                <Text style={[styles.collectionCount, { color: colors.textMuted }]}>
+                    {t('sources.collections.count', { count: collection.sourceIds.length })}
+                </Text>
+            </TouchableOpacity>
+        );
+    };
+
+    const renderCollections = () => {
+        if (!onCollectionToggle || collections.length === 0) return null;
+
+        return (
+            <View style={styles.collectionsSection}>
+                <Text style={[styles.sectionTitle, { color: colors.textMuted }]}>
+                    {t('chat.sources.collections')}
+                </Text>
+                <Text style={[styles.sectionHint, { color: colors.textMuted }]}>
+                    {t('chat.sources.collectionsHint')}
+                </Text>
+                {collections.map(renderCollection)}
+                <Text style={[styles.sectionTitle, { color: colors.textMuted }]}>
+                    {t('chat.sources.documents')}
+                </Text>
+            </View>
+        );
+    };
+
     const renderEmpty = () => (
         <View style={styles.emptyContainer}>
             <Ionicons name="documents-outline" size={48} color={colors.textMuted} />
@@ -134,6 +193,7 @@ export function SourceSelector({
                             renderItem={renderSource}
                             keyExtractor={(item) => item.id.toString()}
                             contentContainerStyle={styles.listContent}
+                            ListHeaderComponent={renderCollections()}
                             ListEmptyComponent={renderEmpty}
                         />
                     </View>
@@ -217,6 +277,23 @@ const styles = StyleSheet.create({
         flex: 1,
         fontSize: FontSizes.md,
     },
+    collectionCount: {
+        fontSize: FontSizes.sm,
+        marginLeft: Spacing.sm,
+    },
+    collectionsSection: {
+        marginBottom: Spacing.sm,
+    },
+    sectionTitle: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        marginBottom: Spacing.xs,
+    },
+    sectionHint: {
+        fontSize: FontSizes.sm,
+        marginBottom: Spacing.sm,
+    },
     emptyContainer: {
         alignItems: 'center',
         justifyContent: 'center',
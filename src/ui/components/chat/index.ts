@@ -1,8 +1,12 @@
 export { ChatHeader } from './ChatHeader';
+export { CompareAnswers } from './CompareAnswers';
 export { LocalLLMManager } from './LocalLLMManager';
+export { LocalModelPickerModal } from './LocalModelPickerModal';
 export { MessageBubble } from './MessageBubble';
 export { MessageInput } from './MessageInput';
 export { MessageList } from './MessageList';
+export { ModelTargetsPicker } from './ModelTargetsPicker';
 export { PersonaSelectorModal } from './PersonaSelectorModal';
+export { ResponseFormatPicker } from './ResponseFormatPicker';
 export { SourceSelector } from './SourceSelector';
 
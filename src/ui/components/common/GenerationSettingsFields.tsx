@@ -0,0 +1,71 @@
+/**
+ * Generation Settings Fields
+ *
+ * Inputs for GenerationSettings overrides (persona editor, conversation panel).
+ * Empty fields mean "inherit"; the placeholder shows the inherited value.
+ */
+import React from 'react';
+import { GenerationSettings } from '../../../core/types';
+import { useLocale } from '../../hooks';
+import { Input } from './Input';
+
+/** Text state for each setting while editing */
+export type GenerationSettingsDraft = Record<keyof GenerationSettings, string>;
+
+const FIELDS: { key: keyof GenerationSettings; label: string; hint: string; integer?: boolean }[] = [
+    { key: 'temperature', label: 'llm.editor.temperature', hint: 'llm.editor.temperature.hint' },
+    { key: 'topP', label: 'llm.editor.topP', hint: 'llm.editor.topP.hint' },
+    { key: 'topK', label: 'llm.editor.topK', hint: 'llm.editor.topK.hint', integer: true },
+    { key: 'maxTokens', label: 'llm.editor.maxTokens', hint: 'llm.editor.maxTokens.hint', integer: true },
+    { key: 'presencePenalty', label: 'llm.editor.presencePenalty', hint: 'llm.editor.presencePenalty.hint' },
+    { key: 'frequencyPenalty', label: 'llm.editor.frequencyPenalty', hint: 'llm.editor.frequencyPenalty.hint' },
+    { key: 'repeatPenalty', label: 'llm.editor.repeatPenalty', hint: 'llm.editor.repeatPenalty.hint' },
+];
+
+export function toGenerationSettingsDraft(settings?: GenerationSettings): GenerationSettingsDraft {
+    const draft = {} as GenerationSettingsDraft;
+    for (const { key } of FIELDS) {
+        draft[key] = settings?.[key]?.toString() ?? '';
+    }
+    return draft;
+}
+
+/**
+ * Parse a draft; returns undefined when nothing is overridden
+ */
+export function parseGenerationSettingsDraft(draft: GenerationSettingsDraft): GenerationSettings | undefined {
+    const settings: GenerationSettings = {};
+    for (const { key, integer } of FIELDS) {
+        const text = draft[key].trim().replace(',', '.');
+        const value = integer ? parseInt(text, 10) : parseFloat(text);
+        if (!isNaN(value)) settings[key] = value;
+    }
+    return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+interface GenerationSettingsFieldsProps {
+    value: GenerationSettingsDraft;
+    onChange: (value: GenerationSettingsDraft) => void;
+    /** Inherited values shown as placeholders */
+    inherited?: GenerationSettings;
+}
+
+export function GenerationSettingsFields({ value, onChange, inherited }: GenerationSettingsFieldsProps) {
+    const { t } = useLocale();
+
+    return (
+        <>
+            {FIELDS.map(({ key, label, hint, integer }) => (
+                <Input
+                    key={key}
+                    label={t(label)}
+                    value={value[key]}
+                    onChangeText={(text) => onChange({ ...value, [key]: text })}
+                    placeholder={inherited?.[key]?.toString() ?? t('generationSettings.default')}
+                    keyboardType={integer ? 'number-pad' : 'decimal-pad'}
+                    hint={t(hint)}
+                />
+            ))}
+        </>
+    );
+}
@@ -0,0 +1,450 @@
+/**
+ * Model Catalog Browser
+ *
+ * Searches the model catalog (Hugging Face by default) for GGUF repositories,
+ * shows each repository's quantization files and model card metadata, and
+ * hands the picked file to the caller as a DownloadableModel.
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { DownloadableModel } from '../../../config/downloadableModels';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import {
+    CatalogFile,
+    CatalogModelCard,
+    CatalogRepo,
+    formatBytes,
+    getCatalogModelId,
+    ModelCatalogClient,
+    modelCatalog,
+    toDownloadableModel,
+} from '../../../core/catalog';
+import { useAppColorScheme, useLocale, useModelFit } from '../../hooks';
+import { VirtualizedList } from './VirtualizedList';
+
+interface ModelCatalogBrowserProps {
+    visible: boolean;
+    onClose: () => void;
+    onDownload: (model: DownloadableModel) => void;
+    /** Download state lookups so files already fetched show as such */
+    isDownloaded: (modelId: string) => boolean;
+    isDownloading: (modelId: string) => boolean;
+    /** Catalog client; defaults to Hugging Face */
+    catalog?: ModelCatalogClient;
+}
+
+interface RepoDetails {
+    repo: CatalogRepo;
+    files: CatalogFile[];
+    card: CatalogModelCard;
+}
+
+// Chat templates can be long; show the start only
+const TEMPLATE_PREVIEW_LENGTH = 240;
+
+/**
+ * Pick the projector to download with vision weights (prefer F16, then the smallest)
+ */
+function pickMmproj(files: CatalogFile[]): CatalogFile | undefined {
+    const projectors = files.filter((f) => f.isMmproj);
+    return projectors.find((f) => f.quantization === 'F16') ?? projectors[0];
+}
+
+export function ModelCatalogBrowser({
+    visible,
+    onClose,
+    onDownload,
+    isDownloaded,
+    isDownloading,
+    catalog = modelCatalog,
+}: ModelCatalogBrowserProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { checkFit } = useModelFit();
+
+    const [query, setQuery] = useState('');
+    const [repos, setRepos] = useState<CatalogRepo[]>([]);
+    const [details, setDetails] = useState<RepoDetails | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showTemplate, setShowTemplate] = useState(false);
+
+    const handleSearch = async () => {
+        if (!query.trim()) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            setRepos(await catalog.searchModels(query));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('models.catalog.error'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleOpenRepo = async (repo: CatalogRepo) => {
+        setIsLoading(true);
+        setError(null);
+        setShowTemplate(false);
+        try {
+            const [files, card] = await Promise.all([
+                catalog.listFiles(repo.id),
+                catalog.getModelCard(repo.id),
+            ]);
+            setDetails({ repo, files, card });
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('models.catalog.error'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleDownload = (file: CatalogFile) => {
+        if (!details) return;
+        const mmproj = pickMmproj(details.files);
+        onDownload(toDownloadableModel(details.repo.id, file, details.card, mmproj));
+    };
+
+    const handleBack = () => {
+        if (details) {
+            setDetails(null);
+            setError(null);
+        } else {
+            onClose();
+        }
+    };
+
+    const renderRepo = ({ item }: { item: CatalogRepo }) => (
+        <TouchableOpacity
+            style={[styles.row, { backgroundColor: colors.backgroundSecondary, borderColor: colors.border }]}
+            onPress={() => handleOpenRepo(item)}
+        >
+            <View style={styles.rowInfo}>
+                <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+                    {item.id}
+                </Text>
+                <Text style={[styles.rowMeta, { color: colors.textMuted }]}>
+                    {t('models.catalog.stats', { downloads: item.downloads ?? 0, likes: item.likes ?? 0 })}
+                </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+        </TouchableOpacity>
+    );
+
+    const renderCardField = (label: string, value?: string | number) =>
+        value !== undefined && value !== '' ? (
+            <View style={styles.cardField} key={label}>
+                <Text style={[styles.cardLabel, { color: colors.textMuted }]}>{label}</Text>
+                <Text style={[styles.cardValue, { color: colors.text }]} numberOfLines={1}>
+                    {value}
+                </Text>
+            </View>
+        ) : null;
+
+    const renderFile = (file: CatalogFile) => {
+        const modelId = getCatalogModelId(details!.repo.id, file);
+        const downloaded = isDownloaded(modelId);
+        const downloading = isDownloading(modelId);
+        const fitResult = checkFit(
+            toDownloadableModel(details!.repo.id, file, details!.card, pickMmproj(details!.files)),
+            !downloaded
+        );
+        const fitColor = fitResult?.fit === 'fits'
+            ? colors.success
+            : fitResult?.fit === 'tight' ? colors.warning : colors.error;
+
+        return (
+            <View
+                key={file.path}
+                style={[styles.row, { backgroundColor: colors.backgroundSecondary, borderColor: colors.border }]}
+            >
+                <View style={styles.rowInfo}>
+                    <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+                        {file.quantization ?? file.path}
+                    </Text>
+                    <Text style={[styles.rowMeta, { color: colors.textMuted }]} numberOfLines={1}>
+                        {formatBytes(file.size)} · {file.path}
+                    </Text>
+                    {fitResult && (
+                        <Text style={[styles.rowMeta, { color: fitColor }]}>
+                            {t(`models.fit.${fitResult.fit}`)}
+                        </Text>
+                    )}
+                </View>
+                {downloaded ? (
+                    <Ionicons name="checkmark-circle" size={24} color={colors.success} />
+                ) : downloading ? (
+                    <ActivityIndicator size="small" color={colors.tint} />
+                ) : (
+                    <TouchableOpacity
+                        style={[styles.downloadButton, { backgroundColor: colors.tint + '20' }]}
+                        onPress={() => handleDownload(file)}
+                    >
+                        <Ionicons name="download-outline" size={22} color={colors.tint} />
+                    </TouchableOpacity>
+                )}
+            </View>
+        );
+    };
+
+    const renderDetails = ({ repo, files, card }: RepoDetails) => {
+        const weights = files.filter((f) => !f.isMmproj);
+        const mmproj = pickMmproj(files);
+        const template = card.chatTemplate;
+
+        return (
+            <ScrollView contentContainerStyle={styles.listContent}>
+                <Text style={[styles.repoTitle, { color: colors.text }]}>{repo.id}</Text>
+
+                <View style={[styles.card, { backgroundColor: colors.backgroundSecondary, borderColor: colors.border }]}>
+                    {renderCardField(t('models.catalog.license'), card.license)}
+                    {renderCardField(t('models.catalog.contextLength'), card.contextLength)}
+                    {renderCardField(t('models.catalog.architecture'), card.architecture)}
+                    {renderCardField(t('models.catalog.baseModel'), card.baseModel)}
+                    {template ? (
+                        <TouchableOpacity onPress={() => setShowTemplate(!showTemplate)}>
+                            <Text style={[styles.cardLabel, { color: colors.textMuted }]}>
+                                {t('models.catalog.chatTemplate')}
+                            </Text>
+                            <Text style={[styles.template, { color: colors.text }]}>
+                                {showTemplate || template.length <= TEMPLATE_PREVIEW_LENGTH
+                                    ? template
+                                    : `${template.slice(0, TEMPLATE_PREVIEW_LENGTH)}…`}
+                            </Text>
+                        </TouchableOpacity>
+                    ) : (
+                        renderCardField(t('models.catalog.chatTemplate'), t('models.catalog.noTemplate'))
+                    )}
+                </View>
+
+                {mmproj && (
+                    <Text style={[styles.hint, { color: colors.textMuted }]}>
+                        {t('models.catalog.mmprojHint', { file: mmproj.path })}
+                    </Text>
+                )}
+
+                <Text style={[styles.sectionTitle, { color: colors.textMuted }]}>
+                    {t('models.catalog.files')}
+                </Text>
+                {weights.length === 0 ? (
+                    <Text style={[styles.hint, { color: colors.textMuted }]}>{t('models.catalog.noFiles')}</Text>
+                ) : (
+                    weights.map(renderFile)
+                )}
+            </ScrollView>
+        );
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={handleBack}
+        >
+            <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+                {/* Header */}
+                <View style={[styles.header, { borderBottomColor: colors.border }]}>
+                    <TouchableOpacity onPress={handleBack} style={styles.headerButton}>
+                        <Ionicons name={details ? 'arrow-back' : 'close'} size={24} color={colors.text} />
+                    </TouchableOpacity>
+                    <Text style={[styles.title, { color: colors.text }]}>{t('models.catalog.title')}</Text>
+                    <View style={styles.headerButton} />
+                </View>
+
+                {/* Search */}
+                {!details && (
+                    <View style={styles.searchContainer}>
+                        <View
+                            style={[
+                                styles.searchInputContainer,
+                                { backgroundColor: colors.backgroundSecondary, borderColor: colors.border },
+                            ]}
+                        >
+                            <Ionicons name="search" size={20} color={colors.textMuted} />
+                            <TextInput
+                                style={[styles.searchInput, { color: colors.text }]}
+                                placeholder={t('models.catalog.placeholder')}
+                                placeholderTextColor={colors.textMuted}
+                                value={query}
+                                onChangeText={setQuery}
+                                onSubmitEditing={handleSearch}
+                                returnKeyType="search"
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                            />
+                        </View>
+                    </View>
+                )}
+
+                {error && (
+                    <View style={[styles.errorBar, { backgroundColor: colors.error + '20' }]}>
+                        <Ionicons name="warning-outline" size={18} color={colors.error} />
+                        <Text style={[styles.errorText, { color: colors.error }]} numberOfLines={2}>
+                            {error}
+                        </Text>
+                    </View>
+                )}
+
+                {isLoading ? (
+                    <View style={styles.loadingContainer}>
+                        <ActivityIndicator size="large" color={colors.tint} />
+                    </View>
+                ) : details ? (
+                    renderDetails(details)
+                ) : (
+                    <VirtualizedList<CatalogRepo>
+                        data={repos}
+                        renderItem={renderRepo}
+                        keyExtractor={(item) => item.id}
+                        contentContainerStyle={styles.listContent}
+                        ListEmptyComponent={
+                            <Text style={[styles.hint, styles.emptyText, { color: colors.textMuted }]}>
+                                {t('models.catalog.empty')}
+                            </Text>
+                        }
+                    />
+                )}
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.md,
+        borderBottomWidth: 1,
+    },
+    headerButton: {
+        padding: Spacing.xs,
+        minWidth: 32,
+    },
+    title: {
+        fontSize: FontSizes.xl,
+        fontWeight: '600',
+    },
+    searchContainer: {
+        padding: Spacing.md,
+    },
+    searchInputContainer: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        paddingHorizontal: Spacing.md,
+        borderRadius: BorderRadius.md,
+        borderWidth: 1,
+    },
+    searchInput: {
+        flex: 1,
+        fontSize: FontSizes.md,
+        paddingVertical: Spacing.sm,
+    },
+    errorBar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+    },
+    errorText: {
+        flex: 1,
+        fontSize: FontSizes.sm,
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    listContent: {
+        padding: Spacing.md,
+        flexGrow: 1,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: Spacing.md,
+        borderRadius: BorderRadius.md,
+        borderWidth: 1,
+        marginBottom: Spacing.sm,
+        gap: Spacing.sm,
+    },
+    rowInfo: {
+        flex: 1,
+    },
+    rowTitle: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    rowMeta: {
+        fontSize: FontSizes.sm,
+        marginTop: 2,
+    },
+    downloadButton: {
+        padding: Spacing.sm,
+        borderRadius: BorderRadius.md,
+    },
+    repoTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+        marginBottom: Spacing.md,
+    },
+    card: {
+        padding: Spacing.md,
+        borderRadius: BorderRadius.md,
+        borderWidth: 1,
+        gap: Spacing.sm,
+        marginBottom: Spacing.md,
+    },
+    cardField: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: Spacing.md,
+    },
+    cardLabel: {
+        fontSize: FontSizes.sm,
+    },
+    cardValue: {
+        fontSize: FontSizes.sm,
+        fontWeight: '500',
+        flexShrink: 1,
+    },
+    template: {
+        fontSize: FontSizes.xs,
+        fontFamily: 'monospace',
+        marginTop: Spacing.xs,
+    },
+    sectionTitle: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        marginBottom: Spacing.sm,
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+        marginBottom: Spacing.md,
+    },
+    emptyText: {
+        textAlign: 'center',
+        marginTop: Spacing.xl,
+    },
+});
@@ -0,0 +1,254 @@
+/**
+ * Model Storage Modal
+ *
+ * Lists files in the models directory that no downloaded model uses
+ * (leftovers of deleted or failed downloads) and lets the user delete them.
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { formatBytes } from '../../../core/catalog';
+import { OrphanedModelFile } from '../../../core/types';
+import { deleteOrphanedFile, findOrphanedFiles } from '../../../services/ModelDownloadService';
+import { showConfirm, showError } from '../../../utils';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { Button } from './Button';
+
+interface ModelStorageModalProps {
+    visible: boolean;
+    onClose: () => void;
+}
+
+export function ModelStorageModal({ visible, onClose }: ModelStorageModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { width, height } = useWindowDimensions();
+
+    const [orphans, setOrphans] = useState<OrphanedModelFile[]>([]);
+    const [isScanning, setIsScanning] = useState(false);
+
+    const totalSize = orphans.reduce((sum, file) => sum + file.size, 0);
+
+    const scan = async () => {
+        setIsScanning(true);
+        try {
+            setOrphans(await findOrphanedFiles());
+        } catch (error) {
+            showError(t('models.storage.scanError'), error instanceof Error ? error.message : undefined);
+        } finally {
+            setIsScanning(false);
+        }
+    };
+
+    // Rescan each time the panel opens
+    useEffect(() => {
+        if (visible) scan();
+    }, [visible]);
+
+    const deleteFiles = async (files: OrphanedModelFile[]) => {
+        try {
+            for (const file of files) {
+                await deleteOrphanedFile(file.path);
+            }
+        } catch (error) {
+            showError(t('models.storage.deleteError'), error instanceof Error ? error.message : undefined);
+        }
+        await scan();
+    };
+
+    const handleDelete = async (file: OrphanedModelFile) => {
+        const confirmed = await showConfirm(
+            t('models.storage.delete.title'),
+            t('models.storage.delete.confirm', { name: file.name }),
+            t('common.delete'),
+            t('common.cancel'),
+            true
+        );
+        if (confirmed) await deleteFiles([file]);
+    };
+
+    const handleDeleteAll = async () => {
+        const confirmed = await showConfirm(
+            t('models.storage.deleteAll.title'),
+            t('models.storage.deleteAll.confirm', { count: orphans.length, size: formatBytes(totalSize) }),
+            t('common.delete'),
+            t('common.cancel'),
+            true
+        );
+        if (confirmed) await deleteFiles(orphans);
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 480),
+                            maxHeight: height * 0.8,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]}>
+                            {t('models.storage.title')}
+                        </Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+
+                    {isScanning ? (
+                        <View style={styles.centered}>
+                            <ActivityIndicator size="large" color={colors.tint} />
+                        </View>
+                    ) : orphans.length === 0 ? (
+                        <View style={styles.centered}>
+                            <Ionicons name="checkmark-circle-outline" size={40} color={colors.success} />
+                            <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+                                {t('models.storage.empty')}
+                            </Text>
+                        </View>
+                    ) : (
+                        <>
+                            <Text style={[styles.hint, { color: colors.textMuted }]}>
+                                {t('models.storage.hint', { count: orphans.length, size: formatBytes(totalSize) })}
+                            </Text>
+                            <ScrollView contentContainerStyle={styles.list}>
+                                {orphans.map((file) => (
+                                    <View
+                                        key={file.path}
+                                        style={[styles.row, { backgroundColor: colors.backgroundSecondary, borderColor: colors.border }]}
+                                    >
+                                        <Ionicons
+                                            name={file.isDirectory ? 'folder-outline' : 'document-outline'}
+                                            size={20}
+                                            color={colors.textMuted}
+                                        />
+                                        <View style={styles.rowInfo}>
+                                            <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+                                                {file.name}
+                                            </Text>
+                                            <Text style={[styles.rowMeta, { color: colors.textMuted }]}>
+                                                {formatBytes(file.size)}
+                                            </Text>
+                                        </View>
+                                        <TouchableOpacity onPress={() => handleDelete(file)} style={styles.closeButton}>
+                                            <Ionicons name="trash-outline" size={20} color={colors.error} />
+                                        </TouchableOpacity>
+                                    </View>
+                                ))}
+                            </ScrollView>
+                            <View style={[styles.actions, { borderTopColor: colors.border }]}>
+                                <Button
+                                    title={t('models.storage.deleteAll')}
+                                    onPress={handleDeleteAll}
+                                    variant="danger"
+                                    style={styles.actionButton}
+                                />
+                            </View>
+                        </>
+                    )}
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    centered: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: Spacing.xl,
+    },
+    emptyText: {
+        fontSize: FontSizes.md,
+        marginTop: Spacing.sm,
+        textAlign: 'center',
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+        paddingHorizontal: Spacing.md,
+        paddingTop: Spacing.sm,
+    },
+    list: {
+        padding: Spacing.md,
+        gap: Spacing.xs,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        padding: Spacing.sm,
+        borderRadius: BorderRadius.md,
+        borderWidth: 1,
+    },
+    rowInfo: {
+        flex: 1,
+    },
+    rowTitle: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    rowMeta: {
+        fontSize: FontSizes.xs,
+        marginTop: 2,
+    },
+    actions: {
+        flexDirection: 'row',
+        padding: Spacing.md,
+        borderTopWidth: 1,
+    },
+    actionButton: {
+        flex: 1,
+    },
+});
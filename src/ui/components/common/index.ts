@@ -1,5 +1,7 @@
 export { Button } from './Button';
 export { Dropdown } from './Dropdown';
+export { GenerationSettingsFields, parseGenerationSettingsDraft, toGenerationSettingsDraft } from './GenerationSettingsFields';
+export type { GenerationSettingsDraft } from './GenerationSettingsFields';
 export { Input } from './Input';
 export { LocalModelList } from './LocalModelList';
 export { LocalModelPicker } from './LocalModelPicker';
@@ -0,0 +1,215 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { BACKUP_SCOPES, BackupScope, ExportOptions } from '../../../services/backup';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { Button, Input } from '../common';
+
+interface BackupExportModalProps {
+    visible: boolean;
+    isExporting: boolean;
+    onExport: (options: ExportOptions) => void;
+    onClose: () => void;
+}
+
+/**
+ * Choose what goes into a backup and optionally protect it with a password
+ */
+export function BackupExportModal({
+    visible,
+    isExporting,
+    onExport,
+    onClose,
+}: BackupExportModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { width, height } = useWindowDimensions();
+
+    const [scopes, setScopes] = useState<BackupScope[]>(BACKUP_SCOPES);
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+
+    // Start from everything and no password each time
+    useEffect(() => {
+        if (visible) {
+            setScopes(BACKUP_SCOPES);
+            setPassword('');
+            setConfirmPassword('');
+        }
+    }, [visible]);
+
+    const toggleScope = (scope: BackupScope) => {
+        setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+    };
+
+    const passwordMismatch = !!password && !!confirmPassword && password !== confirmPassword;
+    const canExport = scopes.length > 0 && password === confirmPassword && !isExporting;
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 480),
+                            maxHeight: height * 0.85,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]}>
+                            {t('settings.export.title')}
+                        </Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+                        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+                            {t('settings.backup.contents')}
+                        </Text>
+                        {BACKUP_SCOPES.map((scope) => {
+                            const isSelected = scopes.includes(scope);
+                            return (
+                                <TouchableOpacity
+                                    key={scope}
+                                    style={styles.scopeRow}
+                                    onPress={() => toggleScope(scope)}
+                                >
+                                    <Ionicons
+                                        name={isSelected ? 'checkbox' : 'square-outline'}
+                                        size={22}
+                                        color={isSelected ? colors.tint : colors.textMuted}
+                                    />
+                                    <Text style={[styles.scopeLabel, { color: colors.text }]}>
+                                        {t(`settings.backup.scope.${scope}`)}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+
+                        <Text style={[styles.sectionLabel, styles.passwordLabel, { color: colors.textSecondary }]}>
+                            {t('settings.backup.encryption')}
+                        </Text>
+                        <Input
+                            label={t('settings.backup.password')}
+                            value={password}
+                            onChangeText={setPassword}
+                            secureTextEntry
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            hint={password ? undefined : t('settings.backup.passwordHint')}
+                        />
+                        {!!password && (
+                            <Input
+                                label={t('settings.backup.confirmPassword')}
+                                value={confirmPassword}
+                                onChangeText={setConfirmPassword}
+                                secureTextEntry
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                                error={passwordMismatch ? t('settings.backup.passwordMismatch') : undefined}
+                            />
+                        )}
+                    </ScrollView>
+
+                    <View style={[styles.actions, { borderTopColor: colors.border }]}>
+                        <Button
+                            title={t('common.cancel')}
+                            onPress={onClose}
+                            variant="secondary"
+                            style={styles.actionButton}
+                        />
+                        <Button
+                            title={t('settings.backup.export')}
+                            onPress={() => onExport({ scopes, password: password || undefined })}
+                            disabled={!canExport}
+                            loading={isExporting}
+                            style={styles.actionButton}
+                        />
+                    </View>
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    body: {
+        padding: Spacing.md,
+    },
+    sectionLabel: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        marginBottom: Spacing.xs,
+    },
+    passwordLabel: {
+        marginTop: Spacing.md,
+    },
+    scopeRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        paddingVertical: Spacing.xs,
+    },
+    scopeLabel: {
+        fontSize: FontSizes.md,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderTopWidth: 1,
+    },
+    actionButton: {
+        flex: 1,
+    },
+});
@@ -0,0 +1,255 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { BackupFile, ImportOptions, ImportStrategy } from '../../../services/backup';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { Button, Input } from '../common';
+
+interface BackupImportModalProps {
+    /** Picked backup; the modal is shown while set */
+    file: BackupFile | null;
+    isImporting: boolean;
+    onImport: (options: ImportOptions) => void;
+    onClose: () => void;
+}
+
+const STRATEGIES: ImportStrategy[] = ['merge', 'skip', 'replace'];
+
+/**
+ * Import options for a picked backup: conflict strategy and, for encrypted
+ * backups, the password
+ */
+export function BackupImportModal({
+    file,
+    isImporting,
+    onImport,
+    onClose,
+}: BackupImportModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { width, height } = useWindowDimensions();
+
+    const [strategy, setStrategy] = useState<ImportStrategy>('merge');
+    const [password, setPassword] = useState('');
+
+    useEffect(() => {
+        if (file) {
+            setStrategy('merge');
+            setPassword('');
+        }
+    }, [file]);
+
+    const canImport = !!file && (!file.encrypted || !!password) && !isImporting;
+
+    return (
+        <Modal
+            visible={!!file}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 480),
+                            maxHeight: height * 0.85,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]}>
+                            {t('settings.import.title')}
+                        </Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+                        {file?.encrypted ? (
+                            <>
+                                <View style={styles.infoRow}>
+                                    <Ionicons name="lock-closed" size={16} color={colors.tint} />
+                                    <Text style={[styles.infoText, { color: colors.text }]}>
+                                        {t('settings.backup.encrypted')}
+                                    </Text>
+                                </View>
+                                <Input
+                                    label={t('settings.backup.password')}
+                                    value={password}
+                                    onChangeText={setPassword}
+                                    secureTextEntry
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                />
+                            </>
+                        ) : file && (
+                            <View style={styles.info}>
+                                {!!file.exportedAt && (
+                                    <Text style={[styles.infoText, { color: colors.text }]}>
+                                        {t('settings.backup.createdAt', { date: new Date(file.exportedAt).toLocaleString() })}
+                                    </Text>
+                                )}
+                                {file.scopes && (
+                                    <Text style={[styles.infoText, { color: colors.textMuted }]}>
+                                        {t('settings.backup.includes', {
+                                            scopes: file.scopes.map((scope) => t(`settings.backup.scope.${scope}`)).join(', '),
+                                        })}
+                                    </Text>
+                                )}
+                            </View>
+                        )}
+
+                        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+                            {t('settings.backup.strategy')}
+                        </Text>
+                        {STRATEGIES.map((option) => {
+                            const isSelected = strategy === option;
+                            return (
+                                <TouchableOpacity
+                                    key={option}
+                                    style={[
+                                        styles.strategyRow,
+                                        { backgroundColor: isSelected ? colors.tint + '20' : colors.backgroundSecondary },
+                                    ]}
+                                    onPress={() => setStrategy(option)}
+                                >
+                                    <Ionicons
+                                        name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                                        size={20}
+                                        color={isSelected ? colors.tint : colors.textMuted}
+                                    />
+                                    <View style={styles.strategyInfo}>
+                                        <Text style={[styles.strategyLabel, { color: colors.text }]}>
+                                            {t(`settings.backup.strategy.${option}`)}
+                                        </Text>
+                                        <Text
+                                            style={[
+                                                styles.strategyDescription,
+                                                { color: option === 'replace' ? colors.error : colors.textMuted },
+                                            ]}
+                                        >
+                                            {t(`settings.backup.strategy.${option}Desc`)}
+                                        </Text>
+                                    </View>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </ScrollView>
+
+                    <View style={[styles.actions, { borderTopColor: colors.border }]}>
+                        <Button
+                            title={t('common.cancel')}
+                            onPress={onClose}
+                            variant="secondary"
+                            style={styles.actionButton}
+                        />
+                        <Button
+                            title={t('settings.backup.import')}
+                            onPress={() => onImport({ strategy, password: password || undefined })}
+                            variant={strategy === 'replace' ? 'danger' : 'primary'}
+                            disabled={!canImport}
+                            loading={isImporting}
+                            style={styles.actionButton}
+                        />
+                    </View>
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    body: {
+        padding: Spacing.md,
+    },
+    info: {
+        gap: 2,
+        marginBottom: Spacing.md,
+    },
+    infoRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.xs,
+        marginBottom: Spacing.sm,
+    },
+    infoText: {
+        fontSize: FontSizes.sm,
+    },
+    sectionLabel: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        marginBottom: Spacing.xs,
+    },
+    strategyRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        padding: Spacing.sm,
+        borderRadius: BorderRadius.md,
+        marginBottom: Spacing.xs,
+    },
+    strategyInfo: {
+        flex: 1,
+    },
+    strategyLabel: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    strategyDescription: {
+        fontSize: FontSizes.sm,
+        marginTop: 2,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderTopWidth: 1,
+    },
+    actionButton: {
+        flex: 1,
+    },
+});
@@ -0,0 +1,194 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { CHARACTER_CARD_FORMATS, CharacterCardFormat } from '../../../core/personas';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { Button } from '../common';
+
+interface CharacterCardExportModalProps {
+    visible: boolean;
+    isExporting: boolean;
+    onExport: (format: CharacterCardFormat) => void;
+    onClose: () => void;
+}
+
+/**
+ * Choose the file format a persona is exported in as a character card
+ */
+export function CharacterCardExportModal({
+    visible,
+    isExporting,
+    onExport,
+    onClose,
+}: CharacterCardExportModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { width, height } = useWindowDimensions();
+
+    const [format, setFormat] = useState<CharacterCardFormat>('png');
+
+    useEffect(() => {
+        if (visible) {
+            setFormat('png');
+        }
+    }, [visible]);
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 480),
+                            maxHeight: height * 0.85,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]}>
+                            {t('settings.personas.export.title')}
+                        </Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.body}>
+                        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+                            {t('settings.personas.export.format')}
+                        </Text>
+                        {CHARACTER_CARD_FORMATS.map((option) => {
+                            const isSelected = format === option;
+                            return (
+                                <TouchableOpacity
+                                    key={option}
+                                    style={[
+                                        styles.formatRow,
+                                        { backgroundColor: isSelected ? colors.tint + '20' : colors.backgroundSecondary },
+                                    ]}
+                                    onPress={() => setFormat(option)}
+                                >
+                                    <Ionicons
+                                        name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                                        size={20}
+                                        color={isSelected ? colors.tint : colors.textMuted}
+                                    />
+                                    <View style={styles.formatInfo}>
+                                        <Text style={[styles.formatLabel, { color: colors.text }]}>
+                                            {t(`settings.personas.export.${option}`)}
+                                        </Text>
+                                        <Text style={[styles.formatDescription, { color: colors.textMuted }]}>
+                                            {t(`settings.personas.export.${option}Desc`)}
+                                        </Text>
+                                    </View>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </ScrollView>
+
+                    <View style={[styles.actions, { borderTopColor: colors.border }]}>
+                        <Button
+                            title={t('common.cancel')}
+                            onPress={onClose}
+                            variant="secondary"
+                            style={styles.actionButton}
+                        />
+                        <Button
+                            title={t('settings.personas.export.button')}
+                            onPress={() => onExport(format)}
+                            disabled={isExporting}
+                            loading={isExporting}
+                            style={styles.actionButton}
+                        />
+                    </View>
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    body: {
+        padding: Spacing.md,
+    },
+    sectionLabel: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        marginBottom: Spacing.xs,
+    },
+    formatRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        padding: Spacing.sm,
+        borderRadius: BorderRadius.md,
+        marginBottom: Spacing.xs,
+    },
+    formatInfo: {
+        flex: 1,
+    },
+    formatLabel: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    formatDescription: {
+        fontSize: FontSizes.sm,
+        marginTop: 2,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderTopWidth: 1,
+    },
+    actionButton: {
+        flex: 1,
+    },
+});
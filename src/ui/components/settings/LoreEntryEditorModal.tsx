@@ -0,0 +1,376 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Switch,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { CharacterBookEntry } from '../../../core/types';
+import { showError } from '../../../utils/alert';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { Button, Input } from '../common';
+
+interface LoreEntryEditorModalProps {
+    visible: boolean;
+    /** Entry to edit; undefined creates a new one */
+    entry?: CharacterBookEntry;
+    /** insertion_order for a new entry */
+    nextInsertionOrder: number;
+    onSave: (entry: CharacterBookEntry) => void;
+    onClose: () => void;
+}
+
+const POSITIONS: Array<NonNullable<CharacterBookEntry['position']>> = ['before_char', 'after_char'];
+
+function splitKeys(text: string): string[] {
+    return text.split(',').map((key) => key.trim()).filter(Boolean);
+}
+
+/**
+ * Create or edit a lorebook entry: trigger keys, content and its token limit, insertion position and priority
+ */
+export function LoreEntryEditorModal({
+    visible,
+    entry,
+    nextInsertionOrder,
+    onSave,
+    onClose,
+}: LoreEntryEditorModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { width, height } = useWindowDimensions();
+
+    const [name, setName] = useState('');
+    const [keys, setKeys] = useState('');
+    const [secondaryKeys, setSecondaryKeys] = useState('');
+    const [useRegex, setUseRegex] = useState(false);
+    const [caseSensitive, setCaseSensitive] = useState(false);
+    const [content, setContent] = useState('');
+    const [position, setPosition] = useState<NonNullable<CharacterBookEntry['position']>>('before_char');
+    const [priority, setPriority] = useState('');
+    const [insertionOrder, setInsertionOrder] = useState('');
+    const [tokenBudget, setTokenBudget] = useState('');
+    const [constant, setConstant] = useState(false);
+    const [enabled, setEnabled] = useState(true);
+
+    // Reset the form each time the panel opens
+    useEffect(() => {
+        if (visible) {
+            setName(entry?.name ?? '');
+            setKeys(entry?.keys.join(', ') ?? '');
+            setSecondaryKeys(entry?.secondary_keys?.join(', ') ?? '');
+            setUseRegex(!!entry?.use_regex);
+            setCaseSensitive(!!entry?.case_sensitive);
+            setContent(entry?.content ?? '');
+            setPosition(entry?.position ?? 'before_char');
+            setPriority(entry?.priority !== undefined ? String(entry.priority) : '');
+            setInsertionOrder(String(entry?.insertion_order ?? nextInsertionOrder));
+            setTokenBudget(entry?.token_budget !== undefined ? String(entry.token_budget) : '');
+            setConstant(!!entry?.constant);
+            setEnabled(entry?.enabled ?? true);
+        }
+    }, [visible]);
+
+    const handleSave = () => {
+        const keyList = splitKeys(keys);
+        if (!content.trim() || (keyList.length === 0 && !constant)) {
+            showError(t('common.error'), t('settings.personas.lore.required'));
+            return;
+        }
+
+        const secondaryKeyList = splitKeys(secondaryKeys);
+        const parsedPriority = parseInt(priority, 10);
+        const parsedOrder = parseInt(insertionOrder, 10);
+        const parsedBudget = parseInt(tokenBudget, 10);
+
+        onSave({
+            ...entry,
+            name: name.trim() || undefined,
+            keys: keyList,
+            secondary_keys: secondaryKeyList.length > 0 ? secondaryKeyList : undefined,
+            selective: secondaryKeyList.length > 0,
+            use_regex: useRegex || undefined,
+            case_sensitive: caseSensitive || undefined,
+            content,
+            position,
+            priority: Number.isNaN(parsedPriority) ? undefined : parsedPriority,
+            insertion_order: Number.isNaN(parsedOrder) ? nextInsertionOrder : parsedOrder,
+            token_budget: Number.isNaN(parsedBudget) ? undefined : Math.max(0, parsedBudget),
+            constant: constant || undefined,
+            enabled,
+            extensions: entry?.extensions ?? {},
+        });
+    };
+
+    const renderSwitch = (label: string, description: string, value: boolean, onChange: (value: boolean) => void) => (
+        <View style={styles.switchRow}>
+            <View style={styles.switchInfo}>
+                <Text style={[styles.switchLabel, { color: colors.text }]}>{label}</Text>
+                <Text style={[styles.switchDescription, { color: colors.textMuted }]}>{description}</Text>
+            </View>
+            <Switch
+                value={value}
+                onValueChange={onChange}
+                trackColor={{ false: colors.border, true: colors.tint + '80' }}
+                thumbColor={value ? colors.tint : colors.background}
+            />
+        </View>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 480),
+                            maxHeight: height * 0.85,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]}>
+                            {entry ? t('settings.personas.lore.edit') : t('settings.personas.lore.add')}
+                        </Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+                        <Input
+                            label={t('settings.personas.lore.name')}
+                            value={name}
+                            onChangeText={setName}
+                            placeholder={t('settings.personas.lore.namePlaceholder')}
+                        />
+                        <Input
+                            label={t('settings.personas.lore.keys')}
+                            value={keys}
+                            onChangeText={setKeys}
+                            placeholder={useRegex ? '/dragons?/i' : t('settings.personas.lore.keysPlaceholder')}
+                            hint={t('settings.personas.lore.keysHint')}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                        <Input
+                            label={t('settings.personas.lore.secondaryKeys')}
+                            value={secondaryKeys}
+                            onChangeText={setSecondaryKeys}
+                            hint={t('settings.personas.lore.secondaryKeysHint')}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                        {renderSwitch(
+                            t('settings.personas.lore.regex'),
+                            t('settings.personas.lore.regexDesc'),
+                            useRegex,
+                            setUseRegex
+                        )}
+                        {renderSwitch(
+                            t('settings.personas.lore.caseSensitive'),
+                            t('settings.personas.lore.caseSensitiveDesc'),
+                            caseSensitive,
+                            setCaseSensitive
+                        )}
+                        <Input
+                            label={t('settings.personas.lore.content')}
+                            value={content}
+                            onChangeText={setContent}
+                            placeholder={t('settings.personas.lore.contentPlaceholder')}
+                            multiline
+                            numberOfLines={5}
+                        />
+                        <Input
+                            label={t('settings.personas.lore.entryTokenBudget')}
+                            value={tokenBudget}
+                            onChangeText={setTokenBudget}
+                            hint={t('settings.personas.lore.entryTokenBudgetHint')}
+                            keyboardType="number-pad"
+                        />
+
+                        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+                            {t('settings.personas.lore.position')}
+                        </Text>
+                        <View style={styles.positionRow}>
+                            {POSITIONS.map((option) => {
+                                const isSelected = position === option;
+                                return (
+                                    <TouchableOpacity
+                                        key={option}
+                                        style={[
+                                            styles.positionOption,
+                                            { backgroundColor: isSelected ? colors.tint + '20' : colors.backgroundSecondary },
+                                        ]}
+                                        onPress={() => setPosition(option)}
+                                    >
+                                        <Ionicons
+                                            name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                                            size={18}
+                                            color={isSelected ? colors.tint : colors.textMuted}
+                                        />
+                                        <Text style={[styles.positionLabel, { color: colors.text }]}>
+                                            {t(`settings.personas.lore.position.${option}`)}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+
+                        <View style={styles.numberRow}>
+                            <Input
+                                label={t('settings.personas.lore.priority')}
+                                value={priority}
+                                onChangeText={setPriority}
+                                placeholder="0"
+                                hint={t('settings.personas.lore.priorityHint')}
+                                keyboardType="number-pad"
+                                containerStyle={styles.numberInput}
+                            />
+                            <Input
+                                label={t('settings.personas.lore.order')}
+                                value={insertionOrder}
+                                onChangeText={setInsertionOrder}
+                                hint={t('settings.personas.lore.orderHint')}
+                                keyboardType="number-pad"
+                                containerStyle={styles.numberInput}
+                            />
+                        </View>
+
+                        {renderSwitch(
+                            t('settings.personas.lore.constant'),
+                            t('settings.personas.lore.constantDesc'),
+                            constant,
+                            setConstant
+                        )}
+                        {renderSwitch(
+                            t('settings.personas.lore.enabled'),
+                            t('settings.personas.lore.enabledDesc'),
+                            enabled,
+                            setEnabled
+                        )}
+                    </ScrollView>
+
+                    <View style={[styles.actions, { borderTopColor: colors.border }]}>
+                        <Button
+                            title={t('common.cancel')}
+                            onPress={onClose}
+                            variant="secondary"
+                            style={styles.actionButton}
+                        />
+                        <Button
+                            title={t('common.save')}
+                            onPress={handleSave}
+                            style={styles.actionButton}
+                        />
+                    </View>
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    body: {
+        padding: Spacing.md,
+    },
+    sectionLabel: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        marginBottom: Spacing.xs,
+    },
+    switchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        marginBottom: Spacing.md,
+    },
+    switchInfo: {
+        flex: 1,
+    },
+    switchLabel: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    switchDescription: {
+        fontSize: FontSizes.sm,
+        marginTop: 2,
+    },
+    positionRow: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        marginBottom: Spacing.md,
+    },
+    positionOption: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.xs,
+        padding: Spacing.sm,
+        borderRadius: BorderRadius.md,
+    },
+    positionLabel: {
+        fontSize: FontSizes.sm,
+        flexShrink: 1,
+    },
+    numberRow: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+    },
+    numberInput: {
+        flex: 1,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderTopWidth: 1,
+    },
+    actionButton: {
+        flex: 1,
+    },
+});
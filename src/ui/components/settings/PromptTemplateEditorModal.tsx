@@ -0,0 +1,231 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { BUILT_IN_VARIABLES, extractVariables, getTemplateCommand } from '../../../core/prompts';
+import { PromptTemplate } from '../../../core/types';
+import { usePromptTemplateStore } from '../../../state';
+import { showError } from '../../../utils/alert';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { Button, Input } from '../common';
+
+interface PromptTemplateEditorModalProps {
+    visible: boolean;
+    /** Template to edit; undefined creates a new one */
+    template?: PromptTemplate;
+    onClose: () => void;
+}
+
+/**
+ * Create or edit a prompt library template
+ */
+export function PromptTemplateEditorModal({
+    visible,
+    template,
+    onClose,
+}: PromptTemplateEditorModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { width, height } = useWindowDimensions();
+
+    const { createTemplate, updateTemplate } = usePromptTemplateStore();
+
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [content, setContent] = useState('');
+
+    // Reset the form each time the panel opens
+    useEffect(() => {
+        if (visible) {
+            setName(template?.name ?? '');
+            setDescription(template?.description ?? '');
+            setContent(template?.content ?? '');
+        }
+    }, [visible]);
+
+    const variables = extractVariables(content);
+    const command = getTemplateCommand(name);
+
+    const handleSave = async () => {
+        const trimmedName = name.trim();
+        if (!trimmedName || !content.trim()) {
+            showError(t('common.error'), t('prompts.editor.required'));
+            return;
+        }
+
+        const fields = {
+            name: trimmedName,
+            description: description.trim() || undefined,
+            content,
+        };
+
+        if (template) {
+            await updateTemplate({ ...template, ...fields });
+        } else {
+            await createTemplate(fields);
+        }
+        onClose();
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 520),
+                            maxHeight: height * 0.85,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]}>
+                            {template ? t('prompts.editor.edit') : t('prompts.editor.new')}
+                        </Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+                        <Input
+                            label={t('prompts.editor.name')}
+                            value={name}
+                            onChangeText={setName}
+                            placeholder={t('prompts.editor.namePlaceholder')}
+                            hint={command ? t('prompts.editor.commandHint', { command }) : undefined}
+                        />
+                        <Input
+                            label={t('prompts.editor.description')}
+                            value={description}
+                            onChangeText={setDescription}
+                        />
+                        <Input
+                            label={t('prompts.editor.content')}
+                            value={content}
+                            onChangeText={setContent}
+                            placeholder={t('prompts.editor.contentPlaceholder')}
+                            multiline
+                            inputStyle={styles.contentInput}
+                        />
+                        <Text style={[styles.hint, { color: colors.textMuted }]}>
+                            {t('prompts.editor.variablesHint', {
+                                builtIns: BUILT_IN_VARIABLES.map((v) => `{{${v}}}`).join(', '),
+                            })}
+                        </Text>
+                        {variables.length > 0 && (
+                            <View style={styles.chips}>
+                                {variables.map((variable) => (
+                                    <View
+                                        key={variable}
+                                        style={[styles.chip, { backgroundColor: colors.tint + '20' }]}
+                                    >
+                                        <Text style={[styles.chipText, { color: colors.tint }]}>
+                                            {variable}
+                                        </Text>
+                                    </View>
+                                ))}
+                            </View>
+                        )}
+                    </ScrollView>
+
+                    <View style={[styles.actions, { borderTopColor: colors.border }]}>
+                        <Button
+                            title={t('common.cancel')}
+                            onPress={onClose}
+                            variant="secondary"
+                            style={styles.actionButton}
+                        />
+                        <Button
+                            title={t('common.save')}
+                            onPress={handleSave}
+                            style={styles.actionButton}
+                        />
+                    </View>
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    body: {
+        padding: Spacing.md,
+    },
+    contentInput: {
+        minHeight: 140,
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+    },
+    chips: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: Spacing.xs,
+        marginTop: Spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: 2,
+        borderRadius: BorderRadius.full,
+    },
+    chipText: {
+        fontSize: FontSizes.xs,
+        fontWeight: '500',
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderTopWidth: 1,
+    },
+    actionButton: {
+        flex: 1,
+    },
+});
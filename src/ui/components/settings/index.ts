@@ -1,5 +1,9 @@
+export { BackupExportModal } from './BackupExportModal';
+export { BackupImportModal } from './BackupImportModal';
+export { CharacterCardExportModal } from './CharacterCardExportModal';
 export { LLMConfigCard } from './LLMConfigCard';
+export { LoreEntryEditorModal } from './LoreEntryEditorModal';
 export { PersonaEditorModal } from './PersonaEditorModal';
 export { PersonaListItem } from './PersonaListItem';
+export { PromptTemplateEditorModal } from './PromptTemplateEditorModal';
 export { SettingsSection } from './SettingsSection';
-
@@ -1,6 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import React, { memo } from 'react';
 import {
+    ActivityIndicator,
     StyleSheet,
     Text,
     TouchableOpacity,
@@ -15,6 +16,8 @@ interface ConversationItemProps {
     isSelected: boolean;
     onPress: () => void;
     onDelete: () => void;
+    onRegenerateTitle: () => void;
+    isGeneratingTitle: boolean;
 }
 
 export const ConversationItem = memo(function ConversationItem({
@@ -22,6 +25,8 @@ export const ConversationItem = memo(function ConversationItem({
     isSelected,
     onPress,
     onDelete,
+    onRegenerateTitle,
+    isGeneratingTitle,
 }: ConversationItemProps) {
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
@@ -81,13 +86,28 @@ export const ConversationItem = memo(function ConversationItem({
                 </View>
             </View>
 
+            {isGeneratingTitle ? (
+                <ActivityIndicator size="small" color={colors.textMuted} style={styles.actionButton} />
+            ) : (
+                <TouchableOpacity
+                    onPress={(e) => {
+                        e.stopPropagation?.();
+                        onRegenerateTitle();
+                    }}
+                    style={styles.actionButton}
+                    hitSlop={{ top: 10, right: 5, bottom: 10, left: 10 }}
+                >
+                    <Ionicons name="sparkles-outline" size={16} color={colors.textMuted} />
+                </TouchableOpacity>
+            )}
+
             <TouchableOpacity
                 onPress={(e) => {
                     e.stopPropagation?.();
                     onDelete();
                 }}
-                style={styles.deleteButton}
-                hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+                style={styles.actionButton}
+                hitSlop={{ top: 10, right: 10, bottom: 10, left: 5 }}
             >
                 <Ionicons name="trash-outline" size={16} color={colors.textMuted} />
             </TouchableOpacity>
@@ -124,7 +144,7 @@ const styles = StyleSheet.create({
         fontSize: FontSizes.xs,
         marginTop: 2,
     },
-    deleteButton: {
+    actionButton: {
         padding: Spacing.xs,
         marginLeft: Spacing.sm,
         opacity: 0.6,
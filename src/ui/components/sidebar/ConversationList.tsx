@@ -11,6 +11,8 @@ interface ConversationListProps {
     selectedId: string | null;
     onSelect: (id: string) => void;
     onDelete: (id: string) => void;
+    onRegenerateTitle: (id: string) => void;
+    generatingTitleIds: string[];
 }
 
 export function ConversationList({
@@ -18,6 +20,8 @@ export function ConversationList({
     selectedId,
     onSelect,
     onDelete,
+    onRegenerateTitle,
+    generatingTitleIds,
 }: ConversationListProps) {
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
@@ -42,6 +46,8 @@ export function ConversationList({
                     isSelected={item.id === selectedId}
                     onPress={() => onSelect(item.id)}
                     onDelete={() => onDelete(item.id)}
+                    onRegenerateTitle={() => onRegenerateTitle(item.id)}
+                    isGeneratingTitle={generatingTitleIds.includes(item.id)}
                 />
             )}
             contentContainerStyle={styles.listContent}
@@ -13,7 +13,7 @@ import { UserInfo } from './UserInfo';
 interface SidebarProps {
     isCollapsed: boolean;
     onToggleCollapse: () => void;
-    onNavigate: (screen: 'settings' | 'llm-management') => void;
+    onNavigate: (screen: 'settings' | 'llm-management' | 'search') => void;
 }
 
 export function Sidebar({
@@ -33,11 +33,17 @@ export function Sidebar({
         startNewConversation,
         selectConversation,
         deleteConversation,
+        generateTitle,
+        generatingTitleIds,
         getCurrentMessages,
         isStreaming,
+        streamingConversationId,
         cancelStreaming,
     } = useConversationStore();
 
+    // A queued message answered in the background keeps going when switching conversations
+    const isStreamingHere = isStreaming && (!streamingConversationId || streamingConversationId === currentConversationId);
+
     const { confirmSwitchConversation } = useConversationRuntimeStore();
 
     // Check if we're already on a new (empty) conversation
@@ -49,7 +55,7 @@ export function Sidebar({
         if (isOnNewConversation) return;
 
         // If streaming, show confirmation
-        if (isStreaming) {
+        if (isStreamingHere) {
             const confirmed = await confirmSwitchConversation(null);
             if (!confirmed) return;
             await cancelStreaming();
@@ -62,7 +68,7 @@ export function Sidebar({
         if (id === currentConversationId) return;
 
         // If streaming, show confirmation
-        if (isStreaming) {
+        if (isStreamingHere) {
             const confirmed = await confirmSwitchConversation(id);
             if (!confirmed) return;
             await cancelStreaming();
@@ -103,6 +109,14 @@ export function Sidebar({
                     <Ionicons name="add" size={22} color="#FFFFFF" />
                 </TouchableOpacity>
 
+                {/* Search button */}
+                <TouchableOpacity
+                    onPress={() => onNavigate('search')}
+                    style={styles.collapsedButton}
+                >
+                    <Ionicons name="search-outline" size={20} color={colors.text} />
+                </TouchableOpacity>
+
                 {/* Spacer */}
                 <View style={styles.collapsedSpacer} />
 
@@ -128,9 +142,18 @@ export function Sidebar({
             {/* Header - ModelFlux left, sidebar toggle right */}
             <View style={styles.header}>
                 <Text style={[styles.title, { color: colors.text }]}>{t('app.name')}</Text>
-                <TouchableOpacity onPress={onToggleCollapse} style={styles.toggleButton}>
-                    <Ionicons name="chevron-back-outline" size={20} color={colors.textMuted} />
-                </TouchableOpacity>
+                <View style={styles.headerActions}>
+                    <TouchableOpacity
+                        onPress={() => onNavigate('search')}
+                        style={styles.toggleButton}
+                        accessibilityLabel={t('sidebar.search')}
+                    >
+                        <Ionicons name="search-outline" size={20} color={colors.textMuted} />
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={onToggleCollapse} style={styles.toggleButton}>
+                        <Ionicons name="chevron-back-outline" size={20} color={colors.textMuted} />
+                    </TouchableOpacity>
+                </View>
             </View>
 
             {/* New Chat Button - below header */}
@@ -142,6 +165,8 @@ export function Sidebar({
                 selectedId={currentConversationId}
                 onSelect={handleSelectConversation}
                 onDelete={deleteConversation}
+                onRegenerateTitle={(id) => generateTitle(id)}
+                generatingTitleIds={generatingTitleIds}
             />
 
             {/* User Info / Settings */}
@@ -182,6 +207,10 @@ const styles = StyleSheet.create({
         paddingHorizontal: Spacing.md,
         paddingVertical: Spacing.sm,
     },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
     toggleButton: {
         padding: Spacing.sm,
         borderRadius: BorderRadius.md,
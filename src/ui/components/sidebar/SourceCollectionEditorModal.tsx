@@ -0,0 +1,228 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    useWindowDimensions,
+    View,
+} from 'react-native';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { SourceCollection } from '../../../core/types';
+import { useProviderConfigStore, useSourceCollectionStore } from '../../../state';
+import { useAppColorScheme, useLocale } from '../../hooks';
+import { Button, Dropdown, Input } from '../common';
+
+interface SourceCollectionEditorModalProps {
+    visible: boolean;
+    /** Collection to edit; undefined creates a new one */
+    collection?: SourceCollection;
+    /** Called with the saved collection, or null after deletion */
+    onSaved: (collection: SourceCollection | null) => void;
+    onClose: () => void;
+}
+
+/**
+ * Create, rename, bind a RAG config to, or delete a source collection
+ */
+export function SourceCollectionEditorModal({
+    visible,
+    collection,
+    onSaved,
+    onClose,
+}: SourceCollectionEditorModalProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { width, height } = useWindowDimensions();
+
+    const { createCollection, updateCollection, deleteCollection } = useSourceCollectionStore();
+    const { configs, loadConfigs } = useProviderConfigStore();
+
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [ragConfigId, setRagConfigId] = useState('');
+
+    // Reset the form each time the panel opens
+    useEffect(() => {
+        if (visible) {
+            loadConfigs();
+            setName(collection?.name ?? '');
+            setDescription(collection?.description ?? '');
+            setRagConfigId(collection?.ragConfigId ?? '');
+        }
+    }, [visible]);
+
+    const ragConfigOptions = [
+        { label: t('sources.collections.defaultConfig'), value: '' },
+        ...configs
+            .filter((c) => c.provider !== 'none')
+            .map((c) => ({ label: c.name, value: c.id })),
+    ];
+
+    const handleSave = async () => {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            Alert.alert(t('common.error'), t('sources.collections.nameRequired'));
+            return;
+        }
+
+        const fields = {
+            name: trimmedName,
+            description: description.trim() || undefined,
+            ragConfigId: ragConfigId || undefined,
+        };
+
+        if (collection) {
+            const updated = { ...collection, ...fields };
+            await updateCollection(updated);
+            onSaved(updated);
+        } else {
+            const created = await createCollection({ ...fields, sourceIds: [] });
+            if (created) onSaved(created);
+        }
+        onClose();
+    };
+
+    const handleDelete = () => {
+        if (!collection) return;
+        Alert.alert(
+            t('sources.collections.delete.title'),
+            t('sources.collections.delete.confirm', { name: collection.name }),
+            [
+                { text: t('common.cancel'), style: 'cancel' },
+                {
+                    text: t('common.delete'),
+                    style: 'destructive',
+                    onPress: async () => {
+                        await deleteCollection(collection.id);
+                        onSaved(null);
+                        onClose();
+                    },
+                },
+            ]
+        );
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity
+                style={styles.modalOverlay}
+                activeOpacity={1}
+                onPress={onClose}
+            >
+                <View
+                    style={[
+                        styles.modalContent,
+                        {
+                            backgroundColor: colors.cardBackground,
+                            width: Math.min(width - 32, 440),
+                            maxHeight: height * 0.8,
+                        },
+                    ]}
+                    onStartShouldSetResponder={() => true}
+                >
+                    <View style={[styles.modalHeader, { borderBottomColor: colors.border }]}>
+                        <Text style={[styles.modalTitle, { color: colors.text }]}>
+                            {collection ? t('sources.collections.edit') : t('sources.collections.new')}
+                        </Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+                        <Input
+                            label={t('sources.collections.name')}
+                            value={name}
+                            onChangeText={setName}
+                            placeholder={t('sources.collections.namePlaceholder')}
+                        />
+                        <Input
+                            label={t('sources.collections.description')}
+                            value={description}
+                            onChangeText={setDescription}
+                        />
+                        <Dropdown
+                            label={t('sources.collections.ragConfig')}
+                            value={ragConfigId}
+                            options={ragConfigOptions}
+                            onSelect={setRagConfigId}
+                        />
+                        <Text style={[styles.hint, { color: colors.textMuted }]}>
+                            {t('sources.collections.ragConfigHint')}
+                        </Text>
+                    </ScrollView>
+
+                    <View style={[styles.actions, { borderTopColor: colors.border }]}>
+                        {collection && (
+                            <Button
+                                title={t('common.delete')}
+                                onPress={handleDelete}
+                                variant="danger"
+                                style={styles.actionButton}
+                            />
+                        )}
+                        <Button
+                            title={t('common.save')}
+                            onPress={handleSave}
+                            style={styles.actionButton}
+                        />
+                    </View>
+                </View>
+            </TouchableOpacity>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContent: {
+        borderRadius: BorderRadius.lg,
+        overflow: 'hidden',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    modalTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    body: {
+        padding: Spacing.md,
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+        marginTop: Spacing.xs,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderTopWidth: 1,
+    },
+    actionButton: {
+        flex: 1,
+    },
+});
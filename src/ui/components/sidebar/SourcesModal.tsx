@@ -5,6 +5,7 @@ import {
     ActivityIndicator,
     Alert,
     Modal,
+    ScrollView,
     StyleSheet,
     Text,
     TouchableOpacity,
@@ -12,15 +13,18 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { BorderRadius, Colors, FontSizes, Spacing } from '../../../config/theme';
+import { getSupportedMimeTypes } from '../../../core/rag/extractors';
 import { processSource } from '../../../core/rag/sourceProcessor';
 import { sourceRepository } from '../../../core/storage';
-import { Source } from '../../../core/types';
+import { Source, SourceCollection } from '../../../core/types';
 import {
     useRAGRuntimeStore,
+    useSourceCollectionStore,
     useSourceStore
 } from '../../../state';
 import { useAppColorScheme, useLocale } from '../../hooks';
 import { VirtualizedList } from '../common';
+import { SourceCollectionEditorModal } from './SourceCollectionEditorModal';
 
 interface SourcesModalProps {
     visible: boolean;
@@ -34,6 +38,12 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
 
     // Source store (persistence only)
     const { sources, isLoading, loadSources, deleteSource } = useSourceStore();
+    const {
+        collections,
+        loadCollections,
+        addSourceToCollection,
+        removeSourceFromCollection,
+    } = useSourceCollectionStore();
 
     // RAG Runtime store
     const {
@@ -50,6 +60,12 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
 
     const [initError, setInitError] = useState<string | null>(null);
     const [isAddingSource, setIsAddingSource] = useState(false);
+    // Collection being viewed; null shows all documents
+    const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+    const [showCollectionEditor, setShowCollectionEditor] = useState(false);
+    const [editingCollection, setEditingCollection] = useState<SourceCollection | undefined>(undefined);
+
+    const selectedCollection = collections.find((c) => c.id === selectedCollectionId);
 
     // Derived state
     const isInitializing = status === 'initializing';
@@ -68,6 +84,7 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
         if (visible) {
             const initializeModal = async () => {
                 loadSources();
+                loadCollections();
 
                 // Load persisted tracking state first
                 await loadPersistedState();
@@ -89,7 +106,7 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
 
             initializeModal();
         }
-    }, [visible, status, ensureReady, loadSources, loadPersistedState]);
+    }, [visible, status, ensureReady, loadSources, loadCollections, loadPersistedState]);
 
     // Handle reprocessing sources with current model
     const handleReprocess = async () => {
@@ -108,9 +125,9 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
         }
 
         try {
-            // Restrict to PDF and text files only
+            // Restrict to formats with a registered extractor
             const result = await DocumentPicker.getDocumentAsync({
-                type: ['application/pdf', 'text/plain'],
+                type: getSupportedMimeTypes(),
                 copyToCacheDirectory: true,
             });
 
@@ -126,13 +143,18 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
                 name: file.name || 'Untitled',
                 uri: file.uri,
                 fileSize: file.size || 0,
-                mimeType: file.mimeType || 'application/pdf',
+                mimeType: file.mimeType || 'application/octet-stream',
                 addedAt: Date.now(),
             };
 
             // Save to repository first
             const savedSource = await sourceRepository.create(sourceData);
 
+            // Documents added while viewing a collection join it
+            if (selectedCollection) {
+                await addSourceToCollection(selectedCollection.id, savedSource.id);
+            }
+
             // Reload sources to show the new one
             loadSources();
 
@@ -171,8 +193,34 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
         );
     };
 
+    const handleToggleMembership = (source: Source) => {
+        if (!selectedCollection) return;
+        if (selectedCollection.sourceIds.includes(source.id)) {
+            removeSourceFromCollection(selectedCollection.id, source.id);
+        } else {
+            addSourceToCollection(selectedCollection.id, source.id);
+        }
+    };
+
+    const openCollectionEditor = (collection?: SourceCollection) => {
+        setEditingCollection(collection);
+        setShowCollectionEditor(true);
+    };
+
     const renderSource = ({ item }: { item: Source }) => (
         <View style={[styles.sourceItem, { backgroundColor: colors.backgroundSecondary }]}>
+            {selectedCollection && (
+                <TouchableOpacity
+                    onPress={() => handleToggleMembership(item)}
+                    style={styles.memberCheckbox}
+                >
+                    <Ionicons
+                        name={selectedCollection.sourceIds.includes(item.id) ? 'checkbox' : 'square-outline'}
+                        size={24}
+                        color={selectedCollection.sourceIds.includes(item.id) ? colors.tint : colors.textMuted}
+                    />
+                </TouchableOpacity>
+            )}
             <View style={styles.sourceIcon}>
                 <Ionicons name="document-text" size={24} color={colors.tint} />
             </View>
@@ -197,6 +245,51 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
         </View>
     );
 
+    const renderCollectionChip = (label: string, isSelected: boolean, onPress: () => void, key: string) => (
+        <TouchableOpacity
+            key={key}
+            onPress={onPress}
+            style={[
+                styles.chip,
+                {
+                    backgroundColor: isSelected ? colors.tint : colors.backgroundSecondary,
+                    borderColor: isSelected ? colors.tint : colors.border,
+                },
+            ]}
+        >
+            <Text style={[styles.chipText, { color: isSelected ? '#FFFFFF' : colors.text }]} numberOfLines={1}>
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    const renderCollections = () => (
+        <View style={[styles.collectionsBar, { borderBottomColor: colors.border }]}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                {renderCollectionChip(t('sources.collections.all'), !selectedCollection, () => setSelectedCollectionId(null), 'all')}
+                {collections.map((c) =>
+                    renderCollectionChip(c.name, c.id === selectedCollectionId, () => setSelectedCollectionId(c.id), c.id)
+                )}
+                <TouchableOpacity
+                    onPress={() => openCollectionEditor()}
+                    style={[styles.chip, { borderColor: colors.border }]}
+                >
+                    <Ionicons name="add" size={16} color={colors.tint} />
+                </TouchableOpacity>
+            </ScrollView>
+            {selectedCollection && (
+                <View style={styles.collectionInfo}>
+                    <Text style={[styles.collectionInfoText, { color: colors.textMuted }]} numberOfLines={2}>
+                        {selectedCollection.description || t('sources.collections.membershipHint')}
+                    </Text>
+                    <TouchableOpacity onPress={() => openCollectionEditor(selectedCollection)} style={styles.deleteButton}>
+                        <Ionicons name="create-outline" size={20} color={colors.tint} />
+                    </TouchableOpacity>
+                </View>
+            )}
+        </View>
+    );
+
     const renderEmpty = () => (
         <View style={styles.emptyContainer}>
             <Ionicons name="documents-outline" size={64} color={colors.textMuted} />
@@ -312,6 +405,9 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
                 {/* Initialization Status */}
                 {renderInitStatus()}
 
+                {/* Collections */}
+                {renderCollections()}
+
                 {/* Content */}
                 {isLoading ? (
                     <View style={styles.loadingContainer}>
@@ -320,6 +416,7 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
                 ) : (
                     <VirtualizedList<Source>
                         data={sources}
+                        extraData={selectedCollection}
                         renderItem={renderSource}
                         keyExtractor={(item) => item.id.toString()}
                         contentContainerStyle={styles.listContent}
@@ -335,6 +432,13 @@ export function SourcesModal({ visible, onClose }: SourcesModalProps) {
                     </View>
                 )}
             </SafeAreaView>
+
+            <SourceCollectionEditorModal
+                visible={showCollectionEditor}
+                collection={editingCollection}
+                onSaved={(saved) => setSelectedCollectionId(saved?.id ?? null)}
+                onClose={() => setShowCollectionEditor(false)}
+            />
         </Modal>
     );
 }
@@ -413,6 +517,40 @@ const styles = StyleSheet.create({
     deleteButton: {
         padding: Spacing.sm,
     },
+    memberCheckbox: {
+        marginRight: Spacing.sm,
+    },
+    collectionsBar: {
+        borderBottomWidth: 1,
+        paddingVertical: Spacing.sm,
+    },
+    chipRow: {
+        paddingHorizontal: Spacing.md,
+        gap: Spacing.sm,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.xs,
+        borderRadius: BorderRadius.full,
+        borderWidth: 1,
+        maxWidth: 180,
+    },
+    chipText: {
+        fontSize: FontSizes.sm,
+        fontWeight: '500',
+    },
+    collectionInfo: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: Spacing.md,
+        paddingTop: Spacing.xs,
+    },
+    collectionInfoText: {
+        flex: 1,
+        fontSize: FontSizes.sm,
+    },
     emptyContainer: {
         flex: 1,
         justifyContent: 'center',
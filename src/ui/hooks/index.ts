@@ -1,5 +1,7 @@
 export { useAppColorScheme } from './useAppColorScheme';
 export { useLocale } from './useLocale';
+export { getLlamaCppContextSize, getModelMemoryInput, useModelFit } from './useModelFit';
 export { useModelSelection } from './useModelSelection';
 export type { LocalModelState, UseModelSelectionReturn } from './useModelSelection';
-
+export { usePromptCommand } from './usePromptCommand';
+export type { PendingPromptTemplate } from './usePromptCommand';
@@ -0,0 +1,78 @@
+/**
+ * useModelFit Hook
+ *
+ * Checks local models against the device's RAM and free storage.
+ * The context size comes from the llama-cpp provider config, matching what
+ * useLlamaCppLLMStore.loadModel passes to initLlama.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { DownloadableModel } from '../../config/downloadableModels';
+import {
+    checkModelFit,
+    DEFAULT_LLAMA_CPP_CONTEXT,
+    DeviceResources,
+    findQuantization,
+    FitResult,
+    ModelMemoryInput,
+    parseParameterCount,
+    parseSizeString,
+} from '../../core/llm';
+import { DownloadedModel, LLMConfig } from '../../core/types';
+import { useLLMStore } from '../../state';
+import { getDeviceResources } from '../../utils';
+
+/**
+ * Context size the llama-cpp provider will load models with
+ */
+export function getLlamaCppContextSize(configs: LLMConfig[]): number {
+    return configs.find((c) => c.provider === 'llama-cpp')?.llamaCppConfig?.nCtx
+        || DEFAULT_LLAMA_CPP_CONTEXT;
+}
+
+/**
+ * Build estimator input for a catalog or downloaded model.
+ * Only llama.cpp LLMs take the configured context; other models use the default.
+ */
+export function getModelMemoryInput(
+    model: DownloadableModel | DownloadedModel,
+    nCtx: number
+): ModelMemoryInput {
+    const isDownloaded = 'modelFilePath' in model;
+    const fileSize = isDownloaded && model.downloadedSize > 0
+        ? model.downloadedSize
+        : parseSizeString(isDownloaded ? model.sizeEstimate : model.size);
+    const fileName = isDownloaded ? model.modelFilePath : model.assets.model;
+
+    return {
+        fileSize,
+        parameters: isDownloaded ? undefined : parseParameterCount(model.params),
+        quantization: findQuantization(fileName.split('/').pop()),
+        nCtx: model.provider === 'llama-cpp' && model.type === 'llm' ? nCtx : DEFAULT_LLAMA_CPP_CONTEXT,
+    };
+}
+
+export function useModelFit() {
+    const { configs } = useLLMStore();
+    const [resources, setResources] = useState<DeviceResources | null>(null);
+
+    useEffect(() => {
+        getDeviceResources().then(setResources);
+    }, []);
+
+    const nCtx = getLlamaCppContextSize(configs);
+
+    /**
+     * Check a model; null until device resources are known
+     * @param needsDownload - Also check free storage for the download
+     */
+    const checkFit = useCallback((
+        model: DownloadableModel | DownloadedModel,
+        needsDownload = false
+    ): FitResult | null => {
+        if (!resources) return null;
+        return checkModelFit(getModelMemoryInput(model, nCtx), resources, needsDownload);
+    }, [resources, nCtx]);
+
+    return { resources, nCtx, checkFit };
+}
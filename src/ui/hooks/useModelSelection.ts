@@ -9,9 +9,11 @@
  * - Model filtering by provider type (executorch, llama-cpp, remote)
  * - Ollama model classification (completion vs embedding)
  * - Model loading dispatch to the correct store
+ * - Memory fit warning (with a smaller context suggestion) before loading
  */
 
 import { useCallback, useEffect, useMemo } from 'react';
+import { checkModelFit, formatGigabytes } from '../../core/llm';
 import { DownloadedModel, LLMConfig, LLMProviderKey, Persona } from '../../core/types';
 import {
     isLocalProvider,
@@ -22,6 +24,9 @@ import {
     useOllamaModelStore,
     usePersonaStore,
 } from '../../state';
+import { getDeviceResources, showAlert } from '../../utils';
+import { useLocale } from './useLocale';
+import { getLlamaCppContextSize, getModelMemoryInput } from './useModelFit';
 
 export interface LocalModelState {
     isLoading: boolean;
@@ -67,7 +72,9 @@ export function useModelSelection(): UseModelSelectionReturn {
         fetchModels,
         isLoadingModels,
         getConfigById,
+        updateConfig,
     } = useLLMStore();
+    const { t } = useLocale();
 
     // Downloaded models store
     const { downloadedModels, loadDownloadedModels } = useModelDownloadStore();
@@ -173,7 +180,7 @@ export function useModelSelection(): UseModelSelectionReturn {
     }, [downloadedModels]);
 
     // Load a local model using the correct store
-    const loadLocalModel = useCallback((downloadedModel: DownloadedModel) => {
+    const startLocalModelLoad = useCallback((downloadedModel: DownloadedModel) => {
         console.log('[useModelSelection] Loading local model:', downloadedModel.name, 'provider:', downloadedModel.provider);
 
         if (downloadedModel.provider === 'llama-cpp') {
@@ -183,6 +190,46 @@ export function useModelSelection(): UseModelSelectionReturn {
         }
     }, [loadLlamaCppModel, loadExecutorchModel]);
 
+    // Warn first when the model likely won't fit in memory at the configured context
+    const loadLocalModel = useCallback(async (downloadedModel: DownloadedModel) => {
+        const input = getModelMemoryInput(downloadedModel, getLlamaCppContextSize(configs));
+        const result = checkModelFit(input, await getDeviceResources());
+
+        if (result.fit === 'fits' || !result.usableMemory) {
+            startLocalModelLoad(downloadedModel);
+            return;
+        }
+
+        const llamaCppConfig = configs.find((c) => c.provider === 'llama-cpp');
+        const suggestedNCtx = downloadedModel.provider === 'llama-cpp' && llamaCppConfig
+            ? result.suggestedNCtx
+            : undefined;
+        const message = t(result.fit === 'tight' ? 'models.fit.loadWarning.tight' : 'models.fit.loadWarning.wontFit', {
+            name: downloadedModel.name,
+            required: formatGigabytes(result.estimate.totalBytes),
+            available: formatGigabytes(result.usableMemory),
+        });
+
+        showAlert(t('models.fit.loadWarning.title'), message, [
+            { text: t('common.cancel'), style: 'cancel' },
+            ...(suggestedNCtx && llamaCppConfig ? [{
+                text: t('models.fit.useContext', { nCtx: suggestedNCtx }),
+                onPress: async () => {
+                    await updateConfig({
+                        ...llamaCppConfig,
+                        llamaCppConfig: { ...llamaCppConfig.llamaCppConfig, nCtx: suggestedNCtx },
+                    });
+                    startLocalModelLoad(downloadedModel);
+                },
+            }] : []),
+            {
+                text: t('models.fit.loadAnyway'),
+                style: 'destructive',
+                onPress: () => startLocalModelLoad(downloadedModel),
+            },
+        ]);
+    }, [configs, updateConfig, startLocalModelLoad, t]);
+
     // Fetch models for a remote config - memoized to prevent infinite loops
     const fetchModelsForConfig = useCallback(async (configId: string) => {
         const config = getConfigById(configId);
@@ -0,0 +1,113 @@
+/**
+ * usePromptCommand Hook
+ *
+ * Slash commands for the message input: typing "/" followed by a template name
+ * at the end of the message lists matching prompt templates. Picking one replaces
+ * the command with the rendered template, after asking for any variables that
+ * can't be filled in automatically.
+ */
+
+import * as Clipboard from 'expo-clipboard';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    getMissingVariables,
+    getTemplateCommand,
+    renderTemplate,
+    resolveBuiltInVariables,
+} from '../../core/prompts';
+import { PromptTemplate } from '../../core/types';
+import { usePromptTemplateStore } from '../../state';
+
+// "/command" at the end of the text, at the start or after whitespace
+const COMMAND_PATTERN = /(^|\s)\/([\w-]*)$/;
+
+const MAX_COMMAND_MATCHES = 6;
+
+export interface PendingPromptTemplate {
+    template: PromptTemplate;
+    /** Values resolved so far (built-ins) */
+    values: Record<string, string>;
+    /** Variables still to ask for */
+    missing: string[];
+    /** Where the slash command starts in the input */
+    commandStart: number;
+}
+
+export function usePromptCommand(value: string, onChange: (text: string) => void) {
+    const { templates, loadTemplates } = usePromptTemplateStore();
+    const [pending, setPending] = useState<PendingPromptTemplate | null>(null);
+    const [dismissedValue, setDismissedValue] = useState<string | null>(null);
+
+    // Latest text for callbacks that resolve after awaiting the clipboard
+    const valueRef = useRef(value);
+    valueRef.current = value;
+
+    // Typing "/" over a selection replaces it, so keep the last selected text for {{selection}}
+    const selectedTextRef = useRef('');
+
+    useEffect(() => {
+        loadTemplates();
+    }, []);
+
+    const commandMatch = value.match(COMMAND_PATTERN);
+    const query = commandMatch?.[2]?.toLowerCase();
+    const matches = commandMatch && dismissedValue !== value
+        ? templates
+            .filter((t) => getTemplateCommand(t.name).includes(query!) || t.name.toLowerCase().includes(query!))
+            .slice(0, MAX_COMMAND_MATCHES)
+        : [];
+
+    const onSelectionChange = useCallback((selection: { start: number; end: number }) => {
+        if (selection.end > selection.start) {
+            selectedTextRef.current = valueRef.current.slice(selection.start, selection.end);
+        }
+    }, []);
+
+    const applyTemplate = (template: PromptTemplate, values: Record<string, string>, commandStart: number) => {
+        onChange(valueRef.current.slice(0, commandStart) + renderTemplate(template.content, values));
+        selectedTextRef.current = '';
+    };
+
+    const selectTemplate = async (template: PromptTemplate) => {
+        const match = valueRef.current.match(COMMAND_PATTERN);
+        if (!match) return;
+        const commandStart = match.index! + match[1]!.length;
+
+        let clipboard: string | undefined;
+        if (template.content.includes('clipboard')) {
+            try {
+                clipboard = await Clipboard.getStringAsync();
+            } catch (error) {
+                console.warn('[PromptCommand] Failed to read clipboard:', error);
+            }
+        }
+
+        const values = resolveBuiltInVariables({ clipboard, selection: selectedTextRef.current });
+        const missing = getMissingVariables(template.content, values);
+
+        if (missing.length > 0) {
+            setPending({ template, values, missing, commandStart });
+        } else {
+            applyTemplate(template, values, commandStart);
+        }
+    };
+
+    const submitVariables = (values: Record<string, string>) => {
+        if (!pending) return;
+        applyTemplate(pending.template, { ...pending.values, ...values }, pending.commandStart);
+        setPending(null);
+    };
+
+    return {
+        /** Templates matching the slash command being typed */
+        commandMatches: matches,
+        isMenuVisible: matches.length > 0,
+        selectTemplate,
+        /** Hide the picker until the text changes */
+        dismissMenu: () => setDismissedValue(value),
+        onSelectionChange,
+        pending,
+        submitVariables,
+        cancelVariables: () => setPending(null),
+    };
+}
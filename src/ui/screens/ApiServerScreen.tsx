@@ -0,0 +1,399 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    FlatList,
+    Platform,
+    StyleSheet,
+    Switch,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../config/theme';
+import { formatDuration } from '../../core/llm/generationMetrics';
+import { useApiServerStore, useSettingsStore } from '../../state';
+import type { ApiRequestLogEntry } from '../../state/apiServerStore';
+import { showConfirm, showError } from '../../utils/alert';
+import { Input, ResponsiveContainer } from '../components/common';
+import { useAppColorScheme, useLocale } from '../hooks';
+
+interface ApiServerScreenProps {
+    onBack: () => void;
+}
+
+const MIN_PORT = 1024;
+const MAX_PORT = 65535;
+
+const MONOSPACE = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+/**
+ * Local OpenAI-compatible API server: start/stop, connection details and request log
+ */
+export function ApiServerScreen({ onBack }: ApiServerScreenProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { apiServer } = useSettingsStore((state) => state.settings);
+    const {
+        isSupported,
+        isRunning,
+        isStarting,
+        address,
+        requests,
+        error,
+        start,
+        stop,
+        setPort,
+        regenerateApiKey,
+        clearLog,
+        clearError,
+    } = useApiServerStore();
+
+    const [port, setPortText] = useState(String(apiServer.port));
+    const [showKey, setShowKey] = useState(false);
+
+    useEffect(() => {
+        setPortText(String(apiServer.port));
+    }, [apiServer.port]);
+
+    useEffect(() => {
+        if (error) {
+            showError(t('apiServer.startFailed'), error);
+            clearError();
+        }
+    }, [error]);
+
+    const baseUrl = `http://${address ?? '<device-ip>'}:${apiServer.port}/v1`;
+
+    const handlePortBlur = () => {
+        const value = parseInt(port, 10);
+        if (Number.isNaN(value) || value < MIN_PORT || value > MAX_PORT) {
+            showError(t('common.error'), t('apiServer.portInvalid', { min: MIN_PORT, max: MAX_PORT }));
+            setPortText(String(apiServer.port));
+            return;
+        }
+        if (value !== apiServer.port) setPort(value);
+    };
+
+    const handleToggle = (enabled: boolean) => {
+        if (enabled) start();
+        else stop();
+    };
+
+    const handleRegenerateKey = async () => {
+        const confirmed = await showConfirm(
+            t('apiServer.regenerateKey'),
+            t('apiServer.regenerateKeyConfirm'),
+            t('apiServer.regenerate'),
+            t('common.cancel'),
+            true
+        );
+        if (confirmed) await regenerateApiKey();
+    };
+
+    const statusText = isStarting
+        ? t('apiServer.starting')
+        : isRunning
+            ? address ? t('apiServer.running', { port: apiServer.port }) : t('apiServer.runningOffline')
+            : t('apiServer.stopped');
+
+    const renderCopyButton = (value: string) => (
+        <TouchableOpacity onPress={() => Clipboard.setStringAsync(value)} style={styles.iconButton}>
+            <Ionicons name="copy-outline" size={18} color={colors.tint} />
+        </TouchableOpacity>
+    );
+
+    const renderRequest = ({ item }: { item: ApiRequestLogEntry }) => {
+        const isPending = item.status === undefined;
+        const statusColor = isPending
+            ? colors.textMuted
+            : item.status! < 300
+                ? colors.success
+                : item.status === 429
+                    ? colors.warning
+                    : colors.error;
+        const details = [
+            item.model,
+            item.remoteAddress,
+            item.durationMs !== undefined ? formatDuration(item.durationMs) : undefined,
+            item.completionTokens !== undefined
+                ? t('apiServer.log.tokens', { prompt: item.promptTokens ?? 0, completion: item.completionTokens })
+                : undefined,
+        ].filter(Boolean).join(' • ');
+
+        return (
+            <View style={[styles.logEntry, { borderBottomColor: colors.border }]}>
+                <View style={styles.logHeader}>
+                    {isPending ? (
+                        <ActivityIndicator size="small" color={colors.tint} />
+                    ) : (
+                        <Text style={[styles.logStatus, { color: statusColor }]}>{item.status}</Text>
+                    )}
+                    <Text style={[styles.logPath, { color: colors.text }]} numberOfLines={1}>
+                        {item.method} {item.path}{item.stream ? ` (${t('apiServer.log.stream')})` : ''}
+                    </Text>
+                    <Text style={[styles.logTime, { color: colors.textMuted }]}>
+                        {new Date(item.startedAt).toLocaleTimeString()}
+                    </Text>
+                </View>
+                {!!details && (
+                    <Text style={[styles.logDetails, { color: colors.textMuted }]} numberOfLines={1}>
+                        {details}
+                    </Text>
+                )}
+                {!!item.error && (
+                    <Text style={[styles.logDetails, { color: colors.error }]} numberOfLines={2}>
+                        {item.error}
+                    </Text>
+                )}
+            </View>
+        );
+    };
+
+    const renderSettings = () => (
+        <View>
+            <Text style={[styles.hint, { color: colors.textMuted }]}>{t('apiServer.hint')}</Text>
+
+            <View style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+                <View style={styles.row}>
+                    <View style={styles.rowInfo}>
+                        <Text style={[styles.rowLabel, { color: colors.text }]}>{t('apiServer.enabled')}</Text>
+                        <Text style={[styles.rowDescription, { color: colors.textMuted }]} selectable>
+                            {statusText}
+                        </Text>
+                    </View>
+                    {isStarting ? (
+                        <ActivityIndicator size="small" color={colors.tint} />
+                    ) : (
+                        <Switch
+                            value={isRunning}
+                            onValueChange={handleToggle}
+                            trackColor={{ false: colors.border, true: colors.tint + '80' }}
+                            thumbColor={isRunning ? colors.tint : colors.background}
+                        />
+                    )}
+                </View>
+
+                {isRunning && !!address && (
+                    <View style={[styles.row, styles.fieldRow, { borderTopColor: colors.border }]}>
+                        <View style={styles.rowInfo}>
+                            <Text style={[styles.rowLabel, { color: colors.text }]}>{t('apiServer.baseUrl')}</Text>
+                            <Text style={[styles.mono, { color: colors.textSecondary }]} selectable>{baseUrl}</Text>
+                        </View>
+                        {renderCopyButton(baseUrl)}
+                    </View>
+                )}
+
+                <View style={[styles.fieldRow, { borderTopColor: colors.border }]}>
+                    <Input
+                        label={t('apiServer.port')}
+                        value={port}
+                        onChangeText={setPortText}
+                        onBlur={handlePortBlur}
+                        keyboardType="number-pad"
+                        disabled={isRunning || isStarting}
+                        hint={isRunning ? t('apiServer.portHintRunning') : undefined}
+                        containerStyle={styles.portInput}
+                    />
+                </View>
+
+                <View style={[styles.row, styles.fieldRow, { borderTopColor: colors.border }]}>
+                    <View style={styles.rowInfo}>
+                        <Text style={[styles.rowLabel, { color: colors.text }]}>{t('apiServer.apiKey')}</Text>
+                        <Text style={[styles.mono, { color: colors.textSecondary }]} selectable={showKey} numberOfLines={1}>
+                            {apiServer.apiKey
+                                ? showKey ? apiServer.apiKey : '•'.repeat(24)
+                                : t('apiServer.apiKeyPending')}
+                        </Text>
+                    </View>
+                    {!!apiServer.apiKey && (
+                        <>
+                            <TouchableOpacity onPress={() => setShowKey(!showKey)} style={styles.iconButton}>
+                                <Ionicons name={showKey ? 'eye-off-outline' : 'eye-outline'} size={18} color={colors.tint} />
+                            </TouchableOpacity>
+                            {renderCopyButton(apiServer.apiKey)}
+                            <TouchableOpacity onPress={handleRegenerateKey} style={styles.iconButton}>
+                                <Ionicons name="refresh" size={18} color={colors.tint} />
+                            </TouchableOpacity>
+                        </>
+                    )}
+                </View>
+            </View>
+
+            <View style={styles.logTitleRow}>
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('apiServer.log.title')}</Text>
+                {requests.length > 0 && (
+                    <TouchableOpacity onPress={clearLog}>
+                        <Text style={[styles.clearText, { color: colors.tint }]}>{t('apiServer.log.clear')}</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+            {/* Header */}
+            <View style={[styles.header, { borderBottomColor: colors.border }]}>
+                <TouchableOpacity onPress={onBack} style={styles.headerButton}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.title, { color: colors.text }]}>{t('apiServer.title')}</Text>
+                <View style={styles.headerButton} />
+            </View>
+
+            {!isSupported ? (
+                <ResponsiveContainer>
+                    <View style={styles.emptyState}>
+                        <Ionicons name="server-outline" size={64} color={colors.textMuted} />
+                        <Text style={[styles.emptyDescription, { color: colors.textMuted }]}>
+                            {t('apiServer.unsupported')}
+                        </Text>
+                    </View>
+                </ResponsiveContainer>
+            ) : (
+                <FlatList
+                    data={requests}
+                    keyExtractor={(item) => item.id}
+                    renderItem={renderRequest}
+                    ListHeaderComponent={renderSettings()}
+                    ListEmptyComponent={
+                        <Text style={[styles.emptyLog, { color: colors.textMuted }]}>{t('apiServer.log.empty')}</Text>
+                    }
+                    contentContainerStyle={styles.contentContainer}
+                />
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.md,
+        borderBottomWidth: 1,
+    },
+    headerButton: {
+        padding: Spacing.xs,
+        minWidth: 32,
+    },
+    title: {
+        fontSize: FontSizes.xl,
+        fontWeight: '600',
+    },
+    contentContainer: {
+        padding: Spacing.md,
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+        marginBottom: Spacing.md,
+    },
+    card: {
+        borderRadius: BorderRadius.lg,
+        borderWidth: 1,
+        marginBottom: Spacing.lg,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+    },
+    fieldRow: {
+        borderTopWidth: 1,
+        paddingHorizontal: Spacing.md,
+        paddingTop: Spacing.md,
+    },
+    rowInfo: {
+        flex: 1,
+    },
+    rowLabel: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    rowDescription: {
+        fontSize: FontSizes.sm,
+        marginTop: 2,
+    },
+    mono: {
+        fontSize: FontSizes.sm,
+        fontFamily: MONOSPACE,
+        marginTop: 2,
+    },
+    portInput: {
+        maxWidth: 160,
+    },
+    iconButton: {
+        padding: Spacing.xs,
+    },
+    logTitleRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: Spacing.xs,
+    },
+    sectionTitle: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+    },
+    clearText: {
+        fontSize: FontSizes.sm,
+        fontWeight: '500',
+    },
+    logEntry: {
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+    },
+    logHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+    },
+    logStatus: {
+        fontSize: FontSizes.sm,
+        fontWeight: '700',
+        fontFamily: MONOSPACE,
+        minWidth: 28,
+    },
+    logPath: {
+        flex: 1,
+        fontSize: FontSizes.sm,
+        fontFamily: MONOSPACE,
+    },
+    logTime: {
+        fontSize: FontSizes.xs,
+        fontVariant: ['tabular-nums'],
+    },
+    logDetails: {
+        fontSize: FontSizes.xs,
+        marginTop: 2,
+        marginLeft: 28 + Spacing.sm,
+    },
+    emptyLog: {
+        fontSize: FontSizes.sm,
+        textAlign: 'center',
+        paddingVertical: Spacing.lg,
+    },
+    emptyState: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: Spacing.xl,
+    },
+    emptyDescription: {
+        fontSize: FontSizes.md,
+        textAlign: 'center',
+        marginTop: Spacing.sm,
+        maxWidth: 280,
+    },
+});
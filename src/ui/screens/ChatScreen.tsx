@@ -7,14 +7,17 @@
 
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import { useEffect, useState } from 'react';
-import { ActivityIndicator, Keyboard, KeyboardAvoidingView, Modal, Platform, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Keyboard, KeyboardAvoidingView, Modal, Platform, Pressable, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
 import { BorderRadius, Colors, FontSizes, Shadows, Spacing } from '../../config/theme';
-import { ConversationType, DownloadedModel } from '../../core/types';
-import { isLocalProvider, useConversationStore, useLLMStore, useSourceStore } from '../../state';
-import { ChatHeader, MessageInput, MessageList, SourceSelector } from '../components/chat';
+import { supportsImageInput } from '../../core/llm/images';
+import { CompareTarget, ConversationType, DownloadedModel, Message, MessageImage } from '../../core/types';
+import { isLocalProvider, useConversationStore, useLlamaCppLLMStore, useLLMStore, usePersonaStore, useSourceStore } from '../../state';
+import { getCompareColumns, MIN_COMPARE_TARGETS } from '../../state/compareHelpers';
+import { MAX_FALLBACK_TARGETS } from '../../state/fallbackChain';
+import { ChatHeader, LocalModelPickerModal, MessageInput, MessageList, ModelTargetsPicker, ResponseFormatPicker, SourceSelector } from '../components/chat';
 import { ModelPicker } from '../components/common';
-import { useAppColorScheme, useModelSelection } from '../hooks';
+import { useAppColorScheme, useLocale, useModelSelection } from '../hooks';
 
 // Maximum width for chat content on web (similar to ChatGPT/Claude interfaces)
 const MAX_CONTENT_WIDTH = 800;
@@ -36,12 +39,23 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
     const [showSettingsModal, setShowSettingsModal] = useState(false);
     // Source selection for RAG
     const [selectedSourceIds, setSelectedSourceIds] = useState<number[]>([]);
+    // Collections to attach once a new conversation is created
+    const [pendingCollectionIds, setPendingCollectionIds] = useState<string[]>([]);
     const [showSourceSelector, setShowSourceSelector] = useState(false);
+    // Queued message to answer with a local model (picker open while set)
+    const [localModelMessageId, setLocalModelMessageId] = useState<string | null>(null);
     // Conversation type for new conversations
     const [pendingConversationType, setPendingConversationType] = useState<ConversationType>('chat');
+    // Models a new compare conversation sends each prompt to
+    const [pendingCompareTargets, setPendingCompareTargets] = useState<CompareTarget[]>([]);
+    // User message being edited (sending creates a new branch)
+    const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+    // Images attached to the message being composed
+    const [attachments, setAttachments] = useState<MessageImage[]>([]);
 
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
+    const { t } = useLocale();
     const shadows = Shadows[colorScheme];
 
     // Conversation store
@@ -52,15 +66,36 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
         getCurrentConversation,
         getCurrentMessages,
         sendMessage,
+        editMessage,
+        regenerateMessage,
+        switchBranch,
+        clearFocusedMessage,
         cancelStreaming,
         setActiveLLM,
+        setToolsEnabled,
+        setResponseFormat,
+        setGenerationSettings,
+        setCollectionIds,
+        setFallbackTargets,
         updateConversationTitle,
         createConversation,
+        pickCompareAnswer,
+        retryQueuedMessage,
+        sendQueuedMessageTo,
     } = useConversationStore();
 
     // Subscribe to message maps separately to ensure proper reactive updates
     const currentMessageMap = useConversationStore((state) => state.currentMessageMap);
     const currentThinkingMessageMap = useConversationStore((state) => state.currentThinkingMessageMap);
+    const promptTrimMap = useConversationStore((state) => state.promptTrimMap);
+    const focusedMessageId = useConversationStore((state) => state.focusedMessageId);
+    const compareRuns = useConversationStore((state) => state.compareRuns);
+    const isOnline = useConversationStore((state) => state.isOnline);
+    const streamingConversationId = useConversationStore((state) => state.streamingConversationId);
+    // All messages of the conversation (every branch), for branch navigation
+    const allMessages = useConversationStore((state) =>
+        currentConversationId ? state.messages[currentConversationId] : undefined
+    );
 
     // Derive streaming content from the subscribed maps
     const currentStreamingContent = currentConversationId ? (currentMessageMap[currentConversationId] || '') : '';
@@ -95,6 +130,13 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
         }
     }, [enabledConfigs, pendingProviderId, currentConversationId]);
 
+    // Start compare mode with the selected model plus one more slot to fill in
+    useEffect(() => {
+        if (pendingConversationType !== 'compare' || pendingCompareTargets.length > 0 || !pendingProviderId) return;
+        const target: CompareTarget = { providerId: pendingProviderId, modelId: pendingModel || '' };
+        setPendingCompareTargets([target, { ...target }]);
+    }, [pendingConversationType, pendingProviderId]);
+
     // Test provider connections on mount
     useEffect(() => {
         const testProviders = async () => {
@@ -121,11 +163,41 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
         : null;
     const currentMessages = getCurrentMessages();
 
+    // Collections searched on every message (pending until the conversation exists)
+    const attachedCollectionIds = conversation ? (conversation.collectionIds || []) : pendingCollectionIds;
+
     // Get selected provider
     const selectedProvider = pendingProviderId ? getConfigById(pendingProviderId) : undefined;
 
+    // Image input depends on the selected model (llama.cpp needs its multimodal projector loaded)
+    const isLlamaMultimodal = useLlamaCppLLMStore((state) => state.isMultimodal);
+    const canAttachImages = !!selectedProvider && !!pendingModel
+        && supportsImageInput(selectedProvider, pendingModel, isLlamaMultimodal);
+
     // Determine if this is a new conversation (no messages yet)
     const isNewConversation = currentMessages.length === 0;
+    const isCompareConversation = conversation?.type === 'compare';
+
+    // Answers to the latest prompt of a compare conversation, until one is picked
+    const lastMessage = currentMessages[currentMessages.length - 1];
+    const compareColumns = useMemo(() => {
+        if (!conversation || !isCompareConversation || lastMessage?.role !== 'user') return undefined;
+        return getCompareColumns(
+            conversation.compareTargets || [],
+            allMessages || [],
+            lastMessage.id,
+            compareRuns[conversation.id]
+        );
+    }, [conversation, isCompareConversation, lastMessage, allMessages, compareRuns]);
+
+    // Persona defaults for the generation settings panel
+    const personaGenerationSettings = usePersonaStore((state) =>
+        conversation?.personaId ? state.getPersonaById(conversation.personaId)?.generationSettings : undefined
+    );
+    // Persona chain, used while the conversation has none of its own
+    const personaFallbackTargets = usePersonaStore((state) =>
+        conversation?.personaId ? state.getPersonaById(conversation.personaId)?.fallbackTargets : undefined
+    );
 
     // Sync pendingModel and pendingProviderId when switching to conversation
     useEffect(() => {
@@ -159,28 +231,64 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
         }
     }, [conversation, enabledConfigs, localModelState.selectedModelName, localModelState.isReady, getConfigById]);
 
+    // Leave edit mode when switching conversations
+    useEffect(() => {
+        setEditingMessage(null);
+    }, [currentConversationId]);
+
+    const handleEditMessage = (message: Message) => {
+        setEditingMessage(message);
+        setInputValue(message.content);
+        setAttachments(message.images || []);
+    };
+
+    const handleCancelEdit = () => {
+        setEditingMessage(null);
+        setInputValue('');
+        setAttachments([]);
+    };
+
     const handleSend = async () => {
-        if (!inputValue.trim()) return;
+        if (!inputValue.trim() && attachments.length === 0) return;
         const message = inputValue;
         const sourcesToUse = [...selectedSourceIds];
+        const imagesToSend = attachments;
         setInputValue('');
+        setAttachments([]);
         Keyboard.dismiss();
 
+        if (editingMessage) {
+            setEditingMessage(null);
+            await editMessage(editingMessage.id, message, imagesToSend);
+            return;
+        }
+
         if (!currentConversationId) {
             try {
-                await createConversation(pendingProviderId, pendingModel, pendingPersonaId, pendingConversationType);
+                await createConversation(
+                    pendingProviderId,
+                    pendingModel,
+                    pendingPersonaId,
+                    pendingConversationType,
+                    pendingConversationType === 'compare' ? pendingCompareTargets : undefined
+                );
+                if (pendingCollectionIds.length > 0) {
+                    await setCollectionIds(pendingCollectionIds);
+                    setPendingCollectionIds([]);
+                }
                 setPendingProviderId(undefined);
                 setPendingModel(undefined);
                 setPendingPersonaId(undefined);
                 setPendingConversationType('chat');
+                setPendingCompareTargets([]);
                 setTimeout(async () => {
-                    await sendMessage(message, sourcesToUse);
+                    await sendMessage(message, sourcesToUse, imagesToSend);
                 }, 100);
             } catch (error) {
                 console.error('Failed to create conversation:', error);
             }
         } else {
-            await sendMessage(message, sourcesToUse);
+            await sendMessage(message, sourcesToUse, imagesToSend);
         }
     };
 
@@ -196,6 +304,17 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
         // ModelPicker already handles local model loading via its internal hook
     };
 
+    const handleCollectionToggle = (collectionId: string) => {
+        const next = attachedCollectionIds.includes(collectionId)
+            ? attachedCollectionIds.filter((id) => id !== collectionId)
+            : [...attachedCollectionIds, collectionId];
+        if (conversation) {
+            setCollectionIds(next);
+        } else {
+            setPendingCollectionIds(next);
+        }
+    };
+
     const handlePersonaChange = (personaId: string | undefined) => {
         setPendingPersonaId(personaId);
     };
@@ -233,21 +352,34 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
     // Determine if we should show alert in header
     // 1. Local provider + model not loaded/ready
     // 2. Remote provider + no model selected
-    const shouldShowAlert = !isNewConversation && (
+    // (compare conversations load each target's model when it answers)
+    const shouldShowAlert = !isNewConversation && !isCompareConversation && (
         (existingUsesLocalProvider && !localModelState.isReady) ||
         (!existingUsesLocalProvider && !existingConversationModelId)
     );
 
     // Input disabled states
     const isLocalModelLoading_needsLoad = selectedProvider && isLocalProvider(selectedProvider.provider) && !localModelState.isReady && localModelState.isLoading;
-    const isInputDisabled = hasNoLLM || !!isLocalModelLoading_needsLoad || shouldShowAlert;
+    const isComparePending = !conversation && pendingConversationType === 'compare'
+        && pendingCompareTargets.filter((target) => target.providerId && target.modelId).length < MIN_COMPARE_TARGETS;
+    const isInputDisabled = hasNoLLM || !!isLocalModelLoading_needsLoad || shouldShowAlert || isComparePending;
 
     // Loading banner states
     const isNewConversationLocalLoading = selectedProvider && isLocalProvider(selectedProvider.provider) && localModelState.isLoading;
     const isExistingConversationLocalLoading = existingUsesLocalProvider && localModelState.isLoading;
     const showLocalModelLoadingBanner = !!(isNewConversationLocalLoading || isExistingConversationLocalLoading);
 
-    const isProcessing = isSendingMessage;
+    // Offline banner: remote conversations queue their messages until the network returns
+    // (compare conversations don't queue)
+    const usesRemoteProvider = conversation
+        ? !isCompareConversation && !!existingConversationProvider && !existingUsesLocalProvider
+        : pendingConversationType !== 'compare' && !!selectedProvider && !isLocalProvider(selectedProvider.provider);
+    const showOfflineBanner = !isOnline && usesRemoteProvider;
+
+    // A queued message of another conversation may be answered in the background;
+    // the input can still stop it, but its progress isn't shown in this chat
+    const isAnsweringElsewhere = !!streamingConversationId && streamingConversationId !== currentConversationId;
+    const isProcessing = isSendingMessage && !isAnsweringElsewhere;
 
     return (
         <KeyboardAvoidingView
@@ -259,8 +391,10 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
                 conversation={conversation}
                 onEditTitle={handleEditTitle}
                 onMenuPress={onMenuPress}
-                onSettingsPress={!isNewConversation ? () => setShowSettingsModal(true) : undefined}
+                onSettingsPress={!isNewConversation && !isCompareConversation ? () => setShowSettingsModal(true) : undefined}
                 showAlert={shouldShowAlert}
+                onGenerationSettingsChange={conversation ? setGenerationSettings : undefined}
+                personaGenerationSettings={personaGenerationSettings}
             />
 
             {/* Local Model Loading Banner */}
@@ -275,12 +409,45 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
                 </View>
             )}
 
+            {/* Background Outbox Banner */}
+            {isAnsweringElsewhere && (
+                <View style={[styles.loadingBanner, { backgroundColor: colors.tint + '15', borderColor: colors.tint }]}>
+                    <ActivityIndicator size="small" color={colors.tint} />
+                    <Text style={[styles.loadingBannerText, { color: colors.tint }]}>
+                        {t('chat.outbox.answeringElsewhere')}
+                    </Text>
+                </View>
+            )}
+
+            {/* Offline Banner */}
+            {showOfflineBanner && (
+                <View style={[styles.loadingBanner, { backgroundColor: colors.warning + '15', borderColor: colors.warning }]}>
+                    <Ionicons name="cloud-offline-outline" size={16} color={colors.warning} />
+                    <Text style={[styles.loadingBannerText, styles.offlineBannerText, { color: colors.warning }]}>
+                        {t('chat.outbox.offline')}
+                    </Text>
+                </View>
+            )}
+
             <View style={styles.contentWrapper}>
                 <View style={styles.contentContainer}>
                     <MessageList
                         messages={currentMessages}
-                        streamingContent={isStreaming ? currentStreamingContent : undefined}
-                        streamingThinkingContent={isStreaming ? currentStreamingThinkingContent : undefined}
+                        allMessages={allMessages}
+                        onSwitchBranch={switchBranch}
+                        focusedMessageId={focusedMessageId}
+                        onFocusHandled={clearFocusedMessage}
+                        onEditMessage={isStreaming || isSendingMessage ? undefined : handleEditMessage}
+                        onRegenerateMessage={isStreaming || isSendingMessage
+                            ? undefined
+                            : (message) => regenerateMessage(message.id)}
+                        onRetryDelivery={(message) => retryQueuedMessage(message.id)}
+                        onSendToLocalModel={isStreaming || isSendingMessage
+                            ? undefined
+                            : (message) => setLocalModelMessageId(message.id)}
+                        promptTrim={currentConversationId ? promptTrimMap[currentConversationId] : undefined}
+                        streamingContent={isStreaming && !isAnsweringElsewhere ? currentStreamingContent : undefined}
+                        streamingThinkingContent={isStreaming && !isAnsweringElsewhere ? currentStreamingThinkingContent : undefined}
                         isLoading={false}
                         isProcessing={isProcessing}
                         selectedProviderId={pendingProviderId}
@@ -295,8 +462,25 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
                         onNavigateToPersonas={() => router.push('/persona-list')}
                         onNavigateToModels={() => router.push('/model-list')}
                         providerConnectionStatus={providerConnectionStatus}
+                        compareTargets={pendingCompareTargets}
+                        onCompareTargetsChange={setPendingCompareTargets}
+                        compareColumns={compareColumns}
+                        onPickCompareAnswer={(message) => pickCompareAnswer(message.id)}
                     />
 
+                    {/* Edit mode banner */}
+                    {editingMessage && (
+                        <View style={[styles.editBanner, { backgroundColor: colors.tint + '15', borderColor: colors.tint }]}>
+                            <Ionicons name="create-outline" size={16} color={colors.tint} />
+                            <Text style={[styles.editBannerText, { color: colors.tint }]}>
+                                Editing message (sends as a new branch)
+                            </Text>
+                            <TouchableOpacity onPress={handleCancelEdit} hitSlop={8}>
+                                <Ionicons name="close" size={18} color={colors.tint} />
+                            </TouchableOpacity>
+                        </View>
+                    )}
+
                     <MessageInput
                         value={inputValue}
                         onChange={setInputValue}
@@ -308,8 +492,11 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
                         isStreaming={isStreaming || isSendingMessage}
                         disabled={isInputDisabled}
                         onSourcesPress={() => setShowSourceSelector(true)}
-                        selectedSourceCount={selectedSourceIds.length}
+                        selectedSourceCount={selectedSourceIds.length + attachedCollectionIds.length}
                         hasSources={sources.length > 0}
+                        attachments={attachments}
+                        onAttachmentsChange={setAttachments}
+                        canAttachImages={canAttachImages}
                     />
                 </View>
             </View>
@@ -347,24 +534,67 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
                                 <Ionicons name="close" size={24} color={colors.text} />
                             </TouchableOpacity>
                         </View>
-                        <ModelPicker
-                            mode="panel"
-                            selectedProviderId={pendingProviderId || conversation?.providerId}
-                            selectedModel={shouldShowAlert ? undefined : (pendingModel || conversation?.modelId)}
-                            selectedPersonaId={conversation?.personaId}
-                            onProviderChange={handleSettingsProviderChange}
-                            onModelChange={handleSettingsModelChange}
-                            onNavigateToProviders={() => {
-                                setShowSettingsModal(false);
-                                router.push('/llm-management');
-                            }}
-                            onNavigateToModels={() => {
-                                setShowSettingsModal(false);
-                                router.push('/model-list');
-                            }}
-                            providerConnectionStatus={providerConnectionStatus}
-                            showPersona={false}
-                        />
+                        <ScrollView keyboardShouldPersistTaps="handled">
+                            <ModelPicker
+                                mode="panel"
+                                selectedProviderId={pendingProviderId || conversation?.providerId}
+                                selectedModel={shouldShowAlert ? undefined : (pendingModel || conversation?.modelId)}
+                                selectedPersonaId={conversation?.personaId}
+                                onProviderChange={handleSettingsProviderChange}
+                                onModelChange={handleSettingsModelChange}
+                                onNavigateToProviders={() => {
+                                    setShowSettingsModal(false);
+                                    router.push('/llm-management');
+                                }}
+                                onNavigateToModels={() => {
+                                    setShowSettingsModal(false);
+                                    router.push('/model-list');
+                                }}
+                                providerConnectionStatus={providerConnectionStatus}
+                                showPersona={false}
+                            />
+                            {conversation?.type !== 'generate' && (
+                                <View style={[styles.toggleRow, { borderTopColor: colors.border }]}>
+                                    <View style={styles.toggleInfo}>
+                                        <Text style={[styles.toggleLabel, { color: colors.text }]}>Tools</Text>
+                                        <Text style={[styles.toggleHint, { color: colors.textMuted }]}>
+                                            Let the model use the calculator, date/time, and search your sources and conversations
+                                        </Text>
+                                    </View>
+                                    <Switch
+                                        value={!!conversation?.toolsEnabled}
+                                        onValueChange={setToolsEnabled}
+                                        disabled={!conversation}
+                                        trackColor={{ false: colors.border, true: colors.tint + '80' }}
+                                        thumbColor={conversation?.toolsEnabled ? colors.tint : colors.background}
+                                    />
+                                </View>
+                            )}
+                            <View style={[styles.formatRow, { borderTopColor: colors.border }]}>
+                                <ResponseFormatPicker
+                                    format={conversation?.responseFormat}
+                                    onChange={setResponseFormat}
+                                    disabled={!conversation}
+                                />
+                            </View>
+                            {conversation && (
+                                <View style={[styles.formatRow, { borderTopColor: colors.border }]}>
+                                    <Text style={[styles.toggleLabel, { color: colors.text }]}>{t('chat.fallback.label')}</Text>
+                                    <Text style={[styles.toggleHint, styles.fallbackHint, { color: colors.textMuted }]}>
+                                        {!conversation.fallbackTargets?.length && personaFallbackTargets?.length
+                                            ? t('chat.fallback.personaChain', { count: personaFallbackTargets.length })
+                                            : t('chat.fallback.hint')}
+                                    </Text>
+                                    <ModelTargetsPicker
+                                        targets={conversation.fallbackTargets || []}
+                                        onChange={setFallbackTargets}
+                                        minTargets={0}
+                                        maxTargets={MAX_FALLBACK_TARGETS}
+                                        addLabel={t('chat.fallback.add')}
+                                    />
+                                </View>
+                            )}
+                        </ScrollView>
                     </View>
                 </Pressable>
             </Modal>
@@ -382,6 +612,17 @@ export function ChatScreen({ onMenuPress }: ChatScreenProps) {
                     );
                 }}
                 onClearSelection={() => setSelectedSourceIds([])}
+                attachedCollectionIds={attachedCollectionIds}
+                onCollectionToggle={handleCollectionToggle}
+            />
+
+            {/* Local model picker for a queued message */}
+            <LocalModelPickerModal
+                visible={!!localModelMessageId}
+                onSelect={(providerId, modelId) => {
+                    if (localModelMessageId) sendQueuedMessageTo(localModelMessageId, providerId, modelId);
+                }}
+                onClose={() => setLocalModelMessageId(null)}
             />
         </KeyboardAvoidingView>
     );
@@ -413,6 +654,22 @@ const styles = StyleSheet.create({
         fontSize: FontSizes.sm,
         fontWeight: '500',
     },
+    offlineBannerText: {
+        flexShrink: 1,
+    },
+    editBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: Spacing.xs,
+        paddingHorizontal: Spacing.md,
+        borderTopWidth: 1,
+        gap: Spacing.sm,
+    },
+    editBannerText: {
+        flex: 1,
+        fontSize: FontSizes.sm,
+        fontWeight: '500',
+    },
     modalOverlay: {
         flex: 1,
         justifyContent: 'center',
@@ -422,6 +679,7 @@ const styles = StyleSheet.create({
     modalContent: {
         width: '100%',
         maxWidth: 400,
+        maxHeight: '90%',
         borderRadius: BorderRadius.lg,
         padding: Spacing.lg,
     },
@@ -438,4 +696,31 @@ const styles = StyleSheet.create({
     modalCloseButton: {
         padding: Spacing.xs,
     },
+    toggleRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: Spacing.md,
+        paddingTop: Spacing.md,
+        borderTopWidth: 1,
+        gap: Spacing.md,
+    },
+    toggleInfo: {
+        flex: 1,
+    },
+    toggleLabel: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    toggleHint: {
+        fontSize: FontSizes.sm,
+        marginTop: 2,
+    },
+    formatRow: {
+        marginTop: Spacing.md,
+        paddingTop: Spacing.md,
+        borderTopWidth: 1,
+    },
+    fallbackHint: {
+        marginBottom: Spacing.sm,
+    },
 });
@@ -0,0 +1,210 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../config/theme';
+import { formatDuration, ModelGenerationStats, summarizeByModel } from '../../core/llm/generationMetrics';
+import { messageRepository } from '../../core/storage';
+import { useLLMStore } from '../../state';
+import { ResponsiveContainer } from '../components/common';
+import { useAppColorScheme, useLocale } from '../hooks';
+
+interface GenerationStatsScreenProps {
+    onBack: () => void;
+}
+
+export function GenerationStatsScreen({ onBack }: GenerationStatsScreenProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+    const { getConfigById } = useLLMStore();
+
+    const [stats, setStats] = useState<ModelGenerationStats[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const loadStats = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setStats(summarizeByModel(await messageRepository.findWithMetrics()));
+        } catch (error) {
+            if (__DEV__) console.error('Failed to load generation stats:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadStats();
+    }, [loadStats]);
+
+    const renderValue = (label: string, value?: string) => (
+        <View style={styles.metric}>
+            <Text style={[styles.metricValue, { color: colors.text }]}>{value ?? '—'}</Text>
+            <Text style={[styles.metricLabel, { color: colors.textMuted }]}>{label}</Text>
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+            {/* Header */}
+            <View style={[styles.header, { borderBottomColor: colors.border }]}>
+                <TouchableOpacity onPress={onBack} style={styles.headerButton}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.title, { color: colors.text }]}>{t('stats.title')}</Text>
+                <TouchableOpacity onPress={loadStats} style={styles.headerButton} disabled={isLoading}>
+                    <Ionicons name="refresh" size={22} color={colors.tint} />
+                </TouchableOpacity>
+            </View>
+
+            {isLoading ? (
+                <View style={styles.emptyState}>
+                    <ActivityIndicator size="large" color={colors.tint} />
+                </View>
+            ) : stats.length === 0 ? (
+                <ResponsiveContainer>
+                    <View style={styles.emptyState}>
+                        <Ionicons name="speedometer-outline" size={64} color={colors.textMuted} />
+                        <Text style={[styles.emptyTitle, { color: colors.text }]}>
+                            {t('stats.empty.title')}
+                        </Text>
+                        <Text style={[styles.emptyDescription, { color: colors.textMuted }]}>
+                            {t('stats.empty.description')}
+                        </Text>
+                    </View>
+                </ResponsiveContainer>
+            ) : (
+                <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                    <ResponsiveContainer>
+                        <Text style={[styles.hint, { color: colors.textMuted }]}>{t('stats.hint')}</Text>
+                        {stats.map((model) => {
+                            const config = model.providerId ? getConfigById(model.providerId) : undefined;
+                            const estimated = model.hasEstimatedTokens ? '~' : '';
+                            return (
+                                <View
+                                    key={`${model.providerId}-${model.modelId}`}
+                                    style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+                                >
+                                    <Text style={[styles.cardTitle, { color: colors.text }]} numberOfLines={1}>
+                                        {model.modelId || t('stats.unknownModel')}
+                                    </Text>
+                                    <Text style={[styles.cardSubtitle, { color: colors.textMuted }]} numberOfLines={1}>
+                                        {config?.name || t('stats.unknownProvider')} • {t('stats.answers', { count: model.answerCount })}
+                                    </Text>
+                                    <View style={styles.metrics}>
+                                        {renderValue(
+                                            t('stats.speed'),
+                                            model.avgTokensPerSecond !== undefined
+                                                ? `${model.avgTokensPerSecond.toFixed(1)} tok/s`
+                                                : undefined
+                                        )}
+                                        {renderValue(
+                                            t('stats.timeToFirstToken'),
+                                            model.avgTimeToFirstTokenMs !== undefined
+                                                ? formatDuration(model.avgTimeToFirstTokenMs)
+                                                : undefined
+                                        )}
+                                        {renderValue(
+                                            t('stats.promptProcessing'),
+                                            model.avgPromptMs !== undefined ? formatDuration(model.avgPromptMs) : undefined
+                                        )}
+                                        {renderValue(t('stats.latency'), formatDuration(model.avgLatencyMs))}
+                                        {renderValue(t('stats.promptTokens'), String(model.promptTokens))}
+                                        {renderValue(t('stats.completionTokens'), `${estimated}${model.completionTokens}`)}
+                                    </View>
+                                </View>
+                            );
+                        })}
+                    </ResponsiveContainer>
+                </ScrollView>
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.md,
+        borderBottomWidth: 1,
+    },
+    headerButton: {
+        padding: Spacing.xs,
+    },
+    title: {
+        fontSize: FontSizes.xl,
+        fontWeight: '600',
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: Spacing.md,
+    },
+    hint: {
+        fontSize: FontSizes.sm,
+        marginBottom: Spacing.md,
+    },
+    card: {
+        borderRadius: BorderRadius.lg,
+        borderWidth: 1,
+        padding: Spacing.md,
+        marginBottom: Spacing.md,
+    },
+    cardTitle: {
+        fontSize: FontSizes.md,
+        fontWeight: '600',
+    },
+    cardSubtitle: {
+        fontSize: FontSizes.sm,
+        marginTop: 2,
+    },
+    metrics: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginTop: Spacing.sm,
+        rowGap: Spacing.sm,
+    },
+    metric: {
+        width: '33%',
+    },
+    metricValue: {
+        fontSize: FontSizes.md,
+        fontWeight: '600',
+        fontVariant: ['tabular-nums'],
+    },
+    metricLabel: {
+        fontSize: FontSizes.xs,
+        marginTop: 2,
+    },
+    emptyState: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: Spacing.xl,
+    },
+    emptyTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+        marginTop: Spacing.md,
+    },
+    emptyDescription: {
+        fontSize: FontSizes.md,
+        textAlign: 'center',
+        marginTop: Spacing.sm,
+        maxWidth: 280,
+    },
+});
@@ -19,12 +19,16 @@ import { DOWNLOADABLE_MODELS, DownloadableModel } from '../../config/downloadabl
 import { MODEL_TYPE_PRESETS, ModelType } from '../../config/modelTypePresets';
 import { getLocalProviders, PROVIDER_LIST } from '../../config/providerPresets';
 import { BorderRadius, Colors, FontSizes, Layout, Spacing } from '../../config/theme';
+import { formatGigabytes, ModelFit } from '../../core/llm';
 import { DownloadedModelType, LLMProvider } from '../../core/types';
 import { importLocalModel } from '../../services/ModelDownloadService';
 import { useModelDownloadStore } from '../../state';
+import { showConfirm } from '../../utils';
 import { ResponsiveContainer, VirtualizedList } from '../components/common';
 import { LocalModelImportModal } from '../components/common/LocalModelImportModal';
-import { useAppColorScheme, useLocale } from '../hooks';
+import { ModelCatalogBrowser } from '../components/common/ModelCatalogBrowser';
+import { ModelStorageModal } from '../components/common/ModelStorageModal';
+import { useAppColorScheme, useLocale, useModelFit } from '../hooks';
 
 // Provider filter types (Row 1) - uses local providers from presets
 import { DownloadedModelProvider } from '../../core/types';
@@ -41,24 +45,32 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
     const colorScheme = useAppColorScheme();
     const colors = Colors[colorScheme];
     const { t } = useLocale();
+    const { checkFit } = useModelFit();
 
     // State
     const [searchQuery, setSearchQuery] = useState('');
     const [providerFilter, setProviderFilter] = useState<ProviderFilter>('all');
     const [modelTypeFilter, setModelTypeFilter] = useState<ModelTypeFilter>('all');
     const [isImportModalVisible, setIsImportModalVisible] = useState(false);
+    const [isCatalogVisible, setIsCatalogVisible] = useState(false);
+    const [isStorageVisible, setIsStorageVisible] = useState(false);
 
     // Store
     const {
         activeDownloads,
         downloadedModels,
+        corruptedModels,
         isLoading,
         loadDownloadedModels,
         startDownload,
         cancelDownload,
+        pauseDownload,
+        resumeDownload,
         deleteDownloadedModel,
         isDownloading,
         isDownloaded,
+        isPaused,
+        isCorrupted,
         getDownloadProgress,
     } = useModelDownloadStore();
 
@@ -75,7 +87,7 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
         // Merge with imported/local models from downloaded models
         // These are models not in the catalog (imported by user or have 'custom' tag)
         const catalogIds = new Set(DOWNLOADABLE_MODELS.map(m => m.id));
-        const importedModels = downloadedModels
+        const importedModels = [...downloadedModels, ...corruptedModels]
             .filter((dm) => !catalogIds.has(dm.modelId) || dm.tags?.includes('custom'))
             .map((dm): DownloadableModel => ({
                 id: dm.modelId,
@@ -83,7 +95,7 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
                 description: dm.description,
                 provider: dm.provider,
                 type: dm.type,
-                params: 'Local',
+                params: dm.tags?.includes('huggingface') ? 'GGUF' : 'Local',
                 size: dm.sizeEstimate || 'Unknown',
                 assets: {
                     model: dm.modelFilePath,
@@ -138,10 +150,24 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
         });
 
         return models;
-    }, [searchQuery, providerFilter, modelTypeFilter, activeDownloads, downloadedModels]);
+    }, [searchQuery, providerFilter, modelTypeFilter, activeDownloads, downloadedModels, corruptedModels]);
 
     // Handle download button press
     const handleDownload = async (model: DownloadableModel) => {
+        // Ask before downloading a model the device can't hold or run
+        const fitResult = checkFit(model, true);
+        if (fitResult?.fit === 'wont-fit') {
+            const confirmed = await showConfirm(
+                t('models.fit.downloadWarning.title'),
+                fitResult.limitedBy === 'storage'
+                    ? t('models.fit.storageHint', { required: formatGigabytes(fitResult.estimate.weightsBytes) })
+                    : t('models.fit.downloadWarning.memory', { name: model.name }),
+                t('models.download.start'),
+                t('common.cancel')
+            );
+            if (!confirmed) return;
+        }
+
         try {
             await startDownload(model);
         } catch (error) {
@@ -154,6 +180,19 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
         await cancelDownload(modelId);
     };
 
+    // Handle pause/resume button press; paused downloads keep their partial files
+    const handleTogglePause = async (modelId: string) => {
+        try {
+            if (isPaused(modelId)) {
+                await resumeDownload(modelId);
+            } else {
+                await pauseDownload(modelId);
+            }
+        } catch (error) {
+            console.error('Failed to pause/resume download:', error);
+        }
+    };
+
     // Handle delete button press
     const handleDelete = async (modelId: string) => {
         try {
@@ -247,6 +286,12 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
         const downloading = isDownloading(model.id);
         const downloaded = isDownloaded(model.id);
         const progress = getDownloadProgress(model.id);
+        const paused = isPaused(model.id);
+        const corrupted = isCorrupted(model.id);
+        // Corrupted imports point at local files and can't be fetched again
+        const canRedownload = /^https?:\/\//.test(model.assets.model);
+        const fitResult = checkFit(model, !downloaded && !downloading);
+        const fitColor = fitResult && getFitColor(fitResult.fit);
 
         return (
             <View
@@ -288,6 +333,13 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
                                     {model.type.toUpperCase()}
                                 </Text>
                             </View>
+                            {fitResult && fitColor && (
+                                <View style={[styles.tag, { backgroundColor: fitColor + '20' }]}>
+                                    <Text style={[styles.tagText, { color: fitColor }]}>
+                                        {t(`models.fit.${fitResult.fit}`)}
+                                    </Text>
+                                </View>
+                            )}
                         </View>
                     </View>
                     <Text
@@ -299,6 +351,29 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
                     <Text style={[styles.modelSize, { color: colors.textMuted }]}>
                         {model.size}
                     </Text>
+                    {corrupted && (
+                        <Text style={[styles.fitHint, { color: colors.error }]}>
+                            {t('models.download.corrupted')}
+                        </Text>
+                    )}
+                    {downloading && paused && (
+                        <Text style={[styles.fitHint, { color: colors.textMuted }]}>
+                            {t('models.download.paused', { progress })}
+                        </Text>
+                    )}
+                    {fitResult && fitResult.fit !== 'fits' && (
+                        <Text style={[styles.fitHint, { color: fitColor ?? colors.textMuted }]}>
+                            {fitResult.limitedBy === 'storage'
+                                ? t('models.fit.storageHint', { required: formatGigabytes(fitResult.estimate.weightsBytes) })
+                                : t('models.fit.memoryHint', {
+                                    required: formatGigabytes(fitResult.estimate.totalBytes),
+                                    available: formatGigabytes(fitResult.usableMemory ?? 0),
+                                })}
+                            {fitResult.suggestedNCtx
+                                ? ` ${t('models.fit.suggestContext', { nCtx: fitResult.suggestedNCtx })}`
+                                : ''}
+                        </Text>
+                    )}
                 </View>
 
                 {/* Action Buttons */}
@@ -334,16 +409,51 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
                             </TouchableOpacity>
                         </View>
                     ) : downloading ? (
-                        <TouchableOpacity
-                            style={[
-                                styles.actionButton,
-                                styles.cancelButton,
-                                { backgroundColor: colors.error + '20' },
-                            ]}
-                            onPress={() => handleCancel(model.id)}
-                        >
-                            <Ionicons name="close" size={24} color={colors.error} />
-                        </TouchableOpacity>
+                        <View style={styles.downloadedActions}>
+                            <TouchableOpacity
+                                style={[
+                                    styles.actionButton,
+                                    { backgroundColor: colors.tint + '20' },
+                                ]}
+                                onPress={() => handleTogglePause(model.id)}
+                            >
+                                <Ionicons name={paused ? 'play' : 'pause'} size={22} color={colors.tint} />
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.actionButton,
+                                    styles.cancelButton,
+                                    { backgroundColor: colors.error + '20' },
+                                ]}
+                                onPress={() => handleCancel(model.id)}
+                            >
+                                <Ionicons name="close" size={24} color={colors.error} />
+                            </TouchableOpacity>
+                        </View>
+                    ) : corrupted ? (
+                        <View style={styles.downloadedActions}>
+                            {canRedownload && (
+                                <TouchableOpacity
+                                    style={[
+                                        styles.actionButton,
+                                        { backgroundColor: colors.tint + '20' },
+                                    ]}
+                                    onPress={() => handleDownload(model)}
+                                >
+                                    <Ionicons name="refresh" size={22} color={colors.tint} />
+                                </TouchableOpacity>
+                            )}
+                            <TouchableOpacity
+                                style={[
+                                    styles.actionButton,
+                                    styles.deleteButton,
+                                    { backgroundColor: colors.error + '20' },
+                                ]}
+                                onPress={() => handleDelete(model.id)}
+                            >
+                                <Ionicons name="trash-outline" size={22} color={colors.error} />
+                            </TouchableOpacity>
+                        </View>
                     ) : (
                         <TouchableOpacity
                             style={[
@@ -386,6 +496,17 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
         );
     };
 
+    const getFitColor = (fit: ModelFit): string => {
+        switch (fit) {
+            case 'fits':
+                return colors.success;
+            case 'tight':
+                return colors.warning;
+            default:
+                return colors.error;
+        }
+    };
+
     // Web platform check
     const isWeb = Platform.OS === 'web';
 
@@ -402,12 +523,30 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
                 <Text style={[styles.title, { color: colors.text }]}>
                     {t('models.title')}
                 </Text>
-                <TouchableOpacity
-                    onPress={() => setIsImportModalVisible(true)}
-                    style={styles.importButton}
-                >
-                    <Ionicons name="add" size={24} color={colors.tint} />
-                </TouchableOpacity>
+                <View style={styles.headerActions}>
+                    {Platform.OS !== 'web' && (
+                        <TouchableOpacity
+                            onPress={() => setIsStorageVisible(true)}
+                            style={styles.importButton}
+                        >
+                            <Ionicons name="folder-open-outline" size={24} color={colors.tint} />
+                        </TouchableOpacity>
+                    )}
+                    {Platform.OS !== 'web' && (
+                        <TouchableOpacity
+                            onPress={() => setIsCatalogVisible(true)}
+                            style={styles.importButton}
+                        >
+                            <Ionicons name="cloud-download-outline" size={24} color={colors.tint} />
+                        </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                        onPress={() => setIsImportModalVisible(true)}
+                        style={styles.importButton}
+                    >
+                        <Ionicons name="add" size={24} color={colors.tint} />
+                    </TouchableOpacity>
+                </View>
             </View>
 
             {/* Search Bar */}
@@ -526,6 +665,7 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
                     data={filteredModels}
                     keyExtractor={(item) => item.id}
                     renderItem={renderModelItem}
+                    extraData={checkFit}
                     contentContainerStyle={styles.listContent}
                     ListEmptyComponent={
                         <View style={styles.emptyContainer}>
@@ -552,6 +692,21 @@ export function ModelsScreen({ onBack }: ModelsScreenProps) {
                 onClose={() => setIsImportModalVisible(false)}
                 onImport={handleImportLocalModel}
             />
+
+            {/* Hugging Face Catalog */}
+            <ModelCatalogBrowser
+                visible={isCatalogVisible}
+                onClose={() => setIsCatalogVisible(false)}
+                onDownload={handleDownload}
+                isDownloaded={isDownloaded}
+                isDownloading={isDownloading}
+            />
+
+            {/* Orphaned files in the models directory */}
+            <ModelStorageModal
+                visible={isStorageVisible}
+                onClose={() => setIsStorageVisible(false)}
+            />
         </SafeAreaView>
     );
 }
@@ -581,6 +736,10 @@ const styles = StyleSheet.create({
     importButton: {
         padding: Spacing.xs,
     },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
     searchContainer: {
         paddingHorizontal: Spacing.md,
         paddingVertical: Spacing.sm,
@@ -671,6 +830,10 @@ const styles = StyleSheet.create({
     modelSize: {
         fontSize: FontSizes.xs,
     },
+    fitHint: {
+        fontSize: FontSizes.xs,
+        marginTop: 2,
+    },
     actionContainer: {
         justifyContent: 'center',
     },
@@ -10,10 +10,28 @@ import {
     View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Colors, FontSizes, Spacing } from '../../config/theme';
-import { usePersonaStore, useSettingsStore } from '../../state';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../config/theme';
+import {
+    CharacterCardFormat,
+    DEFAULT_LORE_SCAN_DEPTH,
+    DEFAULT_LORE_TOKEN_BUDGET,
+    getLoreEntryName,
+} from '../../core/personas';
+import { CharacterBook, CharacterBookEntry, ModelTarget } from '../../core/types';
+import { characterCardFileService } from '../../services/characterCardFile';
+import { usePersonaStore, useSettingsStore, useSourceCollectionStore } from '../../state';
+import { MAX_FALLBACK_TARGETS } from '../../state/fallbackChain';
 import { showError } from '../../utils/alert';
-import { Button, Input, ResponsiveContainer } from '../components/common';
+import {
+    Button,
+    GenerationSettingsFields,
+    Input,
+    parseGenerationSettingsDraft,
+    ResponsiveContainer,
+    toGenerationSettingsDraft,
+} from '../components/common';
+import { ModelTargetsPicker } from '../components/chat';
+import { CharacterCardExportModal, LoreEntryEditorModal } from '../components/settings';
 import { useAppColorScheme, useLocale } from '../hooks';
 
 interface PersonaEditorScreenProps {
@@ -28,11 +46,12 @@ export function PersonaEditorScreen({ personaId, onBack }: PersonaEditorScreenPr
 
     const { personas, createPersona, updatePersona, getPersonaById } = usePersonaStore();
     const { settings, setDefaultPersona } = useSettingsStore();
+    const { collections, loadCollections } = useSourceCollectionStore();
 
     const isEditing = Boolean(personaId);
     const existingPersona = personaId ? getPersonaById(personaId) : null;
 
-    // Form state - Character Card V2 fields
+    // Form state - Character Card V2/V3 fields
     const [name, setName] = useState('');
     const [description, setDescription] = useState('');
     const [personality, setPersonality] = useState('');
@@ -40,7 +59,27 @@ export function PersonaEditorScreen({ personaId, onBack }: PersonaEditorScreenPr
     const [systemPrompt, setSystemPrompt] = useState('');
     const [postHistoryInstructions, setPostHistoryInstructions] = useState('');
     const [creatorNotes, setCreatorNotes] = useState('');
+    const [firstMessage, setFirstMessage] = useState('');
+    const [alternateGreetings, setAlternateGreetings] = useState<string[]>([]);
+    const [exampleDialogue, setExampleDialogue] = useState('');
+    const [creator, setCreator] = useState('');
+    const [characterVersion, setCharacterVersion] = useState('');
+    const [tags, setTags] = useState('');
+    const [lorebook, setLorebook] = useState<CharacterBook | undefined>(undefined);
+    const [loreTokenBudget, setLoreTokenBudget] = useState('');
+    const [loreScanDepth, setLoreScanDepth] = useState('');
+    // Index of the lore entry being edited; -1 for a new one
+    const [editingLoreIndex, setEditingLoreIndex] = useState<number | null>(null);
+    const [generationDraft, setGenerationDraft] = useState(() => toGenerationSettingsDraft());
+    const [collectionIds, setCollectionIds] = useState<string[]>([]);
+    const [fallbackTargets, setFallbackTargets] = useState<ModelTarget[]>([]);
     const [isSaving, setIsSaving] = useState(false);
+    const [showExportModal, setShowExportModal] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+
+    useEffect(() => {
+        loadCollections();
+    }, [loadCollections]);
 
     // Initialize form with existing persona
     useEffect(() => {
@@ -53,11 +92,67 @@ export function PersonaEditorScreen({ personaId, onBack }: PersonaEditorScreenPr
             setSystemPrompt(existingPersona.system_prompt || '');
             setPostHistoryInstructions(existingPersona.post_history_instructions || '');
             setCreatorNotes(existingPersona.creator_notes || '');
+            setFirstMessage(existingPersona.first_mes || '');
+            setAlternateGreetings(existingPersona.alternate_greetings || []);
+            setExampleDialogue(existingPersona.mes_example || '');
+            setCreator(existingPersona.creator || '');
+            setCharacterVersion(existingPersona.character_version || '');
+            setTags((existingPersona.tags || []).join(', '));
+            setLorebook(existingPersona.character_book);
+            setLoreTokenBudget(existingPersona.character_book?.token_budget?.toString() ?? '');
+            setLoreScanDepth(existingPersona.character_book?.scan_depth?.toString() ?? '');
+            setGenerationDraft(toGenerationSettingsDraft(existingPersona.generationSettings));
+            setCollectionIds(existingPersona.collectionIds || []);
+            setFallbackTargets(existingPersona.fallbackTargets || []);
         }
     }, [existingPersona]);
 
     const isValid = name.trim().length > 0;
 
+    const toggleCollection = (id: string) => {
+        setCollectionIds((prev) =>
+            prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]
+        );
+    };
+
+    const updateGreeting = (index: number, text: string) => {
+        setAlternateGreetings((prev) => prev.map((greeting, i) => (i === index ? text : greeting)));
+    };
+
+    const removeGreeting = (index: number) => {
+        setAlternateGreetings((prev) => prev.filter((_, i) => i !== index));
+    };
+
+    const loreEntries = lorebook?.entries ?? [];
+
+    const saveLoreEntry = (entry: CharacterBookEntry) => {
+        setLorebook((prev) => {
+            const book = prev ?? { extensions: {}, entries: [] };
+            const entries = editingLoreIndex === null || editingLoreIndex < 0
+                ? [...book.entries, entry]
+                : book.entries.map((e, i) => (i === editingLoreIndex ? entry : e));
+            return { ...book, entries };
+        });
+        setEditingLoreIndex(null);
+    };
+
+    const removeLoreEntry = (index: number) => {
+        setLorebook((prev) => prev && { ...prev, entries: prev.entries.filter((_, i) => i !== index) });
+    };
+
+    const handleExport = async (format: CharacterCardFormat) => {
+        if (!existingPersona) return;
+        setIsExporting(true);
+        try {
+            await characterCardFileService.exportCard(existingPersona, format);
+            setShowExportModal(false);
+        } catch (error) {
+            showError(t('common.error'), error instanceof Error ? error.message : t('alert.error.default'));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     const handleSave = async () => {
         if (!isValid) {
             showError(t('common.error'), t('settings.personas.name') + ' is required.');
@@ -75,6 +170,24 @@ export function PersonaEditorScreen({ personaId, onBack }: PersonaEditorScreenPr
                 system_prompt: systemPrompt.trim(),
                 post_history_instructions: postHistoryInstructions.trim(),
                 creator_notes: creatorNotes.trim(),
+                first_mes: firstMessage.trim() || undefined,
+                alternate_greetings: alternateGreetings.map((g) => g.trim()).filter(Boolean),
+                mes_example: exampleDialogue.trim() || undefined,
+                creator: creator.trim() || undefined,
+                character_version: characterVersion.trim() || undefined,
+                tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+                character_book: lorebook && (lorebook.entries.length > 0 || existingPersona?.character_book)
+                    ? {
+                        ...lorebook,
+                        token_budget: parseInt(loreTokenBudget, 10) || undefined,
+                        scan_depth: parseInt(loreScanDepth, 10) || undefined,
+                    }
+                    : undefined,
+                generationSettings: parseGenerationSettingsDraft(generationDraft),
+                // Drop collections deleted since they were attached
+                collectionIds: collectionIds.filter((id) => collections.some((c) => c.id === id)),
+                // Rows left without a model are ignored
+                fallbackTargets: fallbackTargets.filter((target) => target.providerId && target.modelId),
             };
 
             if (isEditing && existingPersona) {
@@ -108,7 +221,13 @@ export function PersonaEditorScreen({ personaId, onBack }: PersonaEditorScreenPr
                 <Text style={[styles.title, { color: colors.text }]}>
                     {isEditing ? t('settings.personas.edit') : t('settings.personas.create')}
                 </Text>
-                <View style={styles.placeholder} />
+                {existingPersona ? (
+                    <TouchableOpacity onPress={() => setShowExportModal(true)} style={styles.backButton}>
+                        <Ionicons name="share-outline" size={24} color={colors.tint} />
+                    </TouchableOpacity>
+                ) : (
+                    <View style={styles.placeholder} />
+                )}
             </View>
 
             <KeyboardAvoidingView
@@ -164,6 +283,46 @@ export function PersonaEditorScreen({ personaId, onBack }: PersonaEditorScreenPr
                             numberOfLines={3}
                         />
 
+                        {/* Greetings Section */}
+                        <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>
+                            {t('settings.personas.greetingsSection')}
+                        </Text>
+                        <Text style={[styles.sectionHint, { color: colors.textMuted }]}>
+                            {t('settings.personas.greetingsHint')}
+                        </Text>
+
+                        <Input
+                            label={t('settings.personas.firstMessage')}
+                            value={firstMessage}
+                            onChangeText={setFirstMessage}
+                            placeholder={t('settings.personas.firstMessagePlaceholder')}
+                            multiline
+                            numberOfLines={3}
+                        />
+
+                        {alternateGreetings.map((greeting, index) => (
+                            <View key={index} style={styles.greetingRow}>
+                                <Input
+                                    label={t('settings.personas.alternateGreeting', { number: index + 1 })}
+                                    value={greeting}
+                                    onChangeText={(text) => updateGreeting(index, text)}
+                                    multiline
+                                    numberOfLines={3}
+                                    containerStyle={styles.greetingInput}
+                                />
+                                <TouchableOpacity onPress={() => removeGreeting(index)} style={styles.removeGreetingButton}>
+                                    <Ionicons name="trash-outline" size={20} color={colors.error} />
+                                </TouchableOpacity>
+                            </View>
+                        ))}
+                        <Button
+                            title={t('settings.personas.addGreeting')}
+                            onPress={() => setAlternateGreetings((prev) => [...prev, ''])}
+                            variant="ghost"
+                            size="sm"
+                            icon="add"
+                        />
+
                         {/* Prompts Section */}
                         <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>
                             {t('settings.personas.promptsSection')}
@@ -198,6 +357,144 @@ export function PersonaEditorScreen({ personaId, onBack }: PersonaEditorScreenPr
                             numberOfLines={3}
                         />
 
+                        {/* Example Dialogue */}
+                        <Input
+                            label={t('settings.personas.exampleDialogue')}
+                            value={exampleDialogue}
+                            onChangeText={setExampleDialogue}
+                            placeholder={t('settings.personas.exampleDialoguePlaceholder')}
+                            hint={t('settings.personas.exampleDialogueHint')}
+                            multiline
+                            numberOfLines={6}
+                        />
+
+                        {/* Lorebook Section */}
+                        <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>
+                            {t('settings.personas.loreSection')}
+                        </Text>
+                        <Text style={[styles.sectionHint, { color: colors.textMuted }]}>
+                            {t('settings.personas.loreHint')}
+                        </Text>
+
+                        {loreEntries.map((entry, index) => (
+                            <TouchableOpacity
+                                key={index}
+                                style={[styles.loreRow, { backgroundColor: colors.backgroundSecondary }]}
+                                onPress={() => setEditingLoreIndex(index)}
+                            >
+                                <Ionicons
+                                    name={entry.constant ? 'pin' : 'key-outline'}
+                                    size={18}
+                                    color={entry.enabled ? colors.tint : colors.textMuted}
+                                />
+                                <View style={styles.loreInfo}>
+                                    <Text
+                                        style={[styles.loreName, { color: entry.enabled ? colors.text : colors.textMuted }]}
+                                        numberOfLines={1}
+                                    >
+                                        {getLoreEntryName(entry, index)}
+                                    </Text>
+                                    <Text style={[styles.loreKeys, { color: colors.textMuted }]} numberOfLines={1}>
+                                        {entry.constant ? t('settings.personas.lore.always') : entry.keys.join(', ')}
+                                    </Text>
+                                </View>
+                                <TouchableOpacity onPress={() => removeLoreEntry(index)} style={styles.removeGreetingButton}>
+                                    <Ionicons name="trash-outline" size={18} color={colors.error} />
+                                </TouchableOpacity>
+                            </TouchableOpacity>
+                        ))}
+                        <Button
+                            title={t('settings.personas.lore.add')}
+                            onPress={() => setEditingLoreIndex(-1)}
+                            variant="ghost"
+                            size="sm"
+                            icon="add"
+                        />
+
+                        {loreEntries.length > 0 && (
+                            <View style={styles.loreSettings}>
+                                <Input
+                                    label={t('settings.personas.lore.tokenBudget')}
+                                    value={loreTokenBudget}
+                                    onChangeText={setLoreTokenBudget}
+                                    placeholder={String(DEFAULT_LORE_TOKEN_BUDGET)}
+                                    keyboardType="number-pad"
+                                    containerStyle={styles.loreSettingInput}
+                                />
+                                <Input
+                                    label={t('settings.personas.lore.scanDepth')}
+                                    value={loreScanDepth}
+                                    onChangeText={setLoreScanDepth}
+                                    placeholder={String(DEFAULT_LORE_SCAN_DEPTH)}
+                                    hint={t('settings.personas.lore.scanDepthHint')}
+                                    keyboardType="number-pad"
+                                    containerStyle={styles.loreSettingInput}
+                                />
+                            </View>
+                        )}
+
+                        {/* Generation Section */}
+                        <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>
+                            {t('settings.personas.generationSection')}
+                        </Text>
+                        <Text style={[styles.sectionHint, { color: colors.textMuted }]}>
+                            {t('settings.personas.generationHint')}
+                        </Text>
+
+                        <GenerationSettingsFields
+                            value={generationDraft}
+                            onChange={setGenerationDraft}
+                        />
+
+                        {/* Knowledge Section */}
+                        {collections.length > 0 && (
+                            <>
+                                <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>
+                                    {t('settings.personas.collectionsSection')}
+                                </Text>
+                                <Text style={[styles.sectionHint, { color: colors.textMuted }]}>
+                                    {t('settings.personas.collectionsHint')}
+                                </Text>
+                                {collections.map((collection) => {
+                                    const isAttached = collectionIds.includes(collection.id);
+                                    return (
+                                        <TouchableOpacity
+                                            key={collection.id}
+                                            style={[
+                                                styles.collectionRow,
+                                                { backgroundColor: isAttached ? colors.tint + '20' : colors.backgroundSecondary },
+                                            ]}
+                                            onPress={() => toggleCollection(collection.id)}
+                                        >
+                                            <Ionicons
+                                                name={isAttached ? 'checkbox' : 'square-outline'}
+                                                size={22}
+                                                color={isAttached ? colors.tint : colors.textMuted}
+                                            />
+                                            <Text style={[styles.collectionName, { color: colors.text }]} numberOfLines={1}>
+                                                {collection.name}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </>
+                        )}
+
+                        {/* Fallback Section */}
+                        <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>
+                            {t('settings.personas.fallbackSection')}
+                        </Text>
+                        <Text style={[styles.sectionHint, { color: colors.textMuted }]}>
+                            {t('settings.personas.fallbackHint')}
+                        </Text>
+                        <ModelTargetsPicker
+                            targets={fallbackTargets}
+                            onChange={setFallbackTargets}
+                            minTargets={0}
+                            maxTargets={MAX_FALLBACK_TARGETS}
+                            addLabel={t('chat.fallback.add')}
+                        />
+
                         {/* Metadata Section */}
                         <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>
                             {t('settings.personas.metadataSection')}
@@ -215,6 +512,24 @@ export function PersonaEditorScreen({ personaId, onBack }: PersonaEditorScreenPr
                         <Text style={[styles.hint, { color: colors.textMuted }]}>
                             {t('settings.personas.creatorNotesHint')}
                         </Text>
+
+                        <Input
+                            label={t('settings.personas.creator')}
+                            value={creator}
+                            onChangeText={setCreator}
+                        />
+                        <Input
+                            label={t('settings.personas.characterVersion')}
+                            value={characterVersion}
+                            onChangeText={setCharacterVersion}
+                        />
+                        <Input
+                            label={t('settings.personas.tags')}
+                            value={tags}
+                            onChangeText={setTags}
+                            placeholder={t('settings.personas.tagsPlaceholder')}
+                            autoCapitalize="none"
+                        />
                     </ResponsiveContainer>
                 </ScrollView>
 
@@ -231,6 +546,21 @@ export function PersonaEditorScreen({ personaId, onBack }: PersonaEditorScreenPr
                     </ResponsiveContainer>
                 </View>
             </KeyboardAvoidingView>
+
+            <LoreEntryEditorModal
+                visible={editingLoreIndex !== null}
+                entry={editingLoreIndex !== null && editingLoreIndex >= 0 ? loreEntries[editingLoreIndex] : undefined}
+                nextInsertionOrder={loreEntries.reduce((max, e) => Math.max(max, e.insertion_order + 1), 0)}
+                onSave={saveLoreEntry}
+                onClose={() => setEditingLoreIndex(null)}
+            />
+
+            <CharacterCardExportModal
+                visible={showExportModal}
+                isExporting={isExporting}
+                onExport={handleExport}
+                onClose={() => setShowExportModal(false)}
+            />
         </SafeAreaView>
     );
 }
@@ -291,11 +621,69 @@ const styles = StyleSheet.create({
         marginTop: Spacing.lg,
         marginBottom: Spacing.md,
     },
+    sectionHint: {
+        fontSize: FontSizes.sm,
+        marginTop: -Spacing.sm,
+        marginBottom: Spacing.md,
+    },
     hint: {
         fontSize: FontSizes.xs,
         marginTop: -Spacing.sm,
         marginBottom: Spacing.md,
     },
+    greetingRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: Spacing.xs,
+    },
+    greetingInput: {
+        flex: 1,
+    },
+    removeGreetingButton: {
+        padding: Spacing.xs,
+        marginTop: Spacing.lg,
+    },
+    loreRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        paddingVertical: Spacing.sm,
+        paddingLeft: Spacing.md,
+        paddingRight: Spacing.xs,
+        borderRadius: BorderRadius.md,
+        marginBottom: Spacing.sm,
+    },
+    loreInfo: {
+        flex: 1,
+    },
+    loreName: {
+        fontSize: FontSizes.md,
+        fontWeight: '500',
+    },
+    loreKeys: {
+        fontSize: FontSizes.sm,
+        marginTop: 2,
+    },
+    loreSettings: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        marginTop: Spacing.md,
+    },
+    loreSettingInput: {
+        flex: 1,
+    },
+    collectionRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderRadius: BorderRadius.md,
+        marginBottom: Spacing.sm,
+    },
+    collectionName: {
+        flex: 1,
+        fontSize: FontSizes.md,
+    },
     bottomBar: {
         padding: Spacing.md,
         borderTopWidth: 1,
@@ -1,6 +1,8 @@
 import { Ionicons } from '@expo/vector-icons';
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
+    ActivityIndicator,
+    Image,
     ScrollView,
     StyleSheet,
     Text,
@@ -10,6 +12,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { BorderRadius, Colors, FontSizes, Spacing } from '../../config/theme';
 import { Persona } from '../../core/types';
+import { characterCardFileService } from '../../services/characterCardFile';
 import { usePersonaStore, useSettingsStore } from '../../state';
 import { showConfirm, showError, showInfo } from '../../utils/alert';
 import { ResourceCard, ResponsiveContainer } from '../components/common';
@@ -25,8 +28,9 @@ export function PersonaListScreen({ onNavigate, onBack }: PersonaListScreenProps
     const colors = Colors[colorScheme];
     const { t } = useLocale();
 
-    const { personas, loadPersonas, deletePersona } = usePersonaStore();
+    const { personas, loadPersonas, createPersona, deletePersona } = usePersonaStore();
     const { settings, setDefaultPersona } = useSettingsStore();
+    const [isImporting, setIsImporting] = useState(false);
 
     useEffect(() => {
         loadPersonas();
@@ -36,6 +40,24 @@ export function PersonaListScreen({ onNavigate, onBack }: PersonaListScreenProps
         onNavigate('persona-editor');
     };
 
+    const handleImport = async () => {
+        setIsImporting(true);
+        try {
+            const draft = await characterCardFileService.pickCard();
+            if (!draft) return;
+
+            const persona = await createPersona(draft);
+            if (personas.length === 0) {
+                await setDefaultPersona(persona.id);
+            }
+            showInfo(t('common.success'), t('settings.personas.importSuccess', { name: persona.name }));
+        } catch (error) {
+            showError(t('common.error'), error instanceof Error ? error.message : t('alert.error.default'));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
     const handleEdit = (persona: Persona) => {
         onNavigate('persona-editor', { personaId: persona.id });
     };
@@ -79,7 +101,9 @@ export function PersonaListScreen({ onNavigate, onBack }: PersonaListScreenProps
     };
 
     const getPersonaIcon = (persona: Persona) => (
-        <Text style={{ fontSize: 20 }}>🎭</Text>
+        persona.avatar
+            ? <Image source={{ uri: persona.avatar }} style={styles.avatar} />
+            : <Text style={{ fontSize: 20 }}>🎭</Text>
     );
 
     return (
@@ -90,9 +114,21 @@ export function PersonaListScreen({ onNavigate, onBack }: PersonaListScreenProps
                     <Ionicons name="arrow-back" size={24} color={colors.text} />
                 </TouchableOpacity>
                 <Text style={[styles.title, { color: colors.text }]}>{t('settings.personas.title')}</Text>
-                <TouchableOpacity onPress={handleCreate} style={styles.addButton}>
-                    <Ionicons name="add" size={24} color={colors.tint} />
-                </TouchableOpacity>
+                <View style={styles.headerActions}>
+                    <TouchableOpacity
+                        onPress={handleImport}
+                        style={styles.addButton}
+                        disabled={isImporting}
+                        accessibilityLabel={t('settings.personas.import')}
+                    >
+                        {isImporting
+                            ? <ActivityIndicator size="small" color={colors.tint} />
+                            : <Ionicons name="download-outline" size={24} color={colors.tint} />}
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={handleCreate} style={styles.addButton}>
+                        <Ionicons name="add" size={24} color={colors.tint} />
+                    </TouchableOpacity>
+                </View>
             </View>
 
             {personas.length === 0 ? (
@@ -115,6 +151,16 @@ export function PersonaListScreen({ onNavigate, onBack }: PersonaListScreenProps
                                 {t('settings.personas.emptyState.cta')}
                             </Text>
                         </TouchableOpacity>
+                        <TouchableOpacity
+                            style={styles.importButton}
+                            onPress={handleImport}
+                            disabled={isImporting}
+                        >
+                            <Ionicons name="download-outline" size={20} color={colors.tint} />
+                            <Text style={[styles.importButtonText, { color: colors.tint }]}>
+                                {t('settings.personas.import')}
+                            </Text>
+                        </TouchableOpacity>
                     </View>
                 </ResponsiveContainer>
             ) : (
@@ -160,9 +206,18 @@ const styles = StyleSheet.create({
         fontSize: FontSizes.xl,
         fontWeight: '600',
     },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
     addButton: {
         padding: Spacing.xs,
     },
+    avatar: {
+        width: 32,
+        height: 32,
+        borderRadius: BorderRadius.sm,
+    },
     content: {
         flex: 1,
     },
@@ -200,4 +255,16 @@ const styles = StyleSheet.create({
         fontSize: FontSizes.md,
         fontWeight: '600',
     },
+    importButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: Spacing.lg,
+        paddingVertical: Spacing.sm,
+        marginTop: Spacing.sm,
+        gap: Spacing.xs,
+    },
+    importButtonText: {
+        fontSize: FontSizes.md,
+        fontWeight: '600',
+    },
 });
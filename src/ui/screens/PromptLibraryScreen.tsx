@@ -0,0 +1,184 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../config/theme';
+import { getTemplateCommand } from '../../core/prompts';
+import { PromptTemplate } from '../../core/types';
+import { usePromptTemplateStore } from '../../state';
+import { showConfirm } from '../../utils/alert';
+import { ResourceCard, ResponsiveContainer } from '../components/common';
+import { PromptTemplateEditorModal } from '../components/settings';
+import { useAppColorScheme, useLocale } from '../hooks';
+
+interface PromptLibraryScreenProps {
+    onBack: () => void;
+}
+
+export function PromptLibraryScreen({ onBack }: PromptLibraryScreenProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+
+    const { templates, loadTemplates, deleteTemplate } = usePromptTemplateStore();
+
+    const [isEditorVisible, setIsEditorVisible] = useState(false);
+    const [editingTemplate, setEditingTemplate] = useState<PromptTemplate | undefined>();
+
+    useEffect(() => {
+        loadTemplates();
+    }, []);
+
+    const handleCreate = () => {
+        setEditingTemplate(undefined);
+        setIsEditorVisible(true);
+    };
+
+    const handleEdit = (template: PromptTemplate) => {
+        setEditingTemplate(template);
+        setIsEditorVisible(true);
+    };
+
+    const handleDelete = async (template: PromptTemplate) => {
+        const confirmed = await showConfirm(
+            t('prompts.delete.title'),
+            t('prompts.delete.confirm', { name: template.name }),
+            t('common.delete'),
+            t('common.cancel'),
+            true
+        );
+        if (confirmed) {
+            await deleteTemplate(template.id);
+        }
+    };
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+            {/* Header */}
+            <View style={[styles.header, { borderBottomColor: colors.border }]}>
+                <TouchableOpacity onPress={onBack} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.title, { color: colors.text }]}>{t('prompts.title')}</Text>
+                <TouchableOpacity onPress={handleCreate} style={styles.addButton}>
+                    <Ionicons name="add" size={24} color={colors.tint} />
+                </TouchableOpacity>
+            </View>
+
+            {templates.length === 0 ? (
+                /* Empty State */
+                <ResponsiveContainer>
+                    <View style={styles.emptyState}>
+                        <Ionicons name="flash-outline" size={64} color={colors.textMuted} />
+                        <Text style={[styles.emptyTitle, { color: colors.text }]}>
+                            {t('prompts.emptyState.title')}
+                        </Text>
+                        <Text style={[styles.emptyDescription, { color: colors.textMuted }]}>
+                            {t('prompts.emptyState.description')}
+                        </Text>
+                        <TouchableOpacity
+                            style={[styles.emptyButton, { backgroundColor: colors.tint }]}
+                            onPress={handleCreate}
+                        >
+                            <Ionicons name="add" size={20} color="#FFFFFF" />
+                            <Text style={styles.emptyButtonText}>
+                                {t('prompts.emptyState.cta')}
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+                </ResponsiveContainer>
+            ) : (
+                <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                    <ResponsiveContainer>
+                        {templates.map((template) => (
+                            <ResourceCard
+                                key={template.id}
+                                title={template.name}
+                                subtitle={`/${getTemplateCommand(template.name)}`}
+                                description={template.description || template.content}
+                                icon={<Ionicons name="flash-outline" size={20} color={colors.tint} />}
+                                iconColor={colors.backgroundSecondary}
+                                showDefaultBadge={false}
+                                onPress={() => handleEdit(template)}
+                                onDelete={() => handleDelete(template)}
+                            />
+                        ))}
+                    </ResponsiveContainer>
+                </ScrollView>
+            )}
+
+            <PromptTemplateEditorModal
+                visible={isEditorVisible}
+                template={editingTemplate}
+                onClose={() => setIsEditorVisible(false)}
+            />
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.md,
+        borderBottomWidth: 1,
+    },
+    backButton: {
+        padding: Spacing.xs,
+    },
+    title: {
+        fontSize: FontSizes.xl,
+        fontWeight: '600',
+    },
+    addButton: {
+        padding: Spacing.xs,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: Spacing.md,
+    },
+    emptyState: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: Spacing.xl,
+    },
+    emptyTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+        marginTop: Spacing.md,
+    },
+    emptyDescription: {
+        fontSize: FontSizes.md,
+        textAlign: 'center',
+        marginTop: Spacing.sm,
+        maxWidth: 280,
+    },
+    emptyButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: Spacing.lg,
+        paddingVertical: Spacing.sm,
+        borderRadius: BorderRadius.md,
+        marginTop: Spacing.lg,
+        gap: Spacing.xs,
+    },
+    emptyButtonText: {
+        color: '#FFFFFF',
+        fontSize: FontSizes.md,
+        fontWeight: '600',
+    },
+});
@@ -12,7 +12,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { BorderRadius, Colors, FontSizes, Spacing } from '../../config/theme';
-import { RAGProvider } from '../../core/types';
+import { DEFAULT_RAG_RETRIEVAL_SETTINGS, RAGProvider, RAGRetrievalSettings } from '../../core/types';
 import { useLLMStore, useModelDownloadStore, useOllamaModelStore, useProviderConfigStore } from '../../state';
 import { useAppColorScheme, useLocale } from '../hooks';
 
@@ -22,8 +22,8 @@ interface RAGProviderEditorScreenProps {
     onBack: () => void;
 }
 
-// Selectable providers (local + ollama)
-type SelectableRAGProvider = 'executorch' | 'llama-cpp' | 'ollama';
+// Selectable providers (local + remote)
+type SelectableRAGProvider = 'executorch' | 'llama-cpp' | 'ollama' | 'openai';
 
 // RAG provider info
 const RAG_PROVIDER_INFO: Record<SelectableRAGProvider, { name: string; color: string; description: string }> = {
@@ -42,14 +42,54 @@ const RAG_PROVIDER_INFO: Record<SelectableRAGProvider, { name: string; color: st
         color: '#1D1D1D',
         description: 'Embeddings via Ollama server',
     },
+    openai: {
+        name: 'OpenAI Compatible',
+        color: '#10a37f',
+        description: 'Embeddings via OpenAI or a compatible API',
+    },
 };
 
 // Selectable providers list
-const RAG_PROVIDERS: SelectableRAGProvider[] = ['executorch', 'llama-cpp', 'ollama'];
+const RAG_PROVIDERS: SelectableRAGProvider[] = ['executorch', 'llama-cpp', 'ollama', 'openai'];
+
+// Well-known OpenAI embedding models (compatible servers can use any model name)
+const OPENAI_EMBEDDING_MODELS = ['text-embedding-3-small', 'text-embedding-3-large', 'text-embedding-ada-002'];
+
+// Numeric retrieval settings edited as text fields
+type NumericRetrievalSetting = Exclude<keyof RAGRetrievalSettings, 'useMMR'>;
+
+// Allowed range per numeric retrieval setting
+const RETRIEVAL_LIMITS: Record<NumericRetrievalSetting, { min: number; max: number; integer?: boolean }> = {
+    topK: { min: 1, max: 50, integer: true },
+    vectorWeight: { min: 0, max: 10 },
+    keywordWeight: { min: 0, max: 10 },
+    minSimilarity: { min: 0, max: 1 },
+    mmrLambda: { min: 0, max: 1 },
+};
+
+function toRetrievalFields(settings: RAGRetrievalSettings): Record<NumericRetrievalSetting, string> {
+    return {
+        topK: String(settings.topK),
+        vectorWeight: String(settings.vectorWeight),
+        keywordWeight: String(settings.keywordWeight),
+        minSimilarity: String(settings.minSimilarity),
+        mmrLambda: String(settings.mmrLambda),
+    };
+}
+
+// Parse a text field, falling back to the default and clamping to the allowed range
+function parseRetrievalSetting(key: NumericRetrievalSetting, text: string): number {
+    const { min, max, integer } = RETRIEVAL_LIMITS[key];
+    const value = integer ? parseInt(text, 10) : parseFloat(text.replace(',', '.'));
+    if (!Number.isFinite(value)) {
+        return DEFAULT_RAG_RETRIEVAL_SETTINGS[key];
+    }
+    return Math.min(max, Math.max(min, value));
+}
 
 // Helper to safely get provider info
 function getProviderInfo(provider: RAGProvider) {
-    if (provider === 'none' || provider === 'openai') {
+    if (provider === 'none') {
         return { name: provider.charAt(0).toUpperCase() + provider.slice(1), color: '#888888', description: 'Provider' };
     }
     return RAG_PROVIDER_INFO[provider as SelectableRAGProvider];
@@ -76,6 +116,10 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
     const [name, setName] = useState('');
     const [provider, setProvider] = useState<RAGProvider>(initialProvider || 'executorch');
     const [selectedModelId, setSelectedModelId] = useState<string>('');
+    const [llmConfigId, setLlmConfigId] = useState<string>('');
+    const [dimensions, setDimensions] = useState('');
+    const [retrievalFields, setRetrievalFields] = useState(toRetrievalFields(DEFAULT_RAG_RETRIEVAL_SETTINGS));
+    const [useMMR, setUseMMR] = useState(DEFAULT_RAG_RETRIEVAL_SETTINGS.useMMR);
     const [isDefault, setIsDefault] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const [showProviderPicker, setShowProviderPicker] = useState(false);
@@ -85,6 +129,9 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
     // Get Ollama LLM config for baseUrl
     const ollamaConfig = llmConfigs.find(c => c.provider === 'ollama');
 
+    // LLM configs whose credentials can be reused for OpenAI embeddings
+    const openaiLLMConfigs = llmConfigs.filter(c => c.provider === 'openai' || c.provider === 'openai-spec');
+
     // Get embedding models based on selected provider
     const localEmbeddingModels = downloadedModels.filter(m =>
         m.provider === provider && m.type === 'embedding'
@@ -104,6 +151,11 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
                 setName(existingConfig.name);
                 setProvider(existingConfig.provider);
                 setSelectedModelId(existingConfig.modelId);
+                setLlmConfigId(existingConfig.llmConfigId ?? '');
+                setDimensions(existingConfig.dimensions ? String(existingConfig.dimensions) : '');
+                const retrieval = { ...DEFAULT_RAG_RETRIEVAL_SETTINGS, ...existingConfig.retrievalSettings };
+                setRetrievalFields(toRetrievalFields(retrieval));
+                setUseMMR(retrieval.useMMR);
                 setIsDefault(existingConfig.isDefault);
             }
         } else {
@@ -111,7 +163,9 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
             const info = getProviderInfo(provider);
             setName(info.name);
             // Auto-select first embedding model if available
-            if (embeddingModels.length > 0 && embeddingModels[0]) {
+            if (provider === 'openai') {
+                selectOpenAIDefaults();
+            } else if (embeddingModels.length > 0 && embeddingModels[0]) {
                 setSelectedModelId(embeddingModels[0].id);
             }
         }
@@ -124,8 +178,29 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
         }
     }, [provider, ollamaHasFetched, ollamaConfig, fetchOllamaModels]);
 
+    const selectOpenAIDefaults = () => {
+        setLlmConfigId((current) => current || openaiLLMConfigs[0]?.id || '');
+        setSelectedModelId(OPENAI_EMBEDDING_MODELS[0]!);
+    };
+
     const handleSave = async () => {
-        if (!name.trim() || !selectedModelId) return;
+        if (!canSave) return;
+
+        // Remote-only settings are cleared for other providers
+        const isOpenAI = provider === 'openai';
+        const parsedDimensions = parseInt(dimensions, 10);
+        const remoteFields = {
+            llmConfigId: isOpenAI ? llmConfigId : undefined,
+            dimensions: isOpenAI && parsedDimensions > 0 ? parsedDimensions : undefined,
+        };
+        const retrievalSettings: RAGRetrievalSettings = {
+            topK: parseRetrievalSetting('topK', retrievalFields.topK),
+            vectorWeight: parseRetrievalSetting('vectorWeight', retrievalFields.vectorWeight),
+            keywordWeight: parseRetrievalSetting('keywordWeight', retrievalFields.keywordWeight),
+            minSimilarity: parseRetrievalSetting('minSimilarity', retrievalFields.minSimilarity),
+            useMMR,
+            mmrLambda: parseRetrievalSetting('mmrLambda', retrievalFields.mmrLambda),
+        };
 
         setIsSaving(true);
         try {
@@ -138,7 +213,9 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
                         ...existingConfig,
                         name: name.trim(),
                         provider,
-                        modelId: selectedModelId,
+                        modelId: selectedModelId.trim(),
+                        ...remoteFields,
+                        retrievalSettings,
                         isDefault,
                         updatedAt: now,
                     });
@@ -147,7 +224,9 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
                 await addProvider({
                     name: name.trim(),
                     provider,
-                    modelId: selectedModelId,
+                    modelId: selectedModelId.trim(),
+                    ...remoteFields,
+                    retrievalSettings,
                     isDefault: configs.length === 0 ? true : isDefault, // First config is default
                 });
             }
@@ -159,7 +238,27 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
         }
     };
 
-    const canSave = name.trim().length > 0 && selectedModelId.length > 0;
+    const renderRetrievalField = (key: NumericRetrievalSetting) => (
+        <View key={key} style={[styles.toggleRow, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+            <View style={styles.toggleInfo}>
+                <Text style={[styles.toggleLabel, { color: colors.text }]}>
+                    {t(`rag.editor.retrieval.${key}`)}
+                </Text>
+                <Text style={[styles.toggleHint, { color: colors.textMuted }]}>
+                    {t(`rag.editor.retrieval.${key}Hint`)}
+                </Text>
+            </View>
+            <TextInput
+                style={[styles.numberInput, { color: colors.text, borderColor: colors.border }]}
+                value={retrievalFields[key]}
+                onChangeText={(text) => setRetrievalFields((fields) => ({ ...fields, [key]: text.replace(/[^0-9.,]/g, '') }))}
+                keyboardType={RETRIEVAL_LIMITS[key].integer ? 'number-pad' : 'decimal-pad'}
+            />
+        </View>
+    );
+
+    const canSave = name.trim().length > 0 && selectedModelId.trim().length > 0 &&
+        (provider !== 'openai' || llmConfigId.length > 0);
 
     if (Platform.OS === 'web') {
         return (
@@ -257,6 +356,9 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
                                             if (!isEditing) {
                                                 setName(info.name);
                                             }
+                                            if (p === 'openai' && provider !== 'openai') {
+                                                selectOpenAIDefaults();
+                                            }
                                             setShowProviderPicker(false);
                                         }}
                                     >
@@ -319,13 +421,101 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
                     </View>
                 </View>
 
+                {/* Connection (OpenAI-compatible only) */}
+                {provider === 'openai' && (
+                    <View style={styles.section}>
+                        <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                            {t('rag.editor.connection')}
+                        </Text>
+                        {openaiLLMConfigs.length === 0 ? (
+                            <View style={[styles.noModelsContainer, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+                                <Ionicons name="key-outline" size={32} color={colors.textMuted} />
+                                <Text style={[styles.noModelsText, { color: colors.textMuted }]}>
+                                    {t('rag.openai.notConfigured')}
+                                </Text>
+                            </View>
+                        ) : (
+                            <View style={styles.modelList}>
+                                {openaiLLMConfigs.map((llmConfig) => {
+                                    const isSelected = llmConfigId === llmConfig.id;
+                                    return (
+                                        <TouchableOpacity
+                                            key={llmConfig.id}
+                                            style={[
+                                                styles.modelItem,
+                                                { backgroundColor: colors.cardBackground, borderColor: isSelected ? colors.tint : colors.border },
+                                                isSelected && { borderWidth: 2 },
+                                            ]}
+                                            onPress={() => setLlmConfigId(llmConfig.id)}
+                                        >
+                                            <View style={styles.modelInfo}>
+                                                <Text style={[styles.modelName, { color: colors.text }]}>
+                                                    {llmConfig.name}
+                                                </Text>
+                                                <Text style={[styles.modelDescription, { color: colors.textMuted }]} numberOfLines={1}>
+                                                    {llmConfig.baseUrl}
+                                                </Text>
+                                            </View>
+                                            {isSelected && (
+                                                <Ionicons name="checkmark-circle" size={24} color={colors.tint} />
+                                            )}
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+                        )}
+                    </View>
+                )}
+
                 {/* Model Selection (at bottom) */}
                 <View style={styles.section}>
                     <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
                         {t('rag.editor.model')}
                     </Text>
 
-                    {embeddingModels.length === 0 ? (
+                    {provider === 'openai' ? (
+                        <>
+                            <View style={[styles.inputContainer, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+                                <TextInput
+                                    style={[styles.input, { color: colors.text }]}
+                                    value={selectedModelId}
+                                    onChangeText={setSelectedModelId}
+                                    placeholder={t('rag.editor.modelPlaceholder')}
+                                    placeholderTextColor={colors.textMuted}
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                />
+                            </View>
+                            <View style={styles.modelTags}>
+                                {OPENAI_EMBEDDING_MODELS.map((model) => (
+                                    <TouchableOpacity
+                                        key={model}
+                                        style={[styles.tag, { backgroundColor: colors.tint + '20' }]}
+                                        onPress={() => setSelectedModelId(model)}
+                                    >
+                                        <Text style={[styles.tagText, { color: colors.tint }]}>{model}</Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+
+                            <Text style={[styles.sectionTitle, styles.subsectionTitle, { color: colors.textSecondary }]}>
+                                {t('rag.editor.dimensions')}
+                            </Text>
+                            <View style={[styles.inputContainer, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+                                <TextInput
+                                    style={[styles.input, { color: colors.text }]}
+                                    value={dimensions}
+                                    onChangeText={(text) => setDimensions(text.replace(/[^0-9]/g, ''))}
+                                    placeholder={t('rag.editor.dimensionsPlaceholder')}
+                                    placeholderTextColor={colors.textMuted}
+                                    keyboardType="number-pad"
+                                />
+                            </View>
+                            <Text style={[styles.toggleHint, styles.fieldHint, { color: colors.textMuted }]}>
+                                {t('rag.editor.dimensionsHint')}
+                            </Text>
+                        </>
+                    ) : embeddingModels.length === 0 ? (
                         <View style={[styles.noModelsContainer, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
                             <Ionicons name="cube-outline" size={32} color={colors.textMuted} />
                             <Text style={[styles.noModelsText, { color: colors.textMuted }]}>
@@ -372,6 +562,36 @@ export function RAGProviderEditorScreen({ configId, provider: initialProvider, o
                         </View>
                     )}
                 </View>
+
+                {/* Retrieval */}
+                <View style={styles.section}>
+                    <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                        {t('rag.editor.retrieval.title')}
+                    </Text>
+                    <View style={styles.modelList}>
+                        {renderRetrievalField('topK')}
+                        {renderRetrievalField('vectorWeight')}
+                        {renderRetrievalField('keywordWeight')}
+                        {renderRetrievalField('minSimilarity')}
+                        <View style={[styles.toggleRow, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+                            <View style={styles.toggleInfo}>
+                                <Text style={[styles.toggleLabel, { color: colors.text }]}>
+                                    {t('rag.editor.retrieval.useMMR')}
+                                </Text>
+                                <Text style={[styles.toggleHint, { color: colors.textMuted }]}>
+                                    {t('rag.editor.retrieval.useMMRHint')}
+                                </Text>
+                            </View>
+                            <Switch
+                                value={useMMR}
+                                onValueChange={setUseMMR}
+                                trackColor={{ false: colors.border, true: colors.tint + '80' }}
+                                thumbColor={useMMR ? colors.tint : colors.background}
+                            />
+                        </View>
+                        {useMMR && renderRetrievalField('mmrLambda')}
+                    </View>
+                </View>
             </ScrollView>
         </SafeAreaView>
     );
@@ -500,6 +720,23 @@ const styles = StyleSheet.create({
         fontSize: FontSizes.sm,
         marginTop: 2,
     },
+    numberInput: {
+        width: 72,
+        borderWidth: 1,
+        borderRadius: BorderRadius.sm,
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: Spacing.xs,
+        marginLeft: Spacing.md,
+        fontSize: FontSizes.md,
+        textAlign: 'right',
+    },
+    subsectionTitle: {
+        marginTop: Spacing.md,
+    },
+    fieldHint: {
+        marginTop: Spacing.xs,
+        marginLeft: Spacing.xs,
+    },
     noModelsContainer: {
         alignItems: 'center',
         padding: Spacing.xl,
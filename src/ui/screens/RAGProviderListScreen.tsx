@@ -21,8 +21,8 @@ interface RAGProviderListScreenProps {
     onBack: () => void;
 }
 
-// Selectable providers (local + ollama)
-type SelectableRAGProvider = 'executorch' | 'llama-cpp' | 'ollama';
+// Selectable providers (local + remote)
+type SelectableRAGProvider = 'executorch' | 'llama-cpp' | 'ollama' | 'openai';
 
 // RAG provider info
 const RAG_PROVIDER_INFO: Record<SelectableRAGProvider, { name: string; color: string; description: string }> = {
@@ -41,11 +41,16 @@ const RAG_PROVIDER_INFO: Record<SelectableRAGProvider, { name: string; color: st
         color: '#1D1D1D',
         description: 'Embeddings via Ollama server',
     },
+    openai: {
+        name: 'OpenAI Compatible',
+        color: '#10a37f',
+        description: 'Embeddings via OpenAI or a compatible API',
+    },
 };
 
 // Helper to safely get provider info
 function getProviderInfo(provider: RAGProvider) {
-    if (provider === 'none' || provider === 'openai') {
+    if (provider === 'none') {
         return { name: provider.charAt(0).toUpperCase() + provider.slice(1), color: '#888888', description: 'Provider' };
     }
     return RAG_PROVIDER_INFO[provider as SelectableRAGProvider];
@@ -75,8 +80,11 @@ export function RAGProviderListScreen({ onNavigate, onBack }: RAGProviderListScr
     // Get Ollama LLM config for baseUrl
     const ollamaConfig = llmConfigs.find(c => c.provider === 'ollama');
 
+    // OpenAI embeddings reuse the credentials of an OpenAI / OpenAI-compatible LLM config
+    const hasOpenAIConfig = llmConfigs.some(c => c.provider === 'openai' || c.provider === 'openai-spec');
+
     // RAG providers available for adding
-    const providerOptions: SelectableRAGProvider[] = ['executorch', 'llama-cpp', 'ollama'];
+    const providerOptions: SelectableRAGProvider[] = ['executorch', 'llama-cpp', 'ollama', 'openai'];
 
     // Get embedding models (downloaded models with 'Embedding' tag)
     const embeddingModels = downloadedModels.filter(m =>
@@ -112,6 +120,15 @@ export function RAGProviderListScreen({ onNavigate, onBack }: RAGProviderListScr
             return;
         }
 
+        if (provider === 'openai') {
+            if (!hasOpenAIConfig) {
+                showInfo(t('rag.openai.notConfiguredTitle'), t('rag.openai.notConfigured'));
+                return;
+            }
+            onNavigate('rag-provider-editor', { provider });
+            return;
+        }
+
         // For local providers, check for downloaded embedding models
         if (embeddingModels.length === 0) {
             showInfo(
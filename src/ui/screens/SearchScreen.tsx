@@ -0,0 +1,474 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    ActivityIndicator,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { BorderRadius, Colors, FontSizes, Spacing } from '../../config/theme';
+import {
+    MessageSearchFilters,
+    MessageSearchHit,
+    messageSearchIndex,
+    splitHighlights,
+} from '../../core/search';
+import { conversationRepository } from '../../core/storage';
+import { Conversation } from '../../core/types';
+import { useConversationStore, useLLMStore, usePersonaStore } from '../../state';
+import { Dropdown, ResponsiveContainer } from '../components/common';
+import { useAppColorScheme, useLocale } from '../hooks';
+
+const SEARCH_DEBOUNCE_MS = 250;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DateRange = 'any' | 'day' | 'week' | 'month' | 'year';
+
+const DATE_RANGE_MS: Record<Exclude<DateRange, 'any'>, number> = {
+    day: DAY_MS,
+    week: 7 * DAY_MS,
+    month: 30 * DAY_MS,
+    year: 365 * DAY_MS,
+};
+
+interface SearchScreenProps {
+    onBack: () => void;
+}
+
+export function SearchScreen({ onBack }: SearchScreenProps) {
+    const colorScheme = useAppColorScheme();
+    const colors = Colors[colorScheme];
+    const { t } = useLocale();
+
+    const conversations = useConversationStore((s) => s.conversations);
+    const openMessage = useConversationStore((s) => s.openMessage);
+    const selectConversation = useConversationStore((s) => s.selectConversation);
+    const { configs, loadConfigs } = useLLMStore();
+    const { personas, loadPersonas } = usePersonaStore();
+
+    const [query, setQuery] = useState('');
+    const [providerId, setProviderId] = useState<string | null>(null);
+    const [modelId, setModelId] = useState<string | null>(null);
+    const [personaId, setPersonaId] = useState<string | null>(null);
+    const [dateRange, setDateRange] = useState<DateRange>('any');
+
+    const [conversationHits, setConversationHits] = useState<Conversation[]>([]);
+    const [messageHits, setMessageHits] = useState<MessageSearchHit[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+
+    useEffect(() => {
+        loadConfigs();
+        loadPersonas();
+    }, []);
+
+    // Models are taken from existing conversations so only useful choices are offered
+    const modelOptions = useMemo(() => {
+        const models = new Set<string>();
+        for (const conv of conversations) {
+            if (!providerId || conv.providerId === providerId) {
+                models.add(conv.modelId);
+            }
+        }
+        return [...models].sort().map((m) => ({ label: m, value: m as string | null }));
+    }, [conversations, providerId]);
+
+    const filters = useMemo<MessageSearchFilters>(() => ({
+        providerId: providerId ?? undefined,
+        modelId: modelId ?? undefined,
+        personaId: personaId ?? undefined,
+        from: dateRange === 'any' ? undefined : Date.now() - DATE_RANGE_MS[dateRange],
+    }), [providerId, modelId, personaId, dateRange]);
+
+    useEffect(() => {
+        const trimmed = query.trim();
+        if (!trimmed) {
+            setConversationHits([]);
+            setMessageHits([]);
+            setIsSearching(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsSearching(true);
+
+        const timer = setTimeout(async () => {
+            try {
+                const [titleMatches, messageMatches] = await Promise.all([
+                    conversationRepository.search(trimmed),
+                    messageSearchIndex.search(trimmed, filters),
+                ]);
+                if (cancelled) return;
+
+                setConversationHits(titleMatches.filter((conv) =>
+                    (!filters.providerId || conv.providerId === filters.providerId) &&
+                    (!filters.modelId || conv.modelId === filters.modelId) &&
+                    (!filters.personaId || conv.personaId === filters.personaId) &&
+                    (!filters.from || conv.updatedAt >= filters.from)
+                ));
+                setMessageHits(messageMatches);
+            } catch (error) {
+                console.error('[SearchScreen] Search failed:', error);
+                if (!cancelled) {
+                    setConversationHits([]);
+                    setMessageHits([]);
+                }
+            } finally {
+                if (!cancelled) setIsSearching(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query, filters]);
+
+    const conversationTitles = useMemo(
+        () => new Map(conversations.map((c) => [c.id, c.title])),
+        [conversations]
+    );
+
+    const handleSelectProvider = (value: string | null) => {
+        setProviderId(value);
+        setModelId(null);
+    };
+
+    const handleOpenConversation = async (conversationId: string) => {
+        await selectConversation(conversationId);
+        onBack();
+    };
+
+    const handleOpenMessage = async (hit: MessageSearchHit) => {
+        await openMessage(hit.conversationId, hit.messageId);
+        onBack();
+    };
+
+    const formatDate = (timestamp: number) =>
+        new Date(timestamp).toLocaleDateString([], {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+        });
+
+    const renderSnippet = (snippet: string) => (
+        <Text style={[styles.snippet, { color: colors.textSecondary }]} numberOfLines={3}>
+            {splitHighlights(snippet).map((part, i) => (
+                <Text
+                    key={i}
+                    style={part.highlighted ? [styles.highlight, { color: colors.text, backgroundColor: colors.tint + '30' }] : undefined}
+                >
+                    {part.text}
+                </Text>
+            ))}
+        </Text>
+    );
+
+    const anyOption = { label: t('search.filter.any'), value: null as string | null };
+    const hasQuery = query.trim().length > 0;
+    const hasResults = conversationHits.length > 0 || messageHits.length > 0;
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+            {/* Header */}
+            <View style={[styles.header, { borderBottomColor: colors.border }]}>
+                <TouchableOpacity onPress={onBack} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.title, { color: colors.text }]}>{t('search.title')}</Text>
+                <View style={styles.placeholder} />
+            </View>
+
+            {/* Search Bar */}
+            <ResponsiveContainer>
+                <View style={styles.searchContainer}>
+                    <View
+                        style={[
+                            styles.searchInputContainer,
+                            {
+                                backgroundColor: colors.backgroundSecondary,
+                                borderColor: colors.border,
+                            },
+                        ]}
+                    >
+                        <Ionicons
+                            name="search"
+                            size={20}
+                            color={colors.textMuted}
+                            style={styles.searchIcon}
+                        />
+                        <TextInput
+                            style={[styles.searchInput, { color: colors.text }]}
+                            placeholder={t('search.placeholder')}
+                            placeholderTextColor={colors.textMuted}
+                            value={query}
+                            onChangeText={setQuery}
+                            autoFocus
+                        />
+                        {query.length > 0 && (
+                            <TouchableOpacity onPress={() => setQuery('')}>
+                                <Ionicons
+                                    name="close-circle"
+                                    size={20}
+                                    color={colors.textMuted}
+                                />
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                </View>
+            </ResponsiveContainer>
+
+            {/* Filters */}
+            <ResponsiveContainer>
+                <View style={styles.filterGrid}>
+                    <View style={styles.filterItem}>
+                        <Dropdown
+                            label={t('search.filter.provider')}
+                            value={providerId}
+                            options={[anyOption, ...configs.map((c) => ({ label: c.name, value: c.id as string | null }))]}
+                            onSelect={handleSelectProvider}
+                        />
+                    </View>
+                    <View style={styles.filterItem}>
+                        <Dropdown
+                            label={t('search.filter.model')}
+                            value={modelId}
+                            options={[anyOption, ...modelOptions]}
+                            onSelect={setModelId}
+                        />
+                    </View>
+                    <View style={styles.filterItem}>
+                        <Dropdown
+                            label={t('search.filter.persona')}
+                            value={personaId}
+                            options={[anyOption, ...personas.map((p) => ({ label: p.name, value: p.id as string | null }))]}
+                            onSelect={setPersonaId}
+                        />
+                    </View>
+                    <View style={styles.filterItem}>
+                        <Dropdown
+                            label={t('search.filter.date')}
+                            value={dateRange}
+                            options={[
+                                { label: t('search.filter.any'), value: 'any' as DateRange },
+                                { label: t('search.filter.date.day'), value: 'day' as DateRange },
+                                { label: t('search.filter.date.week'), value: 'week' as DateRange },
+                                { label: t('search.filter.date.month'), value: 'month' as DateRange },
+                                { label: t('search.filter.date.year'), value: 'year' as DateRange },
+                            ]}
+                            onSelect={setDateRange}
+                        />
+                    </View>
+                </View>
+            </ResponsiveContainer>
+
+            {!hasQuery ? (
+                /* Empty State */
+                <ResponsiveContainer>
+                    <View style={styles.emptyState}>
+                        <Ionicons name="search-outline" size={64} color={colors.textMuted} />
+                        <Text style={[styles.emptyTitle, { color: colors.text }]}>
+                            {t('search.empty.title')}
+                        </Text>
+                        <Text style={[styles.emptyDescription, { color: colors.textMuted }]}>
+                            {t('search.empty.description')}
+                        </Text>
+                    </View>
+                </ResponsiveContainer>
+            ) : isSearching && !hasResults ? (
+                <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color={colors.tint} />
+                </View>
+            ) : !hasResults ? (
+                <ResponsiveContainer>
+                    <View style={styles.emptyState}>
+                        <Text style={[styles.emptyDescription, { color: colors.textMuted }]}>
+                            {t('search.noResults', { query: query.trim() })}
+                        </Text>
+                    </View>
+                </ResponsiveContainer>
+            ) : (
+                <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                    <ResponsiveContainer>
+                        {conversationHits.length > 0 && (
+                            <>
+                                <Text style={[styles.sectionTitle, { color: colors.textMuted }]}>
+                                    {t('search.section.conversations')}
+                                </Text>
+                                {conversationHits.map((conv) => (
+                                    <TouchableOpacity
+                                        key={conv.id}
+                                        style={[styles.resultItem, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+                                        onPress={() => handleOpenConversation(conv.id)}
+                                    >
+                                        <View style={styles.resultHeader}>
+                                            <Ionicons name="chatbubble-outline" size={16} color={colors.textMuted} />
+                                            <Text style={[styles.resultTitle, { color: colors.text }]} numberOfLines={1}>
+                                                {conv.title}
+                                            </Text>
+                                            <Text style={[styles.resultMeta, { color: colors.textMuted }]}>
+                                                {formatDate(conv.updatedAt)}
+                                            </Text>
+                                        </View>
+                                    </TouchableOpacity>
+                                ))}
+                            </>
+                        )}
+
+                        {messageHits.length > 0 && (
+                            <>
+                                <Text style={[styles.sectionTitle, { color: colors.textMuted }]}>
+                                    {t('search.section.messages')}
+                                </Text>
+                                {messageHits.map((hit) => (
+                                    <TouchableOpacity
+                                        key={hit.messageId}
+                                        style={[styles.resultItem, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+                                        onPress={() => handleOpenMessage(hit)}
+                                    >
+                                        <View style={styles.resultHeader}>
+                                            <Ionicons
+                                                name={hit.role === 'user' ? 'person-outline' : 'sparkles-outline'}
+                                                size={16}
+                                                color={colors.textMuted}
+                                            />
+                                            <Text style={[styles.resultTitle, { color: colors.text }]} numberOfLines={1}>
+                                                {conversationTitles.get(hit.conversationId) ?? hit.modelId}
+                                            </Text>
+                                            <Text style={[styles.resultMeta, { color: colors.textMuted }]}>
+                                                {formatDate(hit.timestamp)}
+                                            </Text>
+                                        </View>
+                                        <Text style={[styles.resultMeta, { color: colors.textMuted }]}>
+                                            {hit.role === 'user' ? t('search.role.user') : t('search.role.assistant')}
+                                            {hit.modelId ? ` · ${hit.modelId}` : ''}
+                                        </Text>
+                                        {renderSnippet(hit.snippet)}
+                                    </TouchableOpacity>
+                                ))}
+                            </>
+                        )}
+                    </ResponsiveContainer>
+                </ScrollView>
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.md,
+        borderBottomWidth: 1,
+    },
+    backButton: {
+        padding: Spacing.xs,
+    },
+    title: {
+        fontSize: FontSizes.xl,
+        fontWeight: '600',
+    },
+    placeholder: {
+        width: 32,
+    },
+    searchContainer: {
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+    },
+    searchInputContainer: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderWidth: 1,
+        borderRadius: BorderRadius.md,
+        paddingHorizontal: Spacing.sm,
+    },
+    searchIcon: {
+        marginRight: Spacing.xs,
+    },
+    searchInput: {
+        flex: 1,
+        paddingVertical: Spacing.sm,
+        fontSize: FontSizes.md,
+    },
+    filterGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        paddingHorizontal: Spacing.md,
+        gap: Spacing.sm,
+    },
+    filterItem: {
+        flexGrow: 1,
+        flexBasis: 140,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: Spacing.md,
+    },
+    loadingContainer: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    sectionTitle: {
+        fontSize: FontSizes.sm,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        marginTop: Spacing.sm,
+        marginBottom: Spacing.sm,
+    },
+    resultItem: {
+        borderRadius: BorderRadius.md,
+        borderWidth: 1,
+        padding: Spacing.md,
+        marginBottom: Spacing.sm,
+        gap: Spacing.xs,
+    },
+    resultHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.xs,
+    },
+    resultTitle: {
+        flex: 1,
+        fontSize: FontSizes.md,
+        fontWeight: '600',
+    },
+    resultMeta: {
+        fontSize: FontSizes.xs,
+    },
+    snippet: {
+        fontSize: FontSizes.sm,
+        lineHeight: 20,
+    },
+    highlight: {
+        fontWeight: '600',
+    },
+    emptyState: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: Spacing.xl,
+    },
+    emptyTitle: {
+        fontSize: FontSizes.lg,
+        fontWeight: '600',
+        marginTop: Spacing.md,
+    },
+    emptyDescription: {
+        fontSize: FontSizes.md,
+        textAlign: 'center',
+        marginTop: Spacing.sm,
+        maxWidth: 280,
+    },
+});
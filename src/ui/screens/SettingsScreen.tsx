@@ -6,6 +6,7 @@ import {
     Platform,
     ScrollView,
     StyleSheet,
+    Switch,
     Text,
     TouchableOpacity,
     View
@@ -13,13 +14,20 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ONBOARDING_LINKS } from '../../config/helpData'; // Added import
 import { BorderRadius, Colors, FontSizes, Spacing } from '../../config/theme';
-import { ThemeMode } from '../../core/types';
+import { ThemeMode, TitleGenerationSettings } from '../../core/types';
 import { SUPPORTED_LANGUAGES } from '../../locales';
-import { dataExportService } from '../../services';
-import { useLLMStore, usePersonaStore, useSettingsStore } from '../../state';
+import { BackupFile, dataExportService, ExportOptions, ImportOptions } from '../../services';
+import {
+    isLocalProvider,
+    useApiServerStore,
+    useLLMStore,
+    usePersonaStore,
+    usePromptTemplateStore,
+    useSettingsStore,
+} from '../../state';
 import { showError, showInfo } from '../../utils/alert';
-import { ResponsiveContainer } from '../components/common';
-import { SettingsSection } from '../components/settings';
+import { Dropdown, Input, ResponsiveContainer } from '../components/common';
+import { BackupExportModal, BackupImportModal, SettingsSection } from '../components/settings';
 import { useAppColorScheme, useLocale } from '../hooks';
 
 type ScreenType =
@@ -28,7 +36,10 @@ type ScreenType =
     | 'model-list'
     | 'persona-list'
     | 'persona-editor'
+    | 'prompt-library'
     | 'logs'
+    | 'generation-stats'
+    | 'api-server'
     | 'language-select'
     | 'rag-settings'
     | 'rag-provider-list'
@@ -47,16 +58,36 @@ export function SettingsScreen({ onNavigate, onBack }: SettingsScreenProps) {
     const { t } = useLocale();
     const [isExporting, setIsExporting] = useState(false);
     const [isImporting, setIsImporting] = useState(false);
+    const [showExportModal, setShowExportModal] = useState(false);
+    const [backupFile, setBackupFile] = useState<BackupFile | null>(null);
 
-    const { settings, setTheme } = useSettingsStore();
+    const { settings, setTheme, updateSettings } = useSettingsStore();
     const { configs } = useLLMStore();
     const { personas, loadPersonas } = usePersonaStore();
+    const { templates, loadTemplates } = usePromptTemplateStore();
+    const isApiServerRunning = useApiServerStore((state) => state.isRunning);
 
     // Load data on mount
     useEffect(() => {
         loadPersonas();
+        loadTemplates();
     }, []);
 
+    // Title model is saved when editing ends, not on every keystroke
+    const [titleModel, setTitleModel] = useState(settings.titleGeneration.model);
+    useEffect(() => {
+        setTitleModel(settings.titleGeneration.model);
+    }, [settings.titleGeneration.model]);
+
+    const titleConfig = configs.find((c) => c.id === settings.titleGeneration.llmId);
+    const titleProviderOptions = [
+        { label: t('settings.titles.sameAsConversation'), value: null as string | null },
+        ...configs.filter((c) => c.isEnabled).map((c) => ({ label: c.name, value: c.id as string | null })),
+    ];
+
+    const updateTitleGeneration = (updates: Partial<TitleGenerationSettings>) =>
+        updateSettings({ titleGeneration: { ...settings.titleGeneration, ...updates } });
+
     // Get current language info
     const currentLanguage = SUPPORTED_LANGUAGES.find(lang => lang.code === settings.language) || SUPPORTED_LANGUAGES[0];
 
@@ -66,19 +97,11 @@ export function SettingsScreen({ onNavigate, onBack }: SettingsScreenProps) {
         { label: t('settings.theme.system'), value: 'system', icon: 'phone-portrait' },
     ];
 
-    const handleExport = async () => {
+    const handleExport = async (options: ExportOptions) => {
         setIsExporting(true);
         try {
-            const summary = await dataExportService.getExportSummary();
-            showInfo(
-                t('settings.export.title'),
-                t('settings.export.summary', {
-                    llmConfigs: summary.llmConfigs,
-                    conversations: summary.conversations,
-                    messages: summary.messages,
-                })
-            );
-            await dataExportService.exportData();
+            await dataExportService.exportData(options);
+            setShowExportModal(false);
             showInfo(t('common.success'), t('settings.export.success'));
         } catch (error) {
             console.error('Export error:', error);
@@ -88,19 +111,34 @@ export function SettingsScreen({ onNavigate, onBack }: SettingsScreenProps) {
         }
     };
 
-    const handleImport = async () => {
+    const handlePickBackup = async () => {
+        try {
+            const file = await dataExportService.pickBackup();
+            if (file) setBackupFile(file);
+        } catch (error) {
+            console.error('Import error:', error);
+            showError(t('settings.import.failed'), error instanceof Error ? error.message : t('common.error'));
+        }
+    };
+
+    const handleImport = async (options: ImportOptions) => {
+        if (!backupFile) return;
         setIsImporting(true);
         try {
-            const result = await dataExportService.importData();
+            const result = await dataExportService.importData(backupFile, options);
             if (result.success) {
+                setBackupFile(null);
                 showInfo(
                     t('settings.import.success'),
                     result.stats
-                        ? t('settings.import.summary', {
-                            llmConfigs: result.stats.llmConfigs,
-                            conversations: result.stats.conversations,
-                            messages: result.stats.messages,
-                        })
+                        ? [
+                            t('settings.import.summary', {
+                                llmConfigs: result.stats.llmConfigs,
+                                conversations: result.stats.conversations,
+                                messages: result.stats.messages,
+                            }),
+                            result.stats.skipped > 0 && t('settings.import.skipped', { count: result.stats.skipped }),
+                        ].filter(Boolean).join('\n')
                         : result.message
                 );
             } else {
@@ -230,7 +268,7 @@ export function SettingsScreen({ onNavigate, onBack }: SettingsScreenProps) {
 
                         {/* Personas → Navigate to list */}
                         <TouchableOpacity
-                            style={[styles.settingItem, styles.linkItem]}
+                            style={[styles.settingItem, styles.linkItem, { borderBottomColor: colors.border }]}
                             onPress={() => onNavigate('persona-list')}
                         >
                             <View style={styles.settingInfo}>
@@ -245,13 +283,76 @@ export function SettingsScreen({ onNavigate, onBack }: SettingsScreenProps) {
                             </View>
                             <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
                         </TouchableOpacity>
+
+                        {/* Prompt library → Navigate to list */}
+                        <TouchableOpacity
+                            style={[styles.settingItem, styles.linkItem]}
+                            onPress={() => onNavigate('prompt-library')}
+                        >
+                            <View style={styles.settingInfo}>
+                                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                                    {t('prompts.title')}
+                                </Text>
+                                <Text style={[styles.settingDescription, { color: colors.textMuted }]}>
+                                    {templates.length === 0
+                                        ? t('prompts.empty')
+                                        : t('prompts.count', { count: templates.length })}
+                                </Text>
+                            </View>
+                            <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+                        </TouchableOpacity>
+                    </SettingsSection>
+
+                    {/* ===== CONVERSATIONS SECTION ===== */}
+                    <SettingsSection title={t('settings.titles.title')}>
+                        <View style={[styles.settingItem, { borderBottomColor: colors.border }]}>
+                            <View style={styles.settingInfo}>
+                                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                                    {t('settings.titles.auto')}
+                                </Text>
+                                <Text style={[styles.settingDescription, { color: colors.textMuted }]}>
+                                    {t('settings.titles.autoDesc')}
+                                </Text>
+                            </View>
+                            <Switch
+                                value={settings.titleGeneration.enabled}
+                                onValueChange={(enabled) => updateTitleGeneration({ enabled })}
+                                trackColor={{ false: colors.border, true: colors.tint + '80' }}
+                                thumbColor={settings.titleGeneration.enabled ? colors.tint : colors.background}
+                            />
+                        </View>
+
+                        <View style={styles.titleModelFields}>
+                            <Dropdown<string | null>
+                                label={t('settings.titles.provider')}
+                                value={titleConfig ? titleConfig.id : null}
+                                options={titleProviderOptions}
+                                onSelect={(llmId) => updateTitleGeneration({ llmId, model: '' })}
+                            />
+                            {titleConfig && (isLocalProvider(titleConfig.provider) ? (
+                                <Text style={[styles.settingDescription, { color: colors.textMuted }]}>
+                                    {t('settings.titles.localHint')}
+                                </Text>
+                            ) : (
+                                <Input
+                                    label={t('settings.titles.model')}
+                                    value={titleModel}
+                                    onChangeText={setTitleModel}
+                                    onBlur={() => updateTitleGeneration({ model: titleModel.trim() })}
+                                    placeholder={titleConfig.defaultModel}
+                                    hint={t('settings.titles.modelHint')}
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                />
+                            ))}
+                        </View>
                     </SettingsSection>
 
                     {/* ===== DATA MANAGEMENT SECTION ===== */}
                     <SettingsSection title={t('settings.data.title')}>
                         <TouchableOpacity
                             style={[styles.settingItem, { borderBottomColor: colors.border }]}
-                            onPress={handleExport}
+                            onPress={() => setShowExportModal(true)}
                             disabled={isExporting}
                         >
                             <View style={styles.settingInfo}>
@@ -271,7 +372,7 @@ export function SettingsScreen({ onNavigate, onBack }: SettingsScreenProps) {
 
                         <TouchableOpacity
                             style={[styles.settingItem, { borderBottomColor: colors.border }]}
-                            onPress={handleImport}
+                            onPress={handlePickBackup}
                             disabled={isImporting}
                         >
                             <View style={styles.settingInfo}>
@@ -293,6 +394,38 @@ export function SettingsScreen({ onNavigate, onBack }: SettingsScreenProps) {
 
                     {/* ===== DEVELOPER SECTION ===== */}
                     <SettingsSection title={t('settings.developer.title')}>
+                        <TouchableOpacity
+                            style={[styles.settingItem, styles.linkItem]}
+                            onPress={() => onNavigate('generation-stats')}
+                        >
+                            <View style={styles.settingInfo}>
+                                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                                    {t('stats.title')}
+                                </Text>
+                                <Text style={[styles.settingDescription, { color: colors.textMuted }]}>
+                                    {t('settings.developer.statsDesc')}
+                                </Text>
+                            </View>
+                            <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+                        </TouchableOpacity>
+                        {Platform.OS !== 'web' && (
+                            <TouchableOpacity
+                                style={[styles.settingItem, styles.linkItem]}
+                                onPress={() => onNavigate('api-server')}
+                            >
+                                <View style={styles.settingInfo}>
+                                    <Text style={[styles.settingLabel, { color: colors.text }]}>
+                                        {t('apiServer.title')}
+                                    </Text>
+                                    <Text style={[styles.settingDescription, { color: colors.textMuted }]}>
+                                        {isApiServerRunning
+                                            ? t('apiServer.running', { port: settings.apiServer.port })
+                                            : t('settings.developer.apiServerDesc')}
+                                    </Text>
+                                </View>
+                                <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+                            </TouchableOpacity>
+                        )}
                         <TouchableOpacity
                             style={[styles.settingItem, styles.linkItem]}
                             onPress={() => onNavigate('logs')}
@@ -368,6 +501,19 @@ export function SettingsScreen({ onNavigate, onBack }: SettingsScreenProps) {
                     </SettingsSection>
                 </ResponsiveContainer>
             </ScrollView>
+
+            <BackupExportModal
+                visible={showExportModal}
+                isExporting={isExporting}
+                onExport={handleExport}
+                onClose={() => setShowExportModal(false)}
+            />
+            <BackupImportModal
+                file={backupFile}
+                isImporting={isImporting}
+                onImport={handleImport}
+                onClose={() => setBackupFile(null)}
+            />
         </SafeAreaView>
     );
 }
@@ -412,6 +558,10 @@ const styles = StyleSheet.create({
     linkItem: {
         borderBottomWidth: 0,
     },
+    titleModelFields: {
+        paddingHorizontal: Spacing.md,
+        paddingTop: Spacing.md,
+    },
     settingInfo: {
         flex: 1,
         marginRight: Spacing.md,
@@ -1,4 +1,6 @@
+export { ApiServerScreen } from './ApiServerScreen';
 export { ChatScreen } from './ChatScreen';
+export { GenerationStatsScreen } from './GenerationStatsScreen';
 export { LanguageSelectScreen } from './LanguageSelectScreen';
 export { LicensesScreen } from './LicensesScreen';
 export { LLMEditorScreen } from './LLMEditorScreen';
@@ -7,8 +9,10 @@ export { LogsScreen } from './LogsScreen';
 export { ModelsScreen } from './ModelsScreen';
 export { PersonaEditorScreen } from './PersonaEditorScreen';
 export { PersonaListScreen } from './PersonaListScreen';
+export { PromptLibraryScreen } from './PromptLibraryScreen';
 export { RAGProviderEditorScreen } from './RAGProviderEditorScreen';
 export { RAGProviderListScreen } from './RAGProviderListScreen';
 export { RAGSettingsScreen } from './RAGSettingsScreen';
+export { SearchScreen } from './SearchScreen';
 export { SettingsScreen } from './SettingsScreen';
 
@@ -0,0 +1,25 @@
+/**
+ * Device Resources Utility - Native Implementation
+ * Total RAM from expo-device, free storage from react-native-fs
+ */
+import * as Device from 'expo-device';
+import RNFS from 'react-native-fs';
+import type { DeviceResources } from '../core/llm/memoryEstimator';
+
+/**
+ * Read the device's total memory and free storage
+ */
+export async function getDeviceResources(): Promise<DeviceResources> {
+    let freeStorage: number | null = null;
+    try {
+        const info = await RNFS.getFSInfo();
+        freeStorage = info.freeSpace;
+    } catch (error) {
+        console.warn('[DeviceResources] Failed to read storage info:', error);
+    }
+
+    return {
+        totalMemory: Device.totalMemory,
+        freeStorage,
+    };
+}
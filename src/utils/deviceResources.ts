@@ -0,0 +1,5 @@
+/**
+ * Device Resources Utility - Fallback
+ * Re-exports native implementation
+ */
+export * from './deviceResources.native';
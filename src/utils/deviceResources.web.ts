@@ -0,0 +1,30 @@
+/**
+ * Device Resources Utility - Web Implementation
+ * Browsers only expose coarse values: navigator.deviceMemory (GB, capped at 8)
+ * and the storage quota estimate
+ */
+import type { DeviceResources } from '../core/llm/memoryEstimator';
+
+const GB = 1024 * 1024 * 1024;
+
+/**
+ * Read the device's total memory and free storage
+ */
+export async function getDeviceResources(): Promise<DeviceResources> {
+    const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+
+    let freeStorage: number | null = null;
+    try {
+        const estimate = await navigator.storage?.estimate();
+        if (estimate?.quota !== undefined) {
+            freeStorage = estimate.quota - (estimate.usage ?? 0);
+        }
+    } catch (error) {
+        console.warn('[DeviceResources] Failed to estimate storage:', error);
+    }
+
+    return {
+        totalMemory: deviceMemory ? deviceMemory * GB : null,
+        freeStorage,
+    };
+}
@@ -0,0 +1,68 @@
+/**
+ * Native platform image picker implementation using expo-image-picker
+ */
+import * as ImagePicker from 'expo-image-picker';
+import { MAX_IMAGE_ATTACHMENTS, toDataUrl } from '../core/llm/images';
+import type { ImageSource, PickedImage } from './imagePicker';
+
+/** JPEG quality for picked images; keeps attachments small enough to store and send */
+const IMAGE_QUALITY = 0.7;
+
+export async function pickImages(
+    source: ImageSource,
+    limit: number = MAX_IMAGE_ATTACHMENTS
+): Promise<PickedImage[]> {
+    try {
+        const permission = source === 'camera'
+            ? await ImagePicker.requestCameraPermissionsAsync()
+            : await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (!permission.granted) {
+            console.log('[ImagePicker] Permission denied for', source);
+            return [];
+        }
+
+        const options: ImagePicker.ImagePickerOptions = {
+            mediaTypes: ['images'],
+            quality: IMAGE_QUALITY,
+            base64: true,
+        };
+        const result = source === 'camera'
+            ? await ImagePicker.launchCameraAsync(options)
+            : await ImagePicker.launchImageLibraryAsync({
+                ...options,
+                allowsMultipleSelection: limit > 1,
+                selectionLimit: limit,
+            });
+
+        if (result.canceled) {
+            console.log('[ImagePicker] User cancelled image picker');
+            return [];
+        }
+
+        return result.assets
+            .filter((asset) => !!asset.base64)
+            .slice(0, limit)
+            .map((asset) => {
+                const mimeType = asset.mimeType || 'image/jpeg';
+                return {
+                    uri: toDataUrl(asset.base64!, mimeType),
+                    mimeType,
+                    width: asset.width,
+                    height: asset.height,
+                };
+            });
+    } catch (error) {
+        console.error('[ImagePicker] Error picking images:', error);
+        return [];
+    }
+}
+
+/**
+ * Paste and drag-and-drop are web-only
+ */
+export async function readImageFiles(_files: File[], _limit?: number): Promise<PickedImage[]> {
+    return [];
+}
+
+// Re-export types
+export type { ImageSource, PickedImage };
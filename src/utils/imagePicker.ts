@@ -0,0 +1,21 @@
+/**
+ * Platform-agnostic image picker types and re-exports.
+ * Platform-specific implementations are resolved by Metro bundler:
+ * - imagePicker.native.ts for iOS/Android (camera and photo library)
+ * - imagePicker.web.ts for web (file input, paste and drag-and-drop)
+ */
+
+export type ImageSource = 'camera' | 'library';
+
+export interface PickedImage {
+    /** data: URL with base64 image content */
+    uri: string;
+    mimeType: string;
+    width?: number;
+    height?: number;
+}
+
+// Declare functions here so TypeScript knows about them,
+// but the actual implementations come from platform-specific files
+export declare function pickImages(source: ImageSource, limit?: number): Promise<PickedImage[]>;
+export declare function readImageFiles(files: File[], limit?: number): Promise<PickedImage[]>;
@@ -0,0 +1,104 @@
+/**
+ * Web platform image picker implementation using the File API.
+ * Large images are scaled down with a canvas before being stored.
+ */
+import { MAX_IMAGE_ATTACHMENTS } from '../core/llm/images';
+import type { ImageSource, PickedImage } from './imagePicker';
+
+/** Longest edge of stored images; larger images are scaled down */
+const MAX_IMAGE_DIMENSION = 1568;
+
+/** JPEG quality used when an image is scaled down */
+const IMAGE_QUALITY = 0.85;
+
+function readAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Could not decode image'));
+        image.src = src;
+    });
+}
+
+async function toPickedImage(file: File): Promise<PickedImage> {
+    const dataUrl = await readAsDataUrl(file);
+    const image = await loadImage(dataUrl);
+    const { naturalWidth: width, naturalHeight: height } = image;
+
+    const scale = MAX_IMAGE_DIMENSION / Math.max(width, height);
+    if (scale >= 1) {
+        return { uri: dataUrl, mimeType: file.type, width, height };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return {
+        uri: canvas.toDataURL('image/jpeg', IMAGE_QUALITY),
+        mimeType: 'image/jpeg',
+        width: canvas.width,
+        height: canvas.height,
+    };
+}
+
+/**
+ * Convert pasted or dropped files to images, skipping anything that isn't an image
+ */
+export async function readImageFiles(
+    files: File[],
+    limit: number = MAX_IMAGE_ATTACHMENTS
+): Promise<PickedImage[]> {
+    const imageFiles = files.filter((file) => file.type.startsWith('image/')).slice(0, limit);
+    const results = await Promise.allSettled(imageFiles.map(toPickedImage));
+
+    return results.flatMap((result) => {
+        if (result.status === 'fulfilled') return [result.value];
+        console.error('[ImagePicker] Error reading image:', result.reason);
+        return [];
+    });
+}
+
+/**
+ * Open a file dialog for images. The camera source uses the device camera where the browser supports it.
+ */
+export function pickImages(
+    source: ImageSource,
+    limit: number = MAX_IMAGE_ATTACHMENTS
+): Promise<PickedImage[]> {
+    return new Promise((resolve) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'image/*';
+        input.multiple = limit > 1;
+        if (source === 'camera') {
+            input.setAttribute('capture', 'environment');
+        }
+
+        input.onchange = async (event: Event) => {
+            const target = event.target as HTMLInputElement;
+            resolve(await readImageFiles(Array.from(target.files || []), limit));
+        };
+
+        // Handle cancel (when no file is selected)
+        input.oncancel = () => {
+            console.log('[ImagePicker] User cancelled image picker');
+            resolve([]);
+        };
+
+        input.click();
+    });
+}
+
+// Re-export types
+export type { ImageSource, PickedImage };
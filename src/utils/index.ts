@@ -1,3 +1,3 @@
 export * from './alert';
+export * from './deviceResources';
 export * from './ragContext';
-
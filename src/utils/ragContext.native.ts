@@ -37,13 +37,7 @@ export async function prepareContext(
 
         console.log('[RAGContext] Searching for context with', enabledSourceIds.length, 'sources');
 
-        const results = await ragRuntime.query(
-            prompt,
-            K_DOCUMENTS_TO_RETRIEVE,
-            (value: SearchResult) => {
-                return enabledSourceIds.includes(value.metadata?.documentId || 0);
-            }
-        );
+        const results = await ragRuntime.query(prompt, K_DOCUMENTS_TO_RETRIEVE, enabledSourceIds);
 
         if (!results || results.length === 0) {
             console.log('[RAGContext] No relevant context found');